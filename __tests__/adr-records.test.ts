@@ -0,0 +1,231 @@
+// Society Agent - ADR Export/Import Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { createDecision, supersedeDecision, initPlanningLog, type PlanningLog } from "../src/planning-log"
+import { adrFileName, parseAdr, readAdrDirectory, importAdrRecords, exportDecisionsToAdr, ADR_DIR } from "../src/adr-records"
+import { bootstrapExistingProject } from "../src/project-config"
+import { ProjectStore } from "../src/project-store"
+
+function databaseDecision(planningLog: PlanningLog) {
+	return createDecision(planningLog, {
+		title: "Use SQLite for orders",
+		category: "data",
+		context: "Orders need to be stored.",
+		options: [
+			{ id: "A", description: "SQLite", pros: ["No server"], cons: ["Single writer"] },
+			{ id: "B", description: "PostgreSQL", pros: ["Concurrent writes"], cons: [] },
+		],
+		chosenOptionId: "A",
+		decision: "Store orders in SQLite.",
+		rationale: "it is enough for one shop",
+		consequences: ["Backups are a file copy"],
+		relatedTasks: ["T-1"],
+		decidedBy: "architect",
+	})
+}
+
+const NYGARD_ADRS: Record<string, string> = {
+	"0001-record-architecture-decisions.md": `# 1. Record architecture decisions
+
+Date: 2024-03-01
+
+## Status
+
+Accepted
+
+Superseded by [2. Use MADR](0002-use-madr.md)
+
+## Context
+
+We need to record the architectural decisions made on this project.
+
+## Decision
+
+We will use Architecture Decision Records.
+
+## Consequences
+
+See Michael Nygard's article.
+`,
+	"0002-use-madr.md": `# 2. Use MADR
+
+Date: 2024-05-10
+
+## Status
+
+Accepted
+
+Supersedes [1. Record architecture decisions](0001-record-architecture-decisions.md)
+
+## Context
+
+Plain ADRs do not list the options we considered.
+
+## Decision
+
+We will write ADRs in MADR format.
+`,
+}
+
+describe("ADR records", () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "adr-test-"))
+	})
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it("should name files by number and title", () => {
+		expect(adrFileName(7, "Use PostgreSQL (for now)!")).toBe("0007-use-postgresql-for-now.md")
+	})
+
+	it("should round-trip decisions with their supersede links", async () => {
+		const planningLog = initPlanningLog("shop")
+		const old = databaseDecision(planningLog)
+		const { newDecision } = supersedeDecision(planningLog, old.id, {
+			title: "Use PostgreSQL for orders",
+			category: "data",
+			context: "Several workers write orders at once.",
+			options: [{ id: "B", description: "PostgreSQL", pros: [], cons: [] }],
+			chosenOptionId: "B",
+			decision: "Move orders to PostgreSQL.",
+			rationale: "writes are concurrent now",
+			decidedBy: "architect",
+		})!
+
+		const written = await exportDecisionsToAdr(dir, planningLog)
+		expect(written).toEqual(["0001-use-sqlite-for-orders.md", "0002-use-postgresql-for-orders.md"])
+
+		const first = fs.readFileSync(path.join(dir, ADR_DIR, written[0]), "utf-8")
+		expect(first).toContain("status: superseded by [ADR-0002](0002-use-postgresql-for-orders.md)")
+		expect(first).toContain('Chosen option: "A: SQLite", because it is enough for one shop')
+		expect(first).toContain("* Bad, because Single writer")
+		const second = fs.readFileSync(path.join(dir, ADR_DIR, written[1]), "utf-8")
+		expect(second).toContain("* Supersedes [ADR-0001](0001-use-sqlite-for-orders.md)")
+
+		// Nothing changes when exporting again or re-importing the same files
+		expect(await exportDecisionsToAdr(dir, planningLog)).toEqual([])
+		const reimported = importAdrRecords(planningLog, await readAdrDirectory(dir))
+		expect(reimported).toEqual({ created: [], updated: [], unchanged: [old.id, newDecision.id] })
+
+		// A fresh log gets the same decisions back
+		const copy = initPlanningLog("shop")
+		expect(importAdrRecords(copy, await readAdrDirectory(dir)).created).toEqual([old.id, newDecision.id])
+		expect(copy.decisions[0]).toMatchObject({
+			id: old.id,
+			status: "superseded",
+			supersededBy: newDecision.id,
+			options: old.options,
+			consequences: ["Backups are a file copy"],
+			relatedTasks: ["T-1"],
+			revisions: [expect.objectContaining({ changes: `Superseded by ${newDecision.id}` })],
+		})
+		expect(copy.decisions[1].relatedDecisions).toEqual([old.id])
+		expect(copy.sequence).toBe(2)
+	})
+
+	it("should record edits made to an ADR as a revision", async () => {
+		const planningLog = initPlanningLog("shop")
+		const decision = databaseDecision(planningLog)
+		const [file] = await exportDecisionsToAdr(dir, planningLog)
+		const filePath = path.join(dir, ADR_DIR, file)
+		fs.writeFileSync(filePath, fs.readFileSync(filePath, "utf-8").replace("Store orders in SQLite.", "Store orders in SQLite with WAL."))
+
+		const result = importAdrRecords(planningLog, await readAdrDirectory(dir), "alice")
+
+		expect(result.updated).toEqual([decision.id])
+		expect(decision.decision).toBe("Store orders in SQLite with WAL.")
+		expect(decision.revisions!.at(-1)).toMatchObject({ revisedBy: "alice", changes: `Updated decision from ${path.join(ADR_DIR, file)}` })
+	})
+
+	it("should import hand-written Nygard-style ADRs and link both sides", async () => {
+		fs.mkdirSync(path.join(dir, ADR_DIR), { recursive: true })
+		for (const [file, content] of Object.entries(NYGARD_ADRS)) {
+			fs.writeFileSync(path.join(dir, ADR_DIR, file), content)
+		}
+		fs.writeFileSync(path.join(dir, ADR_DIR, "README.md"), "# Decisions\n")
+
+		const records = await readAdrDirectory(dir)
+		expect(records.map((r) => r.file)).toEqual(Object.keys(NYGARD_ADRS))
+		expect(parseAdr(NYGARD_ADRS["0001-record-architecture-decisions.md"], "0001-record-architecture-decisions.md").decision).toMatchObject({
+			title: "Record architecture decisions",
+			context: "We need to record the architectural decisions made on this project.",
+			decision: "We will use Architecture Decision Records.",
+			consequences: ["See Michael Nygard's article."],
+			decidedAt: "2024-03-01T00:00:00.000Z",
+		})
+
+		const planningLog = initPlanningLog("shop")
+		const result = importAdrRecords(planningLog, records)
+
+		expect(result.created).toEqual(["D-ARCH-001", "D-ARCH-002"])
+		const [first, second] = planningLog.decisions
+		expect(first).toMatchObject({ status: "superseded", supersededBy: second.id, adrFile: "0001-record-architecture-decisions.md" })
+		expect(second).toMatchObject({ status: "accepted", relatedDecisions: [first.id] })
+
+		// Exporting keeps the existing file names
+		await exportDecisionsToAdr(dir, planningLog)
+		expect(fs.readdirSync(path.join(dir, ADR_DIR)).sort()).toEqual([...Object.keys(NYGARD_ADRS), "README.md"])
+		expect(fs.readFileSync(path.join(dir, ADR_DIR, "0002-use-madr.md"), "utf-8")).toContain("decision-id: D-ARCH-002")
+	})
+
+	it("should pick up existing ADRs when bootstrapping a project", async () => {
+		fs.mkdirSync(path.join(dir, ADR_DIR), { recursive: true })
+		fs.writeFileSync(path.join(dir, ADR_DIR, "0001-record-architecture-decisions.md"), NYGARD_ADRS["0001-record-architecture-decisions.md"])
+
+		const result = await bootstrapExistingProject(dir, { scanTasks: false, analyzeGit: false })
+
+		expect(result.adrRecords!.map((r) => r.decision.title)).toEqual(["Record architecture decisions"])
+	})
+})
+
+describe("ProjectStore ADR sync", () => {
+	let tmpDir: string
+	let store: ProjectStore
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "adr-store-test-"))
+		store = new ProjectStore(tmpDir)
+		store.create({ id: "shop", name: "Shop", description: "", agents: [] })
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should keep docs/adr up to date once it exists", async () => {
+		const adrDir = path.join(store.projectDir("shop"), ADR_DIR)
+		const first = await store.createDecision("shop", { ...decisionParams("Use REST") })
+		expect(fs.existsSync(adrDir)).toBe(false)
+
+		expect(await store.exportDecisionsToAdr("shop")).toEqual(["0001-use-rest.md"])
+		const { newDecision } = (await store.supersedeDecision("shop", first!.id, decisionParams("Use GraphQL")))!
+
+		expect(fs.readdirSync(adrDir).sort()).toEqual(["0001-use-rest.md", "0002-use-graphql.md"])
+		expect(fs.readFileSync(path.join(adrDir, "0001-use-rest.md"), "utf-8")).toContain("superseded by [ADR-0002]")
+		expect(store.get("shop")!.planningLog!.decisions.find((d) => d.id === newDecision.id)!.adrFile).toBe("0002-use-graphql.md")
+	})
+})
+
+function decisionParams(title: string) {
+	return {
+		title,
+		category: "api" as const,
+		context: "Clients need an API.",
+		options: [{ id: "A", description: title, pros: [], cons: [] }],
+		chosenOptionId: "A",
+		decision: title,
+		rationale: "it fits",
+		decidedBy: "architect",
+	}
+}
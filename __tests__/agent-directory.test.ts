@@ -157,6 +157,22 @@ describe("AgentDirectory", () => {
 			expect(contacts.peers).toEqual([])
 			expect(contacts.subordinates).toEqual([])
 		})
+
+		it("returns remote agents that accept external work", () => {
+			directory.setRemoteAgents("srv-b", [
+				makeEntry({ agentId: "shop/payments@srv-b", supervisorId: "human", acceptsExternalWork: true }),
+				makeEntry({ agentId: "shop/internal@srv-b", supervisorId: "human" }),
+			])
+			const contacts = directory.getContactsFor("supervisor-main")
+			expect(contacts.remote.map((a) => a.agentId)).toEqual(["shop/payments@srv-b"])
+			// Remote agents are not peers, even with the same supervisor ID
+			expect(contacts.peers).toEqual([])
+			expect(directory.canSendWorkTo("supervisor-main", "shop/payments@srv-b")).toBe(true)
+			expect(directory.canSendWorkTo("supervisor-main", "shop/internal@srv-b")).toBe(false)
+
+			directory.setRemoteAgents("srv-b", [])
+			expect(directory.getContactsFor("supervisor-main").remote).toEqual([])
+		})
 	})
 
 	// ─── Supervision chain ────────────────────────────────
@@ -6,6 +6,7 @@ import * as os from "os"
 import {
 	AgentIdentityManager,
 	getMessagePriority,
+	keyStatus,
 	isReplayAttack,
 	type SignedMessage,
 } from "../src/agent-identity"
@@ -195,6 +196,17 @@ describe("AgentIdentityManager", () => {
 			expect(validation.valid).toBe(false)
 		})
 
+		it("should cover nested data with the signature", async () => {
+			const result = await manager.createAgentIdentity("signer3", "worker", [], "team-1")
+			await manager.registerPublicKey("signer3", result.publicKeyPem)
+			await manager.loadIdentity(path.join(tmpDir, "agents", "signer3", "identity.json"))
+
+			const msg = manager.createSignedMessage("recipient", "task_assign", "Pay", { data: { invoice: { id: 7 } } })
+			expect(manager.verifyMessage({ ...msg, data: { invoice: { id: 8 } } })).toBe(false)
+			// Key order does not matter
+			expect(manager.verifyMessage(JSON.parse(JSON.stringify({ data: msg.data, ...msg })))).toBe(true)
+		})
+
 		it("should throw when signing without loaded identity", () => {
 			const fresh = new AgentIdentityManager(tmpDir)
 			expect(() => {
@@ -202,4 +214,90 @@ describe("AgentIdentityManager", () => {
 			}).toThrow("No identity loaded")
 		})
 	})
+
+	describe("key rotation and revocation", () => {
+		const HOUR = 60 * 60 * 1000
+
+		async function signer(agentId: string): Promise<AgentIdentityManager> {
+			const result = await manager.createAgentIdentity(agentId, "worker", [], "team-1")
+			await manager.registerPublicKey(agentId, result.publicKeyPem)
+			const own = new AgentIdentityManager(tmpDir)
+			await own.loadIdentity(path.join(tmpDir, "agents", agentId, "identity.json"))
+			return own
+		}
+
+		it("should accept the old key during the overlap window only", async () => {
+			const agent = await signer("rotating")
+			const before = agent.createSignedMessage("lead", "message", "signed with the first key")
+			const firstKey = agent.getFingerprint()
+
+			const rotated = await manager.rotateKey("rotating", { overlapMs: HOUR })
+			expect(rotated.keyId).not.toBe(firstKey)
+			expect(before.keyId).toBe(firstKey)
+
+			// The agent picks up its new key.pem on reload
+			await agent.loadIdentity(path.join(tmpDir, "agents", "rotating", "identity.json"))
+			const after = agent.createSignedMessage("lead", "message", "signed with the second key")
+			expect(after.keyId).toBe(rotated.keyId)
+
+			expect(manager.verifyMessage(before)).toBe(true)
+			expect(manager.verifyMessage(after)).toBe(true)
+			expect(manager.keyHistory("rotating").map((k) => k.status)).toEqual(["retiring", "active"])
+
+			// After the overlap the old key is retired
+			const old = manager.keyHistory("rotating")[0]
+			expect(keyStatus(old, Date.now() + 2 * HOUR)).toBe("retired")
+			vi.useFakeTimers({ now: Date.now() + 2 * HOUR, toFake: ["Date"] })
+			try {
+				expect(manager.verifyMessage(before)).toBe(false)
+				expect(manager.verifyMessage(after)).toBe(true)
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		it("should reject expired keys", async () => {
+			const short = new AgentIdentityManager(tmpDir, { keyLifetimeMs: HOUR })
+			const result = await short.createAgentIdentity("temp", "worker", [], "team-1")
+			const record = await short.registerPublicKey("temp", result.publicKeyPem)
+			expect(Date.parse(record.expiresAt!) - Date.parse(record.createdAt)).toBe(HOUR)
+
+			const agent = new AgentIdentityManager(tmpDir)
+			await agent.loadIdentity(path.join(tmpDir, "agents", "temp", "identity.json"))
+			const msg = agent.createSignedMessage("lead", "message", "hi")
+
+			expect(short.verifyMessage(msg)).toBe(true)
+			vi.useFakeTimers({ now: Date.now() + 2 * HOUR, toFake: ["Date"] })
+			try {
+				expect(short.verifyMessage(msg)).toBe(false)
+				expect(short.keyHistory("temp")[0].status).toBe("expired")
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		it("should stop revoked agents at once, including in other processes", async () => {
+			const agent = await signer("compromised")
+			const other = await signer("honest")
+			const msg = agent.createSignedMessage("lead", "message", "let me in")
+
+			// A verifier that loaded the keys before the revocation
+			const verifier = new AgentIdentityManager(tmpDir)
+			await verifier.loadPublicKeys()
+			expect(verifier.verifyMessage(msg)).toBe(true)
+
+			expect(manager.revokeAgent("compromised", "Key leaked")).toBe(1)
+			expect(verifier.verifyMessage(msg)).toBe(false)
+			expect(verifier.validateMessage(agent.createSignedMessage("lead", "message", "again"))).toEqual({
+				valid: false,
+				reason: "Unauthorized sender: compromised",
+			})
+			expect(verifier.verifyMessage(other.createSignedMessage("lead", "message", "still fine"))).toBe(true)
+
+			expect(verifier.revocationList()).toEqual([
+				expect.objectContaining({ agentId: "compromised", keyId: agent.getFingerprint(), revocationReason: "Key leaked" }),
+			])
+			await expect(manager.rotateKey("compromised")).rejects.toThrow("Unknown agent")
+		})
+	})
 })
@@ -0,0 +1,266 @@
+// Society Agent - Authentication Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+	hashPassword,
+	verifyPassword,
+	roleAtLeast,
+	getRequiredRole,
+	canAccessProject,
+	parseCookies,
+	UserStore,
+	AuthManager,
+	createAuthMiddleware,
+	SESSION_COOKIE,
+	type AuthProvider,
+	type AuthUser,
+} from "../src/auth"
+
+// Mock the logger
+vi.mock("../src/logger", () => ({
+	getLog: () => ({
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	}),
+}))
+
+function basic(username: string, password: string): string {
+	return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`
+}
+
+describe("password hashing", () => {
+	it("should verify the correct password only", () => {
+		const hash = hashPassword("correct horse")
+		expect(hash.startsWith("scrypt$")).toBe(true)
+		expect(verifyPassword("correct horse", hash)).toBe(true)
+		expect(verifyPassword("wrong horse", hash)).toBe(false)
+	})
+
+	it("should salt each hash", () => {
+		expect(hashPassword("same password")).not.toBe(hashPassword("same password"))
+	})
+
+	it("should reject malformed hashes", () => {
+		expect(verifyPassword("anything", "plain-text")).toBe(false)
+	})
+})
+
+describe("roles and route policy", () => {
+	it("should order roles viewer < operator < admin", () => {
+		expect(roleAtLeast("admin", "operator")).toBe(true)
+		expect(roleAtLeast("operator", "operator")).toBe(true)
+		expect(roleAtLeast("viewer", "operator")).toBe(false)
+	})
+
+	it("should leave login and status public", () => {
+		expect(getRequiredRole("POST", "/api/auth/login")).toBeNull()
+		expect(getRequiredRole("GET", "/api/auth/status")).toBeNull()
+		expect(getRequiredRole("POST", "/api/federation/inbox")).toBeNull()
+	})
+
+	it("should require viewer for reads and operator for writes", () => {
+		expect(getRequiredRole("GET", "/api/projects/p1/managed-tasks")).toBe("viewer")
+		expect(getRequiredRole("POST", "/api/agent/a1/chat")).toBe("operator")
+		expect(getRequiredRole("GET", "/")).toBe("viewer")
+	})
+
+	it("should reserve server configuration and shells for admins", () => {
+		expect(getRequiredRole("POST", "/api/terminal/execute")).toBe("admin")
+		expect(getRequiredRole("POST", "/api/config/api-key")).toBe("admin")
+		expect(getRequiredRole("GET", "/api/config/api-key")).toBe("admin")
+		expect(getRequiredRole("DELETE", "/api/projects/p1")).toBe("admin")
+		expect(getRequiredRole("GET", "/api/auth/users")).toBe("admin")
+		expect(getRequiredRole("GET", "/api/vault/audit")).toBe("admin")
+		expect(getRequiredRole("GET", "/api/queues/p1%3Aa1")).toBe("admin")
+		expect(getRequiredRole("POST", "/api/projects/p1/identities/a1/revoke")).toBe("admin")
+		expect(getRequiredRole("GET", "/api/projects/p1/identities")).toBe("viewer")
+		expect(getRequiredRole("DELETE", "/api/federation/peers/srv-b")).toBe("admin")
+	})
+
+	it("should let every signed-in user manage their own tokens", () => {
+		expect(getRequiredRole("POST", "/api/auth/tokens")).toBe("viewer")
+		expect(getRequiredRole("DELETE", "/api/auth/tokens/tok-1")).toBe("viewer")
+	})
+
+	it("should scope project access by membership", () => {
+		const member: AuthUser = { id: "u1", username: "u1", role: "operator", projects: ["p1"], via: "password" }
+		expect(canAccessProject(member, "p1")).toBe(true)
+		expect(canAccessProject(member, "p2")).toBe(false)
+		expect(canAccessProject({ ...member, projects: ["*"] }, "p2")).toBe(true)
+		expect(canAccessProject({ ...member, role: "admin", projects: [] }, "p2")).toBe(true)
+	})
+})
+
+describe("parseCookies", () => {
+	it("should parse and decode cookies", () => {
+		expect(parseCookies("a=1; b=hello%20world")).toEqual({ a: "1", b: "hello world" })
+		expect(parseCookies(undefined)).toEqual({})
+	})
+})
+
+describe("UserStore and AuthManager", () => {
+	let tmpDir: string
+	let storePath: string
+	let users: UserStore
+	let auth: AuthManager
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-test-"))
+		storePath = path.join(tmpDir, "users.json")
+		users = new UserStore(storePath)
+		auth = new AuthManager(users, { enabled: true })
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should never persist plain passwords or tokens", () => {
+		const user = users.createUser({ username: "alice", password: "alice-password", role: "operator" })
+		const { token } = users.createToken(user.id, { name: "ci" })
+		const raw = fs.readFileSync(storePath, "utf-8")
+		expect(raw).not.toContain("alice-password")
+		expect(raw).not.toContain(token)
+		expect(user).not.toHaveProperty("passwordHash")
+	})
+
+	it("should validate usernames, roles and password length", () => {
+		expect(() => users.createUser({ username: "a b", password: "long-enough", role: "viewer" })).toThrow(/Username/)
+		expect(() => users.createUser({ username: "bob", password: "short", role: "viewer" })).toThrow(/at least/)
+		expect(() => users.createUser({ username: "bob", password: "long-enough", role: "root" as any })).toThrow(/role/)
+		users.createUser({ username: "bob", password: "long-enough", role: "viewer" })
+		expect(() => users.createUser({ username: "BOB", password: "long-enough", role: "viewer" })).toThrow(/exists/)
+	})
+
+	it("should authenticate with HTTP Basic", () => {
+		users.createUser({ username: "alice", password: "alice-password", role: "operator", projects: ["p1"] })
+		const user = auth.authenticate({ authorization: basic("alice", "alice-password") })
+		expect(user).toMatchObject({ username: "alice", role: "operator", projects: ["p1"], via: "password" })
+		expect(auth.authenticate({ authorization: basic("alice", "wrong") })).toBeNull()
+		expect(auth.authenticate({})).toBeNull()
+	})
+
+	it("should authenticate with bearer API tokens until revoked", () => {
+		const alice = users.createUser({ username: "alice", password: "alice-password", role: "viewer" })
+		const { token, record } = users.createToken(alice.id, { name: "script" })
+		expect(auth.authenticate({ authorization: `Bearer ${token}` })?.via).toBe("token")
+		expect(auth.authenticate({ token })?.username).toBe("alice")
+		users.revokeToken(record.id)
+		expect(auth.authenticate({ authorization: `Bearer ${token}` })).toBeNull()
+	})
+
+	it("should reject expired tokens", () => {
+		vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") })
+		try {
+			const alice = users.createUser({ username: "alice", password: "alice-password", role: "viewer" })
+			const { token } = users.createToken(alice.id, { name: "short-lived", expiresInMs: 60_000 })
+			expect(auth.authenticate({ token })).not.toBeNull()
+			vi.setSystemTime(new Date("2026-01-01T00:02:00Z"))
+			expect(auth.authenticate({ token })).toBeNull()
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+
+	it("should authenticate session cookies and not accept them as API tokens", () => {
+		const alice = users.createUser({ username: "alice", password: "alice-password", role: "viewer" })
+		const session = auth.createSession(alice.id)
+		expect(auth.authenticate({ cookie: `${SESSION_COOKIE}=${session}` })?.via).toBe("session")
+		expect(auth.authenticate({ authorization: `Bearer ${session}` })).toBeNull()
+	})
+
+	it("should sign out sessions when the password changes", () => {
+		const alice = users.createUser({ username: "alice", password: "alice-password", role: "viewer" })
+		const session = auth.createSession(alice.id)
+		users.updateUser(alice.id, { password: "new-password" })
+		expect(auth.authenticate({ cookie: `${SESSION_COOKIE}=${session}` })).toBeNull()
+	})
+
+	it("should reject disabled users", () => {
+		const alice = users.createUser({ username: "alice", password: "alice-password", role: "viewer" })
+		users.updateUser(alice.id, { disabled: true })
+		expect(auth.authenticate({ authorization: basic("alice", "alice-password") })).toBeNull()
+	})
+
+	it("should treat every caller as admin when disabled", () => {
+		const open = new AuthManager(users, { enabled: false })
+		expect(open.authenticate({})?.role).toBe("admin")
+	})
+
+	it("should support custom providers", () => {
+		const provider: AuthProvider = {
+			name: "proxy",
+			authenticate: (credentials) =>
+				credentials.authorization === "Proxy trusted"
+					? { id: "sso-1", username: "sso", role: "operator", projects: ["*"], via: "proxy" }
+					: null,
+		}
+		auth.registerProvider(provider)
+		expect(auth.getProviderNames()).toContain("proxy")
+		expect(auth.authenticate({ authorization: "Proxy trusted" })?.username).toBe("sso")
+	})
+
+	it("should create an admin from the environment on first start", () => {
+		auth.ensureAdminUser({ SOCIETY_ADMIN_USER: "root-admin", SOCIETY_ADMIN_PASSWORD: "bootstrap-pass" })
+		expect(users.verifyCredentials("root-admin", "bootstrap-pass")?.role).toBe("admin")
+		// Existing users are left alone
+		auth.ensureAdminUser({ SOCIETY_ADMIN_USER: "other", SOCIETY_ADMIN_PASSWORD: "other-pass" })
+		expect(users.findByUsername("other")).toBeUndefined()
+	})
+
+	it("should give HTTP Basic clients one session across requests", () => {
+		const alice = users.createUser({ username: "alice", password: "alice-password", role: "viewer" })
+		const middleware = createAuthMiddleware(auth, () => undefined)
+		const request = (cookie?: string) => {
+			const cookies: string[] = []
+			const req = { method: "GET", path: "/api/status", headers: { authorization: basic("alice", "alice-password"), cookie } } as any
+			const res = { append: (_name: string, value: string) => cookies.push(value) } as any
+			const next = vi.fn()
+			middleware(req, res, next)
+			expect(next).toHaveBeenCalled()
+			return cookies
+		}
+
+		const [first] = request()
+		expect(request()).toEqual([first])
+		expect(users.listTokens(alice.id, "session")).toHaveLength(1)
+
+		// A browser sending the cookie back is not issued another one
+		const token = parseCookies(first)[SESSION_COOKIE]
+		expect(request(`${SESSION_COOKIE}=${token}`)).toEqual([])
+
+		// Logging out revokes the session; the next Basic request starts a new one
+		users.revokeTokenValue(token)
+		expect(request()).not.toEqual([first])
+		expect(users.listTokens(alice.id, "session")).toHaveLength(1)
+	})
+
+	it("should require access to every project for data outside projects", () => {
+		users.createUser({ username: "alice", password: "alice-password", role: "operator", projects: ["p1"] })
+		users.createUser({ username: "bob", password: "bob-password", role: "viewer", projects: ["*"] })
+		const middleware = createAuthMiddleware(auth, () => "*")
+		const call = (authorization: string) => {
+			const res = { append: vi.fn(), status: vi.fn(), json: vi.fn() } as any
+			res.status.mockReturnValue(res)
+			const next = vi.fn()
+			middleware({ method: "GET", path: "/api/purposes", headers: { authorization } } as any, res, next)
+			return { next, res }
+		}
+
+		const alice = call(basic("alice", "alice-password"))
+		expect(alice.next).not.toHaveBeenCalled()
+		expect(alice.res.status).toHaveBeenCalledWith(403)
+		expect(alice.res.json).toHaveBeenCalledWith({ error: "Requires access to all projects" })
+		expect(call(basic("bob", "bob-password")).next).toHaveBeenCalled()
+	})
+
+	it("should reload users from disk", () => {
+		users.createUser({ username: "alice", password: "alice-password", role: "admin" })
+		const reloaded = new UserStore(storePath)
+		expect(reloaded.verifyCredentials("alice", "alice-password")?.role).toBe("admin")
+	})
+})
@@ -0,0 +1,170 @@
+// Society Agent - Cost Budget Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { CostBudgetManager, validateBudgetLimits, describeBudgetBreach, dayKey, monthKey } from "../src/cost-budgets"
+
+// Mock the logger
+vi.mock("../src/logger", () => ({
+	getLog: () => ({
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	}),
+}))
+
+/** Local-time date helper (periods roll over at local midnight) */
+function at(year: number, month: number, day: number, hour = 12): Date {
+	return new Date(year, month - 1, day, hour, 0, 0, 0)
+}
+
+describe("validateBudgetLimits", () => {
+	it("should accept numbers and null", () => {
+		expect(validateBudgetLimits({ dailyUsd: 5, monthlyUsd: null })).toBeNull()
+	})
+
+	it("should reject unknown fields and negative or non-numeric values", () => {
+		expect(validateBudgetLimits({ weeklyUsd: 5 })).toMatch(/Unknown limit/)
+		expect(validateBudgetLimits({ dailyUsd: -1 })).toMatch(/non-negative/)
+		expect(validateBudgetLimits({ dailyUsd: "5" })).toMatch(/non-negative/)
+		expect(validateBudgetLimits([])).toMatch(/object/)
+	})
+})
+
+describe("CostBudgetManager", () => {
+	let tmpDir: string
+	let storePath: string
+	let budgets: CostBudgetManager
+	const subject = { projectId: "p1", agentId: "coder", taskId: "T-API-001" }
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cost-budgets-test-"))
+		storePath = path.join(tmpDir, "budgets.json")
+		budgets = new CostBudgetManager(storePath)
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should allow spending when no limits are set", () => {
+		budgets.recordSpend(subject, 100)
+		expect(budgets.check(subject)).toBeNull()
+	})
+
+	it("should stop an agent once its daily limit is reached", () => {
+		const now = at(2026, 3, 10)
+		budgets.setLimits("agent", { dailyUsd: 1 }, "p1", "coder")
+		budgets.recordSpend(subject, 0.6, now)
+		expect(budgets.check(subject, now)).toBeNull()
+		budgets.recordSpend(subject, 0.4, now)
+		const breach = budgets.check(subject, now)
+		expect(breach).toMatchObject({ scope: "agent", target: "p1/coder", period: "daily", periodKey: "2026-03-10", limitUsd: 1 })
+		expect(breach!.spentUsd).toBeCloseTo(1)
+		// Other agents in the project are unaffected
+		expect(budgets.check({ projectId: "p1", agentId: "tester" }, now)).toBeNull()
+	})
+
+	it("should reset daily spend at local midnight but keep the month", () => {
+		budgets.setLimits("project", { dailyUsd: 1, monthlyUsd: 10 }, "p1")
+		budgets.recordSpend(subject, 1.5, at(2026, 3, 10, 23))
+		expect(budgets.check(subject, at(2026, 3, 10, 23))?.period).toBe("daily")
+		expect(budgets.check(subject, at(2026, 3, 11, 0))).toBeNull()
+		expect(budgets.getSpend("project", subject, "monthly", at(2026, 3, 11, 0))).toBeCloseTo(1.5)
+	})
+
+	it("should enforce monthly limits across days", () => {
+		budgets.setLimits("server", { monthlyUsd: 2 })
+		budgets.recordSpend(subject, 1, at(2026, 3, 1))
+		budgets.recordSpend({ projectId: "p2", agentId: "other" }, 1, at(2026, 3, 2))
+		expect(budgets.check(subject, at(2026, 3, 3))).toMatchObject({ scope: "server", period: "monthly", periodKey: "2026-03" })
+	})
+
+	it("should total task spend across agents for perTask limits", () => {
+		budgets.setLimits("project", { perTaskUsd: 2 }, "p1")
+		budgets.recordSpend({ ...subject, agentId: "worker-1" }, 1.2)
+		budgets.recordSpend({ ...subject, agentId: "worker-2" }, 0.8)
+		expect(budgets.check(subject)).toMatchObject({ scope: "project", period: "perTask", periodKey: "T-API-001" })
+		// A different task, or no task at all, is not affected
+		expect(budgets.check({ ...subject, taskId: "T-API-002" })).toBeNull()
+		expect(budgets.check({ projectId: "p1", agentId: "coder" })).toBeNull()
+	})
+
+	it("should check the server before projects and agents", () => {
+		budgets.setLimits("server", { dailyUsd: 1 })
+		budgets.setLimits("agent", { dailyUsd: 1 }, "p1", "coder")
+		budgets.recordSpend(subject, 1)
+		expect(budgets.check(subject)?.scope).toBe("server")
+	})
+
+	it("should merge partial updates and clear limits with null", () => {
+		budgets.setLimits("project", { dailyUsd: 1, monthlyUsd: 10 }, "p1")
+		expect(budgets.setLimits("project", { dailyUsd: null }, "p1")).toEqual({ monthlyUsd: 10 })
+		expect(() => budgets.setLimits("agent", { dailyUsd: 1 }, "p1")).toThrow(/agentId/)
+		expect(() => budgets.setLimits("server", { dailyUsd: -1 })).toThrow(/non-negative/)
+	})
+
+	it("should raise a limit for the current period only when an override is granted", () => {
+		const now = at(2026, 3, 10)
+		budgets.setLimits("agent", { dailyUsd: 1 }, "p1", "coder")
+		budgets.recordSpend(subject, 1, now)
+		const breach = budgets.check(subject, now)!
+		const override = budgets.grantOverride(breach, "alice", 0.5)
+		expect(override).toMatchObject({ extraUsd: 0.5, grantedBy: "alice", periodKey: dayKey(now) })
+		expect(budgets.check(subject, now)).toBeNull()
+		budgets.recordSpend(subject, 0.5, now)
+		expect(budgets.check(subject, now)?.limitUsd).toBeCloseTo(1.5)
+	})
+
+	it("should default an override to one more limit's worth", () => {
+		budgets.setLimits("agent", { dailyUsd: 2 }, "p1", "coder")
+		budgets.recordSpend(subject, 2)
+		expect(budgets.grantOverride(budgets.check(subject)!, "alice").extraUsd).toBe(2)
+		expect(() => budgets.grantOverride(budgets.check(subject) ?? ({} as any), "alice", 0)).toThrow(/positive/)
+	})
+
+	it("should report spend against configured limits", () => {
+		const now = at(2026, 3, 10)
+		budgets.setLimits("project", { dailyUsd: 4, monthlyUsd: 50 }, "p1")
+		budgets.setLimits("project", { dailyUsd: 4 }, "p2")
+		budgets.recordSpend(subject, 1, now)
+		const status = budgets.getStatus("p1", now)
+		expect(status).toHaveLength(2)
+		expect(status[0]).toMatchObject({ scope: "project", period: "daily", limitUsd: 4, spentUsd: 1, remainingUsd: 3, exceeded: false })
+		expect(status[1]).toMatchObject({ period: "monthly", periodKey: monthKey(now) })
+	})
+
+	it("should persist limits, overrides and spend", () => {
+		budgets.setLimits("agent", { dailyUsd: 1 }, "p1", "coder")
+		budgets.recordSpend(subject, 1)
+		budgets.flush()
+		const reloaded = new CostBudgetManager(storePath)
+		expect(reloaded.getAgentLimits("p1", "coder")).toEqual({ dailyUsd: 1 })
+		expect(reloaded.check(subject)?.scope).toBe("agent")
+	})
+
+	it("should drop limits when a project is removed", () => {
+		budgets.setLimits("project", { dailyUsd: 1 }, "p1")
+		budgets.setLimits("agent", { dailyUsd: 1 }, "p1", "coder")
+		budgets.removeProject("p1")
+		expect(budgets.getConfig()).toMatchObject({ projects: {}, agents: {} })
+	})
+})
+
+describe("describeBudgetBreach", () => {
+	it("should name the scope, period and amounts", () => {
+		const text = describeBudgetBreach({
+			scope: "project",
+			target: "p1",
+			period: "daily",
+			periodKey: "2026-03-10",
+			limitUsd: 5,
+			spentUsd: 5.1234,
+			projectId: "p1",
+			agentId: "coder",
+		})
+		expect(text).toBe("Project p1 daily (2026-03-10) budget reached: $5.1234 of $5.00")
+	})
+})
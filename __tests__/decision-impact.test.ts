@@ -0,0 +1,129 @@
+// Society Agent - Decision Impact Analysis Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { createDecision, initPlanningLog, type PlanningLog } from "../src/planning-log"
+import { analyzeDecisionImpact, planReworkTasks, formatImpactReport } from "../src/decision-impact"
+import { createOwnershipRegistry, registerFileOwnership } from "../src/file-ownership"
+import { createTask, type ManagedTask } from "../src/task-manager"
+import { ProjectStore } from "../src/project-store"
+
+function decide(planningLog: PlanningLog, title: string, links: { relatedTasks?: string[]; relatedDecisions?: string[] } = {}) {
+	return createDecision(planningLog, {
+		title,
+		category: "architecture",
+		context: "",
+		options: [{ id: "A", description: title, pros: [], cons: [] }],
+		chosenOptionId: "A",
+		decision: title,
+		rationale: "it fits",
+		decidedBy: "architect",
+		...links,
+	})
+}
+
+function task(taskId: string, status: ManagedTask["status"], assignedTo?: string): ManagedTask {
+	return { ...createTask("T", 1, { title: `Work for ${taskId}`, description: "", createdBy: "architect" }), taskId, status, assignedTo }
+}
+
+describe("analyzeDecisionImpact", () => {
+	it("should follow dependent decisions, their tasks and the files those tasks created", () => {
+		const planningLog = initPlanningLog("shop")
+		const root = decide(planningLog, "Use REST", { relatedTasks: ["T-1", "T-9"] })
+		const client = decide(planningLog, "Generate a REST client", { relatedDecisions: [root.id], relatedTasks: ["T-2"] })
+		decide(planningLog, "Cache client responses", { relatedDecisions: [client.id], relatedTasks: ["T-3"] })
+		decide(planningLog, "Unrelated", { relatedTasks: ["T-4"] })
+
+		const registry = createOwnershipRegistry()
+		registerFileOwnership(registry, "src/api.ts", "backend", { taskId: "T-1" })
+		registerFileOwnership(registry, "src/client.ts", "frontend", { taskId: "T-2" })
+		registerFileOwnership(registry, "src/other.ts", "frontend", { taskId: "T-4" })
+		const tasks = [task("T-1", "done", "backend"), task("T-2", "in_progress", "frontend"), task("T-3", "planned"), task("T-4", "done", "frontend")]
+
+		const report = analyzeDecisionImpact(planningLog, root.id, { tasks, registry })!
+
+		expect(report.decisions.map((d) => [d.title, d.dependsOn])).toEqual([
+			["Generate a REST client", root.id],
+			["Cache client responses", client.id],
+		])
+		expect(report.tasks.map((t) => t.taskId)).toEqual(["T-1", "T-2", "T-3"])
+		expect(report.unknownTasks).toEqual(["T-9"])
+		expect(report.files).toEqual([
+			{ path: "src/api.ts", owner: "backend", createdByTask: "T-1" },
+			{ path: "src/client.ts", owner: "frontend", createdByTask: "T-2" },
+		])
+		expect(formatImpactReport(report)).toContain("| src/client.ts | frontend | T-2 |")
+	})
+
+	it("should plan one rework task per owner of started work", () => {
+		const planningLog = initPlanningLog("shop")
+		const root = decide(planningLog, "Use REST", { relatedTasks: ["T-1", "T-2", "T-3"] })
+		const registry = createOwnershipRegistry()
+		registerFileOwnership(registry, "src/api.ts", "backend", { taskId: "T-1" })
+		registerFileOwnership(registry, "src/routes.ts", "backend", { taskId: "T-1" })
+		const tasks = [task("T-1", "verified", "backend"), task("T-2", "review", "qa"), task("T-3", "delegated", "frontend")]
+
+		const report = analyzeDecisionImpact(planningLog, root.id, { tasks, registry })!
+		const plans = planReworkTasks(report, { id: "D-ARCH-002", title: "Use GraphQL" })
+
+		expect(plans.map((p) => [p.owner, p.files, p.taskIds])).toEqual([
+			["backend", ["src/api.ts", "src/routes.ts"], ["T-1"]],
+			["qa", [], ["T-2"]],
+		])
+		expect(plans[0].description).toContain("superseded by D-ARCH-002 (Use GraphQL)")
+	})
+})
+
+describe("ProjectStore.supersedeDecision impact", () => {
+	let tmpDir: string
+	let store: ProjectStore
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "decision-impact-test-"))
+		store = new ProjectStore(tmpDir)
+		store.create({ id: "shop", name: "Shop", description: "", agents: [] })
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should report the impact and delegate rework to the file owners", async () => {
+		const work = store.createManagedTask("shop", { title: "Build REST API", description: "", createdBy: "architect" })!
+		await store.registerFile("shop", "src/api.ts", "backend", { taskId: work.taskId })
+		const old = (await store.createDecision("shop", {
+			title: "Use REST",
+			category: "api",
+			context: "",
+			options: [],
+			chosenOptionId: "",
+			decision: "REST",
+			rationale: "simple",
+			relatedTasks: [work.taskId],
+			decidedBy: "architect",
+		}))!
+
+		const result = (await store.supersedeDecision(
+			"shop",
+			old.id,
+			{ title: "Use GraphQL", category: "api", context: "", options: [], chosenOptionId: "", decision: "GraphQL", rationale: "clients vary", decidedBy: "architect" },
+			{ createReworkTasks: true },
+		))!
+
+		expect(result.impact!.files.map((f) => f.path)).toEqual(["src/api.ts"])
+		expect(result.impact!.reworkTasks).toHaveLength(1)
+		const rework = store.getManagedTask("shop", result.impact!.reworkTasks![0])!
+		expect(rework).toMatchObject({ status: "delegated", assignedTo: "backend", context: { relevantFiles: ["src/api.ts"] } })
+
+		// Superseding a decision that was never accepted has nothing to report
+		const proposed = (await store.proposeDecision("shop", { title: "Use gRPC", category: "api", context: "", options: [], decidedBy: "architect" }))!
+		const again = await store.supersedeDecision("shop", proposed.id, { title: "Skip gRPC", category: "api", context: "", options: [], chosenOptionId: "", decision: "", rationale: "", decidedBy: "architect" })
+		expect(again!.impact).toBeUndefined()
+	})
+})
@@ -0,0 +1,156 @@
+// Society Agent - Execution Sandbox Tests
+import { describe, it, expect, afterEach, beforeAll, afterAll } from "vitest"
+import { execFileSync } from "child_process"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+	buildSandboxArgs,
+	effectiveTimeout,
+	isSandboxAvailable,
+	resolveExecutionSettings,
+	shellQuote,
+	validateExecutionSettings,
+	wrapShellCommand,
+	wrapShellCommandLine,
+	SandboxUnavailableError,
+	type SandboxSpec,
+} from "../src/execution-sandbox"
+import { CommandExecutor } from "../src/command-executor"
+
+const SPEC: SandboxSpec = {
+	settings: { backend: "sandbox", network: "deny", limits: { cpuSeconds: 30, memoryMb: 512 } },
+	paths: {
+		cwd: "/ws/projects/shop/backend",
+		writable: ["/ws/projects/shop/backend"],
+		readOnly: ["/ws/projects/shop"],
+		hidden: ["/ws"],
+	},
+	env: { NODE_ENV: "test" },
+}
+
+describe("execution settings", () => {
+	afterEach(() => {
+		delete process.env.SOCIETY_EXECUTION_BACKEND
+	})
+
+	it("should validate settings from API bodies", () => {
+		expect(validateExecutionSettings(undefined)).toBeNull()
+		expect(validateExecutionSettings(null)).toBeNull()
+		expect(validateExecutionSettings({ backend: "sandbox", network: "deny", limits: { cpuSeconds: 10, timeoutMs: null } })).toBeNull()
+		expect(validateExecutionSettings("sandbox")).toBe("execution must be an object")
+		expect(validateExecutionSettings({ backend: "docker" })).toMatch(/backend must be one of: host, sandbox/)
+		expect(validateExecutionSettings({ network: "offline" })).toMatch(/network must be/)
+		expect(validateExecutionSettings({ limits: { memoryMb: -1 } })).toMatch(/memoryMb must be a positive number/)
+		expect(validateExecutionSettings({ limits: { disk: 5 } })).toBe("Unknown execution limit: disk")
+		expect(validateExecutionSettings({ sandbox: true })).toBe("Unknown execution setting: sandbox")
+	})
+
+	it("should resolve settings field by field with the first layer winning", () => {
+		const resolved = resolveExecutionSettings(
+			{ limits: { cpuSeconds: 5 } },
+			undefined,
+			{ backend: "sandbox", network: "deny", limits: { cpuSeconds: 60, memoryMb: 256 } },
+		)
+		expect(resolved).toEqual({ backend: "sandbox", network: "deny", limits: { cpuSeconds: 5, memoryMb: 256 } })
+		expect(resolveExecutionSettings({ backend: "host" }, { backend: "sandbox" }).backend).toBe("host")
+	})
+
+	it("should default to the host backend unless the server default says otherwise", () => {
+		expect(resolveExecutionSettings()).toEqual({ backend: "host", network: "allow", limits: {} })
+		process.env.SOCIETY_EXECUTION_BACKEND = "sandbox"
+		expect(resolveExecutionSettings().backend).toBe("sandbox")
+		expect(resolveExecutionSettings({ backend: "host" }).backend).toBe("host")
+	})
+
+	it("should cap timeouts only in the sandbox", () => {
+		const limits = { timeoutMs: 60000 }
+		expect(effectiveTimeout(600000, { backend: "sandbox", network: "allow", limits })).toBe(60000)
+		expect(effectiveTimeout(30000, { backend: "sandbox", network: "allow", limits })).toBe(30000)
+		expect(effectiveTimeout(600000, { backend: "host", network: "allow", limits })).toBe(600000)
+	})
+})
+
+describe("sandbox command line", () => {
+	it("should hide the workspace, expose the project read-only and the home folder read-write", () => {
+		const args = buildSandboxArgs("npm test", SPEC, { PATH: "/usr/bin:/bin", ANTHROPIC_API_KEY: "sk-secret" })
+		const joined = args.join(" ")
+		expect(args.slice(0, 3)).toEqual(["--unshare-all", "--new-session", "--die-with-parent"])
+		expect(args).not.toContain("--share-net")
+		expect(joined).toContain("--ro-bind / /")
+		// Mount order decides what wins: hide, then re-expose read-only, then writable
+		const hide = joined.indexOf("--tmpfs /ws")
+		const project = joined.indexOf("--ro-bind /ws/projects/shop /ws/projects/shop")
+		const home = joined.indexOf("--bind /ws/projects/shop/backend /ws/projects/shop/backend")
+		expect(hide).toBeGreaterThan(0)
+		expect(project).toBeGreaterThan(hide)
+		expect(home).toBeGreaterThan(project)
+		expect(joined).toContain("--chdir /ws/projects/shop/backend --clearenv --setenv PATH /usr/bin:/bin")
+		expect(joined).toContain("--setenv HOME /ws/projects/shop/backend")
+		expect(joined).toContain("--setenv NODE_ENV test")
+		expect(joined).not.toContain("sk-secret")
+		expect(args.slice(-4)).toEqual(["--", "bash", "-c", "ulimit -t 30 && ulimit -d 524288 && npm test"])
+	})
+
+	it("should share the network when allowed and skip limits that are not set", () => {
+		const args = buildSandboxArgs("ls", { ...SPEC, settings: { backend: "sandbox", network: "allow", limits: {} } }, {})
+		expect(args).toContain("--share-net")
+		expect(args[args.length - 1]).toBe("ls")
+	})
+
+	it("should run on the host without a sandbox spec", () => {
+		expect(wrapShellCommand("echo hi")).toEqual({ file: "bash", args: ["-c", "echo hi"] })
+		expect(wrapShellCommand("echo hi", { ...SPEC, settings: { ...SPEC.settings, backend: "host" } }).file).toBe("bash")
+		expect(wrapShellCommandLine("echo hi")).toBe("echo hi")
+	})
+
+	it("should quote arguments so bash reads them back unchanged", () => {
+		const values = ["plain", "two words", "it's", `"double" $HOME \`tick\``, ""]
+		const echoed = execFileSync("bash", ["-c", `printf '%s\\n' ${values.map(shellQuote).join(" ")}`], { encoding: "utf-8" })
+		expect(echoed).toBe(values.map((v) => `${v}\n`).join(""))
+	})
+
+	it.skipIf(isSandboxAvailable())("should fail closed when bubblewrap is missing", async () => {
+		expect(() => wrapShellCommand("echo hi", SPEC)).toThrow(SandboxUnavailableError)
+		await expect(new CommandExecutor().executeCommand("echo hi", { cwd: os.tmpdir(), sandbox: SPEC })).rejects.toThrow(SandboxUnavailableError)
+	})
+})
+
+describe.skipIf(!isSandboxAvailable())("bubblewrap sandbox", () => {
+	let workspace: string
+	let spec: SandboxSpec
+
+	beforeAll(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-test-"))
+		const home = path.join(workspace, "projects", "shop", "backend")
+		fs.mkdirSync(home, { recursive: true })
+		fs.writeFileSync(path.join(workspace, ".env"), "ANTHROPIC_API_KEY=sk-secret")
+		fs.writeFileSync(path.join(workspace, "projects", "shop", "README.md"), "shop")
+		spec = {
+			settings: { backend: "sandbox", network: "deny", limits: {} },
+			paths: { cwd: home, writable: [home], readOnly: [path.join(workspace, "projects", "shop")], hidden: [workspace] },
+		}
+	})
+
+	afterAll(() => {
+		fs.rmSync(workspace, { recursive: true, force: true })
+	})
+
+	it("should confine writes to the home folder and hide the rest of the workspace", async () => {
+		const output: string[] = []
+		await new CommandExecutor().executeCommand(
+			`echo ok > out.txt && cat ../README.md && (test -e ${workspace}/.env && echo leaked || echo hidden) && (touch ../x 2>/dev/null && echo writable || echo readonly)`,
+			{ cwd: spec.paths.cwd, sandbox: spec, onOutput: (data) => output.push(data) },
+		)
+		expect(output.join("").split("\n").filter(Boolean)).toEqual(["shop", "hidden", "readonly"])
+		expect(fs.readFileSync(path.join(spec.paths.cwd, "out.txt"), "utf-8")).toBe("ok\n")
+	})
+
+	it("should stop the sandboxed command when it times out", async () => {
+		await expect(new CommandExecutor().executeCommand("sleep 3117", { cwd: spec.paths.cwd, sandbox: spec, timeout: 500 })).rejects.toThrow(
+			"Command execution timeout",
+		)
+		await new Promise((resolve) => setTimeout(resolve, 500))
+		expect(execFileSync("ps", ["-eo", "args"], { encoding: "utf-8" })).not.toContain("sleep 3117")
+	})
+})
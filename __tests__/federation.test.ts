@@ -0,0 +1,247 @@
+// Society Agent - Federation Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import {
+	FederationManager,
+	FederationError,
+	createServerFederation,
+	parseFederatedAddress,
+	publishProjectAgents,
+	type FederatedDelivery,
+} from "../src/federation"
+import { AgentDirectory } from "../src/agent-directory"
+import { ProjectStore } from "../src/project-store"
+import { createTaskAssignment, type StructuredMessage } from "../src/message-contracts"
+import { messageFromText } from "../src/message-log"
+import type { AgentDirectoryEntry } from "../src/types"
+
+function exported(agentId: string): AgentDirectoryEntry {
+	return {
+		agentId,
+		name: agentId.split("/")[1],
+		role: "worker",
+		capabilities: [],
+		domain: "payments",
+		supervisorId: "human",
+		lifecycle: "persistent",
+		workspace: "",
+		status: "online",
+		lastSeen: new Date().toISOString(),
+		acceptsExternalWork: true,
+	}
+}
+
+/** Routes a manager's HTTP calls to the other managers, the way the server routes do */
+function network(servers: Record<string, FederationManager>): typeof fetch {
+	return (async (input: string | URL | Request, init?: RequestInit) => {
+		const url = new URL(String(input))
+		const server = servers[url.origin]
+		try {
+			if (url.pathname === "/api/federation/identity") return Response.json(server.identity())
+			const body = JSON.parse(String(init?.body))
+			if (url.pathname === "/api/federation/exchange") return Response.json(server.handleExchange(body))
+			if (url.pathname === "/api/federation/inbox") {
+				inbox.push(server.receive(body))
+				return Response.json({ accepted: true })
+			}
+			return new Response("Not found", { status: 404 })
+		} catch (error) {
+			if (error instanceof FederationError) return Response.json({ error: error.message }, { status: error.status })
+			throw error
+		}
+	}) as typeof fetch
+}
+
+let inbox: FederatedDelivery[] = []
+
+describe("FederationManager", () => {
+	let tmpDir: string
+	let alpha: FederationManager
+	let beta: FederationManager
+	let directory: AgentDirectory
+	/** Messages alpha's agents sent, as alpha's message log holds them */
+	let sent: Map<string, StructuredMessage>
+
+	beforeEach(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "federation-test-"))
+		inbox = []
+		const servers: Record<string, FederationManager> = {}
+		const fetchImpl = network(servers)
+		directory = new AgentDirectory({ sharedDir: path.join(tmpDir, "directory") })
+		await directory.initialize()
+		sent = new Map()
+		alpha = new FederationManager(path.join(tmpDir, "alpha"), {
+			serverId: "alpha",
+			name: "Alpha",
+			localAgents: () => [],
+			sentMessage: (_projectId, messageId) => sent.get(messageId),
+			directory,
+			fetchImpl,
+		})
+		beta = new FederationManager(path.join(tmpDir, "beta"), {
+			serverId: "beta",
+			name: "Beta",
+			localAgents: () => [exported("shop/payments")],
+			fetchImpl,
+		})
+		servers["http://alpha.test"] = alpha
+		servers["http://beta.test"] = beta
+		await alpha.initialize()
+		await beta.initialize()
+	})
+
+	afterEach(() => {
+		directory.dispose()
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should parse federated addresses", () => {
+		expect(parseFederatedAddress("shop/payments@beta")).toEqual({ serverId: "beta", projectId: "shop", agentId: "payments" })
+		expect(parseFederatedAddress("payments")).toBeUndefined()
+		expect(parseFederatedAddress("shop/payments")).toBeUndefined()
+		expect(parseFederatedAddress("payments@beta")).toBeUndefined()
+	})
+
+	it("should pair both ways and exchange signed directories", async () => {
+		await expect(alpha.addPeer("http://beta.test", "0000000000000000")).rejects.toThrow("Fingerprint mismatch")
+
+		// Beta does not know alpha yet: the key is pinned but the exchange is refused
+		const pending = await alpha.addPeer("http://beta.test/", beta.identity().fingerprint)
+		expect(pending).toMatchObject({ id: "beta", name: "Beta", url: "http://beta.test", agents: [] })
+		expect(pending.lastError).toContain("Unknown server: alpha")
+
+		await beta.addPeer("http://alpha.test")
+		expect(alpha.getPeer("beta")?.lastError).toBeUndefined()
+		expect(alpha.remoteAgents()).toEqual([
+			expect.objectContaining({ agentId: "shop/payments@beta", peerId: "beta", projectId: "shop", remoteAgentId: "payments", url: "http://beta.test" }),
+		])
+		expect(alpha.resolve("shop/payments@beta")?.name).toBe("payments")
+		expect(beta.remoteAgents()).toEqual([])
+
+		// Remote agents show up as contacts
+		await directory.publish(exported("lead"))
+		expect(directory.getContactsFor("lead").remote.map((a) => a.agentId)).toEqual(["shop/payments@beta"])
+
+		// Peers survive a restart
+		const reopened = new FederationManager(path.join(tmpDir, "alpha"), { localAgents: () => [] })
+		expect(await reopened.initialize()).toMatchObject({ serverId: "alpha", fingerprint: alpha.identity().fingerprint })
+		expect(reopened.remoteAgents().map((a) => a.agentId)).toEqual(["shop/payments@beta"])
+	})
+
+	it("should carry delegations and replies across servers", async () => {
+		await alpha.addPeer("http://beta.test")
+		await beta.addPeer("http://alpha.test")
+		await alpha.exchange("beta")
+
+		const assignment = createTaskAssignment("lead", "shop/payments@beta", "web", {
+			taskId: "T-FED-1",
+			taskTitle: "Add refunds",
+			description: "Refund endpoint",
+			requirements: [],
+			acceptanceCriteria: ["POST /refunds works"],
+		})
+		await alpha.send("task_assign", assignment, "Lead")
+		sent.set(assignment.messageId, assignment)
+
+		expect(inbox).toHaveLength(1)
+		const delivery = inbox[0]
+		expect(delivery).toMatchObject({ kind: "task_assign", from: "web/lead@alpha", fromName: "Lead (Alpha)", projectId: "shop", agentId: "payments" })
+		expect(delivery.message).toMatchObject({ messageId: assignment.messageId, fromAgentId: "web/lead@alpha", toAgentId: "payments", projectId: "shop" })
+
+		// The reply keeps pointing at the same message ID
+		const reply = messageFromText("Refunds are live", "payments", delivery.from, "shop", { inResponseTo: delivery.message, responseExpected: "none" })
+		await beta.send("message", reply, "Payments")
+		expect(inbox[1].message).toMatchObject({ fromAgentId: "shop/payments@beta", toAgentId: "lead", projectId: "web", inResponseTo: assignment.messageId })
+
+		// Alpha exports nobody: its agents only take replies to what they sent
+		await expect(beta.send("message", messageFromText("hi", "payments", "web/lead@alpha", "shop"), "Payments")).rejects.toThrow("does not take work")
+		const misdirected = messageFromText("Refunds are live", "payments", "web/ops@alpha", "shop", { inResponseTo: delivery.message, responseExpected: "none" })
+		await expect(beta.send("message", misdirected, "Payments")).rejects.toThrow("web/ops does not take work")
+	})
+
+	it("should refuse tampered, replayed and unpaired messages", async () => {
+		await alpha.addPeer("http://beta.test")
+		await beta.addPeer("http://alpha.test")
+
+		let captured: any
+		const capture = new FederationManager(path.join(tmpDir, "alpha"), {
+			localAgents: () => [],
+			fetchImpl: (async (_input: string | URL | Request, init?: RequestInit) => {
+				captured = JSON.parse(String(init?.body))
+				return Response.json({ accepted: true })
+			}) as typeof fetch,
+		})
+		await capture.initialize()
+		await capture.send("message", messageFromText("Pay invoice 7", "lead", "shop/payments@beta", "web"), "Lead")
+
+		const tampered = { ...captured, data: { ...captured.data, message: { ...captured.data.message, payload: { text: "Pay invoice 8" } } } }
+		expect(() => beta.receive(tampered)).toThrow("Invalid signature")
+		expect(beta.receive(captured).agentId).toBe("payments")
+		expect(() => beta.receive(captured)).toThrow("Replay")
+
+		// Once unpaired, nothing alpha signs is accepted
+		expect(beta.removePeer("alpha")).toBe(true)
+		await expect(alpha.exchange("beta")).rejects.toThrow("Unknown server: alpha")
+		await expect(beta.addPeer("http://alpha.test")).rejects.toThrow("was revoked")
+	})
+})
+
+describe("server federation", () => {
+	let tmpDir: string
+	let directories: AgentDirectory[]
+
+	/** A server the way society-server wires it: its projects, its directory and its federation */
+	async function server(id: string, agents: Array<{ id: string; reportsTo?: string; acceptsExternalWork?: boolean }>, fetchImpl: typeof fetch) {
+		const projects = new ProjectStore(path.join(tmpDir, id))
+		projects.create({
+			id: "shop",
+			name: "Shop",
+			description: "",
+			agents: agents.map((agent) => ({ ...agent, name: agent.id, role: agent.id, homeFolder: "/" })),
+		})
+		const directory = new AgentDirectory({ sharedDir: path.join(tmpDir, id, ".society", "directory") })
+		directories.push(directory)
+		await directory.initialize()
+		await publishProjectAgents(directory, projects)
+		const federation = createServerFederation(path.join(tmpDir, id, ".society", "federation"), projects, directory, { serverId: id, name: id, fetchImpl })
+		await federation.initialize()
+		return { directory, federation }
+	}
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "server-federation-test-"))
+		directories = []
+	})
+
+	afterEach(() => {
+		for (const directory of directories) directory.dispose()
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should list a peer's exported agents in the contacts of the server's agents", async () => {
+		const servers: Record<string, FederationManager> = {}
+		const fetchImpl = network(servers)
+		const alpha = await server("alpha", [{ id: "lead" }, { id: "backend", reportsTo: "lead" }], fetchImpl)
+		const beta = await server("beta", [{ id: "architect" }, { id: "payments", reportsTo: "architect", acceptsExternalWork: true }], fetchImpl)
+		servers["http://alpha.test"] = alpha.federation
+		servers["http://beta.test"] = beta.federation
+
+		await alpha.federation.addPeer("http://beta.test")
+		await beta.federation.addPeer("http://alpha.test")
+
+		const contacts = alpha.directory.getContactsFor("shop/lead")
+		expect(contacts.subordinates.map((a) => a.agentId)).toEqual(["shop/backend"])
+		// Only the agent that accepts external work is exported
+		expect(contacts.remote).toEqual([expect.objectContaining({ agentId: "shop/payments@beta", supervisorId: "shop/architect@beta" })])
+		expect(alpha.directory.canSendWorkTo("shop/backend", "shop/payments@beta")).toBe(true)
+		// Alpha exports nobody
+		expect(beta.directory.getContactsFor("shop/payments").remote).toEqual([])
+	})
+})
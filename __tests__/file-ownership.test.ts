@@ -0,0 +1,197 @@
+// Society Agent - File Ownership Change Proposal Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import {
+	createOwnershipRegistry,
+	registerFileOwnership,
+	canModifyFile,
+	proposeFileChange,
+	resolveProposal,
+	getProposalsForOwner,
+	createFilePatch,
+	threeWayMerge,
+	generateFilesMd,
+	parseFilesMd,
+	type OwnershipRegistry,
+} from "../src/file-ownership"
+import { ProjectStore } from "../src/project-store"
+
+const BASE = "line 1\nline 2\nline 3\nline 4\nline 5\n"
+
+describe("change proposals", () => {
+	let registry: OwnershipRegistry
+
+	beforeEach(() => {
+		registry = createOwnershipRegistry()
+		registerFileOwnership(registry, "src/app.ts", "backend")
+	})
+
+	it("should point non-owners to proposing a change", () => {
+		expect(canModifyFile("frontend", "src/app.ts", registry)).toMatchObject({
+			allowed: false,
+			owner: "backend",
+			requiredAction: "propose-change",
+		})
+
+		const proposal = proposeFileChange(registry, {
+			path: "src/app.ts",
+			proposedBy: "frontend",
+			reason: "Export the router",
+			baseContent: BASE,
+			proposedContent: BASE + "export {}\n",
+			patch: "",
+		})
+
+		expect(proposal).toMatchObject({ owner: "backend", status: "pending" })
+		expect(canModifyFile("frontend", "src/app.ts", registry).requiredAction).toBe("wait-for-review")
+		expect(getProposalsForOwner(registry, "backend").map((p) => p.id)).toEqual([proposal.id])
+		expect(() =>
+			proposeFileChange(registry, { path: "src/app.ts", proposedBy: "backend", reason: "x", baseContent: "", proposedContent: "", patch: "" }),
+		).toThrow(/can change it directly/)
+	})
+
+	it("should only let the owner resolve a proposal, once", () => {
+		const proposal = proposeFileChange(registry, {
+			path: "src/app.ts",
+			proposedBy: "frontend",
+			reason: "Export the router",
+			baseContent: BASE,
+			proposedContent: BASE,
+			patch: "",
+		})
+
+		expect(() => resolveProposal(registry, proposal.id, "frontend", "accepted")).toThrow(/Only backend/)
+		resolveProposal(registry, proposal.id, "backend", "rejected", "Not needed")
+		expect(proposal).toMatchObject({ status: "rejected", respondedBy: "backend", rejectionReason: "Not needed" })
+		expect(() => resolveProposal(registry, proposal.id, "backend", "accepted")).toThrow(/already rejected/)
+		expect(registry.history!.map((h) => h.action)).toEqual(["proposed", "rejected"])
+	})
+
+	it("should keep proposals and history in FILES.md", async () => {
+		const proposal = proposeFileChange(registry, {
+			path: "src/app.ts",
+			proposedBy: "frontend",
+			reason: "Export | the router",
+			baseContent: BASE,
+			proposedContent: BASE,
+			patch: "",
+		})
+
+		const markdown = generateFilesMd(registry, "Shop")
+		expect(markdown).toContain("## Change Proposals")
+		expect(markdown).toContain(`| src/app.ts | frontend | backend | ${proposal.id} |`)
+
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "files-md-test-"))
+		try {
+			fs.writeFileSync(path.join(dir, "FILES.md"), markdown)
+			const parsed = await parseFilesMd(dir)
+			// The proposals table is not mistaken for file rows
+			expect(parsed.files.map((f) => f.path)).toEqual(["src/app.ts"])
+			expect(parsed.history).toEqual([
+				expect.objectContaining({ path: "src/app.ts", agentId: "frontend", action: "proposed", proposalId: proposal.id, detail: "Export | the router" }),
+			])
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	it("should build patches and three-way merges with git", async () => {
+		const patch = await createFilePatch("src/app.ts", BASE, BASE.replace("line 2", "line two"))
+		expect(patch).toContain("--- a/src/app.ts")
+		expect(patch).toContain("-line 2")
+		expect(patch).toContain("+line two")
+		expect(await createFilePatch("src/app.ts", BASE, BASE)).toBe("")
+
+		const owner = BASE.replace("line 5", "line five")
+		const clean = await threeWayMerge(owner, BASE, BASE.replace("line 1", "line one"))
+		expect(clean).toEqual({ content: "line one\nline 2\nline 3\nline 4\nline five\n", conflicts: 0 })
+
+		const conflicting = await threeWayMerge(owner, BASE, BASE.replace("line 5", "line 5!"), { current: "backend", proposed: "frontend" })
+		expect(conflicting.conflicts).toBe(1)
+		expect(conflicting.content).toContain("<<<<<<< backend")
+		expect(conflicting.content).toContain(">>>>>>> frontend")
+	})
+})
+
+describe("ProjectStore change proposals", () => {
+	let tmpDir: string
+	let store: ProjectStore
+	let file: string
+
+	beforeEach(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "proposals-test-"))
+		store = new ProjectStore(tmpDir)
+		store.create({ id: "shop", name: "Shop", description: "", agents: [] })
+		file = path.join(store.projectDir("shop"), "src", "app.ts")
+		fs.mkdirSync(path.dirname(file), { recursive: true })
+		fs.writeFileSync(file, BASE)
+		await store.registerFile("shop", "src/app.ts", "backend")
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should merge a proposal into the owner's later edits", async () => {
+		const proposal = await store.proposeFileChange("shop", "frontend", "src/app.ts", BASE.replace("line 1", "line one"), "Rename")
+		expect(proposal!.patch).toContain("+line one")
+
+		// The owner keeps working on the file
+		fs.writeFileSync(file, BASE.replace("line 5", "line five"))
+		await expect(store.acceptFileProposal("shop", proposal!.id, "backend")).rejects.toThrow(/merge it instead/)
+
+		const result = await store.mergeFileProposal("shop", proposal!.id, "backend")
+		expect(result!.merge.conflicts).toBe(0)
+		expect(fs.readFileSync(file, "utf-8")).toBe("line one\nline 2\nline 3\nline 4\nline five\n")
+		expect(result!.proposal.status).toBe("merged")
+
+		const filesMd = fs.readFileSync(path.join(store.projectDir("shop"), "FILES.md"), "utf-8")
+		expect(filesMd).toMatch(/\| frontend \| proposed \|/)
+		expect(filesMd).toMatch(/\| backend \| merged \|/)
+	})
+
+	it("should leave the file alone when the merge conflicts", async () => {
+		const proposal = await store.proposeFileChange("shop", "frontend", "src/app.ts", BASE.replace("line 3", "frontend's line"), "Change")
+		fs.writeFileSync(file, BASE.replace("line 3", "backend's line"))
+
+		const result = await store.mergeFileProposal("shop", proposal!.id, "backend")
+
+		expect(result!.merge.conflicts).toBe(1)
+		expect(fs.readFileSync(file, "utf-8")).toBe(BASE.replace("line 3", "backend's line"))
+		expect(result!.proposal).toMatchObject({ status: "pending", conflicts: 1 })
+		expect(await store.getFileProposals("shop", "backend")).toHaveLength(1)
+
+		// The owner can still take the proposal once the file matches its base again
+		fs.writeFileSync(file, BASE)
+		await store.acceptFileProposal("shop", proposal!.id, "backend")
+		expect(fs.readFileSync(file, "utf-8")).toBe(BASE.replace("line 3", "frontend's line"))
+	})
+
+	it("should check and resolve proposals in the agents' worktrees", async () => {
+		// Agents of git projects edit their own worktree, outside the project folder
+		const worktreeOf = (agentId: string) => path.join(tmpDir, ".worktrees", "shop", agentId)
+		store.agentCheckoutDir = (_projectId, agentId) => worktreeOf(agentId)
+		for (const agentId of ["backend", "frontend"]) {
+			fs.mkdirSync(path.join(worktreeOf(agentId), "src"), { recursive: true })
+			fs.writeFileSync(path.join(worktreeOf(agentId), "src", "app.ts"), BASE)
+		}
+
+		const frontendFile = path.join(worktreeOf("frontend"), "src", "app.ts")
+		const filePath = store.projectFilePath("shop", "frontend", frontendFile)
+		expect(filePath).toBe("src/app.ts")
+		expect(await store.checkFileAccess("shop", "frontend", filePath)).toMatchObject({ allowed: false, requiredAction: "propose-change" })
+
+		const proposal = await store.proposeFileChange("shop", "frontend", filePath, BASE.replace("line 2", "line two"), "Rename")
+		await store.acceptFileProposal("shop", proposal!.id, "backend")
+		expect(fs.readFileSync(path.join(worktreeOf("backend"), "src", "app.ts"), "utf-8")).toBe(BASE.replace("line 2", "line two"))
+		// The shared checkout is left for the merge queue
+		expect(fs.readFileSync(file, "utf-8")).toBe(BASE)
+	})
+})
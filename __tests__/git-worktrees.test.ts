@@ -0,0 +1,165 @@
+// Society Agent - Git Worktree & Merge Queue Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { execFileSync } from "child_process"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { WorktreeManager, MergeQueue, mergeConflictMessage, worktreeBranchName, type MergeQueueOptions } from "../src/git-worktrees"
+import type { VerificationResult } from "../src/task-manager"
+
+const GIT_ENV = {
+	...process.env,
+	GIT_AUTHOR_NAME: "Test",
+	GIT_AUTHOR_EMAIL: "test@example.com",
+	GIT_COMMITTER_NAME: "Test",
+	GIT_COMMITTER_EMAIL: "test@example.com",
+}
+
+function git(cwd: string, ...args: string[]): string {
+	return execFileSync("git", args, { cwd, env: GIT_ENV, encoding: "utf-8" }).trim()
+}
+
+const passed = (taskId: string): VerificationResult => ({ taskId, timestamp: new Date().toISOString(), allPassed: true, checks: [] })
+
+describe("WorktreeManager and MergeQueue", () => {
+	let root: string
+	let repo: string
+	let manager: WorktreeManager
+	let verify: ReturnType<typeof vi.fn>
+	let queue: MergeQueue
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "worktrees-test-"))
+		repo = path.join(root, "projects", "shop")
+		fs.mkdirSync(repo, { recursive: true })
+		git(repo, "init", "--quiet", "-b", "main")
+		fs.writeFileSync(path.join(repo, "app.js"), "line 1\nline 2\n")
+		git(repo, "add", "--all")
+		git(repo, "commit", "--quiet", "-m", "Initial commit")
+
+		manager = new WorktreeManager(path.join(root, "projects", ".worktrees"), path.join(root, "projects", ".society", "worktrees.json"))
+		verify = vi.fn(async (entry) => passed(entry.taskId || entry.branch))
+		queue = new MergeQueue(manager, { verify: verify as MergeQueueOptions["verify"] })
+	})
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true })
+	})
+
+	it("should give each agent its own worktree on its own branch", async () => {
+		expect(await WorktreeManager.isRepository(repo)).toBe(true)
+		expect(await WorktreeManager.isRepository(root)).toBe(false)
+
+		const backend = await manager.acquire(repo, "shop", "backend", { taskId: "T-1" })
+		const frontend = await manager.acquire(repo, "shop", "frontend")
+
+		expect(backend).toMatchObject({ branch: "agent/backend/t-1", baseBranch: "main" })
+		expect(frontend.branch).toBe("agent/frontend")
+		expect(backend.path).not.toBe(frontend.path)
+		expect(fs.readFileSync(path.join(backend.path, "app.js"), "utf-8")).toBe("line 1\nline 2\n")
+
+		// Edits in one worktree are invisible to the other and to the main checkout
+		fs.writeFileSync(path.join(backend.path, "app.js"), "backend\n")
+		expect(fs.readFileSync(path.join(frontend.path, "app.js"), "utf-8")).toBe("line 1\nline 2\n")
+		expect(fs.readFileSync(path.join(repo, "app.js"), "utf-8")).toBe("line 1\nline 2\n")
+
+		// Acquiring again returns the same worktree, and the state survives a restart
+		expect((await manager.acquire(repo, "shop", "backend")).path).toBe(backend.path)
+		const reloaded = new WorktreeManager(path.join(root, "projects", ".worktrees"), path.join(root, "projects", ".society", "worktrees.json"))
+		expect(reloaded.list("shop").map((w) => w.agentId).sort()).toEqual(["backend", "frontend"])
+	})
+
+	it("should verify and fast-forward the base branch, then remove the worktree", async () => {
+		const worktree = await manager.acquire(repo, "shop", "backend", { taskId: "T-1" })
+		fs.writeFileSync(path.join(worktree.path, "api.js"), "export {}\n")
+
+		const { entry, done } = queue.enqueue("shop", "backend")
+		expect(entry.status).toBe("queued")
+		const result = await done
+
+		expect(result).toMatchObject({ status: "merged", taskId: "T-1" })
+		expect(git(repo, "rev-parse", "main")).toBe(result.mergedCommit)
+		expect(git(repo, "log", "-1", "--format=%s")).toBe("[T-1] Work by backend")
+		expect(fs.readFileSync(path.join(repo, "api.js"), "utf-8")).toBe("export {}\n")
+		expect(verify.mock.calls[0][2]).toMatchObject({ filesCreated: ["api.js"], filesModified: [] })
+
+		expect(manager.get("shop", "backend")).toBeUndefined()
+		expect(fs.existsSync(worktree.path)).toBe(false)
+		expect(git(repo, "branch", "--list", worktree.branch)).toBe("")
+	})
+
+	it("should rebase onto work merged in the meantime", async () => {
+		const first = await manager.acquire(repo, "shop", "backend")
+		const second = await manager.acquire(repo, "shop", "frontend")
+		fs.writeFileSync(path.join(first.path, "api.js"), "api\n")
+		fs.writeFileSync(path.join(second.path, "ui.js"), "ui\n")
+
+		const a = queue.enqueue("shop", "backend")
+		const b = queue.enqueue("shop", "frontend")
+		expect((await a.done).status).toBe("merged")
+		expect((await b.done).status).toBe("merged")
+
+		expect(git(repo, "log", "--format=%s", "main").split("\n")).toEqual(["Work by frontend", "Work by backend", "Initial commit"])
+		expect(fs.existsSync(path.join(repo, "api.js")) && fs.existsSync(path.join(repo, "ui.js"))).toBe(true)
+	})
+
+	it("should report conflicts without touching the base branch", async () => {
+		const first = await manager.acquire(repo, "shop", "backend", { taskId: "T-1" })
+		const second = await manager.acquire(repo, "shop", "frontend", { taskId: "T-2" })
+		fs.writeFileSync(path.join(first.path, "app.js"), "backend\n")
+		fs.writeFileSync(path.join(second.path, "app.js"), "frontend\n")
+
+		expect((await queue.enqueue("shop", "backend").done).status).toBe("merged")
+		const tip = git(repo, "rev-parse", "main")
+		const conflict = await queue.enqueue("shop", "frontend").done
+
+		expect(conflict).toMatchObject({ status: "conflict", conflictFiles: ["app.js"] })
+		expect(git(repo, "rev-parse", "main")).toBe(tip)
+		// The worktree is kept, with the rebase aborted, so the agent can fix it
+		expect(manager.get("shop", "frontend")).toBeDefined()
+		expect(git(second.path, "status", "--porcelain")).toBe("")
+		expect(fs.readFileSync(path.join(second.path, "app.js"), "utf-8")).toBe("frontend\n")
+
+		const message = mergeConflictMessage(conflict, "frontend")
+		expect(message).toMatchObject({ category: "task", type: "blocked", toAgentId: "frontend" })
+		expect(message.payload.taskId).toBe("T-2")
+		expect(message.payload.blockingReason.type).toBe("resource")
+		expect(message.payload.blockingReason.description).toContain("app.js")
+	})
+
+	it("should keep the base branch when verification fails", async () => {
+		verify.mockResolvedValueOnce({ ...passed("T-1"), allPassed: false, checks: [{ check: "type_check", passed: false, message: "2 errors" }] })
+		const worktree = await manager.acquire(repo, "shop", "backend", { taskId: "T-1" })
+		fs.writeFileSync(path.join(worktree.path, "broken.ts"), "const x: number = 'a'\n")
+		const base = git(repo, "rev-parse", "main")
+
+		const result = await queue.enqueue("shop", "backend").done
+
+		expect(result).toMatchObject({ status: "failed", error: "Verification failed: type_check" })
+		expect(git(repo, "rev-parse", "main")).toBe(base)
+		expect(manager.get("shop", "backend")).toBeDefined()
+		// Only one pending merge per agent
+		queue.enqueue("shop", "backend")
+		expect(() => queue.enqueue("shop", "backend")).toThrow(/already has a merge/)
+		await queue.whenIdle("shop")
+	})
+
+	it("should keep unfinished work on the branch when released", async () => {
+		const worktree = await manager.acquire(repo, "shop", "worker-1", { taskId: "T-9" })
+		fs.writeFileSync(path.join(worktree.path, "draft.js"), "draft\n")
+
+		expect(await manager.release("shop", "worker-1", { keepBranch: true })).toBe(true)
+		expect(fs.existsSync(worktree.path)).toBe(false)
+		expect(git(repo, "show", `${worktree.branch}:draft.js`)).toBe("draft")
+
+		// A new worktree for the same task does not reuse the kept branch
+		const again = await manager.acquire(repo, "shop", "worker-1", { taskId: "T-9" })
+		expect(again.branch).not.toBe(worktree.branch)
+		expect(again.branch.startsWith(worktreeBranchName("worker-1", "T-9"))).toBe(true)
+	})
+})
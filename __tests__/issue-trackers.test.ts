@@ -0,0 +1,213 @@
+// Society Agent - Issue Tracker Sync Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import {
+	GitHubIssueClient,
+	IssueSyncService,
+	IssueTrackerStore,
+	mapLabelsToPriority,
+	type ExternalIssue,
+	type ExternalIssueUpdate,
+	type IssueTracker,
+	type IssueTrackerClient,
+} from "../src/issue-trackers"
+import { ProjectStore } from "../src/project-store"
+
+/** In-memory tracker: edit `issues` to simulate changes made by people on the tracker */
+class FakeIssueClient implements IssueTrackerClient {
+	issues = new Map<string, ExternalIssue>()
+	comments: Array<{ key: string; body: string }> = []
+	updates: Array<{ key: string; changes: ExternalIssueUpdate }> = []
+	private clock = Date.now()
+
+	tick(): string {
+		this.clock += 60_000
+		return new Date(this.clock).toISOString()
+	}
+
+	add(key: string, fields: Partial<ExternalIssue> = {}): ExternalIssue {
+		const issue: ExternalIssue = { key, title: `Issue ${key}`, body: "", state: "open", labels: [], url: `https://tracker/issues/${key}`, updatedAt: this.tick(), ...fields }
+		this.issues.set(key, issue)
+		return issue
+	}
+
+	edit(key: string, fields: Partial<ExternalIssue>): void {
+		this.issues.set(key, { ...this.issues.get(key)!, ...fields, updatedAt: this.tick() })
+	}
+
+	async listIssues(_tracker: IssueTracker, _token: string, since?: string): Promise<ExternalIssue[]> {
+		return [...this.issues.values()].filter((i) => (since ? i.updatedAt > since : i.state === "open"))
+	}
+
+	async getIssue(_tracker: IssueTracker, _token: string, key: string): Promise<ExternalIssue> {
+		return this.issues.get(key)!
+	}
+
+	async updateIssue(_tracker: IssueTracker, _token: string, key: string, changes: ExternalIssueUpdate): Promise<ExternalIssue> {
+		this.updates.push({ key, changes })
+		const { title, body, state } = changes
+		this.edit(key, Object.fromEntries(Object.entries({ title, body, state }).filter(([, v]) => v !== undefined)))
+		return this.issues.get(key)!
+	}
+
+	async addComment(_tracker: IssueTracker, _token: string, key: string, body: string): Promise<void> {
+		this.comments.push({ key, body })
+	}
+}
+
+describe("mapLabelsToPriority", () => {
+	it("should take the highest priority of any mapped label", () => {
+		expect(mapLabelsToPriority(["bug", "P2", "priority::High"])).toBe(2)
+		expect(mapLabelsToPriority(["priority:Lowest"])).toBe(5)
+		expect(mapLabelsToPriority(["sev-1"], { "sev-1": 1 })).toBe(1)
+		expect(mapLabelsToPriority(["bug"])).toBeUndefined()
+	})
+})
+
+describe("IssueSyncService", () => {
+	let tmpDir: string
+	let store: ProjectStore
+	let trackers: IssueTrackerStore
+	let client: FakeIssueClient
+	let service: IssueSyncService
+	let tracker: IssueTracker
+	let pending: Promise<void>[]
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "issue-trackers-test-"))
+		store = new ProjectStore(tmpDir)
+		store.create({ id: "shop", name: "Shop", description: "", agents: [{ id: "backend", name: "Backend", role: "dev", homeFolder: "backend" }] })
+		trackers = new IssueTrackerStore(path.join(tmpDir, "trackers"))
+		tracker = trackers.add("shop", { provider: "github", repository: "acme/shop", assigneeAgents: { octocat: "backend" } })
+		client = new FakeIssueClient()
+		service = new IssueSyncService(trackers, store, { token: () => "secret" })
+		service.setClient("github", client)
+		pending = []
+		store.onManagedTaskTransition = (projectId, task, transition) => {
+			pending.push(service.handleTransition(projectId, task, transition))
+		}
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should import open issues with priority and delegated assignee", async () => {
+		client.add("1", { title: "Checkout fails", body: "500 on submit", labels: ["bug", "P1"], assignee: "octocat" })
+		client.add("2", { title: "Old", state: "closed" })
+		client.add("3", { title: "Docs", labels: ["low"], assignee: "backend" })
+
+		const result = await service.sync("shop", tracker.id)
+		await Promise.all(pending)
+
+		expect(result.created).toHaveLength(2)
+		const [checkout, docs] = store.getManagedTasks("shop")
+		expect(checkout).toMatchObject({ title: "Checkout fails", description: "500 on submit", priority: 2, status: "delegated", assignedTo: "backend" })
+		expect(checkout.externalIssue).toMatchObject({ key: "1", url: "https://tracker/issues/1", synced: { state: "open", priority: 2 } })
+		expect(docs).toMatchObject({ priority: 4, assignedTo: "backend" })
+		// The sync's own delegation is not echoed back to the tracker
+		expect(client.comments).toEqual([])
+		expect(trackers.get("shop", tracker.id)!.lastSyncAt).toBeDefined()
+
+		// Nothing changed: nothing to do
+		expect(await service.sync("shop", tracker.id)).toMatchObject({ created: [], updated: [], pushed: [] })
+	})
+
+	it("should copy one-sided edits across and post transitions as comments", async () => {
+		client.add("7", { title: "Add coupons", labels: ["medium"] })
+		await service.sync("shop", tracker.id)
+		const taskId = store.getManagedTasks("shop")[0].taskId
+
+		// Edited on the tracker
+		client.edit("7", { title: "Add coupon codes", labels: ["critical"] })
+		const pulled = await service.sync("shop", tracker.id)
+		expect(pulled.updated).toEqual([taskId])
+		expect(store.getManagedTask("shop", taskId)).toMatchObject({ title: "Add coupon codes", priority: 1 })
+
+		// Worked on locally: each transition is commented, finishing closes the issue
+		store.transitionManagedTask("shop", taskId, "in_progress", "backend")
+		store.transitionManagedTask("shop", taskId, "review", "backend", { reason: "Implemented in src/coupons.ts" })
+		store.transitionManagedTask("shop", taskId, "done", "architect")
+		await Promise.all(pending)
+
+		expect(client.comments.map((c) => c.body.split("\n")[0])).toEqual([
+			`**${taskId}**: planned → in_progress (by backend)`,
+			`**${taskId}**: in_progress → review (by backend)`,
+			`**${taskId}**: review → done (by architect)`,
+		])
+		expect(client.comments[1].body).toContain("Implemented in src/coupons.ts")
+		expect(client.updates).toEqual([{ key: "7", changes: { state: "closed", status: "done" } }])
+		expect(store.getManagedTask("shop", taskId)!.externalIssue!.synced.state).toBe("closed")
+
+		// Reopened on the tracker: the task goes back to in_progress without echoing a comment
+		client.edit("7", { state: "open" })
+		await service.sync("shop", tracker.id)
+		await Promise.all(pending)
+		expect(store.getManagedTask("shop", taskId)!.status).toBe("in_progress")
+		expect(client.comments).toHaveLength(3)
+	})
+
+	it("should record fields edited on both sides as conflicts until resolved", async () => {
+		client.add("9", { title: "Search", body: "Full-text search" })
+		await service.sync("shop", tracker.id)
+		const task = store.getManagedTasks("shop")[0]
+		const conflicts: string[] = []
+		service = new IssueSyncService(trackers, store, { token: () => "secret", onConflict: (_p, _t, c) => conflicts.push(c.field) })
+		service.setClient("github", client)
+
+		client.edit("9", { title: "Search v2", body: "Full-text search with filters" })
+		store.recordManagedTaskIssue("shop", task.taskId, task.externalIssue!, { title: "Product search" })
+
+		const result = await service.sync("shop", tracker.id)
+
+		expect(result.conflicts).toEqual([{ taskId: task.taskId, field: "title" }])
+		expect(conflicts).toEqual(["title"])
+		let synced = store.getManagedTask("shop", task.taskId)!
+		// The one-sided edit still comes across; the conflicting field is left alone on both sides
+		expect(synced).toMatchObject({ title: "Product search", description: "Full-text search with filters" })
+		expect(client.issues.get("9")!.title).toBe("Search v2")
+		expect(synced.externalIssue!.conflicts).toMatchObject([{ field: "title", local: "Product search", remote: "Search v2" }])
+
+		// Syncing again keeps the conflict without reporting it twice
+		expect((await service.sync("shop", tracker.id)).conflicts).toEqual([])
+
+		synced = (await service.resolveConflict("shop", task.taskId, "title", "local"))!
+		expect(client.issues.get("9")!.title).toBe("Product search")
+		expect(synced.externalIssue!.conflicts).toBeUndefined()
+		expect(synced.externalIssue!.synced.title).toBe("Product search")
+	})
+})
+
+describe("GitHubIssueClient", () => {
+	it("should skip pull requests and close issues with a reason", async () => {
+		const calls: Array<{ url: string; init?: RequestInit }> = []
+		const fetchImpl = (async (url: string, init?: RequestInit) => {
+			calls.push({ url, init })
+			const data =
+				init?.method === "PATCH"
+					? { number: 4, title: "Bug", body: null, state: "closed", labels: [], html_url: "https://github.com/acme/shop/issues/4", updated_at: "2026-03-02T00:00:00Z" }
+					: [
+							{ number: 4, title: "Bug", body: "Broken", state: "open", labels: [{ name: "P1" }], assignee: { login: "octocat" }, html_url: "u4", updated_at: "t" },
+							{ number: 5, title: "Fix bug", state: "open", labels: [], pull_request: {}, html_url: "u5", updated_at: "t" },
+						]
+			return new Response(JSON.stringify(data), { status: 200 })
+		}) as typeof fetch
+		const github = new GitHubIssueClient(fetchImpl)
+		const tracker: IssueTracker = { id: "IT-1", provider: "github", repository: "acme/shop", autoSync: true, createdAt: "" }
+
+		const issues = await github.listIssues(tracker, "tok")
+		expect(issues).toEqual([{ key: "4", title: "Bug", body: "Broken", state: "open", labels: ["P1"], assignee: "octocat", url: "u4", updatedAt: "t" }])
+		expect(calls[0].url).toBe("https://api.github.com/repos/acme/shop/issues?state=open&per_page=100&page=1")
+
+		const closed = await github.updateIssue(tracker, "tok", "4", { state: "closed", status: "cancelled" })
+		expect(closed.state).toBe("closed")
+		expect(JSON.parse(String(calls[1].init!.body))).toEqual({ state: "closed", state_reason: "not_planned" })
+	})
+})
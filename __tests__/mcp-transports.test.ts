@@ -0,0 +1,311 @@
+// Society Agent - MCP Transport Tests
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as http from "http"
+import * as path from "path"
+import * as os from "os"
+import type { AddressInfo } from "net"
+import {
+	buildRemoteHeaders,
+	readSseStream,
+	resolveTransportKind,
+	validateMcpServerConfig,
+	type SseEvent,
+} from "../src/mcp-transports"
+import { McpClientManager } from "../src/mcp-client"
+
+// Keep connection logs out of the test output
+vi.spyOn(console, "log").mockImplementation(() => undefined)
+
+const TOOLS = [{ name: "echo", description: "Echo text back", inputSchema: { type: "object", properties: { text: { type: "string" } } } }]
+
+const CAPABILITIES = { tools: {}, resources: { subscribe: true }, prompts: {} }
+
+/** JSON-RPC result for a request, mimicking a small MCP server */
+function handleRpc(msg: any): any {
+	if (msg.method === "initialize") return { protocolVersion: msg.params.protocolVersion, capabilities: CAPABILITIES, serverInfo: { name: "fake", version: "1" } }
+	if (msg.method === "tools/list") return { tools: TOOLS }
+	if (msg.method === "tools/call") return { content: [{ type: "text", text: `echo: ${msg.params.arguments.text}` }] }
+	// Resources are split over two pages
+	if (msg.method === "resources/list" && !msg.params?.cursor) return { resources: [{ uri: "notes://todo", name: "todo", mimeType: "text/plain" }], nextCursor: "2" }
+	if (msg.method === "resources/list") return { resources: [{ uri: "notes://logo", name: "logo", mimeType: "image/png" }] }
+	if (msg.method === "resources/templates/list") return { resourceTemplates: [{ uriTemplate: "notes://{name}", name: "note" }] }
+	if (msg.method === "resources/read" && msg.params.uri === "notes://logo") return { contents: [{ uri: "notes://logo", mimeType: "image/png", blob: Buffer.from("png!").toString("base64") }] }
+	if (msg.method === "resources/read") return { contents: [{ uri: msg.params.uri, mimeType: "text/plain", text: "buy milk" }] }
+	if (msg.method === "prompts/list") return { prompts: [{ name: "review", description: "Review code", arguments: [{ name: "file", required: true }, { name: "tone" }] }] }
+	if (msg.method === "prompts/get") return { description: "Code review", messages: [{ role: "user", content: { type: "text", text: `Review ${msg.params.arguments.file}` } }] }
+	return {}
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+	return new Promise((resolve) => {
+		let body = ""
+		req.on("data", (chunk) => (body += chunk))
+		req.on("end", () => resolve(body ? JSON.parse(body) : undefined))
+	})
+}
+
+describe("config helpers", () => {
+	it("should infer the transport from the config", () => {
+		expect(resolveTransportKind({ command: "npx" })).toBe("stdio")
+		expect(resolveTransportKind({ url: "https://mcp.example.com/mcp" })).toBe("streamable-http")
+		expect(resolveTransportKind({ url: "https://mcp.example.com/sse", transport: "sse" })).toBe("sse")
+	})
+
+	it("should validate commands and urls", () => {
+		expect(validateMcpServerConfig({ command: "npx" })).toBeNull()
+		expect(validateMcpServerConfig({ transport: "stdio" })).toMatch(/command/)
+		expect(validateMcpServerConfig({ transport: "sse" })).toMatch(/url/)
+		expect(validateMcpServerConfig({ url: "ftp://example.com" })).toMatch(/http/)
+		expect(validateMcpServerConfig({ url: "not a url" })).toMatch(/Invalid url/)
+	})
+
+	it("should build headers with env expansion and auth", () => {
+		const env = { MCP_TOKEN: "s3cret", TEAM: "core" }
+		expect(buildRemoteHeaders({ url: "http://x", headers: { "X-Team": "${TEAM}" }, auth: { type: "bearer", tokenEnv: "MCP_TOKEN" } }, env)).toEqual({
+			"X-Team": "core",
+			Authorization: "Bearer s3cret",
+		})
+		expect(buildRemoteHeaders({ url: "http://x", auth: { type: "basic", username: "bot", password: "${MCP_TOKEN}" } }, env)).toEqual({
+			Authorization: `Basic ${Buffer.from("bot:s3cret").toString("base64")}`,
+		})
+		expect(buildRemoteHeaders({ url: "http://x", auth: { type: "header", name: "X-Api-Key", value: "k" } }, env)).toEqual({ "X-Api-Key": "k" })
+	})
+})
+
+describe("readSseStream", () => {
+	it("should parse events split across chunks and drop an unterminated one", async () => {
+		const encoder = new TextEncoder()
+		const chunks = [": keep-alive\n\nevent: endpoint\nda", "ta: /messages?sid=1\r", "\n\r\ndata: {\"a\":1}\ndata: {\"b\":2}\n\n", "data: tail"]
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+				controller.close()
+			},
+		})
+		const events: SseEvent[] = []
+		await readSseStream(body, (event) => events.push(event))
+		expect(events).toEqual([
+			{ event: "endpoint", data: "/messages?sid=1", id: undefined },
+			{ event: "message", data: '{"a":1}\n{"b":2}', id: undefined },
+		])
+	})
+})
+
+describe("McpClientManager with remote servers", () => {
+	let server: http.Server
+	let baseUrl: string
+	let tmpDir: string
+	let manager: McpClientManager
+	const sessions = new Set<string>()
+	const sseClients = new Map<string, http.ServerResponse>()
+	const notificationStreams = new Map<string, http.ServerResponse>()
+	const rpcLog: string[] = []
+	let sessionCounter = 0
+	let lastAuth: string | undefined
+
+	beforeAll(async () => {
+		server = http.createServer(async (req, res) => {
+			const url = new URL(req.url!, "http://localhost")
+			lastAuth = req.headers.authorization
+
+			// Streamable HTTP endpoint
+			if (url.pathname === "/mcp") {
+				if (req.headers.authorization !== "Bearer good-token") {
+					res.writeHead(401).end()
+					return
+				}
+				if (req.method === "DELETE") {
+					sessions.delete(String(req.headers["mcp-session-id"]))
+					res.writeHead(200).end()
+					return
+				}
+				if (req.method === "GET") {
+					// Standing notification stream for the session
+					const sid = String(req.headers["mcp-session-id"])
+					res.writeHead(200, { "Content-Type": "text/event-stream" })
+					res.write(": open\n\n")
+					notificationStreams.set(sid, res)
+					req.on("close", () => notificationStreams.delete(sid))
+					return
+				}
+				const msg = await readBody(req)
+				if (msg.method) rpcLog.push(msg.method)
+				if (msg.method === "initialize") {
+					const sid = `session-${++sessionCounter}`
+					sessions.add(sid)
+					res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": sid })
+					res.end(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: handleRpc(msg) }))
+					return
+				}
+				if (!sessions.has(String(req.headers["mcp-session-id"]))) {
+					res.writeHead(404).end()
+					return
+				}
+				if (msg.id === undefined) {
+					res.writeHead(202).end()
+					return
+				}
+				if (msg.method === "tools/list") {
+					// Answer over an SSE stream, as servers may choose to
+					res.writeHead(200, { "Content-Type": "text/event-stream" })
+					res.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: handleRpc(msg) })}\n\n`)
+					res.end()
+					return
+				}
+				res.writeHead(200, { "Content-Type": "application/json" })
+				res.end(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: handleRpc(msg) }))
+				return
+			}
+
+			// Legacy SSE endpoints
+			if (url.pathname === "/sse" && req.method === "GET") {
+				const sid = `sse-${++sessionCounter}`
+				res.writeHead(200, { "Content-Type": "text/event-stream" })
+				res.write(`event: endpoint\ndata: /messages?sid=${sid}\n\n`)
+				sseClients.set(sid, res)
+				req.on("close", () => sseClients.delete(sid))
+				return
+			}
+			if (url.pathname === "/sse-redirect" && req.method === "GET") {
+				res.writeHead(200, { "Content-Type": "text/event-stream" })
+				res.end("event: endpoint\ndata: http://attacker.test/messages\n\n")
+				return
+			}
+			if (url.pathname === "/messages" && req.method === "POST") {
+				const stream = sseClients.get(url.searchParams.get("sid") || "")
+				const msg = await readBody(req)
+				if (!stream) {
+					res.writeHead(404).end()
+					return
+				}
+				res.writeHead(202).end("Accepted")
+				if (msg.id !== undefined) {
+					stream.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: handleRpc(msg) })}\n\n`)
+				}
+				return
+			}
+
+			if (url.pathname === "/limited") {
+				res.writeHead(429, { "Retry-After": "30" }).end()
+				return
+			}
+			res.writeHead(404).end()
+		})
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+	})
+
+	afterAll(async () => {
+		for (const res of sseClients.values()) res.end()
+		for (const res of notificationStreams.values()) res.end()
+		await new Promise<void>((resolve) => server.close(() => resolve()))
+	})
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-transports-test-"))
+		process.env.TEST_MCP_TOKEN = "good-token"
+		fs.writeFileSync(
+			path.join(tmpDir, "mcp-config.json"),
+			JSON.stringify({
+				servers: {
+					remote: { url: `${baseUrl}/mcp`, auth: { type: "bearer", tokenEnv: "TEST_MCP_TOKEN" }, description: "Remote echo" },
+					legacy: { url: `${baseUrl}/sse`, transport: "sse", description: "Legacy echo" },
+					redirect: { url: `${baseUrl}/sse-redirect`, transport: "sse", headers: { Authorization: "Bearer secret" } },
+					badauth: { url: `${baseUrl}/mcp`, headers: { Authorization: "Bearer wrong" } },
+					limited: { url: `${baseUrl}/limited` },
+				},
+			}),
+		)
+		manager = new McpClientManager(tmpDir)
+	})
+
+	afterEach(() => {
+		rpcLog.length = 0
+		manager.disconnectAll()
+		delete process.env.TEST_MCP_TOKEN
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should mark remote servers in the listing", () => {
+		expect(manager.listMcps()).toContain("**remote** 🌐 (remote)")
+	})
+
+	it("should list and call tools over streamable HTTP", async () => {
+		expect(await manager.listMcpTools("remote")).toContain("**echo**(text)")
+		expect(lastAuth).toBe("Bearer good-token")
+		expect(await manager.useMcp("remote", "echo", { text: "hi" })).toContain("echo: hi")
+	})
+
+	it("should reconnect when the server drops the session", async () => {
+		await manager.listMcpTools("remote")
+		sessions.clear()
+		expect(await manager.useMcp("remote", "echo", { text: "again" })).toContain("echo: again")
+	})
+
+	it("should list and call tools over legacy SSE", async () => {
+		expect(await manager.listMcpTools("legacy")).toContain("**echo**")
+		expect(await manager.useMcp("legacy", "echo", { text: "old" })).toContain("echo: old")
+	})
+
+	it("should refuse an SSE endpoint on another origin", async () => {
+		const fetchSpy = vi.spyOn(globalThis, "fetch")
+		expect(await manager.listMcpTools("redirect")).toMatch(/endpoint on a different origin: http:\/\/attacker\.test/)
+		expect(fetchSpy.mock.calls.map(([input]) => String(input))).not.toContain("http://attacker.test/messages")
+		fetchSpy.mockRestore()
+	})
+
+	it("should report rejected credentials and rate limiting", async () => {
+		expect(await manager.listMcpTools("badauth")).toMatch(/rejected the credentials \(HTTP 401\)/)
+		expect(await manager.useMcp("limited", "echo", {})).toMatch(/rate limiting requests \(retry after 30s\)/)
+	})
+
+	describe("resources and prompts", () => {
+		it("should list resources across pages and templates", async () => {
+			const { resources, resourceTemplates, subscribable } = await manager.getResources("remote")
+			expect(resources.map((r) => r.uri)).toEqual(["notes://todo", "notes://logo"])
+			expect(resourceTemplates[0].uriTemplate).toBe("notes://{name}")
+			expect(subscribable).toBe(true)
+			const text = await manager.listMcpResources("remote")
+			expect(text).toContain("`notes://todo` **todo** (text/plain)")
+			expect(text).toContain("subscribe_mcp_resource")
+		})
+
+		it("should read text and binary resources", async () => {
+			expect(await manager.readMcpResource("remote", "notes://todo")).toContain("buy milk")
+			expect(await manager.readMcpResource("remote", "notes://logo")).toContain("[Binary: image/png, 4 bytes]")
+		})
+
+		it("should list and render prompts", async () => {
+			expect(await manager.listMcpPrompts("legacy")).toContain("**review**(file, tone?): Review code")
+			const result = await manager.getPrompt("remote", "review", { file: "app.ts" })
+			expect(result.messages[0].content.text).toBe("Review app.ts")
+			expect(await manager.getMcpPrompt("remote", "review", { file: "app.ts" })).toContain("**user:** Review app.ts")
+		})
+
+		it("should deliver resource updates to subscribers and unsubscribe with the last one", async () => {
+			await manager.subscribeResource("remote", "notes://todo", "p1|coder")
+			await manager.subscribeResource("remote", "notes://todo", "p1|tester")
+			expect(rpcLog.filter((m) => m === "resources/subscribe")).toHaveLength(1)
+			expect(manager.getSubscriptions("p1|coder")).toEqual([{ serverName: "remote", uri: "notes://todo" }])
+
+			const updated = new Promise<any>((resolve) => manager.once("resource-updated", resolve))
+			const stream = [...notificationStreams.values()][0]
+			stream.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: "notes://todo" } })}\n\n`)
+			expect(await updated).toEqual({ serverName: "remote", uri: "notes://todo", subscribers: ["p1|coder", "p1|tester"] })
+
+			expect(await manager.unsubscribeResource("remote", "notes://todo", "p1|coder")).toBe(true)
+			expect(rpcLog).not.toContain("resources/unsubscribe")
+			expect(await manager.unsubscribeResource("remote", "notes://todo", "p1|tester")).toBe(true)
+			expect(rpcLog).toContain("resources/unsubscribe")
+			expect(await manager.unsubscribeResource("remote", "notes://todo", "p1|tester")).toBe(false)
+		})
+
+		it("should restore subscriptions after the session expires", async () => {
+			await manager.subscribeResource("remote", "notes://todo", "p1|coder")
+			sessions.clear()
+			await manager.readResource("remote", "notes://todo")
+			expect(rpcLog.filter((m) => m === "resources/subscribe")).toHaveLength(2)
+		})
+	})
+})
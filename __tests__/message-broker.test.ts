@@ -0,0 +1,164 @@
+// Society Agent - Message Broker Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { MessageBroker, type Delivery } from "../src/message-broker"
+
+const MINUTE = 60_000
+
+describe("MessageBroker", () => {
+	let tmpDir: string
+	let broker: MessageBroker
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "message-broker-test-"))
+		broker = new MessageBroker(tmpDir, { visibilityTimeoutMs: MINUTE, maxAttempts: 2 })
+	})
+
+	afterEach(() => {
+		broker.close()
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should deliver by priority and redeliver what is not acknowledged", () => {
+		broker.publish("shop:backend", "fyi", { priority: "low" })
+		broker.publish("shop:backend", "question")
+		broker.publish("shop:backend", "outage", { priority: "critical" })
+		// Publishing the same ID twice queues it once
+		broker.publish("shop:backend", "question again", { id: "q-1" })
+		broker.publish("shop:backend", "question again", { id: "q-1" })
+
+		const now = Date.now()
+		const first = broker.receive<string>("shop:backend", { max: 10, now })
+		expect(first.map((d) => d.body)).toEqual(["outage", "question", "question again", "fyi"])
+		expect(broker.receive("shop:backend", { now })).toEqual([])
+
+		expect(broker.ack("shop:backend", first[0].receipt)).toBe(true)
+		expect(broker.stats("shop:backend", now)).toMatchObject({ ready: 0, inFlight: 3, dead: 0 })
+
+		// Leases run out; the unacknowledged messages come back with new receipts
+		const again = broker.receive<string>("shop:backend", { max: 10, now: now + 2 * MINUTE })
+		expect(again.map((d) => [d.body, d.attempts])).toEqual([
+			["question", 2],
+			["question again", 2],
+			["fyi", 2],
+		])
+		expect(broker.ack("shop:backend", first[1].receipt)).toBe(false)
+	})
+
+	it("should dead-letter, replay and purge messages", () => {
+		broker.publish("shop:backend", "poison")
+		broker.publish("shop:backend", "stale", { expiresAt: Date.now() + MINUTE })
+		const now = Date.now()
+
+		const [poison] = broker.receive<string>("shop:backend", { now })
+		expect(broker.nack("shop:backend", poison.receipt, { error: "parse error" })).toBe(true)
+		// Released at the real clock, which may have moved past `now`
+		const [retried] = broker.receive<string>("shop:backend")
+		expect(retried.body).toBe("poison")
+		// Out of attempts
+		expect(broker.nack("shop:backend", retried.receipt, { error: "parse error" })).toBe(true)
+		// Expired before it was read
+		expect(broker.receive("shop:backend", { now: now + 2 * MINUTE })).toEqual([])
+
+		const dead = broker.messages("shop:backend", "dead")
+		expect(dead.map((m) => [m.body, m.deadReason])).toEqual([
+			["poison", "Failed 2 deliveries: parse error"],
+			["stale", "Expired before delivery"],
+		])
+
+		expect(broker.replay("shop:backend", [dead[0].id])).toBe(1)
+		const [replayed] = broker.receive<string>("shop:backend")
+		expect(replayed).toMatchObject({ body: "poison", attempts: 1 })
+
+		expect(broker.purge("shop:backend", "dead")).toBe(1)
+		expect(broker.list()).toEqual([{ queue: "shop:backend", ready: 0, inFlight: 1, dead: 0 }])
+	})
+
+	it("should survive a restart, compacting its log", () => {
+		const compacting = new MessageBroker(tmpDir, { compactAfter: 5 })
+		for (let i = 0; i < 10; i++) {
+			compacting.publish("shop:qa", `note ${i}`)
+			const [delivery] = compacting.receive("shop:qa")
+			compacting.ack("shop:qa", delivery.receipt)
+		}
+		compacting.publish("shop:qa", "kept")
+		const [leased] = compacting.receive<string>("shop:qa")
+		compacting.publish("shop:qa", "waiting")
+		compacting.close()
+
+		const lines = fs.readFileSync(path.join(tmpDir, "shop_qa.jsonl"), "utf-8").trim().split("\n")
+		expect(lines.length).toBeLessThan(10)
+
+		const reopened = new MessageBroker(tmpDir)
+		expect(reopened.messages<string>("shop:qa").map((m) => [m.body, m.state])).toEqual([
+			["kept", "in_flight"],
+			["waiting", "ready"],
+		])
+		// The lease taken before the restart still settles the message
+		expect(reopened.ack("shop:qa", leased.receipt)).toBe(true)
+		reopened.close()
+	})
+
+	it("should push messages to consumers as they arrive", async () => {
+		const seen: string[] = []
+		const stop = broker.consume<string>(
+			"shop:frontend",
+			(delivery: Delivery<string>) => {
+				seen.push(`${delivery.body} #${delivery.attempts}`)
+				if (delivery.body === "flaky" && delivery.attempts === 1) throw new Error("busy")
+			},
+			{ retryDelayMs: 10 },
+		)
+
+		broker.publish("shop:frontend", "hello")
+		broker.publish("shop:frontend", "flaky")
+		await vi.waitFor(() => expect(seen).toEqual(["hello #1", "flaky #1", "flaky #2"]))
+		expect(broker.stats("shop:frontend")).toMatchObject({ ready: 0, inFlight: 0, dead: 0 })
+
+		stop()
+		broker.publish("shop:frontend", "later")
+		await new Promise((resolve) => setTimeout(resolve, 20))
+		expect(seen).toHaveLength(3)
+		expect(broker.peek<string>("shop:frontend").map((m) => m.body)).toEqual(["later"])
+	})
+
+	it("should share a directory between brokers in different processes", async () => {
+		// A second instance stands in for another process: it keeps its own state
+		const sender = new MessageBroker(tmpDir, { compactAfter: 5 })
+		try {
+			const seen: string[] = []
+			const stop = broker.consume<string>("shop:backend", (delivery) => {
+				seen.push(delivery.body)
+			})
+			sender.publish("shop:backend", "from another process")
+			await vi.waitFor(() => expect(seen).toEqual(["from another process"]))
+			stop()
+
+			// A message is leased to one broker only
+			sender.publish("shop:backend", "once")
+			const now = Date.now()
+			const [leased] = broker.receive<string>("shop:backend", { now })
+			expect(leased.body).toBe("once")
+			expect(sender.receive("shop:backend", { now })).toEqual([])
+
+			// The sender compacts the shared log without losing the lease it did not take
+			for (let i = 0; i < 10; i++) sender.publish("shop:backend", `note ${i}`)
+			for (const delivery of sender.receive("shop:backend", { max: 10 })) sender.ack("shop:backend", delivery.receipt)
+			const lines = fs.readFileSync(path.join(tmpDir, "shop_backend.jsonl"), "utf-8").trim().split("\n")
+			expect(lines.length).toBeLessThan(10)
+
+			expect(broker.ack("shop:backend", leased.receipt)).toBe(true)
+			expect(sender.stats("shop:backend")).toMatchObject({ ready: 0, inFlight: 0, dead: 0 })
+			expect(broker.stats("shop:backend")).toMatchObject({ ready: 0, inFlight: 0, dead: 0 })
+		} finally {
+			sender.close()
+		}
+	})
+})
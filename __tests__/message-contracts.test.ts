@@ -426,4 +426,30 @@ describe("formatMessageAsMarkdown", () => {
 		expect(formatMessageAsMarkdown(critical)).toContain("🔴")
 		expect(formatMessageAsMarkdown(normal)).toContain("🟢")
 	})
+
+	it("should include why a task is blocked", () => {
+		const message = createBlockedNotification("merge-queue", "backend", "project-1", {
+			taskId: "T-1",
+			blockingReason: { type: "resource", description: "Merge conflict in app.js" },
+			suggestedResolution: "Rebase onto main",
+		})
+
+		const markdown = formatMessageAsMarkdown(message)
+
+		expect(markdown).toContain("### Blocked (resource)")
+		expect(markdown).toContain("Merge conflict in app.js")
+		expect(markdown).toContain("Rebase onto main")
+	})
+
+	it("should not print a missing blocking type", () => {
+		const message = createBlockedNotification("merge-queue", "backend", "project-1", {
+			taskId: "T-1",
+			blockingReason: { description: "Merge conflict in app.js" } as any,
+		})
+
+		const markdown = formatMessageAsMarkdown(message)
+
+		expect(markdown).toContain("### Blocked\n")
+		expect(markdown).not.toContain("undefined")
+	})
 })
@@ -0,0 +1,156 @@
+// Society Agent - Message Log Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { MessageLog, MessageContractError, ResponseMonitor, messageFromText, type StoredMessage } from "../src/message-log"
+import { createTaskAssignment, createTaskCompletion, type StructuredMessage } from "../src/message-contracts"
+
+const MINUTE = 60_000
+
+function assignment(): StructuredMessage {
+	return createTaskAssignment("lead", "backend", "shop", {
+		taskId: "T-SHOP-001",
+		taskTitle: "Add coupons",
+		description: "Coupon codes at checkout",
+		requirements: [],
+		acceptanceCriteria: ["Codes apply a discount"],
+	})
+}
+
+describe("messageFromText", () => {
+	it("should type questions, answers and notes", () => {
+		const question = messageFromText("Which port does the API use?", "frontend", "backend", "shop")
+		expect(question).toMatchObject({ category: "query", type: "information_request", responseExpected: "required", payload: { question: "Which port does the API use?" } })
+
+		const answer = messageFromText("3000", "backend", "frontend", "shop", { inResponseTo: question })
+		expect(answer).toMatchObject({ category: "query", type: "response", inResponseTo: question.messageId, responseExpected: "none", payload: { answer: "3000" } })
+
+		const note = messageFromText("Deployed T-SHOP-004 to staging", "backend", "frontend", "shop", { priority: "high" })
+		expect(note).toMatchObject({ category: "notification", type: "status_update", taskId: "T-SHOP-004", priority: "high", responseExpected: "none" })
+	})
+})
+
+describe("MessageLog", () => {
+	let tmpDir: string
+	let messages: MessageLog
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "message-log-test-"))
+		messages = new MessageLog(path.join(tmpDir, "messages"))
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should reject messages that break their contract", () => {
+		const message = assignment()
+		const invalid = { ...message, toAgentId: "", responseExpected: "soon", expiresAt: new Date(Date.now() - MINUTE).toISOString() } as unknown as StructuredMessage
+		expect(() => messages.record(invalid)).toThrow(MessageContractError)
+		expect(messages.check(invalid).map((e) => e.field)).toEqual(["toAgentId", "responseExpected", "expiresAt"])
+
+		const reply = messageFromText("Done", "backend", "lead", "shop", { inResponseTo: message })
+		expect(() => messages.record(reply)).toThrow("inResponseTo: Unknown message")
+		expect(messages.list("shop")).toEqual([])
+	})
+
+	it("should track required responses until answered", () => {
+		const message = assignment()
+		expect(messages.record(message).stored.response).toBe("awaiting")
+		expect(messages.awaitingReply("shop", "lead", "backend").map((m) => m.message.messageId)).toEqual([message.messageId])
+
+		// A message about another task answers nothing
+		const other = createTaskCompletion("backend", "lead", "shop", { taskId: "T-SHOP-002", summary: "Done", filesCreated: [], filesModified: [] })
+		expect(messages.record(other).answered).toEqual([])
+
+		// Reporting back on the same task does
+		const done = createTaskCompletion("backend", "lead", "shop", { taskId: "T-SHOP-001", summary: "Coupons work", filesCreated: ["src/coupons.ts"], filesModified: [] })
+		const { answered } = messages.record(done)
+		expect(answered.map((m) => m.message.messageId)).toEqual([message.messageId])
+		expect(messages.get("shop", message.messageId)).toMatchObject({ response: "answered", responses: [done.messageId] })
+		expect(messages.list("shop", { response: "awaiting" })).toEqual([])
+		expect(messages.list("shop", { agentId: "backend", taskId: "T-SHOP-001" })).toHaveLength(2)
+	})
+
+	it("should drop settled messages once they are past retention", () => {
+		const DAY = 24 * 60 * MINUTE
+		messages = new MessageLog(path.join(tmpDir, "messages"), { retentionMs: 7 * DAY })
+		const note = messageFromText("FYI: staging is down", "lead", "backend", "shop")
+		const message = assignment()
+		messages.record(note)
+		messages.record(message)
+
+		// Nothing is settled long enough yet; the assignment still awaits its response
+		const later = new Date(Date.now() + 8 * DAY)
+		messages.record(messageFromText("Any news?", "lead", "frontend", "shop"), later)
+		expect(messages.get("shop", note.messageId)).toBeUndefined()
+		expect(messages.get("shop", message.messageId)!.response).toBe("awaiting")
+		expect(messages.list("shop")).toHaveLength(2)
+	})
+
+	it("should refuse replies once a message has expired", () => {
+		const question = messageFromText("Can you review my PR?", "frontend", "backend", "shop", { expiresAt: new Date(Date.now() + 5 * MINUTE).toISOString() })
+		messages.record(question)
+
+		const answer = messageFromText("Looks good", "backend", "frontend", "shop", { inResponseTo: question })
+		expect(() => messages.record(answer, new Date(Date.now() + 10 * MINUTE))).toThrow(/expired at/)
+	})
+})
+
+describe("ResponseMonitor", () => {
+	let tmpDir: string
+	let messages: MessageLog
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "message-monitor-test-"))
+		messages = new MessageLog(path.join(tmpDir, "messages"))
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should remind, then escalate, then expire missing responses", () => {
+		const events: string[] = []
+		const monitor = new ResponseMonitor(messages, { getAll: () => [{ id: "shop" }] }, {
+			reminderAfterMs: 10 * MINUTE,
+			escalateAfterMs: 60 * MINUTE,
+			onReminder: (_p, entry: StoredMessage) => events.push(`remind ${entry.message.toAgentId}`),
+			onEscalation: () => {
+				events.push("escalate")
+				return "architect"
+			},
+			onExpired: (_p, entry) => events.push(`expired ${entry.message.fromAgentId}`),
+		})
+		const sent = Date.now()
+		const message = assignment()
+		const question = messageFromText("Is the schema final?", "backend", "lead", "shop", { expiresAt: new Date(sent + 30 * MINUTE).toISOString() })
+		messages.record(message)
+		messages.record(question)
+		// Optional messages are never chased
+		messages.record(messageFromText("FYI: staging is down", "lead", "backend", "shop"))
+
+		expect(monitor.checkOnce(new Date(sent + 5 * MINUTE))).toBe(0)
+		expect(monitor.checkOnce(new Date(sent + 15 * MINUTE))).toBe(2)
+		expect(monitor.checkOnce(new Date(sent + 20 * MINUTE))).toBe(0)
+		expect(monitor.checkOnce(new Date(sent + 45 * MINUTE))).toBe(1)
+		expect(monitor.checkOnce(new Date(sent + 90 * MINUTE))).toBe(1)
+		expect(monitor.checkOnce(new Date(sent + 120 * MINUTE))).toBe(0)
+
+		expect(events).toEqual(["remind backend", "remind lead", "expired backend", "escalate"])
+		// One write per project and pass, however many messages it acted on
+		messages.record(assignment())
+		messages.record(assignment())
+		const save = vi.spyOn(messages as any, "save")
+		expect(monitor.checkOnce(new Date(sent + 15 * MINUTE))).toBe(2)
+		expect(save).toHaveBeenCalledTimes(1)
+		expect(messages.get("shop", message.messageId)).toMatchObject({ response: "awaiting", escalatedTo: "architect" })
+		expect(messages.get("shop", question.messageId)!.response).toBe("expired")
+	})
+})
@@ -0,0 +1,89 @@
+// Society Agent - Message Thread Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { MessageLog, messageFromText } from "../src/message-log"
+import { MessageThreadIndex } from "../src/message-threads"
+import { createTaskAssignment, createTaskCompletion, type StructuredMessage } from "../src/message-contracts"
+import type { ActivityEvent } from "../src/agent-activity-logger"
+
+/** Messages a second apart, so the log orders them as sent */
+let clock = Date.parse("2026-03-02T09:00:00Z")
+function at<T extends StructuredMessage>(message: T): T {
+	clock += 1000
+	return { ...message, timestamp: new Date(clock).toISOString() }
+}
+
+describe("MessageThreadIndex", () => {
+	let tmpDir: string
+	let messages: MessageLog
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "message-threads-test-"))
+		// The messages are dated March 2026, whatever the date today
+		messages = new MessageLog(path.join(tmpDir, "messages"), { retentionMs: Infinity })
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should follow a delegation chain across agents", () => {
+		// lead → backend: assignment
+		const assignment = at(
+			createTaskAssignment("lead", "backend", "shop", { taskId: "T-SHOP-001", taskTitle: "Add coupons", description: "", requirements: [], acceptanceCriteria: [] }),
+		)
+		messages.record(assignment)
+		// backend → frontend, while working on the assignment
+		const question = at({ ...messageFromText("Which field holds the coupon code?", "backend", "frontend", "shop"), correlationId: assignment.messageId })
+		messages.record(question)
+		// frontend answers; the reply joins the conversation on its own
+		const answer = messages.record(at(messageFromText("couponCode", "frontend", "backend", "shop", { inResponseTo: question }))).stored.message
+		// backend reports back
+		const done = at({
+			...createTaskCompletion("backend", "lead", "shop", { taskId: "T-SHOP-001", summary: "Coupons work", filesCreated: [], filesModified: [] }),
+			inResponseTo: assignment.messageId,
+		})
+		messages.record(done)
+		// Unrelated
+		messages.record(at(messageFromText("Standup moved to 10:00", "lead", "qa", "shop")))
+
+		const activity: ActivityEvent[] = [
+			{ t: Date.parse(question.timestamp) + 500, agentId: "frontend", projectId: "shop", type: "tool_call", tool: "read_file", args: { path: "src/cart.ts" }, iteration: 1, callIndex: 0, correlationId: assignment.messageId },
+			{ t: Date.parse(question.timestamp) + 600, agentId: "frontend", projectId: "shop", type: "chat_out", content: "Checking the cart", stopReason: "end_turn", durationMs: 5, iteration: 1 },
+		]
+		const index = new MessageThreadIndex(messages.list("shop"), activity)
+
+		expect(answer.correlationId).toBe(assignment.messageId)
+		const threads = index.threads()
+		expect(threads).toHaveLength(2)
+		expect(index.threads({ taskId: "T-SHOP-001" })).toEqual([
+			expect.objectContaining({
+				threadId: assignment.messageId,
+				subject: "assignment: Add coupons",
+				startedBy: "lead",
+				participants: ["lead", "backend", "frontend"],
+				messageCount: 4,
+				awaiting: 0,
+			}),
+		])
+		expect(index.threads({ agentId: "qa" }).map((t) => t.messageCount)).toEqual([1])
+
+		// Any message in the thread finds it
+		expect(index.threadId(answer.messageId)).toBe(assignment.messageId)
+		const thread = index.thread(assignment.messageId)!
+		expect(thread.timeline.map((e) => (e.kind === "message" ? `${e.depth} ${e.entry.message.fromAgentId}` : `${e.kind} ${e.agentId}`))).toEqual([
+			"0 lead",
+			"1 backend",
+			"activity frontend",
+			"2 frontend",
+			"1 backend",
+		])
+	})
+})
@@ -0,0 +1,212 @@
+// Society Agent - Secrets Vault Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { SecretsVault, VaultKeyError, keyIdOf, loadMasterKeys, parseMasterKey, type MasterKeys } from "../src/secrets-vault"
+import { CredentialsStore } from "../src/git-loader"
+
+const ACTOR = { actor: "test", purpose: "unit test" }
+
+describe("master key", () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "vault-key-test-"))
+	})
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it("should accept hex, base64 and passphrases", () => {
+		const raw = crypto.randomBytes(32)
+		expect(parseMasterKey(raw.toString("hex"))).toEqual(raw)
+		expect(parseMasterKey(raw.toString("base64") + "\n")).toEqual(raw)
+		expect(parseMasterKey("correct horse battery staple")).toHaveLength(32)
+		expect(parseMasterKey("correct horse battery staple")).toEqual(parseMasterKey("correct horse battery staple"))
+		expect(() => parseMasterKey("  ")).toThrow(VaultKeyError)
+	})
+
+	it("should prefer the environment, then the key file, and generate one otherwise", () => {
+		const keyFile = path.join(dir, "master.key")
+		const generated = loadMasterKeys(keyFile, {})
+		expect(generated).toMatchObject({ source: "file", keyFile })
+		expect(fs.statSync(keyFile).mode & 0o777).toBe(0o400)
+		expect(loadMasterKeys(keyFile, {}).current).toEqual(generated.current)
+
+		const other = path.join(dir, "other.key")
+		fs.writeFileSync(other, "file passphrase")
+		expect(loadMasterKeys(keyFile, { SOCIETY_MASTER_KEY_FILE: other }).current).toEqual(parseMasterKey("file passphrase"))
+
+		const fromEnv = loadMasterKeys(keyFile, { SOCIETY_MASTER_KEY: "env key", SOCIETY_MASTER_KEY_PREVIOUS: "old one,older one" })
+		expect(fromEnv.source).toBe("env")
+		expect(fromEnv.keyFile).toBeUndefined()
+		expect(fromEnv.previous.map(keyIdOf)).toEqual([keyIdOf(parseMasterKey("old one")), keyIdOf(parseMasterKey("older one"))])
+	})
+})
+
+describe("SecretsVault", () => {
+	let dir: string
+	let keys: MasterKeys
+
+	const open = (k: MasterKeys = keys) => new SecretsVault(dir, k)
+	const envKeys = (current: string, ...previous: string[]): MasterKeys => ({
+		current: parseMasterKey(current),
+		previous: previous.map(parseMasterKey),
+		source: "env",
+	})
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "vault-test-"))
+		keys = loadMasterKeys(path.join(dir, "master.key"), {})
+	})
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it("should encrypt secrets at rest and decrypt them after a restart", () => {
+		open().set("git-credential:1", "glpat-SECRET-token", ACTOR)
+		const onDisk = fs.readFileSync(path.join(dir, "vault.json"), "utf-8")
+		expect(onDisk).not.toContain("glpat-SECRET-token")
+		expect(fs.statSync(path.join(dir, "vault.json")).mode & 0o777).toBe(0o600)
+
+		const vault = open()
+		expect(vault.get("git-credential:1", ACTOR)).toBe("glpat-SECRET-token")
+		expect(vault.list()).toEqual([expect.objectContaining({ name: "git-credential:1", keyId: vault.keyId, lastAccessedAt: expect.any(String) })])
+		expect(JSON.stringify(vault.list())).not.toContain("SECRET")
+		expect(vault.delete("git-credential:1", ACTOR)).toBe(true)
+		expect(vault.get("git-credential:1", ACTOR)).toBeUndefined()
+	})
+
+	it("should reject tampered secrets and the wrong key", () => {
+		open().set("a", "value", ACTOR)
+		const file = path.join(dir, "vault.json")
+		const data = JSON.parse(fs.readFileSync(file, "utf-8"))
+		data.secrets.a.data = Buffer.from("other").toString("base64")
+		fs.writeFileSync(file, JSON.stringify(data))
+		expect(() => open().get("a", ACTOR)).toThrow()
+
+		const vault = open(envKeys("first"))
+		vault.set("b", "value", ACTOR)
+		expect(() => open(envKeys("second")).get("b", ACTOR)).toThrow(/not configured/)
+	})
+
+	it("should audit every access without recording values", () => {
+		const vault = open()
+		vault.set("env:OPENAI_API_KEY", "sk-abc", { actor: "alice", purpose: "settings" })
+		vault.get("env:OPENAI_API_KEY", { actor: "git-loader", purpose: "push" })
+		vault.set("other", "x", ACTOR)
+
+		const audit = vault.readAudit({ name: "env:OPENAI_API_KEY" })
+		expect(audit.map((e) => [e.action, e.actor, e.purpose])).toEqual([
+			["read", "git-loader", "push"],
+			["write", "alice", "settings"],
+		])
+		expect(vault.readAudit({ limit: 1 })[0].name).toBe("other")
+		expect(fs.readFileSync(path.join(dir, "vault-audit.jsonl"), "utf-8")).not.toContain("sk-abc")
+	})
+
+	it("should rotate a key file and re-encrypt every secret", () => {
+		const vault = open()
+		vault.set("a", "alpha", ACTOR)
+		vault.set("b", "beta", ACTOR)
+		const before = vault.keyId
+
+		const result = vault.rotate(ACTOR)
+		expect(result).toEqual({ keyId: vault.keyId, previousKeyId: before, rotated: 2 })
+		expect(result.keyId).not.toBe(before)
+		expect(vault.get("a", ACTOR)).toBe("alpha")
+
+		// After a restart the new key file is used
+		const reopened = open(loadMasterKeys(path.join(dir, "master.key"), {}))
+		expect(reopened.keyId).toBe(result.keyId)
+		expect(reopened.get("b", ACTOR)).toBe("beta")
+		expect(reopened.readAudit({ limit: 1 })[0]).toMatchObject({ action: "read", name: "b" })
+		expect(vault.readAudit().some((e) => e.action === "rotate")).toBe(true)
+	})
+
+	it("should re-encrypt secrets on start when the environment key was rotated", () => {
+		open(envKeys("old key")).set("a", "alpha", ACTOR)
+		expect(() => open(envKeys("new key")).rotate(ACTOR)).toThrow(VaultKeyError)
+
+		const vault = open(envKeys("new key", "old key"))
+		expect(vault.list()[0].keyId).toBe(keyIdOf(parseMasterKey("new key")))
+		// The old key is no longer needed
+		expect(open(envKeys("new key")).get("a", ACTOR)).toBe("alpha")
+	})
+
+	it("should move provider keys out of .env files and back into the environment", () => {
+		const envPath = path.join(dir, ".env")
+		fs.writeFileSync(envPath, `ACTIVE_PROVIDER=openai\nOPENAI_API_KEY="sk-openai"\nexport GROQ_API_KEY=gsk_1\nPORT=4000\n`)
+		const vault = open()
+		expect(vault.importEnvFile(envPath, ["OPENAI_API_KEY", "GROQ_API_KEY", "ANTHROPIC_API_KEY"], ACTOR)).toEqual(["OPENAI_API_KEY", "GROQ_API_KEY"])
+
+		const content = fs.readFileSync(envPath, "utf-8")
+		expect(content).not.toContain("sk-openai")
+		expect(content).not.toContain("gsk_1")
+		expect(content).toContain("ACTIVE_PROVIDER=openai\n# OPENAI_API_KEY is stored in the secrets vault")
+
+		const env: NodeJS.ProcessEnv = { GROQ_API_KEY: "from-real-env" }
+		expect(vault.exportToEnv(ACTOR, env)).toEqual(["OPENAI_API_KEY"])
+		expect(env).toEqual({ GROQ_API_KEY: "from-real-env", OPENAI_API_KEY: "sk-openai" })
+	})
+})
+
+describe("CredentialsStore", () => {
+	let workspace: string
+	let vault: SecretsVault
+	let societyDir: string
+
+	beforeEach(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), "credentials-test-"))
+		societyDir = path.join(workspace, "projects", ".society")
+		vault = new SecretsVault(societyDir, loadMasterKeys(path.join(societyDir, "master.key"), {}))
+	})
+
+	afterEach(() => {
+		fs.rmSync(workspace, { recursive: true, force: true })
+	})
+
+	it("should keep secrets in the vault, not in credentials.json", () => {
+		const store = new CredentialsStore(workspace, vault)
+		const added = store.addCredential({ name: "GitLab", type: "token", secret: "glpat-123", host: "gitlab.com" })
+		expect(added).not.toHaveProperty("secret")
+		expect(fs.readFileSync(path.join(societyDir, "credentials.json"), "utf-8")).not.toContain("glpat-123")
+		expect(store.listCredentials()[0]).not.toHaveProperty("secret")
+
+		const reloaded = new CredentialsStore(workspace, vault)
+		expect(reloaded.getCredential(added.id, "push")?.secret).toBe("glpat-123")
+		expect(vault.readAudit({ limit: 1 })[0]).toMatchObject({ action: "read", actor: "git-loader", purpose: "push" })
+
+		expect(reloaded.deleteCredential(added.id)).toBe(true)
+		expect(vault.list()).toEqual([])
+	})
+
+	it("should migrate plaintext credentials and SSH key files", () => {
+		fs.mkdirSync(path.join(societyDir, "ssh-keys"), { recursive: true })
+		fs.writeFileSync(path.join(societyDir, "ssh-keys", "c1"), "PRIVATE KEY")
+		fs.writeFileSync(
+			path.join(societyDir, "credentials.json"),
+			JSON.stringify({ credentials: [{ id: "c1", name: "Deploy key", type: "ssh-key", secret: "PRIVATE KEY", host: "*", createdAt: "2026-01-01" }], version: 1 }),
+		)
+
+		const store = new CredentialsStore(workspace, vault)
+		expect(fs.readFileSync(path.join(societyDir, "credentials.json"), "utf-8")).not.toContain("PRIVATE KEY")
+		expect(fs.existsSync(path.join(societyDir, "ssh-keys", "c1"))).toBe(false)
+
+		// The key is only on disk while a git command needs it
+		const keyPath = store.materializeSSHKey("c1")!
+		expect(fs.readFileSync(keyPath, "utf-8")).toBe("PRIVATE KEY\n")
+		expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600)
+		store.releaseSSHKey(keyPath)
+		expect(fs.readdirSync(path.join(societyDir, "ssh-keys"))).toEqual([])
+	})
+})
@@ -0,0 +1,188 @@
+// Society Agent - Society MCP Server Tests
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest"
+import * as http from "http"
+import { PassThrough } from "stream"
+import type { AddressInfo } from "net"
+import { SocietyApiClient, SocietyMcpServer, serveStdio } from "../src/society-mcp-server"
+
+const TASK = {
+	taskId: "T-API-001",
+	sequence: 1,
+	title: "Add login",
+	description: "Add a login endpoint",
+	status: "created",
+	statusHistory: [],
+	priority: 2,
+	createdBy: "mcp-client",
+	context: {},
+}
+
+describe("SocietyMcpServer", () => {
+	let server: http.Server
+	let baseUrl: string
+	let requests: Array<{ method: string; path: string; body: any; auth?: string }>
+	let mcp: SocietyMcpServer
+
+	beforeAll(async () => {
+		server = http.createServer((req, res) => {
+			let raw = ""
+			req.on("data", (chunk) => (raw += chunk))
+			req.on("end", () => {
+				const body = raw ? JSON.parse(raw) : undefined
+				requests.push({ method: req.method!, path: req.url!, body, auth: req.headers.authorization })
+				const json = (status: number, data: unknown) => {
+					res.writeHead(status, { "Content-Type": "application/json" })
+					res.end(JSON.stringify(data))
+				}
+				if (req.headers.authorization !== "Bearer tok") return json(401, { error: "Authentication required" })
+
+				if (req.url === "/api/projects") {
+					return json(200, {
+						projects: [
+							{
+								id: "shop",
+								name: "Shop",
+								description: "Web shop",
+								agents: [
+									{ id: "lead", name: "Lead", role: "supervisor", isActive: true },
+									{ id: "worker-1", name: "Worker", role: "worker", ephemeral: true },
+								],
+							},
+						],
+					})
+				}
+				if (req.url === "/api/projects/shop/managed-tasks" && req.method === "POST") return json(200, { ...TASK, title: body.title })
+				if (req.url === "/api/projects/shop/managed-tasks/T-API-001/delegate") {
+					return json(200, { ...TASK, status: "delegated", assignedTo: body.toAgentId })
+				}
+				if (req.url === "/api/projects/shop/managed-tasks/T-API-001") {
+					return json(200, {
+						...TASK,
+						status: "blocked",
+						assignedTo: "lead",
+						blockingReason: { type: "question", description: "Which OAuth provider?", unblockRequires: "human" },
+						statusHistory: [{ from: "created", to: "blocked", triggeredBy: "lead", timestamp: "2026-03-10T10:00:00Z", reason: "question" }],
+					})
+				}
+				if (req.url === "/api/projects/shop/managed-tasks/T-NOPE") return json(404, { error: "Task not found" })
+				if (req.url?.startsWith("/api/projects/shop/managed-tasks?")) return json(200, [{ ...TASK, assignedTo: "lead" }])
+				if (req.url === "/api/projects/shop/decisions?status=pending") {
+					return json(200, [{ id: "D-001", title: "Use Postgres", category: "architecture", status: "proposed", context: "", options: [], decision: "Postgres", rationale: "Relational data", decidedBy: "lead", decidedAt: "2026-03-10" }])
+				}
+				if (req.url === "/api/agent/lead/chat") return json(200, { agentName: "Lead", response: `You said: ${body.description}`, status: "completed", filesCreated: 2 })
+				json(404, { error: "Not found" })
+			})
+		})
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+	})
+
+	afterAll(async () => {
+		await new Promise<void>((resolve) => server.close(() => resolve()))
+	})
+
+	beforeEach(() => {
+		requests = []
+		mcp = new SocietyMcpServer(new SocietyApiClient({ baseUrl, token: "tok" }), "ide")
+	})
+
+	async function callTool(name: string, args: Record<string, unknown> = {}) {
+		const response = await mcp.handle({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } })
+		return response!.result as { content: Array<{ text: string }>; isError?: boolean }
+	}
+
+	it("should negotiate the protocol version and list tools", async () => {
+		const init = await mcp.handle({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2024-11-05" } })
+		expect(init!.result).toMatchObject({ protocolVersion: "2024-11-05", capabilities: { tools: {} }, serverInfo: { name: "society-agent" } })
+		const unknownVersion = await mcp.handle({ jsonrpc: "2.0", id: 2, method: "initialize", params: { protocolVersion: "1999-01-01" } })
+		expect(unknownVersion!.result.protocolVersion).toBe("2025-06-18")
+
+		const list = await mcp.handle({ jsonrpc: "2.0", id: 3, method: "tools/list" })
+		expect(list!.result.tools.map((t: any) => t.name)).toEqual([
+			"list_projects",
+			"chat_with_agent",
+			"create_task",
+			"delegate_task",
+			"get_task_status",
+			"list_tasks",
+			"read_decisions",
+		])
+	})
+
+	it("should ignore notifications and reject unknown methods and tools", async () => {
+		expect(await mcp.handle({ jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull()
+		expect((await mcp.handle({ jsonrpc: "2.0", id: 1, method: "resources/list" }))!.error!.code).toBe(-32601)
+		expect((await mcp.handle({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "rm_rf" } }))!.error!.code).toBe(-32602)
+	})
+
+	it("should list projects with their persistent agents", async () => {
+		const result = await callTool("list_projects")
+		expect(result.content[0].text).toContain("**shop** - Shop: Web shop")
+		expect(result.content[0].text).toContain("`lead` Lead (supervisor) · active")
+		expect(result.content[0].text).not.toContain("worker-1")
+		expect(requests[0].auth).toBe("Bearer tok")
+	})
+
+	it("should create a task and delegate it as the configured client", async () => {
+		const result = await callTool("create_task", { projectId: "shop", title: "Add login", description: "Add a login endpoint", assignTo: "lead" })
+		expect(requests.map((r) => r.path)).toEqual(["/api/projects/shop/managed-tasks", "/api/projects/shop/managed-tasks/T-API-001/delegate"])
+		expect(requests[0].body).toMatchObject({ title: "Add login", createdBy: "ide" })
+		expect(requests[1].body).toEqual({ toAgentId: "lead", byAgentId: "ide" })
+		expect(result.content[0].text).toContain("Status: delegated")
+	})
+
+	it("should delegate and start work with a chat when asked", async () => {
+		const result = await callTool("delegate_task", { projectId: "shop", taskId: "T-API-001", agentId: "lead", start: true })
+		expect(requests[1]).toMatchObject({ path: "/api/agent/lead/chat", body: { projectId: "shop" } })
+		expect(requests[1].body.description).toContain("T-API-001")
+		expect(result.content[0].text).toContain("**Lead:** You said: Managed task T-API-001")
+	})
+
+	it("should chat with an agent", async () => {
+		const result = await callTool("chat_with_agent", { projectId: "shop", agentId: "lead", message: "status?" })
+		expect(result.content[0].text).toBe("**Lead:** You said: status?\n\n(files created: 2)")
+	})
+
+	it("should report task status, task lists and decisions", async () => {
+		const status = (await callTool("get_task_status", { projectId: "shop", taskId: "T-API-001" })).content[0].text
+		expect(status).toContain("Blocked (question): Which OAuth provider? - needs human")
+		expect(status).toContain("created → blocked by lead (question)")
+
+		expect((await callTool("list_tasks", { projectId: "shop", status: "created,blocked" })).content[0].text).toBe(
+			"- **T-API-001** [created] P2 → lead: Add login",
+		)
+		expect(requests[1].path).toBe("/api/projects/shop/managed-tasks?status=created%2Cblocked")
+
+		expect((await callTool("read_decisions", { projectId: "shop", status: "pending" })).content[0].text).toContain(
+			"### D-001: Use Postgres [proposed]",
+		)
+	})
+
+	it("should return API and input failures as tool errors", async () => {
+		const missing = await callTool("get_task_status", { projectId: "shop", taskId: "T-NOPE" })
+		expect(missing).toMatchObject({ isError: true, content: [{ text: "❌ get_task_status failed: Task not found" }] })
+		expect((await callTool("chat_with_agent", { projectId: "shop", agentId: "lead" })).content[0].text).toMatch(/"message" is required/)
+
+		const anonymous = new SocietyMcpServer(new SocietyApiClient({ baseUrl }))
+		const denied = await anonymous.callTool("list_projects", {})
+		expect(denied.content[0].text).toMatch(/Authentication failed/)
+	})
+
+	it("should serve newline-delimited JSON-RPC over streams", async () => {
+		const input = new PassThrough()
+		const output = new PassThrough()
+		let written = ""
+		output.on("data", (chunk) => (written += chunk))
+		const done = serveStdio(mcp, input, output)
+		input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n')
+		input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n')
+		input.write("not json\n")
+		input.end()
+		await done
+		// One line per request; the notification gets no answer
+		const messages = written.trim().split("\n").map((line) => JSON.parse(line))
+		expect(messages).toHaveLength(2)
+		expect(messages).toContainEqual({ jsonrpc: "2.0", id: 1, result: {} })
+		expect(messages).toContainEqual({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } })
+	})
+})
@@ -0,0 +1,90 @@
+// Society Agent - Task Dependency Graph Tests
+import { describe, it, expect } from "vitest"
+import { createTask, type ManagedTask } from "../src/task-manager"
+import { buildTaskGraph, findDependencyCycles, taskDurationHours, taskGraphToMermaid, taskGraphToDot } from "../src/task-graph"
+
+const NOW = new Date("2026-03-10T12:00:00.000Z")
+
+function task(taskId: string, dependsOn: string[] = [], fields: Partial<ManagedTask> = {}): ManagedTask {
+	return {
+		...createTask("T", 1, { title: `Task ${taskId}`, description: "", createdBy: "architect", dependsOn }),
+		taskId,
+		estimatedHours: 2,
+		...fields,
+	}
+}
+
+describe("taskDurationHours", () => {
+	it("should use actual time for finished tasks and estimates for the rest", () => {
+		const finished = task("A", [], { status: "done", startedAt: "2026-03-10T08:00:00.000Z", completedAt: "2026-03-10T11:30:00.000Z" })
+		expect(taskDurationHours(finished, NOW)).toEqual({ durationHours: 3.5, durationSource: "actual" })
+		expect(taskDurationHours(task("B"), NOW)).toEqual({ durationHours: 2, durationSource: "estimate" })
+		expect(taskDurationHours(task("C", [], { estimatedHours: undefined }), NOW)).toEqual({ durationHours: 1, durationSource: "default" })
+
+		// Running past its estimate
+		const late = task("D", [], { status: "in_progress", startedAt: "2026-03-10T07:00:00.000Z" })
+		expect(taskDurationHours(late, NOW)).toEqual({ durationHours: 5, durationSource: "elapsed" })
+		expect(taskDurationHours(task("E", [], { status: "cancelled" }), NOW).durationHours).toBe(0)
+	})
+})
+
+describe("buildTaskGraph", () => {
+	it("should find the critical path and slack", () => {
+		// A(2) → B(4) → D(2)
+		// A(2) → C(1) → D
+		const tasks = [task("A"), task("B", ["A"], { estimatedHours: 4 }), task("C", ["A"], { estimatedHours: 1 }), task("D", ["B", "C"])]
+
+		const graph = buildTaskGraph(tasks, NOW)
+
+		expect(graph.criticalPath).toEqual(["A", "B", "D"])
+		expect(graph.totalHours).toBe(8)
+		const c = graph.nodes.find((n) => n.taskId === "C")!
+		expect(c).toMatchObject({ earliestStart: 2, latestStart: 5, slack: 3, critical: false })
+		expect(graph.nodes.filter((n) => n.critical).map((n) => n.taskId)).toEqual(["A", "B", "D"])
+		expect(graph.edges.filter((e) => e.critical).map((e) => `${e.from}>${e.to}`)).toEqual(["A>B", "B>D"])
+		expect(graph.cycles).toEqual([])
+	})
+
+	it("should report cycles and unknown dependencies without failing", () => {
+		const tasks = [task("A", ["C"]), task("B", ["A"]), task("C", ["B"]), task("D", ["C", "X"]), task("E", ["E"])]
+
+		expect(findDependencyCycles(tasks)).toEqual([["A", "B", "C"], ["E"]])
+		const graph = buildTaskGraph(tasks, NOW)
+
+		expect(graph.cycles).toEqual([["A", "B", "C"], ["E"]])
+		expect(graph.missingDependencies).toEqual([{ taskId: "D", dependsOn: "X" }])
+		expect(graph.nodes.filter((n) => n.inCycle).map((n) => n.taskId)).toEqual(["A", "B", "C", "E"])
+		expect(graph.nodes.find((n) => n.taskId === "D")!.earliestStart).toBeGreaterThan(0)
+	})
+
+	it("should rank blocked tasks by the work waiting on them", () => {
+		const tasks = [
+			task("A", [], { status: "blocked", assignedTo: "backend" }),
+			task("B", [], { status: "blocked" }),
+			task("C", ["A"], { estimatedHours: 3 }),
+			task("D", ["C"], { estimatedHours: 5 }),
+			task("E", ["B"]),
+			task("F", ["A"], { status: "done", startedAt: NOW.toISOString(), completedAt: NOW.toISOString() }),
+		]
+
+		const graph = buildTaskGraph(tasks, NOW)
+
+		expect(graph.blockers).toEqual([
+			{ taskId: "A", title: "Task A", assignedTo: "backend", downstreamTasks: 2, downstreamHours: 8 },
+			{ taskId: "B", title: "Task B", assignedTo: undefined, downstreamTasks: 1, downstreamHours: 2 },
+		])
+	})
+
+	it("should render Mermaid and DOT", () => {
+		const graph = buildTaskGraph([task("T-1"), task("T-2", ["T-1"], { status: "blocked" })], NOW)
+
+		const mermaid = taskGraphToMermaid(graph)
+		expect(mermaid).toContain('T_1["T-1: Task T-1<br/>planned · 2h"]')
+		expect(mermaid).toContain("T_1 ==> T_2")
+		expect(mermaid).toContain("class T_2 blocked")
+
+		const dot = taskGraphToDot(graph)
+		expect(dot).toContain('"T-1" -> "T-2" [color=red, penwidth=2]')
+		expect(dot).toMatch(/"T-2" \[.*fillcolor=mistyrose/)
+	})
+})
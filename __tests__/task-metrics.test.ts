@@ -0,0 +1,118 @@
+// Society Agent - Task Metrics Tests
+import { describe, it, expect } from "vitest"
+import { createTask, type ManagedTask, type TaskStatus } from "../src/task-manager"
+import {
+	buildTaskMetrics,
+	buildBurndown,
+	buildVelocity,
+	timeInState,
+	defaultSizeUnit,
+	MAX_BURNDOWN_DAYS,
+	MAX_VELOCITY_PERIODS,
+} from "../src/task-metrics"
+import type { UsageEntry } from "../src/usage-store"
+
+/** Local-time timestamp on a March 2026 day */
+function at(day: number, hour: number): string {
+	return new Date(2026, 2, day, hour).toISOString()
+}
+
+/** A task created at `created` that went through `steps` ([status, timestamp]) */
+function task(taskId: string, created: string, steps: Array<[TaskStatus, string]>, fields: Partial<ManagedTask> = {}): ManagedTask {
+	const base = createTask("T", 1, { title: taskId, description: "", createdBy: "architect" })
+	const history = [{ ...base.statusHistory[0], timestamp: created }]
+	let status: TaskStatus = "planned"
+	for (const [to, timestamp] of steps) {
+		history.push({ from: status, to, triggeredBy: "agent", timestamp })
+		status = to
+	}
+	const startedAt = steps.find(([s]) => s === "in_progress")?.[1]
+	return { ...base, taskId, createdAt: created, status, statusHistory: history, startedAt, ...fields }
+}
+
+function usage(taskId: string, costUsd: number): UsageEntry {
+	return { id: `u-${taskId}-${costUsd}`, timestamp: Date.now(), projectId: "shop", agentId: "backend", agentName: "Backend", model: "m", inputTokens: 100, outputTokens: 50, totalTokens: 150, costUsd, taskId }
+}
+
+describe("task metrics", () => {
+	it("should derive time in state, cycle time and usage", () => {
+		const t = task(
+			"T-1",
+			at(2, 9),
+			[
+				["delegated", at(2, 10)],
+				["in_progress", at(2, 11)],
+				["blocked", at(2, 13)],
+				["in_progress", at(2, 15)],
+				["review", at(2, 16)],
+				["done", at(2, 17)],
+			],
+			{ estimatedHours: 2, assignedTo: "backend" },
+		)
+
+		expect(timeInState(t, new Date(at(2, 17)))).toEqual({ planned: 1, delegated: 1, in_progress: 3, blocked: 2, review: 1, done: 0 })
+
+		const metrics = buildTaskMetrics(t, [usage("T-1", 0.25), usage("T-1", 0.5), usage("T-2", 1)], new Date(at(5, 9)))
+		expect(metrics).toMatchObject({ cycleHours: 6, leadHours: 8, estimateAccuracy: 1.5, completedAt: at(2, 17) })
+		// Time after completion is not counted
+		expect(metrics.timeInState.done).toBe(0)
+		expect(metrics.usage).toEqual({ inputTokens: 200, outputTokens: 100, totalTokens: 300, costUsd: 0.75, callCount: 2 })
+	})
+
+	it("should burn down remaining scope per day", () => {
+		const tasks = [
+			task("T-1", at(2, 9), [["done", at(3, 12)]], { storyPoints: 3 }),
+			task("T-2", at(2, 9), [["in_progress", at(3, 9)]], { storyPoints: 5 }),
+			// Added mid-way, then dropped
+			task("T-3", at(3, 9), [["cancelled", at(4, 9)]], { storyPoints: 2 }),
+		]
+		expect(defaultSizeUnit(tasks)).toBe("points")
+
+		const burndown = buildBurndown(tasks, { now: new Date(at(4, 18)) })
+
+		expect(burndown.unit).toBe("points")
+		expect(burndown.points.map((p) => [p.remaining, p.scope, p.completed])).toEqual([
+			[8, 8, 0],
+			[7, 10, 3],
+			[5, 8, 3],
+		])
+		expect(burndown.points.map((p) => p.ideal)).toEqual([8, 4, 0])
+		expect(buildBurndown(tasks, { unit: "tasks", now: new Date(at(4, 18)) }).points.at(-1)!.remaining).toBe(1)
+	})
+
+	it("should report velocity per period and compare agents", () => {
+		const tasks = [
+			task("T-1", at(2, 9), [["in_progress", at(2, 9)], ["done", at(2, 13)]], { storyPoints: 2, assignedTo: "backend" }),
+			task("T-2", at(2, 9), [["in_progress", at(9, 9)], ["done", at(9, 11)]], { storyPoints: 1, assignedTo: "backend" }),
+			task("T-3", at(2, 9), [["in_progress", at(10, 9)], ["verified", at(10, 19)]], { storyPoints: 2, assignedTo: "frontend" }),
+			task("T-4", at(2, 9), [["in_progress", at(10, 9)]], { storyPoints: 8, assignedTo: "frontend" }),
+		]
+
+		const velocity = buildVelocity(tasks, [usage("T-1", 0.3), usage("T-2", 0.1)], { period: "week", count: 2, now: new Date(at(11, 12)) })
+
+		// Weeks start on Monday (2 and 9 March 2026)
+		expect(velocity.periods).toEqual([
+			{ period: "2026-03-02", completed: 2, tasks: 1 },
+			{ period: "2026-03-09", completed: 3, tasks: 2 },
+		])
+		expect(velocity.average).toBe(2.5)
+		expect(velocity.byAgent).toEqual([
+			{ agentId: "backend", tasks: 2, completed: 3, avgCycleHours: 3, hoursPerPoint: 2, costUsd: 0.4, costPerTask: 0.2 },
+			{ agentId: "frontend", tasks: 1, completed: 2, avgCycleHours: 10, hoursPerPoint: 5, costUsd: 0, costPerTask: 0 },
+		])
+	})
+
+	it("should cap how many periods and days are built", () => {
+		const tasks = [task("T-1", at(2, 9), [["in_progress", at(2, 9)], ["done", at(2, 13)]], { storyPoints: 2 })]
+		const now = new Date(at(11, 12))
+
+		const velocity = buildVelocity(tasks, [], { period: "day", count: 1_000_000_000, now })
+		expect(velocity.periods).toHaveLength(MAX_VELOCITY_PERIODS.day)
+		expect(velocity.periods.at(-1)).toEqual({ period: "2026-03-11", completed: 0, tasks: 0 })
+		expect(velocity.periods.find((p) => p.period === "2026-03-02")).toEqual({ period: "2026-03-02", completed: 2, tasks: 1 })
+
+		const burndown = buildBurndown(tasks, { from: 0, now })
+		expect(burndown.points).toHaveLength(MAX_BURNDOWN_DAYS)
+		expect(burndown.to).toBe("2026-03-11")
+	})
+})
@@ -0,0 +1,247 @@
+// Society Agent - Task Scheduler Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+	parseCronExpression,
+	isValidCronExpression,
+	getNextRunTime,
+	computeNextRunAt,
+	TaskScheduler,
+	type ScheduledTaskRunner,
+} from "../src/task-scheduler"
+import { ProjectStore } from "../src/project-store"
+
+// Mock the logger
+vi.mock("../src/logger", () => ({
+	getLog: () => ({
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	}),
+}))
+
+/** Local-time date helper (cron is evaluated in local time) */
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+	return new Date(year, month - 1, day, hour, minute, 0, 0)
+}
+
+describe("parseCronExpression", () => {
+	it("should parse wildcards, lists, ranges and steps", () => {
+		const schedule = parseCronExpression("0,30 9-17/4 * * 1-5")
+		expect([...schedule.minutes]).toEqual([0, 30])
+		expect([...schedule.hours]).toEqual([9, 13, 17])
+		expect(schedule.daysOfMonth.size).toBe(31)
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+	})
+
+	it("should accept month and day names", () => {
+		const schedule = parseCronExpression("0 9 * jan,jul mon-fri")
+		expect([...schedule.months]).toEqual([1, 7])
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+	})
+
+	it("should fold Sunday 7 into 0", () => {
+		expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0])
+	})
+
+	it("should expand macros", () => {
+		const schedule = parseCronExpression("@daily")
+		expect([...schedule.minutes]).toEqual([0])
+		expect([...schedule.hours]).toEqual([0])
+	})
+
+	it("should reject invalid expressions", () => {
+		expect(() => parseCronExpression("* * * *")).toThrow(/5 fields/)
+		expect(() => parseCronExpression("60 * * * *")).toThrow(/out of range/)
+		expect(() => parseCronExpression("*/0 * * * *")).toThrow(/step/)
+		expect(() => parseCronExpression("5-1 * * * *")).toThrow(/range/)
+		expect(isValidCronExpression("banana")).toBe(false)
+		expect(isValidCronExpression("*/15 * * * *")).toBe(true)
+	})
+})
+
+describe("getNextRunTime", () => {
+	it("should find the next matching minute", () => {
+		expect(getNextRunTime("*/15 * * * *", at(2026, 3, 10, 9, 7))).toEqual(at(2026, 3, 10, 9, 15))
+	})
+
+	it("should be strictly after the reference time", () => {
+		expect(getNextRunTime("0 9 * * *", at(2026, 3, 10, 9, 0))).toEqual(at(2026, 3, 11, 9, 0))
+	})
+
+	it("should roll over days, months and years", () => {
+		expect(getNextRunTime("0 9 1 * *", at(2026, 12, 15))).toEqual(at(2027, 1, 1, 9, 0))
+	})
+
+	it("should honour weekdays", () => {
+		// 2026-03-14 is a Saturday
+		expect(getNextRunTime("0 9 * * 1-5", at(2026, 3, 14, 10))).toEqual(at(2026, 3, 16, 9, 0))
+	})
+
+	it("should match either day field when both are restricted", () => {
+		// 15th of the month OR a Monday - 2026-03-10 is a Tuesday, next Monday is the 16th
+		expect(getNextRunTime("0 0 15 * 1", at(2026, 3, 10, 12))).toEqual(at(2026, 3, 15, 0, 0))
+	})
+
+	it("should return null for schedules that never fire", () => {
+		expect(getNextRunTime("0 0 30 2 *", at(2026, 1, 1))).toBeNull()
+	})
+})
+
+describe("computeNextRunAt", () => {
+	it("should return undefined for disabled tasks", () => {
+		expect(computeNextRunAt({ cron: "* * * * *", enabled: false })).toBeUndefined()
+	})
+
+	it("should return an ISO timestamp for enabled tasks", () => {
+		expect(computeNextRunAt({ cron: "0 9 * * *", enabled: true }, at(2026, 3, 10, 8))).toBe(at(2026, 3, 10, 9).toISOString())
+	})
+})
+
+describe("TaskScheduler", () => {
+	let tmpDir: string
+	let store: ProjectStore
+	let now: Date
+	let runner: ScheduledTaskRunner
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "task-scheduler-test-"))
+		store = new ProjectStore(tmpDir)
+		now = at(2026, 3, 10, 8, 0)
+		runner = {
+			runAiTask: vi.fn(async () => ({ status: "success" as const, output: "All dependencies up to date" })),
+			runCommandTask: vi.fn(async () => ({ status: "failed" as const, output: "npm ERR!", error: "exit code 1" })),
+		}
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	function createScheduler(options: { catchUpMissedRuns?: boolean } = {}): TaskScheduler {
+		return new TaskScheduler(store, runner, { now: () => now, ...options })
+	}
+
+	it("should compute nextRunAt when a task is added", () => {
+		vi.useFakeTimers({ now })
+		try {
+			const task = store.addScheduledTask("default", "architect", { name: "Morning report", type: "ai", prompt: "Report status", cron: "0 9 * * *" })
+			expect(task?.nextRunAt).toBe(at(2026, 3, 10, 9).toISOString())
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+
+	it("should reject invalid cron expressions", () => {
+		expect(() => store.addScheduledTask("default", "architect", { name: "Bad", type: "ai", prompt: "x", cron: "nope" })).toThrow()
+	})
+
+	it("should not run tasks that are not yet due", async () => {
+		store.addScheduledTask("default", "architect", { name: "Later", type: "ai", prompt: "x", cron: "0 9 * * *" })
+		store.updateScheduledTask("default", "architect", store.getScheduledTasks("default", "architect")[0].id, { nextRunAt: at(2026, 3, 10, 9).toISOString() })
+		await createScheduler().tick()
+		expect(runner.runAiTask).not.toHaveBeenCalled()
+	})
+
+	it("should run due AI tasks and persist the outcome", async () => {
+		const task = store.addScheduledTask("default", "architect", { name: "Audit", type: "ai", prompt: "Audit deps", cron: "0 9 * * *" })!
+		store.updateScheduledTask("default", "architect", task.id, { nextRunAt: at(2026, 3, 10, 7, 59).toISOString() })
+
+		await createScheduler().tick()
+
+		expect(runner.runAiTask).toHaveBeenCalledTimes(1)
+		const updated = store.getScheduledTask("default", "architect", task.id)!
+		expect(updated.lastRunStatus).toBe("success")
+		expect(updated.lastOutput).toBe("All dependencies up to date")
+		expect(updated.runCount).toBe(1)
+		expect(updated.lastRunAt).toBe(now.toISOString())
+		expect(updated.nextRunAt).toBe(at(2026, 3, 10, 9).toISOString())
+	})
+
+	it("should record failures from command tasks", async () => {
+		const task = store.addScheduledTask("default", "coder", { name: "npm audit", type: "command", command: "npm audit", cron: "0 2 * * *" })!
+		store.updateScheduledTask("default", "coder", task.id, { nextRunAt: at(2026, 3, 10, 2).toISOString() })
+
+		await createScheduler().tick()
+
+		expect(runner.runCommandTask).toHaveBeenCalledTimes(1)
+		const updated = store.getScheduledTask("default", "coder", task.id)!
+		expect(updated.lastRunStatus).toBe("failed")
+		expect(updated.lastError).toBe("exit code 1")
+		expect(updated.lastOutput).toBe("npm ERR!")
+	})
+
+	it("should run template tasks through the runner when it supports them", async () => {
+		const task = store.addScheduledTask("default", "architect", {
+			name: "Weekly review",
+			type: "template",
+			templateId: "dependency-review",
+			templateParameters: { scope: "backend" },
+			cron: "0 9 * * 1",
+		})!
+		store.updateScheduledTask("default", "architect", task.id, { nextRunAt: at(2026, 3, 10, 7).toISOString() })
+
+		await createScheduler().tick()
+		expect(store.getScheduledTask("default", "architect", task.id)!.lastError).toBe("Template tasks are not supported")
+
+		runner.runTemplateTask = vi.fn(async () => ({ status: "success" as const, output: "Created T-DEF-001" }))
+		store.updateScheduledTask("default", "architect", task.id, { nextRunAt: at(2026, 3, 10, 7).toISOString() })
+		await createScheduler().tick()
+
+		expect(runner.runTemplateTask).toHaveBeenCalledWith(expect.anything(), expect.anything(), expect.objectContaining({ templateParameters: { scope: "backend" } }))
+		expect(store.getScheduledTask("default", "architect", task.id)!).toMatchObject({ lastRunStatus: "success", lastOutput: "Created T-DEF-001" })
+	})
+
+	it("should catch up a missed run once after a restart", async () => {
+		const task = store.addScheduledTask("default", "architect", { name: "Nightly", type: "ai", prompt: "x", cron: "0 2 * * *" })!
+		// Server was down for several days
+		store.updateScheduledTask("default", "architect", task.id, { nextRunAt: at(2026, 3, 6, 2).toISOString() })
+
+		const scheduler = createScheduler()
+		expect(scheduler.recoverAfterRestart().missed).toBe(1)
+		await scheduler.tick()
+		await scheduler.tick()
+
+		expect(runner.runAiTask).toHaveBeenCalledTimes(1)
+		expect(store.getScheduledTask("default", "architect", task.id)!.nextRunAt).toBe(at(2026, 3, 11, 2).toISOString())
+	})
+
+	it("should skip missed runs when catch-up is disabled", async () => {
+		const task = store.addScheduledTask("default", "architect", { name: "Nightly", type: "ai", prompt: "x", cron: "0 2 * * *" })!
+		store.updateScheduledTask("default", "architect", task.id, { nextRunAt: at(2026, 3, 6, 2).toISOString() })
+
+		const scheduler = createScheduler({ catchUpMissedRuns: false })
+		scheduler.recoverAfterRestart()
+		await scheduler.tick()
+
+		expect(runner.runAiTask).not.toHaveBeenCalled()
+		expect(store.getScheduledTask("default", "architect", task.id)!.nextRunAt).toBe(at(2026, 3, 11, 2).toISOString())
+	})
+
+	it("should mark runs interrupted by a restart as failed", () => {
+		const task = store.addScheduledTask("default", "architect", { name: "Nightly", type: "ai", prompt: "x", cron: "0 2 * * *" })!
+		store.updateScheduledTask("default", "architect", task.id, { lastRunStatus: "running" })
+
+		expect(createScheduler().recoverAfterRestart().interrupted).toBe(1)
+		const updated = store.getScheduledTask("default", "architect", task.id)!
+		expect(updated.lastRunStatus).toBe("failed")
+		expect(updated.lastError).toMatch(/restart/)
+	})
+
+	it("should not run disabled tasks", async () => {
+		const task = store.addScheduledTask("default", "architect", { name: "Off", type: "ai", prompt: "x", cron: "* * * * *", enabled: false })!
+		expect(task.nextRunAt).toBeUndefined()
+		await createScheduler().tick()
+		expect(runner.runAiTask).not.toHaveBeenCalled()
+	})
+
+	it("should run a task on demand", async () => {
+		const task = store.addScheduledTask("default", "architect", { name: "Manual", type: "ai", prompt: "x", cron: "0 9 * * *" })!
+		const result = await createScheduler().runNow("default", "architect", task.id)
+		expect(runner.runAiTask).toHaveBeenCalledTimes(1)
+		expect(result?.runCount).toBe(1)
+	})
+})
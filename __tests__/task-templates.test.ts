@@ -0,0 +1,100 @@
+// Society Agent - Task Template Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { TaskTemplateStore, expandTaskTemplate, validateTaskTemplate, type TaskTemplate } from "../src/task-templates"
+import { ProjectStore } from "../src/project-store"
+
+const ENDPOINT: TaskTemplate = {
+	id: "add-endpoint",
+	name: "Add REST endpoint",
+	parameters: [{ name: "resource" }, { name: "owner", default: "backend" }],
+	delegateTo: "{{owner}}",
+	steps: [
+		// Listed before the step it depends on: expansion reorders it
+		{ key: "docs", title: "Document /api/{{resource}}", dependsOn: ["impl"], parent: "impl" },
+		{ key: "impl", title: "Implement /api/{{resource}}", priority: 2, estimatedHours: 3, acceptanceCriteria: ["GET /api/{{resource}} lists {{resource}}"] },
+		{ key: "tests", title: "Test /api/{{resource}}", dependsOn: ["impl"], delegateTo: "qa", relevantFiles: ["src/{{resource}}.test.ts"] },
+	],
+	createdAt: "",
+	updatedAt: "",
+}
+
+describe("validateTaskTemplate", () => {
+	it("should reject unknown steps, cycles and undeclared parameters", () => {
+		expect(validateTaskTemplate(ENDPOINT)).toBeNull()
+		const steps = ENDPOINT.steps
+		expect(validateTaskTemplate({ ...ENDPOINT, id: "Add Endpoint" })).toMatch(/slug/)
+		expect(validateTaskTemplate({ ...ENDPOINT, steps: [...steps, { key: "x", title: "X", dependsOn: ["nope"] }] })).toBe('Step "x" refers to unknown step "nope"')
+		expect(
+			validateTaskTemplate({ ...ENDPOINT, steps: [{ key: "a", title: "A", dependsOn: ["b"] }, { key: "b", title: "B", dependsOn: ["a"] }] }),
+		).toBe("Step dependencies form a cycle")
+		expect(validateTaskTemplate({ ...ENDPOINT, parameters: [{ name: "resource" }] })).toBe("Undeclared parameters: owner")
+	})
+})
+
+describe("expandTaskTemplate", () => {
+	it("should fill in parameters and put dependencies first", () => {
+		const steps = expandTaskTemplate(ENDPOINT, { resource: "orders" })
+
+		expect(steps.map((s) => [s.key, s.title, s.delegateTo])).toEqual([
+			["impl", "Implement /api/orders", "backend"],
+			["docs", "Document /api/orders", "backend"],
+			["tests", "Test /api/orders", "qa"],
+		])
+		expect(steps[0].description).toBe("Implement /api/orders\n\n**Acceptance Criteria:**\n1. GET /api/orders lists orders")
+		expect(steps[2].relevantFiles).toEqual(["src/orders.test.ts"])
+		expect(() => expandTaskTemplate(ENDPOINT, {})).toThrow("Missing parameters: resource")
+		expect(() => expandTaskTemplate(ENDPOINT, { resource: "orders", colour: "red" })).toThrow("Unknown parameters: colour")
+	})
+})
+
+describe("ProjectStore.instantiateTaskTemplate", () => {
+	let tmpDir: string
+	let store: ProjectStore
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "task-templates-test-"))
+		store = new ProjectStore(tmpDir)
+		store.create({
+			id: "shop",
+			name: "Shop",
+			description: "",
+			agents: [
+				{ id: "backend", name: "Backend", role: "dev", homeFolder: "backend" },
+				{ id: "qa", name: "QA", role: "tester", homeFolder: "qa" },
+			],
+		})
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should create sequenced, linked and delegated tasks", () => {
+		store.createManagedTask("shop", { title: "Existing", description: "", createdBy: "architect" })
+		const templates = new TaskTemplateStore(path.join(tmpDir, "templates"))
+		const template = templates.save("shop", ENDPOINT)
+
+		const tasks = store.instantiateTaskTemplate("shop", template, { resource: "orders" }, { createdBy: "architect" })!
+
+		expect(tasks.map((t) => t.taskId)).toEqual(["T-SHOP-002", "T-SHOP-003", "T-SHOP-004"])
+		const [impl, docs, tests] = tasks
+		expect(impl).toMatchObject({ status: "delegated", assignedTo: "backend", priority: 2, estimatedHours: 3, template: { templateId: "add-endpoint", stepKey: "impl" } })
+		expect(docs).toMatchObject({ parentTaskId: impl.taskId, dependsOn: [impl.taskId] })
+		expect(tests).toMatchObject({ assignedTo: "qa", dependsOn: [impl.taskId], context: { relevantFiles: ["src/orders.test.ts"] } })
+		expect(store.getManagedTasks("shop")).toHaveLength(4)
+
+		// Unknown delegation targets create nothing
+		expect(() => store.instantiateTaskTemplate("shop", template, { resource: "carts", owner: "nobody" }, { createdBy: "architect" })).toThrow(
+			'Step "impl" delegates to unknown agent "nobody"',
+		)
+		expect(store.getManagedTasks("shop")).toHaveLength(4)
+	})
+})
@@ -0,0 +1,163 @@
+// Society Agent - Usage Store Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+	UsageStore,
+	aggregateUsage,
+	parseUsageDate,
+	usageEntriesToCsv,
+	usageReportToCsv,
+	type UsageEntry,
+} from "../src/usage-store"
+
+// Mock the logger
+vi.mock("../src/logger", () => ({
+	getLog: () => ({
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	}),
+}))
+
+/** Local-time timestamp helper (days and months are grouped in local time) */
+function at(year: number, month: number, day: number, hour = 12): number {
+	return new Date(year, month - 1, day, hour, 0, 0, 0).getTime()
+}
+
+let counter = 0
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+	counter++
+	return {
+		id: `usage_${counter}`,
+		timestamp: at(2026, 3, 10),
+		projectId: "p1",
+		agentId: "coder",
+		agentName: "Coder",
+		model: "claude-sonnet-4-20250514",
+		inputTokens: 1000,
+		outputTokens: 100,
+		totalTokens: 1100,
+		costUsd: 0.0045,
+		...overrides,
+	}
+}
+
+describe("parseUsageDate", () => {
+	it("should parse days and months as local midnight", () => {
+		expect(parseUsageDate("2026-03-10")).toBe(at(2026, 3, 10, 0))
+		expect(parseUsageDate("2026-03")).toBe(at(2026, 3, 1, 0))
+	})
+
+	it("should accept epoch ms and ISO timestamps", () => {
+		expect(parseUsageDate("1773100800000")).toBe(1773100800000)
+		expect(parseUsageDate("2026-03-10T08:00:00Z")).toBe(Date.parse("2026-03-10T08:00:00Z"))
+	})
+
+	it("should ignore empty values and reject garbage", () => {
+		expect(parseUsageDate(undefined)).toBeUndefined()
+		expect(parseUsageDate("")).toBeUndefined()
+		expect(() => parseUsageDate("last tuesday")).toThrow(/Invalid date/)
+	})
+})
+
+describe("aggregateUsage", () => {
+	const entries = [
+		entry({ timestamp: at(2026, 3, 10), costUsd: 1, taskId: "T-API-001" }),
+		entry({ timestamp: at(2026, 3, 10), costUsd: 2, agentId: "tester", model: "openai/gpt-4o" }),
+		entry({ timestamp: at(2026, 3, 11), costUsd: 4, projectId: "p2", taskId: "T-API-001" }),
+	]
+
+	it("should group by day", () => {
+		const report = aggregateUsage(entries, "day")
+		expect(report.rows.map((r) => [r.key, r.costUsd, r.callCount])).toEqual([
+			["2026-03-10", 3, 2],
+			["2026-03-11", 4, 1],
+		])
+		expect(report.totals).toMatchObject({ costUsd: 7, callCount: 3, totalTokens: 3300 })
+	})
+
+	it("should key agents by project", () => {
+		expect(aggregateUsage(entries, "agent").rows.map((r) => r.key)).toEqual(["p1/coder", "p1/tester", "p2/coder"])
+	})
+
+	it("should group calls without a task together", () => {
+		const rows = aggregateUsage(entries, "task").rows
+		expect(rows.map((r) => [r.key, r.costUsd])).toEqual([
+			["(none)", 2],
+			["T-API-001", 5],
+		])
+	})
+})
+
+describe("CSV export", () => {
+	it("should write one row per call with ISO timestamps", () => {
+		const csv = usageEntriesToCsv([entry({ timestamp: Date.parse("2026-03-10T08:00:00Z"), agentName: 'Coder, "senior"', taskId: "T-1" })])
+		const lines = csv.trim().split("\n")
+		expect(lines[0]).toBe("timestamp,projectId,agentId,agentName,taskId,model,inputTokens,outputTokens,totalTokens,costUsd")
+		expect(lines[1]).toBe('2026-03-10T08:00:00.000Z,p1,coder,"Coder, ""senior""",T-1,claude-sonnet-4-20250514,1000,100,1100,0.0045')
+	})
+
+	it("should write aggregated reports", () => {
+		const csv = usageReportToCsv(aggregateUsage([entry({ costUsd: 1.5 })], "project"))
+		expect(csv).toBe("project,inputTokens,outputTokens,totalTokens,costUsd,callCount\np1,1000,100,1100,1.500000,1\n")
+	})
+})
+
+describe("UsageStore", () => {
+	let tmpDir: string
+	let store: UsageStore
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-store-test-"))
+		store = new UsageStore(tmpDir)
+	})
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should append entries to one JSONL file per project and month", () => {
+		store.append(entry({ timestamp: at(2026, 2, 28) }))
+		store.append(entry({ timestamp: at(2026, 3, 1) }))
+		store.append(entry({ projectId: "p2" }))
+		expect(fs.readdirSync(path.join(tmpDir, "p1")).sort()).toEqual(["2026-02.jsonl", "2026-03.jsonl"])
+		expect(fs.readFileSync(path.join(tmpDir, "p2", "2026-03.jsonl"), "utf-8").trim().split("\n")).toHaveLength(1)
+		expect(store.listProjects().sort()).toEqual(["p1", "p2"])
+	})
+
+	it("should survive a new instance (restart)", () => {
+		store.append(entry({ costUsd: 3 }))
+		expect(new UsageStore(tmpDir).report("project").totals.costUsd).toBe(3)
+	})
+
+	it("should filter by project, agent, model, task and date range", () => {
+		store.append(entry({ timestamp: at(2026, 2, 20), costUsd: 1 }))
+		store.append(entry({ timestamp: at(2026, 3, 5), costUsd: 2, taskId: "T-1" }))
+		store.append(entry({ timestamp: at(2026, 3, 5), costUsd: 4, agentId: "tester" }))
+		store.append(entry({ timestamp: at(2026, 3, 6), costUsd: 8, projectId: "p2", model: "openai/gpt-4o" }))
+
+		const march = { from: at(2026, 3, 1, 0), to: at(2026, 4, 1, 0) }
+		expect(store.report("project", march).totals.costUsd).toBe(14)
+		expect(store.report("project", { ...march, projectId: "p1" }).totals.costUsd).toBe(6)
+		expect(store.query({ agentId: "tester" })).toHaveLength(1)
+		expect(store.query({ model: "openai/gpt-4o" })[0].projectId).toBe("p2")
+		expect(store.query({ taskId: "T-1" })[0].costUsd).toBe(2)
+		expect(store.query({ projectIds: ["p2"] })).toHaveLength(1)
+	})
+
+	it("should return recent entries newest first", () => {
+		store.append(entry({ id: "old", timestamp: at(2026, 3, 1) }))
+		store.append(entry({ id: "new", timestamp: at(2026, 3, 2) }))
+		store.append(entry({ id: "newest", timestamp: at(2026, 3, 3) }))
+		expect(store.recent(2).map((e) => e.id)).toEqual(["newest", "new"])
+	})
+
+	it("should skip a partially written line", () => {
+		store.append(entry({ costUsd: 1 }))
+		fs.appendFileSync(path.join(tmpDir, "p1", "2026-03.jsonl"), '{"id":"trunc')
+		expect(store.query()).toHaveLength(1)
+	})
+})
@@ -0,0 +1,171 @@
+// Society Agent - Workspace Checkpoint Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+vi.mock("../src/logger", () => ({
+	getLog: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}))
+
+import { CheckpointManager, type CheckpointTarget } from "../src/workspace-checkpoints"
+
+describe("CheckpointManager", () => {
+	let root: string
+	let manager: CheckpointManager
+	let target: CheckpointTarget
+
+	const write = (file: string, content: string) => {
+		fs.mkdirSync(path.dirname(path.join(target.dir, file)), { recursive: true })
+		fs.writeFileSync(path.join(target.dir, file), content)
+	}
+	const read = (file: string) => fs.readFileSync(path.join(target.dir, file), "utf-8")
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-test-"))
+		manager = new CheckpointManager(path.join(root, "checkpoints"))
+		target = { projectId: "shop", agentId: "backend", dir: path.join(root, "shop", "backend") }
+		fs.mkdirSync(target.dir, { recursive: true })
+	})
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true })
+	})
+
+	it("should snapshot the folder and list checkpoints newest first", async () => {
+		write("src/app.js", "v1")
+		const first = await manager.create(target, { trigger: "task-start", label: "Start of task T-1", taskId: "T-1" })
+		write("src/app.js", "v2")
+		const second = await manager.create(target, { trigger: "manual", label: "Later" })
+
+		expect(first).toMatchObject({ trigger: "task-start", taskId: "T-1", fileCount: 1 })
+		expect(manager.list("shop", "backend").map((c) => c.id)).toEqual([second!.id, first!.id])
+		expect(manager.list("shop", "backend", { taskId: "T-1" })).toHaveLength(1)
+		expect(manager.get("shop", "backend", first!.id)?.label).toBe("Start of task T-1")
+		// The shadow repository lives outside the folder
+		expect(fs.existsSync(path.join(target.dir, ".git"))).toBe(false)
+	})
+
+	it("should skip tool checkpoints when nothing changed", async () => {
+		write("a.txt", "a")
+		await manager.create(target, { trigger: "manual", label: "one" })
+		expect(await manager.create(target, { trigger: "tool", label: "Before run_command", skipIfUnchanged: true })).toBeNull()
+		write("a.txt", "b")
+		expect(await manager.create(target, { trigger: "tool", label: "Before run_command", skipIfUnchanged: true })).not.toBeNull()
+	})
+
+	it("should diff a checkpoint against the folder or another checkpoint", async () => {
+		write("keep.txt", "same")
+		write("edit.txt", "old\n")
+		write("gone.txt", "bye")
+		const before = await manager.create(target, { trigger: "manual", label: "before" })
+		write("edit.txt", "new\n")
+		fs.unlinkSync(path.join(target.dir, "gone.txt"))
+		write("added.txt", "hi")
+
+		const diff = await manager.diff(target, before!.id)
+		expect(diff.to).toBe("working")
+		expect(diff.files).toEqual([
+			{ status: "A", path: "added.txt" },
+			{ status: "M", path: "edit.txt" },
+			{ status: "D", path: "gone.txt" },
+		])
+		expect(diff.patch).toContain("-old\n+new")
+
+		const after = await manager.create(target, { trigger: "manual", label: "after" })
+		expect((await manager.diff(target, before!.id, after!.id)).files).toEqual(diff.files)
+	})
+
+	it("should restore files, delete files added since, and back up the state it replaced", async () => {
+		write("src/app.js", "good")
+		const start = await manager.create(target, { trigger: "task-start", label: "start", taskId: "T-1" })
+		write("src/app.js", "broken")
+		write("src/extra.js", "new file")
+		fs.rmSync(path.join(target.dir, "src", "app.js"))
+
+		const result = await manager.restore(target, start!.id)
+		expect(read("src/app.js")).toBe("good")
+		expect(fs.existsSync(path.join(target.dir, "src", "extra.js"))).toBe(false)
+		expect(result.checkpoint).toMatchObject({ trigger: "restore", restoredFrom: start!.id, taskId: "T-1" })
+
+		// The restore can be undone from the backup
+		await manager.restore(target, result.backup!.id)
+		expect(read("src/extra.js")).toBe("new file")
+		expect(fs.existsSync(path.join(target.dir, "src", "app.js"))).toBe(false)
+	})
+
+	it("should leave ignored and dependency folders alone", async () => {
+		write(".gitignore", "secrets.env\n")
+		write("node_modules/lib/index.js", "dep")
+		write("secrets.env", "KEY=1")
+		write("index.js", "v1")
+		const start = await manager.create(target, { trigger: "manual", label: "start" })
+		expect(start!.fileCount).toBe(2)
+		write("index.js", "v2")
+		write("node_modules/lib/index.js", "dep v2")
+
+		await manager.restore(target, start!.id)
+		expect(read("index.js")).toBe("v1")
+		expect(read("node_modules/lib/index.js")).toBe("dep v2")
+		expect(read("secrets.env")).toBe("KEY=1")
+	})
+
+	it("should find task-start checkpoints across folders", async () => {
+		const other: CheckpointTarget = { projectId: "shop", agentId: "frontend", dir: path.join(root, "shop", "frontend") }
+		fs.mkdirSync(other.dir)
+		write("a.txt", "a")
+		await manager.create(target, { trigger: "task-start", label: "start", taskId: "T-1" })
+		const start = await manager.create(other, { trigger: "task-start", label: "start", taskId: "T-2" })
+
+		expect(manager.findTaskStart("shop", "T-2")?.id).toBe(start!.id)
+		expect(manager.findTaskStart("shop", "T-2", "backend")).toBeUndefined()
+		expect(manager.findTaskStart("shop", "T-3")).toBeUndefined()
+	})
+
+	it("should keep an agent's home folder and worktree checkpoints apart", async () => {
+		const worktree: CheckpointTarget = { ...target, dir: path.join(root, ".worktrees", "shop", "backend") }
+		fs.mkdirSync(worktree.dir, { recursive: true })
+		write("shared.txt", "home")
+		fs.writeFileSync(path.join(worktree.dir, "shared.txt"), "worktree")
+		const homeStart = await manager.create(target, { trigger: "task-start", label: "start", taskId: "T-1" })
+		const worktreeStart = await manager.create(worktree, { trigger: "task-start", label: "start", taskId: "T-1" })
+		fs.writeFileSync(path.join(worktree.dir, "shared.txt"), "edited")
+
+		expect(manager.findTaskStart("shop", "T-1", "backend", worktree.dir)?.id).toBe(worktreeStart!.id)
+		expect(manager.findTaskStart("shop", "T-1", "backend", target.dir)?.id).toBe(homeStart!.id)
+		expect(manager.list("shop", "backend", { dir: worktree.dir }).map((c) => c.dir)).toEqual([worktree.dir])
+		await expect(manager.restore(worktree, homeStart!.id)).rejects.toThrow(/is of/)
+
+		await manager.restore(worktree, worktreeStart!.id)
+		expect(fs.readFileSync(path.join(worktree.dir, "shared.txt"), "utf-8")).toBe("worktree")
+		expect(read("shared.txt")).toBe("home")
+	})
+
+	it("should prune old checkpoints but keep task-start ones", async () => {
+		manager = new CheckpointManager(path.join(root, "checkpoints"), 3)
+		write("f.txt", "0")
+		const start = await manager.create(target, { trigger: "task-start", label: "start", taskId: "T-1" })
+		for (let i = 1; i <= 4; i++) {
+			write("f.txt", String(i))
+			await manager.create(target, { trigger: "tool", label: `edit ${i}` })
+		}
+		const labels = manager.list("shop", "backend").map((c) => c.label)
+		expect(labels).toEqual(["edit 4", "edit 3", "start"])
+		await manager.restore(target, start!.id)
+		expect(read("f.txt")).toBe("0")
+	})
+
+	it("should serialize concurrent checkpoints of the same folder", async () => {
+		write("a.txt", "a")
+		const results = await Promise.all([1, 2, 3].map((i) => manager.create(target, { trigger: "manual", label: `c${i}` })))
+		expect(results.every(Boolean)).toBe(true)
+		expect(manager.list("shop", "backend")).toHaveLength(3)
+	})
+
+	it("should remove all checkpoints of a project", async () => {
+		write("a.txt", "a")
+		await manager.create(target, { trigger: "manual", label: "one" })
+		manager.removeProject("shop")
+		expect(manager.list("shop", "backend")).toEqual([])
+	})
+})
@@ -0,0 +1,508 @@
+// Society Agent - new file
+/**
+ * Architecture Decision Records - PLANNING.md decisions as MADR files
+ *
+ * Exports planning-log Decisions to `docs/adr/NNNN-title.md` in MADR format and
+ * imports them back, so agents and human architects share one set of records.
+ * Besides MADR files written here, imports understand the common hand-written
+ * layouts (MADR with or without front matter, Nygard's Status/Context/Decision/
+ * Consequences).
+ *
+ * Links between decisions are kept on both sides:
+ *   - `supersededBy` ⇄ "Superseded by [ADR-0005](...)" / "Supersedes [ADR-0002](...)"
+ *   - `relatedDecisions` ⇄ "Related: [ADR-0001](...)"
+ * The Society decision ID is kept in the front matter (`decision-id`) so a record
+ * keeps its identity (and its file number) across round trips.
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+import {
+	type Decision,
+	type DecisionCategory,
+	type DecisionOption,
+	type DecisionRevision,
+	type DecisionStatus,
+	type PlanningLog,
+	generateDecisionId,
+} from "./planning-log"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+/** ADR folder relative to the project root */
+export const ADR_DIR = path.join("docs", "adr")
+
+const ADR_FILE_PATTERN = /^(\d{4})-.+\.md$/
+
+const CATEGORIES: DecisionCategory[] = ["architecture", "technology", "api", "data", "workflow", "scope", "tradeoff", "risk", "other"]
+
+/**
+ * A decision read from an ADR file; links are ADR numbers until resolved
+ */
+export interface ParsedAdr {
+	file: string
+	number: number
+	decision: Decision
+	/** Set when the file carried a Society decision ID */
+	hasDecisionId: boolean
+	supersededBy?: number
+	supersedes: number[]
+	related: number[]
+}
+
+export interface AdrImportResult {
+	created: string[]
+	updated: string[]
+	unchanged: string[]
+}
+
+// ============================================================================
+// FILE NAMES
+// ============================================================================
+
+/** `0007-use-postgres-for-orders.md` */
+export function adrFileName(number: number, title: string): string {
+	const slug = title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 60)
+		.replace(/-+$/, "")
+	return `${String(number).padStart(4, "0")}-${slug || "decision"}.md`
+}
+
+function adrNumber(file: string): number {
+	return parseInt(file.slice(0, 4), 10)
+}
+
+function adrLink(file: string): string {
+	return `[ADR-${file.slice(0, 4)}](${file})`
+}
+
+/**
+ * Give every decision an ADR file, keeping the ones it already has. New records
+ * are numbered after the highest number in use.
+ */
+export function assignAdrFiles(planningLog: PlanningLog, existingFiles: string[] = []): void {
+	let next = Math.max(0, ...existingFiles.map(adrNumber), ...planningLog.decisions.filter((d) => d.adrFile).map((d) => adrNumber(d.adrFile!))) + 1
+	for (const decision of planningLog.decisions) {
+		if (!decision.adrFile) {
+			decision.adrFile = adrFileName(next++, decision.title)
+		}
+	}
+}
+
+// ============================================================================
+// RENDERING (MADR)
+// ============================================================================
+
+function madrStatus(decision: Decision, byId: Map<string, Decision>): string {
+	if (decision.status === "superseded") {
+		const successor = decision.supersededBy ? byId.get(decision.supersededBy) : undefined
+		return successor?.adrFile ? `superseded by ${adrLink(successor.adrFile)}` : "superseded"
+	}
+	return decision.status
+}
+
+function optionLabel(option: DecisionOption): string {
+	return `${option.id}: ${option.description}`
+}
+
+/**
+ * Render a decision as a MADR file. `decisions` is the whole log, used to turn
+ * decision IDs into links (decisions need `adrFile`, see assignAdrFiles).
+ */
+export function decisionToMadr(decision: Decision, decisions: Decision[]): string {
+	const byId = new Map(decisions.map((d) => [d.id, d]))
+	const link = (id: string) => {
+		const file = byId.get(id)?.adrFile
+		return file ? adrLink(file) : id
+	}
+	const supersedes = (decision.relatedDecisions ?? []).filter((id) => byId.get(id)?.supersededBy === decision.id)
+	const related = (decision.relatedDecisions ?? []).filter((id) => !supersedes.includes(id))
+	const chosen = decision.options.find((o) => o.chosen)
+
+	const lines: string[] = [
+		"---",
+		`status: ${madrStatus(decision, byId)}`,
+		`date: ${decision.decidedAt.split("T")[0]}`,
+		`deciders: ${decision.decidedBy}`,
+		`decision-id: ${decision.id}`,
+		`category: ${decision.category}`,
+	]
+	if (decision.relatedTasks?.length) {
+		lines.push(`related-tasks: [${decision.relatedTasks.join(", ")}]`)
+	}
+	lines.push("---", "", `# ${decision.title}`, "")
+
+	lines.push("## Context and Problem Statement", "", decision.context || "-", "")
+
+	if (decision.options.length > 0) {
+		lines.push("## Considered Options", "")
+		for (const option of decision.options) {
+			lines.push(`* ${optionLabel(option)}`)
+		}
+		lines.push("")
+	}
+
+	lines.push("## Decision Outcome", "")
+	if (chosen) {
+		lines.push(`Chosen option: "${optionLabel(chosen)}", because ${decision.rationale}`, "")
+	} else if (decision.rationale) {
+		lines.push(`Rationale: ${decision.rationale}`, "")
+	}
+	lines.push(decision.decision || "-", "")
+
+	if (decision.consequences?.length) {
+		lines.push("### Consequences", "")
+		for (const consequence of decision.consequences) {
+			lines.push(`* ${consequence}`)
+		}
+		lines.push("")
+	}
+
+	const withProsCons = decision.options.filter((o) => o.pros.length > 0 || o.cons.length > 0)
+	if (withProsCons.length > 0) {
+		lines.push("## Pros and Cons of the Options", "")
+		for (const option of withProsCons) {
+			lines.push(`### ${optionLabel(option)}`, "")
+			for (const pro of option.pros) lines.push(`* Good, because ${pro}`)
+			for (const con of option.cons) lines.push(`* Bad, because ${con}`)
+			lines.push("")
+		}
+	}
+
+	const links: string[] = []
+	if (supersedes.length > 0) links.push(`* Supersedes ${supersedes.map(link).join(", ")}`)
+	if (decision.supersededBy) links.push(`* Superseded by ${link(decision.supersededBy)}`)
+	if (related.length > 0) links.push(`* Related: ${related.map(link).join(", ")}`)
+	if (links.length > 0 || decision.revisions?.length) {
+		lines.push("## More Information", "")
+		lines.push(...links)
+		if (decision.revisions?.length) {
+			if (links.length > 0) lines.push("")
+			lines.push("### Revision History", "")
+			for (const revision of decision.revisions) {
+				const reason = revision.reason.replace(/\s*\n\s*/g, " ")
+				lines.push(`* ${revision.revisedAt} ${revision.revisedBy}: ${revision.changes} — ${reason}`)
+			}
+		}
+		lines.push("")
+	}
+
+	return lines.join("\n")
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Split Markdown into sections at one heading level, keyed by lower-cased heading */
+function sections(body: string, level: "##" | "###"): Map<string, string> {
+	const result = new Map<string, string>()
+	const pattern = new RegExp(`^${level} (.+)$`, "gm")
+	const headings = [...body.matchAll(pattern)]
+	headings.forEach((match, i) => {
+		const start = match.index! + match[0].length
+		const end = i + 1 < headings.length ? headings[i + 1].index! : body.length
+		result.set(match[1].trim().toLowerCase(), body.slice(start, end).trim())
+	})
+	return result
+}
+
+function section(all: Map<string, string>, ...names: string[]): string {
+	for (const name of names) {
+		const text = all.get(name)
+		if (text !== undefined) return text
+	}
+	return ""
+}
+
+function bullets(text: string): string[] {
+	return text
+		.split("\n")
+		.map((line) => line.match(/^\s*[*-]\s+(.+)$/)?.[1].trim())
+		.filter((item): item is string => Boolean(item))
+}
+
+/** ADR numbers linked in a piece of text ("ADR-0005", "0005-foo.md", "ADR 5") */
+function adrRefs(text: string): number[] {
+	const refs = new Set<number>()
+	for (const match of text.matchAll(/\bADR[- ]?0*(\d+)\b|\b(\d{4})-[\w.-]+\.md\b/gi)) {
+		refs.add(parseInt(match[1] ?? match[2], 10))
+	}
+	return [...refs]
+}
+
+function parseStatus(raw: string): DecisionStatus {
+	const word = raw.trim().toLowerCase()
+	if (word.startsWith("superseded") || word.startsWith("deprecated")) return "superseded"
+	for (const status of ["proposed", "accepted", "implemented", "rejected", "deferred"] as DecisionStatus[]) {
+		if (word.startsWith(status)) return status
+	}
+	return "accepted"
+}
+
+function parseOption(text: string, index: number): Omit<DecisionOption, "chosen"> {
+	const labelled = text.match(/^([A-Za-z0-9][\w.-]{0,19}):\s+(.+)$/)
+	return labelled
+		? { id: labelled[1], description: labelled[2].trim(), pros: [], cons: [] }
+		: { id: String.fromCharCode(65 + index), description: text, pros: [], cons: [] }
+}
+
+function findOption(options: DecisionOption[], label: string): DecisionOption | undefined {
+	const wanted = label.trim().toLowerCase()
+	return options.find((o) => [optionLabel(o), o.description, o.id].some((l) => l.toLowerCase() === wanted))
+}
+
+/**
+ * Parse an ADR file. Decisions without a Society ID get a placeholder ID that
+ * importAdrRecords replaces.
+ */
+export function parseAdr(content: string, file: string): ParsedAdr {
+	let body = content.replace(/\r\n/g, "\n")
+	const frontMatter: Record<string, string> = {}
+	const fm = body.match(/^---\n([\s\S]*?)\n---\n?/)
+	if (fm) {
+		for (const line of fm[1].split("\n")) {
+			const kv = line.match(/^([\w-]+):\s*(.*)$/)
+			if (kv) frontMatter[kv[1].toLowerCase()] = kv[2].trim().replace(/^["']|["']$/g, "")
+		}
+		body = body.slice(fm[0].length)
+	}
+
+	const all = sections(body, "##")
+	const title = (body.match(/^# (.+)$/m)?.[1] ?? file)
+		.replace(/^(ADR[- ]?)?\d+[.:]?\s+/i, "")
+		.trim()
+
+	// Status and date: front matter, Nygard "## Status" or "Status:" / "Date:" lines
+	const statusSection = section(all, "status")
+	const statusText = frontMatter.status || statusSection.split("\n")[0] || body.match(/^\*{0,2}status:?\*{0,2}:?\s*(.+)$/im)?.[1] || "accepted"
+	const date = frontMatter.date || body.match(/^\*{0,2}date:?\*{0,2}:?\s*(\d{4}-\d{2}-\d{2})/im)?.[1]
+
+	// Options with pros and cons
+	const options: DecisionOption[] = bullets(section(all, "considered options")).map((text, i) => ({ ...parseOption(text, i), chosen: false }))
+	for (const [heading, text] of sections(section(all, "pros and cons of the options"), "###")) {
+		const option = findOption(options, heading)
+		if (!option) continue
+		for (const item of bullets(text)) {
+			const good = item.match(/^good,?\s*because\s+(.+)$/i)
+			const bad = item.match(/^bad,?\s*because\s+(.+)$/i)
+			if (good) option.pros.push(good[1])
+			else if (bad) option.cons.push(bad[1])
+		}
+	}
+
+	// Outcome: chosen option, rationale and the decision statement
+	const outcomeSections = sections(section(all, "decision outcome"), "###")
+	const outcome = section(all, "decision outcome", "decision").split(/^### /m)[0].trim()
+	let rationale = ""
+	const statement: string[] = []
+	for (const paragraph of outcome.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean)) {
+		const chosen = paragraph.match(/^Chosen option:\s*"([^"]+)",?\s*(?:because\s+)?([\s\S]*)$/i)
+		const stated = paragraph.match(/^Rationale:\s*([\s\S]+)$/i)
+		if (chosen) {
+			const option = findOption(options, chosen[1])
+			if (option) option.chosen = true
+			rationale = chosen[2].trim()
+		} else if (stated) {
+			rationale = stated[1].trim()
+		} else {
+			statement.push(paragraph)
+		}
+	}
+
+	const consequences = bullets(outcomeSections.get("consequences") ?? section(all, "consequences"))
+	const consequencesText = outcomeSections.get("consequences") ?? section(all, "consequences")
+
+	// Links: MADR "More Information" bullets, or adr-tools lines under "## Status"
+	const moreInfo = section(all, "more information", "links")
+	const linkLines = [
+		...bullets(moreInfo),
+		...statusSection.split("\n").map((l) => l.trim()),
+		...(frontMatter.status ? [frontMatter.status] : []),
+	]
+	const supersedes = linkLines.filter((l) => /^supersedes\b/i.test(l)).flatMap(adrRefs)
+	const related = linkLines.filter((l) => /^related\b/i.test(l)).flatMap(adrRefs)
+	const supersededBy = linkLines.filter((l) => /^superseded by\b/i.test(l)).flatMap(adrRefs)[0]
+
+	const revisions: DecisionRevision[] = []
+	for (const item of bullets(sections(moreInfo, "###").get("revision history") ?? "")) {
+		const revision = item.match(/^(\S+)\s+([^:]+):\s+(.+?)\s+—\s+(.*)$/)
+		if (revision) revisions.push({ revisedAt: revision[1], revisedBy: revision[2].trim(), changes: revision[3], reason: revision[4] })
+	}
+
+	const category = CATEGORIES.includes(frontMatter.category as DecisionCategory) ? (frontMatter.category as DecisionCategory) : "architecture"
+	const relatedTasks = (frontMatter["related-tasks"] ?? "")
+		.replace(/^\[|\]$/g, "")
+		.split(",")
+		.map((t) => t.trim())
+		.filter(Boolean)
+
+	const decision: Decision = {
+		id: frontMatter["decision-id"] || `ADR-${file.slice(0, 4)}`,
+		title,
+		category,
+		status: parseStatus(statusText),
+		context: section(all, "context and problem statement", "context").replace(/^-$/, ""),
+		options,
+		decision: statement.join("\n\n").replace(/^-$/, ""),
+		rationale,
+		consequences: consequences.length > 0 ? consequences : consequencesText ? [consequencesText] : undefined,
+		relatedTasks: relatedTasks.length > 0 ? relatedTasks : undefined,
+		decidedBy: (frontMatter.deciders || "unknown").replace(/^\[|\]$/g, ""),
+		decidedAt: date ? `${date}T00:00:00.000Z` : new Date().toISOString(),
+		revisions: revisions.length > 0 ? revisions : undefined,
+		adrFile: file,
+	}
+
+	return { file, number: adrNumber(file), decision, hasDecisionId: Boolean(frontMatter["decision-id"]), supersededBy, supersedes, related }
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+/** ADR file names in the project's docs/adr folder, in order */
+export async function listAdrFiles(projectDir: string): Promise<string[]> {
+	try {
+		const entries = await fs.readdir(path.join(projectDir, ADR_DIR))
+		return entries.filter((f) => ADR_FILE_PATTERN.test(f)).sort()
+	} catch {
+		return []
+	}
+}
+
+/** Parse every ADR in the project's docs/adr folder */
+export async function readAdrDirectory(projectDir: string): Promise<ParsedAdr[]> {
+	const records: ParsedAdr[] = []
+	for (const file of await listAdrFiles(projectDir)) {
+		try {
+			records.push(parseAdr(await fs.readFile(path.join(projectDir, ADR_DIR, file), "utf-8"), file))
+		} catch (error) {
+			log.warn(`[ADR] Skipping ${file}: ${error}`)
+		}
+	}
+	return records
+}
+
+/** Fields compared to decide whether an import changed a decision */
+const CONTENT_FIELDS: Array<keyof Decision> = [
+	"title", "category", "status", "context", "options", "decision", "rationale",
+	"consequences", "relatedTasks", "relatedDecisions", "supersededBy",
+]
+
+function fieldChanged(a: Decision, b: Decision, field: keyof Decision): boolean {
+	// Link order is not kept in ADR files
+	const value = (d: Decision) => (field === "relatedDecisions" && d.relatedDecisions ? [...d.relatedDecisions].sort() : d[field])
+	return JSON.stringify(value(a) ?? null) !== JSON.stringify(value(b) ?? null)
+}
+
+/**
+ * Merge ADRs into the planning log. Records are matched by decision ID, then by
+ * ADR file; the rest become new decisions. Supersede and related links are
+ * resolved from ADR numbers and made consistent in both directions.
+ */
+export function importAdrRecords(planningLog: PlanningLog, records: ParsedAdr[], importedBy = "adr-import"): AdrImportResult {
+	const result: AdrImportResult = { created: [], updated: [], unchanged: [] }
+	const now = new Date().toISOString()
+
+	// 1. Give every record its final decision ID
+	const idByNumber = new Map<number, string>()
+	for (const record of records) {
+		const existing =
+			(record.hasDecisionId && planningLog.decisions.find((d) => d.id === record.decision.id)) ||
+			planningLog.decisions.find((d) => d.adrFile === record.file)
+		if (existing) {
+			record.decision.id = existing.id
+		} else if (!record.hasDecisionId || planningLog.decisions.some((d) => d.id === record.decision.id)) {
+			planningLog.sequence = (planningLog.sequence || 0) + 1
+			record.decision.id = generateDecisionId(planningLog.sequence, record.decision.category)
+		} else {
+			const seq = parseInt(record.decision.id.match(/(\d+)$/)?.[1] ?? "0", 10)
+			planningLog.sequence = Math.max(planningLog.sequence || 0, seq)
+		}
+		idByNumber.set(record.number, record.decision.id)
+	}
+
+	// 2. Resolve links (ADR numbers outside the folder are dropped)
+	const byId = new Map(records.map((r) => [r.decision.id, r]))
+	const ids = (numbers: number[]) => numbers.map((n) => idByNumber.get(n)).filter((id): id is string => Boolean(id))
+	for (const record of records) {
+		record.decision.supersededBy = record.supersededBy !== undefined ? idByNumber.get(record.supersededBy) : undefined
+		const linked = [...ids(record.supersedes), ...ids(record.related)]
+		record.decision.relatedDecisions = linked.length > 0 ? [...new Set(linked)] : undefined
+	}
+	// "Supersedes X" on the new record and "Superseded by Y" on the old one imply each other
+	for (const record of records) {
+		for (const oldId of ids(record.supersedes)) {
+			const old = byId.get(oldId)?.decision
+			if (old && !old.supersededBy) {
+				old.supersededBy = record.decision.id
+				old.status = "superseded"
+			}
+		}
+		const successor = record.decision.supersededBy ? byId.get(record.decision.supersededBy)?.decision : undefined
+		if (successor && !successor.relatedDecisions?.includes(record.decision.id)) {
+			successor.relatedDecisions = [...(successor.relatedDecisions ?? []), record.decision.id]
+		}
+		if (record.decision.supersededBy) record.decision.status = "superseded"
+	}
+
+	// 3. Merge into the log
+	for (const record of records) {
+		const incoming = record.decision
+		const existing = planningLog.decisions.find((d) => d.id === incoming.id)
+		if (!existing) {
+			planningLog.decisions.push(incoming)
+			result.created.push(incoming.id)
+			continue
+		}
+		existing.adrFile = record.file
+		const changed = CONTENT_FIELDS.filter((field) => fieldChanged(existing, incoming, field))
+		if (changed.length === 0) {
+			result.unchanged.push(existing.id)
+			continue
+		}
+		for (const field of changed) {
+			;(existing as unknown as Record<string, unknown>)[field] = incoming[field]
+		}
+		existing.revisions = existing.revisions || []
+		existing.revisions.push({
+			revisedAt: now,
+			revisedBy: importedBy,
+			changes: `Updated ${changed.join(", ")} from ${path.join(ADR_DIR, record.file)}`,
+			reason: "ADR edited outside Society Agent",
+		})
+		result.updated.push(existing.id)
+	}
+
+	planningLog.updatedAt = now
+	log.info(`[ADR] Imported ${records.length} records: ${result.created.length} new, ${result.updated.length} updated`)
+	return result
+}
+
+/**
+ * Write every decision to docs/adr as a MADR file. Files are only rewritten when
+ * their content changes; returns the files written.
+ */
+export async function exportDecisionsToAdr(projectDir: string, planningLog: PlanningLog): Promise<string[]> {
+	const dir = path.join(projectDir, ADR_DIR)
+	assignAdrFiles(planningLog, await listAdrFiles(projectDir))
+	await fs.mkdir(dir, { recursive: true })
+
+	const written: string[] = []
+	for (const decision of planningLog.decisions) {
+		const filePath = path.join(dir, decision.adrFile!)
+		const content = decisionToMadr(decision, planningLog.decisions)
+		const current = await fs.readFile(filePath, "utf-8").catch(() => null)
+		if (current !== content) {
+			await fs.writeFile(filePath, content, "utf-8")
+			written.push(decision.adrFile!)
+		}
+	}
+	if (written.length > 0) log.info(`[ADR] Wrote ${written.length} records to ${dir}`)
+	return written
+}
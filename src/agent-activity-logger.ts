@@ -45,6 +45,10 @@ export interface BaseEvent {
     agentId: string
     projectId: string
     type: ActivityEventType
+    // Society Agent start - conversation threads
+    /** Conversation (first message ID) the agent was working on when this happened */
+    correlationId?: string
+    // Society Agent end
 }
 
 export interface ChatInEvent extends BaseEvent {
@@ -101,6 +105,7 @@ export type LoopExitReason =
     | "api_error"           // Unrecoverable API failure
     | "stop_sequence"       // Model hit a stop sequence
     | "max_tokens"          // Context too long
+    | "budget_exceeded"     // Society Agent - hard cost budget reached
     | "unknown"
 
 export interface LoopExitEvent extends BaseEvent {
@@ -149,11 +154,20 @@ export class AgentActivityLogger {
     private readonly projectsRoot: string
     /** Optional real-time emitter; called after every successful file write */
     private emitFn?: (event: ActivityEvent) => void
+    /** Optional source of the conversation an agent is working on */
+    private correlationFn?: (projectId: string, agentId: string) => string | undefined // Society Agent
 
     constructor(projectsRoot: string) {
         this.projectsRoot = projectsRoot
     }
 
+    // Society Agent start - conversation threads
+    /** Supply the conversation an agent is currently working on; it is stamped on every event */
+    setCorrelationProvider(fn: (projectId: string, agentId: string) => string | undefined): void {
+        this.correlationFn = fn
+    }
+    // Society Agent end
+
     /**
      * Attach a real-time emit function (e.g. `(e) => io.emit("agent-activity", e)`) so
      * the UI Activity panel can update live instead of only on manual refresh.
@@ -305,6 +319,7 @@ export class AgentActivityLogger {
         agentHomeFolder: string,
         from: string,
         content: string,
+        correlationId?: string, // Society Agent - conversation of a typed message
     ): void {
         this.write(projectFolder, agentHomeFolder, agentId, {
             t: Date.now(),
@@ -313,6 +328,7 @@ export class AgentActivityLogger {
             type: "inbox_msg",
             from,
             content,
+            ...(correlationId ? { correlationId } : {}),
         } satisfies InboxMsgEvent)
     }
 
@@ -433,6 +449,10 @@ export class AgentActivityLogger {
         event: ActivityEvent,
     ): void {
         try {
+            // Society Agent start - conversation threads
+            const correlationId = event.correlationId ?? this.correlationFn?.(event.projectId, event.agentId)
+            if (correlationId) event = { ...event, correlationId }
+            // Society Agent end
             const filePath = this.logPath(projectFolder, agentHomeFolder, agentId)
             const dir = path.dirname(filePath)
             if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true })
@@ -10,6 +10,10 @@
  *
  * The directory is a shared JSON file (not JSONL) for atomic reads.
  * Writes are append-like: read → merge → write (with file lock via rename).
+ *
+ * Agents on federated servers (Society Agent) are kept in memory next to the local
+ * ones, addressed as "<projectId>/<agentId>@<serverId>" (see federation.ts). They can
+ * only be sent work when they accept external work.
  */
 
 import * as fs from "fs/promises"
@@ -40,6 +44,7 @@ export class AgentDirectory {
 	private sharedDir: string
 	private directoryPath: string
 	private cache: Map<string, AgentDirectoryEntry> = new Map()
+	private remote: Map<string, AgentDirectoryEntry> = new Map() // Society Agent - federated address → entry
 	private refreshInterval: NodeJS.Timeout | undefined
 	private refreshIntervalMs: number
 
@@ -81,6 +86,18 @@ export class AgentDirectory {
 		getLog().info(`[AgentDirectory] Published ${entry.agentId} (${entry.role})`)
 	}
 
+	// Society Agent start - a server lists all of its project agents at once
+	/**
+	 * Replace every entry (for a process that owns the directory file)
+	 */
+	async replaceAll(entries: AgentDirectoryEntry[]): Promise<void> {
+		const dir = await this.readDirectoryFile()
+		dir.agents = Object.fromEntries(entries.map((entry) => [entry.agentId, entry]))
+		await this.writeDirectoryFile(dir)
+		this.cache = new Map(Object.entries(dir.agents))
+	}
+	// Society Agent end
+
 	/**
 	 * Update agent status and heartbeat
 	 */
@@ -179,10 +196,12 @@ export class AgentDirectory {
 		supervisor: AgentDirectoryEntry | undefined
 		peers: AgentDirectoryEntry[]
 		subordinates: AgentDirectoryEntry[]
+		/** Agents on federated servers that accept external work (Society Agent) */
+		remote: AgentDirectoryEntry[]
 	} {
 		const agent = this.cache.get(agentId)
 		if (!agent) {
-			return { supervisor: undefined, peers: [], subordinates: [] }
+			return { supervisor: undefined, peers: [], subordinates: [], remote: [] }
 		}
 
 		const supervisor = agent.supervisorId !== "human"
@@ -195,7 +214,9 @@ export class AgentDirectory {
 
 		const subordinates = this.findBySupervisor(agentId)
 
-		return { supervisor, peers, subordinates }
+		const remote = this.getRemoteAgents().filter((a) => a.acceptsExternalWork || a.humanPresent) // Society Agent
+
+		return { supervisor, peers, subordinates, remote }
 	}
 
 	// ─── Human + External work ────────────────────────────────────
@@ -226,6 +247,11 @@ export class AgentDirectory {
 	 * 4. Peers can message each other (same supervisor)
 	 */
 	canSendWorkTo(fromId: string, toId: string): boolean {
+		// Society Agent start - federated agents only take work they opted into
+		const remote = this.remote.get(toId)
+		if (remote) return Boolean(remote.acceptsExternalWork || remote.humanPresent)
+		// Society Agent end
+
 		const target = this.cache.get(toId)
 		if (!target) return false
 
@@ -248,6 +274,27 @@ export class AgentDirectory {
 		return false
 	}
 
+	// ─── Federation ───────────────────────────────────────────────
+
+	/**
+	 * Replace the agents known on a federated server (entries keyed by their federated address)
+	 */
+	setRemoteAgents(serverId: string, entries: AgentDirectoryEntry[]): void {
+		for (const address of this.remote.keys()) {
+			if (address.endsWith(`@${serverId}`)) this.remote.delete(address)
+		}
+		for (const entry of entries) {
+			this.remote.set(entry.agentId, entry)
+		}
+	}
+
+	/**
+	 * Agents on federated servers
+	 */
+	getRemoteAgents(): AgentDirectoryEntry[] {
+		return Array.from(this.remote.values())
+	}
+
 	// ─── Supervision chain ────────────────────────────────────────
 
 	/**
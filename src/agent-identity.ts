@@ -15,10 +15,20 @@
  * 6. Receivers verify with sender's public key from project-plan.json
  *
  * This prevents impersonation: only the holder of the private key can sign as that agent.
+ *
+ * Keys are not permanent (Society Agent):
+ * - Every public key an agent has held is kept in keys/registry.json with its
+ *   fingerprint, creation time and expiry.
+ * - rotateKey() issues a new keypair; the old key stays valid for an overlap
+ *   window so messages already signed or in flight still verify.
+ * - Revoked keys (and every key of a revoked agent) are rejected by verifyMessage()
+ *   at once. Verifiers re-read the registry when it changes on disk, so a
+ *   revocation by another process takes effect on the next message.
  */
 
 import * as crypto from "crypto"
 import * as fs from "fs/promises"
+import * as fsSync from "fs" // Society Agent
 import * as path from "path"
 import { getLog } from "./logger"
 
@@ -85,6 +95,9 @@ export interface SignedMessage {
 	/** Reply-to message ID (for threading) */
 	replyTo?: string
 
+	/** Fingerprint of the signing key (Society Agent) */
+	keyId?: string
+
 	/** Ed25519 signature (base64) covering all fields above */
 	signature: string
 
@@ -113,6 +126,68 @@ export interface AttachmentRef {
 	hash: string
 }
 
+// Society Agent start - key rotation and revocation
+/**
+ * One public key an agent has held
+ */
+export interface AgentKeyRecord {
+	/** Fingerprint: first 16 hex chars of the SHA-256 of the SPKI DER encoding */
+	keyId: string
+
+	agentId: string
+
+	publicKeyPem: string
+
+	createdAt: string
+
+	/** Signatures are rejected after this time (ISO 8601) */
+	expiresAt?: string
+
+	/** Replaced by a newer key; accepted until this time (ISO 8601) */
+	retiredAt?: string
+
+	revokedAt?: string
+
+	revocationReason?: string
+}
+
+export type AgentKeyStatus = "active" | "retiring" | "retired" | "expired" | "revoked"
+
+export interface KeyRotationOptions {
+	/** How long the replaced key stays valid next to the new one (default: 24 hours) */
+	overlapMs?: number
+
+	/** Lifetime of the new key (default: the manager's keyLifetimeMs) */
+	expiresInMs?: number
+}
+
+export interface AgentIdentityOptions {
+	/** Lifetime of newly registered keys; undefined means they never expire (default: 90 days) */
+	keyLifetimeMs?: number
+}
+
+const DEFAULT_KEY_LIFETIME_MS = 90 * 24 * 60 * 60 * 1000
+const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Fingerprint of a public key, as used for AgentKeyRecord.keyId
+ */
+export function keyFingerprint(publicKey: crypto.KeyObject): string {
+	const der = publicKey.export({ type: "spki", format: "der" })
+	return crypto.createHash("sha256").update(der).digest("hex").slice(0, 16)
+}
+
+/**
+ * Whether a key may sign right now
+ */
+export function keyStatus(record: AgentKeyRecord, now: number = Date.now()): AgentKeyStatus {
+	if (record.revokedAt) return "revoked"
+	if (record.expiresAt && Date.parse(record.expiresAt) <= now) return "expired"
+	if (record.retiredAt) return Date.parse(record.retiredAt) <= now ? "retired" : "retiring"
+	return "active"
+}
+// Society Agent end
+
 /**
  * Message priority for routing when agent is busy
  */
@@ -179,18 +254,36 @@ export function isReplayAttack(message: SignedMessage): boolean {
 	return false
 }
 
+// Society Agent start - canonical JSON covers nested objects
+function sortKeys(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(sortKeys)
+	if (!value || typeof value !== "object") return value
+	const sorted: Record<string, unknown> = {}
+	for (const key of Object.keys(value).sort()) sorted[key] = sortKeys((value as Record<string, unknown>)[key])
+	return sorted
+}
+// Society Agent end
+
 /**
  * AgentIdentityManager - Handles key generation, signing, and verification
  */
 export class AgentIdentityManager {
 	private identity: AgentIdentityFile | null = null
 	private privateKey: crypto.KeyObject | null = null
-	private publicKeys: Map<string, crypto.KeyObject> = new Map()
+	// Society Agent start - key rotation and revocation
+	/** Every key each agent has held, oldest first */
+	private keys: Map<string, AgentKeyRecord[]> = new Map()
+	private publicKeys: Map<string, crypto.KeyObject> = new Map() // keyId → key
+	/** Registry modification time when last read, to pick up changes made elsewhere */
+	private registryMtimeMs = 0
+	private keyLifetimeMs: number | undefined
+	// Society Agent end
 	private authorizedAgents: Set<string> = new Set()
 	private sharedDir: string
 
-	constructor(sharedDir: string) {
+	constructor(sharedDir: string, options: AgentIdentityOptions = {}) {
 		this.sharedDir = sharedDir
+		this.keyLifetimeMs = "keyLifetimeMs" in options ? options.keyLifetimeMs : DEFAULT_KEY_LIFETIME_MS // Society Agent
 	}
 
 	// ─── Identity Creation (Supervisor) ───────────────────────────────
@@ -248,7 +341,7 @@ export class AgentIdentityManager {
 	 * Register an agent's public key in the team plan
 	 * Called after createAgentIdentity for each agent
 	 */
-	async registerPublicKey(agentId: string, publicKeyPem: string): Promise<void> {
+	async registerPublicKey(agentId: string, publicKeyPem: string, options: { expiresInMs?: number } = {}): Promise<AgentKeyRecord> {
 		const keysDir = path.join(this.sharedDir, "keys")
 		await fs.mkdir(keysDir, { recursive: true })
 
@@ -256,13 +349,179 @@ export class AgentIdentityManager {
 		const pubKeyPath = path.join(keysDir, `${agentId}.pub.pem`)
 		await fs.writeFile(pubKeyPath, publicKeyPem, "utf-8")
 
-		// Load into memory
-		this.publicKeys.set(agentId, crypto.createPublicKey(publicKeyPem))
+		// Society Agent start - key registry: a new identity replaces the agent's current keys outright
+		this.refreshKeys()
+		const now = new Date()
+		const keyId = keyFingerprint(crypto.createPublicKey(publicKeyPem))
+		let record = this.keys.get(agentId)?.find((k) => k.keyId === keyId)
+		if (!record) {
+			for (const old of this.keys.get(agentId) ?? []) {
+				if (keyStatus(old, now.getTime()) === "active") old.retiredAt = now.toISOString()
+			}
+			const lifetime = options.expiresInMs ?? this.keyLifetimeMs
+			record = {
+				keyId,
+				agentId,
+				publicKeyPem,
+				createdAt: now.toISOString(),
+				...(lifetime !== undefined ? { expiresAt: new Date(now.getTime() + lifetime).toISOString() } : {}),
+			}
+			this.addKey(record)
+			this.saveKeys()
+		}
+
 		this.authorizedAgents.add(agentId)
 
-		getLog().info(`Registered public key for ${agentId}`)
+		getLog().info(`Registered public key ${keyId} for ${agentId}`)
+		return record
+		// Society Agent end
 	}
 
+	// Society Agent start - key rotation and revocation
+	/**
+	 * Issue a new keypair for an agent. Its private key replaces the agent's key.pem;
+	 * the keys it had stay valid for `overlapMs` so messages signed with them still verify.
+	 */
+	async rotateKey(agentId: string, options: KeyRotationOptions = {}): Promise<AgentKeyRecord> {
+		this.refreshKeys()
+		const current = (this.keys.get(agentId) ?? []).filter((k) => keyStatus(k) === "active")
+		if (current.length === 0 && !this.authorizedAgents.has(agentId)) {
+			throw new Error(`Unknown agent: ${agentId}`)
+		}
+
+		const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519", {
+			publicKeyEncoding: { type: "spki", format: "pem" },
+			privateKeyEncoding: { type: "pkcs8", format: "pem" },
+		})
+		const agentDir = path.join(this.sharedDir, "agents", agentId)
+		await fs.mkdir(agentDir, { recursive: true })
+		await fs.writeFile(path.join(agentDir, "key.pem"), privateKey, { mode: 0o600 })
+
+		const retireAt = Date.now() + (options.overlapMs ?? DEFAULT_ROTATION_OVERLAP_MS)
+		for (const old of current) {
+			const expiresAt = old.expiresAt ? Date.parse(old.expiresAt) : Infinity
+			old.retiredAt = new Date(Math.min(retireAt, expiresAt)).toISOString()
+		}
+
+		// registerPublicKey would retire the old keys immediately; they are already retiring
+		const record: AgentKeyRecord = {
+			keyId: keyFingerprint(crypto.createPublicKey(publicKey)),
+			agentId,
+			publicKeyPem: publicKey,
+			createdAt: new Date().toISOString(),
+		}
+		const lifetime = options.expiresInMs ?? this.keyLifetimeMs
+		if (lifetime !== undefined) record.expiresAt = new Date(Date.now() + lifetime).toISOString()
+		this.addKey(record)
+		await fs.mkdir(path.join(this.sharedDir, "keys"), { recursive: true })
+		await fs.writeFile(path.join(this.sharedDir, "keys", `${agentId}.pub.pem`), publicKey, "utf-8")
+		this.saveKeys()
+		this.authorizedAgents.add(agentId)
+
+		if (this.identity?.agentId === agentId) {
+			this.privateKey = crypto.createPrivateKey(privateKey)
+		}
+
+		getLog().info(`Rotated key for ${agentId}: ${current.map((k) => k.keyId).join(", ") || "(none)"} → ${record.keyId}`)
+		return record
+	}
+
+	/**
+	 * Revoke one key (e.g. a leaked private key). Messages signed with it are rejected from now on.
+	 */
+	revokeKey(agentId: string, keyId: string, reason: string): AgentKeyRecord {
+		this.refreshKeys()
+		const record = this.keys.get(agentId)?.find((k) => k.keyId === keyId)
+		if (!record) throw new Error(`Unknown key ${keyId} for ${agentId}`)
+		if (!record.revokedAt) {
+			record.revokedAt = new Date().toISOString()
+			record.revocationReason = reason
+			this.saveKeys()
+			getLog().warn(`Revoked key ${keyId} of ${agentId}: ${reason}`)
+		}
+		return record
+	}
+
+	/**
+	 * Revoke every key of an agent and withdraw its authorization (deleted or compromised agents).
+	 * Returns how many keys were revoked.
+	 */
+	revokeAgent(agentId: string, reason: string): number {
+		this.refreshKeys()
+		const revokedAt = new Date().toISOString()
+		let revoked = 0
+		for (const record of this.keys.get(agentId) ?? []) {
+			if (record.revokedAt) continue
+			record.revokedAt = revokedAt
+			record.revocationReason = reason
+			revoked++
+		}
+		if (revoked > 0) this.saveKeys()
+		this.authorizedAgents.delete(agentId)
+		getLog().warn(`Revoked ${revoked} key(s) of ${agentId}: ${reason}`)
+		return revoked
+	}
+
+	/**
+	 * Fingerprint history: every key an agent (or every agent) has held, oldest first, with its status
+	 */
+	keyHistory(agentId?: string): Array<AgentKeyRecord & { status: AgentKeyStatus }> {
+		this.refreshKeys()
+		const records = agentId ? (this.keys.get(agentId) ?? []) : [...this.keys.values()].flat()
+		return records.map((record) => ({ ...record, status: keyStatus(record) }))
+	}
+
+	/**
+	 * Revoked keys (the revocation list checked by verifyMessage)
+	 */
+	revocationList(): Array<Pick<AgentKeyRecord, "keyId" | "agentId" | "revokedAt" | "revocationReason">> {
+		return this.keyHistory()
+			.filter((k) => k.revokedAt)
+			.map(({ keyId, agentId, revokedAt, revocationReason }) => ({ keyId, agentId, revokedAt, revocationReason }))
+	}
+
+	private registryPath(): string {
+		return path.join(this.sharedDir, "keys", "registry.json")
+	}
+
+	private addKey(record: AgentKeyRecord): void {
+		this.keys.set(record.agentId, [...(this.keys.get(record.agentId) ?? []), record])
+		this.publicKeys.set(record.keyId, crypto.createPublicKey(record.publicKeyPem))
+	}
+
+	private saveKeys(): void {
+		const file = this.registryPath()
+		fsSync.mkdirSync(path.dirname(file), { recursive: true })
+		fsSync.writeFileSync(file, JSON.stringify({ keys: [...this.keys.values()].flat() }, null, 2), "utf-8")
+		this.registryMtimeMs = fsSync.statSync(file).mtimeMs
+	}
+
+	/**
+	 * Re-read the registry if another process changed it (rotation, revocation)
+	 */
+	private refreshKeys(): void {
+		let mtimeMs: number
+		try {
+			mtimeMs = fsSync.statSync(this.registryPath()).mtimeMs
+		} catch {
+			return // No registry yet
+		}
+		if (mtimeMs === this.registryMtimeMs) return
+
+		const { keys } = JSON.parse(fsSync.readFileSync(this.registryPath(), "utf-8")) as { keys: AgentKeyRecord[] }
+		this.keys.clear()
+		this.publicKeys.clear()
+		for (const record of keys) {
+			this.addKey(record)
+			if (keyStatus(record) !== "revoked") this.authorizedAgents.add(record.agentId)
+		}
+		for (const [agentId, records] of this.keys) {
+			if (records.every((k) => k.revokedAt)) this.authorizedAgents.delete(agentId)
+		}
+		this.registryMtimeMs = mtimeMs
+	}
+	// Society Agent end
+
 	// ─── Identity Loading (Agent Startup) ─────────────────────────────
 
 	/**
@@ -300,13 +559,19 @@ export class AgentIdentityManager {
 		const keysDir = path.join(this.sharedDir, "keys")
 
 		try {
+			this.refreshKeys() // Society Agent - the registry knows every key and its validity
 			const files = await fs.readdir(keysDir)
 			for (const file of files) {
 				if (!file.endsWith(".pub.pem")) continue
 
 				const agentId = file.replace(".pub.pem", "")
 				const keyPem = await fs.readFile(path.join(keysDir, file), "utf-8")
-				this.publicKeys.set(agentId, crypto.createPublicKey(keyPem))
+				// Society Agent start - keys from before the registry never expire
+				const publicKey = crypto.createPublicKey(keyPem)
+				const keyId = keyFingerprint(publicKey)
+				if (this.publicKeys.has(keyId)) continue
+				this.addKey({ keyId, agentId, publicKeyPem: keyPem, createdAt: new Date(0).toISOString() })
+				// Society Agent end
 				this.authorizedAgents.add(agentId)
 			}
 
@@ -384,6 +649,7 @@ export class AgentIdentityManager {
 			...(options?.data && { data: options.data }),
 			...(options?.attachments && { attachments: options.attachments }),
 			...(options?.replyTo && { replyTo: options.replyTo }),
+			...(this.privateKey && { keyId: keyFingerprint(crypto.createPublicKey(this.privateKey)) }), // Society Agent
 		}
 
 		const signature = this.signMessage(messageBase)
@@ -402,6 +668,7 @@ export class AgentIdentityManager {
 	 */
 	verifyMessage(message: SignedMessage): boolean {
 		const senderId = message.from
+		this.refreshKeys() // Society Agent - pick up rotations and revocations
 
 		// Check if sender is authorized
 		if (!this.authorizedAgents.has(senderId)) {
@@ -409,25 +676,36 @@ export class AgentIdentityManager {
 			return false
 		}
 
-		// Get sender's public key
-		const publicKey = this.publicKeys.get(senderId)
-		if (!publicKey) {
-			getLog().warn(`No public key for sender: ${senderId}`)
+		// Society Agent start - the signing key, or every key the sender has held
+		const candidates = (this.keys.get(senderId) ?? []).filter((k) => !message.keyId || k.keyId === message.keyId)
+		if (candidates.length === 0) {
+			getLog().warn(`No public key for sender: ${senderId}${message.keyId ? ` (key ${message.keyId})` : ""}`)
 			return false
 		}
+		// Society Agent end
 
 		// Verify signature
 		const { signature, delivered, deliveredAt, ...messageData } = message
 		const canonical = this.canonicalize(messageData)
 
 		try {
-			const isValid = crypto.verify(null, Buffer.from(canonical), publicKey, Buffer.from(signature, "base64"))
-
-			if (!isValid) {
+			// Society Agent start - only keys that are still valid count
+			const signer = candidates.find((k) =>
+				crypto.verify(null, Buffer.from(canonical), this.publicKeys.get(k.keyId)!, Buffer.from(signature, "base64")),
+			)
+			if (!signer) {
 				getLog().warn(`INVALID SIGNATURE from ${senderId} — possible impersonation!`)
+				return false
+			}
+
+			const status = keyStatus(signer)
+			if (status !== "active" && status !== "retiring") {
+				getLog().warn(`REJECTED message from ${senderId}: signed with ${status} key ${signer.keyId}`)
+				return false
 			}
 
-			return isValid
+			return true
+			// Society Agent end
 		} catch (error) {
 			getLog().error(`Verification error for ${senderId}:`, error)
 			return false
@@ -438,21 +716,23 @@ export class AgentIdentityManager {
 	 * Full message validation: signature + replay + authorization
 	 */
 	validateMessage(message: SignedMessage): { valid: boolean; reason?: string } {
+		this.refreshKeys() // Society Agent - revocations made elsewhere apply at once
+
 		// 1. Check authorization
 		if (!this.authorizedAgents.has(message.from)) {
 			return { valid: false, reason: `Unauthorized sender: ${message.from}` }
 		}
 
-		// 2. Check replay
-		if (isReplayAttack(message)) {
-			return { valid: false, reason: `Replay attack detected (nonce: ${message.nonce})` }
-		}
-
-		// 3. Verify signature
+		// 2. Verify signature (Society Agent: before the nonce is recorded, so a forged copy cannot burn it)
 		if (!this.verifyMessage(message)) {
 			return { valid: false, reason: `Invalid signature from ${message.from}` }
 		}
 
+		// 3. Check replay
+		if (isReplayAttack(message)) {
+			return { valid: false, reason: `Replay attack detected (nonce: ${message.nonce})` }
+		}
+
 		return { valid: true }
 	}
 
@@ -463,7 +743,8 @@ export class AgentIdentityManager {
 	 * Sorts keys deterministically so signature is reproducible
 	 */
 	private canonicalize(obj: Record<string, unknown>): string {
-		return JSON.stringify(obj, Object.keys(obj).sort())
+		// Society Agent - sort nested keys too; a top-level key list as the replacer dropped every nested field (data) from the signature
+		return JSON.stringify(sortKeys(obj))
 	}
 
 	/**
@@ -504,10 +785,7 @@ export class AgentIdentityManager {
 		}
 		try {
 			// Derive the public key from the private key
-			const pubKey = crypto.createPublicKey(this.privateKey)
-			const der = pubKey.export({ type: "spki", format: "der" })
-			const hash = crypto.createHash("sha256").update(der).digest("hex")
-			return hash.slice(0, 16)
+			return keyFingerprint(crypto.createPublicKey(this.privateKey)) // Society Agent
 		} catch {
 			return undefined
 		}
@@ -295,7 +295,7 @@ export class AgentRegistry {
 
 	/**
 	 * Send message to another agent (or broadcast)
-	 * Uses hybrid communication: always writes inbox file (reliable), also tries HTTP (fast)
+	 * Uses hybrid communication: always queues in the inbox (reliable), also tries HTTP (fast)
 	 * Society Agent - updated to always-inbox-first strategy
 	 */
 	async sendMessage(
@@ -360,7 +360,7 @@ export class AgentRegistry {
 				}
 				getLog().info(`Also sent to ${to} via HTTP (instant):`, type)
 			} catch (error) {
-				getLog().info(`HTTP send to ${to} failed (inbox file will be picked up):`, error)
+				getLog().info(`HTTP send to ${to} failed (the inbox queue will deliver it):`, error)
 			}
 		}
 		// Society Agent end
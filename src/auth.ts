@@ -0,0 +1,648 @@
+// Society Agent - new file
+/**
+ * Authentication and Roles
+ *
+ * Pluggable authentication for the HTTP API and the Socket.IO handshake.
+ *
+ * - Local users with scrypt-hashed passwords (HTTP Basic or POST /api/auth/login)
+ * - API tokens for scripts and other orchestrators (Authorization: Bearer <token>)
+ * - Session cookies issued at login so the browser UI and Socket.IO stay signed in
+ *
+ * Roles are ordered: viewer < operator < admin.
+ * - viewer:   read-only access to the projects they are a member of
+ * - operator: may chat with agents and change project state in their projects
+ * - admin:    everything, including server configuration, terminals and user management
+ *
+ * Project membership (StoredUser.projects) decides which projects a non-admin can
+ * see or chat with. "*" grants every project.
+ *
+ * Users and tokens are stored in projects/.society/users.json. Only hashes of
+ * passwords and tokens are persisted.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import * as crypto from "crypto"
+import type { Request, Response, NextFunction } from "express"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UserRole = "viewer" | "operator" | "admin"
+
+export const USER_ROLES: UserRole[] = ["viewer", "operator", "admin"]
+
+export function isUserRole(value: string | undefined | null): value is UserRole {
+	return !!value && USER_ROLES.includes(value as UserRole)
+}
+
+/** True if `role` grants at least the permissions of `required` */
+export function roleAtLeast(role: UserRole, required: UserRole): boolean {
+	return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required)
+}
+
+/** A user as persisted in users.json */
+export interface StoredUser {
+	id: string
+	username: string
+	/** scrypt$<salt hex>$<hash hex> */
+	passwordHash: string
+	role: UserRole
+	/** Project IDs this user is a member of ("*" = all projects). Admins see all projects. */
+	projects: string[]
+	disabled?: boolean
+	createdAt: string
+	updatedAt: string
+	lastLoginAt?: string
+}
+
+/** An API or session token as persisted in users.json (only the hash is stored) */
+export interface StoredToken {
+	id: string
+	userId: string
+	/** "api" tokens are created by users; "session" tokens are issued at login */
+	kind: "api" | "session"
+	name: string
+	/** SHA-256 of the token */
+	tokenHash: string
+	/** First characters of the token, for display */
+	prefix: string
+	createdAt: string
+	expiresAt?: string
+	lastUsedAt?: string
+}
+
+/** The authenticated principal attached to a request or socket */
+export interface AuthUser {
+	id: string
+	username: string
+	role: UserRole
+	projects: string[]
+	/** Which provider authenticated this user */
+	via: string
+}
+
+/** Public view of a user (no password hash) */
+export type PublicUser = Omit<StoredUser, "passwordHash">
+
+/** Public view of a token (no hash) */
+export type PublicToken = Omit<StoredToken, "tokenHash">
+
+interface UserStoreState {
+	users: StoredUser[]
+	tokens: StoredToken[]
+	version: number
+}
+
+// Society Agent - make the authenticated user available on Express requests
+declare global {
+	namespace Express {
+		interface Request {
+			authUser?: AuthUser
+		}
+	}
+}
+
+// ============================================================================
+// Password and token hashing
+// ============================================================================
+
+const SCRYPT_KEYLEN = 64
+
+/** Hash a password with a random salt. Format: scrypt$<salt hex>$<hash hex> */
+export function hashPassword(password: string): string {
+	const salt = crypto.randomBytes(16)
+	const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN)
+	return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`
+}
+
+/** Verify a password against a stored hash in constant time */
+export function verifyPassword(password: string, stored: string): boolean {
+	const [scheme, saltHex, hashHex] = (stored || "").split("$")
+	if (scheme !== "scrypt" || !saltHex || !hashHex) return false
+	const expected = Buffer.from(hashHex, "hex")
+	const actual = crypto.scryptSync(password, Buffer.from(saltHex, "hex"), expected.length)
+	return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+function hashToken(token: string): string {
+	return crypto.createHash("sha256").update(token).digest("hex")
+}
+
+function generateToken(): string {
+	return `sa_${crypto.randomBytes(24).toString("base64url")}`
+}
+
+const MIN_PASSWORD_LENGTH = 8
+
+// ============================================================================
+// User Store
+// ============================================================================
+
+export class UserStore {
+	private state: UserStoreState = { users: [], tokens: [], version: 1 }
+
+	constructor(private storePath: string) {
+		this.load()
+	}
+
+	private load(): void {
+		try {
+			if (fs.existsSync(this.storePath)) {
+				const data = JSON.parse(fs.readFileSync(this.storePath, "utf-8"))
+				this.state = { users: data.users || [], tokens: data.tokens || [], version: data.version || 1 }
+			}
+		} catch (error) {
+			log.error("[Auth] Error loading user store:", error)
+		}
+	}
+
+	private save(): void {
+		try {
+			fs.mkdirSync(path.dirname(this.storePath), { recursive: true })
+			fs.writeFileSync(this.storePath, JSON.stringify(this.state, null, 2), { encoding: "utf-8", mode: 0o600 })
+		} catch (error) {
+			log.error("[Auth] Error saving user store:", error)
+		}
+	}
+
+	// ========================================================================
+	// Users
+	// ========================================================================
+
+	hasUsers(): boolean {
+		return this.state.users.length > 0
+	}
+
+	listUsers(): PublicUser[] {
+		return this.state.users.map(toPublicUser)
+	}
+
+	getUser(id: string): StoredUser | undefined {
+		return this.state.users.find((u) => u.id === id)
+	}
+
+	findByUsername(username: string): StoredUser | undefined {
+		const lower = username.toLowerCase()
+		return this.state.users.find((u) => u.username.toLowerCase() === lower)
+	}
+
+	createUser(input: { username: string; password: string; role: UserRole; projects?: string[] }): PublicUser {
+		const username = (input.username || "").trim()
+		if (!/^[a-zA-Z0-9._-]{2,64}$/.test(username)) {
+			throw new Error("Username must be 2-64 characters: letters, digits, '.', '_' or '-'")
+		}
+		if (this.findByUsername(username)) {
+			throw new Error(`User "${username}" already exists`)
+		}
+		if (!isUserRole(input.role)) {
+			throw new Error(`Invalid role: ${input.role}`)
+		}
+		validatePassword(input.password)
+
+		const now = new Date().toISOString()
+		const user: StoredUser = {
+			id: `user-${crypto.randomBytes(6).toString("hex")}`,
+			username,
+			passwordHash: hashPassword(input.password),
+			role: input.role,
+			projects: input.projects || [],
+			createdAt: now,
+			updatedAt: now,
+		}
+		this.state.users.push(user)
+		this.save()
+		log.info(`[Auth] Created ${user.role} user "${username}"`)
+		return toPublicUser(user)
+	}
+
+	updateUser(id: string, updates: { role?: UserRole; projects?: string[]; password?: string; disabled?: boolean }): PublicUser | undefined {
+		const user = this.getUser(id)
+		if (!user) return undefined
+		if (updates.role !== undefined) {
+			if (!isUserRole(updates.role)) throw new Error(`Invalid role: ${updates.role}`)
+			user.role = updates.role
+		}
+		if (updates.projects !== undefined) user.projects = updates.projects
+		if (updates.password !== undefined) {
+			validatePassword(updates.password)
+			user.passwordHash = hashPassword(updates.password)
+			// A password change signs the user out everywhere
+			this.state.tokens = this.state.tokens.filter((t) => !(t.userId === id && t.kind === "session"))
+		}
+		if (updates.disabled !== undefined) user.disabled = updates.disabled
+		user.updatedAt = new Date().toISOString()
+		this.save()
+		return toPublicUser(user)
+	}
+
+	deleteUser(id: string): boolean {
+		const before = this.state.users.length
+		this.state.users = this.state.users.filter((u) => u.id !== id)
+		if (this.state.users.length === before) return false
+		this.state.tokens = this.state.tokens.filter((t) => t.userId !== id)
+		this.save()
+		return true
+	}
+
+	/** Check a username/password pair. Returns the user on success. */
+	verifyCredentials(username: string, password: string): StoredUser | undefined {
+		const user = this.findByUsername(username)
+		if (!user || user.disabled) return undefined
+		if (!verifyPassword(password, user.passwordHash)) return undefined
+		return user
+	}
+
+	recordLogin(id: string): void {
+		const user = this.getUser(id)
+		if (!user) return
+		user.lastLoginAt = new Date().toISOString()
+		this.save()
+	}
+
+	// ========================================================================
+	// Tokens
+	// ========================================================================
+
+	/**
+	 * Create an API or session token. The plain token is only returned here;
+	 * only its hash is stored.
+	 */
+	createToken(userId: string, options: { name: string; kind?: StoredToken["kind"]; expiresInMs?: number }): { token: string; record: PublicToken } {
+		if (!this.getUser(userId)) throw new Error(`User not found: ${userId}`)
+		const token = generateToken()
+		const now = Date.now()
+		const record: StoredToken = {
+			id: `tok-${crypto.randomBytes(6).toString("hex")}`,
+			userId,
+			kind: options.kind || "api",
+			name: options.name,
+			tokenHash: hashToken(token),
+			prefix: token.slice(0, 10),
+			createdAt: new Date(now).toISOString(),
+			expiresAt: options.expiresInMs ? new Date(now + options.expiresInMs).toISOString() : undefined,
+		}
+		this.pruneExpiredTokens()
+		this.state.tokens.push(record)
+		this.save()
+		return { token, record: toPublicToken(record) }
+	}
+
+	listTokens(userId: string, kind: StoredToken["kind"] = "api"): PublicToken[] {
+		return this.state.tokens.filter((t) => t.userId === userId && t.kind === kind).map(toPublicToken)
+	}
+
+	/** Revoke a token. When userId is given, only that user's tokens can be revoked. */
+	revokeToken(tokenId: string, userId?: string): boolean {
+		const before = this.state.tokens.length
+		this.state.tokens = this.state.tokens.filter((t) => !(t.id === tokenId && (!userId || t.userId === userId)))
+		if (this.state.tokens.length === before) return false
+		this.save()
+		return true
+	}
+
+	/** Revoke a token by its plain value (used by logout) */
+	revokeTokenValue(token: string): boolean {
+		const hash = hashToken(token)
+		const match = this.state.tokens.find((t) => t.tokenHash === hash)
+		return match ? this.revokeToken(match.id) : false
+	}
+
+	/** Resolve a plain token to its user, or undefined if unknown, expired or disabled */
+	resolveToken(token: string, kind?: StoredToken["kind"]): StoredUser | undefined {
+		const hash = hashToken(token)
+		const record = this.state.tokens.find((t) => t.tokenHash === hash && (!kind || t.kind === kind))
+		if (!record) return undefined
+		if (record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now()) return undefined
+		const user = this.getUser(record.userId)
+		if (!user || user.disabled) return undefined
+		// Throttle writes - recording every request would rewrite the file constantly
+		const lastUsed = record.lastUsedAt ? new Date(record.lastUsedAt).getTime() : 0
+		if (Date.now() - lastUsed > 60_000) {
+			record.lastUsedAt = new Date().toISOString()
+			this.save()
+		}
+		return user
+	}
+
+	private pruneExpiredTokens(): void {
+		const now = Date.now()
+		this.state.tokens = this.state.tokens.filter((t) => !t.expiresAt || new Date(t.expiresAt).getTime() > now)
+	}
+}
+
+function validatePassword(password: string): void {
+	if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+		throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+	}
+}
+
+function toPublicUser(user: StoredUser): PublicUser {
+	const { passwordHash: _hash, ...rest } = user
+	return rest
+}
+
+function toPublicToken(token: StoredToken): PublicToken {
+	const { tokenHash: _hash, ...rest } = token
+	return rest
+}
+
+function toAuthUser(user: StoredUser, via: string): AuthUser {
+	return { id: user.id, username: user.username, role: user.role, projects: user.projects || [], via }
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/** Raw credentials extracted from an HTTP request or a Socket.IO handshake */
+export interface AuthCredentials {
+	authorization?: string
+	cookie?: string
+	/** Token passed outside the Authorization header (e.g. Socket.IO `auth.token`) */
+	token?: string
+}
+
+/**
+ * An authentication strategy. Providers are tried in registration order;
+ * the first one returning a user wins.
+ */
+export interface AuthProvider {
+	readonly name: string
+	authenticate(credentials: AuthCredentials): AuthUser | null
+}
+
+export const SESSION_COOKIE = "society_session"
+
+/** HTTP Basic authentication against local users */
+export class LocalPasswordProvider implements AuthProvider {
+	readonly name = "password"
+	constructor(private users: UserStore) {}
+
+	authenticate(credentials: AuthCredentials): AuthUser | null {
+		const header = credentials.authorization || ""
+		if (!/^basic /i.test(header)) return null
+		const decoded = Buffer.from(header.slice(6).trim(), "base64").toString("utf-8")
+		const sep = decoded.indexOf(":")
+		if (sep === -1) return null
+		const user = this.users.verifyCredentials(decoded.slice(0, sep), decoded.slice(sep + 1))
+		return user ? toAuthUser(user, this.name) : null
+	}
+}
+
+/** Bearer API tokens */
+export class ApiTokenProvider implements AuthProvider {
+	readonly name = "token"
+	constructor(private users: UserStore) {}
+
+	authenticate(credentials: AuthCredentials): AuthUser | null {
+		const header = credentials.authorization || ""
+		const token = /^bearer /i.test(header) ? header.slice(7).trim() : credentials.token
+		if (!token) return null
+		const user = this.users.resolveToken(token, "api")
+		return user ? toAuthUser(user, this.name) : null
+	}
+}
+
+/** Session cookie issued by POST /api/auth/login */
+export class SessionCookieProvider implements AuthProvider {
+	readonly name = "session"
+	constructor(private users: UserStore) {}
+
+	authenticate(credentials: AuthCredentials): AuthUser | null {
+		const token = parseCookies(credentials.cookie)[SESSION_COOKIE]
+		if (!token) return null
+		const user = this.users.resolveToken(token, "session")
+		return user ? toAuthUser(user, this.name) : null
+	}
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+	const cookies: Record<string, string> = {}
+	for (const part of (header || "").split(";")) {
+		const idx = part.indexOf("=")
+		if (idx === -1) continue
+		const key = part.slice(0, idx).trim()
+		if (!key) continue
+		try {
+			cookies[key] = decodeURIComponent(part.slice(idx + 1).trim())
+		} catch {
+			cookies[key] = part.slice(idx + 1).trim()
+		}
+	}
+	return cookies
+}
+
+// ============================================================================
+// Route policy
+// ============================================================================
+
+/** Routes reachable without credentials */
+const PUBLIC_ROUTES: Array<{ method?: string; pattern: RegExp }> = [
+	{ method: "POST", pattern: /^\/api\/auth\/login\/?$/ },
+	{ method: "GET", pattern: /^\/api\/auth\/status\/?$/ },
+	// Society Agent - peer servers authenticate with signatures instead of accounts
+	{ method: "GET", pattern: /^\/api\/federation\/identity\/?$/ },
+	{ method: "POST", pattern: /^\/api\/federation\/(exchange|inbox)\/?$/ },
+]
+
+/** Self-service routes every signed-in user may call regardless of method */
+const SELF_SERVICE_ROUTES: RegExp[] = [
+	/^\/api\/auth\/(me|logout|password)\/?$/,
+	/^\/api\/auth\/tokens(\/[^/]+)?\/?$/,
+]
+
+/** Routes that always require admin, whatever the method */
+const ADMIN_ROUTES: Array<{ method?: string; pattern: RegExp }> = [
+	{ pattern: /^\/api\/auth\/users(\/|$)/ },
+	{ pattern: /^\/api\/config(\/|$)/ },
+	{ pattern: /^\/api\/settings(\/|$)/ },
+	{ pattern: /^\/api\/system\/(pause|resume)\/?$/ },
+	{ pattern: /^\/api\/terminal(\/|$)/ },
+	{ pattern: /^\/api\/credentials(\/|$)/ },
+	{ pattern: /^\/api\/vault(\/|$)/ },
+	{ pattern: /^\/api\/workspace(\/|$)/ },
+	{ pattern: /^\/api\/queues(\/|$)/ },
+	{ pattern: /^\/api\/federation\/peers(\/|$)/ },
+	{ method: "POST", pattern: /^\/api\/mcps\// },
+	{ method: "POST", pattern: /^\/api\/projects\/?$/ },
+	{ method: "DELETE", pattern: /^\/api\/projects\/[^/]+\/?$/ },
+	{ method: "DELETE", pattern: /^\/api\/usage\/?$/ },
+	{ method: "POST", pattern: /^\/api\/projects\/[^/]+\/identities\// },
+]
+
+/**
+ * Minimum role required for a request, or null if the route is public.
+ * Reads are viewer-level, writes are operator-level, and server-wide
+ * configuration is admin-only.
+ */
+export function getRequiredRole(method: string, urlPath: string): UserRole | null {
+	const m = method.toUpperCase()
+	if (PUBLIC_ROUTES.some((r) => (!r.method || r.method === m) && r.pattern.test(urlPath))) return null
+	if (SELF_SERVICE_ROUTES.some((p) => p.test(urlPath))) return "viewer"
+	if (ADMIN_ROUTES.some((r) => (!r.method || r.method === m) && r.pattern.test(urlPath))) return "admin"
+	if (m === "GET" || m === "HEAD" || m === "OPTIONS") return "viewer"
+	return "operator"
+}
+
+/** True if the user may see and act on the given project */
+export function canAccessProject(user: AuthUser, projectId: string): boolean {
+	if (user.role === "admin") return true
+	return user.projects.includes("*") || user.projects.includes(projectId)
+}
+
+// ============================================================================
+// Auth Manager
+// ============================================================================
+
+export interface AuthManagerOptions {
+	/** When false every request is treated as the built-in local admin */
+	enabled: boolean
+	/** Lifetime of login sessions (default: 12 hours) */
+	sessionTtlMs?: number
+}
+
+/** Principal used for every request when authentication is disabled */
+const LOCAL_ADMIN: AuthUser = { id: "local", username: "local", role: "admin", projects: ["*"], via: "disabled" }
+
+export class AuthManager {
+	private providers: AuthProvider[] = []
+	/** Session tokens handed to HTTP Basic clients, by user ID */
+	private basicSessions = new Map<string, string>()
+	readonly enabled: boolean
+	readonly sessionTtlMs: number
+
+	constructor(readonly users: UserStore, options: AuthManagerOptions) {
+		this.enabled = options.enabled
+		this.sessionTtlMs = options.sessionTtlMs ?? 12 * 60 * 60 * 1000
+		this.registerProvider(new ApiTokenProvider(users))
+		this.registerProvider(new SessionCookieProvider(users))
+		this.registerProvider(new LocalPasswordProvider(users))
+	}
+
+	/** Add an authentication strategy (e.g. SSO or a reverse-proxy header) */
+	registerProvider(provider: AuthProvider): void {
+		this.providers = this.providers.filter((p) => p.name !== provider.name)
+		this.providers.push(provider)
+	}
+
+	getProviderNames(): string[] {
+		return this.providers.map((p) => p.name)
+	}
+
+	authenticate(credentials: AuthCredentials): AuthUser | null {
+		if (!this.enabled) return LOCAL_ADMIN
+		for (const provider of this.providers) {
+			try {
+				const user = provider.authenticate(credentials)
+				if (user) return user
+			} catch (error) {
+				log.warn(`[Auth] Provider ${provider.name} failed: ${error}`)
+			}
+		}
+		return null
+	}
+
+	/** Create a login session for a user and return the session token */
+	createSession(userId: string): string {
+		this.users.recordLogin(userId)
+		return this.users.createToken(userId, { name: "login session", kind: "session", expiresInMs: this.sessionTtlMs }).token
+	}
+
+	/**
+	 * Session for a user signed in with HTTP Basic. Reused until it expires or is
+	 * revoked, so clients sending credentials on every request get one session.
+	 */
+	basicAuthSession(userId: string): string {
+		const cached = this.basicSessions.get(userId)
+		if (cached && this.users.resolveToken(cached, "session")?.id === userId) return cached
+		const token = this.createSession(userId)
+		this.basicSessions.set(userId, token)
+		return token
+	}
+
+	/**
+	 * Make sure an admin exists. Uses SOCIETY_ADMIN_USER / SOCIETY_ADMIN_PASSWORD
+	 * when set; otherwise generates a password and logs it once.
+	 */
+	ensureAdminUser(env: NodeJS.ProcessEnv = process.env): void {
+		if (!this.enabled || this.users.hasUsers()) return
+		const username = env.SOCIETY_ADMIN_USER || "admin"
+		const configured = env.SOCIETY_ADMIN_PASSWORD
+		const password = configured || crypto.randomBytes(12).toString("base64url")
+		this.users.createUser({ username, password, role: "admin", projects: ["*"] })
+		if (configured) {
+			log.info(`[Auth] Created admin user "${username}" from SOCIETY_ADMIN_PASSWORD`)
+		} else {
+			log.warn(`[Auth] Created admin user "${username}" with generated password: ${password}`)
+			log.warn(`[Auth] Change it after signing in (POST /api/auth/password) or set SOCIETY_ADMIN_PASSWORD`)
+		}
+	}
+}
+
+// ============================================================================
+// Express middleware
+// ============================================================================
+
+export function credentialsFromRequest(req: Request): AuthCredentials {
+	return {
+		authorization: req.headers.authorization,
+		cookie: req.headers.cookie,
+	}
+}
+
+export function sessionCookieHeader(token: string, maxAgeMs: number): string {
+	return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${Math.floor(maxAgeMs / 1000)}`
+}
+
+export function clearSessionCookieHeader(): string {
+	return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`
+}
+
+/**
+ * Create the middleware enforcing authentication, roles and project membership
+ * on every route. `resolveProjectId` maps a request to the project it touches
+ * (or undefined for server-wide routes, "*" for routes needing every project).
+ */
+export function createAuthMiddleware(
+	auth: AuthManager,
+	resolveProjectId: (req: Request) => string | undefined,
+): (req: Request, res: Response, next: NextFunction) => void {
+	return (req, res, next) => {
+		const required = getRequiredRole(req.method, req.path)
+		if (required === null) {
+			next()
+			return
+		}
+
+		const user = auth.authenticate(credentialsFromRequest(req))
+		if (!user) {
+			res.setHeader("WWW-Authenticate", 'Basic realm="Society Agent", charset="UTF-8"')
+			res.status(401).json({ error: "Authentication required" })
+			return
+		}
+		req.authUser = user
+
+		// Browsers signed in with Basic auth also get a session cookie so Socket.IO can authenticate.
+		// A valid session cookie wins over Basic, so this only runs for requests without one.
+		if (user.via === "password") {
+			res.append("Set-Cookie", sessionCookieHeader(auth.basicAuthSession(user.id), auth.sessionTtlMs))
+		}
+
+		if (!roleAtLeast(user.role, required)) {
+			res.status(403).json({ error: `Requires ${required} role`, role: user.role })
+			return
+		}
+
+		const projectId = resolveProjectId(req)
+		if (projectId && !canAccessProject(user, projectId)) {
+			res.status(403).json({ error: projectId === "*" ? "Requires access to all projects" : `Not a member of project ${projectId}` })
+			return
+		}
+		next()
+	}
+}
@@ -18,6 +18,9 @@
  * 3. TIMEOUT: Commands have configurable timeouts to prevent runaway processes.
  * 
  * 4. AUDIT: All commands are logged with full output for review.
+ *
+ * 5. SANDBOX (optional): With options.sandbox the command runs under bubblewrap,
+ *    confined to the agent's home folder (see execution-sandbox.ts).
  * 
  * The "command injection" alert from CodeQL is a known false positive -
  * command execution IS the feature, not a vulnerability.
@@ -26,6 +29,7 @@
 import { spawn, ChildProcess } from "child_process"
 import * as path from "path"
 import * as fs from "fs"
+import { type SandboxSpec, effectiveTimeout, wrapShellCommand } from "./execution-sandbox"
 
 export interface CommandResult {
 	id: string
@@ -47,6 +51,7 @@ export interface ExecuteCommandOptions {
 	backgroundWaitMs?: number // How long to wait for initial output (default 3000ms)
 	onOutput?: (data: string, type: "stdout" | "stderr") => void
 	onExit?: (code: number) => void
+	sandbox?: SandboxSpec // Execution backend; runs on the host when omitted
 }
 
 export class CommandExecutor {
@@ -100,14 +105,24 @@ export class CommandExecutor {
 			startedAt: Date.now(),
 		}
 
+		// Society Agent start - sandboxed execution backend
+		const sandbox = options.sandbox?.settings.backend === "sandbox"
+			? { ...options.sandbox, env: { ...options.sandbox.env, ...options.env } }
+			: undefined
+		const wrapped = sandbox ? wrapShellCommand(normalizedCommand, sandbox) : undefined
+		const timeout = options.timeout && options.sandbox ? effectiveTimeout(options.timeout, options.sandbox.settings) : options.timeout
+		// Society Agent end
+
 		return new Promise((resolve, reject) => {
 			// Spawn process - command execution is the core feature, see SECURITY MODEL above
 			// lgtm[js/command-line-injection] - intentional: agents need to run shell commands
-			const child = spawn(normalizedCommand, [], {
-				cwd,
-				shell: true,
-				env: { ...process.env, ...options.env },
-			})
+			const child = wrapped
+				? spawn(wrapped.file, wrapped.args, { cwd })
+				: spawn(normalizedCommand, [], {
+						cwd,
+						shell: true,
+						env: { ...process.env, ...options.env },
+					})
 
 			this.runningCommands.set(commandId, child)
 
@@ -173,14 +188,14 @@ export class CommandExecutor {
 			}
 
 			// Handle timeout
-			if (options.timeout) {
+			if (timeout) {
 				setTimeout(() => {
 					if (this.runningCommands.has(commandId)) {
 						child.kill("SIGTERM")
 						result.error = "Command timeout"
 						reject(new Error("Command execution timeout"))
 					}
-				}, options.timeout)
+				}, timeout)
 			}
 		})
 	}
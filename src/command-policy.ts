@@ -0,0 +1,506 @@
+// Society Agent - new file
+/**
+ * Command Policy
+ *
+ * Allow/deny rules for the shell commands agents run with run_command and
+ * scheduled command tasks. Rules are matched on parsed argv, not on the raw
+ * string, so quoting, extra whitespace, `VAR=x` prefixes and wrappers such as
+ * `sudo`, `env` or `bash -c "..."` do not get around them.
+ *
+ * A command line is split into simple commands (on ;, &&, ||, |, &, newlines,
+ * subshells and $(...) substitutions). Each simple command takes the action of
+ * the first rule that matches it (project rules first, then the built-in rules),
+ * or the policy's defaultAction. The command line as a whole gets the most
+ * restrictive action of its parts: deny > require-approval > allow.
+ *
+ * Policies live in projects/.society/command-policies/<projectId>.json, outside
+ * the project folder so agents cannot edit their own policy.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { sanitizeFilename } from "./security-utils"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PolicyAction = "allow" | "deny" | "require-approval"
+
+export const POLICY_ACTIONS: PolicyAction[] = ["allow", "deny", "require-approval"]
+
+/** A pattern, or a list of alternatives. Patterns support * and ? wildcards; \* and \? match them literally. */
+export type PatternList = string | string[]
+
+export interface CommandRule {
+	/** Stable ID (used in approvals and permanent grants) */
+	id: string
+	action: PolicyAction
+	/** Program name(s), matched against the basename of argv[0] */
+	command: PatternList
+	/** Positional arguments that must all be present (each entry may list alternatives) */
+	args?: PatternList[]
+	/** Flags that must all be present; `-rf` counts as `-r` and `-f`, `--x=y` as `--x` */
+	flags?: PatternList[]
+	/** The command's output is piped into one of these programs */
+	pipeTo?: PatternList
+	/** Shown to the agent and the approver */
+	reason?: string
+}
+
+export interface CommandPolicy {
+	/** Action for commands no rule matches (default "allow") */
+	defaultAction?: PolicyAction
+	/** Apply DEFAULT_COMMAND_RULES after the project's rules (default true) */
+	inheritDefaults?: boolean
+	rules: CommandRule[]
+}
+
+/** One simple command from a command line */
+export interface ParsedCommand {
+	/** Basename of argv[0] */
+	program: string
+	/** Arguments after stripping assignments and wrappers (argv[0] is the program) */
+	argv: string[]
+	/** Programs later in the same pipeline */
+	pipedTo: string[]
+}
+
+export interface PolicyDecision {
+	action: PolicyAction
+	/** The rule that decided, if any */
+	rule?: CommandRule
+	/** The simple command that decided, joined with spaces */
+	segment?: string
+	reason: string
+}
+
+/** Built-in rules, applied after the project's own rules unless inheritDefaults is false */
+export const DEFAULT_COMMAND_RULES: CommandRule[] = [
+	{
+		id: "deny-rm-root",
+		action: "deny",
+		command: "rm",
+		flags: [["-r", "-R", "--recursive"]],
+		// Literal globs only: "/\\*" is the word `/*`, not any absolute path
+		args: [["/", "/\\*", "~", "~/", "~/\\*", "$HOME", "$HOME/", "$HOME/\\*", "${HOME}", "${HOME}/", "${HOME}/\\*"]],
+		reason: "Recursive delete of the filesystem root or home directory",
+	},
+	{
+		id: "deny-pipe-to-shell",
+		action: "deny",
+		command: ["curl", "wget"],
+		pipeTo: ["sh", "bash", "zsh", "dash", "ksh", "fish"],
+		reason: "Piping a downloaded script straight into a shell",
+	},
+	{
+		id: "deny-git-force-push",
+		action: "deny",
+		command: "git",
+		args: ["push"],
+		flags: [["--force", "-f"]],
+		reason: "Force-pushing rewrites shared history",
+	},
+	{
+		id: "deny-git-force-refspec",
+		action: "deny",
+		command: "git",
+		args: ["push", "+*"],
+		reason: "Force-pushing rewrites shared history",
+	},
+	{
+		id: "approve-package-publish",
+		action: "require-approval",
+		command: ["npm", "pnpm", "yarn"],
+		args: ["publish"],
+		reason: "Publishing a package to a registry",
+	},
+]
+
+const SEVERITY: Record<PolicyAction, number> = { allow: 0, "require-approval": 1, deny: 2 }
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** Command wrappers that run their arguments as a command, with the options that take a value */
+const WRAPPERS: Record<string, string[]> = {
+	sudo: ["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U"],
+	doas: ["-u", "-C"],
+	env: ["-u", "-C", "-S", "--unset", "--chdir"],
+	nohup: [],
+	time: ["-f", "-o"],
+	exec: ["-a"],
+	command: [],
+	builtin: [],
+	nice: ["-n"],
+	ionice: ["-c", "-n", "-p"],
+	timeout: ["-s", "-k", "--signal", "--kill-after"],
+	xargs: ["-a", "-d", "-E", "-I", "-L", "-n", "-P", "-s"],
+	stdbuf: ["-i", "-o", "-e"],
+}
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh"])
+
+/** Reserved words that open or continue a compound command; the command after them still runs */
+const RESERVED_WORDS = new Set(["if", "then", "else", "elif", "fi", "do", "done", "while", "until", "!", "{", "}", "esac"])
+/** Reserved words whose words up to the next ";" are a loop variable, list or case word, not a command */
+const HEADER_WORDS = new Set(["for", "select", "case"])
+
+type Token = { kind: "word"; value: string } | { kind: "op"; value: string }
+
+/** Read a balanced $( ... ) starting after the "(", returning its content and the index after ")" */
+function readSubstitution(input: string, start: number): [string, number] {
+	let depth = 1
+	let i = start
+	let quote: string | null = null
+	while (i < input.length) {
+		const ch = input[i]
+		if (quote) {
+			if (ch === "\\" && quote === '"') i++
+			else if (ch === quote) quote = null
+		} else if (ch === "'" || ch === '"') quote = ch
+		else if (ch === "\\") i++
+		else if (ch === "(") depth++
+		else if (ch === ")" && --depth === 0) return [input.slice(start, i), i + 1]
+		i++
+	}
+	return [input.slice(start), input.length]
+}
+
+/**
+ * Split a command line into words and control operators, like bash would.
+ * Command substitutions are collected into `nested` for separate parsing.
+ */
+function tokenize(input: string, nested: string[]): Token[] {
+	const tokens: Token[] = []
+	let word = ""
+	let inWord = false
+	let skipNextWord = false
+	let i = 0
+
+	const endWord = () => {
+		if (inWord) {
+			if (skipNextWord) skipNextWord = false
+			else tokens.push({ kind: "word", value: word })
+		}
+		word = ""
+		inWord = false
+	}
+	const pushOp = (value: string) => {
+		endWord()
+		skipNextWord = false
+		tokens.push({ kind: "op", value })
+	}
+
+	while (i < input.length) {
+		const ch = input[i]
+		const next = input[i + 1]
+
+		if (ch === " " || ch === "\t") {
+			endWord()
+			i++
+		} else if (ch === "\n" || ch === ";" || ch === "(" || ch === ")" || (!inWord && (ch === "}" || (ch === "{" && /\s/.test(next || " "))))) {
+			pushOp(";")
+			i++
+		} else if (ch === "#" && !inWord) {
+			while (i < input.length && input[i] !== "\n") i++
+		} else if (ch === "|" || (ch === "&" && next !== ">")) {
+			const double = next === ch || (ch === "|" && next === "&")
+			pushOp(next === ch ? ch + ch : ch)
+			i += double ? 2 : 1
+		} else if (ch === ">" || ch === "<" || (ch === "&" && next === ">")) {
+			// Redirection: drop a leading fd number and the target word
+			if (inWord && /^\d+$/.test(word)) {
+				word = ""
+				inWord = false
+			}
+			endWord()
+			i++
+			while (i < input.length && (input[i] === ">" || input[i] === "<")) i++
+			if (input[i] === "(") {
+				// Process substitution <(...) / >(...)
+				const [inner, after] = readSubstitution(input, i + 1)
+				nested.push(inner)
+				i = after
+			} else if (input[i] === "&") {
+				i++
+				while (i < input.length && /[\d-]/.test(input[i])) i++
+			} else {
+				skipNextWord = true
+			}
+		} else if (ch === "'") {
+			inWord = true
+			const end = input.indexOf("'", i + 1)
+			word += input.slice(i + 1, end === -1 ? input.length : end)
+			i = end === -1 ? input.length : end + 1
+		} else if (ch === '"') {
+			inWord = true
+			i++
+			while (i < input.length && input[i] !== '"') {
+				if (input[i] === "\\" && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) {
+					word += input[i + 1]
+					i += 2
+				} else if (input[i] === "$" && input[i + 1] === "(") {
+					const [inner, after] = readSubstitution(input, i + 2)
+					nested.push(inner)
+					word += `$(${inner})`
+					i = after
+				} else if (input[i] === "`") {
+					const end = input.indexOf("`", i + 1)
+					nested.push(input.slice(i + 1, end === -1 ? input.length : end))
+					i = end === -1 ? input.length : end + 1
+				} else {
+					word += input[i++]
+				}
+			}
+			i++
+		} else if (ch === "\\") {
+			// A backslash-newline is a line continuation, not part of a word
+			if (next !== "\n" && next !== undefined) {
+				inWord = true
+				word += next
+			}
+			i += 2
+		} else if (ch === "$" && next === "(") {
+			inWord = true
+			const [inner, after] = readSubstitution(input, i + 2)
+			nested.push(inner)
+			word += `$(${inner})`
+			i = after
+		} else if (ch === "`") {
+			inWord = true
+			const end = input.indexOf("`", i + 1)
+			nested.push(input.slice(i + 1, end === -1 ? input.length : end))
+			i = end === -1 ? input.length : end + 1
+		} else {
+			inWord = true
+			word += ch
+			i++
+		}
+	}
+	endWord()
+	return tokens
+}
+
+/**
+ * Strip variable assignments, reserved words (if, then, do, ...) and command
+ * wrappers (sudo, env, nohup, ...) from argv
+ */
+function unwrap(argv: string[]): string[] {
+	let args = argv
+	for (;;) {
+		while (args.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(args[0])) args = args.slice(1)
+		if (args.length > 0 && RESERVED_WORDS.has(args[0])) {
+			args = args.slice(1)
+			continue
+		}
+		if (args.length > 0 && HEADER_WORDS.has(args[0])) return []
+		const name = args.length > 0 ? path.basename(args[0]) : ""
+		const valueOptions = WRAPPERS[name]
+		if (!valueOptions) return args
+		let i = 1
+		while (i < args.length && args[i].startsWith("-")) {
+			if (args[i] === "--") {
+				i++
+				break
+			}
+			i += valueOptions.includes(args[i]) ? 2 : 1
+		}
+		// timeout takes a duration before the command
+		if (name === "timeout" && i < args.length) i++
+		args = args.slice(i)
+	}
+}
+
+/**
+ * Parse a command line into its simple commands. `bash -c "..."`, subshells and
+ * command substitutions are parsed too, so their contents are checked as well.
+ */
+export function parseCommandLine(command: string, depth = 0): ParsedCommand[] {
+	const nested: string[] = []
+	const tokens = tokenize(command, nested)
+	const commands: ParsedCommand[] = []
+
+	let pipeline: ParsedCommand[] = []
+	let words: string[] = []
+	const endCommand = (op: string) => {
+		const argv = unwrap(words)
+		words = []
+		if (argv.length > 0) {
+			const parsed: ParsedCommand = { program: path.basename(argv[0]), argv, pipedTo: [] }
+			for (const earlier of pipeline) earlier.pipedTo.push(parsed.program)
+			pipeline.push(parsed)
+			commands.push(parsed)
+			// Scripts run by `bash -c "..."` (or -lc, -ec, ...) and eval are commands too
+			const scriptFlag = argv.findIndex((arg, i) => i > 0 && /^-[A-Za-z]*c[A-Za-z]*$/.test(arg))
+			if (SHELLS.has(parsed.program) && scriptFlag !== -1 && argv[scriptFlag + 1] !== undefined) nested.push(argv[scriptFlag + 1])
+			if (parsed.program === "eval") nested.push(argv.slice(1).join(" "))
+		}
+		if (op !== "|") pipeline = []
+	}
+
+	for (const token of tokens) {
+		if (token.kind === "word") words.push(token.value)
+		else endCommand(token.value)
+	}
+	endCommand(";")
+
+	if (depth < 5) {
+		for (const inner of nested) commands.push(...parseCommandLine(inner, depth + 1))
+	}
+	return commands
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function toList(patterns: PatternList): string[] {
+	return Array.isArray(patterns) ? patterns : [patterns]
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+	if (!/[*?\\]/.test(pattern)) return pattern === value
+	let regex = ""
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i]
+		if (ch === "\\" && (pattern[i + 1] === "*" || pattern[i + 1] === "?" || pattern[i + 1] === "\\")) regex += `\\${pattern[++i]}`
+		else if (ch === "*") regex += ".*"
+		else if (ch === "?") regex += "."
+		else regex += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+	}
+	return new RegExp(`^${regex}$`).test(value)
+}
+
+function matchesAny(patterns: PatternList, value: string): boolean {
+	return toList(patterns).some((pattern) => matchesPattern(pattern, value))
+}
+
+/** Split arguments into positionals and flags (with short-flag clusters expanded) */
+function splitArgs(argv: string[]): { positionals: string[]; flags: Set<string> } {
+	const positionals: string[] = []
+	const flags = new Set<string>()
+	let endOfFlags = false
+	for (const arg of argv.slice(1)) {
+		if (endOfFlags || arg === "-" || !arg.startsWith("-")) {
+			positionals.push(arg)
+		} else if (arg === "--") {
+			endOfFlags = true
+		} else if (arg.startsWith("--")) {
+			flags.add(arg.split("=")[0])
+		} else {
+			flags.add(arg)
+			if (/^-[A-Za-z]{2,}$/.test(arg)) {
+				for (const letter of arg.slice(1)) flags.add(`-${letter}`)
+			}
+		}
+	}
+	return { positionals, flags }
+}
+
+/** True if the rule applies to this simple command */
+export function ruleMatches(rule: CommandRule, command: ParsedCommand): boolean {
+	if (!matchesAny(rule.command, command.program)) return false
+	const { positionals, flags } = splitArgs(command.argv)
+	if (rule.args && !rule.args.every((arg) => positionals.some((value) => matchesAny(arg, value)))) return false
+	if (rule.flags && !rule.flags.every((flag) => toList(flag).some((f) => flags.has(f)))) return false
+	if (rule.pipeTo && !command.pipedTo.some((program) => matchesAny(rule.pipeTo!, program))) return false
+	return true
+}
+
+/** Decide what to do with a command line under a policy (built-in rules only when policy is undefined) */
+export function evaluateCommand(command: string, policy?: CommandPolicy): PolicyDecision {
+	const rules = [...(policy?.rules || []), ...(policy?.inheritDefaults === false ? [] : DEFAULT_COMMAND_RULES)]
+	const defaultAction = policy?.defaultAction || "allow"
+
+	let decision: PolicyDecision = { action: "allow", reason: "No rule matched" }
+	let first = true
+	for (const parsed of parseCommandLine(command)) {
+		const rule = rules.find((r) => ruleMatches(r, parsed))
+		const action = rule ? rule.action : defaultAction
+		if (first || SEVERITY[action] > SEVERITY[decision.action]) {
+			decision = {
+				action,
+				rule,
+				segment: parsed.argv.join(" "),
+				reason: rule ? rule.reason || `Matched rule "${rule.id}"` : `No rule matched (default: ${defaultAction})`,
+			}
+			first = false
+		}
+	}
+	return decision
+}
+
+// ============================================================================
+// Validation and storage
+// ============================================================================
+
+function isPatternList(value: unknown): boolean {
+	if (typeof value === "string") return value.length > 0
+	return Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "string" && v.length > 0)
+}
+
+/** Validate a policy from an API body or file. Returns an error message or null. */
+export function validateCommandPolicy(value: unknown): string | null {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) return "Policy must be an object"
+	const policy = value as Record<string, unknown>
+	if (policy.defaultAction !== undefined && !POLICY_ACTIONS.includes(policy.defaultAction as PolicyAction)) {
+		return `defaultAction must be one of: ${POLICY_ACTIONS.join(", ")}`
+	}
+	if (policy.inheritDefaults !== undefined && typeof policy.inheritDefaults !== "boolean") return "inheritDefaults must be a boolean"
+	if (!Array.isArray(policy.rules)) return "rules must be an array"
+
+	const ids = new Set<string>()
+	for (const [index, rule] of (policy.rules as any[]).entries()) {
+		const label = `rules[${index}]`
+		if (typeof rule !== "object" || rule === null) return `${label} must be an object`
+		if (typeof rule.id !== "string" || !rule.id.trim()) return `${label}.id is required`
+		if (ids.has(rule.id)) return `Duplicate rule id: ${rule.id}`
+		ids.add(rule.id)
+		if (!POLICY_ACTIONS.includes(rule.action)) return `${label}.action must be one of: ${POLICY_ACTIONS.join(", ")}`
+		if (!isPatternList(rule.command)) return `${label}.command must be a program name or a list of names`
+		for (const key of ["args", "flags"] as const) {
+			if (rule[key] !== undefined && (!Array.isArray(rule[key]) || !rule[key].every(isPatternList))) {
+				return `${label}.${key} must be an array of patterns (or lists of alternatives)`
+			}
+		}
+		if (rule.pipeTo !== undefined && !isPatternList(rule.pipeTo)) return `${label}.pipeTo must be a program name or a list of names`
+		if (rule.reason !== undefined && typeof rule.reason !== "string") return `${label}.reason must be a string`
+	}
+	return null
+}
+
+/** Per-project policy files in one directory */
+export class CommandPolicyStore {
+	constructor(private dir: string) {}
+
+	policyPath(projectId: string): string {
+		return path.join(this.dir, `${sanitizeFilename(projectId)}.json`)
+	}
+
+	/**
+	 * Read a project's policy (undefined if it has none). Read on every call so
+	 * edits to the file apply immediately. Throws if the file is not a valid policy.
+	 */
+	get(projectId: string): CommandPolicy | undefined {
+		const file = this.policyPath(projectId)
+		if (!fs.existsSync(file)) return undefined
+		const policy = JSON.parse(fs.readFileSync(file, "utf-8"))
+		const error = validateCommandPolicy(policy)
+		if (error) throw new Error(`Invalid command policy ${file}: ${error}`)
+		return policy
+	}
+
+	set(projectId: string, policy: CommandPolicy): void {
+		fs.mkdirSync(this.dir, { recursive: true })
+		fs.writeFileSync(this.policyPath(projectId), JSON.stringify(policy, null, 2), "utf-8")
+	}
+
+	delete(projectId: string): boolean {
+		const file = this.policyPath(projectId)
+		if (!fs.existsSync(file)) return false
+		fs.unlinkSync(file)
+		return true
+	}
+}
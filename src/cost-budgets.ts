@@ -0,0 +1,462 @@
+// Society Agent - new file
+/**
+ * Cost Budgets
+ *
+ * Hard spending limits for LLM calls, enforced before every model request.
+ *
+ * Limits can be set at three scopes - the whole server, a project, or a single
+ * agent in a project - and for three periods:
+ * - daily:   spend since local midnight
+ * - monthly: spend since the first of the month (local time)
+ * - perTask: spend attributed to one task (ManagedTask ID or pool task ID)
+ *
+ * Every scope is checked; the first limit that has been reached wins. An approved
+ * override raises one limit for the current period only (today, this month, or
+ * the one task), so a runaway agent cannot keep spending past the next boundary.
+ *
+ * Limits, overrides and the current spend counters are stored in
+ * projects/.society/budgets.json so a restart does not reset today's spend.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BudgetScope = "server" | "project" | "agent"
+
+export type BudgetPeriod = "daily" | "monthly" | "perTask"
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "monthly", "perTask"]
+
+/** Limits in USD for one scope. Unset or null means unlimited. */
+export interface BudgetLimits {
+	dailyUsd?: number | null
+	monthlyUsd?: number | null
+	perTaskUsd?: number | null
+}
+
+/** Who is spending: used both to record spend and to check limits */
+export interface BudgetSubject {
+	projectId: string
+	agentId: string
+	/** Task the spend is attributed to (required for perTask limits) */
+	taskId?: string
+}
+
+/** Extra allowance granted for one limit in one period */
+export interface BudgetOverride {
+	scope: BudgetScope
+	/** "" for server, projectId for project, projectId/agentId for agent */
+	target: string
+	period: BudgetPeriod
+	/** Day (YYYY-MM-DD), month (YYYY-MM) or task ID the override applies to */
+	periodKey: string
+	extraUsd: number
+	grantedBy: string
+	grantedAt: string
+	approvalId?: string
+}
+
+/** A limit that has been reached */
+export interface BudgetBreach {
+	scope: BudgetScope
+	target: string
+	period: BudgetPeriod
+	periodKey: string
+	/** Configured limit plus any approved overrides */
+	limitUsd: number
+	spentUsd: number
+	projectId: string
+	agentId: string
+	taskId?: string
+}
+
+/** Current spend against one configured limit */
+export interface BudgetStatusEntry {
+	scope: BudgetScope
+	target: string
+	period: BudgetPeriod
+	periodKey: string
+	limitUsd: number
+	spentUsd: number
+	remainingUsd: number
+	exceeded: boolean
+}
+
+interface BudgetState {
+	server: BudgetLimits
+	/** Keyed by projectId */
+	projects: Record<string, BudgetLimits>
+	/** Keyed by projectId/agentId */
+	agents: Record<string, BudgetLimits>
+	overrides: BudgetOverride[]
+	/** Spend counters keyed by counterKey() */
+	spend: Record<string, { usd: number; updatedAt: string }>
+	version: number
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const LIMIT_FIELDS: Record<BudgetPeriod, keyof BudgetLimits> = {
+	daily: "dailyUsd",
+	monthly: "monthlyUsd",
+	perTask: "perTaskUsd",
+}
+
+/** Per-task counters are kept this long after their last update */
+const TASK_COUNTER_RETENTION_MS = 60 * 24 * 60 * 60 * 1000
+
+/** Debounce for persisting spend counters */
+const SAVE_DELAY_MS = 2000
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0")
+}
+
+/** Local-time day key (YYYY-MM-DD) */
+export function dayKey(date: Date): string {
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/** Local-time month key (YYYY-MM) */
+export function monthKey(date: Date): string {
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`
+}
+
+function agentTarget(projectId: string, agentId: string): string {
+	return `${projectId}/${agentId}`
+}
+
+function targetFor(scope: BudgetScope, subject: BudgetSubject): string {
+	if (scope === "server") return ""
+	if (scope === "project") return subject.projectId
+	return agentTarget(subject.projectId, subject.agentId)
+}
+
+/**
+ * Period key for a subject, or undefined when the period does not apply
+ * (perTask without a task).
+ */
+function periodKeyFor(period: BudgetPeriod, subject: BudgetSubject, now: Date): string | undefined {
+	if (period === "daily") return dayKey(now)
+	if (period === "monthly") return monthKey(now)
+	return subject.taskId
+}
+
+function counterKey(scope: BudgetScope, target: string, period: BudgetPeriod, periodKey: string, projectId: string): string {
+	// Task spend is the same whichever scope's limit is checked against it, except
+	// that agent scope only counts the agent's own calls.
+	if (period === "perTask" && scope !== "agent") return `task|${projectId}|${periodKey}`
+	return `${scope}|${target}|${period}|${periodKey}`
+}
+
+/** Validate a limits object from user input. Returns an error message or null. */
+export function validateBudgetLimits(limits: unknown): string | null {
+	if (!limits || typeof limits !== "object" || Array.isArray(limits)) return "Limits must be an object"
+	for (const [key, value] of Object.entries(limits as Record<string, unknown>)) {
+		if (!Object.values(LIMIT_FIELDS).includes(key as keyof BudgetLimits)) {
+			return `Unknown limit "${key}" (expected dailyUsd, monthlyUsd or perTaskUsd)`
+		}
+		if (value === null || value === undefined) continue
+		if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+			return `${key} must be a non-negative number or null`
+		}
+	}
+	return null
+}
+
+/** One-line description of a breach for messages and approval summaries */
+export function describeBudgetBreach(breach: BudgetBreach): string {
+	const where =
+		breach.scope === "server" ? "Server" : breach.scope === "project" ? `Project ${breach.projectId}` : `Agent ${breach.agentId}`
+	const period =
+		breach.period === "daily" ? `daily (${breach.periodKey})` : breach.period === "monthly" ? `monthly (${breach.periodKey})` : `per-task (${breach.periodKey})`
+	return `${where} ${period} budget reached: $${breach.spentUsd.toFixed(4)} of $${breach.limitUsd.toFixed(2)}`
+}
+
+// ============================================================================
+// Budget manager
+// ============================================================================
+
+export class CostBudgetManager {
+	private state: BudgetState = { server: {}, projects: {}, agents: {}, overrides: [], spend: {}, version: 1 }
+	private saveTimer: NodeJS.Timeout | null = null
+
+	constructor(private storePath: string) {
+		this.load()
+	}
+
+	private load(): void {
+		try {
+			if (fs.existsSync(this.storePath)) {
+				const data = JSON.parse(fs.readFileSync(this.storePath, "utf-8"))
+				this.state = {
+					server: data.server || {},
+					projects: data.projects || {},
+					agents: data.agents || {},
+					overrides: data.overrides || [],
+					spend: data.spend || {},
+					version: data.version || 1,
+				}
+			}
+		} catch (error) {
+			log.error("[Budgets] Error loading budgets:", error)
+		}
+	}
+
+	private save(): void {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer)
+			this.saveTimer = null
+		}
+		try {
+			fs.mkdirSync(path.dirname(this.storePath), { recursive: true })
+			fs.writeFileSync(this.storePath, JSON.stringify(this.state, null, 2), "utf-8")
+		} catch (error) {
+			log.error("[Budgets] Error saving budgets:", error)
+		}
+	}
+
+	/** Spend is recorded on every LLM call, so batch those writes */
+	private scheduleSave(): void {
+		if (this.saveTimer) return
+		this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS)
+		this.saveTimer.unref?.()
+	}
+
+	/** Write pending spend counters to disk now (e.g. on shutdown) */
+	flush(): void {
+		if (this.saveTimer) this.save()
+	}
+
+	/** Drop counters and overrides for periods that have ended */
+	private prune(now: Date): void {
+		const today = dayKey(now)
+		const month = monthKey(now)
+		const isCurrent = (period: BudgetPeriod, key: string, updatedAt: string): boolean => {
+			if (period === "daily") return key === today
+			if (period === "monthly") return key === month
+			return now.getTime() - new Date(updatedAt).getTime() < TASK_COUNTER_RETENTION_MS
+		}
+		for (const [key, counter] of Object.entries(this.state.spend)) {
+			const parts = key.split("|")
+			const period: BudgetPeriod = parts[0] === "task" ? "perTask" : (parts[2] as BudgetPeriod)
+			const periodKey = parts[parts.length - 1]
+			if (!isCurrent(period, periodKey, counter.updatedAt)) delete this.state.spend[key]
+		}
+		this.state.overrides = this.state.overrides.filter((o) => isCurrent(o.period, o.periodKey, o.grantedAt))
+	}
+
+	// ========================================================================
+	// Limits
+	// ========================================================================
+
+	getServerLimits(): BudgetLimits {
+		return { ...this.state.server }
+	}
+
+	getProjectLimits(projectId: string): BudgetLimits {
+		return { ...(this.state.projects[projectId] || {}) }
+	}
+
+	getAgentLimits(projectId: string, agentId: string): BudgetLimits {
+		return { ...(this.state.agents[agentTarget(projectId, agentId)] || {}) }
+	}
+
+	/** All configured limits */
+	getConfig(): { server: BudgetLimits; projects: Record<string, BudgetLimits>; agents: Record<string, BudgetLimits> } {
+		return {
+			server: { ...this.state.server },
+			projects: { ...this.state.projects },
+			agents: { ...this.state.agents },
+		}
+	}
+
+	/**
+	 * Set limits for a scope. Fields that are present replace the current value;
+	 * null clears a limit. Throws on invalid input.
+	 */
+	setLimits(scope: BudgetScope, limits: BudgetLimits, projectId?: string, agentId?: string): BudgetLimits {
+		const error = validateBudgetLimits(limits)
+		if (error) throw new Error(error)
+		if (scope !== "server" && !projectId) throw new Error("projectId is required")
+		if (scope === "agent" && !agentId) throw new Error("agentId is required")
+
+		const current =
+			scope === "server"
+				? this.state.server
+				: scope === "project"
+					? this.state.projects[projectId!] || {}
+					: this.state.agents[agentTarget(projectId!, agentId!)] || {}
+		const merged: BudgetLimits = { ...current }
+		for (const field of Object.values(LIMIT_FIELDS)) {
+			if (!(field in limits)) continue
+			const value = limits[field]
+			if (value === null || value === undefined) delete merged[field]
+			else merged[field] = value
+		}
+
+		if (scope === "server") {
+			this.state.server = merged
+		} else if (scope === "project") {
+			if (Object.keys(merged).length > 0) this.state.projects[projectId!] = merged
+			else delete this.state.projects[projectId!]
+		} else {
+			const key = agentTarget(projectId!, agentId!)
+			if (Object.keys(merged).length > 0) this.state.agents[key] = merged
+			else delete this.state.agents[key]
+		}
+		this.save()
+		log.info(`[Budgets] ${scope}${projectId ? ` ${projectId}` : ""}${agentId ? `/${agentId}` : ""} limits set to ${JSON.stringify(merged)}`)
+		return { ...merged }
+	}
+
+	/** Remove all limits for a project (and its agents), e.g. when the project is deleted */
+	removeProject(projectId: string): void {
+		delete this.state.projects[projectId]
+		for (const key of Object.keys(this.state.agents)) {
+			if (key.startsWith(`${projectId}/`)) delete this.state.agents[key]
+		}
+		this.save()
+	}
+
+	private limitsFor(scope: BudgetScope, target: string): BudgetLimits {
+		if (scope === "server") return this.state.server
+		if (scope === "project") return this.state.projects[target] || {}
+		return this.state.agents[target] || {}
+	}
+
+	// ========================================================================
+	// Spend
+	// ========================================================================
+
+	/** Add the cost of one LLM call to every counter it counts towards */
+	recordSpend(subject: BudgetSubject, costUsd: number, now: Date = new Date()): void {
+		if (!(costUsd > 0)) return
+		this.prune(now)
+		const updatedAt = now.toISOString()
+		const keys = new Set<string>()
+		for (const scope of ["server", "project", "agent"] as BudgetScope[]) {
+			const target = targetFor(scope, subject)
+			for (const period of BUDGET_PERIODS) {
+				const periodKey = periodKeyFor(period, subject, now)
+				if (periodKey) keys.add(counterKey(scope, target, period, periodKey, subject.projectId))
+			}
+		}
+		for (const key of keys) {
+			const counter = this.state.spend[key] || { usd: 0, updatedAt }
+			counter.usd += costUsd
+			counter.updatedAt = updatedAt
+			this.state.spend[key] = counter
+		}
+		this.scheduleSave()
+	}
+
+	/** Spend so far for one scope and period */
+	getSpend(scope: BudgetScope, subject: BudgetSubject, period: BudgetPeriod, now: Date = new Date()): number {
+		const periodKey = periodKeyFor(period, subject, now)
+		if (!periodKey) return 0
+		return this.state.spend[counterKey(scope, targetFor(scope, subject), period, periodKey, subject.projectId)]?.usd || 0
+	}
+
+	private overrideTotal(scope: BudgetScope, target: string, period: BudgetPeriod, periodKey: string): number {
+		return this.state.overrides
+			.filter((o) => o.scope === scope && o.target === target && o.period === period && o.periodKey === periodKey)
+			.reduce((sum, o) => sum + o.extraUsd, 0)
+	}
+
+	// ========================================================================
+	// Enforcement
+	// ========================================================================
+
+	/**
+	 * Check every applicable limit for a subject. Returns the first limit that
+	 * has been reached (server before project before agent), or null.
+	 */
+	check(subject: BudgetSubject, now: Date = new Date()): BudgetBreach | null {
+		for (const scope of ["server", "project", "agent"] as BudgetScope[]) {
+			const target = targetFor(scope, subject)
+			const limits = this.limitsFor(scope, target)
+			for (const period of BUDGET_PERIODS) {
+				const limit = limits[LIMIT_FIELDS[period]]
+				if (limit === undefined || limit === null) continue
+				const periodKey = periodKeyFor(period, subject, now)
+				if (!periodKey) continue
+				const limitUsd = limit + this.overrideTotal(scope, target, period, periodKey)
+				const spentUsd = this.state.spend[counterKey(scope, target, period, periodKey, subject.projectId)]?.usd || 0
+				if (spentUsd >= limitUsd) {
+					return { scope, target, period, periodKey, limitUsd, spentUsd, ...subject }
+				}
+			}
+		}
+		return null
+	}
+
+	/**
+	 * Raise the limit behind a breach for its current period only.
+	 * Defaults to one more limit's worth of allowance.
+	 */
+	grantOverride(breach: BudgetBreach, grantedBy: string, extraUsd?: number, approvalId?: string): BudgetOverride {
+		const base = this.limitsFor(breach.scope, breach.target)[LIMIT_FIELDS[breach.period]] || 0
+		const extra = extraUsd !== undefined ? extraUsd : Math.max(base, breach.spentUsd - breach.limitUsd, 0.01)
+		if (!Number.isFinite(extra) || extra <= 0) throw new Error("extraUsd must be a positive number")
+		const override: BudgetOverride = {
+			scope: breach.scope,
+			target: breach.target,
+			period: breach.period,
+			periodKey: breach.periodKey,
+			extraUsd: extra,
+			grantedBy,
+			grantedAt: new Date().toISOString(),
+			approvalId,
+		}
+		this.state.overrides.push(override)
+		this.save()
+		log.info(`[Budgets] Override of $${extra.toFixed(2)} granted by ${grantedBy} for ${breach.scope} ${breach.period} ${breach.periodKey}`)
+		return override
+	}
+
+	/**
+	 * Spend against every configured limit that applies to a project (and its
+	 * agents), or to the whole server when no project is given.
+	 */
+	getStatus(projectId?: string, now: Date = new Date()): BudgetStatusEntry[] {
+		this.prune(now)
+		const entries: BudgetStatusEntry[] = []
+		const add = (scope: BudgetScope, target: string, limits: BudgetLimits): void => {
+			for (const period of ["daily", "monthly"] as BudgetPeriod[]) {
+				const limit = limits[LIMIT_FIELDS[period]]
+				if (limit === undefined || limit === null) continue
+				const periodKey = period === "daily" ? dayKey(now) : monthKey(now)
+				const limitUsd = limit + this.overrideTotal(scope, target, period, periodKey)
+				const spentUsd = this.state.spend[counterKey(scope, target, period, periodKey, "")]?.usd || 0
+				entries.push({
+					scope,
+					target,
+					period,
+					periodKey,
+					limitUsd,
+					spentUsd,
+					remainingUsd: Math.max(0, limitUsd - spentUsd),
+					exceeded: spentUsd >= limitUsd,
+				})
+			}
+		}
+		add("server", "", this.state.server)
+		for (const [id, limits] of Object.entries(this.state.projects)) {
+			if (!projectId || id === projectId) add("project", id, limits)
+		}
+		for (const [key, limits] of Object.entries(this.state.agents)) {
+			if (!projectId || key.startsWith(`${projectId}/`)) add("agent", key, limits)
+		}
+		return entries
+	}
+}
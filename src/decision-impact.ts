@@ -0,0 +1,221 @@
+// Society Agent - new file
+/**
+ * Decision Impact Analysis - what a superseded decision leaves behind
+ *
+ * When an accepted decision is replaced, the work done under it may no longer
+ * be valid. This module follows the links the system already keeps:
+ *   - decisions that build on it (`relatedDecisions`, transitively)
+ *   - managed tasks named in `relatedTasks` of any of those decisions
+ *   - files whose `FileOwnership.createdByTask` is one of those tasks
+ * and turns them into an impact report, plus one rework task per current owner.
+ */
+
+import type { Decision, PlanningLog } from "./planning-log"
+import type { ManagedTask, TaskStatus } from "./task-manager"
+import type { OwnershipRegistry } from "./file-ownership"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ImpactedDecision {
+	id: string
+	title: string
+	status: Decision["status"]
+	/** The decision it builds on */
+	dependsOn: string
+}
+
+export interface ImpactedTask {
+	taskId: string
+	title: string
+	status: TaskStatus
+	assignedTo?: string
+	/** The decision that lists this task */
+	viaDecision: string
+}
+
+export interface ImpactedFile {
+	path: string
+	owner: string
+	createdByTask: string
+}
+
+export interface DecisionImpactReport {
+	decisionId: string
+	title: string
+	supersededBy?: string
+	generatedAt: string
+	decisions: ImpactedDecision[]
+	tasks: ImpactedTask[]
+	/** Related task IDs with no managed task in the project */
+	unknownTasks: string[]
+	files: ImpactedFile[]
+	/** Rework tasks created from this report */
+	reworkTasks?: string[]
+}
+
+/** A rework task to create for one owner */
+export interface ReworkPlan {
+	owner: string
+	title: string
+	description: string
+	files: string[]
+	taskIds: string[]
+}
+
+/** Tasks whose work no longer matters either way */
+const INACTIVE_STATUSES: TaskStatus[] = ["cancelled", "failed"]
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Collect the decisions, tasks and files affected by a decision. The decision
+ * that supersedes it is not counted as dependent.
+ */
+export function analyzeDecisionImpact(
+	planningLog: PlanningLog,
+	decisionId: string,
+	sources: { tasks: ManagedTask[]; registry?: OwnershipRegistry },
+): DecisionImpactReport | null {
+	const root = planningLog.decisions.find((d) => d.id === decisionId)
+	if (!root) return null
+
+	// Dependent decisions, breadth first
+	const decisions: ImpactedDecision[] = []
+	const seen = new Set([root.id])
+	if (root.supersededBy) seen.add(root.supersededBy)
+	const queue = [root.id]
+	while (queue.length > 0) {
+		const current = queue.shift()!
+		for (const dependent of planningLog.decisions) {
+			if (seen.has(dependent.id) || !dependent.relatedDecisions?.includes(current)) continue
+			if (dependent.status === "rejected" || dependent.status === "superseded") continue
+			seen.add(dependent.id)
+			decisions.push({ id: dependent.id, title: dependent.title, status: dependent.status, dependsOn: current })
+			queue.push(dependent.id)
+		}
+	}
+
+	// Tasks named by the decision or its dependents
+	const tasks: ImpactedTask[] = []
+	const unknownTasks: string[] = []
+	const taskIds = new Set<string>()
+	for (const decision of [root, ...decisions.map((d) => planningLog.decisions.find((pd) => pd.id === d.id)!)]) {
+		for (const taskId of decision.relatedTasks ?? []) {
+			if (taskIds.has(taskId)) continue
+			taskIds.add(taskId)
+			const task = sources.tasks.find((t) => t.taskId === taskId)
+			if (!task) {
+				unknownTasks.push(taskId)
+			} else if (!INACTIVE_STATUSES.includes(task.status)) {
+				tasks.push({ taskId, title: task.title, status: task.status, assignedTo: task.assignedTo, viaDecision: decision.id })
+			}
+		}
+	}
+
+	// Files those tasks created
+	const files: ImpactedFile[] = (sources.registry?.files ?? [])
+		.filter((f) => f.createdByTask && f.status !== "archived" && taskIds.has(f.createdByTask))
+		.map((f) => ({ path: f.path, owner: f.owner, createdByTask: f.createdByTask! }))
+
+	return {
+		decisionId: root.id,
+		title: root.title,
+		supersededBy: root.supersededBy,
+		generatedAt: new Date().toISOString(),
+		decisions,
+		tasks,
+		unknownTasks,
+		files,
+	}
+}
+
+/**
+ * Group the impacted work by its current owner: the owner of each file, and the
+ * assignee of each task that has started. Tasks not started yet only need their
+ * description updated, so they get no rework.
+ */
+export function planReworkTasks(report: DecisionImpactReport, newDecision?: Pick<Decision, "id" | "title">): ReworkPlan[] {
+	const byOwner = new Map<string, { files: string[]; taskIds: Set<string> }>()
+	const entry = (owner: string) => {
+		if (!byOwner.has(owner)) byOwner.set(owner, { files: [], taskIds: new Set() })
+		return byOwner.get(owner)!
+	}
+
+	for (const file of report.files) {
+		const owned = entry(file.owner)
+		owned.files.push(file.path)
+		owned.taskIds.add(file.createdByTask)
+	}
+	for (const task of report.tasks) {
+		if (task.assignedTo && task.status !== "planned" && task.status !== "delegated") {
+			entry(task.assignedTo).taskIds.add(task.taskId)
+		}
+	}
+
+	const replacement = newDecision ? `${newDecision.id} (${newDecision.title})` : report.supersededBy ?? "a newer decision"
+	return [...byOwner.entries()].map(([owner, { files, taskIds }]) => {
+		const lines = [
+			`Decision ${report.decisionId} (${report.title}) was superseded by ${replacement}.`,
+			"Review the work below and bring it in line with the new decision.",
+		]
+		if (taskIds.size > 0) {
+			lines.push("", "Tasks done under the old decision:")
+			for (const taskId of taskIds) {
+				const task = report.tasks.find((t) => t.taskId === taskId)
+				lines.push(`- ${taskId}${task ? `: ${task.title} (${task.status})` : ""}`)
+			}
+		}
+		if (files.length > 0) {
+			lines.push("", "Files created by those tasks:")
+			for (const file of files) lines.push(`- ${file}`)
+		}
+		return {
+			owner,
+			title: `Rework after ${report.decisionId} was superseded`,
+			description: lines.join("\n"),
+			files,
+			taskIds: [...taskIds],
+		}
+	})
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Render an impact report as Markdown
+ */
+export function formatImpactReport(report: DecisionImpactReport): string {
+	const lines: string[] = [`# Impact of superseding ${report.decisionId}: ${report.title}`, ""]
+	if (report.supersededBy) lines.push(`**Superseded by:** ${report.supersededBy}`, "")
+
+	if (report.decisions.length + report.tasks.length + report.files.length === 0) {
+		lines.push("Nothing depends on this decision.")
+		return lines.join("\n")
+	}
+
+	if (report.decisions.length > 0) {
+		lines.push("## Dependent Decisions", "", "| Decision | Title | Status | Builds On |", "|----------|-------|--------|-----------|")
+		for (const d of report.decisions) lines.push(`| ${d.id} | ${d.title} | ${d.status} | ${d.dependsOn} |`)
+		lines.push("")
+	}
+	if (report.tasks.length > 0) {
+		lines.push("## Tasks", "", "| Task | Title | Status | Assigned To | Via |", "|------|-------|--------|-------------|-----|")
+		for (const t of report.tasks) lines.push(`| ${t.taskId} | ${t.title} | ${t.status} | ${t.assignedTo ?? "-"} | ${t.viaDecision} |`)
+		lines.push("")
+	}
+	if (report.files.length > 0) {
+		lines.push("## Files", "", "| File | Owner | Created By Task |", "|------|-------|-----------------|")
+		for (const f of report.files) lines.push(`| ${f.path} | ${f.owner} | ${f.createdByTask} |`)
+		lines.push("")
+	}
+	if (report.reworkTasks?.length) {
+		lines.push(`**Rework tasks:** ${report.reworkTasks.join(", ")}`)
+	}
+	return lines.join("\n").trimEnd()
+}
@@ -0,0 +1,226 @@
+// Society Agent - new file
+/**
+ * Execution Sandbox
+ *
+ * Pluggable backend for the shell commands agents run (run_command, scheduled
+ * command tasks). Two backends:
+ *
+ * - "host":    bash on the host, as before. Only the command blocklists apply.
+ * - "sandbox": bash inside a bubblewrap (bwrap) container with its own user, PID,
+ *              IPC and (optionally) network namespaces:
+ *                - the host filesystem is mounted read-only
+ *                - the Society Agent workspace (source, .env, other projects,
+ *                  projects/.society) is hidden behind an empty tmpfs
+ *                - the agent's project is visible read-only
+ *                - only the agent's home folder is writable
+ *                - /tmp is a private tmpfs and the environment is cleared, so
+ *                  provider API keys never reach the command
+ *              CPU time and memory are capped with rlimits; wall-clock time is
+ *              capped by the caller's timeout, lowered to limits.timeoutMs; the
+ *              sandbox dies with bwrap when the timeout kills it.
+ *
+ * The backend is chosen per project (Project.execution) and overridden per agent
+ * (ProjectAgentConfig.execution); SOCIETY_EXECUTION_BACKEND sets the server default.
+ * If the sandbox is selected but bwrap is not installed, commands fail closed.
+ */
+
+import { spawnSync } from "child_process"
+import * as path from "path"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExecutionBackend = "host" | "sandbox"
+
+export const EXECUTION_BACKENDS: ExecutionBackend[] = ["host", "sandbox"]
+
+export interface ExecutionLimits {
+	/** CPU seconds per process (RLIMIT_CPU) */
+	cpuSeconds?: number
+	/** Heap/data memory per process in MB (RLIMIT_DATA) */
+	memoryMb?: number
+	/** Upper bound on wall-clock time per command */
+	timeoutMs?: number
+}
+
+/** Execution settings as stored on a project or agent; every field is optional */
+export interface ExecutionSettings {
+	backend?: ExecutionBackend
+	/** Sandbox only: "deny" gives the command an empty network namespace (default "allow") */
+	network?: "allow" | "deny"
+	/** Sandbox only */
+	limits?: ExecutionLimits
+}
+
+export interface ResolvedExecutionSettings {
+	backend: ExecutionBackend
+	network: "allow" | "deny"
+	limits: ExecutionLimits
+}
+
+/** Filesystem layout of a sandboxed command */
+export interface SandboxPaths {
+	/** Working directory (must be inside one of the writable dirs) */
+	cwd: string
+	/** Directories mounted read-write (the agent's home folder) */
+	writable: string[]
+	/** Directories mounted read-only on top of the hidden ones (the project) */
+	readOnly: string[]
+	/** Directories replaced by an empty tmpfs (workspace root, other projects) */
+	hidden: string[]
+}
+
+export interface SandboxSpec {
+	settings: ResolvedExecutionSettings
+	paths: SandboxPaths
+	/** Extra environment variables set inside the sandbox */
+	env?: Record<string, string>
+}
+
+/** A command ready for spawn(file, args) */
+export interface WrappedCommand {
+	file: string
+	args: string[]
+}
+
+export class SandboxUnavailableError extends Error {
+	constructor() {
+		super("The sandbox execution backend is selected but bubblewrap (bwrap) is not installed on the server")
+		this.name = "SandboxUnavailableError"
+	}
+}
+
+/** Environment variables passed into the sandbox (everything else is cleared) */
+const SANDBOX_ENV_PASSTHROUGH = ["PATH", "LANG", "LC_ALL", "TZ", "TERM"]
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+function isPositiveNumber(value: unknown): boolean {
+	return typeof value === "number" && Number.isFinite(value) && value > 0
+}
+
+/** Validate settings from an API body. Returns an error message or null. */
+export function validateExecutionSettings(value: unknown): string | null {
+	if (value === null || value === undefined) return null
+	if (typeof value !== "object" || Array.isArray(value)) return "execution must be an object"
+	const settings = value as Record<string, unknown>
+	for (const key of Object.keys(settings)) {
+		if (!["backend", "network", "limits"].includes(key)) return `Unknown execution setting: ${key}`
+	}
+	if (settings.backend !== undefined && !EXECUTION_BACKENDS.includes(settings.backend as ExecutionBackend)) {
+		return `execution.backend must be one of: ${EXECUTION_BACKENDS.join(", ")}`
+	}
+	if (settings.network !== undefined && settings.network !== "allow" && settings.network !== "deny") {
+		return `execution.network must be "allow" or "deny"`
+	}
+	if (settings.limits !== undefined) {
+		if (typeof settings.limits !== "object" || settings.limits === null || Array.isArray(settings.limits)) {
+			return "execution.limits must be an object"
+		}
+		for (const [key, limit] of Object.entries(settings.limits)) {
+			if (!["cpuSeconds", "memoryMb", "timeoutMs"].includes(key)) return `Unknown execution limit: ${key}`
+			if (limit !== null && !isPositiveNumber(limit)) return `execution.limits.${key} must be a positive number`
+		}
+	}
+	return null
+}
+
+/**
+ * Merge settings field by field: the first layer that sets a field wins
+ * (agent, then its supervisor for ephemeral workers, then project, then server default).
+ */
+export function resolveExecutionSettings(
+	...layers: Array<ExecutionSettings | undefined>
+): ResolvedExecutionSettings {
+	const defaultBackend = process.env.SOCIETY_EXECUTION_BACKEND === "sandbox" ? "sandbox" : "host"
+	const pick = <K extends keyof ExecutionSettings>(key: K): ExecutionSettings[K] | undefined =>
+		layers.find((layer) => layer?.[key] !== undefined)?.[key]
+
+	const limits: ExecutionLimits = {}
+	for (const key of ["cpuSeconds", "memoryMb", "timeoutMs"] as const) {
+		const value = layers.find((layer) => layer?.limits?.[key] !== undefined)?.limits?.[key]
+		if (isPositiveNumber(value)) limits[key] = value
+	}
+
+	return {
+		backend: pick("backend") || defaultBackend,
+		network: pick("network") || "allow",
+		limits,
+	}
+}
+
+/** Cap a command timeout at the configured limit (sandbox only) */
+export function effectiveTimeout(timeoutMs: number, settings: ResolvedExecutionSettings): number {
+	if (settings.backend !== "sandbox" || !settings.limits.timeoutMs) return timeoutMs
+	return Math.min(timeoutMs, settings.limits.timeoutMs)
+}
+
+// ============================================================================
+// bubblewrap
+// ============================================================================
+
+let sandboxAvailable: boolean | undefined
+
+/** True if bwrap is installed and can create namespaces here (cached) */
+export function isSandboxAvailable(): boolean {
+	if (sandboxAvailable === undefined) {
+		const probe = spawnSync("bwrap", ["--ro-bind", "/", "/", "--unshare-all", "true"], { stdio: "ignore", timeout: 5000 })
+		sandboxAvailable = probe.status === 0
+	}
+	return sandboxAvailable
+}
+
+/** Quote a string for bash */
+export function shellQuote(value: string): string {
+	if (/^[A-Za-z0-9_\/.,:=@%+-]+$/.test(value)) return value
+	return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/** Shell prefix applying the rlimits before the command runs */
+function limitPrefix(limits: ExecutionLimits): string {
+	const parts: string[] = []
+	if (limits.cpuSeconds) parts.push(`ulimit -t ${Math.ceil(limits.cpuSeconds)}`)
+	if (limits.memoryMb) parts.push(`ulimit -d ${Math.ceil(limits.memoryMb * 1024)}`)
+	return parts.length > 0 ? `${parts.join(" && ")} && ` : ""
+}
+
+/** bwrap arguments (without the "bwrap" itself) to run `bash -c command` in the sandbox */
+export function buildSandboxArgs(command: string, spec: SandboxSpec, env: Record<string, string | undefined> = process.env): string[] {
+	const { paths, settings } = spec
+	const args = ["--unshare-all"]
+	if (settings.network === "allow") args.push("--share-net")
+	// --die-with-parent: killing bwrap on timeout must take the sandboxed command down with it
+	args.push("--new-session", "--die-with-parent", "--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc", "--tmpfs", "/tmp")
+
+	// Order matters: hide first, then re-expose the project read-only, then the home folder read-write
+	for (const dir of paths.hidden) args.push("--tmpfs", path.resolve(dir))
+	for (const dir of paths.readOnly) args.push("--ro-bind", path.resolve(dir), path.resolve(dir))
+	for (const dir of paths.writable) args.push("--bind", path.resolve(dir), path.resolve(dir))
+
+	args.push("--chdir", path.resolve(paths.cwd), "--clearenv")
+	for (const name of SANDBOX_ENV_PASSTHROUGH) {
+		if (env[name]) args.push("--setenv", name, env[name]!)
+	}
+	args.push("--setenv", "HOME", path.resolve(paths.writable[0] || paths.cwd), "--setenv", "FORCE_COLOR", "0")
+	for (const [name, value] of Object.entries(spec.env || {})) args.push("--setenv", name, value)
+
+	args.push("--", "bash", "-c", limitPrefix(settings.limits) + command)
+	return args
+}
+
+/** The spawn() target for a shell command under the given backend */
+export function wrapShellCommand(command: string, spec?: SandboxSpec): WrappedCommand {
+	if (!spec || spec.settings.backend !== "sandbox") return { file: "bash", args: ["-c", command] }
+	if (!isSandboxAvailable()) throw new SandboxUnavailableError()
+	return { file: "bwrap", args: buildSandboxArgs(command, spec) }
+}
+
+/** The same as wrapShellCommand, as one command line for use inside another shell command */
+export function wrapShellCommandLine(command: string, spec?: SandboxSpec): string {
+	const wrapped = wrapShellCommand(command, spec)
+	if (wrapped.file === "bash") return command
+	return [wrapped.file, ...wrapped.args].map(shellQuote).join(" ")
+}
@@ -0,0 +1,518 @@
+// Society Agent - new file
+/**
+ * Federation - Trust, directory exchange and messaging between Society Agent servers
+ *
+ * - Each server has an Ed25519 identity kept by an AgentIdentityManager under
+ *   .society/federation/, with the server ID in place of an agent ID.
+ * - Admins pair two servers by adding each other as peers. The peer's public key is
+ *   fetched from its /api/federation/identity and pinned, optionally checked against
+ *   a fingerprint exchanged out of band.
+ * - Everything between peers is a SignedMessage from one server to the other:
+ *   - Directory exchange ("status_update"): each side sends the agents it exports
+ *     (those accepting external work) and stores the other's. Remote agents are
+ *     addressed as "<projectId>/<agentId>@<serverId>".
+ *   - Delegation ("task_assign") and messages ("message") carry a StructuredMessage.
+ *     The receiver rewrites the sender to its federated address and keeps the message
+ *     ID, so replies and threads line up on both servers.
+ *
+ * Trust is per server: a peer vouches for the agents it sends on behalf of. Only
+ * agents this server exports can be reached, except with a reply to a message the
+ * agent sent to that remote agent. Removing a peer revokes its key.
+ *
+ * The server lists its project agents in an AgentDirectory next to the peers'
+ * agents (createServerFederation), so getContactsFor() shows agents on both.
+ */
+
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { AgentIdentityManager, keyFingerprint, type SignedMessage } from "./agent-identity"
+import type { AgentDirectory } from "./agent-directory"
+import type { StructuredMessage } from "./message-contracts"
+import type { Project } from "./project-store"
+import type { AgentDirectoryEntry } from "./types"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What a server publishes about itself at /api/federation/identity */
+export interface ServerIdentity {
+	serverId: string
+	name: string
+	publicKeyPem: string
+	fingerprint: string
+}
+
+/** An agent on a peer server; agentId is its federated address */
+export interface RemoteAgentEntry extends AgentDirectoryEntry {
+	peerId: string
+	/** Project and agent ID on the peer */
+	projectId: string
+	remoteAgentId: string
+}
+
+/** A paired server */
+export interface FederationPeer {
+	/** The peer's server ID */
+	id: string
+	name: string
+	/** Base URL of the peer's server (e.g. "https://agents.example.com") */
+	url: string
+	/** Fingerprint of the pinned public key */
+	fingerprint: string
+	addedAt: string
+	lastExchangeAt?: string
+	lastError?: string
+	/** Agents the peer exports, as of the last exchange */
+	agents: RemoteAgentEntry[]
+}
+
+export type FederatedKind = "task_assign" | "message"
+
+/** A message accepted from a peer, rewritten for this server */
+export interface FederatedDelivery {
+	peer: FederationPeer
+	kind: FederatedKind
+	/** Federated address of the sending agent */
+	from: string
+	/** Sender's name and server, for display */
+	fromName: string
+	/** Local project and agent it is for */
+	projectId: string
+	agentId: string
+	/** The message with the sender's address and the local recipient */
+	message: StructuredMessage
+}
+
+export interface FederationOptions {
+	/** Server ID used on first start (default: "srv-" + random hex) */
+	serverId?: string
+	/** Display name (default: the host name) */
+	name?: string
+	/** Agents this server exports, with agentId "<projectId>/<agentId>" */
+	localAgents: () => AgentDirectoryEntry[]
+	/** Look up a message sent from here, so agents that are not exported can still get replies */
+	sentMessage?: (projectId: string, messageId: string) => StructuredMessage | undefined
+	/** Kept in step with the peers' directories */
+	directory?: AgentDirectory
+	fetchImpl?: typeof fetch
+}
+
+/** A federation request was refused; status is the HTTP status to answer with */
+export class FederationError extends Error {
+	constructor(
+		message: string,
+		public readonly status: number = 400,
+	) {
+		super(message)
+		this.name = "FederationError"
+	}
+}
+
+interface ServerFile {
+	serverId: string
+	name: string
+	publicKeyPem: string
+	createdAt: string
+}
+
+interface PeersFile {
+	version: 1
+	peers: FederationPeer[]
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+const LOCAL_ID = /^([^/@\s]+)\/([^/@\s]+)$/
+
+/** Address of an agent on a peer server */
+export function federatedAddress(serverId: string, projectId: string, agentId: string): string {
+	return `${projectId}/${agentId}@${serverId}`
+}
+
+/** Split a federated address; undefined for a plain (local) agent ID */
+export function parseFederatedAddress(address: string): { serverId: string; projectId: string; agentId: string } | undefined {
+	const at = address.lastIndexOf("@")
+	const local = at > 0 ? LOCAL_ID.exec(address.slice(0, at)) : null
+	const serverId = address.slice(at + 1)
+	if (!local || !serverId || /[/@\s]/.test(serverId)) return undefined
+	return { serverId, projectId: local[1], agentId: local[2] }
+}
+
+// ============================================================================
+// Federation Manager
+// ============================================================================
+
+export class FederationManager {
+	private identities: AgentIdentityManager
+	private server: ServerIdentity | null = null
+	private peers = new Map<string, FederationPeer>()
+	private fetchImpl: typeof fetch
+
+	constructor(
+		private dir: string,
+		private options: FederationOptions,
+	) {
+		// Peer keys are pinned until the peer is removed; they do not expire
+		this.identities = new AgentIdentityManager(dir, { keyLifetimeMs: undefined })
+		this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init))
+	}
+
+	/**
+	 * Load (or on first start create) this server's identity and the paired peers
+	 */
+	async initialize(): Promise<ServerIdentity> {
+		const serverPath = path.join(this.dir, "server.json")
+		let server: ServerFile
+		if (fs.existsSync(serverPath)) {
+			server = JSON.parse(fs.readFileSync(serverPath, "utf-8")) as ServerFile
+		} else {
+			const serverId = this.options.serverId || `srv-${crypto.randomBytes(4).toString("hex")}`
+			const { publicKeyPem } = await this.identities.createAgentIdentity(serverId, "server", ["federation"], "federation")
+			await this.identities.registerPublicKey(serverId, publicKeyPem)
+			server = { serverId, name: this.options.name || os.hostname(), publicKeyPem, createdAt: new Date().toISOString() }
+			fs.mkdirSync(this.dir, { recursive: true })
+			fs.writeFileSync(serverPath, JSON.stringify(server, null, 2), "utf-8")
+			log.info(`[Federation] Created server identity ${serverId}`)
+		}
+		await this.identities.loadIdentity(path.join(this.dir, "agents", server.serverId, "identity.json"))
+		await this.identities.loadPublicKeys()
+
+		this.server = {
+			serverId: server.serverId,
+			name: this.options.name || server.name,
+			publicKeyPem: server.publicKeyPem,
+			fingerprint: keyFingerprint(crypto.createPublicKey(server.publicKeyPem)),
+		}
+		this.peers = new Map(this.loadPeers().map((peer) => [peer.id, peer]))
+		for (const peer of this.peers.values()) this.options.directory?.setRemoteAgents(peer.id, peer.agents)
+		return this.server
+	}
+
+	/**
+	 * This server's public identity
+	 */
+	identity(): ServerIdentity {
+		if (!this.server) throw new FederationError("Federation is not initialized", 503)
+		return this.server
+	}
+
+	listPeers(): FederationPeer[] {
+		return [...this.peers.values()]
+	}
+
+	getPeer(peerId: string): FederationPeer | undefined {
+		return this.peers.get(peerId)
+	}
+
+	/**
+	 * Agents exported by every peer
+	 */
+	remoteAgents(): RemoteAgentEntry[] {
+		return this.listPeers().flatMap((peer) => peer.agents)
+	}
+
+	/**
+	 * The remote agent at a federated address, if its server exports it
+	 */
+	resolve(address: string): RemoteAgentEntry | undefined {
+		const parsed = parseFederatedAddress(address)
+		return parsed && this.peers.get(parsed.serverId)?.agents.find((a) => a.agentId === address)
+	}
+
+	// ─── Pairing ──────────────────────────────────────────────────
+
+	/**
+	 * Pair with the server at `url`: pin its key, then exchange directories.
+	 * The exchange only succeeds once the other side has added this server too;
+	 * until then the peer is kept with lastError set.
+	 */
+	async addPeer(url: string, expectedFingerprint?: string): Promise<FederationPeer> {
+		const own = this.identity()
+		const base = url.trim().replace(/\/+$/, "")
+		if (!/^https?:\/\/[^/]+/.test(base)) throw new FederationError("url must be an http(s) URL")
+
+		const response = await this.fetchImpl(`${base}/api/federation/identity`)
+		if (!response.ok) throw new FederationError(`${base}: ${response.status} - ${await response.text()}`, 502)
+		const remote = (await response.json()) as Partial<ServerIdentity>
+		if (!remote?.serverId || !remote.publicKeyPem) throw new FederationError(`${base} did not return a server identity`, 502)
+		if (/[/@\s]/.test(remote.serverId)) throw new FederationError(`Invalid server ID "${remote.serverId}"`, 502)
+		if (remote.serverId === own.serverId) throw new FederationError("That is this server")
+
+		const fingerprint = keyFingerprint(crypto.createPublicKey(remote.publicKeyPem))
+		if (expectedFingerprint && expectedFingerprint !== fingerprint) {
+			throw new FederationError(`Fingerprint mismatch: ${base} presented ${fingerprint}, expected ${expectedFingerprint}`, 409)
+		}
+		const existing = this.peers.get(remote.serverId)
+		if (existing && existing.fingerprint !== fingerprint) {
+			throw new FederationError(`${remote.serverId} is paired with key ${existing.fingerprint}; remove the peer before pinning ${fingerprint}`, 409)
+		}
+		if (this.identities.keyHistory(remote.serverId).some((k) => k.keyId === fingerprint && k.revokedAt)) {
+			throw new FederationError(`Key ${fingerprint} of ${remote.serverId} was revoked; the peer needs a new server key`, 409)
+		}
+
+		await this.identities.registerPublicKey(remote.serverId, remote.publicKeyPem)
+		const peer: FederationPeer = existing
+			? { ...existing, url: base, name: remote.name || existing.name }
+			: { id: remote.serverId, name: remote.name || remote.serverId, url: base, fingerprint, addedAt: new Date().toISOString(), agents: [] }
+		this.peers.set(peer.id, peer)
+		this.savePeers()
+		log.info(`[Federation] Paired with ${peer.name} (${peer.id}, key ${fingerprint})`)
+
+		try {
+			await this.exchange(peer.id)
+		} catch (error) {
+			log.warn(`[Federation] First exchange with ${peer.id} failed: ${error instanceof Error ? error.message : error}`)
+		}
+		return peer
+	}
+
+	/**
+	 * Unpair: forget the peer's agents and revoke its key
+	 */
+	removePeer(peerId: string): boolean {
+		if (!this.peers.delete(peerId)) return false
+		this.identities.revokeAgent(peerId, "Peer removed")
+		this.options.directory?.setRemoteAgents(peerId, [])
+		this.savePeers()
+		return true
+	}
+
+	// ─── Directory exchange ───────────────────────────────────────
+
+	/**
+	 * Send our directory to a peer and store the one it answers with
+	 */
+	async exchange(peerId: string): Promise<FederationPeer> {
+		const peer = this.requirePeer(peerId)
+		try {
+			const envelope = this.identities.createSignedMessage(peer.id, "status_update", "directory", { data: this.directoryData() })
+			const reply = (await this.post(peer, "/api/federation/exchange", envelope)) as SignedMessage
+			if (this.verify(reply) !== peer || reply.type !== "status_update") {
+				throw new FederationError(`${peer.id} answered with an unexpected message`, 502)
+			}
+			this.storeDirectory(peer, reply.data?.agents)
+			delete peer.lastError
+		} catch (error) {
+			peer.lastError = error instanceof Error ? error.message : String(error)
+			throw error
+		} finally {
+			this.savePeers()
+		}
+		return peer
+	}
+
+	/**
+	 * Exchange directories with every peer; failures are kept on the peer (lastError)
+	 */
+	async exchangeAll(): Promise<void> {
+		for (const peer of this.listPeers()) {
+			await this.exchange(peer.id).catch(() => undefined)
+		}
+	}
+
+	/**
+	 * Answer a peer's directory exchange with our own (signed)
+	 * @throws FederationError if the peer is unknown or the signature does not verify
+	 */
+	handleExchange(envelope: SignedMessage): SignedMessage {
+		const peer = this.verify(envelope)
+		if (envelope.type !== "status_update") throw new FederationError(`Expected a directory, got ${envelope.type}`)
+		this.storeDirectory(peer, envelope.data?.agents)
+		delete peer.lastError
+		this.savePeers()
+		return this.identities.createSignedMessage(peer.id, "status_update", "directory", { data: this.directoryData(), replyTo: envelope.id })
+	}
+
+	// ─── Messages ─────────────────────────────────────────────────
+
+	/**
+	 * Send a message from a local agent to a remote one.
+	 * `message` is as recorded here: local sender, federated address as recipient.
+	 */
+	async send(kind: FederatedKind, message: StructuredMessage, fromName: string): Promise<void> {
+		const target = parseFederatedAddress(message.toAgentId)
+		const peer = target && this.peers.get(target.serverId)
+		if (!target || !peer) throw new FederationError(`Unknown server for ${message.toAgentId}`, 404)
+		if (!message.inResponseTo && !this.resolve(message.toAgentId)) {
+			throw new FederationError(`${target.projectId}/${target.agentId} does not take work from other servers (not in ${peer.name}'s directory)`, 404)
+		}
+
+		const outgoing: StructuredMessage = {
+			...message,
+			fromAgentId: `${message.projectId}/${message.fromAgentId}`,
+			toAgentId: `${target.projectId}/${target.agentId}`,
+			projectId: target.projectId,
+		}
+		const envelope = this.identities.createSignedMessage(peer.id, kind, `${message.category}/${"type" in message ? message.type : "?"}`, {
+			data: { message: outgoing, fromName },
+		})
+		await this.post(peer, "/api/federation/inbox", envelope)
+		log.info(`[Federation] ${message.fromAgentId} → ${message.toAgentId}: ${kind} ${message.messageId}`)
+	}
+
+	/**
+	 * Accept a message from a peer for one of our exported agents
+	 * @throws FederationError if the sender, signature or recipient is not acceptable
+	 */
+	receive(envelope: SignedMessage): FederatedDelivery {
+		const peer = this.verify(envelope)
+		if (envelope.type !== "task_assign" && envelope.type !== "message") {
+			throw new FederationError(`Unsupported message type: ${envelope.type}`)
+		}
+		const message = envelope.data?.message as StructuredMessage | undefined
+		const from = LOCAL_ID.exec(typeof message?.fromAgentId === "string" ? message.fromAgentId : "")
+		const to = LOCAL_ID.exec(typeof message?.toAgentId === "string" ? message.toAgentId : "")
+		if (!message || !from || !to) throw new FederationError("Message needs fromAgentId and toAgentId as <projectId>/<agentId>")
+
+		const [, projectId, agentId] = to
+		const address = federatedAddress(peer.id, from[1], from[2])
+		const original = message.inResponseTo ? this.options.sentMessage?.(projectId, message.inResponseTo) : undefined
+		const isReply = original?.fromAgentId === agentId && original.toAgentId === address
+		if (!isReply && !this.options.localAgents().some((a) => a.agentId === `${projectId}/${agentId}`)) {
+			throw new FederationError(`${projectId}/${agentId} does not take work from other servers`, 404)
+		}
+
+		const fromName = typeof envelope.data?.fromName === "string" ? envelope.data.fromName : from[2]
+		return {
+			peer,
+			kind: envelope.type,
+			from: address,
+			fromName: `${fromName} (${peer.name})`,
+			projectId,
+			agentId,
+			message: { ...message, fromAgentId: address, toAgentId: agentId, projectId },
+		}
+	}
+
+	// ─── Helpers ──────────────────────────────────────────────────
+
+	private requirePeer(peerId: string): FederationPeer {
+		const peer = this.peers.get(peerId)
+		if (!peer) throw new FederationError(`Unknown peer: ${peerId}`, 404)
+		return peer
+	}
+
+	/**
+	 * The paired peer that signed an envelope addressed to this server
+	 */
+	private verify(envelope: SignedMessage): FederationPeer {
+		const peer = typeof envelope?.from === "string" ? this.peers.get(envelope.from) : undefined
+		if (!peer) throw new FederationError(`Unknown server: ${envelope?.from}`, 403)
+		if (envelope.to !== this.identity().serverId) throw new FederationError(`Message is for ${envelope.to}, not this server`, 403)
+		const result = this.identities.validateMessage(envelope)
+		if (!result.valid) throw new FederationError(result.reason || "Invalid signature", 401)
+		return peer
+	}
+
+	private directoryData(): Record<string, unknown> {
+		return { name: this.identity().name, agents: this.options.localAgents() }
+	}
+
+	private storeDirectory(peer: FederationPeer, agents: unknown): void {
+		const entries = (Array.isArray(agents) ? agents : []) as AgentDirectoryEntry[]
+		peer.agents = entries.flatMap((entry) => {
+			const id = LOCAL_ID.exec(typeof entry?.agentId === "string" ? entry.agentId : "")
+			if (!id) return []
+			const supervisor = typeof entry.supervisorId === "string" ? LOCAL_ID.exec(entry.supervisorId) : null
+			return [
+				{
+					...entry,
+					agentId: federatedAddress(peer.id, id[1], id[2]),
+					supervisorId: supervisor ? federatedAddress(peer.id, supervisor[1], supervisor[2]) : "human",
+					url: peer.url,
+					peerId: peer.id,
+					projectId: id[1],
+					remoteAgentId: id[2],
+				},
+			]
+		})
+		peer.lastExchangeAt = new Date().toISOString()
+		this.options.directory?.setRemoteAgents(peer.id, peer.agents)
+	}
+
+	private async post(peer: FederationPeer, route: string, envelope: SignedMessage): Promise<unknown> {
+		const response = await this.fetchImpl(`${peer.url}${route}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(envelope),
+		})
+		const text = await response.text()
+		if (!response.ok) throw new FederationError(`${peer.name}: ${response.status} - ${text}`, 502)
+		return text ? JSON.parse(text) : undefined
+	}
+
+	private loadPeers(): FederationPeer[] {
+		try {
+			return (JSON.parse(fs.readFileSync(path.join(this.dir, "peers.json"), "utf-8")) as PeersFile).peers
+		} catch {
+			return []
+		}
+	}
+
+	private savePeers(): void {
+		const file: PeersFile = { version: 1, peers: this.listPeers() }
+		fs.mkdirSync(this.dir, { recursive: true })
+		fs.writeFileSync(path.join(this.dir, "peers.json"), JSON.stringify(file, null, 2), "utf-8")
+	}
+}
+
+// ============================================================================
+// Server wiring
+// ============================================================================
+
+/** Where the server's projects come from (the ProjectStore) */
+export interface FederatedProjects {
+	getAll(): Project[]
+}
+
+/** Directory entries for every agent of the server's projects, with agentId "<projectId>/<agentId>" */
+export function projectAgentEntries(projects: FederatedProjects): AgentDirectoryEntry[] {
+	return projects.getAll().flatMap((project) =>
+		project.agents.map(
+			(agent): AgentDirectoryEntry => ({
+				agentId: `${project.id}/${agent.id}`,
+				name: agent.name,
+				role: agent.reportsTo ? "worker" : "supervisor",
+				capabilities: [],
+				domain: agent.role,
+				supervisorId: agent.reportsTo ? `${project.id}/${agent.reportsTo}` : "human",
+				lifecycle: agent.ephemeral ? "ephemeral" : "persistent",
+				workspace: "",
+				status: "online",
+				lastSeen: agent.lastActiveAt || new Date().toISOString(),
+				acceptsExternalWork: Boolean(agent.acceptsExternalWork),
+			}),
+		),
+	)
+}
+
+/** The agents other servers may reach: persistent agents that accept external work */
+export function exportedAgentEntries(projects: FederatedProjects): AgentDirectoryEntry[] {
+	return projectAgentEntries(projects).filter((entry) => entry.acceptsExternalWork && entry.lifecycle === "persistent")
+}
+
+/** Put the server's current project agents in its directory */
+export function publishProjectAgents(directory: AgentDirectory, projects: FederatedProjects): Promise<void> {
+	return directory.replaceAll(projectAgentEntries(projects))
+}
+
+/**
+ * Federation as the server runs it: exports the agents that accept external work
+ * and keeps the peers' agents in `directory`, next to the project agents.
+ */
+export function createServerFederation(
+	dir: string,
+	projects: FederatedProjects,
+	directory: AgentDirectory,
+	options: Omit<FederationOptions, "localAgents" | "directory"> = {},
+): FederationManager {
+	return new FederationManager(dir, { ...options, localAgents: () => exportedAgentEntries(projects), directory })
+}
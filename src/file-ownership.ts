@@ -6,9 +6,14 @@
  */
 
 import * as fs from "fs/promises"
+import * as os from "os"
 import * as path from "path"
+import { execFile } from "child_process"
+import { promisify } from "util"
 import { getLog } from "./logger"
 
+const execFileAsync = promisify(execFile)
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -107,6 +112,70 @@ export interface OwnershipHandoff {
 	denialReason?: string
 }
 
+// Society Agent start - change proposals (three-way merge)
+/**
+ * A change a non-owner wants made to an owned file, kept as a patch for the owner
+ */
+export interface FileChangeProposal {
+	/** Unique proposal ID */
+	id: string
+
+	/** File the change is for */
+	path: string
+
+	/** Agent proposing the change */
+	proposedBy: string
+
+	/** Owner of the file when the change was proposed */
+	owner: string
+
+	/** Why the change is needed */
+	reason: string
+
+	/** Related task ID */
+	taskId?: string
+
+	/** File content the proposer started from (merge base) */
+	baseContent: string
+
+	/** File content the proposer wants */
+	proposedContent: string
+
+	/** Unified diff from baseContent to proposedContent */
+	patch: string
+
+	/** Status */
+	status: "pending" | "accepted" | "merged" | "rejected"
+
+	/** Request timestamp */
+	requestedAt: string
+
+	/** Who resolved the proposal */
+	respondedBy?: string
+
+	/** When resolved */
+	respondedAt?: string
+
+	/** Rejection reason (if rejected) */
+	rejectionReason?: string
+
+	/** Conflicting hunks found by the last merge attempt */
+	conflicts?: number
+}
+
+/**
+ * One step in a file's change history (shown in FILES.md)
+ */
+export interface OwnershipHistoryEntry {
+	at: string
+	path: string
+	agentId: string
+	action: "proposed" | "accepted" | "merged" | "merge-conflict" | "rejected"
+	proposalId?: string
+	detail?: string
+}
+// Society Agent end
+
 /**
  * Full ownership registry for a project
  */
@@ -120,6 +189,12 @@ export interface OwnershipRegistry {
 	/** Pending and historical handoffs */
 	handoffs: OwnershipHandoff[]
 
+	/** Society Agent - change proposals from non-owners */
+	proposals?: FileChangeProposal[]
+
+	/** Society Agent - proposal history, newest last */
+	history?: OwnershipHistoryEntry[]
+
 	/** Last time registry was synced with filesystem */
 	lastSyncedAt?: string
 }
@@ -141,7 +216,7 @@ export interface CanModifyResult {
 	owner?: string
 
 	/** Required action to gain access */
-	requiredAction?: "request-handoff" | "notify-owners" | "wait-for-handoff"
+	requiredAction?: "request-handoff" | "notify-owners" | "wait-for-handoff" | "propose-change" | "wait-for-review"
 }
 
 // ============================================================================
@@ -156,6 +231,8 @@ export function createOwnershipRegistry(): OwnershipRegistry {
 		files: [],
 		shared: [],
 		handoffs: [],
+		proposals: [],
+		history: [],
 	}
 }
 
@@ -236,12 +313,30 @@ export function canModifyFile(
 		}
 	}
 
+	// Society Agent start - non-owners propose changes instead of being stopped
+	const pendingProposal = registry.proposals?.find(
+		(p) =>
+			p.path === normalizedPath &&
+			p.proposedBy === agentId &&
+			p.status === "pending"
+	)
+
+	if (pendingProposal) {
+		return {
+			allowed: false,
+			reason: `Change proposal ${pendingProposal.id} pending review by ${ownership.owner}`,
+			owner: ownership.owner,
+			requiredAction: "wait-for-review",
+		}
+	}
+
 	return {
 		allowed: false,
-		reason: `File owned by ${ownership.owner}. Request handoff or ask supervisor.`,
+		reason: `File owned by ${ownership.owner}. Propose the change for ${ownership.owner} to review, or request a handoff.`,
 		owner: ownership.owner,
-		requiredAction: "request-handoff",
+		requiredAction: "propose-change",
 	}
+	// Society Agent end
 }
 
 /**
@@ -512,6 +607,209 @@ export function getIncomingHandoffs(
 	)
 }
 
+// ============================================================================
+// CHANGE PROPOSALS (Society Agent)
+// ============================================================================
+
+/** History entries kept in the registry (FILES.md shows the most recent) */
+const MAX_HISTORY = 200
+const FILES_MD_HISTORY = 30
+
+let proposalCounter = 0
+
+function addHistory(registry: OwnershipRegistry, entry: Omit<OwnershipHistoryEntry, "at">): void {
+	registry.history = registry.history ?? []
+	registry.history.push({ at: new Date().toISOString(), ...entry })
+	if (registry.history.length > MAX_HISTORY) {
+		registry.history.splice(0, registry.history.length - MAX_HISTORY)
+	}
+}
+
+/**
+ * Record a non-owner's change to an owned file as a proposal for the owner
+ */
+export function proposeFileChange(
+	registry: OwnershipRegistry,
+	proposal: {
+		path: string
+		proposedBy: string
+		reason: string
+		baseContent: string
+		proposedContent: string
+		patch: string
+		taskId?: string
+	}
+): FileChangeProposal {
+	const normalizedPath = proposal.path.replace(/\\/g, "/")
+	const ownership = registry.files.find((f) => f.path === normalizedPath)
+	if (!ownership) {
+		throw new Error(`File not registered: ${normalizedPath}`)
+	}
+	if (ownership.owner === proposal.proposedBy) {
+		throw new Error(`${proposal.proposedBy} owns ${normalizedPath} and can change it directly`)
+	}
+	proposalCounter++
+
+	const created: FileChangeProposal = {
+		...proposal,
+		id: `CP-${Date.now()}-${proposalCounter}`,
+		path: normalizedPath,
+		owner: ownership.owner,
+		status: "pending",
+		requestedAt: new Date().toISOString(),
+	}
+
+	registry.proposals = registry.proposals ?? []
+	registry.proposals.push(created)
+	addHistory(registry, { path: normalizedPath, agentId: proposal.proposedBy, action: "proposed", proposalId: created.id, detail: proposal.reason })
+	getLog().info(`[FileOwnership] Change proposed: ${normalizedPath} by ${proposal.proposedBy} (owner: ${ownership.owner})`)
+
+	return created
+}
+
+/**
+ * Get a pending proposal that the agent may resolve (only the file's owner can)
+ */
+export function getPendingProposal(
+	registry: OwnershipRegistry,
+	proposalId: string,
+	agentId: string
+): FileChangeProposal {
+	const proposal = registry.proposals?.find((p) => p.id === proposalId)
+	if (!proposal) {
+		throw new Error(`Proposal not found: ${proposalId}`)
+	}
+	if (proposal.status !== "pending") {
+		throw new Error(`Proposal already ${proposal.status}`)
+	}
+	const owner = getFileOwner(registry, proposal.path) ?? proposal.owner
+	if (owner !== agentId) {
+		throw new Error(`Only ${owner} can resolve changes to ${proposal.path}`)
+	}
+	return proposal
+}
+
+/**
+ * Close a proposal as accepted, merged or rejected and record it in the history
+ */
+export function resolveProposal(
+	registry: OwnershipRegistry,
+	proposalId: string,
+	agentId: string,
+	outcome: "accepted" | "merged" | "rejected",
+	detail?: string
+): FileChangeProposal {
+	const proposal = getPendingProposal(registry, proposalId, agentId)
+
+	proposal.status = outcome
+	proposal.respondedBy = agentId
+	proposal.respondedAt = new Date().toISOString()
+	if (outcome === "rejected") {
+		proposal.rejectionReason = detail
+	} else {
+		recordFileModification(registry, proposal.path, agentId)
+	}
+	addHistory(registry, { path: proposal.path, agentId, action: outcome, proposalId, detail })
+	getLog().info(`[FileOwnership] Proposal ${proposalId} ${outcome} by ${agentId}`)
+
+	return proposal
+}
+
+/**
+ * Record a merge attempt that ran into conflicts (the proposal stays pending)
+ */
+export function recordProposalConflict(
+	registry: OwnershipRegistry,
+	proposalId: string,
+	agentId: string,
+	conflicts: number
+): FileChangeProposal {
+	const proposal = getPendingProposal(registry, proposalId, agentId)
+	proposal.conflicts = conflicts
+	addHistory(registry, { path: proposal.path, agentId, action: "merge-conflict", proposalId, detail: `${conflicts} conflicting hunk(s)` })
+	return proposal
+}
+
+/**
+ * Pending proposals for files an agent owns
+ */
+export function getProposalsForOwner(
+	registry: OwnershipRegistry,
+	ownerId: string
+): FileChangeProposal[] {
+	return (registry.proposals ?? []).filter(
+		(p) => p.status === "pending" && (getFileOwner(registry, p.path) ?? p.owner) === ownerId
+	)
+}
+
+/** Write texts to a temporary directory, run fn on the paths, then clean up */
+async function withTempFiles<T>(contents: Record<string, string>, fn: (paths: Record<string, string>) => Promise<T>): Promise<T> {
+	const dir = await fs.mkdtemp(path.join(os.tmpdir(), "society-merge-"))
+	try {
+		const paths: Record<string, string> = {}
+		for (const [name, content] of Object.entries(contents)) {
+			paths[name] = path.join(dir, name)
+			await fs.writeFile(paths[name], content, "utf-8")
+		}
+		return await fn(paths)
+	} finally {
+		await fs.rm(dir, { recursive: true, force: true })
+	}
+}
+
+/**
+ * Unified diff between two versions of a file (git diff --no-index)
+ */
+export async function createFilePatch(filePath: string, before: string, after: string): Promise<string> {
+	return withTempFiles({ before, after }, async (paths) => {
+		try {
+			await execFileAsync("git", ["diff", "--no-index", "--no-color", paths.before, paths.after], { maxBuffer: 16 * 1024 * 1024 })
+			return ""
+		} catch (error: any) {
+			// Exit code 1 means the files differ
+			if (error.code !== 1) throw error
+			const name = filePath.replace(/\\/g, "/")
+			return String(error.stdout)
+				.replace(/^diff --git .*$/m, `diff --git a/${name} b/${name}`)
+				.replace(/^--- .*$/m, `--- a/${name}`)
+				.replace(/^\+\+\+ .*$/m, `+++ b/${name}`)
+		}
+	})
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface ThreeWayMergeResult {
+	/** Merged content (with conflict markers when conflicts > 0) */
+	content: string
+	/** Number of conflicting hunks */
+	conflicts: number
+}
+
+/**
+ * Three-way merge of the owner's current file and a proposal against their
+ * common base (git merge-file). Conflicts are marked with the agents' names.
+ */
+export async function threeWayMerge(
+	current: string,
+	base: string,
+	proposed: string,
+	labels: { current: string; proposed: string } = { current: "owner", proposed: "proposal" }
+): Promise<ThreeWayMergeResult> {
+	return withTempFiles({ current, base, proposed }, async (paths) => {
+		const args = ["merge-file", "-p", "-L", labels.current, "-L", "base", "-L", labels.proposed, paths.current, paths.base, paths.proposed]
+		try {
+			const { stdout } = await execFileAsync("git", args, { maxBuffer: 16 * 1024 * 1024 })
+			return { content: stdout, conflicts: 0 }
+		} catch (error: any) {
+			// A positive exit code is the number of conflicts
+			if (typeof error.code !== "number" || error.code < 1 || error.code > 127) throw error
+			return { content: String(error.stdout), conflicts: error.code }
+		}
+	})
+}
+
 // ============================================================================
 // FILES.MD GENERATION
 // ============================================================================
@@ -569,12 +867,45 @@ export function generateFilesMd(registry: OwnershipRegistry, projectName?: strin
 		}
 	}
 
+	// Society Agent start - change proposals and their history
+	const proposals = (registry.proposals ?? []).filter((p) => p.status === "pending")
+	if (proposals.length > 0) {
+		lines.push("")
+		lines.push("## Change Proposals")
+		lines.push("")
+		lines.push("| File | Proposed By | Owner | Proposal | Reason |")
+		lines.push("|------|-------------|-------|----------|--------|")
+
+		for (const proposal of proposals) {
+			lines.push(`| ${proposal.path} | ${proposal.proposedBy} | ${proposal.owner} | ${proposal.id} | ${tableCell(proposal.reason)} |`)
+		}
+	}
+
+	const history = (registry.history ?? []).slice(-FILES_MD_HISTORY)
+	if (history.length > 0) {
+		lines.push("")
+		lines.push("## History")
+		lines.push("")
+		lines.push("| Time | File | Agent | Action | Proposal | Detail |")
+		lines.push("|------|------|-------|--------|----------|--------|")
+
+		for (const entry of history) {
+			lines.push(`| ${entry.at} | ${entry.path} | ${entry.agentId} | ${entry.action} | ${entry.proposalId ?? "-"} | ${tableCell(entry.detail ?? "")} |`)
+		}
+	}
+	// Society Agent end
+
 	lines.push("")
 	lines.push(`*Last updated: ${new Date().toISOString()}*`)
 
 	return lines.join("\n")
 }
 
+/** Keep free text on one table row */
+function tableCell(text: string): string {
+	return text.replace(/\r?\n/g, " ").replace(/\|/g, "\\|")
+}
+
 /**
  * Write FILES.md to disk
  */
@@ -597,7 +928,7 @@ export async function parseFilesMd(projectDir: string): Promise<OwnershipRegistr
 		const lines = content.split("\n")
 
 		// States for parsing
-		let section: "files" | "shared" | "transfers" | null = null
+		let section: "files" | "shared" | "transfers" | "proposals" | "history" | null = null
 
 		for (const line of lines) {
 			// Detect section
@@ -613,6 +944,30 @@ export async function parseFilesMd(projectDir: string): Promise<OwnershipRegistr
 				section = "transfers"
 				continue
 			}
+			// Society Agent start - proposals live in the registry; history is read back
+			if (line.includes("## Change Proposals")) {
+				section = "proposals"
+				continue
+			}
+			if (line.includes("## History")) {
+				section = "history"
+				continue
+			}
+			if (section === "history") {
+				const cells = line.match(/^\|(.*)\|\s*$/)?.[1].split(/(?<!\\)\|/).map((c) => c.trim())
+				if (cells && cells.length >= 6 && cells[0] !== "Time" && !cells[0].startsWith("-")) {
+					registry.history!.push({
+						at: cells[0],
+						path: cells[1],
+						agentId: cells[2],
+						action: cells[3] as OwnershipHistoryEntry["action"],
+						proposalId: cells[4] !== "-" ? cells[4] : undefined,
+						detail: cells[5].replace(/\\\|/g, "|") || undefined,
+					})
+				}
+				continue
+			}
+			// Society Agent end
 
 			// Parse table rows
 			const tableMatch = line.match(/^\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]*)\s*\|\s*([^|]*)\s*\|/)
@@ -725,10 +1080,22 @@ export function getOwnershipPromptSection(
 		lines.push("")
 	}
 
+	// Society Agent start - change proposals awaiting the owner
+	const proposals = getProposalsForOwner(registry, agentId)
+	if (proposals.length > 0) {
+		lines.push("### Proposed Changes to Your Files")
+		lines.push("Accept, merge or reject these:")
+		for (const p of proposals) {
+			lines.push(`- **${p.path}** (${p.id}) from ${p.proposedBy}: ${p.reason}`)
+		}
+		lines.push("")
+	}
+	// Society Agent end
+
 	lines.push("### Rules")
 	lines.push("1. Before modifying a file, check if you own it")
 	lines.push("2. For new files, register ownership in FILES.md")
-	lines.push("3. To modify someone else's file, request a handoff")
+	lines.push("3. To modify someone else's file, propose the change to its owner or request a handoff")
 	lines.push("4. Shared files require notifying other owners")
 	lines.push("")
 
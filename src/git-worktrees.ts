@@ -0,0 +1,473 @@
+// Society Agent - new file
+/**
+ * Git Worktrees & Merge Queue
+ *
+ * Projects loaded from a git repository are a single checkout. To stop parallel
+ * agents from overwriting each other's uncommitted edits, every agent (including
+ * ephemeral workers) works in its own `git worktree` on its own branch:
+ *
+ *   projects/.worktrees/<project>/<agent>   branch agent/<agent>[/<task>]
+ *
+ * Finished work goes through a per-project merge queue, one entry at a time:
+ *   1. commit whatever is left in the worktree
+ *   2. rebase the branch onto the tip of the base branch
+ *        conflict → abort, status "conflict" (the caller blocks the task and
+ *                   sends a TaskBlockedMessage), the worktree is kept for fixing
+ *   3. runVerification on the rebased worktree
+ *        failure  → status "failed", the worktree is kept
+ *   4. fast-forward the base branch to the branch and remove the worktree
+ *
+ * Worktree and queue state is kept in projects/.society/worktrees.json.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import * as crypto from "crypto"
+import { execFile } from "child_process"
+import { promisify } from "util"
+import { sanitizeFilename } from "./security-utils"
+import type { VerificationResult } from "./task-manager"
+import { createBlockedNotification, type TaskBlockedMessage } from "./message-contracts"
+import { getLog } from "./logger"
+
+const log = getLog()
+const execFileAsync = promisify(execFile)
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AgentWorktree {
+	projectId: string
+	agentId: string
+	/** Main checkout the worktree belongs to */
+	repoDir: string
+	/** Worktree directory */
+	path: string
+	branch: string
+	/** Branch the work is merged into */
+	baseBranch: string
+	/** Base commit when the worktree was created */
+	baseCommit: string
+	/** ManagedTask or pool task the worktree was created for */
+	taskId?: string
+	createdAt: string
+}
+
+export type MergeStatus = "queued" | "running" | "merged" | "conflict" | "failed"
+
+export interface MergeQueueEntry {
+	id: string
+	projectId: string
+	agentId: string
+	taskId?: string
+	branch: string
+	baseBranch: string
+	status: MergeStatus
+	enqueuedAt: string
+	startedAt?: string
+	finishedAt?: string
+	/** Commit that was fast-forwarded onto the base branch */
+	mergedCommit?: string
+	/** Files that conflicted with the base branch */
+	conflictFiles?: string[]
+	verification?: VerificationResult
+	error?: string
+}
+
+/** Files the branch adds and changes relative to its base */
+export interface BranchChanges {
+	commitHash: string
+	filesCreated: string[]
+	filesModified: string[]
+}
+
+interface WorktreeState {
+	worktrees: AgentWorktree[]
+	merges: MergeQueueEntry[]
+}
+
+/** Finished merge queue entries kept per project */
+const MAX_MERGE_HISTORY = 50
+
+/** Idle worktrees are fast-forwarded to their base branch at most this often */
+const REFRESH_INTERVAL_MS = 10_000
+
+const GIT_IDENTITY = {
+	GIT_AUTHOR_NAME: "Society Agent",
+	GIT_AUTHOR_EMAIL: "agent@society.local",
+	GIT_COMMITTER_NAME: "Society Agent",
+	GIT_COMMITTER_EMAIL: "agent@society.local",
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync("git", args, {
+		cwd,
+		env: { ...process.env, ...GIT_IDENTITY },
+		maxBuffer: 16 * 1024 * 1024,
+	})
+	return stdout.trim()
+}
+
+/** Run one operation at a time per key */
+function serialize<T>(queues: Map<string, Promise<unknown>>, key: string, operation: () => Promise<T>): Promise<T> {
+	const previous = queues.get(key) || Promise.resolve()
+	const next = previous.catch(() => undefined).then(operation)
+	queues.set(key, next)
+	next.finally(() => {
+		if (queues.get(key) === next) queues.delete(key)
+	}).catch(() => undefined)
+	return next
+}
+
+/** Branch name for an agent's worktree */
+export function worktreeBranchName(agentId: string, taskId?: string): string {
+	const clean = (s: string) => s.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^[-.]+|[-.]+$/g, "")
+	return taskId ? `agent/${clean(agentId)}/${clean(taskId)}` : `agent/${clean(agentId)}`
+}
+
+/**
+ * Notification for the agent whose work could not be merged. The blocked task is
+ * the entry's task; without one the branch name is used.
+ */
+export function mergeConflictMessage(entry: MergeQueueEntry, toAgentId: string): TaskBlockedMessage {
+	const files = entry.conflictFiles?.length ? entry.conflictFiles.join(", ") : "unknown files"
+	return createBlockedNotification("merge-queue", toAgentId, entry.projectId, {
+		taskId: entry.taskId || entry.branch,
+		blockingReason: {
+			type: "resource",
+			description: `Merge conflict: ${entry.branch} no longer applies on top of ${entry.baseBranch} (${files})`,
+			unblockRequires: toAgentId,
+		},
+		suggestedResolution: `Rebase ${entry.branch} onto ${entry.baseBranch}, resolve the conflicts in ${files}, then queue the merge again.`,
+	})
+}
+
+// ============================================================================
+// WorktreeManager
+// ============================================================================
+
+export class WorktreeManager {
+	private state: WorktreeState = { worktrees: [], merges: [] }
+	/** Per-repository queues: `git worktree add/remove` lock the shared .git */
+	private queues = new Map<string, Promise<unknown>>()
+	private lastRefresh = new Map<string, number>()
+
+	constructor(
+		/** Root for worktree folders (projects/.worktrees) */
+		private worktreesDir: string,
+		/** State file (projects/.society/worktrees.json) */
+		private statePath: string,
+	) {
+		this.load()
+	}
+
+	private load(): void {
+		try {
+			if (fs.existsSync(this.statePath)) {
+				const data = JSON.parse(fs.readFileSync(this.statePath, "utf-8"))
+				this.state = { worktrees: data.worktrees || [], merges: data.merges || [] }
+			}
+		} catch (error) {
+			log.error(`[Worktrees] Error reading ${this.statePath}:`, error)
+		}
+		// Worktrees deleted behind our back are forgotten
+		this.state.worktrees = this.state.worktrees.filter((w) => fs.existsSync(w.path))
+		// Merges interrupted by a restart are not resumed
+		for (const entry of this.state.merges) {
+			if (entry.status === "queued" || entry.status === "running") {
+				entry.status = "failed"
+				entry.error = "Interrupted by a server restart; queue the merge again"
+				entry.finishedAt = new Date().toISOString()
+			}
+		}
+	}
+
+	save(): void {
+		fs.mkdirSync(path.dirname(this.statePath), { recursive: true })
+		fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2), "utf-8")
+	}
+
+	/** True if the directory is the top of a git checkout with at least one commit */
+	static async isRepository(dir: string): Promise<boolean> {
+		if (!fs.existsSync(path.join(dir, ".git"))) return false
+		return git(dir, ["rev-parse", "--verify", "--quiet", "HEAD"]).then(
+			() => true,
+			() => false,
+		)
+	}
+
+	list(projectId?: string): AgentWorktree[] {
+		return this.state.worktrees.filter((w) => !projectId || w.projectId === projectId)
+	}
+
+	get(projectId: string, agentId: string): AgentWorktree | undefined {
+		return this.state.worktrees.find((w) => w.projectId === projectId && w.agentId === agentId)
+	}
+
+	/** Merge queue entries (used by MergeQueue) */
+	get merges(): MergeQueueEntry[] {
+		return this.state.merges
+	}
+
+	/**
+	 * The agent's worktree, created on first use from the checked-out branch of
+	 * repoDir. An existing worktree without changes of its own is fast-forwarded
+	 * to its base branch so idle agents see merged work.
+	 */
+	acquire(repoDir: string, projectId: string, agentId: string, options: { taskId?: string; baseBranch?: string } = {}): Promise<AgentWorktree> {
+		return serialize(this.queues, repoDir, async () => {
+			const existing = this.get(projectId, agentId)
+			if (existing) {
+				await this.refreshUnlocked(existing)
+				return existing
+			}
+
+			const baseBranch = options.baseBranch || (await git(repoDir, ["rev-parse", "--abbrev-ref", "HEAD"]))
+			if (baseBranch === "HEAD") {
+				throw new Error(`${repoDir} has a detached HEAD; check out the branch agents should work from`)
+			}
+			const baseCommit = await git(repoDir, ["rev-parse", baseBranch])
+			const worktreePath = path.join(this.worktreesDir, sanitizeFilename(projectId), sanitizeFilename(agentId))
+			let branch = worktreeBranchName(agentId, options.taskId)
+			if (await git(repoDir, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]).then(() => true, () => false)) {
+				// Left over from an earlier worktree (kept with its work) - start a fresh one
+				branch = `${branch}-${Date.now().toString(36)}`
+			}
+
+			fs.rmSync(worktreePath, { recursive: true, force: true })
+			fs.mkdirSync(path.dirname(worktreePath), { recursive: true })
+			await git(repoDir, ["worktree", "prune"])
+			await git(repoDir, ["worktree", "add", "--quiet", "-b", branch, worktreePath, baseCommit])
+
+			const worktree: AgentWorktree = {
+				projectId,
+				agentId,
+				repoDir,
+				path: worktreePath,
+				branch,
+				baseBranch,
+				baseCommit,
+				taskId: options.taskId,
+				createdAt: new Date().toISOString(),
+			}
+			this.state.worktrees.push(worktree)
+			this.save()
+			this.lastRefresh.set(worktreePath, Date.now())
+			log.info(`[Worktrees] ${agentId} in ${projectId} works on ${branch} (${worktreePath})`)
+			return worktree
+		})
+	}
+
+	private async refreshUnlocked(worktree: AgentWorktree): Promise<void> {
+		const last = this.lastRefresh.get(worktree.path) || 0
+		if (Date.now() - last < REFRESH_INTERVAL_MS) return
+		this.lastRefresh.set(worktree.path, Date.now())
+		try {
+			if (await git(worktree.path, ["status", "--porcelain"])) return
+			const head = await git(worktree.path, ["rev-parse", "HEAD"])
+			const tip = await git(worktree.path, ["rev-parse", worktree.baseBranch])
+			if (head === tip || head !== (await git(worktree.path, ["merge-base", head, tip]))) return
+			await git(worktree.path, ["merge", "--ff-only", "--quiet", worktree.baseBranch])
+			worktree.baseCommit = tip
+			this.save()
+		} catch (error) {
+			log.warn(`[Worktrees] Could not refresh ${worktree.path}: ${error instanceof Error ? error.message : error}`)
+		}
+	}
+
+	/** Commit everything in the worktree. Returns the new commit, or null if there was nothing to commit. */
+	async commitAll(worktree: AgentWorktree, message: string): Promise<string | null> {
+		await git(worktree.path, ["add", "--all"])
+		if (!(await git(worktree.path, ["status", "--porcelain"]))) return null
+		await git(worktree.path, ["commit", "--quiet", "--no-verify", "-m", message])
+		return git(worktree.path, ["rev-parse", "HEAD"])
+	}
+
+	/** Files the worktree's branch adds or changes compared to its base branch */
+	async changes(worktree: AgentWorktree): Promise<BranchChanges> {
+		const commitHash = await git(worktree.path, ["rev-parse", "HEAD"])
+		const diff = await git(worktree.path, ["diff", "--name-status", "--no-renames", `${worktree.baseBranch}...HEAD`])
+		const filesCreated: string[] = []
+		const filesModified: string[] = []
+		for (const line of diff.split("\n").filter(Boolean)) {
+			const [status, file] = line.split("\t")
+			if (status === "A") filesCreated.push(file)
+			else if (status === "M") filesModified.push(file)
+		}
+		return { commitHash, filesCreated, filesModified }
+	}
+
+	/**
+	 * Remove the agent's worktree. With keepBranch, uncommitted work is committed
+	 * first and the branch is kept so nothing is lost; otherwise it is deleted.
+	 */
+	release(projectId: string, agentId: string, options: { keepBranch?: boolean } = {}): Promise<boolean> {
+		const worktree = this.get(projectId, agentId)
+		if (!worktree) return Promise.resolve(false)
+		return serialize(this.queues, worktree.repoDir, async () => {
+			if (options.keepBranch) {
+				await this.commitAll(worktree, `WIP: unfinished work by ${agentId}`).catch((error) =>
+					log.warn(`[Worktrees] Could not save work in ${worktree.path}: ${error.message}`),
+				)
+			}
+			await git(worktree.repoDir, ["worktree", "remove", "--force", worktree.path]).catch(async () => {
+				fs.rmSync(worktree.path, { recursive: true, force: true })
+				await git(worktree.repoDir, ["worktree", "prune"]).catch(() => undefined)
+			})
+			if (!options.keepBranch) {
+				await git(worktree.repoDir, ["branch", "-D", worktree.branch]).catch(() => undefined)
+			}
+			this.state.worktrees = this.state.worktrees.filter((w) => w !== worktree)
+			this.lastRefresh.delete(worktree.path)
+			this.save()
+			log.info(`[Worktrees] Removed ${worktree.path}${options.keepBranch ? ` (branch ${worktree.branch} kept)` : ""}`)
+			return true
+		})
+	}
+
+	/** Remove all worktrees of a project (when the project is deleted) */
+	async removeProject(projectId: string): Promise<void> {
+		for (const worktree of this.list(projectId)) {
+			await this.release(projectId, worktree.agentId, { keepBranch: true }).catch(() => undefined)
+		}
+		this.state.merges = this.state.merges.filter((m) => m.projectId !== projectId)
+		this.save()
+	}
+}
+
+// ============================================================================
+// MergeQueue
+// ============================================================================
+
+export interface MergeQueueOptions {
+	/** Verification run on the rebased worktree before the base branch moves */
+	verify: (entry: MergeQueueEntry, worktree: AgentWorktree, changes: BranchChanges) => Promise<VerificationResult>
+}
+
+export class MergeQueue {
+	/** Per-project queues: one merge at a time */
+	private queues = new Map<string, Promise<unknown>>()
+
+	constructor(
+		private worktrees: WorktreeManager,
+		private options: MergeQueueOptions,
+	) {}
+
+	list(projectId: string): MergeQueueEntry[] {
+		return this.worktrees.merges.filter((m) => m.projectId === projectId)
+	}
+
+	get(projectId: string, id: string): MergeQueueEntry | undefined {
+		return this.worktrees.merges.find((m) => m.projectId === projectId && m.id === id)
+	}
+
+	/**
+	 * Queue the agent's worktree for merging. Returns the queued entry at once;
+	 * `done` resolves when it has been processed.
+	 */
+	enqueue(projectId: string, agentId: string, options: { taskId?: string } = {}): { entry: MergeQueueEntry; done: Promise<MergeQueueEntry> } {
+		const worktree = this.worktrees.get(projectId, agentId)
+		if (!worktree) {
+			throw new Error(`${agentId} has no worktree in ${projectId}`)
+		}
+		const pending = this.worktrees.merges.find(
+			(m) => m.projectId === projectId && m.agentId === agentId && (m.status === "queued" || m.status === "running"),
+		)
+		if (pending) {
+			throw new Error(`${agentId} already has a merge in the queue (${pending.id})`)
+		}
+
+		const entry: MergeQueueEntry = {
+			id: crypto.randomBytes(4).toString("hex"),
+			projectId,
+			agentId,
+			taskId: options.taskId || worktree.taskId,
+			branch: worktree.branch,
+			baseBranch: worktree.baseBranch,
+			status: "queued",
+			enqueuedAt: new Date().toISOString(),
+		}
+		this.worktrees.merges.push(entry)
+		this.prune(projectId)
+		this.worktrees.save()
+		log.info(`[MergeQueue] Queued ${entry.branch} → ${entry.baseBranch} (${entry.id})`)
+
+		const done = serialize(this.queues, projectId, () => this.process(entry, worktree))
+		return { entry, done }
+	}
+
+	/** Resolves once everything queued for the project so far has been processed */
+	async whenIdle(projectId: string): Promise<void> {
+		await (this.queues.get(projectId) || Promise.resolve()).catch(() => undefined)
+	}
+
+	private prune(projectId: string): void {
+		const finished = this.list(projectId).filter((m) => m.status !== "queued" && m.status !== "running")
+		const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_MERGE_HISTORY)))
+		if (excess.size > 0) {
+			this.worktrees.merges.splice(0, this.worktrees.merges.length, ...this.worktrees.merges.filter((m) => !excess.has(m)))
+		}
+	}
+
+	private finish(entry: MergeQueueEntry, status: MergeStatus, fields: Partial<MergeQueueEntry> = {}): MergeQueueEntry {
+		Object.assign(entry, fields, { status, finishedAt: new Date().toISOString() })
+		this.worktrees.save()
+		log.info(`[MergeQueue] ${entry.branch}: ${status}${entry.error ? ` (${entry.error})` : ""}`)
+		return entry
+	}
+
+	private async process(entry: MergeQueueEntry, worktree: AgentWorktree): Promise<MergeQueueEntry> {
+		entry.status = "running"
+		entry.startedAt = new Date().toISOString()
+		this.worktrees.save()
+
+		try {
+			await this.worktrees.commitAll(worktree, `${entry.taskId ? `[${entry.taskId}] ` : ""}Work by ${entry.agentId}`)
+
+			// Replay the branch on the current tip of the base branch
+			try {
+				await git(worktree.path, ["rebase", "--quiet", entry.baseBranch])
+			} catch (error) {
+				const conflictFiles = (await git(worktree.path, ["diff", "--name-only", "--diff-filter=U"]).catch(() => ""))
+					.split("\n")
+					.filter(Boolean)
+				await git(worktree.path, ["rebase", "--abort"]).catch(() => undefined)
+				return this.finish(entry, "conflict", {
+					conflictFiles,
+					error: conflictFiles.length ? `Conflicts in ${conflictFiles.join(", ")}` : String(error),
+				})
+			}
+
+			const changes = await this.worktrees.changes(worktree)
+			if (changes.filesCreated.length === 0 && changes.filesModified.length === 0 && !(await this.hasDeletions(worktree))) {
+				await this.worktrees.release(entry.projectId, entry.agentId)
+				return this.finish(entry, "merged", { error: "Nothing to merge" })
+			}
+
+			const verification = await this.options.verify(entry, worktree, changes)
+			entry.verification = verification
+			if (!verification.allPassed) {
+				const failed = verification.checks.filter((c) => !c.passed).map((c) => c.check)
+				return this.finish(entry, "failed", { error: `Verification failed: ${failed.join(", ")}` })
+			}
+
+			// Fast-forward only: the rebase made the branch a descendant of the base tip
+			const checkedOut = await git(worktree.repoDir, ["rev-parse", "--abbrev-ref", "HEAD"])
+			if (checkedOut === entry.baseBranch) {
+				await git(worktree.repoDir, ["merge", "--ff-only", "--quiet", changes.commitHash])
+			} else {
+				await git(worktree.repoDir, ["fetch", "--quiet", ".", `${changes.commitHash}:refs/heads/${entry.baseBranch}`])
+			}
+
+			await this.worktrees.release(entry.projectId, entry.agentId)
+			return this.finish(entry, "merged", { mergedCommit: changes.commitHash })
+		} catch (error) {
+			return this.finish(entry, "failed", { error: error instanceof Error ? error.message : String(error) })
+		}
+	}
+
+	private async hasDeletions(worktree: AgentWorktree): Promise<boolean> {
+		return Boolean(await git(worktree.path, ["diff", "--name-only", "--diff-filter=D", `${worktree.baseBranch}...HEAD`]))
+	}
+}
@@ -0,0 +1,87 @@
+// Society Agent - new file
+/**
+ * Inbox Consumer - Feeds an agent's inbox queue to the UnifiedMessageHandler
+ *
+ * This replaces the message-processing parts of SimpleAgentLoop and InboxManager.
+ * It's one of two entry points into UnifiedMessageHandler (the other being HTTP).
+ *
+ * Delivery flow:
+ *   The message broker pushes each message in .society-agent/queues/<agentId>
+ *   as it arrives (and any left over from before a restart):
+ *     handler.handleMessage() → dedup, verify, route
+ *     accepted or already processed → acknowledged
+ *     rejected (handler quarantines it) → dead-lettered
+ *     handler threw → retried later, dead-lettered after too many attempts
+ */
+
+import * as path from "path"
+import { UnifiedMessageHandler } from "./message-handler"
+import { SignedMessage } from "./agent-identity"
+import { openMessageBroker, type MessageBroker, type QueueStats } from "./message-broker"
+import { getLog } from "./logger"
+
+export interface InboxConsumerOptions {
+	/** Shared .society-agent directory path */
+	sharedDir: string
+
+	/** This agent's ID */
+	agentId: string
+
+	/** Wait before a failed message is retried, multiplied by its attempts (default: 3000) */
+	retryDelayMs?: number
+
+	/** The unified message handler */
+	handler: UnifiedMessageHandler
+}
+
+export class InboxConsumer {
+	private options: InboxConsumerOptions
+	private broker: MessageBroker
+	private stopConsuming: (() => void) | null = null
+
+	constructor(options: InboxConsumerOptions) {
+		this.options = options
+		this.broker = openMessageBroker(path.join(options.sharedDir, "queues"))
+	}
+
+	/**
+	 * Start consuming; messages already queued are delivered right away
+	 */
+	async start(): Promise<void> {
+		if (this.stopConsuming) return
+
+		this.stopConsuming = this.broker.consume<SignedMessage>(
+			this.options.agentId,
+			async ({ body: message }) => {
+				const result = await this.options.handler.handleMessage(message)
+				if (result.accepted) {
+					getLog().info(`Delivered ${message.id}: ${result.reason || "accepted"}`)
+					return
+				}
+				getLog().info(`Skipped ${message.id}: ${result.reason}`)
+				if (result.reason === "Already processed" || result.reason === "Not addressed to this agent") return
+				// Rejected: the handler has quarantined it
+				return { deadLetter: result.reason || "Rejected" }
+			},
+			{ retryDelayMs: this.options.retryDelayMs ?? 3000 },
+		)
+
+		getLog().info(`Started for ${this.options.agentId}`)
+	}
+
+	/**
+	 * Stop consuming
+	 */
+	stop(): void {
+		this.stopConsuming?.()
+		this.stopConsuming = null
+		getLog().info(`Stopped for ${this.options.agentId}`)
+	}
+
+	/**
+	 * Get inbox stats
+	 */
+	getStats(): QueueStats {
+		return this.broker.stats(this.options.agentId)
+	}
+}
@@ -2,31 +2,43 @@
 /**
  * Inbox Manager - Persistent message queue for society agents
  * 
- * Messages are stored as files in .society-agent/inbox/<agent-id>/ until acknowledged.
- * This ensures guaranteed delivery regardless of agent state.
+ * Each agent's inbox is a durable queue in the project's message broker
+ * (.society-agent/queues/<agent-id>.jsonl), kept until acknowledged.
+ * This ensures guaranteed delivery regardless of agent state: messages that are
+ * read but never acknowledged come back, and messages that keep failing end up
+ * in the queue's dead-letter list.
  */
 
-import * as fs from 'fs/promises'
 import * as path from 'path'
 import { AgentMessage } from './types'
 import { MessageSecurity } from './message-security' // Society Agent
 import { getLog } from './logger' // Society Agent
+import { openMessageBroker, type MessageBroker } from './message-broker' // Society Agent
+import type { MessagePriority } from './message-contracts' // Society Agent
 
 export interface InboxMessage extends AgentMessage {
-	/** File path where message is stored */
-	filePath?: string
+	/** Lease of this delivery; pass the message back to acknowledge() or incrementAttempt() */
+	receipt?: string
 	/** When message was queued */
 	queuedAt: string
 	/** Number of delivery attempts */
 	attempts?: number
 }
 
+/** How long a read message stays hidden from other reads before it is redelivered */
+const VISIBILITY_TIMEOUT_MS = 5 * 60_000
+
+/** Wait before a failed message is delivered again, multiplied by its attempts */
+const RETRY_DELAY_MS = 3000
+
 export class InboxManager {
-	private inboxRoot: string
+	private broker: MessageBroker
+	/** Inbox each outstanding receipt was read from */
+	private leases = new Map<string, string>()
 	private security: MessageSecurity // Society Agent
 
 	constructor(projectRoot: string) {
-		this.inboxRoot = path.join(projectRoot, '.society-agent', 'inbox')
+		this.broker = openMessageBroker(path.join(projectRoot, '.society-agent', 'queues'))
 		this.security = new MessageSecurity(projectRoot) // Society Agent
 	}
 
@@ -37,131 +49,104 @@ export class InboxManager {
 	// Society Agent end
 
 	/**
-	 * Queue a message for an agent (write to their inbox)
+	 * Queue a message for an agent (publish to their inbox queue)
 	 */
-	async queueMessage(agentId: string, message: AgentMessage): Promise<void> {
-		const agentInbox = path.join(this.inboxRoot, agentId)
-		await fs.mkdir(agentInbox, { recursive: true })
-
+	async queueMessage(agentId: string, message: AgentMessage, priority: MessagePriority = 'normal'): Promise<void> {
 		const inboxMessage: InboxMessage = {
 			...message,
 			queuedAt: new Date().toISOString(),
 			attempts: 0,
 		}
-
-		const fileName = `${message.id}.json`
-		const filePath = path.join(agentInbox, fileName)
-
-		await fs.writeFile(filePath, JSON.stringify(inboxMessage, null, 2), 'utf-8')
+		this.broker.publish(agentId, inboxMessage, { id: message.id, priority })
 		getLog().info(`[InboxManager] Queued message ${message.id} for ${agentId}`)
 	}
 
 	/**
-	 * Get all pending messages for an agent (with signature verification)
+	 * Take the pending messages for an agent (with signature verification).
+	 * Each must be acknowledged or given back with incrementAttempt().
 	 * Society Agent: Added signature verification
 	 */
 	async getPendingMessages(agentId: string): Promise<InboxMessage[]> {
-		const agentInbox = path.join(this.inboxRoot, agentId)
-
-		try {
-			await fs.access(agentInbox)
-		} catch {
-			// Inbox doesn't exist yet
-			return []
-		}
-
-		const files = await fs.readdir(agentInbox)
+		const deliveries = this.broker.receive<InboxMessage>(agentId, { max: Infinity, visibilityTimeoutMs: VISIBILITY_TIMEOUT_MS })
 		const messages: InboxMessage[] = []
 
-		for (const file of files) {
-			if (!file.endsWith('.json')) continue
-
-			const filePath = path.join(agentInbox, file)
-			try {
-				const content = await fs.readFile(filePath, 'utf-8')
-				const message: InboxMessage = JSON.parse(content)
-				
-				// Society Agent start - Verify message signature
-				if (message.signature) { // Society Agent - signature is now in AgentMessage type
-					const isValid = await this.security.verifyMessage(message, message.from)
-					if (!isValid) {
-						getLog().warn(`[InboxManager] INVALID SIGNATURE on message ${file} from ${message.from} - REJECTED`)
-						// Move to quarantine instead of delivering
-						const quarantineDir = path.join(path.dirname(this.inboxRoot), 'quarantine')
-						await fs.mkdir(quarantineDir, { recursive: true })
-						await fs.rename(filePath, path.join(quarantineDir, file))
-						continue
-					}
-					getLog().info(`[InboxManager] Verified signature for message ${file} from ${message.from}`)
-				} else {
-					getLog().warn(`[InboxManager] Message ${file} missing signature - accepting for backward compatibility`)
+		for (const delivery of deliveries) {
+			const message: InboxMessage = { ...delivery.body, receipt: delivery.receipt, attempts: delivery.attempts - 1 }
+			this.leases.set(delivery.receipt, agentId)
+
+			// Society Agent start - Verify message signature
+			if (message.signature) { // Society Agent - signature is now in AgentMessage type
+				const isValid = await this.security.verifyMessage(message, message.from)
+				if (!isValid) {
+					getLog().warn(`[InboxManager] INVALID SIGNATURE on message ${message.id} from ${message.from} - REJECTED`)
+					// Dead-letter instead of delivering
+					this.broker.deadLetter(agentId, delivery.receipt, 'Invalid signature')
+					this.leases.delete(delivery.receipt)
+					continue
 				}
-				// Society Agent end
-				
-				message.filePath = filePath
-				messages.push(message)
-			} catch (error) {
-				getLog().error(`[InboxManager] Failed to read message ${file}:`, error)
+				getLog().info(`[InboxManager] Verified signature for message ${message.id} from ${message.from}`)
+			} else {
+				getLog().warn(`[InboxManager] Message ${message.id} missing signature - accepting for backward compatibility`)
 			}
+			// Society Agent end
+
+			messages.push(message)
 		}
 
-		// Sort by timestamp (oldest first)
-		return messages.sort((a, b) => 
-			new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime()
-		)
+		return messages
 	}
 
 	/**
-	 * Mark a message as acknowledged (delete from inbox)
+	 * Mark a message as acknowledged (remove from inbox)
 	 */
 	async acknowledge(message: InboxMessage): Promise<void> {
-		if (!message.filePath) {
-			getLog().warn('[InboxManager] Cannot acknowledge message without filePath')
+		if (!message.receipt) {
+			getLog().warn('[InboxManager] Cannot acknowledge message without receipt')
 			return
 		}
 
-		try {
-			await fs.unlink(message.filePath)
+		const agentId = this.leases.get(message.receipt) ?? message.to
+		this.leases.delete(message.receipt)
+		if (this.broker.ack(agentId, message.receipt)) {
 			getLog().info(`[InboxManager] Acknowledged message ${message.id}`)
-		} catch (error) {
-			getLog().error(`[InboxManager] Failed to acknowledge ${message.id}:`, error)
+		} else {
+			getLog().warn(`[InboxManager] Lease on ${message.id} expired before it was acknowledged; it will be delivered again`)
 		}
 	}
 
 	/**
-	 * Increment delivery attempt count for a message
+	 * Give a message back after a failed delivery attempt; it is retried on the
+	 * next read and dead-lettered once it runs out of attempts
 	 */
 	async incrementAttempt(message: InboxMessage): Promise<void> {
-		if (!message.filePath) return
+		if (!message.receipt) return
 
 		message.attempts = (message.attempts || 0) + 1
+		const agentId = this.leases.get(message.receipt) ?? message.to
+		this.leases.delete(message.receipt)
+		this.broker.nack(agentId, message.receipt, { delayMs: RETRY_DELAY_MS * message.attempts, error: 'Delivery failed' })
+	}
 
-		try {
-			await fs.writeFile(message.filePath, JSON.stringify(message, null, 2), 'utf-8')
-		} catch (error) {
-			getLog().error(`[InboxManager] Failed to update attempt count:`, error)
-		}
+	/**
+	 * Call `listener` whenever a message becomes available in an agent's inbox
+	 * @returns unsubscribe
+	 */
+	onMessage(agentId: string, listener: () => void): () => void {
+		return this.broker.subscribe(() => listener(), agentId)
 	}
 
 	/**
 	 * Get count of pending messages for an agent
 	 */
 	async getPendingCount(agentId: string): Promise<number> {
-		const messages = await this.getPendingMessages(agentId)
-		return messages.length
+		return this.broker.peek(agentId).length
 	}
 
 	/**
 	 * Clear all messages for an agent (use with caution)
 	 */
 	async clearInbox(agentId: string): Promise<void> {
-		const agentInbox = path.join(this.inboxRoot, agentId)
-
-		try {
-			await fs.rm(agentInbox, { recursive: true, force: true })
-			getLog().info(`[InboxManager] Cleared inbox for ${agentId}`)
-		} catch (error) {
-			getLog().error(`[InboxManager] Failed to clear inbox:`, error)
-		}
+		const purged = this.broker.purge(agentId)
+		getLog().info(`[InboxManager] Cleared inbox for ${agentId} (${purged} message(s))`)
 	}
 }
@@ -20,10 +20,12 @@ export { SupervisorAgent, type SupervisorAgentConfig, type Purpose } from "./sup
 export { PurposeAnalyzer, type PurposeContext } from "./purpose-analyzer"
 export { AgentTeam } from "./agent-team"
 export { MessageSender } from "./message-sender"
-export { InboxPoller } from "./inbox-poller"
+export { InboxConsumer } from "./inbox-consumer"
+export { MessageBroker, openMessageBroker } from "./message-broker"
 export { PortManager } from "./port-manager"
 export { commandExecutor } from "./command-executor"
 export { AgentDirectory, type AgentDirectoryConfig } from "./agent-directory"
+export { FederationManager, FederationError, federatedAddress, parseFederatedAddress, type FederationPeer, type RemoteAgentEntry } from "./federation"
 export { KnowledgeManager, type ConversationEntry } from "./knowledge-manager"
 export { PermissionChecker, getPermissionChecker } from "./permissions"
 // Society Agent end
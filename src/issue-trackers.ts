@@ -0,0 +1,974 @@
+// Society Agent - new file
+/**
+ * Issue Trackers
+ *
+ * Keeps managed tasks in step with issues in GitHub Issues, GitLab or Jira.
+ *
+ * - IssueTrackerClient abstracts the tracker API. GitHub, GitLab and Jira clients
+ *   are built in; IssueSyncService.setClient() swaps one out (a local fake in
+ *   tests, or another tracker).
+ * - Import: open issues become ManagedTasks. Labels map to a priority and the
+ *   assignee to an agent, who gets the task delegated.
+ * - Sync: title, description, priority and open/closed state are compared with
+ *   the values both sides agreed on at the last sync (TaskExternalIssue.synced).
+ *   A field changed on one side is copied to the other; a field changed on both
+ *   sides is recorded as a conflict and left alone until resolved.
+ * - Task transitions are posted back as issue comments, and closing/reopening a
+ *   task closes/reopens the issue (Jira: moves it through the mapped workflow
+ *   status). Priority only flows from the tracker to the task.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import type { IssueSyncConflict, IssueSyncField, IssueSyncSnapshot, ManagedTask, TaskExternalIssue, TaskStatus, TaskStatusTransition } from "./task-manager"
+import { hostBaseUrl } from "./pull-requests"
+import { sanitizeFilename } from "./security-utils"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IssueTrackerKind = TaskExternalIssue["provider"]
+
+export const ISSUE_TRACKER_KINDS: IssueTrackerKind[] = ["github", "gitlab", "jira"]
+
+export const ISSUE_SYNC_FIELDS: IssueSyncField[] = ["title", "description", "priority", "state"]
+
+/** A tracker connected to a project */
+export interface IssueTracker {
+	/** Tracker ID (e.g. "IT-k3x9q2") */
+	id: string
+	provider: IssueTrackerKind
+	/** GitHub "owner/repo", GitLab project path, or Jira project key */
+	repository: string
+	/** API host (default: github.com / gitlab.com; required for Jira) */
+	host?: string
+	/** Stored token credential (default: the first stored for the host) */
+	credentialId?: string
+	/** Jira account email for Basic auth (a Bearer token is sent without it) */
+	username?: string
+	/** Only import issues carrying one of these labels */
+	labels?: string[]
+	/** Label (lower case) → priority, checked before the built-in table */
+	labelPriority?: Record<string, ManagedTask["priority"]>
+	/** Tracker username → agent ID (default: an agent with the same ID) */
+	assigneeAgents?: Record<string, string>
+	/** Jira workflow status to move the issue to per task status */
+	statusMap?: Partial<Record<TaskStatus, string>>
+	/** Sync on the background poll */
+	autoSync: boolean
+	createdAt: string
+	lastSyncAt?: string
+	lastError?: string
+}
+
+/** An issue as the tracker reports it */
+export interface ExternalIssue {
+	/** Issue number ("42") or Jira key ("SHOP-12") */
+	key: string
+	title: string
+	body: string
+	state: "open" | "closed"
+	labels: string[]
+	/** Username (GitHub/GitLab) or account email/name (Jira) */
+	assignee?: string
+	url: string
+	updatedAt: string
+}
+
+/** Changes to send to the tracker */
+export interface ExternalIssueUpdate {
+	title?: string
+	body?: string
+	state?: "open" | "closed"
+	/** Task status behind the change (Jira workflow status, GitHub close reason) */
+	status?: TaskStatus
+}
+
+/** Tracker API client */
+export interface IssueTrackerClient {
+	/** Issues (open and closed) updated since `since`, or all open issues */
+	listIssues(tracker: IssueTracker, token: string, since?: string): Promise<ExternalIssue[]>
+	getIssue(tracker: IssueTracker, token: string, key: string): Promise<ExternalIssue>
+	updateIssue(tracker: IssueTracker, token: string, key: string, changes: ExternalIssueUpdate): Promise<ExternalIssue>
+	addComment(tracker: IssueTracker, token: string, key: string, body: string): Promise<void>
+}
+
+/** The tracker API rejected a request */
+export class IssueTrackerApiError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+	) {
+		super(message)
+		this.name = "IssueTrackerApiError"
+	}
+}
+
+/**
+ * Validate a tracker definition (POST/PUT body). Returns an error message or null.
+ */
+export function validateIssueTracker(value: unknown): string | null {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) return "Tracker must be an object"
+	const tracker = value as Record<string, unknown>
+	if (!ISSUE_TRACKER_KINDS.includes(tracker.provider as IssueTrackerKind)) {
+		return `provider must be one of: ${ISSUE_TRACKER_KINDS.join(", ")}`
+	}
+	if (typeof tracker.repository !== "string" || !tracker.repository.trim()) return "repository is required"
+	if (tracker.provider === "jira" && (typeof tracker.host !== "string" || !tracker.host)) return "host is required for Jira"
+	if (tracker.provider !== "jira" && !tracker.repository.includes("/")) return "repository must be a path like owner/repo"
+	if (tracker.labels !== undefined && (!Array.isArray(tracker.labels) || tracker.labels.some((l) => typeof l !== "string"))) {
+		return "labels must be an array of strings"
+	}
+	if (tracker.labelPriority !== undefined) {
+		if (typeof tracker.labelPriority !== "object" || tracker.labelPriority === null) return "labelPriority must be an object"
+		for (const [label, priority] of Object.entries(tracker.labelPriority)) {
+			if (![1, 2, 3, 4, 5].includes(priority as number)) return `labelPriority.${label} must be 1-5`
+		}
+	}
+	for (const field of ["assigneeAgents", "statusMap"] as const) {
+		const map = tracker[field]
+		if (map === undefined) continue
+		if (typeof map !== "object" || map === null || Object.values(map).some((v) => typeof v !== "string")) {
+			return `${field} must map names to strings`
+		}
+	}
+	return null
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/** Built-in label → priority table (GitHub/GitLab labels and Jira priority names) */
+export const DEFAULT_LABEL_PRIORITY: Record<string, ManagedTask["priority"]> = {
+	p0: 1,
+	p1: 2,
+	p2: 3,
+	p3: 4,
+	p4: 5,
+	critical: 1,
+	urgent: 1,
+	high: 2,
+	medium: 3,
+	normal: 3,
+	low: 4,
+	trivial: 5,
+	"priority:highest": 1,
+	"priority:high": 2,
+	"priority:medium": 3,
+	"priority:low": 4,
+	"priority:lowest": 5,
+}
+
+/**
+ * Priority for a set of labels: the highest priority any label maps to.
+ * "priority::high" and "priority/high" are read as "priority:high".
+ */
+export function mapLabelsToPriority(labels: string[], table?: Record<string, ManagedTask["priority"]>): ManagedTask["priority"] | undefined {
+	let best: ManagedTask["priority"] | undefined
+	for (const label of labels) {
+		const name = label.trim().toLowerCase().replace(/^priority\s*(::|\/|:)\s*/, "priority:")
+		const priority = table?.[name] ?? DEFAULT_LABEL_PRIORITY[name] ?? DEFAULT_LABEL_PRIORITY[name.replace(/^priority:/, "")]
+		if (priority !== undefined && (best === undefined || priority < best)) best = priority
+	}
+	return best
+}
+
+/** Agent for an issue assignee: the tracker's mapping, else an agent with that ID */
+export function mapAssigneeToAgent(tracker: IssueTracker, assignee: string | undefined, agentIds: string[]): string | undefined {
+	if (!assignee) return undefined
+	const mapped = tracker.assigneeAgents?.[assignee]
+	if (mapped) return mapped
+	return agentIds.includes(assignee) ? assignee : undefined
+}
+
+const CLOSED_STATUSES: TaskStatus[] = ["done", "verified", "cancelled"]
+
+/** The task's side of the synced fields */
+export function taskSnapshot(task: ManagedTask): IssueSyncSnapshot {
+	return {
+		title: task.title,
+		description: task.description,
+		priority: task.priority,
+		state: CLOSED_STATUSES.includes(task.status) ? "closed" : "open",
+	}
+}
+
+/** The issue's side of the synced fields (priority falls back to the synced one when no label maps) */
+export function issueSnapshot(tracker: IssueTracker, issue: ExternalIssue, synced: IssueSyncSnapshot): IssueSyncSnapshot {
+	return {
+		title: issue.title,
+		description: issue.body,
+		priority: mapLabelsToPriority(issue.labels, tracker.labelPriority) ?? synced.priority,
+		state: issue.state,
+	}
+}
+
+/** Comment posted on the issue when its task changes status */
+export function transitionComment(task: ManagedTask, transition: TaskStatusTransition): string {
+	const lines = [`**${task.taskId}**: ${transition.from} → ${transition.to} (by ${transition.triggeredBy})`]
+	if (transition.reason) lines.push("", transition.reason)
+	if (transition.to === "done" && task.result?.summary) lines.push("", task.result.summary.trim())
+	if (transition.metadata?.commitHash) lines.push("", `Commit: \`${transition.metadata.commitHash}\``)
+	if (transition.to === "blocked" && task.blockingReason) lines.push("", `Blocked: ${task.blockingReason.description}`)
+	return lines.join("\n")
+}
+
+// ============================================================================
+// Clients
+// ============================================================================
+
+abstract class HttpIssueTrackerClient implements IssueTrackerClient {
+	constructor(protected fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {}
+
+	abstract listIssues(tracker: IssueTracker, token: string, since?: string): Promise<ExternalIssue[]>
+	abstract getIssue(tracker: IssueTracker, token: string, key: string): Promise<ExternalIssue>
+	abstract updateIssue(tracker: IssueTracker, token: string, key: string, changes: ExternalIssueUpdate): Promise<ExternalIssue>
+	abstract addComment(tracker: IssueTracker, token: string, key: string, body: string): Promise<void>
+
+	protected async request(url: string, init: RequestInit): Promise<any> {
+		const response = await this.fetchImpl(url, init)
+		if (!response.ok) {
+			const error = await response.text()
+			throw new IssueTrackerApiError(`${response.status} - ${error}`, response.status)
+		}
+		// Jira answers updates with 204 No Content
+		const text = await response.text()
+		return text ? JSON.parse(text) : undefined
+	}
+}
+
+/** Pages fetched per listing, at 100 issues each */
+const MAX_PAGES = 10
+
+/** GitHub and GitHub Enterprise issues (REST v3). Pull requests are skipped. */
+export class GitHubIssueClient extends HttpIssueTrackerClient {
+	private apiUrl(tracker: IssueTracker): string {
+		const host = tracker.host || "github.com"
+		const base = host === "github.com" ? "https://api.github.com" : `${hostBaseUrl(host)}/api/v3`
+		return `${base}/repos/${tracker.repository}/issues`
+	}
+
+	private headers(token: string): Record<string, string> {
+		return {
+			"Content-Type": "application/json",
+			Accept: "application/vnd.github+json",
+			Authorization: `Bearer ${token}`,
+			"X-GitHub-Api-Version": "2022-11-28",
+		}
+	}
+
+	private toIssue(data: any): ExternalIssue {
+		return {
+			key: String(data.number),
+			title: data.title,
+			body: data.body ?? "",
+			state: data.state === "closed" ? "closed" : "open",
+			labels: (data.labels ?? []).map((l: any) => (typeof l === "string" ? l : l.name)),
+			assignee: data.assignee?.login,
+			url: data.html_url,
+			updatedAt: data.updated_at,
+		}
+	}
+
+	async listIssues(tracker: IssueTracker, token: string, since?: string): Promise<ExternalIssue[]> {
+		const issues: ExternalIssue[] = []
+		for (let page = 1; page <= MAX_PAGES; page++) {
+			const query = new URLSearchParams({ state: since ? "all" : "open", per_page: "100", page: String(page) })
+			if (since) query.set("since", since)
+			const data: any[] = await this.request(`${this.apiUrl(tracker)}?${query}`, { headers: this.headers(token) })
+			issues.push(...data.filter((d) => !d.pull_request).map((d) => this.toIssue(d)))
+			if (data.length < 100) break
+		}
+		return issues
+	}
+
+	async getIssue(tracker: IssueTracker, token: string, key: string): Promise<ExternalIssue> {
+		return this.toIssue(await this.request(`${this.apiUrl(tracker)}/${key}`, { headers: this.headers(token) }))
+	}
+
+	async updateIssue(tracker: IssueTracker, token: string, key: string, changes: ExternalIssueUpdate): Promise<ExternalIssue> {
+		const body: Record<string, string> = {}
+		if (changes.title !== undefined) body.title = changes.title
+		if (changes.body !== undefined) body.body = changes.body
+		if (changes.state) {
+			body.state = changes.state
+			if (changes.state === "closed") body.state_reason = changes.status === "cancelled" ? "not_planned" : "completed"
+		}
+		const data = await this.request(`${this.apiUrl(tracker)}/${key}`, {
+			method: "PATCH",
+			headers: this.headers(token),
+			body: JSON.stringify(body),
+		})
+		return this.toIssue(data)
+	}
+
+	async addComment(tracker: IssueTracker, token: string, key: string, body: string): Promise<void> {
+		await this.request(`${this.apiUrl(tracker)}/${key}/comments`, {
+			method: "POST",
+			headers: this.headers(token),
+			body: JSON.stringify({ body }),
+		})
+	}
+}
+
+/** GitLab issues (API v4) */
+export class GitLabIssueClient extends HttpIssueTrackerClient {
+	private apiUrl(tracker: IssueTracker): string {
+		return `${hostBaseUrl(tracker.host || "gitlab.com")}/api/v4/projects/${encodeURIComponent(tracker.repository)}/issues`
+	}
+
+	private toIssue(data: any): ExternalIssue {
+		return {
+			key: String(data.iid),
+			title: data.title,
+			body: data.description ?? "",
+			state: data.state === "closed" ? "closed" : "open",
+			labels: data.labels ?? [],
+			assignee: data.assignees?.[0]?.username ?? data.assignee?.username,
+			url: data.web_url,
+			updatedAt: data.updated_at,
+		}
+	}
+
+	async listIssues(tracker: IssueTracker, token: string, since?: string): Promise<ExternalIssue[]> {
+		const issues: ExternalIssue[] = []
+		for (let page = 1; page <= MAX_PAGES; page++) {
+			const query = new URLSearchParams({ per_page: "100", page: String(page) })
+			if (since) query.set("updated_after", since)
+			else query.set("state", "opened")
+			const data: any[] = await this.request(`${this.apiUrl(tracker)}?${query}`, { headers: { "PRIVATE-TOKEN": token } })
+			issues.push(...data.map((d) => this.toIssue(d)))
+			if (data.length < 100) break
+		}
+		return issues
+	}
+
+	async getIssue(tracker: IssueTracker, token: string, key: string): Promise<ExternalIssue> {
+		return this.toIssue(await this.request(`${this.apiUrl(tracker)}/${key}`, { headers: { "PRIVATE-TOKEN": token } }))
+	}
+
+	async updateIssue(tracker: IssueTracker, token: string, key: string, changes: ExternalIssueUpdate): Promise<ExternalIssue> {
+		const body: Record<string, string> = {}
+		if (changes.title !== undefined) body.title = changes.title
+		if (changes.body !== undefined) body.description = changes.body
+		if (changes.state) body.state_event = changes.state === "closed" ? "close" : "reopen"
+		const data = await this.request(`${this.apiUrl(tracker)}/${key}`, {
+			method: "PUT",
+			headers: { "Content-Type": "application/json", "PRIVATE-TOKEN": token },
+			body: JSON.stringify(body),
+		})
+		return this.toIssue(data)
+	}
+
+	async addComment(tracker: IssueTracker, token: string, key: string, body: string): Promise<void> {
+		await this.request(`${this.apiUrl(tracker)}/${key}/notes`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", "PRIVATE-TOKEN": token },
+			body: JSON.stringify({ body }),
+		})
+	}
+}
+
+/** Jira workflow status per task status when the tracker has no statusMap entry */
+export const DEFAULT_JIRA_STATUSES: Partial<Record<TaskStatus, string>> = {
+	planned: "To Do",
+	delegated: "To Do",
+	in_progress: "In Progress",
+	review: "In Review",
+	done: "Done",
+	verified: "Done",
+	cancelled: "Done",
+}
+
+const JIRA_FIELDS = "summary,description,status,labels,priority,assignee,updated"
+
+/** Jira Cloud / Server issues (REST v2). The Jira priority is read as a "priority:<name>" label. */
+export class JiraIssueClient extends HttpIssueTrackerClient {
+	private baseUrl(tracker: IssueTracker): string {
+		return hostBaseUrl(tracker.host ?? "")
+	}
+
+	private headers(tracker: IssueTracker, token: string): Record<string, string> {
+		return {
+			"Content-Type": "application/json",
+			Accept: "application/json",
+			Authorization: tracker.username
+				? `Basic ${Buffer.from(`${tracker.username}:${token}`).toString("base64")}`
+				: `Bearer ${token}`,
+		}
+	}
+
+	private toIssue(tracker: IssueTracker, data: any): ExternalIssue {
+		const fields = data.fields ?? {}
+		const labels: string[] = [...(fields.labels ?? [])]
+		if (fields.priority?.name) labels.push(`priority:${fields.priority.name}`)
+		return {
+			key: data.key,
+			title: fields.summary ?? "",
+			body: fields.description ?? "",
+			state: fields.status?.statusCategory?.key === "done" ? "closed" : "open",
+			labels,
+			assignee: fields.assignee?.emailAddress ?? fields.assignee?.name ?? fields.assignee?.accountId,
+			url: `${this.baseUrl(tracker)}/browse/${data.key}`,
+			// Jira writes offsets without a colon ("+0000")
+			updatedAt: fields.updated ? new Date(String(fields.updated).replace(/([+-]\d\d)(\d\d)$/, "$1:$2")).toISOString() : "",
+		}
+	}
+
+	async listIssues(tracker: IssueTracker, token: string, since?: string): Promise<ExternalIssue[]> {
+		// JQL compares dates in the server's time zone, so look back a day and let the caller skip unchanged issues
+		const clauses = [`project = "${tracker.repository}"`]
+		if (since) {
+			const day = new Date(new Date(since).getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+			clauses.push(`updated >= "${day}"`)
+		} else {
+			clauses.push("statusCategory != Done")
+		}
+		const jql = `${clauses.join(" AND ")} ORDER BY updated ASC`
+
+		const issues: ExternalIssue[] = []
+		for (let page = 0; page < MAX_PAGES; page++) {
+			const query = new URLSearchParams({ jql, fields: JIRA_FIELDS, maxResults: "100", startAt: String(page * 100) })
+			const data = await this.request(`${this.baseUrl(tracker)}/rest/api/2/search?${query}`, { headers: this.headers(tracker, token) })
+			issues.push(...(data.issues ?? []).map((d: any) => this.toIssue(tracker, d)))
+			if ((page + 1) * 100 >= (data.total ?? 0)) break
+		}
+		return issues
+	}
+
+	async getIssue(tracker: IssueTracker, token: string, key: string): Promise<ExternalIssue> {
+		const data = await this.request(`${this.baseUrl(tracker)}/rest/api/2/issue/${key}?fields=${JIRA_FIELDS}`, {
+			headers: this.headers(tracker, token),
+		})
+		return this.toIssue(tracker, data)
+	}
+
+	async updateIssue(tracker: IssueTracker, token: string, key: string, changes: ExternalIssueUpdate): Promise<ExternalIssue> {
+		const issueUrl = `${this.baseUrl(tracker)}/rest/api/2/issue/${key}`
+		const fields: Record<string, string> = {}
+		if (changes.title !== undefined) fields.summary = changes.title
+		if (changes.body !== undefined) fields.description = changes.body
+		if (Object.keys(fields).length > 0) {
+			await this.request(issueUrl, { method: "PUT", headers: this.headers(tracker, token), body: JSON.stringify({ fields }) })
+		}
+
+		const target = changes.status
+			? (tracker.statusMap?.[changes.status] ?? DEFAULT_JIRA_STATUSES[changes.status])
+			: changes.state && (changes.state === "closed" ? "Done" : "To Do")
+		if (target) {
+			const { transitions = [] } = await this.request(`${issueUrl}/transitions`, { headers: this.headers(tracker, token) })
+			const wanted = target.toLowerCase()
+			const transition = transitions.find((t: any) => t.to?.name?.toLowerCase() === wanted || t.name?.toLowerCase() === wanted)
+			if (transition) {
+				await this.request(`${issueUrl}/transitions`, {
+					method: "POST",
+					headers: this.headers(tracker, token),
+					body: JSON.stringify({ transition: { id: transition.id } }),
+				})
+			} else {
+				log.warn(`[IssueSync] ${key}: no Jira transition to "${target}"`)
+			}
+		}
+		return this.getIssue(tracker, token, key)
+	}
+
+	async addComment(tracker: IssueTracker, token: string, key: string, body: string): Promise<void> {
+		await this.request(`${this.baseUrl(tracker)}/rest/api/2/issue/${key}/comment`, {
+			method: "POST",
+			headers: this.headers(tracker, token),
+			body: JSON.stringify({ body }),
+		})
+	}
+}
+
+// ============================================================================
+// Tracker store
+// ============================================================================
+
+/**
+ * Trackers per project, one JSON file each (.society/issue-trackers/<project>.json)
+ */
+export class IssueTrackerStore {
+	constructor(private dir: string) {}
+
+	private filePath(projectId: string): string {
+		return path.join(this.dir, `${sanitizeFilename(projectId)}.json`)
+	}
+
+	list(projectId: string): IssueTracker[] {
+		const file = this.filePath(projectId)
+		if (!fs.existsSync(file)) return []
+		return JSON.parse(fs.readFileSync(file, "utf-8"))
+	}
+
+	/** Project IDs that have trackers */
+	projectIds(): string[] {
+		if (!fs.existsSync(this.dir)) return []
+		return fs
+			.readdirSync(this.dir)
+			.filter((f) => f.endsWith(".json"))
+			.map((f) => f.slice(0, -".json".length))
+	}
+
+	get(projectId: string, trackerId: string): IssueTracker | undefined {
+		return this.list(projectId).find((t) => t.id === trackerId)
+	}
+
+	private write(projectId: string, trackers: IssueTracker[]): void {
+		fs.mkdirSync(this.dir, { recursive: true })
+		fs.writeFileSync(this.filePath(projectId), JSON.stringify(trackers, null, 2), "utf-8")
+	}
+
+	add(projectId: string, data: Omit<IssueTracker, "id" | "createdAt" | "autoSync"> & { autoSync?: boolean }): IssueTracker {
+		const tracker: IssueTracker = {
+			...data,
+			id: `IT-${Math.random().toString(36).slice(2, 8)}`,
+			autoSync: data.autoSync ?? true,
+			createdAt: new Date().toISOString(),
+		}
+		this.write(projectId, [...this.list(projectId), tracker])
+		return tracker
+	}
+
+	update(projectId: string, trackerId: string, changes: Partial<Omit<IssueTracker, "id" | "createdAt">>): IssueTracker | undefined {
+		const trackers = this.list(projectId)
+		const idx = trackers.findIndex((t) => t.id === trackerId)
+		if (idx === -1) return undefined
+		trackers[idx] = { ...trackers[idx], ...changes }
+		this.write(projectId, trackers)
+		return trackers[idx]
+	}
+
+	remove(projectId: string, trackerId: string): boolean {
+		const trackers = this.list(projectId)
+		const remaining = trackers.filter((t) => t.id !== trackerId)
+		if (remaining.length === trackers.length) return false
+		this.write(projectId, remaining)
+		return true
+	}
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/** The parts of ProjectStore the sync needs */
+export interface IssueSyncTaskStore {
+	get(projectId: string): { agents: Array<{ id: string }> } | undefined
+	getManagedTasks(projectId: string): ManagedTask[]
+	getManagedTask(projectId: string, taskId: string): ManagedTask | undefined
+	createManagedTask(
+		projectId: string,
+		data: { title: string; description: string; createdBy: string; priority?: ManagedTask["priority"]; context?: ManagedTask["context"] },
+	): ManagedTask | undefined
+	delegateManagedTask(projectId: string, taskId: string, toAgentId: string, byAgentId: string): ManagedTask | undefined
+	transitionManagedTask(projectId: string, taskId: string, newStatus: TaskStatus, agentId: string, options?: { reason?: string }): ManagedTask | undefined
+	recordManagedTaskIssue(
+		projectId: string,
+		taskId: string,
+		externalIssue: TaskExternalIssue,
+		changes?: Partial<Pick<ManagedTask, "title" | "description" | "priority">>,
+	): ManagedTask | undefined
+}
+
+export interface IssueSyncResult {
+	trackerId: string
+	/** Tasks created from new issues */
+	created: string[]
+	/** Tasks updated from their issue */
+	updated: string[]
+	/** Tasks whose changes were sent to their issue */
+	pushed: string[]
+	/** Fields newly in conflict */
+	conflicts: Array<{ taskId: string; field: IssueSyncField }>
+}
+
+export interface IssueSyncOptions {
+	/** API token for a tracker (GitLoader.apiToken) */
+	token: (tracker: IssueTracker) => string | Promise<string>
+	/** Poll interval (default: 5 minutes) */
+	intervalMs?: number
+	/** Called after each successful sync */
+	onSync?: (projectId: string, result: IssueSyncResult) => void
+	/** Called when a field is edited on both sides */
+	onConflict?: (projectId: string, task: ManagedTask, conflict: IssueSyncConflict) => void
+}
+
+/** Agent recorded on changes made by the sync */
+const SYNC_AGENT = "issue-sync"
+
+/**
+ * Imports issues as managed tasks and keeps both sides in step. Calls for the
+ * same tracker run one at a time so a poll and a task transition never race.
+ */
+export class IssueSyncService {
+	private clients: Record<IssueTrackerKind, IssueTrackerClient> = {
+		github: new GitHubIssueClient(),
+		gitlab: new GitLabIssueClient(),
+		jira: new JiraIssueClient(),
+	}
+	private queues = new Map<string, Promise<unknown>>()
+	/** Tasks being changed by the sync itself (their transitions are not echoed back) */
+	private applyingRemote = new Set<string>()
+	private timer: NodeJS.Timeout | null = null
+	private polling = false
+
+	constructor(
+		private trackers: IssueTrackerStore,
+		private tasks: IssueSyncTaskStore,
+		private options: IssueSyncOptions,
+	) {}
+
+	/** Replace the client for a tracker kind (a local fake in tests, or another tracker) */
+	setClient(kind: IssueTrackerKind, client: IssueTrackerClient): void {
+		this.clients[kind] = client
+	}
+
+	private serialize<T>(key: string, run: () => Promise<T>): Promise<T> {
+		const next = (this.queues.get(key) ?? Promise.resolve()).catch(() => undefined).then(run)
+		this.queues.set(key, next)
+		next.catch(() => undefined).finally(() => {
+			if (this.queues.get(key) === next) this.queues.delete(key)
+		})
+		return next
+	}
+
+	private withoutEcho<T>(projectId: string, taskId: string, change: () => T): T {
+		const key = `${projectId}/${taskId}`
+		this.applyingRemote.add(key)
+		try {
+			return change()
+		} finally {
+			this.applyingRemote.delete(key)
+		}
+	}
+
+	/**
+	 * Import new issues and reconcile linked tasks with their issues.
+	 * @throws if the tracker does not exist or cannot be reached
+	 */
+	sync(projectId: string, trackerId: string): Promise<IssueSyncResult> {
+		const tracker = this.trackers.get(projectId, trackerId)
+		if (!tracker) return Promise.reject(new Error(`Issue tracker ${trackerId} not found`))
+
+		return this.serialize(`${projectId}/${trackerId}`, async () => {
+			const startedAt = new Date().toISOString()
+			try {
+				const result = await this.runSync(projectId, tracker, startedAt)
+				this.trackers.update(projectId, trackerId, { lastSyncAt: startedAt, lastError: undefined })
+				log.info(
+					`[IssueSync] ${projectId}/${trackerId}: ${result.created.length} created, ${result.updated.length} updated, ` +
+						`${result.pushed.length} pushed, ${result.conflicts.length} conflicts`,
+				)
+				this.options.onSync?.(projectId, result)
+				return result
+			} catch (err) {
+				this.trackers.update(projectId, trackerId, { lastError: err instanceof Error ? err.message : String(err) })
+				throw err
+			}
+		})
+	}
+
+	private async runSync(projectId: string, tracker: IssueTracker, startedAt: string): Promise<IssueSyncResult> {
+		const client = this.clients[tracker.provider]
+		const token = await this.options.token(tracker)
+		const result: IssueSyncResult = { trackerId: tracker.id, created: [], updated: [], pushed: [], conflicts: [] }
+
+		const linked = new Map<string, ManagedTask>()
+		for (const task of this.tasks.getManagedTasks(projectId)) {
+			if (task.externalIssue?.trackerId === tracker.id) linked.set(task.externalIssue.key, task)
+		}
+		const agentIds = (this.tasks.get(projectId)?.agents ?? []).map((a) => a.id)
+
+		const issues = await client.listIssues(tracker, token, tracker.lastSyncAt)
+		const seen = new Set<string>()
+		for (const issue of issues) {
+			seen.add(issue.key)
+			const task = linked.get(issue.key)
+			if (!task) {
+				if (issue.state === "closed") continue
+				if (tracker.labels?.length && !issue.labels.some((l) => tracker.labels!.includes(l))) continue
+				const created = this.importIssue(projectId, tracker, issue, agentIds, startedAt)
+				if (created) result.created.push(created.taskId)
+				continue
+			}
+			if (issue.updatedAt === task.externalIssue!.remoteUpdatedAt && !this.hasLocalChanges(task)) continue
+			await this.reconcile(projectId, tracker, token, task, issue, result)
+			this.delegateIfPlanned(projectId, tracker, task.taskId, issue.assignee, agentIds)
+		}
+
+		// Issues not listed did not change remotely; send local edits
+		for (const [key, task] of linked) {
+			if (seen.has(key) || !this.hasLocalChanges(task)) continue
+			await this.reconcile(projectId, tracker, token, task, undefined, result)
+		}
+		return result
+	}
+
+	private importIssue(projectId: string, tracker: IssueTracker, issue: ExternalIssue, agentIds: string[], now: string): ManagedTask | undefined {
+		const priority = mapLabelsToPriority(issue.labels, tracker.labelPriority) ?? 3
+		const task = this.tasks.createManagedTask(projectId, {
+			title: issue.title,
+			description: issue.body,
+			createdBy: SYNC_AGENT,
+			priority,
+			context: { notes: `Imported from ${issue.url}` },
+		})
+		if (!task) return undefined
+
+		const externalIssue: TaskExternalIssue = {
+			trackerId: tracker.id,
+			provider: tracker.provider,
+			key: issue.key,
+			url: issue.url,
+			remoteUpdatedAt: issue.updatedAt,
+			lastSyncedAt: now,
+			synced: taskSnapshot(task),
+		}
+		this.tasks.recordManagedTaskIssue(projectId, task.taskId, externalIssue)
+		this.delegateIfPlanned(projectId, tracker, task.taskId, issue.assignee, agentIds)
+		log.info(`[IssueSync] Imported ${issue.url} as ${task.taskId}`)
+		return this.tasks.getManagedTask(projectId, task.taskId)
+	}
+
+	private delegateIfPlanned(projectId: string, tracker: IssueTracker, taskId: string, assignee: string | undefined, agentIds: string[]): void {
+		const agentId = mapAssigneeToAgent(tracker, assignee, agentIds)
+		if (!agentId || this.tasks.getManagedTask(projectId, taskId)?.status !== "planned") return
+		this.withoutEcho(projectId, taskId, () => this.tasks.delegateManagedTask(projectId, taskId, agentId, SYNC_AGENT))
+	}
+
+	private hasLocalChanges(task: ManagedTask): boolean {
+		const local = taskSnapshot(task)
+		return ISSUE_SYNC_FIELDS.some((field) => local[field] !== task.externalIssue!.synced[field])
+	}
+
+	/**
+	 * Three-way merge of one task with its issue (undefined: the issue is unchanged
+	 * since the last sync). `moveStatus` also moves a Jira issue to the workflow
+	 * status of the task's current status.
+	 */
+	private async reconcile(
+		projectId: string,
+		tracker: IssueTracker,
+		token: string,
+		task: ManagedTask,
+		issue: ExternalIssue | undefined,
+		result: IssueSyncResult,
+		moveStatus = false,
+	): Promise<ManagedTask | undefined> {
+		const ext = task.externalIssue!
+		const local = taskSnapshot(task)
+		const remote = issue ? issueSnapshot(tracker, issue, ext.synced) : ext.synced
+		const synced: IssueSyncSnapshot = { ...ext.synced }
+		const conflicts = [...(ext.conflicts ?? [])]
+		const now = new Date().toISOString()
+		const pull: Partial<IssueSyncSnapshot> = {}
+		const push: ExternalIssueUpdate = {}
+
+		for (const field of ISSUE_SYNC_FIELDS) {
+			const l = local[field]
+			const r = remote[field]
+			const existing = conflicts.findIndex((c) => c.field === field)
+			if (l === r) {
+				Object.assign(synced, { [field]: l })
+				if (existing !== -1) conflicts.splice(existing, 1)
+				continue
+			}
+			const localChanged = l !== ext.synced[field]
+			const remoteChanged = r !== ext.synced[field]
+			if (localChanged && remoteChanged) {
+				const conflict: IssueSyncConflict = { field, local: l, remote: r, detectedAt: now }
+				if (existing === -1) {
+					conflicts.push(conflict)
+					result.conflicts.push({ taskId: task.taskId, field })
+					this.options.onConflict?.(projectId, task, conflict)
+				} else {
+					conflicts[existing] = { ...conflicts[existing], local: l, remote: r }
+				}
+			} else if (remoteChanged) {
+				Object.assign(pull, { [field]: r })
+			} else if (field === "priority") {
+				// Priority is not sent to the tracker; the local value becomes the baseline
+				synced.priority = local.priority
+			} else if (field === "title") {
+				push.title = local.title
+			} else if (field === "description") {
+				push.body = local.description
+			} else {
+				push.state = local.state
+			}
+		}
+
+		// Remote changes
+		if (pull.state) {
+			const moved = this.withoutEcho(projectId, task.taskId, () => this.applyRemoteState(projectId, task.taskId, pull.state!, issue?.url))
+			if (moved) {
+				synced.state = pull.state
+			} else if (!conflicts.some((c) => c.field === "state")) {
+				const conflict: IssueSyncConflict = { field: "state", local: local.state, remote: pull.state, detectedAt: now }
+				conflicts.push(conflict)
+				result.conflicts.push({ taskId: task.taskId, field: "state" })
+				this.options.onConflict?.(projectId, task, conflict)
+			}
+		}
+		const changes: Partial<Pick<ManagedTask, "title" | "description" | "priority">> = {}
+		if (pull.title !== undefined) changes.title = synced.title = pull.title
+		if (pull.description !== undefined) changes.description = synced.description = pull.description
+		if (pull.priority !== undefined) changes.priority = synced.priority = pull.priority
+		if (Object.keys(pull).length > 0) result.updated.push(task.taskId)
+
+		// Local changes
+		let remoteUpdatedAt = issue?.updatedAt ?? ext.remoteUpdatedAt
+		if (push.state || (moveStatus && tracker.provider === "jira")) {
+			push.status = this.tasks.getManagedTask(projectId, task.taskId)?.status
+		}
+		if (push.title !== undefined || push.body !== undefined || push.state || push.status) {
+			const updated = await this.clients[tracker.provider].updateIssue(tracker, token, ext.key, push)
+			if (push.title !== undefined) synced.title = push.title
+			if (push.body !== undefined) synced.description = push.body
+			if (push.state) synced.state = updated.state
+			remoteUpdatedAt = updated.updatedAt
+			result.pushed.push(task.taskId)
+		}
+
+		return this.tasks.recordManagedTaskIssue(
+			projectId,
+			task.taskId,
+			{ ...ext, synced, conflicts: conflicts.length > 0 ? conflicts : undefined, remoteUpdatedAt, lastSyncedAt: now },
+			changes,
+		)
+	}
+
+	/**
+	 * Close or reopen a task after its issue was. Closing finishes started work
+	 * (through review to done) and cancels work not yet started; reopening moves
+	 * done back to in_progress. Returns false if the task cannot follow.
+	 */
+	private applyRemoteState(projectId: string, taskId: string, state: "open" | "closed", url?: string): boolean {
+		const task = this.tasks.getManagedTask(projectId, taskId)
+		if (!task) return false
+		const reason = `Issue ${state === "closed" ? "closed" : "reopened"}${url ? `: ${url}` : ""}`
+
+		let steps: TaskStatus[]
+		if (state === "open") {
+			steps = task.status === "done" ? ["in_progress"] : []
+		} else if (task.status === "in_progress") {
+			steps = ["review", "done"]
+		} else if (task.status === "blocked") {
+			steps = ["in_progress", "review", "done"]
+		} else if (task.status === "review") {
+			steps = ["done"]
+		} else if (task.status === "planned" || task.status === "delegated" || task.status === "failed") {
+			steps = ["cancelled"]
+		} else {
+			steps = []
+		}
+		if (steps.length === 0) return false
+
+		for (const step of steps) {
+			if (!this.tasks.transitionManagedTask(projectId, taskId, step, SYNC_AGENT, { reason })) return false
+		}
+		return true
+	}
+
+	/**
+	 * Post a task transition to its issue as a comment, then send any local edits
+	 * (closing/reopening the issue). Transitions made by the sync itself are ignored.
+	 */
+	handleTransition(projectId: string, task: ManagedTask, transition: TaskStatusTransition): Promise<void> {
+		const ext = task.externalIssue
+		if (!ext || transition.from === transition.to || this.applyingRemote.has(`${projectId}/${task.taskId}`)) {
+			return Promise.resolve()
+		}
+		const tracker = this.trackers.get(projectId, ext.trackerId)
+		if (!tracker) return Promise.resolve()
+
+		return this.serialize(`${projectId}/${tracker.id}`, async () => {
+			const client = this.clients[tracker.provider]
+			const token = await this.options.token(tracker)
+			await client.addComment(tracker, token, ext.key, transitionComment(task, transition))
+
+			const latest = this.tasks.getManagedTask(projectId, task.taskId)
+			if (!latest?.externalIssue) return
+			// Fetch the issue so a close/reopen made there meanwhile is seen as a conflict, not overwritten
+			const issue = await client.getIssue(tracker, token, ext.key)
+			const result: IssueSyncResult = { trackerId: tracker.id, created: [], updated: [], pushed: [], conflicts: [] }
+			// Queued transitions are already behind the task; only the latest moves the Jira status
+			await this.reconcile(projectId, tracker, token, latest, issue, result, latest.status === transition.to)
+		})
+	}
+
+	/**
+	 * Settle a conflict by keeping one side's value; the other side is updated to match.
+	 * @throws if the task has no such conflict or the tracker cannot be reached
+	 */
+	resolveConflict(projectId: string, taskId: string, field: IssueSyncField, use: "local" | "remote"): Promise<ManagedTask | undefined> {
+		const task = this.tasks.getManagedTask(projectId, taskId)
+		const ext = task?.externalIssue
+		const conflict = ext?.conflicts?.find((c) => c.field === field)
+		if (!task || !ext || !conflict) return Promise.reject(new Error(`No ${field} conflict on ${taskId}`))
+		const tracker = this.trackers.get(projectId, ext.trackerId)
+		if (!tracker) return Promise.reject(new Error(`Issue tracker ${ext.trackerId} not found`))
+
+		return this.serialize(`${projectId}/${tracker.id}`, async () => {
+			const token = await this.options.token(tracker)
+			const latest = this.tasks.getManagedTask(projectId, taskId)!
+			const issue = await this.clients[tracker.provider].getIssue(tracker, token, ext.key)
+			const local = taskSnapshot(latest)
+			const remote = issueSnapshot(tracker, issue, latest.externalIssue!.synced)
+			// Pretend the losing side is the baseline: the merge then copies the winning side over
+			const synced = { ...latest.externalIssue!.synced, [field]: use === "local" ? remote[field] : local[field] }
+			const conflicts = (latest.externalIssue!.conflicts ?? []).filter((c) => c.field !== field)
+			const result: IssueSyncResult = { trackerId: tracker.id, created: [], updated: [], pushed: [], conflicts: [] }
+			log.info(`[IssueSync] ${taskId}: ${field} conflict resolved with the ${use} value`)
+			return this.reconcile(projectId, tracker, token, { ...latest, externalIssue: { ...latest.externalIssue!, synced, conflicts } }, issue, result)
+		})
+	}
+
+	/** Start polling trackers with autoSync. Idempotent. */
+	start(): void {
+		if (this.timer) return
+		const intervalMs = this.options.intervalMs ?? 5 * 60_000
+		this.timer = setInterval(() => {
+			this.pollOnce().catch((err) => log.error("[IssueSync] Poll failed:", err))
+		}, intervalMs)
+		this.timer.unref?.()
+		log.info(`[IssueSync] Syncing issue trackers (every ${Math.round(intervalMs / 1000)}s)`)
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+	}
+
+	/** Sync every tracker with autoSync once. Returns how many synced. */
+	async pollOnce(): Promise<number> {
+		if (this.polling) return 0
+		this.polling = true
+		let synced = 0
+		try {
+			for (const projectId of this.trackers.projectIds()) {
+				if (!this.tasks.get(projectId)) continue
+				for (const tracker of this.trackers.list(projectId)) {
+					if (!tracker.autoSync) continue
+					try {
+						await this.sync(projectId, tracker.id)
+						synced++
+					} catch (err) {
+						log.warn(`[IssueSync] Could not sync ${tracker.provider} ${tracker.repository}: ${err instanceof Error ? err.message : err}`)
+					}
+				}
+			}
+		} finally {
+			this.polling = false
+		}
+		return synced
+	}
+}
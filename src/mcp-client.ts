@@ -6,21 +6,31 @@
  * - Global MCPs: /mcp-config.json (user-managed, read-only for agents)
  * - Project MCPs: projects/{project}/mcp.json (user-managed, project scope)
  * 
- * Agents can LIST and USE MCPs, but cannot REGISTER them.
+ * Servers are either local processes (command/args, stdio) or remote URLs
+ * (streamable HTTP or legacy SSE, with optional headers and auth) - see mcp-transports.ts.
+ * 
+ * Agents can LIST and USE MCPs, but cannot REGISTER them. Besides tools, servers may
+ * expose resources (readable, optionally subscribable data) and prompts (templated
+ * messages); both are gated on the capabilities the server announces at initialize.
+ * Resource update notifications are emitted as "resource-updated" events.
  */
 
-import { spawn, ChildProcess } from "child_process"
 import * as fs from "fs"
 import * as path from "path"
 import { EventEmitter } from "events"
+import {
+	createMcpTransport,
+	resolveTransportKind,
+	McpSessionExpiredError,
+	type McpServerConfig,
+	type McpTransport,
+	type JsonRpcMessage,
+} from "./mcp-transports"
 
-// MCP server configuration
-interface McpServerConfig {
-	command: string
-	args?: string[]
-	env?: Record<string, string>
-	description?: string
-}
+/** Protocol version requested at initialize; streamable HTTP was introduced in 2025-03-26 */
+const PROTOCOL_VERSIONS = { stdio: "2024-11-05", sse: "2024-11-05", "streamable-http": "2025-03-26" } as const
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000
 
 interface McpConfig {
 	servers: Record<string, McpServerConfig>
@@ -42,22 +52,81 @@ interface McpToolResult {
 	isError?: boolean
 }
 
+/** Capabilities a server announces in its initialize result */
+interface McpServerCapabilities {
+	tools?: { listChanged?: boolean }
+	resources?: { subscribe?: boolean; listChanged?: boolean }
+	prompts?: { listChanged?: boolean }
+}
+
+interface McpResource {
+	uri: string
+	name: string
+	description?: string
+	mimeType?: string
+}
+
+interface McpResourceTemplate {
+	uriTemplate: string
+	name: string
+	description?: string
+	mimeType?: string
+}
+
+/** One item of a resources/read result - text or base64 blob */
+interface McpResourceContents {
+	uri: string
+	mimeType?: string
+	text?: string
+	blob?: string
+}
+
+interface McpPrompt {
+	name: string
+	description?: string
+	arguments?: Array<{ name: string; description?: string; required?: boolean }>
+}
+
+interface McpPromptMessage {
+	role: "user" | "assistant"
+	content: { type: string; text?: string; mimeType?: string; resource?: McpResourceContents }
+}
+
+interface McpPromptResult {
+	description?: string
+	messages: McpPromptMessage[]
+}
+
+/** Payload of the "resource-updated" event */
+interface McpResourceUpdate {
+	serverName: string
+	uri: string
+	/** Subscriber IDs passed to subscribeResource() */
+	subscribers: string[]
+}
+
+/** Upper bound on pages fetched for paginated list methods */
+const MAX_LIST_PAGES = 20
+
 // Active MCP server connection
 interface McpConnection {
-	process: ChildProcess
+	transport: McpTransport
 	config: McpServerConfig
 	tools: McpTool[]
+	capabilities: McpServerCapabilities
 	ready: boolean
 	lastUsed: number
 	messageId: number
 	pendingRequests: Map<number, { resolve: (value: any) => void; reject: (err: Error) => void }>
-	buffer: string
 }
 
 class McpClientManager extends EventEmitter {
 	private connections: Map<string, McpConnection> = new Map()
+	private connecting: Map<string, Promise<McpConnection>> = new Map()
 	private globalConfig: McpConfig | null = null
 	private projectConfigs: Map<string, McpConfig> = new Map()
+	// serverName -> resource URI -> subscriber IDs
+	private subscriptions: Map<string, Map<string, Set<string>>> = new Map()
 	private workspacePath: string
 	
 	constructor(workspacePath: string) {
@@ -145,99 +214,122 @@ class McpClientManager extends EventEmitter {
 		const lines = Object.entries(servers).map(([name, config]) => {
 			const scope = config.source === "global" ? "🌐" : "📁"
 			const connected = this.connections.has(name) ? " (connected)" : ""
-			return `- **${name}** ${scope}${connected}: ${config.description || "(no description)"}`
+			const remote = config.url ? " (remote)" : ""
+			return `- **${name}** ${scope}${remote}${connected}: ${config.description || "(no description)"}`
 		})
 		
 		return `🔌 **Available MCP Servers:**\n\n${lines.join("\n")}\n\n` +
 			`Use \`list_mcp_tools("server_name")\` to see available tools.\n` +
-			`Use \`use_mcp("server_name", "tool_name", {...})\` to call a tool.`
+			`Use \`use_mcp("server_name", "tool_name", {...})\` to call a tool.\n` +
+			`Use \`list_mcp_resources("server_name")\` / \`list_mcp_prompts("server_name")\` for data and prompt templates.`
 	}
 	
 	/**
 	 * Connect to an MCP server (lazy - called on first use)
 	 */
 	private async connect(serverName: string, config: McpServerConfig): Promise<McpConnection> {
-		return new Promise((resolve, reject) => {
-			console.log(`[MCP] Connecting to ${serverName}: ${config.command} ${(config.args || []).join(" ")}`)
-			
-			const proc = spawn(config.command, config.args || [], {
-				env: { ...process.env, ...config.env },
-				stdio: ["pipe", "pipe", "pipe"],
-			})
-			
-			const connection: McpConnection = {
-				process: proc,
-				config,
-				tools: [],
-				ready: false,
-				lastUsed: Date.now(),
-				messageId: 0,
-				pendingRequests: new Map(),
-				buffer: "",
+		const transport = createMcpTransport(serverName, config)
+		const connection: McpConnection = {
+			transport,
+			config,
+			tools: [],
+			capabilities: {},
+			ready: false,
+			lastUsed: Date.now(),
+			messageId: 0,
+			pendingRequests: new Map(),
+		}
+		
+		transport.onmessage = (msg) => this.handleMessage(serverName, connection, msg)
+		transport.onclose = () => {
+			if (this.connections.get(serverName) === connection) this.connections.delete(serverName)
+			for (const { reject } of connection.pendingRequests.values()) {
+				reject(new Error(`Connection to ${serverName} closed`))
 			}
-			
-			// Handle stdout (JSON-RPC responses)
-			proc.stdout?.on("data", (data: Buffer) => {
-				connection.buffer += data.toString()
-				this.processBuffer(serverName, connection)
-			})
-			
-			// Handle stderr (logs)
-			proc.stderr?.on("data", (data: Buffer) => {
-				console.log(`[MCP ${serverName}] ${data.toString().trim()}`)
-			})
-			
-			proc.on("error", (err) => {
-				console.error(`[MCP ${serverName}] Process error:`, err)
-				this.connections.delete(serverName)
-				reject(err)
-			})
-			
-			proc.on("exit", (code) => {
-				console.log(`[MCP ${serverName}] Exited with code ${code}`)
-				this.connections.delete(serverName)
-			})
-			
-			this.connections.set(serverName, connection)
+			connection.pendingRequests.clear()
+		}
+		
+		this.connections.set(serverName, connection)
+		try {
+			await transport.start()
 			
 			// Initialize the connection
-			this.sendRequest(serverName, "initialize", {
-				protocolVersion: "2024-11-05",
+			const result = await this.sendRequest(serverName, "initialize", {
+				protocolVersion: PROTOCOL_VERSIONS[resolveTransportKind(config)],
 				capabilities: {},
 				clientInfo: { name: "society-agent", version: "1.0" },
 			})
-				.then(() => {
-					connection.ready = true
-					console.log(`[MCP ${serverName}] Connected and initialized`)
-					resolve(connection)
-				})
-				.catch(reject)
-		})
+			transport.protocolVersion = result?.protocolVersion
+			connection.capabilities = result?.capabilities || {}
+			await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" })
+		} catch (err) {
+			this.connections.delete(serverName)
+			await transport.close().catch(() => undefined)
+			throw err
+		}
+		
+		connection.ready = true
+		console.log(`[MCP ${serverName}] Connected and initialized`)
+		await this.restoreSubscriptions(serverName, connection)
+		return connection
 	}
 	
 	/**
-	 * Process buffered JSON-RPC messages
+	 * Re-subscribe to resources after a reconnect (subscriptions are per session)
 	 */
-	private processBuffer(serverName: string, connection: McpConnection): void {
-		const lines = connection.buffer.split("\n")
-		connection.buffer = lines.pop() || "" // Keep incomplete line
-		
-		for (const line of lines) {
-			if (!line.trim()) continue
-			try {
-				const msg = JSON.parse(line)
-				if (msg.id !== undefined && connection.pendingRequests.has(msg.id)) {
-					const { resolve, reject } = connection.pendingRequests.get(msg.id)!
-					connection.pendingRequests.delete(msg.id)
-					if (msg.error) {
-						reject(new Error(msg.error.message || JSON.stringify(msg.error)))
-					} else {
-						resolve(msg.result)
-					}
+	private async restoreSubscriptions(serverName: string, connection: McpConnection): Promise<void> {
+		const uris = [...(this.subscriptions.get(serverName)?.keys() || [])]
+		if (uris.length === 0) return
+		if (!connection.capabilities.resources?.subscribe) {
+			console.error(`[MCP ${serverName}] Server no longer supports resource subscriptions; ${uris.length} dropped`)
+			this.subscriptions.delete(serverName)
+			return
+		}
+		await connection.transport.listen?.().catch((err) => console.error(`[MCP ${serverName}] Notification stream failed:`, err))
+		for (const uri of uris) {
+			await this.sendRequest(serverName, "resources/subscribe", { uri }).catch((err) =>
+				console.error(`[MCP ${serverName}] Failed to restore subscription to ${uri}:`, err),
+			)
+		}
+	}
+	
+	/**
+	 * Route a JSON-RPC message from the server to its pending request,
+	 * or handle it as a notification
+	 */
+	private handleMessage(serverName: string, connection: McpConnection, msg: JsonRpcMessage): void {
+		if (msg.id === undefined && msg.method) {
+			this.handleNotification(serverName, connection, msg)
+			return
+		}
+		if (typeof msg.id !== "number" || !connection.pendingRequests.has(msg.id)) return
+		const { resolve, reject } = connection.pendingRequests.get(msg.id)!
+		connection.pendingRequests.delete(msg.id)
+		if (msg.error) {
+			reject(new Error(msg.error.message || JSON.stringify(msg.error)))
+		} else {
+			resolve(msg.result)
+		}
+	}
+	
+	private handleNotification(serverName: string, connection: McpConnection, msg: JsonRpcMessage): void {
+		switch (msg.method) {
+			case "notifications/resources/updated": {
+				const uri = msg.params?.uri
+				if (typeof uri !== "string") return
+				const update: McpResourceUpdate = {
+					serverName,
+					uri,
+					subscribers: [...(this.subscriptions.get(serverName)?.get(uri) || [])],
 				}
-			} catch (err) {
-				// Ignore non-JSON lines
+				console.log(`[MCP ${serverName}] Resource updated: ${uri}`)
+				this.emit("resource-updated", update)
+				break
 			}
+			case "notifications/tools/list_changed":
+				// Refetched on the next list_mcp_tools
+				connection.tools = []
+				break
 		}
 	}
 	
@@ -251,38 +343,104 @@ class McpClientManager extends EventEmitter {
 		}
 		
 		const id = ++connection.messageId
-		const request = { jsonrpc: "2.0", id, method, params }
+		const request: JsonRpcMessage = { jsonrpc: "2.0", id, method, params }
+		const timeoutMs = connection.config.timeoutMs || DEFAULT_REQUEST_TIMEOUT_MS
 		
 		return new Promise((resolve, reject) => {
-			connection.pendingRequests.set(id, { resolve, reject })
-			connection.process.stdin?.write(JSON.stringify(request) + "\n")
-			
-			// Timeout after 30 seconds
-			setTimeout(() => {
+			const timer = setTimeout(() => {
 				if (connection.pendingRequests.has(id)) {
 					connection.pendingRequests.delete(id)
 					reject(new Error(`Request timed out: ${method}`))
 				}
-			}, 30000)
+			}, timeoutMs)
+			connection.pendingRequests.set(id, {
+				resolve: (value) => {
+					clearTimeout(timer)
+					resolve(value)
+				},
+				reject: (err) => {
+					clearTimeout(timer)
+					reject(err)
+				},
+			})
+			connection.transport.send(request).catch((err) => {
+				if (connection.pendingRequests.has(id)) {
+					connection.pendingRequests.get(id)!.reject(err)
+					connection.pendingRequests.delete(id)
+				}
+			})
 		})
 	}
 	
+	/**
+	 * Send a request, reconnecting once if a remote server dropped our session
+	 */
+	private async request(serverName: string, method: string, params: any, projectId?: string): Promise<any> {
+		try {
+			return await this.sendRequest(serverName, method, params)
+		} catch (err) {
+			if (!(err instanceof McpSessionExpiredError)) throw err
+			console.log(`[MCP ${serverName}] Session expired, reconnecting`)
+			const stale = this.connections.get(serverName)
+			this.connections.delete(serverName)
+			await stale?.transport.close().catch(() => undefined)
+			await this.ensureConnected(serverName, projectId)
+			return this.sendRequest(serverName, method, params)
+		}
+	}
+	
 	/**
 	 * Ensure server is connected, connect if needed
 	 */
 	private async ensureConnected(serverName: string, projectId?: string): Promise<McpConnection> {
-		if (this.connections.has(serverName)) {
-			const conn = this.connections.get(serverName)!
-			conn.lastUsed = Date.now()
-			return conn
+		const existing = this.connections.get(serverName)
+		if (existing?.ready) {
+			existing.lastUsed = Date.now()
+			return existing
 		}
 		
+		// Concurrent callers share one handshake
+		const pending = this.connecting.get(serverName)
+		if (pending) return pending
+		
 		const servers = this.getAvailableServers(projectId)
 		if (!servers[serverName]) {
 			throw new Error(`MCP server "${serverName}" not found. Use list_mcps() to see available servers.`)
 		}
 		
-		return this.connect(serverName, servers[serverName])
+		const connecting = this.connect(serverName, servers[serverName]).finally(() => this.connecting.delete(serverName))
+		this.connecting.set(serverName, connecting)
+		return connecting
+	}
+	
+	/**
+	 * Connect and make sure the server announced a capability
+	 */
+	private async ensureCapability(
+		serverName: string,
+		capability: "resources" | "prompts",
+		projectId?: string,
+	): Promise<McpConnection> {
+		const connection = await this.ensureConnected(serverName, projectId)
+		if (!connection.capabilities[capability]) {
+			throw new Error(`MCP server "${serverName}" does not support ${capability}`)
+		}
+		return connection
+	}
+	
+	/**
+	 * Fetch every page of a paginated list method
+	 */
+	private async listAll<T>(serverName: string, method: string, key: string, projectId?: string): Promise<T[]> {
+		const items: T[] = []
+		let cursor: string | undefined
+		for (let page = 0; page < MAX_LIST_PAGES; page++) {
+			const result = await this.request(serverName, method, cursor ? { cursor } : {}, projectId)
+			items.push(...(result?.[key] || []))
+			cursor = result?.nextCursor
+			if (!cursor) break
+		}
+		return items
 	}
 	
 	/**
@@ -294,7 +452,7 @@ class McpClientManager extends EventEmitter {
 			
 			// Fetch tools if not cached
 			if (connection.tools.length === 0) {
-				const result = await this.sendRequest(serverName, "tools/list", {})
+				const result = await this.request(serverName, "tools/list", {}, projectId)
 				connection.tools = result.tools || []
 			}
 			
@@ -342,10 +500,10 @@ use_mcp("playwright", "browser_click", { ref: "e7" })  // Click using ref
 			
 			console.log(`[MCP ${serverName}] Calling tool: ${toolName}`, params)
 			
-			const result: McpToolResult = await this.sendRequest(serverName, "tools/call", {
+			const result: McpToolResult = await this.request(serverName, "tools/call", {
 				name: toolName,
 				arguments: params,
-			})
+			}, projectId)
 			
 			// Format the result
 			const output = result.content
@@ -366,15 +524,218 @@ use_mcp("playwright", "browser_click", { ref: "e7" })  // Click using ref
 		}
 	}
 	
+	/**
+	 * Resources and resource templates offered by a server
+	 */
+	async getResources(
+		serverName: string,
+		projectId?: string,
+	): Promise<{ resources: McpResource[]; resourceTemplates: McpResourceTemplate[]; subscribable: boolean }> {
+		const connection = await this.ensureCapability(serverName, "resources", projectId)
+		const resources = await this.listAll<McpResource>(serverName, "resources/list", "resources", projectId)
+		// Templates are optional; older servers answer "method not found"
+		const resourceTemplates = await this.listAll<McpResourceTemplate>(
+			serverName,
+			"resources/templates/list",
+			"resourceTemplates",
+			projectId,
+		).catch(() => [])
+		return { resources, resourceTemplates, subscribable: !!connection.capabilities.resources?.subscribe }
+	}
+	
+	/**
+	 * Read a resource's contents
+	 */
+	async readResource(serverName: string, uri: string, projectId?: string): Promise<McpResourceContents[]> {
+		await this.ensureCapability(serverName, "resources", projectId)
+		const result = await this.request(serverName, "resources/read", { uri }, projectId)
+		return result?.contents || []
+	}
+	
+	/**
+	 * Subscribe to update notifications for a resource. The server is only asked once
+	 * per URI; further subscribers are tracked locally.
+	 */
+	async subscribeResource(serverName: string, uri: string, subscriber: string, projectId?: string): Promise<void> {
+		const connection = await this.ensureCapability(serverName, "resources", projectId)
+		if (!connection.capabilities.resources?.subscribe) {
+			throw new Error(`MCP server "${serverName}" does not support resource subscriptions`)
+		}
+		const byUri = this.subscriptions.get(serverName) || new Map<string, Set<string>>()
+		const subscribers = byUri.get(uri)
+		if (subscribers) {
+			subscribers.add(subscriber)
+			return
+		}
+		await connection.transport.listen?.()
+		await this.request(serverName, "resources/subscribe", { uri }, projectId)
+		byUri.set(uri, new Set([subscriber]))
+		this.subscriptions.set(serverName, byUri)
+	}
+	
+	/**
+	 * Drop a subscriber; the server is told to unsubscribe when the last one leaves.
+	 * Returns false if the subscriber was not subscribed.
+	 */
+	async unsubscribeResource(serverName: string, uri: string, subscriber: string, projectId?: string): Promise<boolean> {
+		const byUri = this.subscriptions.get(serverName)
+		const subscribers = byUri?.get(uri)
+		if (!byUri || !subscribers?.delete(subscriber)) return false
+		if (subscribers.size > 0) return true
+		byUri.delete(uri)
+		if (byUri.size === 0) this.subscriptions.delete(serverName)
+		if (this.connections.get(serverName)?.ready) {
+			await this.request(serverName, "resources/unsubscribe", { uri }, projectId).catch((err) =>
+				console.error(`[MCP ${serverName}] Failed to unsubscribe from ${uri}:`, err),
+			)
+		}
+		return true
+	}
+	
+	/**
+	 * Resource URIs a subscriber is subscribed to, per server
+	 */
+	getSubscriptions(subscriber: string): Array<{ serverName: string; uri: string }> {
+		const result: Array<{ serverName: string; uri: string }> = []
+		for (const [serverName, byUri] of this.subscriptions) {
+			for (const [uri, subscribers] of byUri) {
+				if (subscribers.has(subscriber)) result.push({ serverName, uri })
+			}
+		}
+		return result
+	}
+	
+	/**
+	 * Prompt templates offered by a server
+	 */
+	async getPrompts(serverName: string, projectId?: string): Promise<McpPrompt[]> {
+		await this.ensureCapability(serverName, "prompts", projectId)
+		return this.listAll<McpPrompt>(serverName, "prompts/list", "prompts", projectId)
+	}
+	
+	/**
+	 * Render a prompt template with arguments
+	 */
+	async getPrompt(serverName: string, name: string, args: Record<string, string> = {}, projectId?: string): Promise<McpPromptResult> {
+		await this.ensureCapability(serverName, "prompts", projectId)
+		const result = await this.request(serverName, "prompts/get", { name, arguments: args }, projectId)
+		return { description: result?.description, messages: result?.messages || [] }
+	}
+	
+	/**
+	 * List resources for a server (agent-facing)
+	 */
+	async listMcpResources(serverName: string, projectId?: string): Promise<string> {
+		try {
+			const { resources, resourceTemplates, subscribable } = await this.getResources(serverName, projectId)
+			if (resources.length === 0 && resourceTemplates.length === 0) {
+				return `📭 MCP server "${serverName}" has no resources available.`
+			}
+			
+			const sections: string[] = []
+			if (resources.length > 0) {
+				const lines = resources.map(r =>
+					`- \`${r.uri}\` **${r.name}**${r.mimeType ? ` (${r.mimeType})` : ""}: ${r.description || "(no description)"}`,
+				)
+				sections.push(`📚 **Resources from "${serverName}":**\n\n${lines.join("\n")}`)
+			}
+			if (resourceTemplates.length > 0) {
+				const lines = resourceTemplates.map(t =>
+					`- \`${t.uriTemplate}\` **${t.name}**: ${t.description || "(no description)"}`,
+				)
+				sections.push(`🧩 **Resource templates** (fill in the {placeholders}):\n\n${lines.join("\n")}`)
+			}
+			
+			let guidance = `Use \`read_mcp_resource("${serverName}", "uri")\` to read one.`
+			if (subscribable) {
+				guidance += `\nUse \`subscribe_mcp_resource("${serverName}", "uri")\` to be notified in your inbox when it changes.`
+			}
+			return `${sections.join("\n\n")}\n\n${guidance}`
+		} catch (err: any) {
+			return `❌ Failed to list resources for "${serverName}": ${err.message}`
+		}
+	}
+	
+	/**
+	 * Read a resource (agent-facing)
+	 */
+	async readMcpResource(serverName: string, uri: string, projectId?: string): Promise<string> {
+		try {
+			const contents = await this.readResource(serverName, uri, projectId)
+			if (contents.length === 0) {
+				return `📭 Resource "${uri}" on "${serverName}" is empty.`
+			}
+			
+			const output = contents
+				.map(item => {
+					const header = contents.length > 1 || item.uri !== uri ? `--- ${item.uri} ---\n` : ""
+					if (item.text !== undefined) return header + item.text
+					const bytes = item.blob ? Buffer.from(item.blob, "base64").length : 0
+					return `${header}[Binary: ${item.mimeType || "application/octet-stream"}, ${bytes} bytes]`
+				})
+				.join("\n\n")
+			
+			return `📄 **${serverName}** \`${uri}\`:\n${output}`
+		} catch (err: any) {
+			return `❌ Failed to read ${uri} from "${serverName}": ${err.message}`
+		}
+	}
+	
+	/**
+	 * List prompts for a server (agent-facing)
+	 */
+	async listMcpPrompts(serverName: string, projectId?: string): Promise<string> {
+		try {
+			const prompts = await this.getPrompts(serverName, projectId)
+			if (prompts.length === 0) {
+				return `📭 MCP server "${serverName}" has no prompts available.`
+			}
+			
+			const lines = prompts.map(prompt => {
+				const args = (prompt.arguments || []).map(a => (a.required ? a.name : `${a.name}?`)).join(", ")
+				return `- **${prompt.name}**${args ? `(${args})` : ""}: ${prompt.description || "(no description)"}`
+			})
+			
+			return `💬 **Prompts from "${serverName}":**\n\n${lines.join("\n")}\n\n` +
+				`Use \`get_mcp_prompt("${serverName}", "prompt_name", { arg: "value" })\` to render one.`
+		} catch (err: any) {
+			return `❌ Failed to list prompts for "${serverName}": ${err.message}`
+		}
+	}
+	
+	/**
+	 * Render a prompt (agent-facing)
+	 */
+	async getMcpPrompt(serverName: string, name: string, args: Record<string, string> = {}, projectId?: string): Promise<string> {
+		try {
+			const result = await this.getPrompt(serverName, name, args, projectId)
+			const output = result.messages
+				.map(message => {
+					const { content } = message
+					let text: string
+					if (content.type === "text") text = content.text || ""
+					else if (content.type === "resource") text = content.resource?.text ?? `[Resource: ${content.resource?.uri}]`
+					else text = `[${content.type}: ${content.mimeType || "unknown"}]`
+					return `**${message.role}:** ${text}`
+				})
+				.join("\n\n")
+			
+			return `💬 **${serverName}.${name}**${result.description ? ` - ${result.description}` : ""}\n\n${output}`
+		} catch (err: any) {
+			return `❌ Failed to get prompt ${serverName}.${name}: ${err.message}`
+		}
+	}
+	
 	/**
 	 * Disconnect all servers (cleanup)
 	 */
 	disconnectAll(): void {
-		for (const [name, connection] of this.connections) {
+		const connections = [...this.connections.entries()]
+		this.connections.clear()
+		for (const [name, connection] of connections) {
 			console.log(`[MCP] Disconnecting ${name}`)
-			connection.process.kill()
+			connection.transport.close().catch(() => undefined)
 		}
-		this.connections.clear()
 	}
 	
 	/**
@@ -383,10 +744,11 @@ use_mcp("playwright", "browser_click", { ref: "e7" })  // Click using ref
 	cleanupIdle(maxIdleMs: number = 5 * 60 * 1000): void {
 		const now = Date.now()
 		for (const [name, connection] of this.connections) {
-			if (now - connection.lastUsed > maxIdleMs) {
+			// Keep servers with subscriptions connected so updates still arrive
+			if (now - connection.lastUsed > maxIdleMs && !this.subscriptions.has(name)) {
 				console.log(`[MCP] Disconnecting idle server: ${name}`)
-				connection.process.kill()
 				this.connections.delete(name)
+				connection.transport.close().catch(() => undefined)
 			}
 		}
 	}
@@ -410,4 +772,6 @@ export function initMcpManager(workspacePath: string): McpClientManager {
 	return mcpManager
 }
 
-export { McpClientManager, McpServerConfig, McpConfig, McpTool }
+export { McpClientManager, McpConfig, McpTool }
+export type { McpResource, McpResourceTemplate, McpResourceContents, McpPrompt, McpPromptResult, McpResourceUpdate }
+export type { McpServerConfig }
@@ -0,0 +1,499 @@
+// Society Agent - new file
+/**
+ * MCP Transports for Society Agent
+ *
+ * JSON-RPC transports used by McpClientManager:
+ * - stdio:           local server process, newline-delimited JSON on stdin/stdout
+ * - streamable-http: remote server, one POST per message; responses come back as
+ *                    JSON or as an SSE stream on the POST response (MCP 2025-03-26)
+ * - sse:             legacy remote server (MCP 2024-11-05); a long-lived GET event
+ *                    stream announces a POST endpoint and carries all responses
+ *
+ * Remote servers accept extra headers and auth from the server config. Header
+ * values and credentials may reference environment variables as ${NAME} so
+ * secrets do not have to live in mcp-config.json / mcp.json.
+ */
+
+import { spawn, ChildProcess } from "child_process"
+
+export type McpTransportKind = "stdio" | "streamable-http" | "sse"
+
+/** Auth for remote servers. Secrets can be given inline or via an env var name. */
+export type McpServerAuth =
+	| { type: "bearer"; token?: string; tokenEnv?: string }
+	| { type: "basic"; username: string; password?: string; passwordEnv?: string }
+	| { type: "header"; name: string; value?: string; valueEnv?: string }
+
+// MCP server configuration
+export interface McpServerConfig {
+	/** stdio servers: executable and arguments */
+	command?: string
+	args?: string[]
+	env?: Record<string, string>
+	/** Remote servers: endpoint URL */
+	url?: string
+	/** Defaults to "stdio" when command is set, "streamable-http" when url is set */
+	transport?: McpTransportKind
+	/** Extra HTTP headers for remote servers (values may use ${ENV_VAR}) */
+	headers?: Record<string, string>
+	auth?: McpServerAuth
+	/** Per-request timeout (default 30s) */
+	timeoutMs?: number
+	description?: string
+	enabled?: boolean
+}
+
+export interface JsonRpcMessage {
+	jsonrpc: "2.0"
+	id?: number | string | null
+	method?: string
+	params?: any
+	result?: any
+	error?: { code: number; message: string; data?: any }
+}
+
+export interface McpTransport {
+	readonly kind: McpTransportKind
+	/** Negotiated protocol version, sent as MCP-Protocol-Version by HTTP transports */
+	protocolVersion?: string
+	onmessage?: (message: JsonRpcMessage) => void
+	onclose?: () => void
+	start(): Promise<void>
+	send(message: JsonRpcMessage): Promise<void>
+	/**
+	 * Open a standing stream for server-initiated notifications (resource updates).
+	 * Only streamable HTTP needs this; stdio and SSE already deliver them.
+	 */
+	listen?(): Promise<void>
+	close(): Promise<void>
+}
+
+/** Remote server answered 404 for our session - the client must re-initialize */
+export class McpSessionExpiredError extends Error {
+	constructor(serverName: string) {
+		super(`MCP session for "${serverName}" expired`)
+		this.name = "McpSessionExpiredError"
+	}
+}
+
+/** Transport a config resolves to */
+export function resolveTransportKind(config: McpServerConfig): McpTransportKind {
+	if (config.transport) return config.transport
+	if (config.url) return "streamable-http"
+	return "stdio"
+}
+
+/** Check a server config. Returns an error message or null. */
+export function validateMcpServerConfig(config: McpServerConfig): string | null {
+	const kind = resolveTransportKind(config)
+	if (!["stdio", "streamable-http", "sse"].includes(kind)) return `Unknown transport "${kind}"`
+	if (kind === "stdio") return config.command ? null : "stdio servers need a command"
+	if (!config.url) return `${kind} servers need a url`
+	try {
+		const url = new URL(config.url)
+		if (url.protocol !== "http:" && url.protocol !== "https:") return "url must be http(s)"
+	} catch {
+		return `Invalid url: ${config.url}`
+	}
+	return null
+}
+
+/** Replace ${NAME} with environment variables (unset variables become "") */
+export function expandEnv(value: string, env: NodeJS.ProcessEnv = process.env): string {
+	return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => env[name] ?? "")
+}
+
+/** HTTP headers for a remote server: configured headers plus auth */
+export function buildRemoteHeaders(config: McpServerConfig, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+	const headers: Record<string, string> = {}
+	for (const [name, value] of Object.entries(config.headers || {})) {
+		headers[name] = expandEnv(value, env)
+	}
+	const auth = config.auth
+	if (auth?.type === "bearer") {
+		const token = auth.tokenEnv ? env[auth.tokenEnv] : auth.token && expandEnv(auth.token, env)
+		if (token) headers["Authorization"] = `Bearer ${token}`
+	} else if (auth?.type === "basic") {
+		const password = auth.passwordEnv ? env[auth.passwordEnv] : auth.password && expandEnv(auth.password, env)
+		headers["Authorization"] = `Basic ${Buffer.from(`${auth.username}:${password || ""}`).toString("base64")}`
+	} else if (auth?.type === "header") {
+		const value = auth.valueEnv ? env[auth.valueEnv] : auth.value && expandEnv(auth.value, env)
+		if (value) headers[auth.name] = value
+	}
+	return headers
+}
+
+/** Describe a non-OK HTTP response, calling out rate limiting */
+async function httpError(serverName: string, response: Response): Promise<Error> {
+	if (response.status === 429) {
+		const retryAfter = response.headers.get("retry-after")
+		return new Error(`MCP server "${serverName}" is rate limiting requests${retryAfter ? ` (retry after ${retryAfter}s)` : ""}`)
+	}
+	if (response.status === 401 || response.status === 403) {
+		return new Error(`MCP server "${serverName}" rejected the credentials (HTTP ${response.status})`)
+	}
+	const body = await response.text().catch(() => "")
+	return new Error(`MCP server "${serverName}" returned HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`)
+}
+
+// ============================================================================
+// SSE parsing
+// ============================================================================
+
+export interface SseEvent {
+	event: string
+	data: string
+	id?: string
+}
+
+/**
+ * Read a text/event-stream body and call onEvent for each complete event.
+ * Resolves when the stream ends.
+ */
+export async function readSseStream(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void): Promise<void> {
+	const reader = body.getReader()
+	const decoder = new TextDecoder()
+	let buffer = ""
+	let event = ""
+	let data: string[] = []
+	let id: string | undefined
+
+	const dispatch = (): void => {
+		if (data.length > 0) onEvent({ event: event || "message", data: data.join("\n"), id })
+		event = ""
+		data = []
+	}
+
+	for (;;) {
+		const { done, value } = await reader.read()
+		if (done) break
+		buffer += decoder.decode(value, { stream: true })
+		let newline: number
+		while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+			if (newline === buffer.length - 1 && buffer[newline] === "\r") break // may be half of \r\n
+			const line = buffer.slice(0, newline)
+			buffer = buffer.slice(newline + (buffer.startsWith("\r\n", newline) ? 2 : 1))
+			if (line === "") {
+				dispatch()
+				continue
+			}
+			if (line.startsWith(":")) continue // comment / keep-alive
+			const colon = line.indexOf(":")
+			const field = colon === -1 ? line : line.slice(0, colon)
+			let value = colon === -1 ? "" : line.slice(colon + 1)
+			if (value.startsWith(" ")) value = value.slice(1)
+			if (field === "event") event = value
+			else if (field === "data") data.push(value)
+			else if (field === "id") id = value
+		}
+	}
+	// An event without its terminating blank line is incomplete and is dropped
+}
+
+function parseJsonRpc(serverName: string, text: string): JsonRpcMessage[] {
+	try {
+		const parsed = JSON.parse(text)
+		return Array.isArray(parsed) ? parsed : [parsed]
+	} catch {
+		console.log(`[MCP ${serverName}] Ignoring non-JSON message: ${text.slice(0, 200)}`)
+		return []
+	}
+}
+
+// ============================================================================
+// stdio
+// ============================================================================
+
+export class StdioTransport implements McpTransport {
+	readonly kind = "stdio" as const
+	protocolVersion?: string
+	onmessage?: (message: JsonRpcMessage) => void
+	onclose?: () => void
+	private process: ChildProcess | null = null
+	private buffer = ""
+
+	constructor(
+		private serverName: string,
+		private config: McpServerConfig,
+	) {}
+
+	start(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			console.log(`[MCP] Connecting to ${this.serverName}: ${this.config.command} ${(this.config.args || []).join(" ")}`)
+
+			const proc = spawn(this.config.command!, this.config.args || [], {
+				env: { ...process.env, ...this.config.env },
+				stdio: ["pipe", "pipe", "pipe"],
+			})
+			this.process = proc
+
+			// Handle stdout (JSON-RPC responses)
+			proc.stdout?.on("data", (data: Buffer) => {
+				this.buffer += data.toString()
+				this.processBuffer()
+			})
+
+			// Handle stderr (logs)
+			proc.stderr?.on("data", (data: Buffer) => {
+				console.log(`[MCP ${this.serverName}] ${data.toString().trim()}`)
+			})
+
+			proc.on("error", (err) => {
+				console.error(`[MCP ${this.serverName}] Process error:`, err)
+				this.onclose?.()
+				reject(err)
+			})
+
+			proc.on("exit", (code) => {
+				console.log(`[MCP ${this.serverName}] Exited with code ${code}`)
+				this.onclose?.()
+			})
+
+			proc.on("spawn", () => resolve())
+		})
+	}
+
+	/**
+	 * Process buffered JSON-RPC messages
+	 */
+	private processBuffer(): void {
+		const lines = this.buffer.split("\n")
+		this.buffer = lines.pop() || "" // Keep incomplete line
+
+		for (const line of lines) {
+			if (!line.trim()) continue
+			try {
+				this.onmessage?.(JSON.parse(line))
+			} catch (err) {
+				// Ignore non-JSON lines
+			}
+		}
+	}
+
+	async send(message: JsonRpcMessage): Promise<void> {
+		if (!this.process?.stdin) throw new Error(`Not connected to ${this.serverName}`)
+		this.process.stdin.write(JSON.stringify(message) + "\n")
+	}
+
+	async close(): Promise<void> {
+		this.process?.kill()
+		this.process = null
+	}
+}
+
+// ============================================================================
+// Streamable HTTP
+// ============================================================================
+
+export class StreamableHttpTransport implements McpTransport {
+	readonly kind = "streamable-http" as const
+	protocolVersion?: string
+	onmessage?: (message: JsonRpcMessage) => void
+	onclose?: () => void
+	private sessionId?: string
+	private headers: Record<string, string>
+	private streams = new Set<AbortController>()
+	private listening = false
+
+	constructor(
+		private serverName: string,
+		private config: McpServerConfig,
+	) {
+		this.headers = buildRemoteHeaders(config)
+	}
+
+	async start(): Promise<void> {
+		console.log(`[MCP] Connecting to ${this.serverName}: ${this.config.url} (streamable HTTP)`)
+	}
+
+	/** Read JSON-RPC messages from an SSE response body until it ends */
+	private consumeStream(controller: AbortController, body: ReadableStream<Uint8Array>): Promise<void> {
+		this.streams.add(controller)
+		return readSseStream(body, (event) => {
+			if (event.event !== "message") return
+			for (const msg of parseJsonRpc(this.serverName, event.data)) this.onmessage?.(msg)
+		})
+			.catch((err) => {
+				if (!controller.signal.aborted) console.error(`[MCP ${this.serverName}] Stream error:`, err)
+			})
+			.finally(() => this.streams.delete(controller))
+	}
+
+	/**
+	 * GET the endpoint for a notification stream. Servers that don't offer one answer
+	 * 405, in which case notifications only arrive on POST response streams.
+	 */
+	async listen(): Promise<void> {
+		if (this.listening) return
+		const controller = new AbortController()
+		const headers = this.requestHeaders()
+		delete headers["Content-Type"]
+		headers.Accept = "text/event-stream"
+		const response = await fetch(this.config.url!, { method: "GET", headers, signal: controller.signal })
+		if (response.status === 405) {
+			console.log(`[MCP ${this.serverName}] Server does not offer a notification stream`)
+			return
+		}
+		if (!response.ok || !response.body) throw await httpError(this.serverName, response)
+		this.listening = true
+		this.consumeStream(controller, response.body).finally(() => {
+			this.listening = false
+		})
+	}
+
+	private requestHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			...this.headers,
+			"Content-Type": "application/json",
+			Accept: "application/json, text/event-stream",
+		}
+		if (this.sessionId) headers["Mcp-Session-Id"] = this.sessionId
+		if (this.protocolVersion) headers["MCP-Protocol-Version"] = this.protocolVersion
+		return headers
+	}
+
+	async send(message: JsonRpcMessage): Promise<void> {
+		const controller = new AbortController()
+		const response = await fetch(this.config.url!, {
+			method: "POST",
+			headers: this.requestHeaders(),
+			body: JSON.stringify(message),
+			signal: controller.signal,
+		})
+
+		const sessionId = response.headers.get("mcp-session-id")
+		if (sessionId) this.sessionId = sessionId
+
+		if (response.status === 404 && this.sessionId) {
+			this.sessionId = undefined
+			throw new McpSessionExpiredError(this.serverName)
+		}
+		if (!response.ok) throw await httpError(this.serverName, response)
+		if (response.status === 202 || !response.body) return
+
+		const contentType = response.headers.get("content-type") || ""
+		if (contentType.includes("text/event-stream")) {
+			// Responses (and any server requests/notifications) arrive on this stream;
+			// keep reading in the background until the server closes it.
+			this.consumeStream(controller, response.body)
+			return
+		}
+
+		const text = await response.text()
+		if (!text.trim()) return
+		for (const msg of parseJsonRpc(this.serverName, text)) this.onmessage?.(msg)
+	}
+
+	async close(): Promise<void> {
+		for (const controller of this.streams) controller.abort()
+		this.streams.clear()
+		if (this.sessionId) {
+			// Let the server free the session; failures are irrelevant at this point
+			await fetch(this.config.url!, { method: "DELETE", headers: this.requestHeaders() }).catch(() => undefined)
+			this.sessionId = undefined
+		}
+		this.onclose?.()
+	}
+}
+
+// ============================================================================
+// Legacy SSE (HTTP+SSE, MCP 2024-11-05)
+// ============================================================================
+
+export class SseTransport implements McpTransport {
+	readonly kind = "sse" as const
+	protocolVersion?: string
+	onmessage?: (message: JsonRpcMessage) => void
+	onclose?: () => void
+	private headers: Record<string, string>
+	private controller: AbortController | null = null
+	private endpoint: string | null = null
+
+	constructor(
+		private serverName: string,
+		private config: McpServerConfig,
+	) {
+		this.headers = buildRemoteHeaders(config)
+	}
+
+	/** Open the event stream and wait for the server to announce its POST endpoint */
+	async start(): Promise<void> {
+		console.log(`[MCP] Connecting to ${this.serverName}: ${this.config.url} (SSE)`)
+		const controller = new AbortController()
+		this.controller = controller
+		const timeoutMs = this.config.timeoutMs || 30000
+
+		const response = await fetch(this.config.url!, {
+			method: "GET",
+			headers: { ...this.headers, Accept: "text/event-stream" },
+			signal: controller.signal,
+		})
+		if (!response.ok || !response.body) throw await httpError(this.serverName, response)
+
+		await new Promise<void>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				controller.abort()
+				reject(new Error(`MCP server "${this.serverName}" did not announce an endpoint`))
+			}, timeoutMs)
+
+			readSseStream(response.body!, (event) => {
+				if (event.event === "endpoint") {
+					clearTimeout(timer)
+					// POSTs carry the configured credentials, so they may only go back to the same origin
+					const endpoint = new URL(event.data, this.config.url)
+					if (endpoint.origin !== new URL(this.config.url!).origin) {
+						controller.abort()
+						reject(new Error(`MCP server "${this.serverName}" announced an endpoint on a different origin: ${endpoint.origin}`))
+						return
+					}
+					this.endpoint = endpoint.toString()
+					resolve()
+					return
+				}
+				if (event.event !== "message") return
+				for (const msg of parseJsonRpc(this.serverName, event.data)) this.onmessage?.(msg)
+			})
+				.then(() => {
+					console.log(`[MCP ${this.serverName}] Event stream closed`)
+				})
+				.catch((err) => {
+					if (!controller.signal.aborted) console.error(`[MCP ${this.serverName}] Stream error:`, err)
+				})
+				.finally(() => {
+					clearTimeout(timer)
+					if (!this.endpoint) reject(new Error(`MCP server "${this.serverName}" closed the stream before announcing an endpoint`))
+					this.endpoint = null
+					this.controller = null
+					this.onclose?.()
+				})
+		})
+	}
+
+	async send(message: JsonRpcMessage): Promise<void> {
+		if (!this.endpoint) throw new Error(`Not connected to ${this.serverName}`)
+		const headers: Record<string, string> = { ...this.headers, "Content-Type": "application/json" }
+		if (this.protocolVersion) headers["MCP-Protocol-Version"] = this.protocolVersion
+		const response = await fetch(this.endpoint, { method: "POST", headers, body: JSON.stringify(message) })
+		if (!response.ok) throw await httpError(this.serverName, response)
+		// The reply arrives on the event stream; drain the acknowledgement body
+		await response.text().catch(() => undefined)
+	}
+
+	async close(): Promise<void> {
+		this.controller?.abort()
+	}
+}
+
+/** Create the transport for a server config */
+export function createMcpTransport(serverName: string, config: McpServerConfig): McpTransport {
+	const error = validateMcpServerConfig(config)
+	if (error) throw new Error(`Invalid MCP server "${serverName}": ${error}`)
+	switch (resolveTransportKind(config)) {
+		case "streamable-http":
+			return new StreamableHttpTransport(serverName, config)
+		case "sse":
+			return new SseTransport(serverName, config)
+		default:
+			return new StdioTransport(serverName, config)
+	}
+}
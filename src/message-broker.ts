@@ -0,0 +1,725 @@
+// Society Agent - new file
+/**
+ * Message Broker
+ *
+ * Embedded, durable per-agent message queues. Each queue is an append-only
+ * JSON-lines log (<dir>/<queue>.jsonl) that is replayed on startup and
+ * compacted once most of it describes messages that are gone.
+ *
+ * - At-least-once delivery: receive() leases messages for a visibility timeout.
+ *   A message that is not acknowledged before its lease runs out is delivered
+ *   again, including after a restart.
+ * - Messages delivered maxAttempts times without an acknowledgement, explicitly
+ *   dead-lettered or past their expiresAt move to the queue's dead-letter list,
+ *   where they can be inspected, replayed or purged.
+ * - Delivery order is MessagePriority (critical first), then publication order.
+ * - Consumers are pushed: subscribe() and consume() are called when a message
+ *   becomes deliverable (published, released, replayed or its lease expired),
+ *   so nothing polls the queue files.
+ *
+ * Several processes can share a directory (agents publish into each other's
+ * queues). Every change takes the queue file's lock (<queue>.jsonl.lock), first
+ * applies what other processes appended, then appends its own entries, so two
+ * brokers never lease the same message or compact away each other's entries.
+ * A directory watch applies other processes' entries as they are written and
+ * notifies this process's subscribers. Within a process, open the directory
+ * through openMessageBroker() so every component shares the same instance.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { v4 as uuidv4 } from "uuid"
+import { getLog } from "./logger"
+import type { MessagePriority } from "./message-contracts"
+import { sanitizeFilename } from "./security-utils"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QueuedMessageState = "ready" | "in_flight" | "dead"
+
+export interface QueuedMessage<T = unknown> {
+	id: string
+	queue: string
+	body: T
+	priority: MessagePriority
+	enqueuedAt: number
+	/** Deliveries so far */
+	attempts: number
+	maxAttempts: number
+	/** Not delivered before this time (delayed, leased or backing off) */
+	visibleAt: number
+	/** Dead-lettered instead of delivered after this time */
+	expiresAt?: number
+	state: QueuedMessageState
+	/** Lease of the current delivery */
+	receipt?: string
+	lastError?: string
+	deadAt?: number
+	deadReason?: string
+}
+
+/** A leased message; settle it with ack(), nack() or deadLetter() and its receipt */
+export type Delivery<T = unknown> = QueuedMessage<T> & { receipt: string }
+
+export interface QueueStats {
+	queue: string
+	/** Deliverable now */
+	ready: number
+	/** Leased or waiting for a retry delay */
+	inFlight: number
+	dead: number
+	oldestReadyAt?: number
+}
+
+export interface PublishOptions {
+	/** Stable ID; publishing an ID the queue still holds returns the queued message */
+	id?: string
+	priority?: MessagePriority
+	delayMs?: number
+	expiresAt?: number
+	maxAttempts?: number
+}
+
+export interface MessageBrokerOptions {
+	/** Lease length for receive() (default 5 minutes) */
+	visibilityTimeoutMs?: number
+	/** Deliveries before a message is dead-lettered (default 5) */
+	maxAttempts?: number
+	/** Log entries a queue may accumulate before it is compacted (default 500) */
+	compactAfter?: number
+}
+
+/** What a consume() handler wants done with a delivery; returning nothing acknowledges it */
+export type ConsumeOutcome = void | "ack" | "retry" | { deadLetter: string }
+
+export interface ConsumeOptions {
+	visibilityTimeoutMs?: number
+	/** Wait before a retried message is delivered again, multiplied by its attempts (default 1 second) */
+	retryDelayMs?: number
+}
+
+type LogEntry =
+	| { op: "publish"; message: QueuedMessage }
+	| { op: "lease"; queue: string; id: string; receipt: string; attempts: number; visibleAt: number }
+	| { op: "ack"; queue: string; id: string }
+	| { op: "release"; queue: string; id: string; visibleAt: number; error?: string }
+	| { op: "dead"; queue: string; id: string; at: number; reason: string }
+	| { op: "replay"; queue: string; id: string; at: number }
+
+const PRIORITY_RANK: Record<MessagePriority, number> = { critical: 0, high: 1, normal: 2, low: 3 }
+
+/** How far a queue file has been read */
+interface LogFileState {
+	/** Inode; a compaction by any process replaces the file */
+	ino: number
+	/** Bytes applied so far (always at a line boundary) */
+	offset: number
+	/** Entries in the file, to decide when to compact */
+	entries: number
+}
+
+/** Give up waiting for a queue file lock after this long */
+const LOCK_TIMEOUT_MS = 10_000
+/** A lock this old is left over from a process that died holding it */
+const LOCK_STALE_MS = 30_000
+const lockWait = new Int32Array(new SharedArrayBuffer(4))
+
+// ============================================================================
+// Broker
+// ============================================================================
+
+export class MessageBroker {
+	private queues = new Map<string, Map<string, QueuedMessage>>()
+	private files = new Map<string, LogFileState>()
+	/** Queue files whose lock this process holds */
+	private locked = new Set<string>()
+	private watcher: fs.FSWatcher | null = null
+	private timers = new Map<string, NodeJS.Timeout>()
+	private listeners = new Set<{ queue?: string; listener: (queue: string) => void }>()
+	private visibilityTimeoutMs: number
+	private maxAttempts: number
+	private compactAfter: number
+
+	constructor(
+		private dir: string,
+		options: MessageBrokerOptions = {},
+	) {
+		this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 5 * 60_000
+		this.maxAttempts = options.maxAttempts ?? 5
+		this.compactAfter = options.compactAfter ?? 500
+		this.load()
+		this.watch()
+	}
+
+	// ------------------------------------------------------------------------
+	// Producing and consuming
+	// ------------------------------------------------------------------------
+
+	publish<T>(queue: string, body: T, options: PublishOptions = {}): QueuedMessage<T> {
+		const now = Date.now()
+		const published = this.mutate(queue, () => {
+			const existing = options.id ? this.queue(queue).get(options.id) : undefined
+			if (existing) return { message: { ...existing } as QueuedMessage<T>, added: false }
+
+			const message: QueuedMessage<T> = {
+				id: options.id ?? uuidv4(),
+				queue,
+				body,
+				priority: options.priority ?? "normal",
+				enqueuedAt: now,
+				attempts: 0,
+				maxAttempts: options.maxAttempts ?? this.maxAttempts,
+				visibleAt: now + (options.delayMs ?? 0),
+				state: "ready",
+				...(options.expiresAt !== undefined ? { expiresAt: options.expiresAt } : {}),
+			}
+			this.append(queue, { op: "publish", message })
+			return { message: { ...message }, added: true }
+		})
+		if (published.added) this.changed(queue, published.message.visibleAt <= now)
+		return published.message
+	}
+
+	/**
+	 * Lease up to `max` deliverable messages, highest priority first.
+	 * Expired messages and messages out of attempts are dead-lettered on the way.
+	 */
+	receive<T = unknown>(
+		queue: string,
+		options: { max?: number; visibilityTimeoutMs?: number; now?: number } = {},
+	): Delivery<T>[] {
+		const now = options.now ?? Date.now()
+		const max = options.max ?? 1
+		const deliveries = this.mutate(queue, () => {
+			const leased: Delivery<T>[] = []
+			for (const message of this.deliverable(queue, now)) {
+				if (leased.length >= max) break
+				if (message.expiresAt !== undefined && message.expiresAt <= now) {
+					this.append(queue, { op: "dead", queue, id: message.id, at: now, reason: "Expired before delivery" })
+					continue
+				}
+				if (message.attempts >= message.maxAttempts) {
+					this.append(queue, {
+						op: "dead",
+						queue,
+						id: message.id,
+						at: now,
+						reason: `Not acknowledged after ${message.attempts} deliveries${message.lastError ? `: ${message.lastError}` : ""}`,
+					})
+					continue
+				}
+				this.append(queue, {
+					op: "lease",
+					queue,
+					id: message.id,
+					receipt: uuidv4(),
+					attempts: message.attempts + 1,
+					visibleAt: now + (options.visibilityTimeoutMs ?? this.visibilityTimeoutMs),
+				})
+				leased.push({ ...message } as Delivery<T>)
+			}
+			return leased
+		})
+		this.changed(queue, false)
+		return deliveries
+	}
+
+	/** Acknowledge a delivery. False if its lease ran out and it went to someone else (or away). */
+	ack(queue: string, receipt: string): boolean {
+		const acked = this.mutate(queue, () => {
+			const message = this.leased(queue, receipt)
+			if (message) this.append(queue, { op: "ack", queue, id: message.id })
+			return !!message
+		})
+		if (acked) this.changed(queue, false)
+		return acked
+	}
+
+	/** Give a delivery back, to be delivered again after `delayMs` (or dead-lettered if out of attempts) */
+	nack(queue: string, receipt: string, options: { delayMs?: number; error?: string } = {}): boolean {
+		const released = this.mutate(queue, () => {
+			const message = this.leased(queue, receipt)
+			if (!message) return false
+			const now = Date.now()
+			if (message.attempts >= message.maxAttempts) {
+				const reason = `Failed ${message.attempts} deliveries${options.error ? `: ${options.error}` : ""}`
+				this.append(queue, { op: "dead", queue, id: message.id, at: now, reason })
+			} else {
+				this.append(queue, { op: "release", queue, id: message.id, visibleAt: now + (options.delayMs ?? 0), error: options.error })
+			}
+			return true
+		})
+		if (released) this.changed(queue, !options.delayMs)
+		return released
+	}
+
+	/** Move a delivery straight to the dead-letter list (e.g. a message that can never be processed) */
+	deadLetter(queue: string, receipt: string, reason: string): boolean {
+		const dead = this.mutate(queue, () => {
+			const message = this.leased(queue, receipt)
+			if (message) this.append(queue, { op: "dead", queue, id: message.id, at: Date.now(), reason })
+			return !!message
+		})
+		if (dead) this.changed(queue, false)
+		return dead
+	}
+
+	/**
+	 * Call `listener` whenever a message becomes deliverable, on one queue or on any.
+	 * @returns unsubscribe
+	 */
+	subscribe(listener: (queue: string) => void, queue?: string): () => void {
+		const entry = { queue, listener }
+		this.listeners.add(entry)
+		return () => {
+			this.listeners.delete(entry)
+		}
+	}
+
+	/**
+	 * Deliver a queue's messages to `handler` one at a time, as they arrive.
+	 * A handler that throws or returns "retry" gets the message again later.
+	 * @returns stop
+	 */
+	consume<T = unknown>(
+		queue: string,
+		handler: (delivery: Delivery<T>) => Promise<ConsumeOutcome> | ConsumeOutcome,
+		options: ConsumeOptions = {},
+	): () => void {
+		const retryDelayMs = options.retryDelayMs ?? 1000
+		let stopped = false
+		let draining = false
+		let again = false
+
+		const drain = async (): Promise<void> => {
+			if (draining) {
+				again = true
+				return
+			}
+			draining = true
+			try {
+				do {
+					again = false
+					while (!stopped) {
+						const [delivery] = this.receive<T>(queue, { visibilityTimeoutMs: options.visibilityTimeoutMs })
+						if (!delivery) break
+						try {
+							const outcome = await handler(delivery)
+							if (outcome === "retry") this.nack(queue, delivery.receipt, { delayMs: retryDelayMs * delivery.attempts })
+							else if (outcome && typeof outcome === "object") this.deadLetter(queue, delivery.receipt, outcome.deadLetter)
+							else this.ack(queue, delivery.receipt)
+						} catch (error) {
+							this.nack(queue, delivery.receipt, {
+								delayMs: retryDelayMs * delivery.attempts,
+								error: error instanceof Error ? error.message : String(error),
+							})
+						}
+					}
+				} while (again && !stopped)
+			} finally {
+				draining = false
+			}
+		}
+
+		const unsubscribe = this.subscribe(() => void drain(), queue)
+		void drain()
+		return () => {
+			stopped = true
+			unsubscribe()
+		}
+	}
+
+	// ------------------------------------------------------------------------
+	// Inspection and administration
+	// ------------------------------------------------------------------------
+
+	/** Deliverable messages without leasing them */
+	peek<T = unknown>(queue: string, now = Date.now()): QueuedMessage<T>[] {
+		this.sync(this.filePath(queue))
+		return this.deliverable(queue, now)
+			.filter((m) => (m.expiresAt === undefined || m.expiresAt > now) && m.attempts < m.maxAttempts)
+			.map((m) => ({ ...m }) as QueuedMessage<T>)
+	}
+
+	/** Every message in a queue, optionally in one state, in delivery order */
+	messages<T = unknown>(queue: string, state?: QueuedMessageState, now = Date.now()): QueuedMessage<T>[] {
+		this.sync(this.filePath(queue))
+		return this.ordered(queue)
+			.filter((m) => !state || this.stateOf(m, now) === state)
+			.map((m) => ({ ...m, state: this.stateOf(m, now) }) as QueuedMessage<T>)
+	}
+
+	stats(queue: string, now = Date.now()): QueueStats {
+		this.sync(this.filePath(queue))
+		const stats: QueueStats = { queue, ready: 0, inFlight: 0, dead: 0 }
+		for (const message of this.queue(queue).values()) {
+			const state = this.stateOf(message, now)
+			if (state === "ready") {
+				stats.ready++
+				stats.oldestReadyAt = Math.min(stats.oldestReadyAt ?? Infinity, message.enqueuedAt)
+			} else if (state === "in_flight") stats.inFlight++
+			else stats.dead++
+		}
+		return stats
+	}
+
+	/** Stats for every queue holding messages */
+	list(now = Date.now()): QueueStats[] {
+		// Queues other processes created since
+		for (const file of this.logFiles()) this.sync(file)
+		return [...this.queues.keys()]
+			.filter((queue) => this.queue(queue).size > 0)
+			.sort()
+			.map((queue) => this.stats(queue, now))
+	}
+
+	/** Put dead-lettered messages (all, or these IDs) back in the queue with fresh attempts */
+	replay(queue: string, ids?: string[]): number {
+		const now = Date.now()
+		const replayed = this.mutate(queue, () => {
+			let count = 0
+			for (const message of [...this.queue(queue).values()]) {
+				if (message.state !== "dead" || (ids && !ids.includes(message.id))) continue
+				this.append(queue, { op: "replay", queue, id: message.id, at: now })
+				count++
+			}
+			return count
+		})
+		if (replayed > 0) log.info(`[Broker] Replayed ${replayed} dead-lettered message(s) on ${queue}`)
+		this.changed(queue, replayed > 0)
+		return replayed
+	}
+
+	/** Drop messages (all, or those in one state); returns how many */
+	purge(queue: string, state?: QueuedMessageState): number {
+		const now = Date.now()
+		const purged = this.mutate(queue, () => {
+			let count = 0
+			for (const message of [...this.queue(queue).values()]) {
+				if (state && this.stateOf(message, now) !== state) continue
+				this.append(queue, { op: "ack", queue, id: message.id })
+				count++
+			}
+			return count
+		})
+		if (purged > 0) log.info(`[Broker] Purged ${purged} message(s) from ${queue}${state ? ` (${state})` : ""}`)
+		this.changed(queue, false)
+		return purged
+	}
+
+	/** Stop timers and the directory watch; the logs stay as they are */
+	close(): void {
+		this.watcher?.close()
+		this.watcher = null
+		for (const timer of this.timers.values()) clearTimeout(timer)
+		this.timers.clear()
+		this.listeners.clear()
+	}
+
+	// ------------------------------------------------------------------------
+	// State
+	// ------------------------------------------------------------------------
+
+	private queue(queue: string): Map<string, QueuedMessage> {
+		let messages = this.queues.get(queue)
+		if (!messages) {
+			messages = new Map()
+			this.queues.set(queue, messages)
+		}
+		return messages
+	}
+
+	/** In-flight messages whose lease ran out are deliverable again */
+	private stateOf(message: QueuedMessage, now: number): QueuedMessageState {
+		if (message.state === "dead") return "dead"
+		return message.visibleAt <= now ? "ready" : "in_flight"
+	}
+
+	private ordered(queue: string): QueuedMessage[] {
+		return [...this.queue(queue).values()].sort(
+			(a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.enqueuedAt - b.enqueuedAt,
+		)
+	}
+
+	private deliverable(queue: string, now: number): QueuedMessage[] {
+		return this.ordered(queue).filter((m) => this.stateOf(m, now) === "ready")
+	}
+
+	private leased(queue: string, receipt: string): QueuedMessage | undefined {
+		for (const message of this.queue(queue).values()) {
+			if (message.state === "in_flight" && message.receipt === receipt) return message
+		}
+		return undefined
+	}
+
+	private apply(entry: LogEntry): void {
+		if (entry.op === "publish") {
+			this.queue(entry.message.queue).set(entry.message.id, { ...entry.message })
+			return
+		}
+		const messages = this.queue(entry.queue)
+		const message = messages.get(entry.id)
+		if (!message) return
+		switch (entry.op) {
+			case "lease":
+				Object.assign(message, { state: "in_flight", receipt: entry.receipt, attempts: entry.attempts, visibleAt: entry.visibleAt })
+				break
+			case "ack":
+				messages.delete(entry.id)
+				break
+			case "release":
+				Object.assign(message, { state: "ready", receipt: undefined, visibleAt: entry.visibleAt, lastError: entry.error ?? message.lastError })
+				break
+			case "dead":
+				Object.assign(message, { state: "dead", receipt: undefined, deadAt: entry.at, deadReason: entry.reason })
+				break
+			case "replay":
+				Object.assign(message, { state: "ready", attempts: 0, visibleAt: entry.at, deadAt: undefined, deadReason: undefined })
+				break
+		}
+	}
+
+	// ------------------------------------------------------------------------
+	// Persistence
+	// ------------------------------------------------------------------------
+
+	private filePath(queue: string): string {
+		return path.join(this.dir, `${sanitizeFilename(queue)}.jsonl`)
+	}
+
+	private logFiles(): string[] {
+		if (!fs.existsSync(this.dir)) return []
+		return fs.readdirSync(this.dir).filter((f) => f.endsWith(".jsonl")).map((f) => path.join(this.dir, f))
+	}
+
+	/** Queues stored in a file (queues whose names sanitize to the same file share it) */
+	private queuesIn(file: string): string[] {
+		return [...this.queues.keys()].filter((name) => this.filePath(name) === file)
+	}
+
+	private load(): void {
+		for (const file of this.logFiles()) {
+			for (const queue of this.sync(file)) {
+				if (this.queue(queue).size > 0) this.changed(queue, false)
+			}
+		}
+	}
+
+	/**
+	 * Apply what was appended to a queue file since it was last read, by this or
+	 * another process. A file replaced by a compaction is read again from the start.
+	 * @returns the queues that changed
+	 */
+	private sync(file: string): Set<string> {
+		const touched = new Set<string>()
+		let stat: fs.Stats
+		try {
+			stat = fs.statSync(file)
+		} catch {
+			return touched
+		}
+
+		let state = this.files.get(file)
+		if (!state || state.ino !== stat.ino || stat.size < state.offset) {
+			if (state) {
+				for (const queue of this.queuesIn(file)) {
+					this.queues.delete(queue)
+					touched.add(queue)
+				}
+			}
+			state = { ino: stat.ino, offset: 0, entries: 0 }
+			this.files.set(file, state)
+		}
+		if (stat.size === state.offset) return touched
+
+		const buffer = Buffer.alloc(stat.size - state.offset)
+		const fd = fs.openSync(file, "r")
+		try {
+			fs.readSync(fd, buffer, 0, buffer.length, state.offset)
+		} finally {
+			fs.closeSync(fd)
+		}
+		// Whole lines only: another process may be halfway through writing the last one
+		const end = buffer.lastIndexOf(0x0a) + 1
+		for (const line of buffer.subarray(0, end).toString("utf-8").split("\n")) {
+			if (!line.trim()) continue
+			try {
+				const entry = JSON.parse(line) as LogEntry
+				this.apply(entry)
+				touched.add(entry.op === "publish" ? entry.message.queue : entry.queue)
+				state.entries++
+			} catch {
+				// A torn line from a crash mid-write; everything around it stands
+				log.warn(`[Broker] Skipping unreadable entry in ${path.basename(file)}`)
+			}
+		}
+		state.offset += end
+		return touched
+	}
+
+	/**
+	 * Run a change to a queue holding its file's lock, on top of everything other
+	 * processes have written, and compact the file if it has grown enough.
+	 */
+	private mutate<T>(queue: string, change: () => T): T {
+		const file = this.filePath(queue)
+		return this.withLock(file, () => {
+			fs.appendFileSync(file, "", "utf-8")
+			this.sync(file)
+			const state = this.files.get(file)!
+			if (fs.statSync(file).size > state.offset) {
+				// Nobody else is writing, so a partial last line is left from a crash: end it
+				fs.appendFileSync(file, "\n", "utf-8")
+				this.sync(file)
+			}
+
+			const result = change()
+			const held = this.queuesIn(file).reduce((sum, name) => sum + this.queue(name).size, 0)
+			if (state.entries > this.compactAfter && state.entries > 2 * held) this.compact(file)
+			return result
+		})
+	}
+
+	/** Append an entry; only inside mutate(), which holds the file's lock */
+	private append(queue: string, entry: LogEntry): void {
+		const file = this.filePath(queue)
+		const line = JSON.stringify(entry) + "\n"
+		fs.appendFileSync(file, line, "utf-8")
+		this.apply(entry)
+		const state = this.files.get(file)!
+		state.offset += Buffer.byteLength(line)
+		state.entries++
+	}
+
+	/** Rewrite a queue file as one entry per message it still holds */
+	private compact(file: string): void {
+		const lines = this.queuesIn(file).flatMap((name) =>
+			[...this.queue(name).values()].map((message) => JSON.stringify({ op: "publish", message }) + "\n"),
+		)
+		fs.writeFileSync(`${file}.tmp`, lines.join(""), "utf-8")
+		fs.renameSync(`${file}.tmp`, file)
+		const stat = fs.statSync(file)
+		this.files.set(file, { ino: stat.ino, offset: stat.size, entries: lines.length })
+	}
+
+	/** Hold a queue file's lock (shared with other processes) while running `fn` */
+	private withLock<T>(file: string, fn: () => T): T {
+		if (this.locked.has(file)) return fn()
+		fs.mkdirSync(this.dir, { recursive: true })
+		const lock = `${file}.lock`
+		const deadline = Date.now() + LOCK_TIMEOUT_MS
+		for (;;) {
+			try {
+				fs.writeFileSync(lock, String(process.pid), { flag: "wx" })
+				break
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+			}
+			if (this.isStaleLock(lock)) {
+				log.warn(`[Broker] Removing stale lock ${path.basename(lock)}`)
+				fs.rmSync(lock, { force: true })
+				continue
+			}
+			if (Date.now() > deadline) throw new Error(`Timed out waiting for the lock on ${path.basename(file)}`)
+			Atomics.wait(lockWait, 0, 0, 5)
+		}
+		this.locked.add(file)
+		try {
+			return fn()
+		} finally {
+			this.locked.delete(file)
+			fs.rmSync(lock, { force: true })
+		}
+	}
+
+	/** A lock whose process is gone, or that has been held far longer than any change takes */
+	private isStaleLock(lock: string): boolean {
+		try {
+			const pid = parseInt(fs.readFileSync(lock, "utf-8"), 10)
+			if (pid && pid !== process.pid) {
+				try {
+					process.kill(pid, 0)
+				} catch (error) {
+					if ((error as NodeJS.ErrnoException).code === "ESRCH") return true
+				}
+			}
+			return Date.now() - fs.statSync(lock).mtimeMs > LOCK_STALE_MS
+		} catch {
+			// Released while we looked
+			return false
+		}
+	}
+
+	/** Apply other processes' entries as they are written and tell subscribers */
+	private watch(): void {
+		try {
+			fs.mkdirSync(this.dir, { recursive: true })
+			this.watcher = fs.watch(this.dir, (_event, name) => {
+				const files = name ? [path.join(this.dir, String(name))] : this.logFiles()
+				for (const file of files) {
+					if (!file.endsWith(".jsonl")) continue
+					const now = Date.now()
+					for (const queue of this.sync(file)) this.changed(queue, this.deliverable(queue, now).length > 0)
+				}
+			})
+			this.watcher.on("error", (error) => log.warn(`[Broker] Watching ${this.dir} failed: ${error.message}`))
+			this.watcher.unref()
+		} catch (error) {
+			log.warn(`[Broker] Cannot watch ${this.dir}; other processes' messages arrive on the next change: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	// ------------------------------------------------------------------------
+	// Push notification
+	// ------------------------------------------------------------------------
+
+	/** Notify subscribers now if asked, and again when the next message becomes deliverable */
+	private changed(queue: string, deliverableNow: boolean): void {
+		if (deliverableNow) this.notify(queue)
+
+		const pending = this.timers.get(queue)
+		if (pending) clearTimeout(pending)
+		this.timers.delete(queue)
+
+		const now = Date.now()
+		let next = Infinity
+		for (const message of this.queue(queue).values()) {
+			if (message.state !== "dead" && message.visibleAt > now) next = Math.min(next, message.visibleAt)
+		}
+		if (next === Infinity) return
+		const timer = setTimeout(() => {
+			this.timers.delete(queue)
+			this.changed(queue, true)
+		}, next - now)
+		timer.unref?.()
+		this.timers.set(queue, timer)
+	}
+
+	private notify(queue: string): void {
+		for (const { queue: only, listener } of [...this.listeners]) {
+			if (only && only !== queue) continue
+			try {
+				listener(queue)
+			} catch (error) {
+				log.warn(`[Broker] Subscriber failed for ${queue}: ${error instanceof Error ? error.message : String(error)}`)
+			}
+		}
+	}
+}
+
+const brokers = new Map<string, MessageBroker>()
+
+/** The process-wide broker for a directory */
+export function openMessageBroker(dir: string, options?: MessageBrokerOptions): MessageBroker {
+	const key = path.resolve(dir)
+	let broker = brokers.get(key)
+	if (!broker) {
+		broker = new MessageBroker(key, options)
+		brokers.set(key, broker)
+	}
+	return broker
+}
@@ -75,6 +75,10 @@ export interface BaseMessage {
 	taskId?: string
 	/** Message expiry (ISO timestamp) */
 	expiresAt?: string
+	// Society Agent start - conversation threads
+	/** ID of the message that started the conversation this one belongs to */
+	correlationId?: string
+	// Society Agent end
 }
 
 // ============================================================================
@@ -250,6 +254,24 @@ export interface HandoffRejectMessage extends BaseMessage {
 	}
 }
 
+// Society Agent start - change proposals for owned files
+/**
+ * Change proposed to a file the recipient owns
+ */
+export interface ChangeProposalMessage extends BaseMessage {
+	category: "handoff"
+	type: "change_proposal"
+	payload: {
+		proposalId: string
+		filePath: string
+		reason: string
+		/** Unified diff against the version the proposer started from */
+		patch: string
+		responseOptions: Array<"accept" | "merge" | "reject">
+	}
+}
+// Society Agent end
+
 // ============================================================================
 // REVIEW MESSAGES
 // ============================================================================
@@ -425,6 +447,7 @@ export type HandoffMessage =
 	| HandoffRequestMessage
 	| HandoffAcceptMessage
 	| HandoffRejectMessage
+	| ChangeProposalMessage
 
 /**
  * All review message types
@@ -632,6 +655,31 @@ export function createHandoffRequest(
 	} as HandoffRequestMessage
 }
 
+/**
+ * Create a change proposal for a file's owner
+ */
+export function createChangeProposal(
+	fromAgentId: string,
+	toAgentId: string,
+	projectId: string,
+	payload: Omit<ChangeProposalMessage["payload"], "responseOptions">,
+	taskId?: string,
+): ChangeProposalMessage {
+	return {
+		...createBaseMessage(
+			"handoff",
+			fromAgentId,
+			toAgentId,
+			projectId,
+			"normal",
+			"required",
+			taskId,
+		),
+		type: "change_proposal",
+		payload: { ...payload, responseOptions: ["accept", "merge", "reject"] },
+	} as ChangeProposalMessage
+}
+
 /**
  * Create a review request
  */
@@ -704,6 +752,85 @@ export function createSupervisorDirective(
 	} as SupervisorDirectiveMessage
 }
 
+// Society Agent start - replies, progress and status updates
+/**
+ * Create an answer to a query
+ */
+export function createQueryResponse(
+	fromAgentId: string,
+	toAgentId: string,
+	projectId: string,
+	payload: QueryResponseMessage["payload"],
+	inResponseTo: string,
+	taskId?: string,
+): QueryResponseMessage {
+	return {
+		...createBaseMessage("query", fromAgentId, toAgentId, projectId, "normal", "none", taskId, inResponseTo),
+		type: "response",
+		payload,
+	} as QueryResponseMessage
+}
+
+/**
+ * Create a task progress update
+ */
+export function createTaskProgress(
+	fromAgentId: string,
+	toAgentId: string,
+	projectId: string,
+	payload: TaskProgressMessage["payload"],
+): TaskProgressMessage {
+	return {
+		...createBaseMessage("task", fromAgentId, toAgentId, projectId, "normal", "none", payload.taskId),
+		type: "progress",
+		payload,
+	} as TaskProgressMessage
+}
+
+/**
+ * Create a status notification
+ */
+export function createStatusNotification(
+	fromAgentId: string,
+	toAgentId: string,
+	projectId: string,
+	payload: StatusNotificationMessage["payload"],
+	options: { priority?: MessagePriority; responseExpected?: ResponseExpectation; taskId?: string; inResponseTo?: string } = {},
+): StatusNotificationMessage {
+	return {
+		...createBaseMessage(
+			"notification",
+			fromAgentId,
+			toAgentId,
+			projectId,
+			options.priority,
+			options.responseExpected ?? "none",
+			options.taskId,
+			options.inResponseTo,
+		),
+		type: "status_update",
+		payload,
+	} as StatusNotificationMessage
+}
+
+/**
+ * Create the answer to a handoff request or change proposal
+ */
+export function createHandoffResponse(
+	fromAgentId: string,
+	toAgentId: string,
+	projectId: string,
+	handoffMessageId: string,
+	response: { accepted: true; acknowledgment: string } | { accepted: false; reason: string },
+	taskId?: string,
+): HandoffAcceptMessage | HandoffRejectMessage {
+	const base = createBaseMessage("handoff", fromAgentId, toAgentId, projectId, "normal", "none", taskId, handoffMessageId)
+	return response.accepted
+		? ({ ...base, type: "accept", payload: { handoffMessageId, acknowledgment: response.acknowledgment } } as HandoffAcceptMessage)
+		: ({ ...base, type: "reject", payload: { handoffMessageId, reason: response.reason } } as HandoffRejectMessage)
+}
+// Society Agent end
+
 // ============================================================================
 // MESSAGE VALIDATION
 // ============================================================================
@@ -846,6 +973,16 @@ export function formatMessageAsMarkdown(message: StructuredMessage): string {
 		lines.push(`**In Response To:** ${message.inResponseTo}`)
 	}
 
+	// Society Agent start - response expectation and expiry
+	if (message.responseExpected === "required") {
+		lines.push(`**Response:** required (reply with \`in_response_to: "${message.messageId}"\`)`)
+	}
+
+	if (message.expiresAt) {
+		lines.push(`**Expires:** ${message.expiresAt}`)
+	}
+	// Society Agent end
+
 	lines.push("")
 
 	// Payload content
@@ -859,12 +996,57 @@ export function formatMessageAsMarkdown(message: StructuredMessage): string {
 			lines.push("")
 		}
 
+		// Society Agent start - blocked-task details
+		if ("blockingReason" in payload && typeof payload.blockingReason === "object" && payload.blockingReason) {
+			const reason = payload.blockingReason as { type?: string; description?: string }
+			lines.push(reason.type ? `### Blocked (${reason.type})` : "### Blocked")
+			if (reason.description) lines.push(String(reason.description))
+			lines.push("")
+		}
+
+		if ("suggestedResolution" in payload && payload.suggestedResolution) {
+			lines.push("### Suggested Resolution")
+			lines.push(String(payload.suggestedResolution))
+			lines.push("")
+		}
+		// Society Agent end
+
+		// Society Agent start - change proposals
+		if ("patch" in payload && "filePath" in payload) {
+			lines.push(`### Proposed Change to \`${payload.filePath}\``)
+			lines.push(String(payload.reason))
+			lines.push("")
+			lines.push("```diff")
+			lines.push(String(payload.patch).trimEnd())
+			lines.push("```")
+			lines.push("")
+			if (Array.isArray(payload.responseOptions)) {
+				lines.push(`**Respond with:** ${payload.responseOptions.join(" / ")} (proposal \`${payload.proposalId}\`)`)
+				lines.push("")
+			}
+		}
+		// Society Agent end
+
 		if ("question" in payload) {
 			lines.push("### Question")
 			lines.push(String(payload.question))
 			lines.push("")
 		}
 
+		// Society Agent start - answers and status updates
+		if ("answer" in payload) {
+			lines.push("### Answer")
+			lines.push(String(payload.answer))
+			lines.push("")
+		}
+
+		if ("subject" in payload && "status" in payload) {
+			lines.push(`### ${payload.subject} (${payload.status})`)
+			if (payload.details) lines.push(String(payload.details))
+			lines.push("")
+		}
+		// Society Agent end
+
 		if ("summary" in payload) {
 			lines.push("### Summary")
 			lines.push(String(payload.summary))
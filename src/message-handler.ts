@@ -2,7 +2,7 @@
 /**
  * Unified Message Handler - Single entry point for all message processing
  *
- * Both HTTP and inbox polling feed into this handler.
+ * Both HTTP and the inbox consumer feed into this handler.
  * Handles deduplication, signature verification, priority routing, and delivery.
  *
  * Message flow:
@@ -102,7 +102,7 @@ export class UnifiedMessageHandler {
 
 	/**
 	 * Handle an incoming message — THE single entry point
-	 * Called by both HTTP server and inbox poller
+	 * Called by both HTTP server and inbox consumer
 	 */
 	async handleMessage(message: SignedMessage): Promise<{ accepted: boolean; reason?: string }> {
 		const { agentId, identityManager } = this.options
@@ -0,0 +1,405 @@
+// Society Agent - new file
+/**
+ * Message Log
+ *
+ * Persists every agent-to-agent StructuredMessage per project and tracks the
+ * responses they are owed.
+ *
+ * - MessageLog.record() validates a message against its contract (see
+ *   message-contracts.ts) before storing it, refuses replies to unknown or
+ *   expired messages, and marks the messages a reply answers.
+ * - A message is answered by a message that names it in inResponseTo or, for
+ *   task-scoped messages, by the recipient writing back about the same task.
+ *   A reply joins the conversation (correlationId) of the message it answers.
+ * - ResponseMonitor reminds agents of "required" responses they have not given,
+ *   escalates them when the reminder does not help, and expires messages whose
+ *   expiresAt has passed.
+ * - Settled messages (answered, expired, or not owed a response) are dropped
+ *   once they are older than the retention period (default 30 days), so the log
+ *   holds recent and open conversations only.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { getLog } from "./logger"
+import {
+	createQuery,
+	createQueryResponse,
+	createStatusNotification,
+	parseMessageFromText,
+	validateMessage,
+	type MessagePriority,
+	type ResponseExpectation,
+	type StructuredMessage,
+	type ValidationError,
+} from "./message-contracts"
+import { sanitizeFilename } from "./security-utils"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where a message stands with respect to responses:
+ * - awaiting: a "required" response has not arrived yet
+ * - answered: a reply has been recorded
+ * - expired: expiresAt passed before anyone answered
+ * - not_required: no response is owed (and none has arrived)
+ */
+export type ResponseState = "awaiting" | "answered" | "expired" | "not_required"
+
+export interface StoredMessage {
+	message: StructuredMessage
+	response: ResponseState
+	/** IDs of the messages that answered this one */
+	responses?: string[]
+	answeredAt?: string
+	expiredAt?: string
+	/** When the recipient was reminded of the missing response */
+	remindedAt?: string
+	/** When the missing response was escalated */
+	escalatedAt?: string
+	/** Agent the missing response was escalated to (unset: left to a human) */
+	escalatedTo?: string
+}
+
+export interface MessageLogFilter {
+	/** Messages sent or received by this agent */
+	agentId?: string
+	taskId?: string
+	response?: ResponseState
+	/** Only the newest N messages */
+	limit?: number
+}
+
+export interface MessageLogOptions {
+	/** Keep settled messages this long after they settled (default: 30 days) */
+	retentionMs?: number
+}
+
+/** The message breaks its contract (missing fields, bad expiry, unknown reply target) */
+export class MessageContractError extends Error {
+	constructor(public readonly errors: ValidationError[]) {
+		super(errors.map((e) => `${e.field}: ${e.message}`).join("; "))
+		this.name = "MessageContractError"
+	}
+}
+
+const PRIORITIES: MessagePriority[] = ["critical", "high", "normal", "low"]
+const EXPECTATIONS: ResponseExpectation[] = ["required", "optional", "none", "async"]
+
+// ============================================================================
+// Building messages from agent text
+// ============================================================================
+
+export interface TextMessageOptions {
+	priority?: MessagePriority
+	responseExpected?: ResponseExpectation
+	/** The message this text answers */
+	inResponseTo?: StructuredMessage
+	taskId?: string
+	expiresAt?: string
+}
+
+/**
+ * Turn free text sent by an agent into a StructuredMessage: an answer when it
+ * replies to a query, a query when it asks something (or needs a response),
+ * otherwise a status notification.
+ */
+export function messageFromText(
+	text: string,
+	fromAgentId: string,
+	toAgentId: string,
+	projectId: string,
+	options: TextMessageOptions = {},
+): StructuredMessage {
+	const detected = parseMessageFromText(text, fromAgentId, toAgentId, projectId)
+	const original = options.inResponseTo
+	const taskId = options.taskId ?? original?.taskId ?? detected?.taskId
+	const priority = options.priority ?? detected?.priority ?? "normal"
+
+	let message: StructuredMessage
+	if (original?.category === "query") {
+		message = createQueryResponse(fromAgentId, toAgentId, projectId, { answer: text, confidence: "likely" }, original.messageId, taskId)
+	} else if (!original && (detected?.category === "query" || options.responseExpected === "required")) {
+		const urgency = priority === "critical" || priority === "high" ? "blocking" : priority === "low" ? "when_available" : "soon"
+		message = createQuery(fromAgentId, toAgentId, projectId, { question: text, urgency }, taskId)
+	} else {
+		const subject = text.trim().split("\n")[0].slice(0, 80) || "(empty)"
+		message = createStatusNotification(
+			fromAgentId,
+			toAgentId,
+			projectId,
+			{ subject, status: original ? "reply" : "message", details: text },
+			{ taskId, inResponseTo: original?.messageId },
+		)
+	}
+	return {
+		...message,
+		priority,
+		responseExpected: options.responseExpected ?? message.responseExpected,
+		...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+	}
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Structured messages per project, one JSON file each (.society/messages/<project>.json)
+ */
+export class MessageLog {
+	private retentionMs: number
+
+	constructor(
+		private dir: string,
+		options: MessageLogOptions = {},
+	) {
+		this.retentionMs = options.retentionMs ?? 30 * 24 * 60 * 60_000
+	}
+
+	private filePath(projectId: string): string {
+		return path.join(this.dir, `${sanitizeFilename(projectId)}.json`)
+	}
+
+	private load(projectId: string): StoredMessage[] {
+		const file = this.filePath(projectId)
+		if (!fs.existsSync(file)) return []
+		return JSON.parse(fs.readFileSync(file, "utf-8"))
+	}
+
+	/** Write a project's messages, leaving out those settled before the retention period */
+	private save(projectId: string, messages: StoredMessage[], now: Date = new Date()): void {
+		const cutoff = now.getTime() - this.retentionMs
+		const kept = messages.filter((entry) => {
+			const settled = settledAt(entry, now.getTime())
+			return settled === undefined || settled >= cutoff
+		})
+		if (kept.length < messages.length) log.info(`[Messages] ${projectId}: dropped ${messages.length - kept.length} settled message(s) past retention`)
+		fs.mkdirSync(this.dir, { recursive: true })
+		fs.writeFileSync(this.filePath(projectId), JSON.stringify(kept, null, 2), "utf-8")
+	}
+
+	/** Oldest first */
+	list(projectId: string, filter: MessageLogFilter = {}): StoredMessage[] {
+		const messages = this.load(projectId).filter(
+			({ message, response }) =>
+				(!filter.agentId || message.fromAgentId === filter.agentId || message.toAgentId === filter.agentId) &&
+				(!filter.taskId || message.taskId === filter.taskId) &&
+				(!filter.response || response === filter.response),
+		)
+		return filter.limit ? messages.slice(-filter.limit) : messages
+	}
+
+	get(projectId: string, messageId: string): StoredMessage | undefined {
+		return this.load(projectId).find((m) => m.message.messageId === messageId)
+	}
+
+	/** Messages `fromAgentId` sent to `toAgentId` that still await a response, oldest first */
+	awaitingReply(projectId: string, fromAgentId: string, toAgentId: string): StoredMessage[] {
+		return this.load(projectId).filter(
+			(m) => m.response === "awaiting" && m.message.fromAgentId === fromAgentId && m.message.toAgentId === toAgentId,
+		)
+	}
+
+	/**
+	 * Check a message against its contract and the log (reply targets, expiry).
+	 * Returns the problems found (empty when the message is valid).
+	 */
+	check(message: StructuredMessage, now: Date = new Date()): ValidationError[] {
+		const errors = validateMessage(message)
+		const fields = message as Partial<StructuredMessage> & { type?: string; payload?: unknown }
+		if (!fields.type) errors.push({ field: "type", message: "Message type is required" })
+		if (!fields.payload || typeof fields.payload !== "object") errors.push({ field: "payload", message: "Payload is required" })
+		if (!PRIORITIES.includes(message.priority)) errors.push({ field: "priority", message: `Priority must be one of ${PRIORITIES.join(", ")}` })
+		if (!EXPECTATIONS.includes(message.responseExpected)) {
+			errors.push({ field: "responseExpected", message: `responseExpected must be one of ${EXPECTATIONS.join(", ")}` })
+		}
+		if (!message.timestamp || isNaN(Date.parse(message.timestamp))) errors.push({ field: "timestamp", message: "Timestamp must be an ISO date" })
+		if (message.expiresAt !== undefined) {
+			const expires = Date.parse(message.expiresAt)
+			if (isNaN(expires)) errors.push({ field: "expiresAt", message: "expiresAt must be an ISO date" })
+			else if (expires <= now.getTime()) errors.push({ field: "expiresAt", message: "Message has already expired" })
+		}
+		if (message.inResponseTo && message.projectId) {
+			const original = this.get(message.projectId, message.inResponseTo)
+			if (!original) {
+				errors.push({ field: "inResponseTo", message: `Unknown message ${message.inResponseTo}` })
+			} else if (original.response === "expired" || (original.message.expiresAt && Date.parse(original.message.expiresAt) <= now.getTime())) {
+				errors.push({ field: "inResponseTo", message: `Message ${message.inResponseTo} expired at ${original.message.expiresAt}` })
+			}
+		}
+		return errors
+	}
+
+	/**
+	 * Validate and store a message, marking the messages it answers.
+	 * @throws MessageContractError if the message is invalid
+	 */
+	record(message: StructuredMessage, now: Date = new Date()): { stored: StoredMessage; answered: StoredMessage[] } {
+		const errors = this.check(message, now)
+		if (errors.length > 0) throw new MessageContractError(errors)
+
+		const messages = this.load(message.projectId)
+		if (messages.some((m) => m.message.messageId === message.messageId)) {
+			throw new MessageContractError([{ field: "messageId", message: `Duplicate message ID ${message.messageId}` }])
+		}
+
+		// A reply belongs to the conversation of the message it answers
+		const original = message.inResponseTo ? messages.find((m) => m.message.messageId === message.inResponseTo) : undefined
+		if (original && !message.correlationId) {
+			message = { ...message, correlationId: original.message.correlationId ?? original.message.messageId }
+		}
+
+		const answered: StoredMessage[] = []
+		for (const entry of messages) {
+			if (!answers(message, entry)) continue
+			entry.response = "answered"
+			entry.responses = [...(entry.responses ?? []), message.messageId]
+			entry.answeredAt ??= now.toISOString()
+			answered.push(entry)
+		}
+
+		const stored: StoredMessage = { message, response: message.responseExpected === "required" ? "awaiting" : "not_required" }
+		messages.push(stored)
+		this.save(message.projectId, messages, now)
+		log.info(`[Messages] ${message.fromAgentId} → ${message.toAgentId}: ${message.category}/${"type" in message ? message.type : "?"} ${message.messageId}`)
+		return { stored, answered }
+	}
+
+	/** Update the response tracking of a stored message */
+	update(projectId: string, messageId: string, changes: Partial<Omit<StoredMessage, "message">>): StoredMessage | undefined {
+		return this.updateMany(projectId, new Map([[messageId, changes]]))[0]
+	}
+
+	/** Update the response tracking of several messages in one write. Returns the entries found. */
+	updateMany(projectId: string, changes: Map<string, Partial<Omit<StoredMessage, "message">>>, now: Date = new Date()): StoredMessage[] {
+		if (changes.size === 0) return []
+		const messages = this.load(projectId)
+		const updated: StoredMessage[] = []
+		for (const entry of messages) {
+			const change = changes.get(entry.message.messageId)
+			if (!change) continue
+			Object.assign(entry, change)
+			updated.push(entry)
+		}
+		if (updated.length > 0) this.save(projectId, messages, now)
+		return updated
+	}
+}
+
+/** When a message stopped needing attention (epoch ms); undefined while it can still be answered */
+function settledAt(entry: StoredMessage, now: number): number | undefined {
+	if (entry.response === "awaiting") return undefined
+	if (entry.message.expiresAt && entry.response !== "expired" && Date.parse(entry.message.expiresAt) > now) return undefined
+	const settled = entry.response === "answered" ? entry.answeredAt : entry.response === "expired" ? entry.expiredAt : undefined
+	return Date.parse(settled ?? entry.message.timestamp)
+}
+
+/** Whether `reply` answers the stored message */
+function answers(reply: StructuredMessage, entry: StoredMessage): boolean {
+	if (entry.response === "expired") return false
+	if (reply.inResponseTo) return reply.inResponseTo === entry.message.messageId
+	// Without an explicit reference, only the recipient writing back about the same task counts
+	return (
+		entry.response === "awaiting" &&
+		!!reply.taskId &&
+		reply.taskId === entry.message.taskId &&
+		reply.fromAgentId === entry.message.toAgentId &&
+		reply.toAgentId === entry.message.fromAgentId
+	)
+}
+
+// ============================================================================
+// Response monitor
+// ============================================================================
+
+export interface ResponseMonitorOptions {
+	/** Check interval (default: 60s) */
+	intervalMs?: number
+	/** Remind the recipient this long after a required message was sent (default: 30 min) */
+	reminderAfterMs?: number
+	/** Escalate this long after a required message was sent (default: 2 h) */
+	escalateAfterMs?: number
+	onReminder?: (projectId: string, entry: StoredMessage) => void
+	/** Escalate a missing response. Returns the agent it went to, if any. */
+	onEscalation?: (projectId: string, entry: StoredMessage) => string | undefined
+	/** A message that awaited a response expired */
+	onExpired?: (projectId: string, entry: StoredMessage) => void
+}
+
+/**
+ * Enforces response expectations and expiry across all projects' message logs.
+ */
+export class ResponseMonitor {
+	private timer: NodeJS.Timeout | null = null
+
+	constructor(
+		private messages: MessageLog,
+		private projects: { getAll(): Array<{ id: string }> },
+		private options: ResponseMonitorOptions = {},
+	) {}
+
+	/** Start checking. Idempotent. */
+	start(): void {
+		if (this.timer) return
+		const intervalMs = this.options.intervalMs ?? 60_000
+		this.timer = setInterval(() => {
+			try {
+				this.checkOnce()
+			} catch (err) {
+				log.error("[Messages] Response check failed:", err)
+			}
+		}, intervalMs)
+		this.timer.unref?.()
+		log.info(`[Messages] Monitoring required responses (every ${Math.round(intervalMs / 1000)}s)`)
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+	}
+
+	/** Expire, remind and escalate once. Returns the number of messages acted on. */
+	checkOnce(now: Date = new Date()): number {
+		const reminderAfterMs = this.options.reminderAfterMs ?? 30 * 60_000
+		const escalateAfterMs = this.options.escalateAfterMs ?? 2 * 60 * 60_000
+		let acted = 0
+
+		for (const project of this.projects.getAll()) {
+			// Everything changed in a project is written once, after the pass
+			const changes = new Map<string, Partial<Omit<StoredMessage, "message">>>()
+			for (const entry of this.messages.list(project.id)) {
+				const { message } = entry
+				if (entry.response === "answered" || entry.response === "expired") continue
+
+				if (message.expiresAt && Date.parse(message.expiresAt) <= now.getTime()) {
+					const change = { response: "expired" as const, expiredAt: now.toISOString() }
+					changes.set(message.messageId, change)
+					if (entry.response === "awaiting") this.options.onExpired?.(project.id, { ...entry, ...change })
+					acted++
+					continue
+				}
+				if (entry.response !== "awaiting") continue
+
+				const age = now.getTime() - Date.parse(message.timestamp)
+				if (!entry.escalatedAt && age >= escalateAfterMs) {
+					const escalatedTo = this.options.onEscalation?.(project.id, entry)
+					changes.set(message.messageId, { escalatedAt: now.toISOString(), escalatedTo })
+					acted++
+				} else if (!entry.remindedAt && !entry.escalatedAt && age >= reminderAfterMs) {
+					this.options.onReminder?.(project.id, entry)
+					changes.set(message.messageId, { remindedAt: now.toISOString() })
+					acted++
+				}
+			}
+			this.messages.updateMany(project.id, changes, now)
+		}
+		return acted
+	}
+}
@@ -1,21 +1,30 @@
 // Society Agent - new file
 /**
- * Message Sender - Sends messages to other agents via HTTP + inbox file
+ * Message Sender - Sends messages to other agents via HTTP + inbox queue
  *
  * Dual-delivery strategy:
- *   1. Always writes to recipient's inbox file (guaranteed delivery)
+ *   1. Always publishes to recipient's inbox queue (guaranteed delivery)
  *   2. Also tries HTTP for instant delivery (best-effort)
  *
- * The HTTP path is optional — if the agent is offline, the inbox file
+ * The HTTP path is optional — if the agent is offline, the inbox queue
  * ensures the message is there when the agent comes back online.
  */
 
 import * as fs from "fs/promises"
 import * as path from "path"
 import * as http from "http"
-import { AgentIdentityManager, SignedMessage, AttachmentRef } from "./agent-identity"
+import { AgentIdentityManager, SignedMessage, AttachmentRef, getMessagePriority } from "./agent-identity"
 import { AttachmentManager, AttachmentInput } from "./attachment-manager"
 import { getLog } from "./logger"
+import { openMessageBroker } from "./message-broker"
+import type { MessagePriority } from "./message-contracts"
+
+/** Queue priority for each handling priority: interrupts jump the queue, log-only messages wait */
+const QUEUE_PRIORITY: Record<ReturnType<typeof getMessagePriority>, MessagePriority> = {
+	interrupt: "critical",
+	queue: "normal",
+	log: "low",
+}
 
 export interface AgentEndpoint {
 	agentId: string
@@ -111,8 +120,8 @@ export class MessageSender {
 		const recipients = to === "all" ? this.getAllAgentIds() : [to]
 
 		for (const recipientId of recipients) {
-			// Always write to inbox file (guaranteed delivery)
-			await this.writeToInbox(recipientId, message)
+			// Always publish to inbox queue (guaranteed delivery)
+			this.writeToInbox(recipientId, message)
 
 			// Try HTTP for instant delivery (best-effort)
 			const endpoint = this.agentEndpoints.get(recipientId)
@@ -121,7 +130,7 @@ export class MessageSender {
 					await this.sendHttp(endpoint.url, message)
 					getLog().info(`HTTP delivery to ${recipientId} succeeded`)
 				} catch (error) {
-					getLog().info(`HTTP delivery to ${recipientId} failed (inbox file will be picked up)`)
+					getLog().info(`HTTP delivery to ${recipientId} failed (inbox queue will deliver it)`)
 				}
 			}
 		}
@@ -131,14 +140,13 @@ export class MessageSender {
 	}
 
 	/**
-	 * Write message to recipient's inbox directory
+	 * Publish message to recipient's inbox queue
 	 */
-	private async writeToInbox(agentId: string, message: SignedMessage): Promise<void> {
-		const inboxDir = path.join(this.sharedDir, "inbox", agentId)
-		await fs.mkdir(inboxDir, { recursive: true })
-
-		const filePath = path.join(inboxDir, `${message.id}.json`)
-		await fs.writeFile(filePath, JSON.stringify(message, null, 2), "utf-8")
+	private writeToInbox(agentId: string, message: SignedMessage): void {
+		openMessageBroker(path.join(this.sharedDir, "queues")).publish(agentId, message, {
+			id: message.id,
+			priority: QUEUE_PRIORITY[getMessagePriority(message.type)],
+		})
 	}
 
 	/**
@@ -0,0 +1,222 @@
+// Society Agent - new file
+/**
+ * Message Threads
+ *
+ * Reconstructs conversations across agents from the project's message log and
+ * their activity logs.
+ *
+ * - Two messages are in the same thread when one answers the other
+ *   (inResponseTo) or names the other as its conversation (correlationId). A
+ *   thread is identified by its first message.
+ * - Activity log events carry the correlationId of the conversation the agent
+ *   was working on, so the timeline shows what each agent did in between.
+ * - Reminders, escalations and expiry recorded on a message appear in the
+ *   timeline as events.
+ */
+
+import type { ActivityEvent } from "./agent-activity-logger"
+import type { StoredMessage } from "./message-log"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MessageThreadSummary {
+	/** ID of the thread's first message */
+	threadId: string
+	/** What the first message is about */
+	subject: string
+	startedBy: string
+	participants: string[]
+	taskIds: string[]
+	messageCount: number
+	/** Messages still waiting for a required response */
+	awaiting: number
+	startedAt: string
+	lastActivityAt: string
+}
+
+export type ThreadTimelineEntry =
+	| {
+			kind: "message"
+			at: string
+			/** Nesting under the message it answers or the conversation it belongs to */
+			depth: number
+			entry: StoredMessage
+	  }
+	| { kind: "event"; at: string; messageId: string; event: "reminded" | "escalated" | "expired"; agentId?: string }
+	| { kind: "activity"; at: string; agentId: string; type: ActivityEvent["type"]; summary: string }
+
+export interface MessageThread extends MessageThreadSummary {
+	timeline: ThreadTimelineEntry[]
+}
+
+export interface ThreadFilter {
+	/** Threads with a message about this ManagedTask */
+	taskId?: string
+	/** Threads this agent took part in */
+	agentId?: string
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Thread index over one project's messages and activity events.
+ */
+export class MessageThreadIndex {
+	private threadOf = new Map<string, string>()
+	private members = new Map<string, StoredMessage[]>()
+
+	constructor(
+		messages: StoredMessage[],
+		private activity: ActivityEvent[] = [],
+	) {
+		const ordered = [...messages].sort((a, b) => a.message.timestamp.localeCompare(b.message.timestamp))
+		const parent = new Map<string, string>()
+		const find = (id: string): string => {
+			let root = id
+			while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!
+			parent.set(id, root)
+			return root
+		}
+		// The earlier message becomes the root, so a thread is named after its first message
+		const position = new Map(ordered.map((m, i) => [m.message.messageId, i]))
+		const rank = (id: string) => position.get(id) ?? Infinity
+		const union = (a: string, b: string) => {
+			const [ra, rb] = [find(a), find(b)]
+			if (ra === rb) return
+			if (rank(ra) <= rank(rb)) parent.set(rb, ra)
+			else parent.set(ra, rb)
+		}
+		for (const { message } of ordered) {
+			find(message.messageId)
+			if (message.inResponseTo) union(message.messageId, message.inResponseTo)
+			if (message.correlationId) union(message.messageId, message.correlationId)
+		}
+		for (const entry of ordered) {
+			const threadId = find(entry.message.messageId)
+			this.threadOf.set(entry.message.messageId, threadId)
+			this.members.set(threadId, [...(this.members.get(threadId) ?? []), entry])
+		}
+		// Correlation IDs of messages no longer in the log still point at their thread
+		for (const [id] of parent) {
+			if (!this.threadOf.has(id) && this.members.has(find(id))) this.threadOf.set(id, find(id))
+		}
+	}
+
+	/** Thread a message (or correlation ID) belongs to */
+	threadId(messageId: string): string | undefined {
+		return this.threadOf.get(messageId)
+	}
+
+	/** Threads, most recently active first */
+	threads(filter: ThreadFilter = {}): MessageThreadSummary[] {
+		return [...this.members.keys()]
+			.map((threadId) => this.summarize(threadId))
+			.filter(
+				(t) =>
+					(!filter.taskId || t.taskIds.includes(filter.taskId)) &&
+					(!filter.agentId || t.participants.includes(filter.agentId)),
+			)
+			.sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt))
+	}
+
+	/** One thread with its timeline (messages, their events and the agents' activity), oldest first */
+	thread(threadId: string): MessageThread | undefined {
+		const members = this.members.get(threadId)
+		if (!members) return undefined
+
+		const depths = new Map<string, number>()
+		const depthOf = (entry: StoredMessage): number => {
+			const { messageId, inResponseTo, correlationId } = entry.message
+			if (depths.has(messageId)) return depths.get(messageId)!
+			const parentId = inResponseTo ?? (correlationId !== messageId ? correlationId : undefined)
+			const parent = parentId ? members.find((m) => m.message.messageId === parentId) : undefined
+			const depth = parent ? depthOf(parent) + 1 : 0
+			depths.set(messageId, depth)
+			return depth
+		}
+
+		const timeline: ThreadTimelineEntry[] = []
+		for (const entry of members) {
+			const messageId = entry.message.messageId
+			timeline.push({ kind: "message", at: entry.message.timestamp, depth: depthOf(entry), entry })
+			if (entry.remindedAt) timeline.push({ kind: "event", at: entry.remindedAt, messageId, event: "reminded", agentId: entry.message.toAgentId })
+			if (entry.escalatedAt) timeline.push({ kind: "event", at: entry.escalatedAt, messageId, event: "escalated", agentId: entry.escalatedTo })
+			if (entry.expiredAt) timeline.push({ kind: "event", at: entry.expiredAt, messageId, event: "expired" })
+		}
+		for (const event of this.activityOf(threadId)) {
+			timeline.push({ kind: "activity", at: new Date(event.t).toISOString(), agentId: event.agentId, type: event.type, summary: summarizeActivity(event) })
+		}
+		timeline.sort((a, b) => a.at.localeCompare(b.at))
+		return { ...this.summarize(threadId), timeline }
+	}
+
+	private activityOf(threadId: string): ActivityEvent[] {
+		return this.activity.filter((e) => e.correlationId && this.threadOf.get(e.correlationId) === threadId)
+	}
+
+	private summarize(threadId: string): MessageThreadSummary {
+		const members = this.members.get(threadId)!
+		const first = members[0].message
+		const participants = new Set<string>()
+		const taskIds = new Set<string>()
+		for (const { message } of members) {
+			participants.add(message.fromAgentId)
+			participants.add(message.toAgentId)
+			if (message.taskId) taskIds.add(message.taskId)
+		}
+		const last = [
+			members[members.length - 1].message.timestamp,
+			...this.activityOf(threadId).map((e) => new Date(e.t).toISOString()),
+		].sort()
+		return {
+			threadId,
+			subject: messageSubject(members[0]),
+			startedBy: first.fromAgentId,
+			participants: [...participants],
+			taskIds: [...taskIds],
+			messageCount: members.length,
+			awaiting: members.filter((m) => m.response === "awaiting").length,
+			startedAt: first.timestamp,
+			lastActivityAt: last[last.length - 1],
+		}
+	}
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** One line describing a message */
+export function messageSubject({ message }: StoredMessage): string {
+	const payload = message.payload as unknown as Record<string, unknown>
+	const text = [payload.taskTitle, payload.question, payload.answer, payload.summary, payload.subject, payload.description, payload.reason, payload.filePath].find(
+		(v) => typeof v === "string" && v.trim(),
+	) as string | undefined
+	return `${message.type}: ${(text ?? "").trim().split("\n")[0].slice(0, 100)}`
+}
+
+function summarizeActivity(event: ActivityEvent): string {
+	const short = (text: string) => (text.length > 200 ? `${text.slice(0, 200)}…` : text)
+	switch (event.type) {
+		case "chat_in":
+			return short(event.content)
+		case "chat_out":
+			return short(event.content)
+		case "tool_call":
+			return short(`${event.tool}(${JSON.stringify(event.args)})`)
+		case "tool_result":
+			return `${event.tool} ${event.success ? "succeeded" : "failed"} (${event.durationMs} ms)`
+		case "inbox_msg":
+			return short(`from ${event.from}: ${event.content}`)
+		case "loop_exit":
+			return `stopped: ${event.reason}${event.detail ? ` (${event.detail})` : ""}`
+		case "api_error":
+			return short(event.message)
+		default:
+			return event.type
+	}
+}
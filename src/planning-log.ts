@@ -96,6 +96,8 @@ export interface Decision {
 	supersededBy?: string
 	/** Revision history */
 	revisions?: DecisionRevision[]
+	/** Society Agent - ADR file for this decision (e.g. "0003-use-postgres.md" in docs/adr) */
+	adrFile?: string
 }
 
 /**
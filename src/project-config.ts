@@ -9,6 +9,7 @@
 import * as fs from "fs/promises"
 import * as path from "path"
 import { getLog } from "./logger"
+import { type ParsedAdr, readAdrDirectory } from "./adr-records" // Society Agent - import existing ADRs
 
 /**
  * Supported programming languages
@@ -572,6 +573,9 @@ export interface BootstrapResult {
 		lastCommitDate: string
 		activeBranches: string[]
 	}
+
+	/** Society Agent - Architecture Decision Records found in docs/adr */
+	adrRecords?: ParsedAdr[]
 }
 
 /**
@@ -643,6 +647,13 @@ export async function bootstrapExistingProject(
 		gitSummary = await analyzeGitHistory(projectRoot)
 	}
 
+	// Society Agent start - existing ADRs become planning-log decisions
+	const adrRecords = await readAdrDirectory(projectRoot)
+	if (adrRecords.length > 0) {
+		getLog().info(`[Bootstrap] Found ${adrRecords.length} ADRs in docs/adr`)
+	}
+	// Society Agent end
+
 	// 6. Calculate stats
 	const stats = await calculateFileStats(projectRoot, categorized)
 
@@ -663,6 +674,7 @@ export async function bootstrapExistingProject(
 		detectedTasks,
 		stats,
 		gitSummary,
+		adrRecords,
 	}
 }
 
@@ -14,11 +14,15 @@
 import * as fs from "fs"
 import * as path from "path"
 import { getLog } from "./logger"
-import { sanitizeFilename } from "./security-utils"
+import { sanitizeFilename, validatePath } from "./security-utils"
+import type { ExecutionSettings } from "./execution-sandbox"
 import {
 	type ManagedTask,
 	type TaskStatus,
 	type BlockingReason,
+	type TaskPullRequest,
+	type TaskExternalIssue, // Society Agent
+	type TaskStatusTransition, // Society Agent
 	createTask as createManagedTask,
 	transitionTask,
 	delegateTask,
@@ -53,6 +57,18 @@ import {
 	writeFilesMd,
 	getFilesOwnedBy,
 	getPendingHandoffs,
+	// Society Agent start - change proposals
+	type CanModifyResult,
+	type FileChangeProposal,
+	type ThreeWayMergeResult,
+	proposeFileChange,
+	getPendingProposal,
+	resolveProposal,
+	recordProposalConflict,
+	getProposalsForOwner,
+	createFilePatch,
+	threeWayMerge,
+	// Society Agent end
 } from "./file-ownership"
 import {
 	type VerificationResult,
@@ -79,6 +95,19 @@ import {
 	getActiveDecisions,
 	getPendingDecisions as getPendingPlanningDecisions,
 } from "./planning-log"
+// Society Agent start - decision impact analysis, task graph, ADR export/import
+import { type DecisionImpactReport, analyzeDecisionImpact, planReworkTasks } from "./decision-impact"
+import { type TaskGraph, buildTaskGraph } from "./task-graph"
+import { type TaskTemplate, TaskTemplateError, expandTaskTemplate } from "./task-templates"
+import {
+	type AdrImportResult,
+	type ParsedAdr,
+	ADR_DIR,
+	readAdrDirectory,
+	importAdrRecords,
+	exportDecisionsToAdr,
+} from "./adr-records"
+// Society Agent end
 import {
 	type SupervisorOverride,
 	type TaskPriority,
@@ -88,6 +117,9 @@ import {
 	supervisorForceCancel,
 	supervisorChangePriority,
 } from "./task-manager"
+// Society Agent start - cron scheduling
+import { parseCronExpression, computeNextRunAt } from "./task-scheduler"
+// Society Agent end
 
 const log = getLog()
 
@@ -114,6 +146,8 @@ export interface ProjectAgentConfig {
 	model?: string
 	/** Optional behavior overrides (falls back to project, then server defaults) */
 	behaviorSettings?: ProjectBehaviorSettings
+	/** Command execution backend overrides (falls back to project, then server default) */
+	execution?: ExecutionSettings
 	/** When last active */
 	lastActiveAt?: string
 	// Society Agent start - port configuration
@@ -136,6 +170,10 @@ export interface ProjectAgentConfig {
 	/** Domain/scope this agent owns (e.g. "backend", "frontend/components") */
 	scope?: string
 	// Society Agent end
+	// Society Agent start - federation
+	/** Listed in the directory sent to federated servers, whose agents may then delegate to and message it */
+	acceptsExternalWork?: boolean
+	// Society Agent end
 	// Society Agent start - inherited folders from retired agents
 	/** Additional folders this agent has access to (inherited from retired agents) */
 	inheritedFolders?: Array<{
@@ -326,12 +364,16 @@ export interface ScheduledTask {
 	id: string
 	/** Human-readable name */
 	name: string
-	/** Task type: 'ai' uses LLM with prompt, 'command' runs shell command (no AI tokens) */
-	type: "ai" | "command"
+	/** Task type: 'ai' uses LLM with prompt, 'command' runs shell command (no AI tokens), 'template' creates managed tasks from a task template */
+	type: "ai" | "command" | "template"
 	/** What the agent should do when triggered (for type='ai') */
 	prompt?: string
 	/** Shell command to run (for type='command') - runs in agent's home folder */
 	command?: string
+	/** Task template to instantiate, created by the agent (for type='template') */
+	templateId?: string
+	/** Parameter values for the template */
+	templateParameters?: Record<string, string>
 	/** Cron expression (e.g. "0 9 * * *" = 9am daily, "0,30 * * * *" = every 30 min) */
 	cron: string
 	/** Whether this schedule is active */
@@ -390,6 +432,8 @@ export interface Project {
 	model?: string
 	/** Per-project orchestration behavior overrides (falls back to server defaults) */
 	behaviorSettings?: ProjectBehaviorSettings
+	/** Command execution backend for all agents in this project (host or sandbox) */
+	execution?: ExecutionSettings
 	/** Agents assigned to this project */
 	agents: ProjectAgentConfig[]
 	// Society Agent start - Task pool
@@ -644,6 +688,12 @@ export class ProjectStore {
 	private storePath: string
 	private state: ProjectStoreState
 	public projectsBaseDir: string // Society Agent - made public for file path calculations
+	/** Society Agent - called when an agent starts a pool task or accepts a managed task (used for workspace checkpoints) */
+	public onTaskStart?: (projectId: string, agentId: string, taskId: string) => void
+	/** Society Agent - called for each status transition a managed task goes through (used for issue tracker sync) */
+	public onManagedTaskTransition?: (projectId: string, task: ManagedTask, transition: TaskStatusTransition) => void
+	/** Society Agent - the root of an agent's own checkout of the project (its git worktree); null when it works in the shared one */
+	public agentCheckoutDir?: (projectId: string, agentId: string) => string | null
 
 	constructor(workspacePath: string) {
 		// Defensive check
@@ -848,7 +898,7 @@ export class ProjectStore {
 		return project
 	}
 
-	update(id: string, updates: Partial<Pick<Project, "name" | "description" | "folder" | "knowledge" | "status" | "gitConfig" | "provider" | "model" | "behaviorSettings">>): Project | undefined {
+	update(id: string, updates: Partial<Pick<Project, "name" | "description" | "folder" | "knowledge" | "status" | "gitConfig" | "provider" | "model" | "behaviorSettings" | "execution">>): Project | undefined {
 		const project = this.get(id)
 		if (!project) return undefined
 
@@ -861,6 +911,7 @@ export class ProjectStore {
 		if (updates.provider !== undefined) project.provider = updates.provider || undefined
 		if (updates.model !== undefined) project.model = updates.model || undefined
 		if (updates.behaviorSettings !== undefined) project.behaviorSettings = updates.behaviorSettings || undefined
+		if (updates.execution !== undefined) project.execution = updates.execution || undefined
 		project.updatedAt = new Date().toISOString()
 
 		this.save()
@@ -1160,8 +1211,8 @@ A task is NOT done until ALL four are true:
 	updateAgent(
 		projectId: string,
 		agentId: string,
-		// Society Agent - added port, serverType, reportsTo, scope, scheduledTasks, ephemeral, inheritedFolders, provider, workspaceMode, sharedWorkspaceWith, customInstructions; removed canSpawnWorkers, capabilities, knowledgeSummary
-		updates: Partial<Pick<ProjectAgentConfig, "name" | "role" | "systemPrompt" | "customInstructions" | "ephemeral" | "homeFolder" | "provider" | "model" | "behaviorSettings" | "port" | "serverType" | "reportsTo" | "scope" | "scheduledTasks" | "inheritedFolders" | "workspaceMode" | "sharedWorkspaceWith">>,
+		// Society Agent - added port, serverType, reportsTo, scope, scheduledTasks, ephemeral, inheritedFolders, provider, workspaceMode, sharedWorkspaceWith, customInstructions, execution; removed canSpawnWorkers, capabilities, knowledgeSummary
+		updates: Partial<Pick<ProjectAgentConfig, "name" | "role" | "systemPrompt" | "customInstructions" | "ephemeral" | "homeFolder" | "provider" | "model" | "behaviorSettings" | "execution" | "port" | "serverType" | "reportsTo" | "scope" | "scheduledTasks" | "inheritedFolders" | "workspaceMode" | "sharedWorkspaceWith">>,
 	): ProjectAgentConfig | undefined {
 		const project = this.get(projectId)
 		if (!project) return undefined
@@ -1484,6 +1535,7 @@ A task is NOT done until ALL four are true:
 		project.updatedAt = new Date().toISOString()
 		this.save()
 		log.info(`Task "${task.title}" started`)
+		if (task.claimedBy) this.onTaskStart?.(projectId, task.claimedBy, task.id) // Society Agent
 		return task
 	}
 
@@ -1899,6 +1951,87 @@ A task is NOT done until ALL four are true:
 	}
 	// Society Agent end
 
+	// Society Agent start - Scheduled task methods
+	// ========================================================================
+	// Scheduled Tasks
+	// ========================================================================
+
+	/** Get all scheduled tasks for an agent */
+	getScheduledTasks(projectId: string, agentId: string): ScheduledTask[] {
+		return this.getAgent(projectId, agentId)?.scheduledTasks || []
+	}
+
+	/** Get a single scheduled task */
+	getScheduledTask(projectId: string, agentId: string, taskId: string): ScheduledTask | undefined {
+		return this.getScheduledTasks(projectId, agentId).find((t) => t.id === taskId)
+	}
+
+	/** Add a scheduled task to an agent. Throws if the cron expression is invalid. */
+	addScheduledTask(
+		projectId: string,
+		agentId: string,
+		input: Pick<ScheduledTask, "name" | "type" | "cron"> & Partial<Pick<ScheduledTask, "prompt" | "command" | "templateId" | "templateParameters" | "enabled">>,
+	): ScheduledTask | undefined {
+		const agent = this.getAgent(projectId, agentId)
+		if (!agent) return undefined
+
+		parseCronExpression(input.cron)
+		const enabled = input.enabled ?? true
+		const task: ScheduledTask = {
+			id: `sched-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+			name: input.name,
+			type: input.type,
+			prompt: input.type === "ai" ? input.prompt : undefined,
+			command: input.type === "command" ? input.command : undefined,
+			templateId: input.type === "template" ? input.templateId : undefined,
+			templateParameters: input.type === "template" ? input.templateParameters : undefined,
+			cron: input.cron.trim(),
+			enabled,
+			nextRunAt: computeNextRunAt({ cron: input.cron, enabled }),
+			runCount: 0,
+			createdAt: new Date().toISOString(),
+		}
+		if (!agent.scheduledTasks) agent.scheduledTasks = []
+		agent.scheduledTasks.push(task)
+		this.save()
+		log.info(`Added scheduled task "${task.name}" (${task.cron}) to agent ${agentId}`)
+		return task
+	}
+
+	/**
+	 * Update a scheduled task. nextRunAt is recomputed when the cron expression
+	 * or the enabled flag changes. Throws if the new cron expression is invalid.
+	 */
+	updateScheduledTask(projectId: string, agentId: string, taskId: string, updates: Partial<Omit<ScheduledTask, "id" | "createdAt">>): ScheduledTask | undefined {
+		const task = this.getScheduledTask(projectId, agentId, taskId)
+		if (!task) return undefined
+
+		const scheduleChanged = (updates.cron !== undefined && updates.cron !== task.cron) ||
+			(updates.enabled !== undefined && updates.enabled !== task.enabled)
+		if (updates.cron !== undefined) {
+			parseCronExpression(updates.cron)
+			updates.cron = updates.cron.trim()
+		}
+		Object.assign(task, updates)
+		if (scheduleChanged && updates.nextRunAt === undefined) {
+			task.nextRunAt = computeNextRunAt(task)
+		}
+		this.save()
+		return task
+	}
+
+	/** Remove a scheduled task from an agent */
+	removeScheduledTask(projectId: string, agentId: string, taskId: string): boolean {
+		const agent = this.getAgent(projectId, agentId)
+		if (!agent?.scheduledTasks) return false
+		const idx = agent.scheduledTasks.findIndex((t) => t.id === taskId)
+		if (idx === -1) return false
+		agent.scheduledTasks.splice(idx, 1)
+		this.save()
+		return true
+	}
+	// Society Agent end
+
 	// Society Agent start - Approval queue methods
 	private _approvalQueue: ApprovalRequest[] = []
 	private approvalQueuePath: string = ""
@@ -2139,6 +2272,8 @@ A task is NOT done until ALL four are true:
 			description: string
 			createdBy: string
 			priority?: 1 | 2 | 3 | 4 | 5
+			estimatedHours?: number // Society Agent
+			storyPoints?: number // Society Agent
 			parentTaskId?: string
 			dependsOn?: string[]
 			context?: ManagedTask["context"]
@@ -2158,6 +2293,8 @@ A task is NOT done until ALL four are true:
 			description: data.description,
 			createdBy: data.createdBy,
 			priority: data.priority,
+			estimatedHours: data.estimatedHours, // Society Agent
+			storyPoints: data.storyPoints, // Society Agent
 			parentTaskId: data.parentTaskId,
 			dependsOn: data.dependsOn,
 			context: data.context,
@@ -2191,9 +2328,17 @@ A task is NOT done until ALL four are true:
 		const idx = project.managedTasks.findIndex((t) => t.taskId === task.taskId)
 		if (idx === -1) return false
 
+		const previous = project.managedTasks[idx] // Society Agent
 		project.managedTasks[idx] = task
 		project.updatedAt = new Date().toISOString()
 		this.save()
+		// Society Agent start
+		if (this.onManagedTaskTransition) {
+			for (const transition of task.statusHistory.slice(previous.statusHistory.length)) {
+				this.onManagedTaskTransition(projectId, task, transition)
+			}
+		}
+		// Society Agent end
 		return true
 	}
 
@@ -2219,6 +2364,31 @@ A task is NOT done until ALL four are true:
 		}
 	}
 
+	// Society Agent start - estimates
+	/** Set or clear a task's estimate (null clears a field, undefined leaves it) */
+	setManagedTaskEstimate(
+		projectId: string,
+		taskId: string,
+		estimate: { storyPoints?: number | null; estimatedHours?: number | null }
+	): ManagedTask | undefined {
+		const task = this.getManagedTask(projectId, taskId)
+		if (!task) return undefined
+
+		for (const field of ["storyPoints", "estimatedHours"] as const) {
+			const value = estimate[field]
+			if (value === undefined) continue
+			if (value !== null && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+				throw new Error(`${field} must be a non-negative number`)
+			}
+		}
+		const updated: ManagedTask = { ...task }
+		if (estimate.storyPoints !== undefined) updated.storyPoints = estimate.storyPoints ?? undefined
+		if (estimate.estimatedHours !== undefined) updated.estimatedHours = estimate.estimatedHours ?? undefined
+		this.updateManagedTask(projectId, updated)
+		return updated
+	}
+	// Society Agent end
+
 	/** Delegate a task to an agent */
 	delegateManagedTask(
 		projectId: string,
@@ -2249,6 +2419,7 @@ A task is NOT done until ALL four are true:
 			const updated = acceptTask(task, agentId)
 			this.updateManagedTask(projectId, updated)
 			log.info(`[TaskManager] ${taskId} accepted by ${agentId}`)
+			this.onTaskStart?.(projectId, agentId, taskId) // Society Agent
 			return updated
 		} catch (error) {
 			log.error(`[TaskManager] Accept failed: ${error}`)
@@ -2383,6 +2554,114 @@ A task is NOT done until ALL four are true:
 			: runVerification(task, projectDir)
 	}
 
+	// Society Agent start - pull/merge requests
+	/**
+	 * Store the latest state of a task's pull request. A merged pull request
+	 * completes the task: review → done (in_progress goes through review).
+	 */
+	recordManagedTaskPullRequest(
+		projectId: string,
+		taskId: string,
+		pullRequest: TaskPullRequest,
+		agentId = "git"
+	): ManagedTask | undefined {
+		const task = this.getManagedTask(projectId, taskId)
+		if (!task) return undefined
+
+		let updated: ManagedTask = { ...task, pullRequest }
+		if (pullRequest.state === "merged" && (task.status === "in_progress" || task.status === "review")) {
+			const reason = `Pull request merged: ${pullRequest.url}`
+			try {
+				if (updated.status === "in_progress") {
+					updated = transitionTask(updated, "review", agentId, { reason })
+				}
+				updated = transitionTask(updated, "done", agentId, {
+					reason,
+					metadata: pullRequest.mergeCommit ? { commitHash: pullRequest.mergeCommit } : undefined,
+				})
+				log.info(`[TaskManager] ${taskId} done: ${reason}`)
+			} catch (error) {
+				log.error(`[TaskManager] Completing ${taskId} after merge failed: ${error}`)
+			}
+		}
+
+		this.updateManagedTask(projectId, updated)
+		return updated
+	}
+	// Society Agent end
+
+	// Society Agent start - task templates
+	/**
+	 * Create the managed tasks of a template instance: sequenced IDs, dependencies
+	 * and parents mapped from step keys, and steps with a target delegated.
+	 * @throws TaskTemplateError for invalid parameters or unknown agents
+	 */
+	instantiateTaskTemplate(
+		projectId: string,
+		template: TaskTemplate,
+		parameters: Record<string, unknown>,
+		options: { createdBy: string; parentTaskId?: string }
+	): ManagedTask[] | undefined {
+		const project = this.get(projectId)
+		if (!project) return undefined
+
+		const steps = expandTaskTemplate(template, parameters)
+		for (const step of steps) {
+			if (step.delegateTo && !project.agents.some((a) => a.id === step.delegateTo)) {
+				throw new TaskTemplateError(`Step "${step.key}" delegates to unknown agent "${step.delegateTo}"`)
+			}
+		}
+		if (options.parentTaskId && !this.getManagedTask(projectId, options.parentTaskId)) {
+			throw new TaskTemplateError(`Parent task ${options.parentTaskId} not found`)
+		}
+
+		this.initTaskManagement(project)
+		const prefix = project.taskPrefix ?? generatePrefix(project.name)
+		const taskIds = new Map<string, string>()
+		const created: ManagedTask[] = []
+		for (const step of steps) {
+			let task = createManagedTask(prefix, this.getNextTaskSequence(project), {
+				title: step.title,
+				description: step.description,
+				createdBy: options.createdBy,
+				priority: step.priority,
+				estimatedHours: step.estimatedHours,
+				storyPoints: step.storyPoints,
+				parentTaskId: step.parent ? taskIds.get(step.parent) : options.parentTaskId,
+				dependsOn: step.dependsOn.length > 0 ? step.dependsOn.map((key) => taskIds.get(key)!) : undefined,
+				context: { relevantFiles: step.relevantFiles, notes: `Created from template "${template.name}"` },
+			})
+			task.template = { templateId: template.id, stepKey: step.key }
+			if (step.delegateTo) task = delegateTask(task, step.delegateTo, options.createdBy)
+			taskIds.set(step.key, task.taskId)
+			created.push(task)
+		}
+
+		project.managedTasks!.push(...created)
+		project.updatedAt = new Date().toISOString()
+		this.save()
+		log.info(`[TaskManager] Template ${template.id}: created ${created.map((t) => t.taskId).join(", ")} by ${options.createdBy}`)
+		return created
+	}
+	// Society Agent end
+
+	// Society Agent start - issue tracker sync
+	/** Store the sync state of a task's issue, with any field changes taken from the issue */
+	recordManagedTaskIssue(
+		projectId: string,
+		taskId: string,
+		externalIssue: TaskExternalIssue,
+		changes: Partial<Pick<ManagedTask, "title" | "description" | "priority">> = {}
+	): ManagedTask | undefined {
+		const task = this.getManagedTask(projectId, taskId)
+		if (!task) return undefined
+
+		const updated: ManagedTask = { ...task, ...changes, externalIssue }
+		this.updateManagedTask(projectId, updated)
+		return updated
+	}
+	// Society Agent end
+
 	/** Fail a task */
 	failManagedTask(
 		projectId: string,
@@ -2430,6 +2709,14 @@ A task is NOT done until ALL four are true:
 		})
 	}
 
+	// Society Agent start - dependency graph
+	/** Dependency graph of the managed tasks, with cycles and critical path */
+	getManagedTaskGraph(projectId: string): TaskGraph | undefined {
+		if (!this.get(projectId)) return undefined
+		return buildTaskGraph(this.getManagedTasks(projectId))
+	}
+	// Society Agent end
+
 	/** Get blocked tasks with their blocking reasons */
 	getBlockedTasks(projectId: string): Array<{ task: ManagedTask; reason: BlockingReason | undefined }> {
 		const tasks = this.getManagedTasks(projectId)
@@ -2473,12 +2760,24 @@ A task is NOT done until ALL four are true:
 		return this.initOwnershipRegistry(project)
 	}
 
+	// Society Agent start - agents of git projects work in their own worktree
+	/** The checkout an agent edits the project's files in: its worktree, else the shared one */
+	checkoutDir(projectId: string, agentId: string): string {
+		return this.agentCheckoutDir?.(projectId, agentId) ?? this.projectDir(projectId)
+	}
+
+	/** A file in the agent's checkout as a project-relative path, the way FILES.md names it */
+	projectFilePath(projectId: string, agentId: string, fullPath: string): string {
+		return path.relative(this.checkoutDir(projectId, agentId), fullPath).split(path.sep).join("/")
+	}
+	// Society Agent end
+
 	/** Check if an agent can modify a file */
 	async checkFileAccess(
 		projectId: string,
 		agentId: string,
 		filePath: string
-	): Promise<{ allowed: boolean; reason?: string; owner?: string }> {
+	): Promise<CanModifyResult> { // Society Agent - includes requiredAction
 		const registry = await this.getOwnershipRegistry(projectId)
 		if (!registry) return { allowed: false, reason: "Project not found" }
 
@@ -2651,6 +2950,125 @@ A task is NOT done until ALL four are true:
 		return getPendingHandoffs(registry, agentId)
 	}
 
+	// Society Agent start - change proposals for owned files
+	/**
+	 * Record a change to a file owned by another agent as a patch for the owner.
+	 * baseContent is the version the change was made against (default: the file now,
+	 * in the proposer's checkout).
+	 */
+	async proposeFileChange(
+		projectId: string,
+		agentId: string,
+		filePath: string,
+		proposedContent: string,
+		reason: string,
+		options: { baseContent?: string; taskId?: string } = {}
+	): Promise<FileChangeProposal | undefined> {
+		const project = this.get(projectId)
+		if (!project) return undefined
+
+		const registry = await this.initOwnershipRegistry(project)
+		const projectDir = this.projectDir(projectId)
+		const baseContent = options.baseContent ?? fs.readFileSync(validatePath(filePath, this.checkoutDir(projectId, agentId)), "utf-8")
+		const patch = await createFilePatch(filePath, baseContent, proposedContent)
+		if (!patch) {
+			throw new Error(`The proposed content of ${filePath} is unchanged`)
+		}
+
+		const proposal = proposeFileChange(registry, {
+			path: filePath,
+			proposedBy: agentId,
+			reason,
+			baseContent,
+			proposedContent,
+			patch,
+			taskId: options.taskId,
+		})
+
+		await writeFilesMd(projectDir, registry, project.name)
+		this.save()
+		return proposal
+	}
+
+	/** Change proposals in a project (pending ones for an owner if ownerId is given) */
+	async getFileProposals(projectId: string, ownerId?: string): Promise<FileChangeProposal[]> {
+		const registry = await this.getOwnershipRegistry(projectId)
+		if (!registry) return []
+		return ownerId ? getProposalsForOwner(registry, ownerId) : registry.proposals ?? []
+	}
+
+	/**
+	 * The owner takes the proposed file as it is, in the owner's checkout. Refused if
+	 * the file changed since the proposal was made (merge it instead).
+	 */
+	async acceptFileProposal(projectId: string, proposalId: string, agentId: string): Promise<FileChangeProposal | undefined> {
+		const project = this.get(projectId)
+		if (!project) return undefined
+
+		const registry = await this.initOwnershipRegistry(project)
+		const proposal = getPendingProposal(registry, proposalId, agentId)
+		const projectDir = this.projectDir(projectId)
+		const filePath = validatePath(proposal.path, this.checkoutDir(projectId, agentId)) // Society Agent - the owner's worktree
+		const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : ""
+		if (current !== proposal.baseContent) {
+			throw new Error(`${proposal.path} changed since the proposal was made; merge it instead`)
+		}
+
+		fs.writeFileSync(filePath, proposal.proposedContent, "utf-8")
+		resolveProposal(registry, proposalId, agentId, "accepted")
+		await writeFilesMd(projectDir, registry, project.name)
+		this.save()
+		return proposal
+	}
+
+	/**
+	 * Three-way merge of the proposal into the owner's current file, in the owner's
+	 * checkout. A clean merge is written and closes the proposal; with conflicts
+	 * nothing is written and the marked-up result is returned for the owner to resolve.
+	 */
+	async mergeFileProposal(
+		projectId: string,
+		proposalId: string,
+		agentId: string
+	): Promise<{ proposal: FileChangeProposal; merge: ThreeWayMergeResult } | undefined> {
+		const project = this.get(projectId)
+		if (!project) return undefined
+
+		const registry = await this.initOwnershipRegistry(project)
+		const proposal = getPendingProposal(registry, proposalId, agentId)
+		const projectDir = this.projectDir(projectId)
+		const filePath = validatePath(proposal.path, this.checkoutDir(projectId, agentId)) // Society Agent - the owner's worktree
+		const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : ""
+
+		const merge = await threeWayMerge(current, proposal.baseContent, proposal.proposedContent, {
+			current: agentId,
+			proposed: proposal.proposedBy,
+		})
+		if (merge.conflicts > 0) {
+			recordProposalConflict(registry, proposalId, agentId, merge.conflicts)
+		} else {
+			fs.writeFileSync(filePath, merge.content, "utf-8")
+			resolveProposal(registry, proposalId, agentId, "merged")
+		}
+
+		await writeFilesMd(projectDir, registry, project.name)
+		this.save()
+		return { proposal, merge }
+	}
+
+	/** The owner declines a proposal */
+	async rejectFileProposal(projectId: string, proposalId: string, agentId: string, reason: string): Promise<FileChangeProposal | undefined> {
+		const project = this.get(projectId)
+		if (!project) return undefined
+
+		const registry = await this.initOwnershipRegistry(project)
+		const proposal = resolveProposal(registry, proposalId, agentId, "rejected", reason)
+		await writeFilesMd(this.projectDir(projectId), registry, project.name)
+		this.save()
+		return proposal
+	}
+	// Society Agent end
+
 	/** Update FILES.md from current registry */
 	async updateFilesRegistry(projectId: string): Promise<void> {
 		const project = this.get(projectId)
@@ -2677,6 +3095,47 @@ A task is NOT done until ALL four are true:
 		return planningLog
 	}
 
+	// Society Agent start - keep docs/adr in step with PLANNING.md
+	/** Write PLANNING.md, and the ADR files when the project keeps them */
+	private async persistPlanningLog(projectId: string, planningLog: PlanningLog): Promise<void> {
+		const projectDir = this.projectDir(projectId)
+		await savePlanningLog(projectDir, planningLog)
+		if (fs.existsSync(path.join(projectDir, ADR_DIR))) {
+			await exportDecisionsToAdr(projectDir, planningLog)
+			this.save()
+		}
+	}
+
+	/** Export all decisions to docs/adr as MADR files; returns the files written */
+	async exportDecisionsToAdr(projectId: string): Promise<string[] | null> {
+		const project = this.get(projectId)
+		if (!project) return null
+
+		const planningLog = await this.initPlanningLog(project)
+		const written = await exportDecisionsToAdr(this.projectDir(projectId), planningLog)
+		// New decisions were given ADR file names
+		this.save()
+		return written
+	}
+
+	/** Import ADRs (by default the project's docs/adr folder) into the planning log */
+	async importAdrDecisions(
+		projectId: string,
+		options: { records?: ParsedAdr[]; importedBy?: string } = {},
+	): Promise<AdrImportResult | null> {
+		const project = this.get(projectId)
+		if (!project) return null
+
+		const projectDir = this.projectDir(projectId)
+		const planningLog = await this.initPlanningLog(project)
+		const records = options.records ?? (await readAdrDirectory(projectDir))
+		const result = importAdrRecords(planningLog, records, options.importedBy)
+		this.save()
+		await savePlanningLog(projectDir, planningLog)
+		return result
+	}
+	// Society Agent end
+
 	/** Create a new decision */
 	async createDecision(
 		projectId: string,
@@ -2689,9 +3148,7 @@ A task is NOT done until ALL four are true:
 		const decision = createDecision(planningLog, params)
 		this.save()
 
-		// Save to PLANNING.md
-		const projectDir = this.projectDir(projectId)
-		await savePlanningLog(projectDir, planningLog)
+		await this.persistPlanningLog(projectId, planningLog)
 
 		return decision
 	}
@@ -2708,8 +3165,7 @@ A task is NOT done until ALL four are true:
 		const decision = proposeDecision(planningLog, params)
 		this.save()
 
-		const projectDir = this.projectDir(projectId)
-		await savePlanningLog(projectDir, planningLog)
+		await this.persistPlanningLog(projectId, planningLog)
 
 		return decision
 	}
@@ -2727,8 +3183,7 @@ A task is NOT done until ALL four are true:
 		const decision = acceptDecision(planningLog, decisionId, params)
 		if (decision) {
 			this.save()
-			const projectDir = this.projectDir(projectId)
-			await savePlanningLog(projectDir, planningLog)
+			await this.persistPlanningLog(projectId, planningLog)
 		}
 		return decision
 	}
@@ -2746,31 +3201,72 @@ A task is NOT done until ALL four are true:
 		const decision = markDecisionImplemented(planningLog, decisionId, implementedBy)
 		if (decision) {
 			this.save()
-			const projectDir = this.projectDir(projectId)
-			await savePlanningLog(projectDir, planningLog)
+			await this.persistPlanningLog(projectId, planningLog)
 		}
 		return decision
 	}
 
-	/** Supersede an old decision with a new one */
+	/**
+	 * Supersede an old decision with a new one. Superseding an accepted or
+	 * implemented decision also reports the work it leaves behind, and can hand
+	 * that work back to its owners as rework tasks.
+	 */
 	async supersedeDecision(
 		projectId: string,
 		oldDecisionId: string,
 		newDecisionParams: Parameters<typeof createDecision>[1],
-	): Promise<{ oldDecision: Decision; newDecision: Decision } | null> {
+		options: { createReworkTasks?: boolean } = {},
+	): Promise<{ oldDecision: Decision; newDecision: Decision; impact?: DecisionImpactReport } | null> {
 		const project = this.get(projectId)
 		if (!project) return null
 
 		const planningLog = await this.initPlanningLog(project)
+		const wasActive = ["accepted", "implemented"].includes(planningLog.decisions.find((d) => d.id === oldDecisionId)?.status ?? "")
 		const result = supersedeDecision(planningLog, oldDecisionId, newDecisionParams)
-		if (result) {
-			this.save()
-			const projectDir = this.projectDir(projectId)
-			await savePlanningLog(projectDir, planningLog)
+		if (!result) return null
+
+		// Society Agent start - decision impact analysis
+		let impact: DecisionImpactReport | undefined
+		if (wasActive) {
+			impact = (await this.getDecisionImpact(projectId, oldDecisionId)) ?? undefined
+			if (impact && options.createReworkTasks) {
+				impact.reworkTasks = []
+				for (const plan of planReworkTasks(impact, result.newDecision)) {
+					const task = this.createManagedTask(projectId, {
+						title: plan.title,
+						description: plan.description,
+						createdBy: newDecisionParams.decidedBy,
+						priority: 2,
+						context: { relevantFiles: plan.files, notes: `Decision ${result.newDecision.id} replaces ${oldDecisionId}` },
+					})
+					if (!task) continue
+					this.delegateManagedTask(projectId, task.taskId, plan.owner, newDecisionParams.decidedBy)
+					impact.reworkTasks.push(task.taskId)
+				}
+				log.info(`[PlanningLog] ${oldDecisionId} superseded: ${impact.reworkTasks.length} rework tasks created`)
+			}
 		}
-		return result
+		// Society Agent end
+
+		this.save()
+		await this.persistPlanningLog(projectId, planningLog)
+		return { ...result, impact }
 	}
 
+	// Society Agent start - decision impact analysis
+	/** Decisions, tasks and files that depend on a decision */
+	async getDecisionImpact(projectId: string, decisionId: string): Promise<DecisionImpactReport | null> {
+		const project = this.get(projectId)
+		if (!project) return null
+
+		const planningLog = await this.initPlanningLog(project)
+		return analyzeDecisionImpact(planningLog, decisionId, {
+			tasks: this.getManagedTasks(projectId),
+			registry: await this.initOwnershipRegistry(project),
+		})
+	}
+	// Society Agent end
+
 	/** Reject a proposed decision */
 	async rejectDecision(
 		projectId: string,
@@ -2784,8 +3280,7 @@ A task is NOT done until ALL four are true:
 		const decision = rejectDecision(planningLog, decisionId, params)
 		if (decision) {
 			this.save()
-			const projectDir = this.projectDir(projectId)
-			await savePlanningLog(projectDir, planningLog)
+			await this.persistPlanningLog(projectId, planningLog)
 		}
 		return decision
 	}
@@ -2803,8 +3298,7 @@ A task is NOT done until ALL four are true:
 		const decision = deferDecision(planningLog, decisionId, params)
 		if (decision) {
 			this.save()
-			const projectDir = this.projectDir(projectId)
-			await savePlanningLog(projectDir, planningLog)
+			await this.persistPlanningLog(projectId, planningLog)
 		}
 		return decision
 	}
@@ -2842,8 +3336,7 @@ A task is NOT done until ALL four are true:
 		if (!project) return
 
 		const planningLog = await this.initPlanningLog(project)
-		const projectDir = this.projectDir(projectId)
-		await savePlanningLog(projectDir, planningLog)
+		await this.persistPlanningLog(projectId, planningLog)
 	}
 
 	// ========================================================================
@@ -7,6 +7,7 @@ import * as fs from "fs"
 import * as path from "path"
 import { ApiHandler, buildApiHandler, buildOpenAIHandler } from "./api"
 import { getLog } from "./logger"
+import { saveEnvSecret } from "./secrets-vault" // Society Agent
 
 const log = getLog()
 
@@ -209,6 +210,14 @@ export async function saveProviderSettings(workspacePath: string, settings: Prov
 		if (keyEnv) updates[keyEnv] = settings.apiKey
 	}
 
+	// Society Agent start - API keys go to the secrets vault instead of .env when it is open
+	for (const key of Object.values(API_KEY_ENV_MAP)) {
+		if (updates[key] && saveEnvSecret(key, updates[key], { actor: "provider-config", purpose: "save provider settings" })) {
+			delete updates[key]
+		}
+	}
+	// Society Agent end
+
 	updateEnvFile(envPath, updates)
 
 	// Update process.env so changes take effect immediately
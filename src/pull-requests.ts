@@ -0,0 +1,369 @@
+// Society Agent - new file
+/**
+ * Pull Requests
+ *
+ * Takes agent work the last step past `git push`: opens a GitHub pull request or
+ * GitLab merge request for the task's branch and follows it until it is merged.
+ *
+ * - PullRequestProvider abstracts the hosting API. GitHub and GitLab clients are
+ *   built in; GitLoader.setPullRequestProvider() swaps one out (a local fake in
+ *   tests, or another host).
+ * - buildPullRequestContent() writes the title and description from the
+ *   ManagedTask and its VerificationResult.
+ * - PullRequestMonitor polls open pull requests and stores their state on the
+ *   task; ProjectStore moves the task to done when its pull request is merged.
+ */
+
+import type { ManagedTask, TaskPullRequest, VerificationResult } from "./task-manager"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PullRequestProviderKind = TaskPullRequest["provider"]
+
+export const PULL_REQUEST_PROVIDERS: PullRequestProviderKind[] = ["github", "gitlab"]
+
+/** A repository on a hosting service, parsed from its git remote URL */
+export interface RemoteRepository {
+	provider: PullRequestProviderKind
+	/** Host, with port for HTTP(S) remotes (e.g. "192.168.1.10:8080") */
+	host: string
+	/** Repository path without ".git" (e.g. "group/subgroup/app") */
+	path: string
+}
+
+/** What to open */
+export interface PullRequestDraft {
+	title: string
+	body: string
+	sourceBranch: string
+	targetBranch: string
+	/** Open as a draft (GitHub draft PR, GitLab "Draft:" prefix) */
+	draft?: boolean
+}
+
+/** A pull request as the provider reports it */
+export type PullRequestStatus = Pick<
+	TaskPullRequest,
+	"number" | "url" | "state" | "title" | "sourceBranch" | "targetBranch" | "mergedAt" | "mergeCommit"
+>
+
+/** Hosting API client */
+export interface PullRequestProvider {
+	create(repo: RemoteRepository, token: string, draft: PullRequestDraft): Promise<PullRequestStatus>
+	get(repo: RemoteRepository, token: string, number: number): Promise<PullRequestStatus>
+}
+
+/** The hosting API rejected a request */
+export class PullRequestApiError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+	) {
+		super(message)
+		this.name = "PullRequestApiError"
+	}
+}
+
+// ============================================================================
+// Remotes
+// ============================================================================
+
+/**
+ * Parse a git remote URL (scp-style SSH, ssh:// or http(s)://) into host and path.
+ * Credentials embedded in HTTPS URLs are dropped. Hosts containing "github" are
+ * GitHub unless a provider is given; everything else is treated as GitLab.
+ */
+export function parseRemoteRepository(url: string, provider?: PullRequestProviderKind): RemoteRepository | undefined {
+	let host: string | undefined
+	let repoPath: string | undefined
+
+	// SSH format: git@gitlab.com:group/repo.git
+	const scp = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/)
+	if (scp) {
+		host = scp[1]
+		repoPath = scp[2]
+	} else {
+		let parsed: URL
+		try {
+			parsed = new URL(url)
+		} catch {
+			return undefined
+		}
+		if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+			host = parsed.host
+		} else if (parsed.protocol === "ssh:") {
+			// The port of an ssh:// URL is the SSH port, not the API port
+			host = parsed.hostname
+		}
+		repoPath = parsed.pathname
+	}
+
+	repoPath = repoPath?.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "")
+	if (!host || !repoPath || !repoPath.includes("/")) return undefined
+
+	return { provider: provider ?? (/github/i.test(host) ? "github" : "gitlab"), host, path: repoPath }
+}
+
+/** Use http for IP addresses or local hosts, https for domains (same rule as the GitLab helpers) */
+export function hostBaseUrl(host: string): string {
+	const protocol = /^(\d{1,3}\.){3}\d{1,3}(:\d+)?$/.test(host) || host.includes("localhost") ? "http" : "https"
+	return `${protocol}://${host}`
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+abstract class HttpPullRequestProvider implements PullRequestProvider {
+	constructor(protected fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {}
+
+	abstract create(repo: RemoteRepository, token: string, draft: PullRequestDraft): Promise<PullRequestStatus>
+	abstract get(repo: RemoteRepository, token: string, number: number): Promise<PullRequestStatus>
+
+	protected async request(url: string, init: RequestInit): Promise<any> {
+		const response = await this.fetchImpl(url, init)
+		if (!response.ok) {
+			const error = await response.text()
+			throw new PullRequestApiError(`${response.status} - ${error}`, response.status)
+		}
+		return response.json()
+	}
+}
+
+/** GitHub and GitHub Enterprise pull requests (REST v3) */
+export class GitHubPullRequestProvider extends HttpPullRequestProvider {
+	private apiUrl(repo: RemoteRepository): string {
+		const base = repo.host === "github.com" ? "https://api.github.com" : `${hostBaseUrl(repo.host)}/api/v3`
+		return `${base}/repos/${repo.path}/pulls`
+	}
+
+	private headers(token: string): Record<string, string> {
+		return {
+			"Content-Type": "application/json",
+			Accept: "application/vnd.github+json",
+			Authorization: `Bearer ${token}`,
+			"X-GitHub-Api-Version": "2022-11-28",
+		}
+	}
+
+	private toStatus(data: any): PullRequestStatus {
+		const merged = Boolean(data.merged_at)
+		return {
+			number: data.number,
+			url: data.html_url,
+			state: merged ? "merged" : data.state === "open" ? "open" : "closed",
+			title: data.title,
+			sourceBranch: data.head?.ref,
+			targetBranch: data.base?.ref,
+			mergedAt: data.merged_at || undefined,
+			mergeCommit: merged ? data.merge_commit_sha || undefined : undefined,
+		}
+	}
+
+	async create(repo: RemoteRepository, token: string, draft: PullRequestDraft): Promise<PullRequestStatus> {
+		const data = await this.request(this.apiUrl(repo), {
+			method: "POST",
+			headers: this.headers(token),
+			body: JSON.stringify({
+				title: draft.title,
+				body: draft.body,
+				head: draft.sourceBranch,
+				base: draft.targetBranch,
+				draft: draft.draft ?? false,
+			}),
+		})
+		return this.toStatus(data)
+	}
+
+	async get(repo: RemoteRepository, token: string, number: number): Promise<PullRequestStatus> {
+		return this.toStatus(await this.request(`${this.apiUrl(repo)}/${number}`, { headers: this.headers(token) }))
+	}
+}
+
+/** GitLab merge requests (API v4) */
+export class GitLabMergeRequestProvider extends HttpPullRequestProvider {
+	private apiUrl(repo: RemoteRepository): string {
+		return `${hostBaseUrl(repo.host)}/api/v4/projects/${encodeURIComponent(repo.path)}/merge_requests`
+	}
+
+	private toStatus(data: any): PullRequestStatus {
+		return {
+			number: data.iid,
+			url: data.web_url,
+			state: data.state === "merged" ? "merged" : data.state === "opened" ? "open" : "closed",
+			title: data.title,
+			sourceBranch: data.source_branch,
+			targetBranch: data.target_branch,
+			mergedAt: data.merged_at || undefined,
+			mergeCommit: data.merge_commit_sha || data.squash_commit_sha || undefined,
+		}
+	}
+
+	async create(repo: RemoteRepository, token: string, draft: PullRequestDraft): Promise<PullRequestStatus> {
+		const data = await this.request(this.apiUrl(repo), {
+			method: "POST",
+			headers: { "Content-Type": "application/json", "PRIVATE-TOKEN": token },
+			body: JSON.stringify({
+				title: draft.draft ? `Draft: ${draft.title}` : draft.title,
+				description: draft.body,
+				source_branch: draft.sourceBranch,
+				target_branch: draft.targetBranch,
+			}),
+		})
+		return this.toStatus(data)
+	}
+
+	async get(repo: RemoteRepository, token: string, number: number): Promise<PullRequestStatus> {
+		return this.toStatus(await this.request(`${this.apiUrl(repo)}/${number}`, { headers: { "PRIVATE-TOKEN": token } }))
+	}
+}
+
+// ============================================================================
+// Content
+// ============================================================================
+
+function tableCell(text: string | undefined): string {
+	return (text || "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+}
+
+/**
+ * Title and Markdown description for a task's pull request: what was asked,
+ * what the agent reports it did, and how verification went.
+ */
+export function buildPullRequestContent(task: ManagedTask, verification?: VerificationResult): { title: string; body: string } {
+	const lines: string[] = ["## Task", "", task.description.trim() || task.title, ""]
+
+	if (task.result) {
+		lines.push("## Changes", "")
+		if (task.result.summary) lines.push(task.result.summary.trim(), "")
+		if (task.result.filesCreated.length > 0) {
+			lines.push(`**Files created:** ${task.result.filesCreated.map((f) => `\`${f}\``).join(", ")}`, "")
+		}
+		if (task.result.filesModified.length > 0) {
+			lines.push(`**Files modified:** ${task.result.filesModified.map((f) => `\`${f}\``).join(", ")}`, "")
+		}
+	}
+
+	lines.push("## Verification", "")
+	if (verification) {
+		const failed = verification.checks.filter((c) => !c.passed).length
+		lines.push(
+			verification.allPassed
+				? `✅ All ${verification.checks.length} checks passed (${verification.timestamp})`
+				: `❌ ${failed} of ${verification.checks.length} checks failed (${verification.timestamp})`,
+			"",
+		)
+		if (verification.checks.length > 0) {
+			lines.push("| Check | Result | Details |", "|-------|--------|---------|")
+			for (const check of verification.checks) {
+				lines.push(`| ${tableCell(check.check)} | ${check.passed ? "✅" : "❌"} | ${tableCell(check.message)} |`)
+			}
+			lines.push("")
+		}
+	} else {
+		lines.push("_Not verified yet._", "")
+	}
+
+	lines.push("---", `Opened by Society Agent for task \`${task.taskId}\`${task.assignedTo ? ` (assigned to ${task.assignedTo})` : ""}.`)
+
+	return { title: `[${task.taskId}] ${task.title}`, body: lines.join("\n") }
+}
+
+// ============================================================================
+// Monitor
+// ============================================================================
+
+/** The parts of ProjectStore the monitor needs */
+export interface PullRequestTaskStore {
+	getAll(): Array<{ id: string }>
+	getManagedTasks(projectId: string): ManagedTask[]
+	recordManagedTaskPullRequest(projectId: string, taskId: string, pullRequest: TaskPullRequest): ManagedTask | undefined
+}
+
+/** Fetch the latest state of a pull request (GitLoader.refreshPullRequest) */
+export type PullRequestChecker = (pullRequest: TaskPullRequest) => Promise<TaskPullRequest>
+
+export interface PullRequestMonitorOptions {
+	/** Poll interval (default: 60s) */
+	intervalMs?: number
+	/** Called when a pull request changes state (merged, closed or reopened) */
+	onChange?: (projectId: string, task: ManagedTask, previous: TaskPullRequest) => void
+}
+
+/**
+ * Polls the open pull requests of all managed tasks. ProjectStore moves a task to
+ * done when its pull request is reported merged.
+ */
+export class PullRequestMonitor {
+	private timer: NodeJS.Timeout | null = null
+	private polling = false
+
+	constructor(
+		private store: PullRequestTaskStore,
+		private check: PullRequestChecker,
+		private options: PullRequestMonitorOptions = {},
+	) {}
+
+	/** Start polling. Idempotent. */
+	start(): void {
+		if (this.timer) return
+		const intervalMs = this.options.intervalMs ?? 60_000
+		this.timer = setInterval(() => {
+			this.pollOnce().catch((err) => log.error("[PullRequests] Poll failed:", err))
+		}, intervalMs)
+		this.timer.unref?.()
+		log.info(`[PullRequests] Monitoring open pull requests (every ${Math.round(intervalMs / 1000)}s)`)
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+	}
+
+	/**
+	 * Fetch and store the state of one task's pull request.
+	 * @throws if the provider cannot be reached or rejects the request
+	 */
+	async checkTask(projectId: string, task: ManagedTask): Promise<ManagedTask | undefined> {
+		const previous = task.pullRequest
+		if (!previous) return task
+
+		const latest = await this.check(previous)
+		const updated = this.store.recordManagedTaskPullRequest(projectId, task.taskId, latest)
+		if (updated && latest.state !== previous.state) {
+			log.info(`[PullRequests] ${task.taskId}: ${previous.url} is now ${latest.state}`)
+			this.options.onChange?.(projectId, updated, previous)
+		}
+		return updated
+	}
+
+	/** Check every open pull request once. Returns how many changed state. */
+	async pollOnce(): Promise<number> {
+		if (this.polling) return 0
+		this.polling = true
+		let changed = 0
+		try {
+			for (const project of this.store.getAll()) {
+				for (const task of this.store.getManagedTasks(project.id)) {
+					if (task.pullRequest?.state !== "open") continue
+					try {
+						const updated = await this.checkTask(project.id, task)
+						if (updated?.pullRequest?.state !== "open") changed++
+					} catch (err) {
+						log.warn(`[PullRequests] Could not check ${task.pullRequest.url}: ${err instanceof Error ? err.message : err}`)
+					}
+				}
+			}
+		} finally {
+			this.polling = false
+		}
+		return changed
+	}
+}
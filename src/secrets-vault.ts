@@ -0,0 +1,403 @@
+// Society Agent - new file
+/**
+ * Secrets Vault
+ *
+ * Encrypted storage for everything secret the server keeps: git credentials (SSH
+ * private keys, access tokens) and provider API keys. Secrets are encrypted with
+ * AES-256-GCM under a master key and stored in projects/.society/vault.json; the
+ * plaintext only exists in memory.
+ *
+ * The master key comes from, in order:
+ * 1. SOCIETY_MASTER_KEY - 64 hex chars or base64 of 32 bytes (anything else is
+ *    treated as a passphrase and stretched with scrypt)
+ * 2. SOCIETY_MASTER_KEY_FILE - a file holding such a key
+ * 3. projects/.society/master.key - generated on first start (owner read-only)
+ *
+ * Key rotation: with a key file, POST /api/vault/rotate generates a new key and
+ * re-encrypts every secret. With SOCIETY_MASTER_KEY, set the new key there and the
+ * old one in SOCIETY_MASTER_KEY_PREVIOUS; secrets are re-encrypted on the next start.
+ *
+ * Every read, write, delete and rotation is appended to
+ * projects/.society/vault-audit.jsonl (names and actors only, never values).
+ */
+
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as path from "path"
+import { getLog } from "./logger"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MasterKeySource = "env" | "file"
+
+export interface MasterKeys {
+	current: Buffer
+	/** Older keys that may still be needed to decrypt secrets (rotation) */
+	previous: Buffer[]
+	source: MasterKeySource
+	/** Key file the current key was read from (source "file") */
+	keyFile?: string
+}
+
+/** Who is accessing a secret, and why (recorded in the audit log) */
+export interface AccessContext {
+	actor: string
+	purpose?: string
+}
+
+export type VaultAuditAction = "read" | "write" | "delete" | "rotate"
+
+export interface VaultAuditEntry {
+	timestamp: string
+	action: VaultAuditAction
+	/** Secret name (absent for whole-vault rotations) */
+	name?: string
+	actor: string
+	purpose?: string
+	keyId: string
+}
+
+/** Secret metadata as shown in the API (never the value) */
+export interface SecretInfo {
+	name: string
+	keyId: string
+	createdAt: string
+	updatedAt: string
+	lastAccessedAt?: string
+}
+
+interface EncryptedSecret extends Omit<SecretInfo, "name"> {
+	iv: string
+	tag: string
+	data: string
+}
+
+interface VaultFile {
+	version: 1
+	secrets: Record<string, EncryptedSecret>
+}
+
+export class VaultKeyError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "VaultKeyError"
+	}
+}
+
+/** Environment variables holding provider API keys; they are kept in the vault, not in .env */
+export const PROVIDER_KEY_ENV_VARS = [
+	"ANTHROPIC_API_KEY",
+	"OPENROUTER_API_KEY",
+	"OPENAI_API_KEY",
+	"MINIMAX_API_KEY",
+	"GEMINI_API_KEY",
+	"DEEPSEEK_API_KEY",
+	"GROQ_API_KEY",
+	"MISTRAL_API_KEY",
+	"OLLAMA_API_KEY",
+	"CUSTOM_API_KEY",
+]
+
+// ============================================================================
+// Master key
+// ============================================================================
+
+/** Turn key material (hex, base64 or passphrase) into a 32-byte key */
+export function parseMasterKey(material: string): Buffer {
+	const trimmed = material.trim()
+	if (!trimmed) throw new VaultKeyError("Master key is empty")
+	if (/^[0-9a-fA-F]{64}$/.test(trimmed)) return Buffer.from(trimmed, "hex")
+	if (/^[A-Za-z0-9+/_-]{43}=?$/.test(trimmed)) {
+		const decoded = Buffer.from(trimmed, "base64")
+		if (decoded.length === 32) return decoded
+	}
+	return crypto.scryptSync(trimmed, "society-agent-vault", 32)
+}
+
+/** Short identifier of a key, stored with each secret to know which key encrypted it */
+export function keyIdOf(key: Buffer): string {
+	return crypto.createHash("sha256").update(key).digest("hex").slice(0, 12)
+}
+
+function generateKeyMaterial(): string {
+	return crypto.randomBytes(32).toString("base64")
+}
+
+function writeKeyFile(file: string, material: string): void {
+	fs.mkdirSync(path.dirname(file), { recursive: true })
+	const tmp = `${file}.tmp`
+	fs.rmSync(tmp, { force: true })
+	fs.writeFileSync(tmp, material + "\n", { mode: 0o400 })
+	fs.renameSync(tmp, file)
+}
+
+/**
+ * Resolve the master key from the environment or a key file, generating
+ * defaultKeyFile when nothing is configured.
+ */
+export function loadMasterKeys(defaultKeyFile: string, env: NodeJS.ProcessEnv = process.env): MasterKeys {
+	const previous = (env.SOCIETY_MASTER_KEY_PREVIOUS || "")
+		.split(",")
+		.filter((m) => m.trim())
+		.map(parseMasterKey)
+
+	if (env.SOCIETY_MASTER_KEY) {
+		return { current: parseMasterKey(env.SOCIETY_MASTER_KEY), previous, source: "env" }
+	}
+
+	const keyFile = env.SOCIETY_MASTER_KEY_FILE ? path.resolve(env.SOCIETY_MASTER_KEY_FILE) : defaultKeyFile
+	if (!fs.existsSync(keyFile)) {
+		writeKeyFile(keyFile, generateKeyMaterial())
+		log.warn(`[Vault] Generated a new master key at ${keyFile}. Back it up: secrets cannot be decrypted without it.`)
+	}
+	// A rotation that was interrupted leaves the new key next to the old one
+	if (fs.existsSync(`${keyFile}.new`)) previous.push(parseMasterKey(fs.readFileSync(`${keyFile}.new`, "utf-8")))
+	return { current: parseMasterKey(fs.readFileSync(keyFile, "utf-8")), previous, source: "file", keyFile }
+}
+
+// ============================================================================
+// SecretsVault
+// ============================================================================
+
+export class SecretsVault {
+	private vaultPath: string
+	private auditPath: string
+	private secrets: Record<string, EncryptedSecret> = {}
+
+	constructor(
+		dir: string,
+		private keys: MasterKeys,
+	) {
+		fs.mkdirSync(dir, { recursive: true })
+		this.vaultPath = path.join(dir, "vault.json")
+		this.auditPath = path.join(dir, "vault-audit.jsonl")
+		this.load()
+	}
+
+	get keyId(): string {
+		return keyIdOf(this.keys.current)
+	}
+
+	get keySource(): MasterKeySource {
+		return this.keys.source
+	}
+
+	private load(): void {
+		if (!fs.existsSync(this.vaultPath)) return
+		const data: VaultFile = JSON.parse(fs.readFileSync(this.vaultPath, "utf-8"))
+		this.secrets = data.secrets || {}
+
+		// Re-encrypt anything still under a previous key
+		const stale = Object.keys(this.secrets).filter((name) => this.secrets[name].keyId !== this.keyId)
+		let reencrypted = 0
+		for (const name of stale) {
+			const entry = this.secrets[name]
+			try {
+				this.secrets[name] = { ...entry, ...this.encrypt(this.decrypt(name, entry)) }
+				reencrypted++
+			} catch (error) {
+				// Left as is; reading it fails until the old key is configured
+				log.error(`[Vault] ${error instanceof Error ? error.message : error}`)
+			}
+		}
+		if (reencrypted === 0) return
+		this.save()
+		this.audit({ action: "rotate", actor: "server", purpose: `re-encrypted ${reencrypted} secret(s) under the current master key` })
+		log.info(`[Vault] Re-encrypted ${reencrypted} secret(s) under key ${this.keyId}`)
+	}
+
+	private save(): void {
+		const data: VaultFile = { version: 1, secrets: this.secrets }
+		const tmp = `${this.vaultPath}.tmp`
+		fs.writeFileSync(tmp, JSON.stringify(data, null, 2), { mode: 0o600 })
+		fs.renameSync(tmp, this.vaultPath)
+	}
+
+	private audit(entry: Omit<VaultAuditEntry, "timestamp" | "keyId">): void {
+		const line: VaultAuditEntry = { timestamp: new Date().toISOString(), ...entry, keyId: this.keyId }
+		try {
+			fs.appendFileSync(this.auditPath, JSON.stringify(line) + "\n", { encoding: "utf-8", mode: 0o600 })
+		} catch (error) {
+			log.error(`[Vault] Failed to write audit log:`, error)
+		}
+	}
+
+	private encrypt(value: string, key: Buffer = this.keys.current): Pick<EncryptedSecret, "keyId" | "iv" | "tag" | "data"> {
+		const iv = crypto.randomBytes(12)
+		const cipher = crypto.createCipheriv("aes-256-gcm", key, iv)
+		const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()])
+		return { keyId: keyIdOf(key), iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") }
+	}
+
+	private decrypt(name: string, entry: EncryptedSecret): string {
+		const key = [this.keys.current, ...this.keys.previous].find((k) => keyIdOf(k) === entry.keyId)
+		if (!key) {
+			throw new VaultKeyError(
+				`Secret "${name}" is encrypted with master key ${entry.keyId}, which is not configured (set SOCIETY_MASTER_KEY_PREVIOUS)`,
+			)
+		}
+		const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(entry.iv, "base64"))
+		decipher.setAuthTag(Buffer.from(entry.tag, "base64"))
+		return Buffer.concat([decipher.update(Buffer.from(entry.data, "base64")), decipher.final()]).toString("utf-8")
+	}
+
+	has(name: string): boolean {
+		return name in this.secrets
+	}
+
+	/** Decrypt a secret. Every read is audited. */
+	get(name: string, context: AccessContext): string | undefined {
+		const entry = this.secrets[name]
+		if (!entry) return undefined
+		const value = this.decrypt(name, entry)
+		entry.lastAccessedAt = new Date().toISOString()
+		this.save()
+		this.audit({ action: "read", name, ...context })
+		return value
+	}
+
+	set(name: string, value: string, context: AccessContext): void {
+		const now = new Date().toISOString()
+		const existing = this.secrets[name]
+		this.secrets[name] = {
+			...this.encrypt(value),
+			createdAt: existing?.createdAt || now,
+			updatedAt: now,
+			lastAccessedAt: existing?.lastAccessedAt,
+		}
+		this.save()
+		this.audit({ action: "write", name, ...context })
+	}
+
+	delete(name: string, context: AccessContext): boolean {
+		if (!this.secrets[name]) return false
+		delete this.secrets[name]
+		this.save()
+		this.audit({ action: "delete", name, ...context })
+		return true
+	}
+
+	/** Secret metadata, optionally limited to names starting with prefix */
+	list(prefix = ""): SecretInfo[] {
+		return Object.entries(this.secrets)
+			.filter(([name]) => name.startsWith(prefix))
+			.map(([name, { keyId, createdAt, updatedAt, lastAccessedAt }]) => ({ name, keyId, createdAt, updatedAt, lastAccessedAt }))
+	}
+
+	/**
+	 * Generate a new master key, re-encrypt every secret with it and replace the key
+	 * file. Not possible when the key comes from SOCIETY_MASTER_KEY.
+	 */
+	rotate(context: AccessContext): { keyId: string; previousKeyId: string; rotated: number } {
+		if (this.keys.source !== "file" || !this.keys.keyFile) {
+			throw new VaultKeyError(
+				"The master key comes from SOCIETY_MASTER_KEY. Set the new key there, move the old one to SOCIETY_MASTER_KEY_PREVIOUS and restart.",
+			)
+		}
+		const previousKeyId = this.keyId
+		const material = generateKeyMaterial()
+		const newKey = parseMasterKey(material)
+
+		const reencrypted: Record<string, EncryptedSecret> = {}
+		for (const [name, entry] of Object.entries(this.secrets)) {
+			reencrypted[name] = { ...entry, ...this.encrypt(this.decrypt(name, entry), newKey) }
+		}
+
+		// Keep the new key on disk before the vault depends on it, so a crash loses nothing
+		const keyFile = this.keys.keyFile
+		writeKeyFile(`${keyFile}.new`, material)
+		this.secrets = reencrypted
+		this.save()
+		fs.rmSync(keyFile, { force: true })
+		fs.renameSync(`${keyFile}.new`, keyFile)
+		this.keys = { ...this.keys, current: newKey, previous: [] }
+
+		const rotated = Object.keys(reencrypted).length
+		this.audit({ action: "rotate", ...context, purpose: context.purpose || `rotated from ${previousKeyId}` })
+		log.info(`[Vault] Master key rotated ${previousKeyId} → ${this.keyId} (${rotated} secrets)`)
+		return { keyId: this.keyId, previousKeyId, rotated }
+	}
+
+	/** Newest audit entries first */
+	readAudit(filter: { name?: string; limit?: number } = {}): VaultAuditEntry[] {
+		if (!fs.existsSync(this.auditPath)) return []
+		const entries = fs
+			.readFileSync(this.auditPath, "utf-8")
+			.split("\n")
+			.filter(Boolean)
+			.map((line) => JSON.parse(line) as VaultAuditEntry)
+			.filter((e) => !filter.name || e.name === filter.name)
+			.reverse()
+		return entries.slice(0, filter.limit ?? 200)
+	}
+
+	/**
+	 * Move plaintext secrets out of a .env file into the vault. The lines are
+	 * replaced by a comment; returns the names that were moved.
+	 */
+	importEnvFile(envPath: string, names: string[], context: AccessContext): string[] {
+		if (!fs.existsSync(envPath)) return []
+		const moved: string[] = []
+		const lines = fs.readFileSync(envPath, "utf-8").split("\n").map((line) => {
+			const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/)
+			if (!match || !names.includes(match[1])) return line
+			const value = match[2].trim().replace(/^(['"])(.*)\1$/, "$2")
+			if (!value) return line
+			this.set(`env:${match[1]}`, value, { ...context, purpose: context.purpose || `imported from ${envPath}` })
+			moved.push(match[1])
+			return `# ${match[1]} is stored in the secrets vault (projects/.society/vault.json)`
+		})
+		if (moved.length > 0) {
+			fs.writeFileSync(envPath, lines.join("\n"))
+			log.info(`[Vault] Moved ${moved.join(", ")} from ${envPath} into the vault`)
+		}
+		return moved
+	}
+
+	/** Set environment variables stored in the vault (env:NAME) that are not set already */
+	exportToEnv(context: AccessContext, env: NodeJS.ProcessEnv = process.env): string[] {
+		const exported: string[] = []
+		for (const { name } of this.list("env:")) {
+			const variable = name.slice("env:".length)
+			if (env[variable]) continue
+			env[variable] = this.get(name, context)
+			exported.push(variable)
+		}
+		return exported
+	}
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let _vault: SecretsVault | null = null
+
+/** Open the vault in <workspace>/projects/.society */
+export function initSecretsVault(workspacePath: string): SecretsVault {
+	if (!_vault) {
+		const dir = path.join(workspacePath, "projects", ".society")
+		_vault = new SecretsVault(dir, loadMasterKeys(path.join(dir, "master.key")))
+		log.info(`[Vault] Opened with master key ${_vault.keyId} (${_vault.keySource})`)
+	}
+	return _vault
+}
+
+export function getSecretsVault(): SecretsVault | null {
+	return _vault
+}
+
+/**
+ * Store an environment secret (provider API key) in the vault and apply it to
+ * process.env. Returns false if the vault is not open, so the caller can fall back.
+ */
+export function saveEnvSecret(variable: string, value: string, context: AccessContext): boolean {
+	if (!_vault) return false
+	_vault.set(`env:${variable}`, value, context)
+	process.env[variable] = value
+	return true
+}
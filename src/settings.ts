@@ -6,11 +6,13 @@
  * It does NOT depend on Society Agent's settings - it's a separate product.
  *
  * Settings are stored in: .env file (single source of truth)
+ * Provider API keys are stored in the secrets vault (see secrets-vault.ts)
  */
 
 import fs from "fs"
 import path from "path"
 import { getLog } from "./logger"
+import { saveEnvSecret } from "./secrets-vault" // Society Agent
 
 const log = getLog()
 
@@ -342,9 +344,12 @@ class SettingsManager {
 		}
 
 		// Set the appropriate API key for the active provider
+		// Society Agent - in the secrets vault when it is open, else in .env
 		const apiKeyEnv = API_KEY_ENV_MAP[this.settings.provider.type]
-		if (apiKeyEnv && this.settings.provider.apiKey) {
-			updates[apiKeyEnv] = this.settings.provider.apiKey
+		if (apiKeyEnv && this.settings.provider.apiKey && process.env[apiKeyEnv] !== this.settings.provider.apiKey) {
+			if (!saveEnvSecret(apiKeyEnv, this.settings.provider.apiKey, { actor: "settings", purpose: "save provider settings" })) {
+				updates[apiKeyEnv] = this.settings.provider.apiKey
+			}
 		}
 		if (this.settings.provider.type === "ollama") {
 			updates.OLLAMA_MODEL_ID = this.settings.provider.model
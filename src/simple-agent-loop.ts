@@ -2,8 +2,8 @@
 /**
  * SimpleAgentLoop - Basic autonomous agent behavior integrated with Society Agent chat
  *
- * Polls inbox for messages from other agents and delivers them based on current agent state.
- * Uses persistent queue to guarantee message delivery.
+ * Receives inbox messages from other agents as they arrive and delivers them based on current
+ * agent state. Uses the durable message broker to guarantee message delivery.
  */
 
 import * as vscode from "vscode"
@@ -19,6 +19,9 @@ export class SimpleAgentLoop {
 	private capabilities: string[]
 	private running: boolean = false
 	private pollInterval: NodeJS.Timeout | undefined
+	private unsubscribeInbox: (() => void) | undefined // Society Agent
+	private processing = false // Society Agent
+	private processAgain = false // Society Agent
 	private processedMessageIds: Set<string> = new Set()
 	private responseHandler: ResponseHandler
 	private agentId: string
@@ -58,13 +61,21 @@ export class SimpleAgentLoop {
 		if (inboxRoot) {
 			this.inboxManager = new InboxManager(inboxRoot)
 			await this.inboxManager.initialize() // Initialize security keys
-			getLog().info(`Inbox manager initialized at ${inboxRoot}/.society-agent/inbox/`)
+			getLog().info(`Inbox manager initialized at ${inboxRoot}/.society-agent/queues/`)
 			getLog().info(`Message security enabled - signatures will be verified`)
 		} else {
 			getLog().warn(`No shared directory or workspace root - inbox disabled`)
 		}
 		// Society Agent end
 
+		// Society Agent start - The inbox pushes new messages; only the legacy registry is polled
+		if (this.inboxManager) {
+			this.unsubscribeInbox = this.inboxManager.onMessage(this.agentId, () => void this.runProcessMessages())
+			void this.runProcessMessages()
+			return
+		}
+		// Society Agent end
+
 		// Poll for messages every 3 seconds
 		this.pollInterval = setInterval(async () => {
 			try {
@@ -75,6 +86,29 @@ export class SimpleAgentLoop {
 		}, 3000)
 	}
 
+	// Society Agent start
+	/**
+	 * Process messages once per notification, never twice at the same time
+	 */
+	private async runProcessMessages(): Promise<void> {
+		if (this.processing) {
+			this.processAgain = true
+			return
+		}
+		this.processing = true
+		try {
+			do {
+				this.processAgain = false
+				await this.processMessages()
+			} while (this.processAgain && this.running)
+		} catch (error) {
+			getLog().error("Error processing messages:", error)
+		} finally {
+			this.processing = false
+		}
+	}
+	// Society Agent end
+
 	/**
 	 * Stop the agent loop
 	 */
@@ -83,6 +117,8 @@ export class SimpleAgentLoop {
 			clearInterval(this.pollInterval)
 			this.pollInterval = undefined
 		}
+		this.unsubscribeInbox?.() // Society Agent
+		this.unsubscribeInbox = undefined // Society Agent
 		this.running = false
 		getLog().info(`Stopped for ${this.role}`)
 	}
@@ -122,7 +158,7 @@ export class SimpleAgentLoop {
 				await this.inboxManager.acknowledge(message)
 				getLog().info(`Successfully delivered and acknowledged message ${message.id}`)
 			} else {
-				// Increment attempt count, will retry next cycle
+				// Give it back; the inbox redelivers it after a delay
 				await this.inboxManager.incrementAttempt(message)
 				getLog().info(
 					`Failed to deliver message ${message.id}, attempt ${(message.attempts || 0) + 1}`,
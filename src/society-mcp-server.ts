@@ -0,0 +1,501 @@
+// Society Agent - new file
+/**
+ * Society Agent MCP Server
+ *
+ * Exposes a running Society Agent server to MCP clients (IDE assistants, other
+ * orchestrators) over stdio. Projects, agents, ManagedTasks and planning decisions
+ * become MCP tools, so a team can be driven without the web UI.
+ *
+ * This process is a thin bridge: every tool call is forwarded to the HTTP API of
+ * the server at SOCIETY_URL, with the caller's credentials. The server keeps sole
+ * ownership of project state and agent loops, and its roles and project
+ * memberships apply unchanged.
+ *
+ * Usage (e.g. in an MCP client config):
+ *   SOCIETY_URL=http://localhost:4000 SOCIETY_API_TOKEN=... npx tsx src/society-mcp-server.ts
+ *
+ * Environment:
+ *   SOCIETY_URL            Server base URL (default http://localhost:$PORT or :4000)
+ *   SOCIETY_API_TOKEN      API token (Authorization: Bearer), or
+ *   SOCIETY_USERNAME / SOCIETY_PASSWORD  for HTTP Basic
+ *   SOCIETY_MCP_CLIENT_ID  Recorded as createdBy / delegatedBy on tasks (default "mcp-client")
+ *   SOCIETY_MCP_TIMEOUT_MS Per-request timeout; agent chats can take minutes (default 300000)
+ *
+ * stdout carries only JSON-RPC messages; diagnostics go to stderr.
+ */
+
+import * as readline from "readline"
+import type { JsonRpcMessage } from "./mcp-transports"
+import type { ManagedTask } from "./task-manager"
+import type { Decision } from "./planning-log"
+
+/** Protocol versions this server can speak, newest first */
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"]
+
+/** Node's fetch gives up waiting for response headers after 5 minutes anyway */
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000
+
+const SERVER_INFO = { name: "society-agent", version: "1.0.0" }
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700
+const INVALID_REQUEST = -32600
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+
+// ============================================================================
+// HTTP API client
+// ============================================================================
+
+export interface SocietyApiOptions {
+	baseUrl: string
+	token?: string
+	username?: string
+	password?: string
+	timeoutMs?: number
+}
+
+/** Error from the Society Agent HTTP API, with the status and server message */
+export class SocietyApiError extends Error {
+	constructor(
+		public status: number,
+		message: string,
+	) {
+		super(message)
+		this.name = "SocietyApiError"
+	}
+}
+
+export class SocietyApiClient {
+	private headers: Record<string, string> = { Accept: "application/json" }
+
+	constructor(private options: SocietyApiOptions) {
+		if (options.token) {
+			this.headers.Authorization = `Bearer ${options.token}`
+		} else if (options.username) {
+			this.headers.Authorization = `Basic ${Buffer.from(`${options.username}:${options.password || ""}`).toString("base64")}`
+		}
+	}
+
+	async request<T = any>(method: string, apiPath: string, body?: unknown): Promise<T> {
+		const url = new URL(apiPath, this.options.baseUrl).toString()
+		let response: Response
+		try {
+			response = await fetch(url, {
+				method,
+				headers: body !== undefined ? { ...this.headers, "Content-Type": "application/json" } : this.headers,
+				body: body !== undefined ? JSON.stringify(body) : undefined,
+				signal: AbortSignal.timeout(this.options.timeoutMs || DEFAULT_TIMEOUT_MS),
+			})
+		} catch (err: any) {
+			if (err.name === "TimeoutError" || err.cause?.code === "UND_ERR_HEADERS_TIMEOUT") {
+				throw new Error(`${method} ${apiPath} timed out; the server may still be working on it`)
+			}
+			throw new Error(`Society Agent server at ${this.options.baseUrl} is not reachable: ${err.message}`)
+		}
+
+		const text = await response.text()
+		let data: any
+		try {
+			data = text ? JSON.parse(text) : undefined
+		} catch {
+			data = undefined
+		}
+		if (!response.ok) {
+			const detail = data?.error || data?.message || text || response.statusText
+			if (response.status === 401) throw new SocietyApiError(401, `Authentication failed: ${detail}`)
+			if (response.status === 403) throw new SocietyApiError(403, `Not allowed: ${detail}`)
+			throw new SocietyApiError(response.status, String(detail))
+		}
+		return data as T
+	}
+
+	get<T = any>(apiPath: string): Promise<T> {
+		return this.request<T>("GET", apiPath)
+	}
+
+	post<T = any>(apiPath: string, body: unknown = {}): Promise<T> {
+		return this.request<T>("POST", apiPath, body)
+	}
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+interface McpToolDefinition {
+	name: string
+	description: string
+	inputSchema: {
+		type: "object"
+		properties: Record<string, any>
+		required?: string[]
+	}
+}
+
+interface ToolCallResult {
+	content: Array<{ type: "text"; text: string }>
+	isError?: boolean
+}
+
+const TOOLS: McpToolDefinition[] = [
+	{
+		name: "list_projects",
+		description: "List Society Agent projects and their agents (ID, name, role, whether active).",
+		inputSchema: { type: "object", properties: {} },
+	},
+	{
+		name: "chat_with_agent",
+		description:
+			"Send a chat message to a project agent and wait for its reply. The agent runs its full tool loop " +
+			"(it may edit files, delegate and spawn workers), so this can take minutes.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				projectId: { type: "string", description: "Project ID (from list_projects)" },
+				agentId: { type: "string", description: "Agent ID within the project" },
+				message: { type: "string", description: "Message to send" },
+			},
+			required: ["projectId", "agentId", "message"],
+		},
+	},
+	{
+		name: "create_task",
+		description: "Create a managed task (stable ID such as T-API-001) in a project, optionally delegating it to an agent right away.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				projectId: { type: "string", description: "Project ID" },
+				title: { type: "string", description: "Short task title" },
+				description: { type: "string", description: "What needs to be done, with acceptance criteria" },
+				priority: { type: "number", description: "1 (highest) to 5 (lowest), default 3" },
+				dependsOn: { type: "array", items: { type: "string" }, description: "Task IDs that must complete first" },
+				parentTaskId: { type: "string", description: "Parent task ID when decomposing" },
+				assignTo: { type: "string", description: "Agent ID to delegate the new task to" },
+			},
+			required: ["projectId", "title", "description"],
+		},
+	},
+	{
+		name: "delegate_task",
+		description:
+			"Delegate a managed task to an agent. With start=true the agent is also messaged with the task brief " +
+			"and the call waits for its reply.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				projectId: { type: "string", description: "Project ID" },
+				taskId: { type: "string", description: "Managed task ID (e.g. T-API-001)" },
+				agentId: { type: "string", description: "Agent to delegate to" },
+				start: { type: "boolean", description: "Message the agent to start work now (default false)" },
+			},
+			required: ["projectId", "taskId", "agentId"],
+		},
+	},
+	{
+		name: "get_task_status",
+		description: "Get a managed task's status, assignee, blocking reason, dependencies and recent status history.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				projectId: { type: "string", description: "Project ID" },
+				taskId: { type: "string", description: "Managed task ID" },
+			},
+			required: ["projectId", "taskId"],
+		},
+	},
+	{
+		name: "list_tasks",
+		description: "List a project's managed tasks, optionally filtered by status and assignee.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				projectId: { type: "string", description: "Project ID" },
+				status: { type: "string", description: "Comma-separated statuses (e.g. 'in_progress,blocked')" },
+				assignedTo: { type: "string", description: "Agent ID" },
+			},
+			required: ["projectId"],
+		},
+	},
+	{
+		name: "read_decisions",
+		description: "Read planning decisions recorded in the project's PLANNING.md: active ones by default, pending proposals, or those for one task.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				projectId: { type: "string", description: "Project ID" },
+				status: { type: "string", enum: ["active", "pending"], description: "Which decisions (default active)" },
+				taskId: { type: "string", description: "Only decisions related to this task" },
+			},
+			required: ["projectId"],
+		},
+	},
+]
+
+/** Thrown for missing or malformed tool arguments (reported as a tool error, not a protocol error) */
+class ToolInputError extends Error {}
+
+function requireString(args: Record<string, any>, key: string): string {
+	const value = args[key]
+	if (typeof value !== "string" || !value.trim()) throw new ToolInputError(`"${key}" is required`)
+	return value
+}
+
+function enc(value: string): string {
+	return encodeURIComponent(value)
+}
+
+function formatTaskLine(task: ManagedTask): string {
+	const assignee = task.assignedTo ? ` → ${task.assignedTo}` : ""
+	return `- **${task.taskId}** [${task.status}] P${task.priority}${assignee}: ${task.title}`
+}
+
+function formatTask(task: ManagedTask): string {
+	const lines = [`**${task.taskId}**: ${task.title}`, `Status: ${task.status}`, `Priority: ${task.priority}`]
+	if (task.assignedTo) lines.push(`Assigned to: ${task.assignedTo}`)
+	lines.push(`Created by: ${task.createdBy}`)
+	if (task.parentTaskId) lines.push(`Parent: ${task.parentTaskId}`)
+	if (task.dependsOn?.length) lines.push(`Depends on: ${task.dependsOn.join(", ")}`)
+	if (task.blockingReason) {
+		const reason = task.blockingReason
+		lines.push(`Blocked (${reason.type}): ${reason.description}${reason.unblockRequires ? ` - needs ${reason.unblockRequires}` : ""}`)
+	}
+	if (task.verification) lines.push(`Verification: ${task.verification.allPassed ? "passed" : "failed"}`)
+	lines.push("", task.description)
+	const history = task.statusHistory || []
+	if (history.length > 0) {
+		lines.push("", "Recent history:")
+		for (const entry of history.slice(-5)) {
+			lines.push(`- ${entry.timestamp} ${entry.from} → ${entry.to} by ${entry.triggeredBy}${entry.reason ? ` (${entry.reason})` : ""}`)
+		}
+	}
+	return lines.join("\n")
+}
+
+function formatDecision(decision: Decision): string {
+	const lines = [`### ${decision.id}: ${decision.title} [${decision.status}]`, `Category: ${decision.category} · by ${decision.decidedBy} · ${decision.decidedAt}`]
+	if (decision.context) lines.push(`Context: ${decision.context}`)
+	if (decision.decision) lines.push(`Decision: ${decision.decision}`)
+	if (decision.rationale) lines.push(`Rationale: ${decision.rationale}`)
+	if (decision.consequences?.length) lines.push(`Consequences: ${decision.consequences.join("; ")}`)
+	if (decision.relatedTasks?.length) lines.push(`Tasks: ${decision.relatedTasks.join(", ")}`)
+	if (decision.supersededBy) lines.push(`Superseded by: ${decision.supersededBy}`)
+	return lines.join("\n")
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class SocietyMcpServer {
+	constructor(
+		private api: SocietyApiClient,
+		private clientId: string = "mcp-client",
+	) {}
+
+	/**
+	 * Handle one incoming JSON-RPC message. Returns the response to send,
+	 * or null for notifications.
+	 */
+	async handle(msg: JsonRpcMessage): Promise<JsonRpcMessage | null> {
+		// Notifications (initialized, cancelled) need no answer
+		if (msg.id === undefined || msg.id === null) return null
+		if (typeof msg.method !== "string") {
+			return { jsonrpc: "2.0", id: msg.id, error: { code: INVALID_REQUEST, message: "Missing method" } }
+		}
+
+		switch (msg.method) {
+			case "initialize": {
+				const requested = msg.params?.protocolVersion
+				return {
+					jsonrpc: "2.0",
+					id: msg.id,
+					result: {
+						protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+						capabilities: { tools: {} },
+						serverInfo: SERVER_INFO,
+						instructions:
+							"Drive a Society Agent team: list_projects to find project and agent IDs, chat_with_agent to talk to an agent, " +
+							"create_task / delegate_task to hand out work, get_task_status / list_tasks to follow it, read_decisions for the planning log.",
+					},
+				}
+			}
+			case "ping":
+				return { jsonrpc: "2.0", id: msg.id, result: {} }
+			case "tools/list":
+				return { jsonrpc: "2.0", id: msg.id, result: { tools: TOOLS } }
+			case "tools/call": {
+				const name = msg.params?.name
+				if (!TOOLS.some((t) => t.name === name)) {
+					return { jsonrpc: "2.0", id: msg.id, error: { code: INVALID_PARAMS, message: `Unknown tool: ${name}` } }
+				}
+				return { jsonrpc: "2.0", id: msg.id, result: await this.callTool(name, msg.params?.arguments || {}) }
+			}
+			default:
+				return { jsonrpc: "2.0", id: msg.id, error: { code: METHOD_NOT_FOUND, message: `Method not found: ${msg.method}` } }
+		}
+	}
+
+	/** Run a tool; failures are returned as tool errors so the model can see them */
+	async callTool(name: string, args: Record<string, any>): Promise<ToolCallResult> {
+		try {
+			const text = await this.runTool(name, args)
+			return { content: [{ type: "text", text }] }
+		} catch (err: any) {
+			return { content: [{ type: "text", text: `❌ ${name} failed: ${err.message}` }], isError: true }
+		}
+	}
+
+	private async runTool(name: string, args: Record<string, any>): Promise<string> {
+		switch (name) {
+			case "list_projects": {
+				const { projects } = await this.api.get<{ projects: any[] }>("/api/projects")
+				if (!projects?.length) return "📭 No projects visible to this account."
+				return projects
+					.map((project) => {
+						const agents = (project.agents || [])
+							.filter((a: any) => !a.ephemeral)
+							.map((a: any) => `  - \`${a.id}\` ${a.name} (${a.role || "agent"})${a.isActive ? " · active" : ""}`)
+						return [`**${project.id}** - ${project.name}${project.description ? `: ${project.description}` : ""}`, ...agents].join("\n")
+					})
+					.join("\n\n")
+			}
+
+			case "chat_with_agent": {
+				const projectId = requireString(args, "projectId")
+				const agentId = requireString(args, "agentId")
+				const message = requireString(args, "message")
+				return this.chat(projectId, agentId, message)
+			}
+
+			case "create_task": {
+				const projectId = requireString(args, "projectId")
+				const body = {
+					title: requireString(args, "title"),
+					description: requireString(args, "description"),
+					createdBy: this.clientId,
+					priority: args.priority,
+					dependsOn: args.dependsOn,
+					parentTaskId: args.parentTaskId,
+				}
+				let task = await this.api.post<ManagedTask>(`/api/projects/${enc(projectId)}/managed-tasks`, body)
+				if (typeof args.assignTo === "string" && args.assignTo) {
+					task = await this.api.post<ManagedTask>(`/api/projects/${enc(projectId)}/managed-tasks/${enc(task.taskId)}/delegate`, {
+						toAgentId: args.assignTo,
+						byAgentId: this.clientId,
+					})
+				}
+				return `✅ Created task\n\n${formatTask(task)}`
+			}
+
+			case "delegate_task": {
+				const projectId = requireString(args, "projectId")
+				const taskId = requireString(args, "taskId")
+				const agentId = requireString(args, "agentId")
+				const task = await this.api.post<ManagedTask>(`/api/projects/${enc(projectId)}/managed-tasks/${enc(taskId)}/delegate`, {
+					toAgentId: agentId,
+					byAgentId: this.clientId,
+				})
+				const summary = `✅ ${task.taskId} delegated to ${agentId} (status: ${task.status})`
+				if (args.start !== true) return summary
+				const brief =
+					`Managed task ${task.taskId} has been delegated to you: ${task.title}\n\n${task.description}\n\n` +
+					`Accept it and start working. Report what you did when you are finished.`
+				return `${summary}\n\n${await this.chat(projectId, agentId, brief)}`
+			}
+
+			case "get_task_status": {
+				const projectId = requireString(args, "projectId")
+				const taskId = requireString(args, "taskId")
+				return formatTask(await this.api.get<ManagedTask>(`/api/projects/${enc(projectId)}/managed-tasks/${enc(taskId)}`))
+			}
+
+			case "list_tasks": {
+				const projectId = requireString(args, "projectId")
+				const query = new URLSearchParams()
+				if (typeof args.status === "string" && args.status) query.set("status", args.status)
+				if (typeof args.assignedTo === "string" && args.assignedTo) query.set("assignedTo", args.assignedTo)
+				const suffix = query.toString() ? `?${query}` : ""
+				const tasks = await this.api.get<ManagedTask[]>(`/api/projects/${enc(projectId)}/managed-tasks${suffix}`)
+				if (!tasks.length) return "📭 No matching tasks."
+				return tasks.map(formatTaskLine).join("\n")
+			}
+
+			case "read_decisions": {
+				const projectId = requireString(args, "projectId")
+				const query = new URLSearchParams()
+				if (typeof args.taskId === "string" && args.taskId) query.set("taskId", args.taskId)
+				else if (args.status === "pending") query.set("status", "pending")
+				const suffix = query.toString() ? `?${query}` : ""
+				const decisions = await this.api.get<Decision[]>(`/api/projects/${enc(projectId)}/decisions${suffix}`)
+				if (!decisions.length) return "📭 No matching decisions."
+				return decisions.map(formatDecision).join("\n\n")
+			}
+
+			default:
+				throw new ToolInputError(`Unknown tool: ${name}`)
+		}
+	}
+
+	private async chat(projectId: string, agentId: string, message: string): Promise<string> {
+		const result = await this.api.post(`/api/agent/${enc(agentId)}/chat`, { projectId, description: message })
+		if (result?.status === "in-progress") return `⏳ ${result.message || "Request is still being processed"}`
+		const extras: string[] = []
+		if (result?.filesCreated) extras.push(`files created: ${result.filesCreated}`)
+		if (result?.delegations?.length) extras.push(`delegations: ${result.delegations.length}`)
+		return `**${result?.agentName || agentId}:** ${result?.response || "(no response)"}${extras.length ? `\n\n(${extras.join(", ")})` : ""}`
+	}
+}
+
+// ============================================================================
+// stdio transport
+// ============================================================================
+
+/** Serve MCP over newline-delimited JSON-RPC on stdin/stdout */
+export function serveStdio(server: SocietyMcpServer, input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout): Promise<void> {
+	const write = (msg: JsonRpcMessage) => output.write(JSON.stringify(msg) + "\n")
+	const rl = readline.createInterface({ input, crlfDelay: Infinity })
+	const inFlight = new Set<Promise<void>>()
+
+	rl.on("line", (line) => {
+		if (!line.trim()) return
+		let msg: JsonRpcMessage
+		try {
+			msg = JSON.parse(line)
+		} catch {
+			write({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } })
+			return
+		}
+		// Requests run concurrently: a long agent chat must not block pings or status queries
+		const work = server
+			.handle(msg)
+			.then((response) => {
+				if (response) write(response)
+			})
+			.catch((err) => {
+				console.error("[Society MCP] Error handling message:", err)
+				if (msg.id !== undefined) write({ jsonrpc: "2.0", id: msg.id, error: { code: -32603, message: String(err?.message || err) } })
+			})
+			.finally(() => inFlight.delete(work))
+		inFlight.add(work)
+	})
+
+	return new Promise((resolve) => {
+		rl.on("close", () => {
+			Promise.allSettled([...inFlight]).then(() => resolve())
+		})
+	})
+}
+
+if (require.main === module) {
+	const baseUrl = process.env.SOCIETY_URL || `http://localhost:${process.env.PORT || "4000"}`
+	const api = new SocietyApiClient({
+		baseUrl,
+		token: process.env.SOCIETY_API_TOKEN,
+		username: process.env.SOCIETY_USERNAME,
+		password: process.env.SOCIETY_PASSWORD,
+		timeoutMs: process.env.SOCIETY_MCP_TIMEOUT_MS ? parseInt(process.env.SOCIETY_MCP_TIMEOUT_MS, 10) : undefined,
+	})
+	console.error(`[Society MCP] Serving ${baseUrl} over stdio`)
+	serveStdio(new SocietyMcpServer(api, process.env.SOCIETY_MCP_CLIENT_ID || "mcp-client")).then(() => process.exit(0))
+}
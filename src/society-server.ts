@@ -25,6 +25,14 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import OpenAI from "openai" // Society Agent - OpenRouter support
 import { ApiHandler, buildApiHandler } from "./api"
 import { commandExecutor } from "./command-executor"
+// Society Agent - sandboxed execution backend
+import { resolveExecutionSettings, validateExecutionSettings, effectiveTimeout, wrapShellCommand, wrapShellCommandLine, isSandboxAvailable, type SandboxSpec } from "./execution-sandbox"
+// Society Agent start - command allow/deny policies
+import { CommandPolicyStore, DEFAULT_COMMAND_RULES, evaluateCommand, parseCommandLine, validateCommandPolicy, type PolicyDecision } from "./command-policy"
+import { CheckpointManager, type CheckpointTarget } from "./workspace-checkpoints" // Society Agent
+import { initSecretsVault, getSecretsVault, saveEnvSecret, PROVIDER_KEY_ENV_VARS, VaultKeyError } from "./secrets-vault" // Society Agent
+import { getApprovalManager } from "./approval"
+// Society Agent end
 import { getLog } from "./logger"
 // Society Agent start - dynamic provider configuration
 import {
@@ -71,13 +79,49 @@ import {
 	handoffToSubordinate,
 	returnToSupervisor,
 	getWorkspaceStatusPrompt,
+	type FileChangeProposal,
 } from "./file-ownership"
 // Society Agent end
 // Society Agent start - MCP server integration
-import { initMcpManager, getMcpManager } from "./mcp-client"
+import { initMcpManager, getMcpManager, type McpResourceUpdate } from "./mcp-client"
+import { resolveTransportKind } from "./mcp-transports"
 // Society Agent end
 // Society Agent start - git loader for project history
 import { initGitLoader, getGitLoader } from "./git-loader"
+import { PullRequestMonitor, PULL_REQUEST_PROVIDERS } from "./pull-requests" // Society Agent
+import { IssueTrackerStore, IssueSyncService, ISSUE_SYNC_FIELDS, validateIssueTracker, type IssueTracker } from "./issue-trackers" // Society Agent
+import { WorktreeManager, MergeQueue, mergeConflictMessage, type MergeQueueEntry } from "./git-worktrees" // Society Agent
+import type { AdrImportResult } from "./adr-records" // Society Agent
+import { formatImpactReport } from "./decision-impact" // Society Agent
+import { taskGraphToMermaid, taskGraphToDot } from "./task-graph" // Society Agent
+import { type SizeUnit, SIZE_UNITS, MAX_BURNDOWN_DAYS, MAX_VELOCITY_PERIODS, buildTaskMetrics, buildBurndown, buildVelocity } from "./task-metrics" // Society Agent
+import { runVerification } from "./verification-runner" // Society Agent
+import {
+	formatMessageAsMarkdown,
+	createChangeProposal,
+	createTaskAssignment,
+	createTaskCompletion,
+	createTaskProgress,
+	createBlockedNotification,
+	createQuery,
+	createEscalation,
+	createStatusNotification,
+	createHandoffResponse,
+	type StructuredMessage,
+} from "./message-contracts" // Society Agent
+import { MessageLog, ResponseMonitor, MessageContractError, messageFromText, type StoredMessage, type ResponseState } from "./message-log" // Society Agent
+import { MessageThreadIndex } from "./message-threads" // Society Agent
+import { openMessageBroker } from "./message-broker" // Society Agent
+import { AgentIdentityManager } from "./agent-identity" // Society Agent
+import {
+	FederationError,
+	createServerFederation,
+	exportedAgentEntries,
+	parseFederatedAddress,
+	publishProjectAgents,
+	type FederatedDelivery,
+} from "./federation" // Society Agent
+import { AgentDirectory } from "./agent-directory" // Society Agent
 // Society Agent end
 // Society Agent start - port allocation system
 import { PortManager, PortAllocation } from "./port-manager"
@@ -99,6 +143,41 @@ import {
 	DelegationRequest,
 } from "./delegation-tracker"
 // Society Agent end
+// Society Agent start - authentication and per-user roles
+import {
+	AuthManager,
+	UserStore,
+	createAuthMiddleware,
+	credentialsFromRequest,
+	canAccessProject,
+	roleAtLeast,
+	isUserRole,
+	sessionCookieHeader,
+	clearSessionCookieHeader,
+	parseCookies,
+	SESSION_COOKIE,
+	type AuthUser,
+} from "./auth"
+// Society Agent end
+// Society Agent start - cron scheduler for per-agent scheduled tasks
+import { TaskScheduler, isValidCronExpression, type ScheduledRunOutcome } from "./task-scheduler"
+import { TaskTemplateStore, TaskTemplateError, type TaskTemplate } from "./task-templates" // Society Agent
+// Society Agent end
+// Society Agent start - hard cost budgets
+import { CostBudgetManager, describeBudgetBreach, validateBudgetLimits, type BudgetBreach } from "./cost-budgets"
+// Society Agent end
+// Society Agent start - durable usage history
+import {
+	UsageStore,
+	USAGE_GROUP_BY,
+	parseUsageDate,
+	usageEntriesToCsv,
+	usageReportToCsv,
+	type UsageEntry,
+	type UsageFilter,
+	type UsageGroupBy,
+} from "./usage-store"
+// Society Agent end
 import {
 	inferRequestIntent,
 	createInitialTaskState,
@@ -721,7 +800,9 @@ const _ioEmit = io.emit.bind(io)
 			bufferEvent(id, "agent-activity", data)
 		}
 	}
-	return _ioEmit(event, data, ...rest)
+	// Society Agent - project events only reach sockets whose user is a member of that project
+	const rooms = eventRooms(event, data)
+	return rooms ? io.to(rooms).emit(event, data, ...rest) : _ioEmit(event, data, ...rest)
 }
 
 // Society Agent start - centralized workspace path with stable default
@@ -734,8 +815,79 @@ function getOutputDir(): string {
 }
 // Society Agent end
 
+// Society Agent start - authentication (AUTH_MODE=none disables it for trusted single-user setups)
+const authManager = new AuthManager(
+	new UserStore(path.join(getOutputDir(), ".society", "users.json")),
+	{
+		enabled: (process.env.AUTH_MODE || "local").toLowerCase() !== "none",
+		sessionTtlMs: parseInt(process.env.AUTH_SESSION_TTL_HOURS || "12", 10) * 60 * 60 * 1000,
+	},
+)
+
+/** Socket.IO room that receives events for every project (admins, "*" members) */
+const ALL_PROJECTS_ROOM = "projects:*"
+
+function projectRoom(projectId: string): string {
+	return `project:${projectId}`
+}
+
+/** system-event types every signed-in user receives, whatever their projects */
+const BROADCAST_SYSTEM_EVENTS = new Set(["system-paused", "system-resumed"])
+
+/**
+ * Socket.IO rooms an emitted event goes to, or undefined for every socket.
+ * Events name their project, or an agent whose projects are looked up; any
+ * other event is server-wide and only reaches users who see every project.
+ */
+function eventRooms(event: string, data: any): string[] | undefined {
+	if (data && typeof data === "object") {
+		if (typeof data.projectId === "string") return [ALL_PROJECTS_ROOM, projectRoom(data.projectId)]
+		if (typeof data.agentId === "string") return [ALL_PROJECTS_ROOM, ...agentProjectIds(data.agentId).map(projectRoom)]
+		if (event === "system-event" && BROADCAST_SYSTEM_EVENTS.has(data.type)) return undefined
+	}
+	return [ALL_PROJECTS_ROOM]
+}
+
+/** Projects with an agent of this ID (agent IDs are only unique within a project) */
+function agentProjectIds(agentId: string): string[] {
+	return projectStore.getAll().filter((p) => p.agents.some((a) => a.id === agentId)).map((p) => p.id)
+}
+
+/**
+ * Work out which project a request touches so membership can be enforced.
+ * Returns undefined for server-wide routes, and "*" for data that belongs to
+ * no project (purposes and standalone agents), which needs access to every project.
+ */
+function resolveRequestProjectId(req: express.Request): string | undefined {
+	if (/^\/api\/(purposes?|agents|persistent-agents)(\/|$)/.test(req.path)) return "*"
+
+	const match = req.path.match(/^\/api\/(?:projects|project|worker-leases)\/([^/]+)/) || req.path.match(/^\/project\/([^/]+)/)
+	if (match) return decodeURIComponent(match[1])
+
+	const explicit = (typeof req.query.projectId === "string" && req.query.projectId) ||
+		(typeof req.body?.projectId === "string" && req.body.projectId) || undefined
+
+	const agentMatch = req.path.match(/^\/api\/agent\/([^/]+)/)
+	if (agentMatch) {
+		return projectStore.findAgentProject(decodeURIComponent(agentMatch[1]), explicit)?.project.id ?? explicit ?? "*"
+	}
+
+	const approvalMatch = req.path.match(/^\/api\/approvals\/([^/]+)/)
+	if (approvalMatch) {
+		return projectStore.approvalQueue?.find((a) => a.id === decodeURIComponent(approvalMatch[1]))?.projectId
+	}
+	return explicit
+}
+
+/** True if the user may see the project; data without a project needs access to every project */
+function isProjectVisible(user: AuthUser | undefined, projectId: string | undefined): boolean {
+	return !user || canAccessProject(user, projectId || "*")
+}
+// Society Agent end
+
 // Middleware
 app.use(express.json({ limit: "50mb" })) // Society Agent - support file uploads
+app.use(createAuthMiddleware(authManager, resolveRequestProjectId)) // Society Agent - every route, including the UI pages
 app.use(express.static(path.join(__dirname, "public")))  // Society Agent - serve standalone frontend
 
 // Global state
@@ -794,6 +946,64 @@ function resetMcpErrors(agentId: string, serverName: string): void {
 	if (state) state.errorCount = 0
 }
 
+// Society Agent start - MCP resource subscriptions
+/** Subscriber ID for the MCP manager: an agent, or the project itself (API/UI subscriptions) */
+function mcpSubscriberId(projectId: string, agentId?: string): string {
+	return `${projectId}|${agentId || ""}`
+}
+
+/**
+ * Fan a resource update out to its subscribers: agents get an inbox message,
+ * and every subscribed project gets a system event for the UI.
+ */
+function notifyMcpResourceUpdate(update: McpResourceUpdate): void {
+	const notifiedProjects = new Set<string>()
+	for (const subscriber of update.subscribers) {
+		const [projectId, agentId] = subscriber.split("|")
+		if (agentId) {
+			sendToInbox(
+				projectId,
+				{ id: `mcp:${update.serverName}`, name: `MCP ${update.serverName}` },
+				agentId,
+				`🔔 Resource updated: ${update.uri} (MCP server "${update.serverName}"). Use read_mcp_resource("${update.serverName}", "${update.uri}") to see the new contents.`,
+			)
+		}
+		if (notifiedProjects.has(projectId)) continue
+		notifiedProjects.add(projectId)
+		io.emit("system-event", {
+			type: "mcp-resource-updated",
+			projectId,
+			serverName: update.serverName,
+			uri: update.uri,
+			timestamp: Date.now(),
+		})
+	}
+}
+// Society Agent end - MCP resource subscriptions
+
+// Society Agent start - sandboxed command execution
+/**
+ * Execution backend for an agent's shell commands. Settings resolve agent → supervisor
+ * (ephemeral workers run in their supervisor's folder) → project → server default.
+ * In the sandbox, cwd is the only writable folder, the project is read-only and the
+ * rest of the workspace is hidden.
+ */
+function agentSandboxSpec(project: Project, agentConfig: ProjectAgentConfig, cwd: string): SandboxSpec {
+	const supervisor = agentConfig.ephemeral && agentConfig.reportsTo
+		? project.agents.find((a) => a.id === agentConfig.reportsTo)
+		: undefined
+	return {
+		settings: resolveExecutionSettings(agentConfig.execution, supervisor?.execution, project.execution),
+		paths: {
+			cwd,
+			writable: [cwd],
+			readOnly: [projectStore.projectDir(project.id)],
+			hidden: [getWorkspacePath()],
+		},
+	}
+}
+// Society Agent end - sandboxed command execution
+
 // Society Agent start - system pause/resume for external oversight
 let systemPaused = false
 const PAUSED_STATE_FILE = path.join(getWorkspacePath(), ".system-paused-state.json")
@@ -1159,12 +1369,12 @@ class ActivityLogger {
 		return this.activities.filter(a => a.projectId === projectId).slice(0, limit)
 	}
 
-	getByAgent(agentId: string, limit = 50): ActivityEntry[] {
-		return this.activities.filter(a => a.agentId === agentId).slice(0, limit)
+	getByAgent(agentId: string, limit = 50, visible: (entry: ActivityEntry) => boolean = () => true): ActivityEntry[] {
+		return this.activities.filter(a => a.agentId === agentId && visible(a)).slice(0, limit)
 	}
 
-	getAll(limit = 100): ActivityEntry[] {
-		return this.activities.slice(0, limit)
+	getAll(limit = 100, visible: (entry: ActivityEntry) => boolean = () => true): ActivityEntry[] {
+		return this.activities.filter(visible).slice(0, limit)
 	}
 
 	clear() {
@@ -1283,19 +1493,6 @@ function withSnapshotContext(prompt: string, snapshot: string): string {
 }
 
 // Society Agent start - token usage tracking
-interface UsageEntry {
-	id: string
-	timestamp: number
-	projectId: string
-	agentId: string
-	agentName: string
-	model: string
-	inputTokens: number
-	outputTokens: number
-	totalTokens: number
-	costUsd: number // estimated cost
-}
-
 // Society Agent start - Safe JSON parse for tool arguments (models sometimes return malformed JSON)
 function safeParseToolArgs(jsonStr: string | undefined): Record<string, any> {
 	if (!jsonStr) return {}
@@ -1538,8 +1735,14 @@ class UsageTracker {
 			timestamp: Date.now(),
 			totalTokens: entry.inputTokens + entry.outputTokens,
 			costUsd,
+			taskId: entry.taskId || findActiveTaskId(entry.projectId, entry.agentId), // Society Agent
 		}
 
+		usageStore.append(fullEntry) // Society Agent - durable history for reports
+
+		// Society Agent - count towards hard budgets
+		costBudgets.recordSpend({ projectId: fullEntry.projectId, agentId: fullEntry.agentId, taskId: fullEntry.taskId }, costUsd)
+
 		this.entries.unshift(fullEntry)
 		if (this.entries.length > this.maxSize) {
 			this.entries = this.entries.slice(0, this.maxSize)
@@ -1571,22 +1774,23 @@ class UsageTracker {
 		return fullEntry
 	}
 
-	getRecent(limit = 50): UsageEntry[] {
-		return this.entries.slice(0, limit)
+	getRecent(limit = 50, visible: (entry: UsageEntry) => boolean = () => true): UsageEntry[] {
+		return this.entries.filter(visible).slice(0, limit)
 	}
 
-	getSummary(): UsageSummary {
+	getSummary(visible: (entry: UsageEntry) => boolean = () => true): UsageSummary {
+		const entries = this.entries.filter(visible)
 		const summary: UsageSummary = {
 			totalInputTokens: 0,
 			totalOutputTokens: 0,
 			totalTokens: 0,
 			totalCostUsd: 0,
-			callCount: this.entries.length,
+			callCount: entries.length,
 			byAgent: {},
 			byModel: {},
 		}
 
-		for (const e of this.entries) {
+		for (const e of entries) {
 			summary.totalInputTokens += e.inputTokens
 			summary.totalOutputTokens += e.outputTokens
 			summary.totalTokens += e.totalTokens
@@ -1620,9 +1824,353 @@ class UsageTracker {
 	}
 }
 
+const usageStore = new UsageStore(path.join(getOutputDir(), ".society", "usage")) // Society Agent
 const usageTracker = new UsageTracker()
 // Society Agent end
 
+// Society Agent start - hard cost budgets (server / project / agent, daily / monthly / per task)
+const costBudgets = new CostBudgetManager(path.join(getOutputDir(), ".society", "budgets.json"))
+
+/** The ManagedTask an agent is currently working on, if any */
+function findActiveManagedTask(projectId: string, agentId: string) {
+	return projectStore.getManagedTasks(projectId).find((t) => t.assignedTo === agentId && t.status === "in_progress")
+}
+
+/** Task that spend is attributed to: the agent's in-progress ManagedTask, else its claimed pool task */
+function findActiveTaskId(projectId: string, agentId: string): string | undefined {
+	const managed = findActiveManagedTask(projectId, agentId)
+	if (managed) return managed.taskId
+	return projectStore.getTasks(projectId).find((t) => t.claimedBy === agentId && ["claimed", "in-progress"].includes(t.status))?.id
+}
+
+/**
+ * Check the agent's budgets before an LLM call. When a limit has been reached the
+ * agent is paused: its in-progress ManagedTask is blocked on approval and a
+ * "budget_override" approval request is raised for a human (once per breach).
+ * Returns the breach so the caller can end its loop, or null to continue.
+ */
+function enforceCostBudget(agent: ProjectAgentConfig, project: Project): BudgetBreach | null {
+	const taskId = findActiveTaskId(project.id, agent.id)
+	const breach = costBudgets.check({ projectId: project.id, agentId: agent.id, taskId })
+	if (!breach) return null
+
+	const description = describeBudgetBreach(breach)
+	log.warn(`[Budgets] ${agent.name} paused: ${description}`)
+
+	const managedTask = findActiveManagedTask(project.id, agent.id)
+	if (managedTask) {
+		projectStore.blockManagedTask(project.id, managedTask.taskId, agent.id, {
+			type: "approval",
+			description,
+			unblockRequires: "human",
+			since: new Date().toISOString(),
+		})
+	}
+
+	const alreadyRequested = projectStore
+		.getAllPendingApprovals(project.id)
+		.some((a) => a.operation === "budget_override" && a.targetAgentId === agent.id)
+	if (!alreadyRequested) {
+		const approval = projectStore.createApprovalRequest({
+			projectId: project.id,
+			targetAgentId: agent.id,
+			requestingAgentId: agent.id,
+			approverAgentId: "human",
+			operation: "budget_override",
+			operationDetails: {
+				originalRequest: description,
+				parameters: { breach, managedTaskId: managedTask?.taskId },
+			},
+			summary: `${agent.name}: ${description}`,
+		})
+		io.emit("approval-requested", { projectId: project.id, requestId: approval.id, summary: approval.summary })
+	}
+
+	io.emit("agent-message", {
+		agentId: agent.id,
+		agentName: agent.name,
+		projectId: project.id,
+		message: `\n💸 **Paused: ${description}.** Approve the budget override to continue.\n`,
+		timestamp: Date.now(),
+		isStreaming: false,
+		isDone: true,
+	})
+	io.emit("system-event", { type: "budget-exceeded", projectId: project.id, agentId: agent.id, breach, timestamp: Date.now() })
+	return breach
+}
+// Society Agent end
+
+// Society Agent start - command allow/deny policies
+const commandPolicies = new CommandPolicyStore(path.join(getOutputDir(), ".society", "command-policies"))
+
+/** How long a command waits for a human decision before it is denied */
+const COMMAND_APPROVAL_TIMEOUT_MS = 30 * 60 * 1000
+
+/** ApprovalManager requests waiting in the approval queue, keyed by queue ID */
+const approvalWaiters = new Map<string, (approved: boolean, permanent: boolean) => void>()
+
+/** Permission grant operation for commands approved under one policy rule */
+function commandGrantOperation(ruleId: string): string {
+	return `run_command:${ruleId}`
+}
+
+/**
+ * ApprovalManager's approval channel: the request goes into the project's approval
+ * queue (visible in the UI and /api/projects/:id/approvals) and the promise settles
+ * when a human resolves it, or is rejected after the timeout.
+ */
+getApprovalManager().setApprovalUICallback(
+	(request) =>
+		new Promise<boolean>((resolve, reject) => {
+			const { projectId, ruleId, reason, command } = request.context || {}
+			const operation = request.tool === "run_command" && ruleId ? commandGrantOperation(ruleId) : request.tool
+			const approval = projectStore.createApprovalRequest({
+				projectId,
+				targetAgentId: request.agentId,
+				requestingAgentId: request.agentId,
+				approverAgentId: "human",
+				operation,
+				operationDetails: {
+					originalRequest: command || request.tool,
+					parameters: { ...request.parameters, ruleId, reason, approvalManagerId: request.id },
+				},
+				summary: `${request.agentId} wants to run \`${command || request.tool}\`${reason ? ` (${reason})` : ""}`,
+			})
+			io.emit("approval-requested", { projectId, requestId: approval.id, summary: approval.summary })
+
+			const timeoutMs = request.timeout || COMMAND_APPROVAL_TIMEOUT_MS
+			const timer = setTimeout(() => {
+				approvalWaiters.delete(approval.id)
+				projectStore.resolveApproval(approval.id, "denied", false, "timeout")
+				io.emit("approval-resolved", { requestId: approval.id, resolution: "denied" })
+				reject(new Error(`no decision within ${Math.round(timeoutMs / 60000)} minutes`))
+			}, timeoutMs)
+			approvalWaiters.set(approval.id, (approved, permanent) => {
+				clearTimeout(timer)
+				approvalWaiters.delete(approval.id)
+				// A one-time approval is used up by the command that was waiting for it
+				if (approved && !permanent) projectStore.removePermissionGrant(projectId, request.agentId, request.agentId, operation)
+				resolve(approved)
+			})
+		}),
+)
+
+/**
+ * Apply the project's command policy before an agent runs a command. Commands that
+ * require approval wait for a human through ApprovalManager.requestApproval, unless
+ * the agent holds a grant for the rule (a permanent approval, or a one-time approval
+ * that was resolved after a restart).
+ */
+async function enforceCommandPolicy(
+	project: Project,
+	agent: ProjectAgentConfig,
+	command: string,
+	onApprovalNeeded?: (decision: PolicyDecision) => void,
+): Promise<{ allowed: boolean; message?: string }> {
+	let decision: PolicyDecision
+	try {
+		decision = evaluateCommand(command, commandPolicies.get(project.id))
+	} catch (error) {
+		log.error(`[CommandPolicy] ${normalizeErrorMessage(error)}`)
+		return { allowed: false, message: `The project's command policy is invalid, so commands are blocked until it is fixed: ${normalizeErrorMessage(error)}` }
+	}
+	if (decision.action === "allow") return { allowed: true }
+
+	const ruleId = decision.rule?.id || "default"
+	if (decision.action === "deny") {
+		log.warn(`[CommandPolicy] Denied for ${agent.name} by ${ruleId}: ${decision.segment}`)
+		io.emit("system-event", { type: "command-denied", projectId: project.id, agentId: agent.id, command, ruleId, reason: decision.reason, timestamp: Date.now() })
+		return { allowed: false, message: `Blocked by command policy (rule "${ruleId}"): ${decision.reason}\nCommand: ${decision.segment}` }
+	}
+
+	const operation = commandGrantOperation(ruleId)
+	const grant = projectStore.getPermissionGrant(project.id, agent.id, operation)
+	if (grant) {
+		if (!grant.permanent) projectStore.removePermissionGrant(project.id, agent.id, grant.fromAgentId, operation)
+		return { allowed: true }
+	}
+
+	onApprovalNeeded?.(decision)
+	const result = await getApprovalManager().requestApproval({
+		id: `cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+		agentId: agent.id,
+		tool: "run_command",
+		parameters: { command },
+		context: { command, reason: decision.reason, projectId: project.id, ruleId, segment: decision.segment },
+		timestamp: Date.now(),
+	})
+	if (result.approved) return { allowed: true }
+	return { allowed: false, message: `Approval for \`${decision.segment}\` (rule "${ruleId}") was not granted: ${result.reason || "denied"}` }
+}
+// Society Agent end
+
+// Society Agent start - workspace checkpoints
+const checkpoints = new CheckpointManager(path.join(getOutputDir(), ".society", "checkpoints"))
+
+/** Tools that get a checkpoint of the folder they act on before they run */
+const CHECKPOINT_TOOLS = new Set(["delete_file", "move_file", "run_command"])
+
+/** Automatic checkpoints can be turned off with SOCIETY_CHECKPOINTS=off */
+function autoCheckpointsEnabled(): boolean {
+	return process.env.SOCIETY_CHECKPOINTS !== "off"
+}
+
+/**
+ * The folder an agent works in, keyed by the agent that owns it: ephemeral workers
+ * work in their supervisor's folder, so their checkpoints are the supervisor's.
+ */
+function checkpointTarget(projectId: string, agentId: string): CheckpointTarget {
+	// Society Agent - an agent with a git worktree is checkpointed in its worktree
+	const worktreeDir = agentWorktreeDir(projectId, agentId)
+	if (worktreeDir) return { projectId, agentId, dir: worktreeDir }
+	const agent = projectStore.get(projectId)?.agents.find((a) => a.id === agentId)
+	const ownerId = agent?.ephemeral && agent.reportsTo ? agent.reportsTo : agentId
+	return { projectId, agentId: ownerId, dir: projectStore.agentHomeDir(projectId, ownerId) }
+}
+
+projectStore.onTaskStart = (projectId, agentId, taskId) => {
+	if (!autoCheckpointsEnabled()) return
+	// Society Agent - the agent does the task in its worktree, so that is the folder to snapshot
+	const project = projectStore.get(projectId)
+	const agent = project?.agents.find((a) => a.id === agentId)
+	const worktree = project && agent ? agentWorktreeFolder(project, agent) : Promise.resolve(null)
+	worktree
+		.then(() => checkpoints.create(checkpointTarget(projectId, agentId), { trigger: "task-start", label: `Start of task ${taskId}`, taskId }))
+		.then((checkpoint) => {
+			if (checkpoint) io.emit("system-event", { type: "checkpoint-created", projectId, agentId: checkpoint.agentId, checkpoint, timestamp: Date.now() })
+		})
+		.catch((error) => log.error(`[Checkpoints] Task-start checkpoint for ${taskId} failed: ${normalizeErrorMessage(error)}`))
+}
+
+/** Checkpoint the agent's folder before a destructive tool runs (skipped when nothing changed) */
+async function checkpointBeforeTool(project: Project, agent: ProjectAgentConfig, toolName: string, detail: string): Promise<void> {
+	if (!autoCheckpointsEnabled()) return
+	try {
+		await checkpoints.create(checkpointTarget(project.id, agent.id), {
+			trigger: "tool",
+			label: `Before ${toolName}: ${detail.slice(0, 120)}`,
+			tool: toolName,
+			taskId: findActiveTaskId(project.id, agent.id),
+			skipIfUnchanged: true,
+		})
+	} catch (error) {
+		// A failed snapshot must not stop the agent
+		log.error(`[Checkpoints] Checkpoint before ${toolName} failed: ${normalizeErrorMessage(error)}`)
+	}
+}
+// Society Agent end
+
+// Society Agent start - per-agent git worktrees
+const worktrees = new WorktreeManager(path.join(getOutputDir(), ".worktrees"), path.join(getOutputDir(), ".society", "worktrees.json"))
+
+/**
+ * Agents of projects loaded from a git repository work in their own worktree.
+ * Can be turned off with SOCIETY_WORKTREES=off (everyone shares the checkout).
+ */
+function worktreesEnabled(project: Project): boolean {
+	return process.env.SOCIETY_WORKTREES !== "off" && project.gitConfig?.cloneStatus !== "error" && Boolean(project.gitConfig)
+}
+
+/**
+ * The agent's folder inside its worktree: the same subfolder of the repository as
+ * its home folder (ephemeral workers use their supervisor's). Null without a worktree.
+ */
+function agentWorktreeDir(projectId: string, agentId: string): string | null {
+	const worktree = worktrees.get(projectId, agentId)
+	if (!worktree) return null
+	const agent = projectStore.get(projectId)?.agents.find((a) => a.id === agentId)
+	const ownerId = agent?.ephemeral && agent.reportsTo ? agent.reportsTo : agentId
+	const home = path.relative(projectStore.projectDir(projectId), projectStore.agentHomeDir(projectId, ownerId))
+	return home.startsWith("..") ? worktree.path : path.join(worktree.path, home)
+}
+
+// File ownership and change proposals read and write files in the agent's worktree
+projectStore.agentCheckoutDir = (projectId, agentId) => worktrees.get(projectId, agentId)?.path ?? null
+
+/** Create (or refresh) the agent's worktree and return its folder in it; null keeps the shared checkout */
+async function agentWorktreeFolder(project: Project, agent: ProjectAgentConfig): Promise<string | null> {
+	if (!worktreesEnabled(project)) return null
+	const repoDir = projectStore.projectDir(project.id)
+	try {
+		if (!worktrees.get(project.id, agent.id) && !(await WorktreeManager.isRepository(repoDir))) return null
+		const isNew = !worktrees.get(project.id, agent.id)
+		const worktree = await worktrees.acquire(repoDir, project.id, agent.id, { taskId: findActiveTaskId(project.id, agent.id) })
+		if (isNew) {
+			io.emit("system-event", { type: "worktree-created", projectId: project.id, agentId: agent.id, worktree, timestamp: Date.now() })
+		}
+		return agentWorktreeDir(project.id, agent.id)
+	} catch (error) {
+		log.error(`[Worktrees] No worktree for ${agent.id}, using the shared checkout: ${normalizeErrorMessage(error)}`)
+		return null
+	}
+}
+
+const mergeQueue = new MergeQueue(worktrees, {
+	verify: (entry, worktree, changes) => {
+		// Verify against the files the agent reported, as task verification does
+		const reported = entry.taskId
+			? projectStore.getManagedTask(entry.projectId, entry.taskId)?.result ||
+				projectStore.getTasks(entry.projectId).find((t) => t.id === entry.taskId)?.result
+			: undefined
+		return runVerification({ taskId: entry.taskId || entry.branch }, worktree.path, {
+			quickMode: true,
+			context: {
+				filesCreated: reported?.filesCreated,
+				filesModified: reported?.filesModified,
+				commitHash: changes.commitHash,
+			},
+		})
+	},
+})
+
+/**
+ * Queue the agent's worktree for merging into its base branch. Conflicts and
+ * failed verification are reported to the agent (or, for an ephemeral worker,
+ * to its supervisor) once the queue gets to the entry.
+ */
+function queueAgentMerge(projectId: string, agentId: string, taskId?: string): MergeQueueEntry {
+	const agent = projectStore.get(projectId)?.agents.find((a) => a.id === agentId)
+	const ephemeral = Boolean(agent?.ephemeral)
+	const notifyAgentId = ephemeral && agent?.reportsTo ? agent.reportsTo : agentId
+	const { entry, done } = mergeQueue.enqueue(projectId, agentId, { taskId })
+	io.emit("system-event", { type: "merge-queued", projectId, agentId, entry, timestamp: Date.now() })
+	done.then((finished) => onMergeFinished(finished, notifyAgentId, ephemeral)).catch((error) =>
+		log.error(`[MergeQueue] Handling merge ${entry.id} failed: ${normalizeErrorMessage(error)}`),
+	)
+	return entry
+}
+
+function onMergeFinished(entry: MergeQueueEntry, notifyAgentId: string, ephemeral: boolean): void {
+	io.emit("system-event", { type: "merge-finished", projectId: entry.projectId, agentId: entry.agentId, entry, timestamp: Date.now() })
+	if (entry.status === "merged") return
+
+	// The worker is gone: keep only its branch for whoever resolves the problem
+	if (ephemeral) {
+		worktrees.release(entry.projectId, entry.agentId, { keepBranch: true }).catch((error) =>
+			log.error(`[Worktrees] Releasing ${entry.agentId} failed: ${normalizeErrorMessage(error)}`),
+		)
+	}
+
+	const managed = entry.taskId ? projectStore.getManagedTask(entry.projectId, entry.taskId) : undefined
+	if (entry.status === "conflict") {
+		const message = mergeConflictMessage(entry, notifyAgentId)
+		sendToInbox(entry.projectId, { id: "merge-queue", name: "Merge Queue" }, notifyAgentId, formatMessageAsMarkdown(message), "urgent")
+		if (managed && (managed.status === "in_progress" || managed.status === "review")) {
+			projectStore.blockManagedTask(entry.projectId, managed.taskId, "merge-queue", {
+				...message.payload.blockingReason,
+				since: new Date().toISOString(),
+			})
+		}
+		io.emit("system-event", { type: "merge-conflict", projectId: entry.projectId, agentId: entry.agentId, entry, message, timestamp: Date.now() })
+	} else {
+		sendToInbox(entry.projectId, { id: "merge-queue", name: "Merge Queue" }, notifyAgentId, `❌ Merge of ${entry.branch} into ${entry.baseBranch} failed: ${entry.error}`, "urgent")
+		if (managed?.status === "review") {
+			projectStore.transitionManagedTask(entry.projectId, managed.taskId, "in_progress", "merge-queue", { reason: entry.error })
+		}
+	}
+}
+// Society Agent end
+
 // Society Agent start - Agent inbox system for async messaging
 interface InboxMessage {
 	id: string
@@ -1631,89 +2179,329 @@ interface InboxMessage {
 	message: string
 	priority: "normal" | "urgent"
 	timestamp: number
-	read: boolean
+	/** Lease of this delivery (Society Agent - durable inbox queues) */
+	receipt?: string
+	// Society Agent start - typed inter-agent messages
+	/** ID of the StructuredMessage this inbox entry delivers */
+	messageId?: string
+	responseExpected?: StructuredMessage["responseExpected"]
+	/** Not shown after this time (ISO) */
+	expiresAt?: string
+	// Society Agent end
 }
 
-// In-memory inboxes (keyed by "projectId:agentId")
-const agentInboxes = new Map<string, InboxMessage[]>()
+// Society Agent start - durable inbox queues
+// Inbox queues (keyed by "projectId:agentId"); messages stay queued until read
+const inboxBroker = openMessageBroker(path.join(getOutputDir(), ".society", "queues"))
+// Society Agent end
 
 function getInboxKey(projectId: string, agentId: string): string {
 	return `${projectId}:${agentId}`
 }
 
-function sendToInbox(projectId: string, fromAgent: { id: string; name: string }, toAgentId: string, message: string, priority: "normal" | "urgent" = "normal"): void {
+function sendToInbox(
+	projectId: string,
+	fromAgent: { id: string; name: string },
+	toAgentId: string,
+	message: string,
+	priority: "normal" | "urgent" = "normal",
+	structured?: StructuredMessage, // Society Agent
+): void {
 	const key = getInboxKey(projectId, toAgentId)
-	if (!agentInboxes.has(key)) {
-		agentInboxes.set(key, [])
-	}
-	agentInboxes.get(key)!.push({
-		id: `msg_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-		from: fromAgent,
-		to: toAgentId,
-		message,
-		priority,
-		timestamp: Date.now(),
-		read: false,
-	})
+	const id = `msg_${Date.now()}_${Math.random().toString(36).substring(7)}`
+	// Society Agent start - durable inbox queues: delivered by priority, dropped once expired
+	inboxBroker.publish<InboxMessage>(
+		key,
+		{
+			id,
+			from: fromAgent,
+			to: toAgentId,
+			message,
+			priority,
+			timestamp: Date.now(),
+			messageId: structured?.messageId, // Society Agent
+			responseExpected: structured?.responseExpected, // Society Agent
+			expiresAt: structured?.expiresAt, // Society Agent
+		},
+		{
+			id,
+			priority: structured?.priority ?? (priority === "urgent" ? "high" : "normal"),
+			expiresAt: structured?.expiresAt ? Date.parse(structured.expiresAt) : undefined,
+		},
+	)
+	// Society Agent end
 	log.info(`[Inbox] ${fromAgent.name} → ${toAgentId}: ${message.substring(0, 60)}...`)
 	// Society Agent start - activity log: record inbox message
 	try {
 		const _inboxProj = projectStore.get(projectId)
 		const _inboxAgent = _inboxProj?.agents?.find(a => a.id === toAgentId)
 		if (_inboxProj && _inboxAgent) {
-			agentActivityLogger.logInboxMsg(projectId, toAgentId, _inboxProj.folder, _inboxAgent.homeFolder || "/", fromAgent.name || fromAgent.id, message)
+			agentActivityLogger.logInboxMsg(projectId, toAgentId, _inboxProj.folder, _inboxAgent.homeFolder || "/", fromAgent.name || fromAgent.id, message, structured && (structured.correlationId ?? structured.messageId))
 		}
 	} catch (_) { /* non-fatal */ }
 	// Society Agent end
 }
 
+/**
+ * Unread messages, most urgent first. With markRead they are leased: pass them to
+ * acknowledgeInbox() once the agent has them, or they are delivered again.
+ */
 function readInbox(projectId: string, agentId: string, markRead: boolean = true): InboxMessage[] {
 	const key = getInboxKey(projectId, agentId)
-	const messages = agentInboxes.get(key) || []
-	const unread = messages.filter(m => !m.read)
-	
-	if (markRead && unread.length > 0) {
-		unread.forEach(m => m.read = true)
+	if (!markRead) return inboxBroker.peek<InboxMessage>(key).map((m) => m.body)
+	return inboxBroker.receive<InboxMessage>(key, { max: Infinity }).map((d) => ({ ...d.body, receipt: d.receipt }))
+}
+
+// Society Agent start - durable inbox queues
+function acknowledgeInbox(projectId: string, agentId: string, messages: InboxMessage[]): void {
+	const key = getInboxKey(projectId, agentId)
+	for (const message of messages) {
+		if (message.receipt) inboxBroker.ack(key, message.receipt)
 	}
-	
-	return unread
 }
+// Society Agent end
 
 function getInboxUnreadCount(projectId: string, agentId: string): number {
+	return inboxBroker.peek(getInboxKey(projectId, agentId)).length
+}
+
+// Society Agent start - durable inbox queues: the broker pushes arrivals to running agent loops
+/** Inboxes that received messages since their agent was last told */
+const inboxArrivals = new Set<string>()
+inboxBroker.subscribe((queue) => inboxArrivals.add(queue))
+
+/** Notice to append to an agent's tool results when new inbox messages have arrived */
+function takeInboxNotice(projectId: string, agentId: string): string {
+	if (!inboxArrivals.delete(getInboxKey(projectId, agentId))) return ""
+	const unread = getInboxUnreadCount(projectId, agentId)
+	return unread > 0 ? `\n\n📬 **${unread} unread message(s) in your inbox.** Call read_inbox when you reach a good stopping point.` : ""
+}
+// Society Agent end
+// Society Agent end
+
+// Society Agent start - typed inter-agent messages
+/** Every agent-to-agent message, validated and kept per project */
+const messageLog = new MessageLog(path.join(getOutputDir(), ".society", "messages"))
+
+function inboxPriority(message: StructuredMessage): "normal" | "urgent" {
+	return message.priority === "critical" || message.priority === "high" ? "urgent" : "normal"
+}
+
+function agentName(projectId: string, agentId: string): string {
+	return projectStore.get(projectId)?.agents.find((a) => a.id === agentId)?.name || agentId
+}
+
+// Society Agent start - conversation threads
+/** Conversations agents are working on, innermost last (keyed by "projectId:agentId") */
+const activeThreads = new Map<string, string[]>()
+
+/** The conversation an agent is working on, if any */
+function currentThread(projectId: string, agentId: string): string | undefined {
+	return activeThreads.get(getInboxKey(projectId, agentId))?.at(-1)
+}
+
+/** Mark an agent as working on a message's conversation until leaveThread() */
+function enterThread(projectId: string, agentId: string, message: StructuredMessage): void {
 	const key = getInboxKey(projectId, agentId)
-	const messages = agentInboxes.get(key) || []
-	return messages.filter(m => !m.read).length
+	activeThreads.set(key, [...(activeThreads.get(key) ?? []), message.correlationId ?? message.messageId])
 }
+
+function leaveThread(projectId: string, agentId: string): void {
+	const key = getInboxKey(projectId, agentId)
+	const stack = activeThreads.get(key)?.slice(0, -1) ?? []
+	if (stack.length > 0) activeThreads.set(key, stack)
+	else activeThreads.delete(key)
+}
+
+agentActivityLogger.setCorrelationProvider(currentThread)
 // Society Agent end
 
-// Society Agent start - track current provider config
-let currentProviderConfig: ProviderConfig | null = null
-let currentProviderSettings: ProviderSettings | null = null
+/**
+ * Validate and persist an agent-to-agent message, marking the messages it answers.
+ * A message that answers nothing joins the conversation its sender is working on.
+ * @throws MessageContractError if the message breaks its contract
+ */
+function recordAgentMessage(message: StructuredMessage): StoredMessage {
+	const thread = message.correlationId || message.inResponseTo ? undefined : currentThread(message.projectId, message.fromAgentId)
+	const { stored, answered } = messageLog.record(thread ? { ...message, correlationId: thread } : message)
+	io.emit("system-event", { type: "agent-message-recorded", projectId: message.projectId, message: stored.message, timestamp: Date.now() })
+	for (const entry of answered) {
+		io.emit("system-event", {
+			type: "agent-message-answered",
+			projectId: message.projectId,
+			messageId: entry.message.messageId,
+			responseId: message.messageId,
+			timestamp: Date.now(),
+		})
+	}
+	return stored
+}
 
 /**
- * Get API handler using current provider configuration
- * Falls back to loading config if not initialized
- * Now uses buildSocietyApiHandler for full provider support
+ * Record a message and put it in the recipient's inbox.
+ * @throws MessageContractError if the message breaks its contract
  */
-function getApiHandlerFromConfig(): ApiHandler {
-	const workspacePath = process.env.WORKSPACE_PATH || process.cwd()
+function deliverAgentMessage(message: StructuredMessage, fromName?: string): StoredMessage {
+	const stored = recordAgentMessage(message)
+	sendToInbox(
+		message.projectId,
+		{ id: message.fromAgentId, name: fromName || agentName(message.projectId, message.fromAgentId) },
+		message.toAgentId,
+		formatMessageAsMarkdown(message),
+		inboxPriority(message),
+		stored.message,
+	)
+	return stored
+}
 
-	// Prefer dynamic provider settings loaded from .env so runtime follows
-	// /api/config/provider changes immediately (including Ollama keyless mode).
-	if (!currentProviderSettings) {
-		try {
-			currentProviderSettings = loadProviderSettings(workspacePath)
-		} catch {
-			// Fall back to standalone/legacy config paths below.
-		}
-	}
+/**
+ * Who a missing response goes to: the recipient's supervisor, or the sender's
+ * when the recipient reports to the sender. Undefined leaves it to a human.
+ */
+function escalationTarget(projectId: string, message: StructuredMessage): string | undefined {
+	const agents = projectStore.get(projectId)?.agents ?? []
+	const recipient = agents.find((a) => a.id === message.toAgentId)
+	const sender = agents.find((a) => a.id === message.fromAgentId)
+	return [recipient?.reportsTo, sender?.reportsTo].find(
+		(id) => id && id !== message.fromAgentId && id !== message.toAgentId && agents.some((a) => a.id === id),
+	)
+}
 
-	if (currentProviderSettings) {
-		return buildApiHandlerFromSettings(currentProviderSettings)
+/** Record what an agent answered in chat as its reply to a message */
+function recordChatReply(original: StructuredMessage, text: string): void {
+	try {
+		recordAgentMessage(
+			messageFromText(text.slice(0, 4000), original.toAgentId, original.fromAgentId, original.projectId, { inResponseTo: original, responseExpected: "none" }),
+		)
+	} catch (error) {
+		log.warn(`[Messages] Could not record the reply to ${original.messageId}: ${normalizeErrorMessage(error)}`)
 	}
+}
 
-	// Society Agent start - Check standalone settings first (supports OpenRouter and all providers)
-	if (standaloneSettings.isInitialized() && standaloneSettings.hasApiKey()) {
+/** The typed message for a report_to_supervisor call */
+function supervisorReportMessage(
+	fromAgentId: string,
+	supervisorId: string,
+	projectId: string,
+	report: {
+		status: string
+		summary: string
+		details?: string
+		completion_percentage?: number
+		blockers?: string[]
+		questions?: string[]
+		taskId?: string
+	},
+): StructuredMessage {
+	const { status, summary, details, taskId } = report
+	const blockers = report.blockers ?? []
+	const questions = report.questions ?? []
+	if (status === "completed" && taskId) {
+		return createTaskCompletion(fromAgentId, supervisorId, projectId, { taskId, summary, filesCreated: [], filesModified: [], notes: details })
+	}
+	if (status === "in_progress" && taskId) {
+		return createTaskProgress(fromAgentId, supervisorId, projectId, { taskId, percentComplete: report.completion_percentage ?? 0, currentActivity: summary })
+	}
+	if (status === "blocked" && taskId) {
+		return createBlockedNotification(fromAgentId, supervisorId, projectId, {
+			taskId,
+			blockingReason: {
+				type: questions.length > 0 ? "question" : "external",
+				description: [summary, ...blockers].join("\n"),
+				question: questions.length > 0 ? questions.join("\n") : undefined,
+			},
+			suggestedResolution: details,
+		})
+	}
+	if (status === "needs_info") {
+		return createQuery(fromAgentId, supervisorId, projectId, { question: questions.length > 0 ? questions.join("\n") : summary, context: details, urgency: "blocking" }, taskId)
+	}
+	if (status === "blocked" || status === "failed") {
+		return createEscalation(fromAgentId, supervisorId, projectId, {
+			reason: status === "failed" ? "error" : "blocked",
+			description: [summary, details, ...blockers].filter(Boolean).join("\n"),
+			taskId,
+			urgency: "soon",
+		})
+	}
+	return createStatusNotification(fromAgentId, supervisorId, projectId, { subject: summary, status, details }, { taskId })
+}
+
+const responseMonitor = new ResponseMonitor(messageLog, projectStore, {
+	onReminder: (projectId, { message }) => {
+		sendToInbox(
+			projectId,
+			{ id: "message-monitor", name: "Message Monitor" },
+			message.toAgentId,
+			`⏰ Reminder: ${agentName(projectId, message.fromAgentId)} is still waiting for your response to message \`${message.messageId}\`` +
+				`${message.taskId ? ` (task ${message.taskId})` : ""}. Reply with send_message(agent_id: "${message.fromAgentId}", in_response_to: "${message.messageId}")` +
+				` or report_to_supervisor if it came from your supervisor.`,
+			"urgent",
+		)
+		io.emit("system-event", { type: "agent-message-reminder", projectId, messageId: message.messageId, agentId: message.toAgentId, timestamp: Date.now() })
+	},
+	onEscalation: (projectId, { message }) => {
+		const target = escalationTarget(projectId, message)
+		if (target) {
+			try {
+				deliverAgentMessage({
+					...createEscalation(message.fromAgentId, target, projectId, {
+						reason: "blocked",
+						description: `${agentName(projectId, message.toAgentId)} has not responded to ${message.category} message ${message.messageId} sent ${message.timestamp}.`,
+						taskId: message.taskId,
+						involvedAgents: [message.fromAgentId, message.toAgentId],
+						attemptedResolutions: ["Automatic reminder"],
+						urgency: message.priority === "critical" ? "immediate" : "soon",
+					}),
+					correlationId: message.correlationId ?? message.messageId,
+				})
+			} catch (error) {
+				log.warn(`[Messages] Could not escalate ${message.messageId}: ${normalizeErrorMessage(error)}`)
+			}
+		}
+		io.emit("system-event", { type: "agent-message-escalated", projectId, messageId: message.messageId, agentId: message.toAgentId, escalatedTo: target, timestamp: Date.now() })
+		return target
+	},
+	onExpired: (projectId, { message }) => {
+		sendToInbox(
+			projectId,
+			{ id: "message-monitor", name: "Message Monitor" },
+			message.fromAgentId,
+			`⌛ Your message \`${message.messageId}\` to ${agentName(projectId, message.toAgentId)} expired at ${message.expiresAt} without a response.`,
+		)
+		io.emit("system-event", { type: "agent-message-expired", projectId, messageId: message.messageId, agentId: message.toAgentId, timestamp: Date.now() })
+	},
+})
+// Society Agent end
+
+// Society Agent start - track current provider config
+let currentProviderConfig: ProviderConfig | null = null
+let currentProviderSettings: ProviderSettings | null = null
+
+/**
+ * Get API handler using current provider configuration
+ * Falls back to loading config if not initialized
+ * Now uses buildSocietyApiHandler for full provider support
+ */
+function getApiHandlerFromConfig(): ApiHandler {
+	const workspacePath = process.env.WORKSPACE_PATH || process.cwd()
+
+	// Prefer dynamic provider settings loaded from .env so runtime follows
+	// /api/config/provider changes immediately (including Ollama keyless mode).
+	if (!currentProviderSettings) {
+		try {
+			currentProviderSettings = loadProviderSettings(workspacePath)
+		} catch {
+			// Fall back to standalone/legacy config paths below.
+		}
+	}
+
+	if (currentProviderSettings) {
+		return buildApiHandlerFromSettings(currentProviderSettings)
+	}
+
+	// Society Agent start - Check standalone settings first (supports OpenRouter and all providers)
+	if (standaloneSettings.isInitialized() && standaloneSettings.hasApiKey()) {
 		const providerConfig = standaloneSettings.getProvider()
 		// For Anthropic, use the standard handler directly
 		if (providerConfig.type === "anthropic") {
@@ -1928,12 +2716,202 @@ app.get("/api/status", (req, res) => {
 	// Society Agent end
 })
 
+// Society Agent start - authentication, users and API tokens
+/**
+ * GET /api/auth/status - Whether authentication is enabled and who is signed in (public)
+ */
+app.get("/api/auth/status", (req, res) => {
+	const user = authManager.authenticate(credentialsFromRequest(req))
+	res.json({
+		enabled: authManager.enabled,
+		providers: authManager.getProviderNames(),
+		user: authManager.enabled ? user : null,
+	})
+})
+
+/**
+ * POST /api/auth/login - Sign in with username/password; sets a session cookie (public)
+ */
+app.post("/api/auth/login", (req, res): void => {
+	if (!authManager.enabled) {
+		res.status(400).json({ error: "Authentication is disabled (AUTH_MODE=none)" })
+		return
+	}
+	const { username, password } = req.body || {}
+	if (typeof username !== "string" || typeof password !== "string") {
+		res.status(400).json({ error: "username and password are required" })
+		return
+	}
+	const user = authManager.users.verifyCredentials(username, password)
+	if (!user) {
+		log.warn(`[Auth] Failed login for "${username}" from ${req.ip}`)
+		res.status(401).json({ error: "Invalid username or password" })
+		return
+	}
+	const token = authManager.createSession(user.id)
+	res.setHeader("Set-Cookie", sessionCookieHeader(token, authManager.sessionTtlMs))
+	res.json({ success: true, user: { id: user.id, username: user.username, role: user.role, projects: user.projects } })
+})
+
+/**
+ * POST /api/auth/logout - End the current session
+ */
+app.post("/api/auth/logout", (req, res) => {
+	const session = parseCookies(req.headers.cookie)[SESSION_COOKIE]
+	if (session) authManager.users.revokeTokenValue(session)
+	res.setHeader("Set-Cookie", clearSessionCookieHeader())
+	res.json({ success: true })
+})
+
+/**
+ * GET /api/auth/me - The signed-in user
+ */
+app.get("/api/auth/me", (req, res) => {
+	res.json({ user: req.authUser })
+})
+
+/**
+ * POST /api/auth/password - Change the signed-in user's password
+ */
+app.post("/api/auth/password", (req, res): void => {
+	try {
+		const user = req.authUser && authManager.users.getUser(req.authUser.id)
+		if (!user) {
+			res.status(400).json({ error: "No local user for this session" })
+			return
+		}
+		const { currentPassword, newPassword } = req.body || {}
+		if (!authManager.users.verifyCredentials(user.username, currentPassword || "")) {
+			res.status(403).json({ error: "Current password is incorrect" })
+			return
+		}
+		authManager.users.updateUser(user.id, { password: newPassword })
+		res.setHeader("Set-Cookie", clearSessionCookieHeader())
+		res.json({ success: true })
+	} catch (error) {
+		res.status(400).json({ error: error instanceof Error ? error.message : String(error) })
+	}
+})
+
+/**
+ * GET /api/auth/tokens - List the signed-in user's API tokens
+ */
+app.get("/api/auth/tokens", (req, res) => {
+	res.json({ tokens: req.authUser ? authManager.users.listTokens(req.authUser.id) : [] })
+})
+
+/**
+ * POST /api/auth/tokens - Create an API token for the signed-in user (shown once)
+ */
+app.post("/api/auth/tokens", (req, res): void => {
+	try {
+		if (!req.authUser || !authManager.users.getUser(req.authUser.id)) {
+			res.status(400).json({ error: "No local user for this session" })
+			return
+		}
+		const { name, expiresInDays } = req.body || {}
+		const days = Number(expiresInDays)
+		const { token, record } = authManager.users.createToken(req.authUser.id, {
+			name: typeof name === "string" && name.trim() ? name.trim() : "API token",
+			kind: "api",
+			expiresInMs: Number.isFinite(days) && days > 0 ? days * 24 * 60 * 60 * 1000 : undefined,
+		})
+		res.status(201).json({ token, record })
+	} catch (error) {
+		res.status(400).json({ error: error instanceof Error ? error.message : String(error) })
+	}
+})
+
+/**
+ * DELETE /api/auth/tokens/:tokenId - Revoke one of the signed-in user's API tokens
+ */
+app.delete("/api/auth/tokens/:tokenId", (req, res): void => {
+	const ownerId = req.authUser && roleAtLeast(req.authUser.role, "admin") ? undefined : req.authUser?.id
+	if (!authManager.users.revokeToken(req.params.tokenId, ownerId)) {
+		res.status(404).json({ error: "Token not found" })
+		return
+	}
+	res.json({ success: true })
+})
+
+/**
+ * GET /api/auth/users - List users (admin)
+ */
+app.get("/api/auth/users", (req, res) => {
+	res.json({ users: authManager.users.listUsers() })
+})
+
+/**
+ * POST /api/auth/users - Create a user (admin)
+ * Body: { username, password, role: "viewer" | "operator" | "admin", projects?: string[] }
+ */
+app.post("/api/auth/users", (req, res): void => {
+	try {
+		const { username, password, role, projects } = req.body || {}
+		if (!isUserRole(role)) {
+			res.status(400).json({ error: "role must be viewer, operator or admin" })
+			return
+		}
+		const user = authManager.users.createUser({
+			username,
+			password,
+			role,
+			projects: Array.isArray(projects) ? projects.map(String) : [],
+		})
+		res.status(201).json(user)
+	} catch (error) {
+		res.status(400).json({ error: error instanceof Error ? error.message : String(error) })
+	}
+})
+
+/**
+ * PUT /api/auth/users/:userId - Update role, project membership, password or disabled flag (admin)
+ */
+app.put("/api/auth/users/:userId", (req, res): void => {
+	try {
+		const { role, projects, password, disabled } = req.body || {}
+		if (role !== undefined && !isUserRole(role)) {
+			res.status(400).json({ error: "role must be viewer, operator or admin" })
+			return
+		}
+		const user = authManager.users.updateUser(req.params.userId, {
+			role,
+			projects: Array.isArray(projects) ? projects.map(String) : undefined,
+			password,
+			disabled: typeof disabled === "boolean" ? disabled : undefined,
+		})
+		if (!user) {
+			res.status(404).json({ error: "User not found" })
+			return
+		}
+		res.json(user)
+	} catch (error) {
+		res.status(400).json({ error: error instanceof Error ? error.message : String(error) })
+	}
+})
+
+/**
+ * DELETE /api/auth/users/:userId - Delete a user and revoke their tokens (admin)
+ */
+app.delete("/api/auth/users/:userId", (req, res): void => {
+	if (req.authUser?.id === req.params.userId) {
+		res.status(400).json({ error: "You cannot delete your own account" })
+		return
+	}
+	if (!authManager.users.deleteUser(req.params.userId)) {
+		res.status(404).json({ error: "User not found" })
+		return
+	}
+	res.json({ success: true })
+})
+// Society Agent end
+
 // Society Agent start - Port allocation API for visibility and management
 /**
  * GET /api/ports - Get all port allocations across all projects
  */
 app.get("/api/ports", (req, res) => {
-	const allocations = PortManager.getAllAllocations()
+	const allocations = PortManager.getAllAllocations().filter((a) => isProjectVisible(req.authUser, a.projectId)) // Society Agent
 	res.json({
 		total: allocations.length,
 		protectedSystemPorts: [...PROTECTED_PORTS].filter(p => !allocations.some(a => a.port === p)),
@@ -2177,6 +3155,9 @@ app.get("/api/mcps", (req, res): void => {
 			description: cfg.description || "(no description)",
 			command: cfg.command,
 			args: cfg.args || [],
+			// Society Agent - remote servers (headers and auth are never returned)
+			url: cfg.url,
+			transport: resolveTransportKind(cfg),
 			enabled: cfg.enabled !== false, // default true
 			scope: "global"
 		}))
@@ -2281,6 +3262,9 @@ app.get("/api/project/:projectId/mcps", (req, res): void => {
 			description: cfg.description || "(no description)",
 			command: cfg.command,
 			args: cfg.args || [],
+			// Society Agent - remote servers (headers and auth are never returned)
+			url: cfg.url,
+			transport: resolveTransportKind(cfg),
 			enabled: cfg.enabled !== false,
 			scope: "project"
 		}))
@@ -2323,6 +3307,155 @@ app.post("/api/project/:projectId/mcps/:name/toggle", (req, res): void => {
 		res.status(500).json({ error: err.message })
 	}
 })
+
+// Society Agent start - MCP resources and prompts API
+/** 404 for unknown servers, 400 for capabilities the server lacks, 500 otherwise */
+function mcpErrorStatus(err: Error): number {
+	if (/not found/.test(err.message)) return 404
+	if (/does not support/.test(err.message)) return 400
+	return 500
+}
+
+/**
+ * GET /api/project/:projectId/mcps/:name/resources - List resources, templates and the project's subscriptions
+ */
+app.get("/api/project/:projectId/mcps/:name/resources", async (req, res): Promise<void> => {
+	const project = projectStore.get(req.params.projectId)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return
+	}
+	try {
+		const mcpManager = getMcpManager()
+		const { resources, resourceTemplates, subscribable } = await mcpManager.getResources(req.params.name, project.id)
+		const subscriptions: Record<string, string[]> = {}
+		for (const agent of [{ id: "" }, ...project.agents]) {
+			for (const sub of mcpManager.getSubscriptions(mcpSubscriberId(project.id, agent.id))) {
+				if (sub.serverName !== req.params.name) continue
+				if (!subscriptions[sub.uri]) subscriptions[sub.uri] = []
+				subscriptions[sub.uri].push(agent.id || "project")
+			}
+		}
+		res.json({ server: req.params.name, resources, resourceTemplates, subscribable, subscriptions })
+	} catch (err: any) {
+		res.status(mcpErrorStatus(err)).json({ error: err.message })
+	}
+})
+
+/**
+ * GET /api/project/:projectId/mcps/:name/resources/read?uri= - Read a resource
+ */
+app.get("/api/project/:projectId/mcps/:name/resources/read", async (req, res): Promise<void> => {
+	const project = projectStore.get(req.params.projectId)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return
+	}
+	const uri = req.query.uri as string | undefined
+	if (!uri) {
+		res.status(400).json({ error: "uri is required" })
+		return
+	}
+	try {
+		const contents = await getMcpManager().readResource(req.params.name, uri, project.id)
+		res.json({ server: req.params.name, uri, contents })
+	} catch (err: any) {
+		res.status(mcpErrorStatus(err)).json({ error: err.message })
+	}
+})
+
+/**
+ * POST /api/project/:projectId/mcps/:name/resources/subscribe - Subscribe the project (or body.agentId) to a resource
+ */
+app.post("/api/project/:projectId/mcps/:name/resources/subscribe", async (req, res): Promise<void> => {
+	const project = projectStore.get(req.params.projectId)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return
+	}
+	const { uri, agentId } = req.body || {}
+	if (!uri || typeof uri !== "string") {
+		res.status(400).json({ error: "uri is required" })
+		return
+	}
+	if (agentId && !project.agents.some((a) => a.id === agentId)) {
+		res.status(404).json({ error: `Agent "${agentId}" not found in project` })
+		return
+	}
+	try {
+		await getMcpManager().subscribeResource(req.params.name, uri, mcpSubscriberId(project.id, agentId), project.id)
+		res.json({ server: req.params.name, uri, agentId: agentId || null, subscribed: true })
+	} catch (err: any) {
+		res.status(mcpErrorStatus(err)).json({ error: err.message })
+	}
+})
+
+/**
+ * DELETE /api/project/:projectId/mcps/:name/resources/subscribe - Remove a subscription (uri and optional agentId in query or body)
+ */
+app.delete("/api/project/:projectId/mcps/:name/resources/subscribe", async (req, res): Promise<void> => {
+	const project = projectStore.get(req.params.projectId)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return
+	}
+	const uri = (req.query.uri as string) || req.body?.uri
+	const agentId = (req.query.agentId as string) || req.body?.agentId
+	if (!uri) {
+		res.status(400).json({ error: "uri is required" })
+		return
+	}
+	try {
+		const removed = await getMcpManager().unsubscribeResource(req.params.name, uri, mcpSubscriberId(project.id, agentId), project.id)
+		if (!removed) {
+			res.status(404).json({ error: "Subscription not found" })
+			return
+		}
+		res.json({ server: req.params.name, uri, agentId: agentId || null, subscribed: false })
+	} catch (err: any) {
+		res.status(mcpErrorStatus(err)).json({ error: err.message })
+	}
+})
+
+/**
+ * GET /api/project/:projectId/mcps/:name/prompts - List prompt templates
+ */
+app.get("/api/project/:projectId/mcps/:name/prompts", async (req, res): Promise<void> => {
+	const project = projectStore.get(req.params.projectId)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return
+	}
+	try {
+		const prompts = await getMcpManager().getPrompts(req.params.name, project.id)
+		res.json({ server: req.params.name, prompts })
+	} catch (err: any) {
+		res.status(mcpErrorStatus(err)).json({ error: err.message })
+	}
+})
+
+/**
+ * POST /api/project/:projectId/mcps/:name/prompts/:promptName - Render a prompt with body.arguments
+ */
+app.post("/api/project/:projectId/mcps/:name/prompts/:promptName", async (req, res): Promise<void> => {
+	const project = projectStore.get(req.params.projectId)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return
+	}
+	const args = req.body?.arguments ?? {}
+	if (typeof args !== "object" || Array.isArray(args) || Object.values(args).some((v) => typeof v !== "string")) {
+		res.status(400).json({ error: "arguments must be an object of strings" })
+		return
+	}
+	try {
+		const result = await getMcpManager().getPrompt(req.params.name, req.params.promptName, args, project.id)
+		res.json({ server: req.params.name, prompt: req.params.promptName, ...result })
+	} catch (err: any) {
+		res.status(mcpErrorStatus(err)).json({ error: err.message })
+	}
+})
+// Society Agent end - MCP resources and prompts API
 // Society Agent end - System pause/resume API
 
 // Society Agent start - activity log API
@@ -2331,7 +3464,7 @@ app.post("/api/project/:projectId/mcps/:name/toggle", (req, res): void => {
  */
 app.get("/api/activities", (req, res) => {
 	const limit = parseInt(req.query.limit as string) || 100
-	res.json(activityLogger.getAll(limit))
+	res.json(activityLogger.getAll(limit, (a) => isProjectVisible(req.authUser, a.projectId)))
 })
 
 /**
@@ -2347,7 +3480,7 @@ app.get("/api/project/:projectId/activities", (req, res) => {
  */
 app.get("/api/agent/:agentId/activities", (req, res) => {
 	const limit = parseInt(req.query.limit as string) || 50
-	res.json(activityLogger.getByAgent(req.params.agentId, limit))
+	res.json(activityLogger.getByAgent(req.params.agentId, limit, (a) => isProjectVisible(req.authUser, a.projectId)))
 })
 // Society Agent end
 
@@ -2356,7 +3489,7 @@ app.get("/api/agent/:agentId/activities", (req, res) => {
  * GET /api/usage - Get usage summary
  */
 app.get("/api/usage", (req, res) => {
-	res.json(usageTracker.getSummary())
+	res.json(usageTracker.getSummary((e) => isProjectVisible(req.authUser, e.projectId)))
 })
 
 /**
@@ -2364,37 +3497,237 @@ app.get("/api/usage", (req, res) => {
  */
 app.get("/api/usage/recent", (req, res) => {
 	const limit = parseInt(req.query.limit as string) || 50
-	res.json(usageTracker.getRecent(limit))
+	res.json(usageTracker.getRecent(limit, (e) => isProjectVisible(req.authUser, e.projectId)))
 })
 
 /**
- * DELETE /api/usage - Clear usage data
+ * DELETE /api/usage - Clear the live session view (the durable history is kept)
  */
 app.delete("/api/usage", (req, res) => {
 	usageTracker.clear()
-	res.json({ success: true, message: "Usage data cleared" })
+	res.json({ success: true, message: "Usage session view cleared; history on disk is unchanged" })
 })
 // Society Agent end
 
-// Society Agent start - workspace directory browser for project.html
+// Society Agent start - durable usage history, reports and CSV export
 /**
- * GET /api/workspace - List contents of a specific directory path
- * Used by project.html to browse project folders
+ * Build a history filter from query parameters:
+ * projectId, agentId, model, taskId, from, to (epoch ms, ISO, YYYY-MM-DD or YYYY-MM).
+ * Users who cannot see every project only get their own projects.
  */
-app.get("/api/workspace", async (req, res): Promise<void> => {
+function usageFilterFromQuery(req: express.Request): UsageFilter {
+	const str = (value: unknown): string | undefined => (typeof value === "string" && value ? value : undefined)
+	const filter: UsageFilter = {
+		projectId: str(req.query.projectId),
+		agentId: str(req.query.agentId),
+		model: str(req.query.model),
+		taskId: str(req.query.taskId),
+		from: parseUsageDate(req.query.from),
+		to: parseUsageDate(req.query.to),
+	}
+	const user = req.authUser
+	if (user && user.role !== "admin" && !user.projects.includes("*")) {
+		filter.projectIds = user.projects
+	}
+	return filter
+}
+
+/**
+ * GET /api/usage/history - Recorded usage entries, newest first
+ * Query: filters (see usageFilterFromQuery), limit (default 500)
+ */
+app.get("/api/usage/history", (req, res): void => {
+	let filter: UsageFilter
 	try {
-		const workspacePath = process.env.WORKSPACE_PATH || process.cwd()
-		const projectsDir = path.join(workspacePath, "projects")
-		
-		// Get the requested path relative to projects dir
-		const requestedPath = (req.query.path as string) || "/"
-		const targetDir = path.join(projectsDir, requestedPath)
-		
-		// Security: ensure path is within projects directory
-		const resolvedPath = path.resolve(targetDir)
-		if (!resolvedPath.startsWith(path.resolve(projectsDir))) {
-			res.status(403).json({ error: "Access denied" })
-			return
+		filter = usageFilterFromQuery(req)
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+		return
+	}
+	try {
+		const limit = parseInt(req.query.limit as string) || 500
+		res.json({ entries: usageStore.recent(limit, filter) })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/usage/report - Aggregated usage
+ * Query: groupBy = day | month | project | agent | model | task (default day), plus filters
+ */
+app.get("/api/usage/report", (req, res): void => {
+	const groupBy = ((req.query.groupBy as string) || "day") as UsageGroupBy
+	if (!USAGE_GROUP_BY.includes(groupBy)) {
+		res.status(400).json({ error: `groupBy must be one of: ${USAGE_GROUP_BY.join(", ")}` })
+		return
+	}
+	let filter: UsageFilter
+	try {
+		filter = usageFilterFromQuery(req)
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+		return
+	}
+	try {
+		res.json(usageStore.report(groupBy, filter))
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/usage/export.csv - Download usage as CSV
+ * Query: filters; with groupBy the aggregated report is exported instead of one row per call
+ */
+app.get("/api/usage/export.csv", (req, res): void => {
+	const groupBy = req.query.groupBy as UsageGroupBy | undefined
+	if (groupBy && !USAGE_GROUP_BY.includes(groupBy)) {
+		res.status(400).json({ error: `groupBy must be one of: ${USAGE_GROUP_BY.join(", ")}` })
+		return
+	}
+	let filter: UsageFilter
+	try {
+		filter = usageFilterFromQuery(req)
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+		return
+	}
+	try {
+		const csv = groupBy ? usageReportToCsv(usageStore.report(groupBy, filter)) : usageEntriesToCsv(usageStore.query(filter))
+		const name = ["usage", filter.projectId, groupBy, req.query.from, req.query.to].filter(Boolean).join("-").replace(/[^a-zA-Z0-9._-]/g, "_")
+		res.setHeader("Content-Type", "text/csv; charset=utf-8")
+		res.setHeader("Content-Disposition", `attachment; filename="${name}.csv"`)
+		res.send(csv)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+// Society Agent start - hard cost budget configuration
+/**
+ * GET /api/config/budgets - All configured limits and current spend against them
+ */
+app.get("/api/config/budgets", (req, res): void => {
+	try {
+		res.json({ ...costBudgets.getConfig(), status: costBudgets.getStatus() })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * PUT /api/config/budgets - Set server-wide limits
+ * Body: { dailyUsd?, monthlyUsd?, perTaskUsd? } (null clears a limit)
+ */
+app.put("/api/config/budgets", (req, res): void => {
+	try {
+		const error = validateBudgetLimits(req.body)
+		if (error) {
+			res.status(400).json({ error })
+			return
+		}
+		const limits = costBudgets.setLimits("server", req.body)
+		io.emit("system-event", { type: "budgets-updated", scope: "server", limits, timestamp: Date.now() })
+		res.json({ success: true, limits })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * PUT /api/config/budgets/projects/:projectId - Set limits for a project
+ * Body: { dailyUsd?, monthlyUsd?, perTaskUsd? } (null clears a limit)
+ */
+app.put("/api/config/budgets/projects/:projectId", (req, res): void => {
+	try {
+		if (!projectStore.get(req.params.projectId)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		const error = validateBudgetLimits(req.body)
+		if (error) {
+			res.status(400).json({ error })
+			return
+		}
+		const limits = costBudgets.setLimits("project", req.body, req.params.projectId)
+		io.emit("system-event", { type: "budgets-updated", scope: "project", projectId: req.params.projectId, limits, timestamp: Date.now() })
+		res.json({ success: true, limits })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * PUT /api/config/budgets/projects/:projectId/agents/:agentId - Set limits for one agent
+ * Body: { dailyUsd?, monthlyUsd?, perTaskUsd? } (null clears a limit)
+ */
+app.put("/api/config/budgets/projects/:projectId/agents/:agentId", (req, res): void => {
+	try {
+		if (!projectStore.getAgent(req.params.projectId, req.params.agentId)) {
+			res.status(404).json({ error: "Project or agent not found" })
+			return
+		}
+		const error = validateBudgetLimits(req.body)
+		if (error) {
+			res.status(400).json({ error })
+			return
+		}
+		const limits = costBudgets.setLimits("agent", req.body, req.params.projectId, req.params.agentId)
+		io.emit("system-event", {
+			type: "budgets-updated",
+			scope: "agent",
+			projectId: req.params.projectId,
+			agentId: req.params.agentId,
+			limits,
+			timestamp: Date.now(),
+		})
+		res.json({ success: true, limits })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/budgets - Limits and current spend that apply to a project
+ */
+app.get("/api/projects/:id/budgets", (req, res): void => {
+	try {
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		res.json({
+			server: costBudgets.getServerLimits(),
+			project: costBudgets.getProjectLimits(req.params.id),
+			status: costBudgets.getStatus(req.params.id),
+		})
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+// Society Agent start - workspace directory browser for project.html
+/**
+ * GET /api/workspace - List contents of a specific directory path
+ * Used by project.html to browse project folders
+ */
+app.get("/api/workspace", async (req, res): Promise<void> => {
+	try {
+		const workspacePath = process.env.WORKSPACE_PATH || process.cwd()
+		const projectsDir = path.join(workspacePath, "projects")
+		
+		// Get the requested path relative to projects dir
+		const requestedPath = (req.query.path as string) || "/"
+		const targetDir = path.join(projectsDir, requestedPath)
+		
+		// Security: ensure path is within projects directory
+		const resolvedPath = path.resolve(targetDir)
+		if (!resolvedPath.startsWith(path.resolve(projectsDir))) {
+			res.status(403).json({ error: "Access denied" })
+			return
 		}
 		
 		const entries: { name: string; isDir: boolean; size: number }[] = []
@@ -2823,7 +4156,7 @@ app.post("/api/workspace/move", async (req, res): Promise<void> => {
 // Society Agent end
 
 /**
- * POST /api/config/api-key - Save API key to .env file
+ * POST /api/config/api-key - Save API key (encrypted in the secrets vault)
  */
 app.post("/api/config/api-key", async (req, res): Promise<void> => {
 	try {
@@ -2840,42 +4173,11 @@ app.post("/api/config/api-key", async (req, res): Promise<void> => {
 			return
 		}
 
-		// Save to workspace root .env (where dotenv auto-loads from)
-		const envPath = path.resolve(process.cwd(), ".env")
-		// Also save to src/.env as fallback (where Society Agent reads it)
-		const srcEnvPath = path.join(__dirname, "../../.env")
-		let envContent = ""
-
-		// Read existing .env file
-		if (fs.existsSync(envPath)) {
-			envContent = fs.readFileSync(envPath, "utf-8")
-		}
-
-		// Update or add ANTHROPIC_API_KEY
-		if (envContent.includes("ANTHROPIC_API_KEY=")) {
-			envContent = envContent.replace(/ANTHROPIC_API_KEY=.*/, `ANTHROPIC_API_KEY=${apiKey}`)
-		} else {
-			envContent += `\nANTHROPIC_API_KEY=${apiKey}\n`
-		}
-
-		// Write updated .env file to workspace root
-		fs.writeFileSync(envPath, envContent, "utf-8")
-
-		// Also update src/.env if it exists (keeps Society Agent in sync)
-		if (fs.existsSync(srcEnvPath) && srcEnvPath !== envPath) {
-			let srcContent = fs.readFileSync(srcEnvPath, "utf-8")
-			if (srcContent.includes("ANTHROPIC_API_KEY=")) {
-				srcContent = srcContent.replace(/ANTHROPIC_API_KEY=.*/, `ANTHROPIC_API_KEY=${apiKey}`)
-			} else {
-				srcContent += `\nANTHROPIC_API_KEY=${apiKey}\n`
-			}
-			fs.writeFileSync(srcEnvPath, srcContent, "utf-8")
-		}
-
-		// Update process.env immediately
-		process.env.ANTHROPIC_API_KEY = apiKey
+		// Society Agent - stored encrypted in the secrets vault, never in .env
+		saveEnvSecret("ANTHROPIC_API_KEY", apiKey, { actor: req.authUser?.username || "api", purpose: "POST /api/config/api-key" })
+		// Society Agent end
 
-		log.info("API key saved to .env file")
+		log.info("API key saved to the secrets vault")
 
 		res.json({
 			success: true,
@@ -3155,6 +4457,62 @@ app.get("/api/config/providers", (req, res) => {
 })
 // Society Agent end
 
+// Society Agent start - secrets vault administration
+/**
+ * GET /api/vault - Master key ID and source, and the names of stored secrets (never their values)
+ */
+app.get("/api/vault", (req, res): void => {
+	try {
+		const vault = getSecretsVault()
+		if (!vault) {
+			res.status(503).json({ error: "Secrets vault not initialized" })
+			return
+		}
+		res.json({ keyId: vault.keyId, keySource: vault.keySource, secrets: vault.list() })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/vault/rotate - Generate a new master key and re-encrypt every secret
+ * Only when the key comes from a key file; with SOCIETY_MASTER_KEY the rotation is done through the environment (409).
+ */
+app.post("/api/vault/rotate", (req, res): void => {
+	try {
+		const vault = getSecretsVault()
+		if (!vault) {
+			res.status(503).json({ error: "Secrets vault not initialized" })
+			return
+		}
+		const result = vault.rotate({ actor: req.authUser?.username || "api", purpose: "POST /api/vault/rotate" })
+		io.emit("system-event", { type: "vault-key-rotated", keyId: result.keyId, timestamp: Date.now() })
+		res.json(result)
+	} catch (error) {
+		res.status(error instanceof VaultKeyError ? 409 : 500).json({ error: normalizeErrorMessage(error) })
+	}
+})
+
+/**
+ * GET /api/vault/audit - Vault access log, newest first
+ * Query: ?name=<secret name>&limit=<n> (default 200)
+ */
+app.get("/api/vault/audit", (req, res): void => {
+	try {
+		const vault = getSecretsVault()
+		if (!vault) {
+			res.status(503).json({ error: "Secrets vault not initialized" })
+			return
+		}
+		const name = typeof req.query.name === "string" ? req.query.name : undefined
+		const limit = Math.min(parseInt(req.query.limit as string) || 200, 5000)
+		res.json({ entries: vault.readAudit({ name, limit }) })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
 // Society Agent start - standalone settings API
 /**
  * GET /api/settings - Get standalone server settings
@@ -3162,32 +4520,36 @@ app.get("/api/config/providers", (req, res) => {
  */
 app.get("/api/settings", (req, res) => {
 	try {
-		const settings = standaloneSettings.get()
-		res.json({
-			provider: {
-				type: settings.provider.type,
-				model: settings.provider.model,
-				apiKeyConfigured: standaloneSettings.hasApiKey(),
-				apiKeyMasked: standaloneSettings.getMaskedApiKey(),
-			},
-			port: settings.port,
-			workspacePath: settings.workspacePath,
-			projectsDir: settings.projectsDir,
-			defaultMaxTokens: settings.defaultMaxTokens,
-			defaultTemperature: settings.defaultTemperature,
-			operatingProfile: settings.operatingProfile,
-			delegationStyle: settings.delegationStyle,
-			verificationStrictness: settings.verificationStrictness,
-			verboseLogging: settings.verboseLogging,
-			sessionTimeoutMinutes: settings.sessionTimeoutMinutes,
-			supportedProviders: standaloneSettings.getSupportedProviders(),
-		})
+		res.json({ ...publicSettings(), supportedProviders: standaloneSettings.getSupportedProviders() })
 	} catch (error) {
 		log.error("Error getting settings:", error)
 		res.status(500).json({ error: String(error) })
 	}
 })
 
+/** Society Agent - settings as returned by the API: the API key is only ever shown masked */
+function publicSettings() {
+	const settings = standaloneSettings.get()
+	return {
+		provider: {
+			type: settings.provider.type,
+			model: settings.provider.model,
+			apiKeyConfigured: standaloneSettings.hasApiKey(),
+			apiKeyMasked: standaloneSettings.getMaskedApiKey(),
+		},
+		port: settings.port,
+		workspacePath: settings.workspacePath,
+		projectsDir: settings.projectsDir,
+		defaultMaxTokens: settings.defaultMaxTokens,
+		defaultTemperature: settings.defaultTemperature,
+		operatingProfile: settings.operatingProfile,
+		delegationStyle: settings.delegationStyle,
+		verificationStrictness: settings.verificationStrictness,
+		verboseLogging: settings.verboseLogging,
+		sessionTimeoutMinutes: settings.sessionTimeoutMinutes,
+	}
+}
+
 /**
  * POST /api/settings - Update standalone server settings
  * Body: Partial<ServerSettings>
@@ -3243,7 +4605,7 @@ app.post("/api/settings", async (req, res): Promise<void> => {
 		res.json({
 			success: true,
 			message: "Settings saved. New configuration will be used immediately.",
-			settings: standaloneSettings.get(),
+			settings: publicSettings(), // Society Agent - never echo the API key
 		})
 	} catch (error) {
 		log.error("Error saving settings:", error)
@@ -4002,7 +5364,7 @@ app.post("/api/persistent-agents/:id/reset", (req, res): void => {
  */
 app.get("/api/projects", (req, res): void => {
 	try {
-		const projects = projectStore.getAll().map((p) => ({
+		const projects = projectStore.getAll().filter((p) => isProjectVisible(req.authUser, p.id)).map((p) => ({
 			...p,
 			agents: p.agents.map((a) => ({
 				...a,
@@ -4108,8 +5470,24 @@ app.post("/api/approvals/:requestId/resolve", (req, res): void => {
 			res.status(404).json({ error: "Approval request not found" })
 			return
 		}
+		// Society Agent start - budget overrides resume the paused agent's task
+		let budgetOverride
+		if (result.operation === "budget_override") {
+			const { breach, managedTaskId } = result.operationDetails.parameters || {}
+			if (resolution === "approved" && breach) {
+				const extraUsd = req.body.extraUsd !== undefined ? Number(req.body.extraUsd) : undefined
+				budgetOverride = costBudgets.grantOverride(breach, resolvedBy || req.authUser?.username || "human", extraUsd, result.id)
+				const task = managedTaskId ? projectStore.getManagedTask(result.projectId, managedTaskId) : undefined
+				if (task?.status === "blocked" && task.blockingReason?.type === "approval") {
+					projectStore.unblockManagedTask(result.projectId, managedTaskId, resolvedBy || "human", `Budget override of $${budgetOverride.extraUsd.toFixed(2)} approved`)
+				}
+			}
+			io.emit("system-event", { type: "budget-override-resolved", projectId: result.projectId, agentId: result.targetAgentId, resolution, override: budgetOverride, timestamp: Date.now() })
+		}
+		// Society Agent end
+		approvalWaiters.get(result.id)?.(resolution === "approved", permanent === true) // Society Agent - command policy approvals
 		io.emit("approval-resolved", { requestId: req.params.requestId, resolution })
-		res.json({ success: true, approval: result })
+		res.json({ success: true, approval: result, budgetOverride })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
@@ -4236,7 +5614,7 @@ app.get("/api/worker-leases", (req, res): void => {
 			}
 		}
 		
-		const allProjects = projectStore.getAll()
+		const allProjects = projectStore.getAll().filter((p) => isProjectVisible(req.authUser, p.id)) // Society Agent
 		const projectStats: ProjectLeaseStats[] = []
 		
 		let totalSessions = 0
@@ -4544,6 +5922,110 @@ app.delete("/api/projects/:id/agents/:agentId/activity", (req, res): void => {
 })
 // Society Agent end
 
+// Society Agent start - workspace checkpoint routes
+/** Resolve :id/:agentId to the checkpointed folder, or send a 404 */
+function checkpointRouteTarget(req: express.Request, res: express.Response): CheckpointTarget | null {
+	const project = projectStore.get(req.params.id)
+	if (!project) {
+		res.status(404).json({ error: "Project not found" })
+		return null
+	}
+	if (!project.agents.some((a) => a.id === req.params.agentId)) {
+		res.status(404).json({ error: "Agent not found" })
+		return null
+	}
+	return checkpointTarget(project.id, req.params.agentId)
+}
+
+/**
+ * GET /api/projects/:id/agents/:agentId/checkpoints - List checkpoints of the agent's folder (newest first)
+ * Query: ?taskId= to show only one task's checkpoints
+ */
+app.get("/api/projects/:id/agents/:agentId/checkpoints", (req, res): void => {
+	try {
+		const target = checkpointRouteTarget(req, res)
+		if (!target) return
+		const taskId = typeof req.query.taskId === "string" ? req.query.taskId : undefined
+		res.json({ agentId: target.agentId, checkpoints: checkpoints.list(target.projectId, target.agentId, { taskId, dir: target.dir }) })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/agents/:agentId/checkpoints - Take a checkpoint now
+ * Body: { label?, taskId? }
+ */
+app.post("/api/projects/:id/agents/:agentId/checkpoints", async (req, res): Promise<void> => {
+	try {
+		const target = checkpointRouteTarget(req, res)
+		if (!target) return
+		const { label, taskId } = req.body || {}
+		const checkpoint = await checkpoints.create(target, {
+			trigger: "manual",
+			label: typeof label === "string" && label.trim() ? label.trim() : "Manual checkpoint",
+			taskId: taskId || findActiveTaskId(target.projectId, req.params.agentId),
+		})
+		if (!checkpoint) {
+			res.status(404).json({ error: "Agent folder does not exist" })
+			return
+		}
+		io.emit("system-event", { type: "checkpoint-created", projectId: target.projectId, agentId: target.agentId, checkpoint, timestamp: Date.now() })
+		res.json(checkpoint)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/agents/:agentId/checkpoints/:checkpointId/diff - Changes since a checkpoint
+ * Query: ?to=<checkpointId> to compare two checkpoints instead of the checkpoint and the current folder
+ */
+app.get("/api/projects/:id/agents/:agentId/checkpoints/:checkpointId/diff", async (req, res): Promise<void> => {
+	try {
+		const target = checkpointRouteTarget(req, res)
+		if (!target) return
+		const to = typeof req.query.to === "string" && req.query.to ? req.query.to : undefined
+		for (const id of [req.params.checkpointId, to]) {
+			if (id && !checkpoints.get(target.projectId, target.agentId, id)) {
+				res.status(404).json({ error: `Checkpoint not found: ${id}` })
+				return
+			}
+		}
+		res.json(await checkpoints.diff(target, req.params.checkpointId, to))
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/agents/:agentId/checkpoints/:checkpointId/restore - Restore the folder to a checkpoint
+ * The current state is checkpointed first, so the restore can be undone.
+ */
+app.post("/api/projects/:id/agents/:agentId/checkpoints/:checkpointId/restore", async (req, res): Promise<void> => {
+	try {
+		const target = checkpointRouteTarget(req, res)
+		if (!target) return
+		if (!checkpoints.get(target.projectId, target.agentId, req.params.checkpointId)) {
+			res.status(404).json({ error: "Checkpoint not found" })
+			return
+		}
+		const result = await checkpoints.restore(target, req.params.checkpointId)
+		io.emit("system-event", {
+			type: "checkpoint-restored",
+			projectId: target.projectId,
+			agentId: target.agentId,
+			checkpointId: req.params.checkpointId,
+			backupId: result.backup?.id,
+			timestamp: Date.now(),
+		})
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
 /**
  * GET /api/projects/:id/git/log - Get git commit history for a project
  */
@@ -4796,6 +6278,19 @@ app.put("/api/projects/:id", (req, res): void => {
 			res.status(400).json({ error: "Invalid behaviorSettings.verificationStrictness" })
 			return
 		}
+		// Society Agent start - execution backend (admin only: it decides whether commands are sandboxed)
+		if (req.body.execution !== undefined) {
+			const executionError = validateExecutionSettings(req.body.execution)
+			if (executionError) {
+				res.status(400).json({ error: executionError })
+				return
+			}
+			if (!req.authUser || !roleAtLeast(req.authUser.role, "admin")) {
+				res.status(403).json({ error: "Requires admin role to change execution settings" })
+				return
+			}
+		}
+		// Society Agent end
 
 		const updated = projectStore.update(req.params.id, req.body)
 		if (!updated) {
@@ -4824,6 +6319,10 @@ app.delete("/api/projects/:id", (req, res): void => {
 			res.status(404).json({ error: "Project not found" })
 			return
 		}
+		costBudgets.removeProject(req.params.id) // Society Agent
+		commandPolicies.delete(req.params.id) // Society Agent
+		checkpoints.removeProject(req.params.id) // Society Agent
+		worktrees.removeProject(req.params.id).catch(() => undefined) // Society Agent
 		io.emit("system-event", { type: "project-deleted", projectId: req.params.id, timestamp: Date.now() })
 		res.json({ success: true })
 	} catch (error) {
@@ -4831,21 +6330,122 @@ app.delete("/api/projects/:id", (req, res): void => {
 	}
 })
 
+// Society Agent start - command allow/deny policies
 /**
- * POST /api/projects/:id/bootstrap - Bootstrap an existing project
- * Scans the project and generates FILES.md, PLAN.md, AGENTS.md
- * Body: { ownerAgentId?, overwrite?, scanTasks?, analyzeGit? }
+ * GET /api/projects/:id/command-policy - The project's command policy and the built-in rules
  */
-app.post("/api/projects/:id/bootstrap", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/command-policy", (req, res): void => {
 	try {
-		const project = projectStore.get(req.params.id)
-		if (!project) {
+		if (!projectStore.get(req.params.id)) {
 			res.status(404).json({ error: "Project not found" })
 			return
 		}
+		let policy = null
+		let error
+		try {
+			policy = commandPolicies.get(req.params.id) || null
+		} catch (e) {
+			error = normalizeErrorMessage(e)
+		}
+		res.json({ policy, error, defaultRules: DEFAULT_COMMAND_RULES })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-		const projectRoot = projectStore.projectDir(project.id)
-		const {
+/**
+ * PUT /api/projects/:id/command-policy - Replace the project's command policy (admin)
+ * Body: { defaultAction?, inheritDefaults?, rules: [...] }
+ */
+app.put("/api/projects/:id/command-policy", (req, res): void => {
+	try {
+		if (!req.authUser || !roleAtLeast(req.authUser.role, "admin")) {
+			res.status(403).json({ error: "Requires admin role to change the command policy" })
+			return
+		}
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		const validationError = validateCommandPolicy(req.body)
+		if (validationError) {
+			res.status(400).json({ error: validationError })
+			return
+		}
+		const { defaultAction, inheritDefaults, rules } = req.body
+		const policy = { defaultAction, inheritDefaults, rules }
+		commandPolicies.set(req.params.id, policy)
+		io.emit("system-event", { type: "command-policy-updated", projectId: req.params.id, timestamp: Date.now() })
+		res.json({ policy })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * DELETE /api/projects/:id/command-policy - Remove the project's policy (built-in rules still apply) (admin)
+ */
+app.delete("/api/projects/:id/command-policy", (req, res): void => {
+	try {
+		if (!req.authUser || !roleAtLeast(req.authUser.role, "admin")) {
+			res.status(403).json({ error: "Requires admin role to change the command policy" })
+			return
+		}
+		const deleted = commandPolicies.delete(req.params.id)
+		if (deleted) io.emit("system-event", { type: "command-policy-updated", projectId: req.params.id, timestamp: Date.now() })
+		res.json({ success: deleted })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/command-policy/check - Dry-run a command against the policy
+ * Body: { command, policy? } (policy tests an unsaved draft instead of the saved one)
+ */
+app.post("/api/projects/:id/command-policy/check", (req, res): void => {
+	try {
+		const { command, policy } = req.body || {}
+		if (!command || typeof command !== "string") {
+			res.status(400).json({ error: "command is required" })
+			return
+		}
+		if (policy !== undefined) {
+			const validationError = validateCommandPolicy(policy)
+			if (validationError) {
+				res.status(400).json({ error: validationError })
+				return
+			}
+		}
+		const decision = evaluateCommand(command, policy ?? commandPolicies.get(req.params.id))
+		res.json({
+			action: decision.action,
+			ruleId: decision.rule?.id,
+			reason: decision.reason,
+			segment: decision.segment,
+			commands: parseCommandLine(command).map((c) => c.argv),
+		})
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+/**
+ * POST /api/projects/:id/bootstrap - Bootstrap an existing project
+ * Scans the project and generates FILES.md, PLAN.md, AGENTS.md
+ * Body: { ownerAgentId?, overwrite?, scanTasks?, analyzeGit? }
+ */
+app.post("/api/projects/:id/bootstrap", async (req, res): Promise<void> => {
+	try {
+		const project = projectStore.get(req.params.id)
+		if (!project) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+
+		const projectRoot = projectStore.projectDir(project.id)
+		const {
 			ownerAgentId = project.agents[0]?.id ?? "architect",
 			overwrite = false,
 			scanTasks = true,
@@ -4867,6 +6467,13 @@ app.post("/api/projects/:id/bootstrap", async (req, res): Promise<void> => {
 
 		log.info(`[Bootstrap] Complete: wrote ${written.length} files, skipped ${skipped.length}`)
 
+		// Society Agent start - existing ADRs seed the planning log
+		let adrImport: AdrImportResult | null = null
+		if (result.adrRecords?.length) {
+			adrImport = await projectStore.importAdrDecisions(project.id, { records: result.adrRecords, importedBy: "bootstrap" })
+		}
+		// Society Agent end
+
 		// If PLAN.md was skipped but we have detected tasks, append them via sync
 		let tasksAddedToPlan = 0
 		if (skipped.includes("PLAN.md") && result.detectedTasks.length > 0) {
@@ -4897,6 +6504,7 @@ app.post("/api/projects/:id/bootstrap", async (req, res): Promise<void> => {
 			detectedTasksCount: result.detectedTasks.length,
 			tasksAddedToPlan,
 			gitSummary: result.gitSummary,
+			adrImport, // Society Agent - ADRs imported as decisions
 			filesWritten: written,
 			filesSkipped: skipped,
 		})
@@ -5098,11 +6706,11 @@ app.get("/api/projects/:id/bootstrap-status", async (req, res): Promise<void> =>
 
 /**
  * POST /api/projects/:id/managed-tasks - Create a managed task with stable ID
- * Body: { title, description, createdBy, priority?, parentTaskId?, dependsOn?, context?, prefixOverride? }
+ * Body: { title, description, createdBy, priority?, estimatedHours?, storyPoints?, parentTaskId?, dependsOn?, context?, prefixOverride? }
  */
 app.post("/api/projects/:id/managed-tasks", (req, res): void => {
 	try {
-		const { title, description, createdBy, priority, parentTaskId, dependsOn, context, prefixOverride } = req.body
+		const { title, description, createdBy, priority, estimatedHours, storyPoints, parentTaskId, dependsOn, context, prefixOverride } = req.body
 		
 		if (!title || !description || !createdBy) {
 			res.status(400).json({ error: "title, description, and createdBy are required" })
@@ -5114,6 +6722,8 @@ app.post("/api/projects/:id/managed-tasks", (req, res): void => {
 			description,
 			createdBy,
 			priority,
+			estimatedHours,
+			storyPoints,
 			parentTaskId,
 			dependsOn,
 			context,
@@ -5161,6 +6771,104 @@ app.get("/api/projects/:id/managed-tasks", (req, res): void => {
 	}
 })
 
+// Society Agent start - dependency graph (registered before /:taskId)
+/**
+ * GET /api/projects/:id/managed-tasks/graph - Dependency graph with cycles, critical path and slack
+ * Query: ?format=mermaid|dot for the rendered graph only
+ */
+app.get("/api/projects/:id/managed-tasks/graph", (req, res): void => {
+	try {
+		const graph = projectStore.getManagedTaskGraph(req.params.id)
+		if (!graph) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		if (req.query.format === "mermaid" || req.query.format === "dot") {
+			res.setHeader("Content-Type", "text/plain; charset=utf-8")
+			res.send(req.query.format === "mermaid" ? taskGraphToMermaid(graph) : taskGraphToDot(graph))
+			return
+		}
+		res.json({ ...graph, mermaid: taskGraphToMermaid(graph), dot: taskGraphToDot(graph) })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+// Society Agent start - estimates, time tracking, burndown and velocity
+/** Validate ?unit= for burndown and velocity (undefined picks a default) */
+function sizeUnitFromQuery(value: unknown): SizeUnit | undefined {
+	if (value === undefined || value === "") return undefined
+	if (!SIZE_UNITS.includes(value as SizeUnit)) throw new Error(`unit must be one of: ${SIZE_UNITS.join(", ")}`)
+	return value as SizeUnit
+}
+
+/**
+ * GET /api/projects/:id/metrics/burndown - Remaining scope per day
+ * Query: ?unit=points|hours|tasks&from=&to=&agentId= (from-to at most MAX_BURNDOWN_DAYS days)
+ */
+app.get("/api/projects/:id/metrics/burndown", (req, res): void => {
+	let options: { unit?: SizeUnit; from?: number; to?: number }
+	try {
+		options = { unit: sizeUnitFromQuery(req.query.unit), from: parseUsageDate(req.query.from), to: parseUsageDate(req.query.to) }
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+		return
+	}
+	if (options.from !== undefined && (options.to ?? Date.now()) - options.from > MAX_BURNDOWN_DAYS * 24 * 3_600_000) {
+		res.status(400).json({ error: `from and to can be at most ${MAX_BURNDOWN_DAYS} days apart` })
+		return
+	}
+	try {
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		let tasks = projectStore.getManagedTasks(req.params.id)
+		if (req.query.agentId) tasks = tasks.filter((t) => t.assignedTo === req.query.agentId)
+		res.json(buildBurndown(tasks, options))
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/metrics/velocity - Completed scope per period and per agent
+ * Query: ?unit=points|hours|tasks&period=week|day&count=&agentId= (count at most MAX_VELOCITY_PERIODS)
+ */
+app.get("/api/projects/:id/metrics/velocity", (req, res): void => {
+	let unit: SizeUnit | undefined
+	try {
+		unit = sizeUnitFromQuery(req.query.unit)
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+		return
+	}
+	const period = (req.query.period as string) || "week"
+	if (period !== "week" && period !== "day") {
+		res.status(400).json({ error: "period must be week or day" })
+		return
+	}
+	const count = req.query.count === undefined || req.query.count === "" ? undefined : Number(req.query.count)
+	if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_VELOCITY_PERIODS[period])) {
+		res.status(400).json({ error: `count must be a whole number from 1 to ${MAX_VELOCITY_PERIODS[period]} for period ${period}` })
+		return
+	}
+	try {
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		let tasks = projectStore.getManagedTasks(req.params.id)
+		if (req.query.agentId) tasks = tasks.filter((t) => t.assignedTo === req.query.agentId)
+		const usage = usageStore.query({ projectId: req.params.id })
+		res.json(buildVelocity(tasks, usage, { unit, period, count }))
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
 /**
  * GET /api/projects/:id/managed-tasks/:taskId - Get a specific managed task
  */
@@ -5177,6 +6885,50 @@ app.get("/api/projects/:id/managed-tasks/:taskId", (req, res): void => {
 	}
 })
 
+// Society Agent start - estimates and time tracking
+/**
+ * PUT /api/projects/:id/managed-tasks/:taskId/estimate - Set a task's estimate
+ * Body: { storyPoints?, estimatedHours? } (null clears)
+ */
+app.put("/api/projects/:id/managed-tasks/:taskId/estimate", (req, res): void => {
+	try {
+		let task: ReturnType<typeof projectStore.setManagedTaskEstimate>
+		try {
+			task = projectStore.setManagedTaskEstimate(req.params.id, req.params.taskId, {
+				storyPoints: req.body.storyPoints,
+				estimatedHours: req.body.estimatedHours,
+			})
+		} catch (error) {
+			res.status(400).json({ error: error instanceof Error ? error.message : String(error) })
+			return
+		}
+		if (!task) {
+			res.status(404).json({ error: "Task not found" })
+			return
+		}
+		res.json(task)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/managed-tasks/:taskId/metrics - Time in state, cycle time and token/cost usage
+ */
+app.get("/api/projects/:id/managed-tasks/:taskId/metrics", (req, res): void => {
+	try {
+		const task = projectStore.getManagedTask(req.params.id, req.params.taskId)
+		if (!task) {
+			res.status(404).json({ error: "Task not found" })
+			return
+		}
+		res.json(buildTaskMetrics(task, usageStore.query({ projectId: req.params.id, taskId: task.taskId })))
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
 /**
  * POST /api/projects/:id/managed-tasks/:taskId/transition - Transition task status
  * Body: { status, agentId, reason?, metadata? }
@@ -5338,6 +7090,15 @@ app.post("/api/projects/:id/managed-tasks/:taskId/submit-review", (req, res): vo
 			return
 		}
 
+		// Society Agent - work done in a worktree is verified and merged before review
+		if (worktrees.get(req.params.id, agentId)) {
+			try {
+				queueAgentMerge(req.params.id, agentId, task.taskId)
+			} catch (error) {
+				log.warn(`[MergeQueue] ${normalizeErrorMessage(error)}`)
+			}
+		}
+
 		res.json(task)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
@@ -5370,495 +7131,640 @@ app.post("/api/projects/:id/managed-tasks/:taskId/approve", (req, res): void =>
 	}
 })
 
+// Society Agent start - roll a task's work back
 /**
- * POST /api/projects/:id/managed-tasks/:taskId/verify - Run verification and verify task
- * Body: { agentId, quickMode? }
+ * POST /api/projects/:id/managed-tasks/:taskId/rollback - Restore the assignee's folder to the task-start checkpoint
+ * Body: { reviewerAgentId?, feedback? }
+ * A task in review is sent back to in_progress for rework, so a rejected review is one call.
  */
-app.post("/api/projects/:id/managed-tasks/:taskId/verify", async (req, res): Promise<void> => {
+app.post("/api/projects/:id/managed-tasks/:taskId/rollback", async (req, res): Promise<void> => {
 	try {
-		const { agentId, quickMode } = req.body
-		
-		if (!agentId) {
-			res.status(400).json({ error: "agentId is required" })
+		const { reviewerAgentId, feedback } = req.body || {}
+		const task = projectStore.getManagedTask(req.params.id, req.params.taskId)
+		if (!task) {
+			res.status(404).json({ error: "Task not found" })
 			return
 		}
 
-		// Run verification
-		const verification = await projectStore.runTaskVerification(req.params.id, req.params.taskId, { quickMode })
-		if (!verification) {
-			res.status(404).json({ error: "Task not found" })
+		// Society Agent start - restore the folder the assignee works in (its worktree in git projects)
+		const owner = task.assignedTo ? checkpointTarget(req.params.id, task.assignedTo) : undefined
+		const start =
+			(owner && checkpoints.findTaskStart(req.params.id, task.taskId, owner.agentId, owner.dir)) ||
+			checkpoints.findTaskStart(req.params.id, task.taskId)
+		if (!start) {
+			res.status(404).json({ error: "No task-start checkpoint for this task" })
 			return
 		}
 
-		// If verification passed, mark as verified
-		if (verification.allPassed) {
-			const task = await projectStore.verifyManagedTask(req.params.id, req.params.taskId, agentId, verification)
-			if (task) {
-				res.json({ task, verification })
-				return
-			}
+		const target = { projectId: req.params.id, agentId: start.agentId, dir: start.dir ?? checkpointTarget(req.params.id, start.agentId).dir }
+		// Society Agent end
+		const result = await checkpoints.restore(target, start.id, `Rolled back task ${task.taskId}`)
+
+		let updated = task
+		if (task.status === "review") {
+			updated =
+				projectStore.transitionManagedTask(req.params.id, task.taskId, "in_progress", reviewerAgentId || "human", {
+					reason: `Rework needed: ${feedback || "changes rolled back"}`,
+				}) || task
 		}
 
-		// Return verification result even if not passed
-		res.json({ verification, message: verification.allPassed ? "Verified" : "Verification failed" })
+		io.emit("system-event", {
+			type: "task-rolled-back",
+			projectId: req.params.id,
+			taskId: task.taskId,
+			agentId: start.agentId,
+			checkpointId: start.id,
+			backupId: result.backup?.id,
+			timestamp: Date.now(),
+		})
+		res.json({ task: updated, ...result })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
+// Society Agent end
+
+// Society Agent start - pull/merge requests for task branches
+const pullRequestMonitor = new PullRequestMonitor(
+	projectStore,
+	(pullRequest) => {
+		const gitLoader = getGitLoader()
+		if (!gitLoader) throw new Error("Git loader not initialized")
+		return gitLoader.refreshPullRequest(pullRequest)
+	},
+	{
+		onChange: (projectId, task, previous) => {
+			io.emit("system-event", {
+				type: "pull-request-updated",
+				projectId,
+				taskId: task.taskId,
+				url: task.pullRequest?.url,
+				state: task.pullRequest?.state,
+				previousState: previous.state,
+				taskStatus: task.status,
+				timestamp: Date.now(),
+			})
+		},
+	},
+)
 
 /**
- * GET /api/projects/:id/managed-tasks/startable - Get tasks ready to start
+ * POST /api/projects/:id/managed-tasks/:taskId/pull-request - Open a GitHub PR / GitLab MR for the task's branch
+ * Body: { credentialId?, sourceBranch?, targetBranch?, provider?: "github"|"gitlab", draft?, verify? }
+ * The branch must already be pushed. With verify, verification runs first when the task has no result yet.
  */
-app.get("/api/projects/:id/managed-tasks/startable", (req, res): void => {
+app.post("/api/projects/:id/managed-tasks/:taskId/pull-request", async (req, res): Promise<void> => {
 	try {
-		const tasks = projectStore.getStartableTasks(req.params.id)
-		res.json(tasks)
+		const { credentialId, sourceBranch, targetBranch, provider, draft, verify } = req.body || {}
+		const project = projectStore.get(req.params.id)
+		const task = projectStore.getManagedTask(req.params.id, req.params.taskId)
+		if (!project || !task) {
+			res.status(404).json({ error: "Task not found" })
+			return
+		}
+		if (task.pullRequest?.state === "open") {
+			res.status(409).json({ error: `Task already has an open pull request: ${task.pullRequest.url}` })
+			return
+		}
+		if (provider !== undefined && !PULL_REQUEST_PROVIDERS.includes(provider)) {
+			res.status(400).json({ error: `provider must be one of: ${PULL_REQUEST_PROVIDERS.join(", ")}` })
+			return
+		}
+
+		const gitLoader = getGitLoader()
+		if (!gitLoader) {
+			res.status(500).json({ error: "Git loader not initialized" })
+			return
+		}
+
+		const verification =
+			task.verification ?? (verify ? await projectStore.runTaskVerification(req.params.id, task.taskId) : undefined)
+		const result = await gitLoader.openPullRequest(req.params.id, task, {
+			credentialId,
+			sourceBranch,
+			targetBranch: targetBranch || project.gitConfig?.defaultRef,
+			provider,
+			verification,
+			draft: Boolean(draft),
+		})
+		if (!result.success || !result.pullRequest) {
+			res.status(400).json({ error: result.message })
+			return
+		}
+
+		const updated = projectStore.recordManagedTaskPullRequest(req.params.id, task.taskId, result.pullRequest)
+		io.emit("system-event", {
+			type: "pull-request-opened",
+			projectId: req.params.id,
+			taskId: task.taskId,
+			url: result.pullRequest.url,
+			timestamp: Date.now(),
+		})
+		res.json({ task: updated, pullRequest: result.pullRequest })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * GET /api/projects/:id/managed-tasks/blocked - Get blocked tasks with reasons
+ * POST /api/projects/:id/managed-tasks/:taskId/pull-request/refresh - Check the task's pull request now
+ * Returns the updated task; a merged pull request moves it to done.
  */
-app.get("/api/projects/:id/managed-tasks/blocked", (req, res): void => {
+app.post("/api/projects/:id/managed-tasks/:taskId/pull-request/refresh", async (req, res): Promise<void> => {
 	try {
-		const blocked = projectStore.getBlockedTasks(req.params.id)
-		res.json(blocked)
+		const task = projectStore.getManagedTask(req.params.id, req.params.taskId)
+		if (!task?.pullRequest) {
+			res.status(404).json({ error: task ? "Task has no pull request" : "Task not found" })
+			return
+		}
+		const updated = await pullRequestMonitor.checkTask(req.params.id, task)
+		res.json({ task: updated, pullRequest: updated?.pullRequest })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
+// Society Agent end
+
+// Society Agent start - external issue trackers (GitHub Issues, GitLab, Jira)
+const issueTrackers = new IssueTrackerStore(path.join(getOutputDir(), ".society", "issue-trackers"))
+const issueSync = new IssueSyncService(issueTrackers, projectStore, {
+	token: (tracker) => {
+		const gitLoader = getGitLoader()
+		if (!gitLoader) throw new Error("Git loader not initialized")
+		const host = tracker.host || (tracker.provider === "gitlab" ? "gitlab.com" : "github.com")
+		const token = gitLoader.apiToken(host, tracker.credentialId, "sync issues")
+		if ("error" in token) throw new Error(token.error)
+		return token.secret
+	},
+	onSync: (projectId, result) => {
+		if (result.created.length + result.updated.length + result.pushed.length + result.conflicts.length === 0) return
+		io.emit("system-event", { type: "issue-sync", projectId, ...result, timestamp: Date.now() })
+	},
+	onConflict: (projectId, task, conflict) => {
+		io.emit("system-event", {
+			type: "issue-conflict",
+			projectId,
+			taskId: task.taskId,
+			url: task.externalIssue?.url,
+			...conflict,
+			timestamp: Date.now(),
+		})
+	},
+})
+projectStore.onManagedTaskTransition = (projectId, task, transition) => {
+	issueSync.handleTransition(projectId, task, transition).catch((err) => {
+		log.warn(`[IssueSync] Could not update ${task.externalIssue?.url}: ${err instanceof Error ? err.message : err}`)
+	})
+}
+
+/** Tracker fields a client may set (id, createdAt and sync state are server-managed) */
+function issueTrackerFields(body: any): Omit<IssueTracker, "id" | "createdAt" | "autoSync" | "lastSyncAt" | "lastError"> & { autoSync?: boolean } {
+	const { provider, repository, host, credentialId, username, labels, labelPriority, assigneeAgents, statusMap, autoSync } = body
+	return {
+		provider,
+		repository: typeof repository === "string" ? repository.trim() : repository,
+		host: host || undefined,
+		credentialId: credentialId || undefined,
+		username: username || undefined,
+		labels,
+		labelPriority,
+		assigneeAgents,
+		statusMap,
+		autoSync: autoSync === undefined ? undefined : Boolean(autoSync),
+	}
+}
 
 /**
- * POST /api/projects/:id/update-plan - Regenerate PLAN.md from managed tasks
+ * GET /api/projects/:id/issue-trackers - Trackers connected to the project
  */
-app.post("/api/projects/:id/update-plan", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/issue-trackers", (req, res): void => {
 	try {
-		await projectStore.updateProjectPlan(req.params.id)
-		res.json({ success: true })
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		res.json({ trackers: issueTrackers.list(req.params.id) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
-// ============================================================================
-// FILE OWNERSHIP API (Proposal 4)
-// ============================================================================
-
 /**
- * GET /api/projects/:id/files/check - Check if agent can modify a file
- * Query: ?agentId=xxx&path=src/file.ts
+ * POST /api/projects/:id/issue-trackers - Connect a tracker
+ * Body: { provider: "github"|"gitlab"|"jira", repository, host?, credentialId?, username?, labels?,
+ *         labelPriority?, assigneeAgents?, statusMap?, autoSync? }
  */
-app.get("/api/projects/:id/files/check", async (req, res): Promise<void> => {
+app.post("/api/projects/:id/issue-trackers", (req, res): void => {
 	try {
-		const { agentId, path: filePath } = req.query
-		
-		if (!agentId || !filePath) {
-			res.status(400).json({ error: "agentId and path query parameters are required" })
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
-
-		const result = await projectStore.checkFileAccess(req.params.id, String(agentId), String(filePath))
-		res.json(result)
+		const fields = issueTrackerFields(req.body || {})
+		const error = validateIssueTracker(fields)
+		if (error) {
+			res.status(400).json({ error })
+			return
+		}
+		res.json({ tracker: issueTrackers.add(req.params.id, fields) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/files/register - Register file ownership
- * Body: { filePath, owner, description?, taskId? }
+ * PUT /api/projects/:id/issue-trackers/:trackerId - Change a tracker (same body as POST, fields optional)
  */
-app.post("/api/projects/:id/files/register", async (req, res): Promise<void> => {
+app.put("/api/projects/:id/issue-trackers/:trackerId", (req, res): void => {
 	try {
-		const { filePath, owner, description, taskId } = req.body
-		
-		if (!filePath || !owner) {
-			res.status(400).json({ error: "filePath and owner are required" })
+		const existing = issueTrackers.get(req.params.id, req.params.trackerId)
+		if (!existing) {
+			res.status(404).json({ error: "Issue tracker not found" })
 			return
 		}
-
-		const ownership = await projectStore.registerFile(req.params.id, filePath, owner, { description, taskId })
-
-		if (!ownership) {
-			res.status(404).json({ error: "Project not found" })
+		const changes = Object.fromEntries(Object.entries(issueTrackerFields(req.body || {})).filter(([key]) => key in (req.body || {})))
+		const error = validateIssueTracker({ ...existing, ...changes })
+		if (error) {
+			res.status(400).json({ error })
 			return
 		}
-
-		res.json(ownership)
+		res.json({ tracker: issueTrackers.update(req.params.id, req.params.trackerId, changes) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/files/register-batch - Register multiple files
- * Body: { filePaths: string[], owner, taskId? }
+ * DELETE /api/projects/:id/issue-trackers/:trackerId - Disconnect a tracker (imported tasks are kept)
  */
-app.post("/api/projects/:id/files/register-batch", async (req, res): Promise<void> => {
+app.delete("/api/projects/:id/issue-trackers/:trackerId", (req, res): void => {
 	try {
-		const { filePaths, owner, taskId } = req.body
-		
-		if (!filePaths?.length || !owner) {
-			res.status(400).json({ error: "filePaths (array) and owner are required" })
+		if (!issueTrackers.remove(req.params.id, req.params.trackerId)) {
+			res.status(404).json({ error: "Issue tracker not found" })
 			return
 		}
-
-		const ownerships = await projectStore.registerFiles(req.params.id, filePaths, owner, taskId)
-		res.json({ registered: ownerships.length, files: ownerships })
+		res.json({ success: true })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * GET /api/projects/:id/files/owned - Get files owned by an agent
- * Query: ?agentId=xxx
+ * POST /api/projects/:id/issue-trackers/:trackerId/sync - Import new issues and sync linked tasks now
  */
-app.get("/api/projects/:id/files/owned", async (req, res): Promise<void> => {
+app.post("/api/projects/:id/issue-trackers/:trackerId/sync", async (req, res): Promise<void> => {
 	try {
-		const { agentId } = req.query
-		
-		if (!agentId) {
-			res.status(400).json({ error: "agentId query parameter is required" })
+		if (!issueTrackers.get(req.params.id, req.params.trackerId)) {
+			res.status(404).json({ error: "Issue tracker not found" })
 			return
 		}
-
-		const files = await projectStore.getAgentFiles(req.params.id, String(agentId))
-		res.json(files)
+		res.json(await issueSync.sync(req.params.id, req.params.trackerId))
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/files/handoff/request - Request file handoff
- * Body: { filePath, toAgentId, reason, taskId? }
+ * GET /api/projects/:id/issue-conflicts - Linked tasks with fields edited on both sides
  */
-app.post("/api/projects/:id/files/handoff/request", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/issue-conflicts", (req, res): void => {
 	try {
-		const { filePath, toAgentId, reason, taskId } = req.body
-		
-		if (!filePath || !toAgentId || !reason) {
-			res.status(400).json({ error: "filePath, toAgentId, and reason are required" })
-			return
-		}
-
-		const handoff = await projectStore.requestFileHandoff(req.params.id, filePath, toAgentId, reason, taskId)
-
-		if (!handoff) {
-			res.status(400).json({ error: "File not registered or project not found" })
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
-
-		res.json(handoff)
+		const conflicts = projectStore
+			.getManagedTasks(req.params.id)
+			.filter((t) => t.externalIssue?.conflicts?.length)
+			.map((t) => ({ taskId: t.taskId, title: t.title, url: t.externalIssue!.url, conflicts: t.externalIssue!.conflicts }))
+		res.json({ conflicts })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/files/handoff/:handoffId/approve - Approve handoff
- * Body: { approverId }
+ * POST /api/projects/:id/managed-tasks/:taskId/issue/resolve - Settle a sync conflict
+ * Body: { field: "title"|"description"|"priority"|"state", use: "local"|"remote" }
  */
-app.post("/api/projects/:id/files/handoff/:handoffId/approve", async (req, res): Promise<void> => {
+app.post("/api/projects/:id/managed-tasks/:taskId/issue/resolve", async (req, res): Promise<void> => {
 	try {
-		const { approverId } = req.body
-		
-		if (!approverId) {
-			res.status(400).json({ error: "approverId is required" })
+		const { field, use } = req.body || {}
+		const task = projectStore.getManagedTask(req.params.id, req.params.taskId)
+		if (!task?.externalIssue) {
+			res.status(404).json({ error: task ? "Task is not linked to an issue" : "Task not found" })
 			return
 		}
-
-		const handoff = await projectStore.approveFileHandoff(req.params.id, req.params.handoffId, approverId)
-
-		if (!handoff) {
-			res.status(400).json({ error: "Handoff not found or already resolved" })
+		if (!ISSUE_SYNC_FIELDS.includes(field) || (use !== "local" && use !== "remote")) {
+			res.status(400).json({ error: `field must be one of: ${ISSUE_SYNC_FIELDS.join(", ")}; use must be "local" or "remote"` })
 			return
 		}
-
-		res.json(handoff)
+		if (!task.externalIssue.conflicts?.some((c) => c.field === field)) {
+			res.status(400).json({ error: `No ${field} conflict on ${task.taskId}` })
+			return
+		}
+		res.json({ task: await issueSync.resolveConflict(req.params.id, task.taskId, field, use) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
+// Society Agent end
+
+// Society Agent start - typed inter-agent messages
+const RESPONSE_STATES: ResponseState[] = ["awaiting", "answered", "expired", "not_required"]
 
 /**
- * POST /api/projects/:id/files/handoff/:handoffId/deny - Deny handoff
- * Body: { approverId, reason }
+ * GET /api/projects/:id/messages - Agent-to-agent messages, oldest first
+ * Query: ?agentId=xxx&taskId=T-...&response=awaiting|answered|expired|not_required&limit=N
  */
-app.post("/api/projects/:id/files/handoff/:handoffId/deny", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/messages", (req, res): void => {
 	try {
-		const { approverId, reason } = req.body
-		
-		if (!approverId || !reason) {
-			res.status(400).json({ error: "approverId and reason are required" })
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
-
-		const handoff = await projectStore.denyFileHandoff(req.params.id, req.params.handoffId, approverId, reason)
-
-		if (!handoff) {
-			res.status(400).json({ error: "Handoff not found or already resolved" })
+		const { agentId, taskId, response, limit } = req.query
+		if (response !== undefined && !RESPONSE_STATES.includes(String(response) as ResponseState)) {
+			res.status(400).json({ error: `response must be one of: ${RESPONSE_STATES.join(", ")}` })
 			return
 		}
-
-		res.json(handoff)
+		const messages = messageLog.list(req.params.id, {
+			agentId: agentId ? String(agentId) : undefined,
+			taskId: taskId ? String(taskId) : undefined,
+			response: response as ResponseState | undefined,
+			limit: limit ? Math.max(1, Number(limit) || 0) : undefined,
+		})
+		res.json({ messages })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/files/handoff/:handoffId/complete - Complete approved handoff
+ * GET /api/projects/:id/messages/:messageId - One message with the messages that answered it
  */
-app.post("/api/projects/:id/files/handoff/:handoffId/complete", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/messages/:messageId", (req, res): void => {
 	try {
-		const ownership = await projectStore.completeFileHandoff(req.params.id, req.params.handoffId)
-
-		if (!ownership) {
-			res.status(400).json({ error: "Handoff not found or not approved" })
+		const entry = messageLog.get(req.params.id, req.params.messageId)
+		if (!entry) {
+			res.status(404).json({ error: "Message not found" })
 			return
 		}
-
-		res.json(ownership)
+		const responses = (entry.responses ?? []).map((id) => messageLog.get(req.params.id, id)).filter(Boolean)
+		res.json({ ...entry, responses })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
+/** Thread index over a project's messages and its agents' activity logs */
+function buildThreadIndex(project: { id: string; folder: string; agents: Array<{ id: string; homeFolder?: string }> }): MessageThreadIndex {
+	const activity = project.agents.flatMap((agent) =>
+		agentActivityLogger.readLog(project.folder, agent.homeFolder || "/", agent.id, 2000).filter((event) => event.correlationId),
+	)
+	return new MessageThreadIndex(messageLog.list(project.id), activity)
+}
+
 /**
- * GET /api/projects/:id/files/handoffs/pending - Get pending handoffs for an agent
- * Query: ?agentId=xxx
+ * GET /api/projects/:id/threads - Conversations across agents, most recently active first
+ * Query: ?taskId=T-...&agentId=xxx
  */
-app.get("/api/projects/:id/files/handoffs/pending", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/threads", (req, res): void => {
 	try {
-		const { agentId } = req.query
-		
-		if (!agentId) {
-			res.status(400).json({ error: "agentId query parameter is required" })
+		const project = projectStore.get(req.params.id)
+		if (!project) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
-
-		const handoffs = await projectStore.getAgentPendingHandoffs(req.params.id, String(agentId))
-		res.json(handoffs)
+		const { taskId, agentId } = req.query
+		const threads = buildThreadIndex(project).threads({
+			taskId: taskId ? String(taskId) : undefined,
+			agentId: agentId ? String(agentId) : undefined,
+		})
+		res.json({ threads })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/files/update-registry - Regenerate FILES.md
+ * GET /api/projects/:id/threads/:threadId - One conversation's timeline
+ * The thread ID may be any message in it.
  */
-app.post("/api/projects/:id/files/update-registry", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/threads/:threadId", (req, res): void => {
 	try {
-		await projectStore.updateFilesRegistry(req.params.id)
-		res.json({ success: true })
+		const project = projectStore.get(req.params.id)
+		if (!project) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		const index = buildThreadIndex(project)
+		const threadId = index.threadId(req.params.threadId)
+		const thread = threadId && index.thread(threadId)
+		if (!thread) {
+			res.status(404).json({ error: "Thread not found" })
+			return
+		}
+		res.json(thread)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
+// Society Agent end
 
-// ============================================================================
-// PLANNING LOG API (Proposal 3)
-// ============================================================================
+// Society Agent start - message broker administration
+const QUEUE_STATES = ["ready", "in_flight", "dead"] as const
 
 /**
- * POST /api/projects/:id/decisions - Create a new decision
- * Body: { title, category, context, options[], chosenOptionId, decision, rationale, consequences?, relatedTasks?, relatedDecisions?, decidedBy }
+ * GET /api/queues - Every inbox queue ("projectId:agentId") with ready, in-flight and dead-letter counts (admin)
  */
-app.post("/api/projects/:id/decisions", async (req, res): Promise<void> => {
+app.get("/api/queues", (req, res): void => {
 	try {
-		const decision = await projectStore.createDecision(req.params.id, req.body)
-		if (!decision) {
-			res.status(404).json({ error: "Project not found" })
-			return
-		}
-		io.emit("decision-created", { projectId: req.params.id, decision })
-		res.json(decision)
+		res.json({ queues: inboxBroker.list() })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/decisions/propose - Propose a decision for review
- * Body: { title, category, context, options[], recommendedOptionId?, decidedBy, relatedTasks? }
+ * GET /api/queues/:queue - One queue's messages in delivery order (admin)
+ * Query: ?state=ready|in_flight|dead&limit=100
  */
-app.post("/api/projects/:id/decisions/propose", async (req, res): Promise<void> => {
+app.get("/api/queues/:queue", (req, res): void => {
 	try {
-		const decision = await projectStore.proposeDecision(req.params.id, req.body)
-		if (!decision) {
-			res.status(404).json({ error: "Project not found" })
+		const state = req.query.state ? String(req.query.state) : undefined
+		if (state && !QUEUE_STATES.includes(state as (typeof QUEUE_STATES)[number])) {
+			res.status(400).json({ error: `state must be one of ${QUEUE_STATES.join(", ")}` })
 			return
 		}
-		io.emit("decision-created", { projectId: req.params.id, decision })
-		res.json(decision)
+		const limit = Math.max(1, Number(req.query.limit) || 100)
+		const messages = inboxBroker.messages(req.params.queue, state as (typeof QUEUE_STATES)[number] | undefined)
+		res.json({ ...inboxBroker.stats(req.params.queue), messages: messages.slice(0, limit) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/decisions/:decisionId/accept - Accept a proposed decision
- * Body: { chosenOptionId, decision, rationale, consequences?, acceptedBy }
+ * POST /api/queues/:queue/replay - Put dead-lettered messages back in the queue (admin)
+ * Body: { ids?: string[] } (default: every dead-lettered message)
  */
-app.post("/api/projects/:id/decisions/:decisionId/accept", async (req, res): Promise<void> => {
+app.post("/api/queues/:queue/replay", (req, res): void => {
 	try {
-		const decision = await projectStore.acceptPlanningDecision(
-			req.params.id,
-			req.params.decisionId,
-			req.body
-		)
-		if (!decision) {
-			res.status(404).json({ error: "Decision not found or not in proposed status" })
+		const { ids } = req.body || {}
+		if (ids !== undefined && !Array.isArray(ids)) {
+			res.status(400).json({ error: "ids must be an array of message IDs" })
 			return
 		}
-		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "accepted", decision })
-		res.json(decision)
+		const replayed = inboxBroker.replay(req.params.queue, ids?.map(String))
+		io.emit("system-event", { type: "queue-replayed", queue: req.params.queue, replayed, timestamp: Date.now() })
+		res.json({ replayed, stats: inboxBroker.stats(req.params.queue) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/decisions/:decisionId/implement - Mark decision as implemented
- * Body: { implementedBy }
+ * DELETE /api/queues/:queue - Purge a queue (admin)
+ * Query: ?state=ready|in_flight|dead (default: every message)
  */
-app.post("/api/projects/:id/decisions/:decisionId/implement", async (req, res): Promise<void> => {
+app.delete("/api/queues/:queue", (req, res): void => {
 	try {
-		const { implementedBy } = req.body
-		if (!implementedBy) {
-			res.status(400).json({ error: "implementedBy is required" })
-			return
-		}
-		const decision = await projectStore.markDecisionImplemented(
-			req.params.id,
-			req.params.decisionId,
-			implementedBy
-		)
-		if (!decision) {
-			res.status(404).json({ error: "Decision not found or not in accepted status" })
+		const state = req.query.state ? String(req.query.state) : undefined
+		if (state && !QUEUE_STATES.includes(state as (typeof QUEUE_STATES)[number])) {
+			res.status(400).json({ error: `state must be one of ${QUEUE_STATES.join(", ")}` })
 			return
 		}
-		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "implemented", decision })
-		res.json(decision)
+		const purged = inboxBroker.purge(req.params.queue, state as (typeof QUEUE_STATES)[number] | undefined)
+		io.emit("system-event", { type: "queue-purged", queue: req.params.queue, state, purged, timestamp: Date.now() })
+		res.json({ purged, stats: inboxBroker.stats(req.params.queue) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
+// Society Agent end
 
+// Society Agent start - per-agent git worktrees and merge queue
 /**
- * POST /api/projects/:id/decisions/:decisionId/supersede - Supersede with a new decision
- * Body: { title, category, context, options[], chosenOptionId, decision, rationale, ... }
+ * GET /api/projects/:id/worktrees - Agents' git worktrees in the project
  */
-app.post("/api/projects/:id/decisions/:decisionId/supersede", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/worktrees", (req, res): void => {
 	try {
-		const result = await projectStore.supersedeDecision(
-			req.params.id,
-			req.params.decisionId,
-			req.body
-		)
-		if (!result) {
-			res.status(404).json({ error: "Decision not found" })
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
-		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "superseded", result })
-		res.json(result)
+		res.json({ worktrees: worktrees.list(req.params.id) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/decisions/:decisionId/reject - Reject a proposed decision
- * Body: { reason, rejectedBy }
+ * POST /api/projects/:id/agents/:agentId/worktree/merge - Queue the agent's worktree for merging
+ * Body: { taskId? }
  */
-app.post("/api/projects/:id/decisions/:decisionId/reject", async (req, res): Promise<void> => {
+app.post("/api/projects/:id/agents/:agentId/worktree/merge", (req, res): void => {
 	try {
-		const { reason, rejectedBy } = req.body
-		if (!reason || !rejectedBy) {
-			res.status(400).json({ error: "reason and rejectedBy are required" })
+		if (!worktrees.get(req.params.id, req.params.agentId)) {
+			res.status(404).json({ error: "Agent has no worktree" })
 			return
 		}
-		const decision = await projectStore.rejectDecision(
-			req.params.id,
-			req.params.decisionId,
-			{ reason, rejectedBy }
-		)
-		if (!decision) {
-			res.status(404).json({ error: "Decision not found or not in proposed status" })
+		const pending = mergeQueue
+			.list(req.params.id)
+			.some((m) => m.agentId === req.params.agentId && (m.status === "queued" || m.status === "running"))
+		if (pending) {
+			res.status(409).json({ error: "Agent already has a merge in the queue" })
 			return
 		}
-		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "rejected", decision })
-		res.json(decision)
+		res.json(queueAgentMerge(req.params.id, req.params.agentId, req.body?.taskId))
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/decisions/:decisionId/defer - Defer a decision
- * Body: { reason, deferredBy, deferUntil? }
+ * GET /api/projects/:id/merge-queue - Queued and recent merges
  */
-app.post("/api/projects/:id/decisions/:decisionId/defer", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/merge-queue", (req, res): void => {
 	try {
-		const { reason, deferredBy, deferUntil } = req.body
-		if (!reason || !deferredBy) {
-			res.status(400).json({ error: "reason and deferredBy are required" })
-			return
-		}
-		const decision = await projectStore.deferDecision(
-			req.params.id,
-			req.params.decisionId,
-			{ reason, deferredBy, deferUntil }
-		)
-		if (!decision) {
-			res.status(404).json({ error: "Decision not found" })
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
-		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "deferred", decision })
-		res.json(decision)
+		res.json({ merges: mergeQueue.list(req.params.id) })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
+// Society Agent end
 
 /**
- * GET /api/projects/:id/decisions - Get all decisions
- * Query: ?status=accepted,implemented&category=architecture&taskId=T-001
+ * POST /api/projects/:id/managed-tasks/:taskId/verify - Run verification and verify task
+ * Body: { agentId, quickMode? }
  */
-app.get("/api/projects/:id/decisions", async (req, res): Promise<void> => {
+app.post("/api/projects/:id/managed-tasks/:taskId/verify", async (req, res): Promise<void> => {
 	try {
-		const { status, category, taskId } = req.query
-
-		if (taskId) {
-			const decisions = await projectStore.getDecisionsForTask(req.params.id, String(taskId))
-			res.json(decisions)
+		const { agentId, quickMode } = req.body
+		
+		if (!agentId) {
+			res.status(400).json({ error: "agentId is required" })
 			return
 		}
 
-		if (status === "pending" || status === "proposed") {
-			const decisions = await projectStore.getPendingDecisions(req.params.id)
-			res.json(decisions)
+		// Run verification
+		const verification = await projectStore.runTaskVerification(req.params.id, req.params.taskId, { quickMode })
+		if (!verification) {
+			res.status(404).json({ error: "Task not found" })
 			return
 		}
 
-		// Default: get active decisions
-		const decisions = await projectStore.getActiveDecisions(req.params.id)
-		res.json(decisions)
+		// If verification passed, mark as verified
+		if (verification.allPassed) {
+			const task = await projectStore.verifyManagedTask(req.params.id, req.params.taskId, agentId, verification)
+			if (task) {
+				res.json({ task, verification })
+				return
+			}
+		}
+
+		// Return verification result even if not passed
+		res.json({ verification, message: verification.allPassed ? "Verified" : "Verification failed" })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/update-planning - Regenerate PLANNING.md
+ * GET /api/projects/:id/managed-tasks/startable - Get tasks ready to start
  */
-app.post("/api/projects/:id/update-planning", async (req, res): Promise<void> => {
+app.get("/api/projects/:id/managed-tasks/startable", (req, res): void => {
 	try {
-		await projectStore.updatePlanningLog(req.params.id)
+		const tasks = projectStore.getStartableTasks(req.params.id)
+		res.json(tasks)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/managed-tasks/blocked - Get blocked tasks with reasons
+ */
+app.get("/api/projects/:id/managed-tasks/blocked", (req, res): void => {
+	try {
+		const blocked = projectStore.getBlockedTasks(req.params.id)
+		res.json(blocked)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/update-plan - Regenerate PLAN.md from managed tasks
+ */
+app.post("/api/projects/:id/update-plan", async (req, res): Promise<void> => {
+	try {
+		await projectStore.updateProjectPlan(req.params.id)
 		res.json({ success: true })
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
@@ -5866,36 +7772,23 @@ app.post("/api/projects/:id/update-planning", async (req, res): Promise<void> =>
 })
 
 // ============================================================================
-// SUPERVISOR OVERRIDE API (Proposal 5)
+// FILE OWNERSHIP API (Proposal 4)
 // ============================================================================
 
 /**
- * POST /api/projects/:id/supervisor/force-unblock - Force unblock a blocked task
- * Body: { taskId, supervisorId, reason, resolution }
+ * GET /api/projects/:id/files/check - Check if agent can modify a file
+ * Query: ?agentId=xxx&path=src/file.ts
  */
-app.post("/api/projects/:id/supervisor/force-unblock", (req, res): void => {
+app.get("/api/projects/:id/files/check", async (req, res): Promise<void> => {
 	try {
-		const { taskId, supervisorId, reason, resolution } = req.body
-		if (!taskId || !supervisorId || !reason || !resolution) {
-			res.status(400).json({ error: "taskId, supervisorId, reason, and resolution are required" })
-			return
-		}
-
-		const result = projectStore.supervisorForceUnblock(
-			req.params.id,
-			taskId,
-			supervisorId,
-			reason,
-			resolution
-		)
-
-		if (!result) {
-			res.status(400).json({ error: "Task not found or not blocked" })
+		const { agentId, path: filePath } = req.query
+		
+		if (!agentId || !filePath) {
+			res.status(400).json({ error: "agentId and path query parameters are required" })
 			return
 		}
 
-		io.emit("supervisor-override", { projectId: req.params.id, action: "force-unblock", taskId, by: supervisorId })
-		io.emit("task-unblocked", { projectId: req.params.id, taskId })
+		const result = await projectStore.checkFileAccess(req.params.id, String(agentId), String(filePath))
 		res.json(result)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
@@ -5903,361 +7796,1727 @@ app.post("/api/projects/:id/supervisor/force-unblock", (req, res): void => {
 })
 
 /**
- * POST /api/projects/:id/supervisor/force-reassign - Force reassign a task
- * Body: { taskId, supervisorId, newAgentId, reason }
+ * POST /api/projects/:id/files/register - Register file ownership
+ * Body: { filePath, owner, description?, taskId? }
  */
-app.post("/api/projects/:id/supervisor/force-reassign", (req, res): void => {
+app.post("/api/projects/:id/files/register", async (req, res): Promise<void> => {
 	try {
-		const { taskId, supervisorId, newAgentId, reason } = req.body
-		if (!taskId || !supervisorId || !newAgentId || !reason) {
-			res.status(400).json({ error: "taskId, supervisorId, newAgentId, and reason are required" })
+		const { filePath, owner, description, taskId } = req.body
+		
+		if (!filePath || !owner) {
+			res.status(400).json({ error: "filePath and owner are required" })
 			return
 		}
 
-		const result = projectStore.supervisorForceReassign(
-			req.params.id,
-			taskId,
-			supervisorId,
-			newAgentId,
-			reason
-		)
+		const ownership = await projectStore.registerFile(req.params.id, filePath, owner, { description, taskId })
 
-		if (!result) {
-			res.status(400).json({ error: "Task not found or cannot be reassigned" })
+		if (!ownership) {
+			res.status(404).json({ error: "Project not found" })
 			return
 		}
 
-		io.emit("supervisor-override", { projectId: req.params.id, action: "force-reassign", taskId, newAgentId, by: supervisorId })
-		res.json(result)
+		res.json(ownership)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/supervisor/force-status - Force a task to a specific status
- * Body: { taskId, supervisorId, newStatus, reason }
+ * POST /api/projects/:id/files/register-batch - Register multiple files
+ * Body: { filePaths: string[], owner, taskId? }
  */
-app.post("/api/projects/:id/supervisor/force-status", (req, res): void => {
+app.post("/api/projects/:id/files/register-batch", async (req, res): Promise<void> => {
 	try {
-		const { taskId, supervisorId, newStatus, reason } = req.body
-		if (!taskId || !supervisorId || !newStatus || !reason) {
-			res.status(400).json({ error: "taskId, supervisorId, newStatus, and reason are required" })
+		const { filePaths, owner, taskId } = req.body
+		
+		if (!filePaths?.length || !owner) {
+			res.status(400).json({ error: "filePaths (array) and owner are required" })
 			return
 		}
 
-		const result = projectStore.supervisorForceStatus(
-			req.params.id,
-			taskId,
-			supervisorId,
-			newStatus,
-			reason
-		)
+		const ownerships = await projectStore.registerFiles(req.params.id, filePaths, owner, taskId)
+		res.json({ registered: ownerships.length, files: ownerships })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-		if (!result) {
-			res.status(400).json({ error: "Task not found" })
+/**
+ * GET /api/projects/:id/files/owned - Get files owned by an agent
+ * Query: ?agentId=xxx
+ */
+app.get("/api/projects/:id/files/owned", async (req, res): Promise<void> => {
+	try {
+		const { agentId } = req.query
+		
+		if (!agentId) {
+			res.status(400).json({ error: "agentId query parameter is required" })
 			return
 		}
 
-		io.emit("supervisor-override", { projectId: req.params.id, action: "force-status", taskId, newStatus, by: supervisorId })
-		res.json(result)
+		const files = await projectStore.getAgentFiles(req.params.id, String(agentId))
+		res.json(files)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/supervisor/force-cancel - Force cancel a task
- * Body: { taskId, supervisorId, reason }
+ * POST /api/projects/:id/files/handoff/request - Request file handoff
+ * Body: { filePath, toAgentId, reason, taskId? }
  */
-app.post("/api/projects/:id/supervisor/force-cancel", (req, res): void => {
+app.post("/api/projects/:id/files/handoff/request", async (req, res): Promise<void> => {
 	try {
-		const { taskId, supervisorId, reason } = req.body
-		if (!taskId || !supervisorId || !reason) {
-			res.status(400).json({ error: "taskId, supervisorId, and reason are required" })
+		const { filePath, toAgentId, reason, taskId } = req.body
+		
+		if (!filePath || !toAgentId || !reason) {
+			res.status(400).json({ error: "filePath, toAgentId, and reason are required" })
 			return
 		}
 
-		const result = projectStore.supervisorForceCancel(
-			req.params.id,
-			taskId,
-			supervisorId,
-			reason
-		)
+		const handoff = await projectStore.requestFileHandoff(req.params.id, filePath, toAgentId, reason, taskId)
 
-		if (!result) {
-			res.status(400).json({ error: "Task not found or cannot be cancelled" })
+		if (!handoff) {
+			res.status(400).json({ error: "File not registered or project not found" })
 			return
 		}
 
-		io.emit("supervisor-override", { projectId: req.params.id, action: "force-cancel", taskId, by: supervisorId })
-		res.json(result)
+		res.json(handoff)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/supervisor/change-priority - Change task priority
- * Body: { taskId, supervisorId, newPriority (1-5: 1=critical, 5=low), reason }
+ * POST /api/projects/:id/files/handoff/:handoffId/approve - Approve handoff
+ * Body: { approverId }
  */
-app.post("/api/projects/:id/supervisor/change-priority", (req, res): void => {
+app.post("/api/projects/:id/files/handoff/:handoffId/approve", async (req, res): Promise<void> => {
 	try {
-		const { taskId, supervisorId, newPriority, reason } = req.body
-		if (!taskId || !supervisorId || newPriority === undefined || !reason) {
-			res.status(400).json({ error: "taskId, supervisorId, newPriority, and reason are required" })
+		const { approverId } = req.body
+		
+		if (!approverId) {
+			res.status(400).json({ error: "approverId is required" })
 			return
 		}
 
-		// Validate priority is 1-5
-		const priority = Number(newPriority)
-		if (![1, 2, 3, 4, 5].includes(priority)) {
-			res.status(400).json({ error: "newPriority must be 1 (critical) to 5 (low)" })
+		const handoff = await projectStore.approveFileHandoff(req.params.id, req.params.handoffId, approverId)
+
+		if (!handoff) {
+			res.status(400).json({ error: "Handoff not found or already resolved" })
 			return
 		}
 
-		const result = projectStore.supervisorChangePriority(
-			req.params.id,
-			taskId,
-			supervisorId,
-			priority as 1 | 2 | 3 | 4 | 5,
-			reason
-		)
+		res.json(handoff)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-		if (!result) {
-			res.status(400).json({ error: "Task not found" })
+/**
+ * POST /api/projects/:id/files/handoff/:handoffId/deny - Deny handoff
+ * Body: { approverId, reason }
+ */
+app.post("/api/projects/:id/files/handoff/:handoffId/deny", async (req, res): Promise<void> => {
+	try {
+		const { approverId, reason } = req.body
+		
+		if (!approverId || !reason) {
+			res.status(400).json({ error: "approverId and reason are required" })
 			return
 		}
 
-		io.emit("supervisor-override", { projectId: req.params.id, action: "change-priority", taskId, newPriority: priority, by: supervisorId })
-		res.json(result)
+		const handoff = await projectStore.denyFileHandoff(req.params.id, req.params.handoffId, approverId, reason)
+
+		if (!handoff) {
+			res.status(400).json({ error: "Handoff not found or already resolved" })
+			return
+		}
+
+		res.json(handoff)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * GET /api/projects/:id/supervisor/overrides - Get all supervisor overrides
- * Query: ?taskId=T-001
+ * POST /api/projects/:id/files/handoff/:handoffId/complete - Complete approved handoff
  */
-app.get("/api/projects/:id/supervisor/overrides", (req, res): void => {
+app.post("/api/projects/:id/files/handoff/:handoffId/complete", async (req, res): Promise<void> => {
 	try {
-		const { taskId } = req.query
+		const ownership = await projectStore.completeFileHandoff(req.params.id, req.params.handoffId)
 
-		if (taskId) {
-			const overrides = projectStore.getTaskOverrides(req.params.id, String(taskId))
-			res.json(overrides)
+		if (!ownership) {
+			res.status(400).json({ error: "Handoff not found or not approved" })
 			return
 		}
 
-		const overrides = projectStore.getSupervisorOverrides(req.params.id)
-		res.json(overrides)
+		res.json(ownership)
 	} catch (error) {
 		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:id/agents - Add an agent to a project
+ * GET /api/projects/:id/files/handoffs/pending - Get pending handoffs for an agent
+ * Query: ?agentId=xxx
  */
-app.post("/api/projects/:id/agents", (req, res): void => {
+app.get("/api/projects/:id/files/handoffs/pending", async (req, res): Promise<void> => {
 	try {
-		const { id, name, role, systemPrompt, customInstructions, homeFolder, provider, model, behaviorSettings, ephemeral, reportsTo, capabilities, workspaceMode } = req.body
-		if (!id || !name || !role) {
-			res.status(400).json({ error: "id, name, and role are required" })
-			return
-		}
-		if (behaviorSettings?.operatingProfile && !isOperatingProfile(behaviorSettings.operatingProfile)) {
-			res.status(400).json({ error: "Invalid behaviorSettings.operatingProfile" })
+		const { agentId } = req.query
+		
+		if (!agentId) {
+			res.status(400).json({ error: "agentId query parameter is required" })
 			return
 		}
-		if (behaviorSettings?.delegationStyle && !isDelegationStyle(behaviorSettings.delegationStyle)) {
+
+		const handoffs = await projectStore.getAgentPendingHandoffs(req.params.id, String(agentId))
+		res.json(handoffs)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+// Society Agent start - change proposals for owned files
+/** Tell the proposer what the owner did with their change */
+function notifyProposer(projectId: string, proposal: FileChangeProposal, text: string): void {
+	// Society Agent start - typed inter-agent messages: answer the proposal message
+	const proposalMessage = messageLog
+		.list(projectId, { agentId: proposal.owner })
+		.find(({ message }) => "type" in message && message.type === "change_proposal" && message.payload.proposalId === proposal.id)
+	if (proposalMessage) {
+		const response = proposal.status === "rejected"
+			? { accepted: false as const, reason: proposal.rejectionReason || text }
+			: { accepted: true as const, acknowledgment: text }
+		try {
+			recordAgentMessage(createHandoffResponse(proposal.owner, proposal.proposedBy, projectId, proposalMessage.message.messageId, response, proposal.taskId))
+		} catch (error) {
+			log.warn(`[Messages] Could not record the answer to proposal ${proposal.id}: ${normalizeErrorMessage(error)}`)
+		}
+	}
+	// Society Agent end
+	sendToInbox(projectId, { id: proposal.owner, name: proposal.owner }, proposal.proposedBy, text)
+	io.emit("system-event", { type: "file-change-resolved", projectId, proposal: { ...proposal, baseContent: undefined, proposedContent: undefined }, timestamp: Date.now() })
+}
+
+/**
+ * Record a proposal and send the owner a change proposal message. Shared by the
+ * REST route, the propose_file_change tool and writes to files owned by another agent.
+ * Throws if the change is invalid; undefined if the project does not exist.
+ */
+async function submitFileProposal(
+	projectId: string,
+	agentId: string,
+	filePath: string,
+	content: string,
+	reason: string,
+	options: { baseContent?: string; taskId?: string } = {},
+): Promise<FileChangeProposal | undefined> {
+	const proposal = await projectStore.proposeFileChange(projectId, agentId, filePath, content, reason, options)
+	if (!proposal) return undefined
+
+	const message = createChangeProposal(agentId, proposal.owner, projectId, {
+		proposalId: proposal.id,
+		filePath: proposal.path,
+		reason,
+		patch: proposal.patch,
+	}, options.taskId)
+	try {
+		deliverAgentMessage(message) // Society Agent
+	} catch (error) {
+		log.warn(`[Messages] Could not record change proposal ${proposal.id}: ${normalizeErrorMessage(error)}`)
+		sendToInbox(projectId, { id: agentId, name: agentId }, proposal.owner, formatMessageAsMarkdown(message))
+	}
+	io.emit("system-event", { type: "file-change-proposed", projectId, proposalId: proposal.id, path: proposal.path, from: agentId, owner: proposal.owner, timestamp: Date.now() })
+	return proposal
+}
+
+/**
+ * Ownership check for an agent tool writing a file. A file owned by another agent
+ * is not written; the new content goes to the owner as a change proposal instead.
+ * Returns the tool result for the agent, or undefined if the write may go ahead.
+ */
+async function redirectOwnedFileWrite(project: Project, agent: ProjectAgentConfig, fullPath: string, content: string, toolName: string): Promise<string | undefined> {
+	const filePath = projectStore.projectFilePath(project.id, agent.id, fullPath)
+	const access = await projectStore.checkFileAccess(project.id, agent.id, filePath)
+	if (access.allowed) return undefined
+	if (access.requiredAction !== "propose-change") {
+		return `🔒 **${filePath} is owned by ${access.owner}**\n\n${access.reason}. Your change was not written.`
+	}
+	try {
+		const taskId = findActiveTaskId(project.id, agent.id)
+		const proposal = await submitFileProposal(project.id, agent.id, filePath, content, `${toolName} by ${agent.name}${taskId ? ` for ${taskId}` : ""}`, {
+			baseContent: fs.existsSync(fullPath) ? fs.readFileSync(fullPath, "utf-8") : "",
+			taskId,
+		})
+		return `📨 **${filePath} is owned by ${access.owner}**\n\nYour change was not written; it was sent to ${access.owner} as proposal \`${proposal?.id}\`. ` +
+			`You will get a message when they accept, merge or reject it. Carry on with the rest of your work meanwhile.`
+	} catch (err: any) {
+		return `❌ ${filePath} is owned by ${access.owner} and the change could not be proposed: ${err.message}`
+	}
+}
+
+/**
+ * POST /api/projects/:id/files/proposals - Propose a change to a file owned by another agent
+ * Body: { agentId, filePath, content, reason, baseContent?, taskId? }
+ * The change is stored as a patch and the owner is sent a change proposal message.
+ */
+app.post("/api/projects/:id/files/proposals", async (req, res): Promise<void> => {
+	try {
+		const { agentId, filePath, content, reason, baseContent, taskId } = req.body
+		if (!agentId || !filePath || typeof content !== "string" || !reason) {
+			res.status(400).json({ error: "agentId, filePath, content and reason are required" })
+			return
+		}
+
+		let proposal: FileChangeProposal | undefined
+		try {
+			proposal = await submitFileProposal(req.params.id, agentId, filePath, content, reason, { baseContent, taskId })
+		} catch (error) {
+			res.status(400).json({ error: normalizeErrorMessage(error) })
+			return
+		}
+		if (!proposal) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		res.json(proposal)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/files/proposals - List change proposals
+ * Query: ?ownerId=xxx (pending proposals for that owner's files)
+ */
+app.get("/api/projects/:id/files/proposals", async (req, res): Promise<void> => {
+	try {
+		const ownerId = req.query.ownerId ? String(req.query.ownerId) : undefined
+		res.json(await projectStore.getFileProposals(req.params.id, ownerId))
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/files/proposals/:proposalId/accept - Owner takes the proposed file as is
+ * Body: { agentId }
+ */
+app.post("/api/projects/:id/files/proposals/:proposalId/accept", async (req, res): Promise<void> => {
+	try {
+		const { agentId } = req.body
+		if (!agentId) {
+			res.status(400).json({ error: "agentId is required" })
+			return
+		}
+
+		let proposal: FileChangeProposal | undefined
+		try {
+			proposal = await projectStore.acceptFileProposal(req.params.id, req.params.proposalId, agentId)
+		} catch (error) {
+			res.status(409).json({ error: normalizeErrorMessage(error) })
+			return
+		}
+		if (!proposal) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+
+		notifyProposer(req.params.id, proposal, `✅ ${proposal.owner} accepted your change to ${proposal.path} (${proposal.id})`)
+		res.json(proposal)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/files/proposals/:proposalId/merge - Three-way merge the proposal into the owner's file
+ * Body: { agentId }
+ * Returns { proposal, merged, conflicts, content }; on conflicts nothing is written and
+ * content holds the file with conflict markers.
+ */
+app.post("/api/projects/:id/files/proposals/:proposalId/merge", async (req, res): Promise<void> => {
+	try {
+		const { agentId } = req.body
+		if (!agentId) {
+			res.status(400).json({ error: "agentId is required" })
+			return
+		}
+
+		let result: Awaited<ReturnType<typeof projectStore.mergeFileProposal>>
+		try {
+			result = await projectStore.mergeFileProposal(req.params.id, req.params.proposalId, agentId)
+		} catch (error) {
+			res.status(409).json({ error: normalizeErrorMessage(error) })
+			return
+		}
+		if (!result) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+
+		const { proposal, merge } = result
+		if (merge.conflicts === 0) {
+			notifyProposer(req.params.id, proposal, `✅ ${proposal.owner} merged your change to ${proposal.path} (${proposal.id})`)
+		}
+		res.json({ proposal, merged: merge.conflicts === 0, conflicts: merge.conflicts, content: merge.content })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/files/proposals/:proposalId/reject - Owner declines the proposal
+ * Body: { agentId, reason }
+ */
+app.post("/api/projects/:id/files/proposals/:proposalId/reject", async (req, res): Promise<void> => {
+	try {
+		const { agentId, reason } = req.body
+		if (!agentId || !reason) {
+			res.status(400).json({ error: "agentId and reason are required" })
+			return
+		}
+
+		let proposal: FileChangeProposal | undefined
+		try {
+			proposal = await projectStore.rejectFileProposal(req.params.id, req.params.proposalId, agentId, reason)
+		} catch (error) {
+			res.status(409).json({ error: normalizeErrorMessage(error) })
+			return
+		}
+		if (!proposal) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+
+		notifyProposer(req.params.id, proposal, `❌ ${proposal.owner} rejected your change to ${proposal.path} (${proposal.id}): ${reason}`)
+		res.json(proposal)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+/**
+ * POST /api/projects/:id/files/update-registry - Regenerate FILES.md
+ */
+app.post("/api/projects/:id/files/update-registry", async (req, res): Promise<void> => {
+	try {
+		await projectStore.updateFilesRegistry(req.params.id)
+		res.json({ success: true })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+// ============================================================================
+// PLANNING LOG API (Proposal 3)
+// ============================================================================
+
+/**
+ * POST /api/projects/:id/decisions - Create a new decision
+ * Body: { title, category, context, options[], chosenOptionId, decision, rationale, consequences?, relatedTasks?, relatedDecisions?, decidedBy }
+ */
+app.post("/api/projects/:id/decisions", async (req, res): Promise<void> => {
+	try {
+		const decision = await projectStore.createDecision(req.params.id, req.body)
+		if (!decision) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		io.emit("decision-created", { projectId: req.params.id, decision })
+		res.json(decision)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/decisions/propose - Propose a decision for review
+ * Body: { title, category, context, options[], recommendedOptionId?, decidedBy, relatedTasks? }
+ */
+app.post("/api/projects/:id/decisions/propose", async (req, res): Promise<void> => {
+	try {
+		const decision = await projectStore.proposeDecision(req.params.id, req.body)
+		if (!decision) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		io.emit("decision-created", { projectId: req.params.id, decision })
+		res.json(decision)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/decisions/:decisionId/accept - Accept a proposed decision
+ * Body: { chosenOptionId, decision, rationale, consequences?, acceptedBy }
+ */
+app.post("/api/projects/:id/decisions/:decisionId/accept", async (req, res): Promise<void> => {
+	try {
+		const decision = await projectStore.acceptPlanningDecision(
+			req.params.id,
+			req.params.decisionId,
+			req.body
+		)
+		if (!decision) {
+			res.status(404).json({ error: "Decision not found or not in proposed status" })
+			return
+		}
+		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "accepted", decision })
+		res.json(decision)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/decisions/:decisionId/implement - Mark decision as implemented
+ * Body: { implementedBy }
+ */
+app.post("/api/projects/:id/decisions/:decisionId/implement", async (req, res): Promise<void> => {
+	try {
+		const { implementedBy } = req.body
+		if (!implementedBy) {
+			res.status(400).json({ error: "implementedBy is required" })
+			return
+		}
+		const decision = await projectStore.markDecisionImplemented(
+			req.params.id,
+			req.params.decisionId,
+			implementedBy
+		)
+		if (!decision) {
+			res.status(404).json({ error: "Decision not found or not in accepted status" })
+			return
+		}
+		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "implemented", decision })
+		res.json(decision)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/decisions/:decisionId/supersede - Supersede with a new decision
+ * Body: { title, category, context, options[], chosenOptionId, decision, rationale, ..., createReworkTasks? }
+ * Superseding an accepted decision returns an impact report; createReworkTasks
+ * delegates rework to the owners of the affected files and tasks.
+ */
+app.post("/api/projects/:id/decisions/:decisionId/supersede", async (req, res): Promise<void> => {
+	try {
+		const { createReworkTasks, ...newDecision } = req.body
+		const result = await projectStore.supersedeDecision(
+			req.params.id,
+			req.params.decisionId,
+			newDecision,
+			{ createReworkTasks: Boolean(createReworkTasks) }
+		)
+		if (!result) {
+			res.status(404).json({ error: "Decision not found" })
+			return
+		}
+		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "superseded", result })
+		// Society Agent start - decision impact analysis
+		if (result.impact) {
+			io.emit("system-event", {
+				type: "decision-impact",
+				projectId: req.params.id,
+				decisionId: req.params.decisionId,
+				supersededBy: result.newDecision.id,
+				tasks: result.impact.tasks.length,
+				decisions: result.impact.decisions.length,
+				files: result.impact.files.length,
+				reworkTasks: result.impact.reworkTasks ?? [],
+				timestamp: Date.now(),
+			})
+		}
+		// Society Agent end
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+// Society Agent start - decision impact analysis
+/**
+ * GET /api/projects/:id/decisions/:decisionId/impact - Decisions, tasks and files depending on a decision
+ * Query: ?format=markdown
+ */
+app.get("/api/projects/:id/decisions/:decisionId/impact", async (req, res): Promise<void> => {
+	try {
+		const report = await projectStore.getDecisionImpact(req.params.id, req.params.decisionId)
+		if (!report) {
+			res.status(404).json({ error: "Decision not found" })
+			return
+		}
+		if (req.query.format === "markdown") {
+			res.setHeader("Content-Type", "text/markdown; charset=utf-8")
+			res.send(formatImpactReport(report))
+			return
+		}
+		res.json(report)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+/**
+ * POST /api/projects/:id/decisions/:decisionId/reject - Reject a proposed decision
+ * Body: { reason, rejectedBy }
+ */
+app.post("/api/projects/:id/decisions/:decisionId/reject", async (req, res): Promise<void> => {
+	try {
+		const { reason, rejectedBy } = req.body
+		if (!reason || !rejectedBy) {
+			res.status(400).json({ error: "reason and rejectedBy are required" })
+			return
+		}
+		const decision = await projectStore.rejectDecision(
+			req.params.id,
+			req.params.decisionId,
+			{ reason, rejectedBy }
+		)
+		if (!decision) {
+			res.status(404).json({ error: "Decision not found or not in proposed status" })
+			return
+		}
+		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "rejected", decision })
+		res.json(decision)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/decisions/:decisionId/defer - Defer a decision
+ * Body: { reason, deferredBy, deferUntil? }
+ */
+app.post("/api/projects/:id/decisions/:decisionId/defer", async (req, res): Promise<void> => {
+	try {
+		const { reason, deferredBy, deferUntil } = req.body
+		if (!reason || !deferredBy) {
+			res.status(400).json({ error: "reason and deferredBy are required" })
+			return
+		}
+		const decision = await projectStore.deferDecision(
+			req.params.id,
+			req.params.decisionId,
+			{ reason, deferredBy, deferUntil }
+		)
+		if (!decision) {
+			res.status(404).json({ error: "Decision not found" })
+			return
+		}
+		io.emit("decision-updated", { projectId: req.params.id, decisionId: req.params.decisionId, status: "deferred", decision })
+		res.json(decision)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/decisions - Get all decisions
+ * Query: ?status=accepted,implemented&category=architecture&taskId=T-001
+ */
+app.get("/api/projects/:id/decisions", async (req, res): Promise<void> => {
+	try {
+		const { status, category, taskId } = req.query
+
+		if (taskId) {
+			const decisions = await projectStore.getDecisionsForTask(req.params.id, String(taskId))
+			res.json(decisions)
+			return
+		}
+
+		if (status === "pending" || status === "proposed") {
+			const decisions = await projectStore.getPendingDecisions(req.params.id)
+			res.json(decisions)
+			return
+		}
+
+		// Default: get active decisions
+		const decisions = await projectStore.getActiveDecisions(req.params.id)
+		res.json(decisions)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/update-planning - Regenerate PLANNING.md
+ */
+app.post("/api/projects/:id/update-planning", async (req, res): Promise<void> => {
+	try {
+		await projectStore.updatePlanningLog(req.params.id)
+		res.json({ success: true })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+// Society Agent start - Architecture Decision Records (docs/adr)
+/**
+ * POST /api/projects/:id/decisions/adr/export - Write all decisions to docs/adr as MADR files
+ * Once docs/adr exists, every decision change is exported automatically.
+ */
+app.post("/api/projects/:id/decisions/adr/export", async (req, res): Promise<void> => {
+	try {
+		const written = await projectStore.exportDecisionsToAdr(req.params.id)
+		if (!written) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		res.json({ success: true, written })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/decisions/adr/import - Read docs/adr into the planning log
+ * Body: { importedBy? }
+ */
+app.post("/api/projects/:id/decisions/adr/import", async (req, res): Promise<void> => {
+	try {
+		const result = await projectStore.importAdrDecisions(req.params.id, { importedBy: req.body?.importedBy })
+		if (!result) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		for (const decisionId of [...result.created, ...result.updated]) {
+			io.emit("decision-updated", { projectId: req.params.id, decisionId, status: "imported" })
+		}
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+// ============================================================================
+// SUPERVISOR OVERRIDE API (Proposal 5)
+// ============================================================================
+
+/**
+ * POST /api/projects/:id/supervisor/force-unblock - Force unblock a blocked task
+ * Body: { taskId, supervisorId, reason, resolution }
+ */
+app.post("/api/projects/:id/supervisor/force-unblock", (req, res): void => {
+	try {
+		const { taskId, supervisorId, reason, resolution } = req.body
+		if (!taskId || !supervisorId || !reason || !resolution) {
+			res.status(400).json({ error: "taskId, supervisorId, reason, and resolution are required" })
+			return
+		}
+
+		const result = projectStore.supervisorForceUnblock(
+			req.params.id,
+			taskId,
+			supervisorId,
+			reason,
+			resolution
+		)
+
+		if (!result) {
+			res.status(400).json({ error: "Task not found or not blocked" })
+			return
+		}
+
+		io.emit("supervisor-override", { projectId: req.params.id, action: "force-unblock", taskId, by: supervisorId })
+		io.emit("task-unblocked", { projectId: req.params.id, taskId })
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/supervisor/force-reassign - Force reassign a task
+ * Body: { taskId, supervisorId, newAgentId, reason }
+ */
+app.post("/api/projects/:id/supervisor/force-reassign", (req, res): void => {
+	try {
+		const { taskId, supervisorId, newAgentId, reason } = req.body
+		if (!taskId || !supervisorId || !newAgentId || !reason) {
+			res.status(400).json({ error: "taskId, supervisorId, newAgentId, and reason are required" })
+			return
+		}
+
+		const result = projectStore.supervisorForceReassign(
+			req.params.id,
+			taskId,
+			supervisorId,
+			newAgentId,
+			reason
+		)
+
+		if (!result) {
+			res.status(400).json({ error: "Task not found or cannot be reassigned" })
+			return
+		}
+
+		io.emit("supervisor-override", { projectId: req.params.id, action: "force-reassign", taskId, newAgentId, by: supervisorId })
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/supervisor/force-status - Force a task to a specific status
+ * Body: { taskId, supervisorId, newStatus, reason }
+ */
+app.post("/api/projects/:id/supervisor/force-status", (req, res): void => {
+	try {
+		const { taskId, supervisorId, newStatus, reason } = req.body
+		if (!taskId || !supervisorId || !newStatus || !reason) {
+			res.status(400).json({ error: "taskId, supervisorId, newStatus, and reason are required" })
+			return
+		}
+
+		const result = projectStore.supervisorForceStatus(
+			req.params.id,
+			taskId,
+			supervisorId,
+			newStatus,
+			reason
+		)
+
+		if (!result) {
+			res.status(400).json({ error: "Task not found" })
+			return
+		}
+
+		io.emit("supervisor-override", { projectId: req.params.id, action: "force-status", taskId, newStatus, by: supervisorId })
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/supervisor/force-cancel - Force cancel a task
+ * Body: { taskId, supervisorId, reason }
+ */
+app.post("/api/projects/:id/supervisor/force-cancel", (req, res): void => {
+	try {
+		const { taskId, supervisorId, reason } = req.body
+		if (!taskId || !supervisorId || !reason) {
+			res.status(400).json({ error: "taskId, supervisorId, and reason are required" })
+			return
+		}
+
+		const result = projectStore.supervisorForceCancel(
+			req.params.id,
+			taskId,
+			supervisorId,
+			reason
+		)
+
+		if (!result) {
+			res.status(400).json({ error: "Task not found or cannot be cancelled" })
+			return
+		}
+
+		io.emit("supervisor-override", { projectId: req.params.id, action: "force-cancel", taskId, by: supervisorId })
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/supervisor/change-priority - Change task priority
+ * Body: { taskId, supervisorId, newPriority (1-5: 1=critical, 5=low), reason }
+ */
+app.post("/api/projects/:id/supervisor/change-priority", (req, res): void => {
+	try {
+		const { taskId, supervisorId, newPriority, reason } = req.body
+		if (!taskId || !supervisorId || newPriority === undefined || !reason) {
+			res.status(400).json({ error: "taskId, supervisorId, newPriority, and reason are required" })
+			return
+		}
+
+		// Validate priority is 1-5
+		const priority = Number(newPriority)
+		if (![1, 2, 3, 4, 5].includes(priority)) {
+			res.status(400).json({ error: "newPriority must be 1 (critical) to 5 (low)" })
+			return
+		}
+
+		const result = projectStore.supervisorChangePriority(
+			req.params.id,
+			taskId,
+			supervisorId,
+			priority as 1 | 2 | 3 | 4 | 5,
+			reason
+		)
+
+		if (!result) {
+			res.status(400).json({ error: "Task not found" })
+			return
+		}
+
+		io.emit("supervisor-override", { projectId: req.params.id, action: "change-priority", taskId, newPriority: priority, by: supervisorId })
+		res.json(result)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/supervisor/overrides - Get all supervisor overrides
+ * Query: ?taskId=T-001
+ */
+app.get("/api/projects/:id/supervisor/overrides", (req, res): void => {
+	try {
+		const { taskId } = req.query
+
+		if (taskId) {
+			const overrides = projectStore.getTaskOverrides(req.params.id, String(taskId))
+			res.json(overrides)
+			return
+		}
+
+		const overrides = projectStore.getSupervisorOverrides(req.params.id)
+		res.json(overrides)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/agents - Add an agent to a project
+ */
+app.post("/api/projects/:id/agents", (req, res): void => {
+	try {
+		const { id, name, role, systemPrompt, customInstructions, homeFolder, provider, model, behaviorSettings, ephemeral, reportsTo, capabilities, workspaceMode } = req.body
+		if (!id || !name || !role) {
+			res.status(400).json({ error: "id, name, and role are required" })
+			return
+		}
+		if (behaviorSettings?.operatingProfile && !isOperatingProfile(behaviorSettings.operatingProfile)) {
+			res.status(400).json({ error: "Invalid behaviorSettings.operatingProfile" })
+			return
+		}
+		if (behaviorSettings?.delegationStyle && !isDelegationStyle(behaviorSettings.delegationStyle)) {
+			res.status(400).json({ error: "Invalid behaviorSettings.delegationStyle" })
+			return
+		}
+		if (behaviorSettings?.verificationStrictness && !isVerificationStrictness(behaviorSettings.verificationStrictness)) {
+			res.status(400).json({ error: "Invalid behaviorSettings.verificationStrictness" })
+			return
+		}
+		
+		// Generate default system prompt if not provided
+		let basePrompt = systemPrompt || `You are ${name}, a ${role}.
+
+Your responsibilities:
+${capabilities?.length ? capabilities.map((c: string) => `- ${c}`).join('\n') : `- Fulfill your role as ${role}`}
+
+Work collaboratively with other agents in the project. Use available tools to complete tasks.`
+		
+		// Append custom instructions if provided
+		if (customInstructions) {
+			basePrompt += `\n\n## Custom Instructions\n${customInstructions}`
+		}
+		
+		const defaultPrompt = buildFullSystemPrompt(basePrompt)
+
+		// Determine home folder - nest under parent if specified
+		const project = projectStore.get(req.params.id)
+		let agentHomeFolder = homeFolder
+		let effectiveWorkspaceMode = workspaceMode || "isolated"
+		let sharedWorkspaceWith: string | undefined
+		
+		if (!agentHomeFolder) {
+			if (reportsTo && project) {
+				const parentAgent = project.agents.find(a => a.id === reportsTo)
+				const parentHome = parentAgent?.homeFolder || reportsTo
+				
+				// Society Agent - Shared workspace mode: use same folder as supervisor
+				if (effectiveWorkspaceMode === "shared") {
+					agentHomeFolder = parentHome  // Same folder as supervisor!
+					sharedWorkspaceWith = reportsTo
+					log.info(`[API] Agent ${id} will share workspace with supervisor ${reportsTo} at ${parentHome}`)
+				} else {
+					// Standard isolated mode - nest under parent
+					agentHomeFolder = parentHome === "/" ? id : `${parentHome}/${id}`
+				}
+			} else {
+				agentHomeFolder = id
+			}
+		}
+
+		const agent = projectStore.addAgent(req.params.id, {
+			id, name, role,
+			systemPrompt: defaultPrompt,
+			customInstructions,  // Store separately for editing
+			homeFolder: agentHomeFolder,
+			provider,
+			model,
+			behaviorSettings,
+			ephemeral: ephemeral || false,
+			reportsTo,
+			workspaceMode: effectiveWorkspaceMode,
+			sharedWorkspaceWith,
+		})
+		if (!agent) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		
+		// Society Agent - Set up shared workspace if workspaceMode is "shared"
+		if (effectiveWorkspaceMode === "shared" && reportsTo && project) {
+			const wsRegistry = getProjectSharedWorkspaces(req.params.id)
+			try {
+				createSharedWorkspace(wsRegistry, agentHomeFolder, reportsTo, id)
+				log.info(`[API] Created shared workspace: ${agentHomeFolder} (${reportsTo} ↔ ${id})`)
+			} catch (err: any) {
+				// Workspace might already exist - that's OK
+				log.debug(`[API] Shared workspace may already exist: ${err.message}`)
+			}
+		}
+		
+		// Create the agent's home directory
+		const projectFolder = project?.folder || req.params.id
+		const agentDir = path.join(projectStore.projectsBaseDir, projectFolder, agentHomeFolder)
+		if (!fs.existsSync(agentDir)) {
+			fs.mkdirSync(agentDir, { recursive: true })
+			log.info(`[API] Created directory for new agent: ${agentDir}`)
+		}
+		
+		io.emit("system-event", { type: "agent-added", projectId: req.params.id, agentId: id, timestamp: Date.now() })
+		res.status(201).json(agent)
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+	}
+})
+
+/**
+ * PUT /api/projects/:projectId/agents/:agentId - Update an agent within a project
+ */
+app.put("/api/projects/:projectId/agents/:agentId", (req, res): void => {
+	try {
+		const updates = { ...req.body }
+		if (updates.behaviorSettings?.operatingProfile && !isOperatingProfile(updates.behaviorSettings.operatingProfile)) {
+			res.status(400).json({ error: "Invalid behaviorSettings.operatingProfile" })
+			return
+		}
+		if (updates.behaviorSettings?.delegationStyle && !isDelegationStyle(updates.behaviorSettings.delegationStyle)) {
 			res.status(400).json({ error: "Invalid behaviorSettings.delegationStyle" })
 			return
 		}
-		if (behaviorSettings?.verificationStrictness && !isVerificationStrictness(behaviorSettings.verificationStrictness)) {
-			res.status(400).json({ error: "Invalid behaviorSettings.verificationStrictness" })
+		if (updates.behaviorSettings?.verificationStrictness && !isVerificationStrictness(updates.behaviorSettings.verificationStrictness)) {
+			res.status(400).json({ error: "Invalid behaviorSettings.verificationStrictness" })
+			return
+		}
+		// Society Agent start - execution backend (admin only: it decides whether commands are sandboxed)
+		if (updates.execution !== undefined) {
+			const executionError = validateExecutionSettings(updates.execution)
+			if (executionError) {
+				res.status(400).json({ error: executionError })
+				return
+			}
+			if (!req.authUser || !roleAtLeast(req.authUser.role, "admin")) {
+				res.status(403).json({ error: "Requires admin role to change execution settings" })
+				return
+			}
+		}
+		// Society Agent end
+		// Society Agent start - federation (admin only: it exposes the agent to other servers)
+		if (updates.acceptsExternalWork !== undefined) {
+			if (typeof updates.acceptsExternalWork !== "boolean") {
+				res.status(400).json({ error: "acceptsExternalWork must be a boolean" })
+				return
+			}
+			if (!req.authUser || !roleAtLeast(req.authUser.role, "admin")) {
+				res.status(403).json({ error: "Requires admin role to expose agents to federated servers" })
+				return
+			}
+		}
+		// Society Agent end
+
+		// If customInstructions changed, regenerate the system prompt
+		if (updates.customInstructions !== undefined) {
+			const agent = projectStore.getAgent(req.params.projectId, req.params.agentId)
+			if (agent) {
+				const name = updates.name || agent.name
+				const role = updates.role || agent.role
+				let basePrompt = `You are ${name}, a ${role}.
+
+Your responsibilities:
+- Fulfill your role as ${role}
+
+Work collaboratively with other agents in the project. Use available tools to complete tasks.`
+				
+				if (updates.customInstructions) {
+					basePrompt += `\n\n## Custom Instructions\n${updates.customInstructions}`
+				}
+				
+				updates.systemPrompt = buildFullSystemPrompt(basePrompt)
+			}
+		}
+		
+		const updated = projectStore.updateAgent(req.params.projectId, req.params.agentId, updates)
+		if (!updated) {
+			res.status(404).json({ error: "Project or agent not found" })
+			return
+		}
+		const cacheKey = `${req.params.projectId}:${req.params.agentId}`
+		if (activeAgents.has(cacheKey)) {
+			activeAgents.delete(cacheKey)
+		}
+		res.json(updated)
+	} catch (error) {
+		res.status(400).json({ error: String(error) })
+	}
+})
+
+/**
+ * DELETE /api/projects/:projectId/agents/:agentId - Remove agent from project
+ */
+app.delete("/api/projects/:projectId/agents/:agentId", (req, res): void => {
+	try {
+		activeAgents.delete(`${req.params.projectId}:${req.params.agentId}`)
+		const removed = projectStore.removeAgent(req.params.projectId, req.params.agentId)
+		if (!removed) {
+			res.status(404).json({ error: "Project or agent not found" })
 			return
 		}
-		
-		// Generate default system prompt if not provided
-		let basePrompt = systemPrompt || `You are ${name}, a ${role}.
+		worktrees.release(req.params.projectId, req.params.agentId, { keepBranch: true }).catch(() => undefined) // Society Agent
+		identitiesFor(req.params.projectId).revokeAgent(req.params.agentId, "Agent deleted") // Society Agent - its signed messages stop verifying
+		io.emit("system-event", { type: "agent-removed", projectId: req.params.projectId, agentId: req.params.agentId, timestamp: Date.now() })
+		res.json({ success: true })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-Your responsibilities:
-${capabilities?.length ? capabilities.map((c: string) => `- ${c}`).join('\n') : `- Fulfill your role as ${role}`}
+/**
+ * POST /api/projects/:projectId/agents/:agentId/reset - Reset agent memory
+ */
+app.post("/api/projects/:projectId/agents/:agentId/reset", (req, res): void => {
+	try {
+		const agent = projectStore.getAgent(req.params.projectId, req.params.agentId)
+		if (!agent) {
+			res.status(404).json({ error: "Project or agent not found" })
+			return
+		}
+		activeAgents.delete(`${req.params.projectId}:${req.params.agentId}`)
+		projectStore.resetAgentMemory(req.params.projectId, req.params.agentId)
+		// Society Agent - notify open agent pages
+		io.emit("agent-reset", { agentId: req.params.agentId, projectId: req.params.projectId, timestamp: Date.now() })
+		res.json({ success: true, message: `Agent ${agent.name} memory cleared` })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-Work collaboratively with other agents in the project. Use available tools to complete tasks.`
-		
-		// Append custom instructions if provided
-		if (customInstructions) {
-			basePrompt += `\n\n## Custom Instructions\n${customInstructions}`
+// Society Agent end
+
+// Society Agent start - agent identity keys
+const projectIdentities = new Map<string, AgentIdentityManager>()
+
+/** Identity manager over a project's .society-agent directory (keys/registry.json) */
+function identitiesFor(projectId: string): AgentIdentityManager {
+	let manager = projectIdentities.get(projectId)
+	if (!manager) {
+		manager = new AgentIdentityManager(path.join(projectStore.projectDir(projectId), ".society-agent"))
+		projectIdentities.set(projectId, manager)
+	}
+	return manager
+}
+
+/**
+ * GET /api/projects/:projectId/identities - Fingerprint history of every agent key
+ * Query: agentId (optional)
+ */
+app.get("/api/projects/:projectId/identities", async (req, res): Promise<void> => {
+	try {
+		if (!projectStore.get(req.params.projectId)) {
+			res.status(404).json({ error: "Project not found" })
+			return
 		}
-		
-		const defaultPrompt = buildFullSystemPrompt(basePrompt)
+		const identities = identitiesFor(req.params.projectId)
+		await identities.loadPublicKeys()
+		const agentId = typeof req.query.agentId === "string" ? req.query.agentId : undefined
+		const keys = identities.keyHistory(agentId).map(({ publicKeyPem, ...record }) => record)
+		const agents: Record<string, typeof keys> = {}
+		for (const key of keys) (agents[key.agentId] ??= []).push(key)
+		res.json({ agents, revoked: identities.revocationList() })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-		// Determine home folder - nest under parent if specified
-		const project = projectStore.get(req.params.id)
-		let agentHomeFolder = homeFolder
-		let effectiveWorkspaceMode = workspaceMode || "isolated"
-		let sharedWorkspaceWith: string | undefined
-		
-		if (!agentHomeFolder) {
-			if (reportsTo && project) {
-				const parentAgent = project.agents.find(a => a.id === reportsTo)
-				const parentHome = parentAgent?.homeFolder || reportsTo
-				
-				// Society Agent - Shared workspace mode: use same folder as supervisor
-				if (effectiveWorkspaceMode === "shared") {
-					agentHomeFolder = parentHome  // Same folder as supervisor!
-					sharedWorkspaceWith = reportsTo
-					log.info(`[API] Agent ${id} will share workspace with supervisor ${reportsTo} at ${parentHome}`)
-				} else {
-					// Standard isolated mode - nest under parent
-					agentHomeFolder = parentHome === "/" ? id : `${parentHome}/${id}`
-				}
-			} else {
-				agentHomeFolder = id
+/**
+ * POST /api/projects/:projectId/identities/:agentId/rotate - Issue a new key; the old one stays valid for the overlap
+ * Body: { overlapMinutes?: number, expiresInDays?: number }
+ */
+app.post("/api/projects/:projectId/identities/:agentId/rotate", async (req, res): Promise<void> => {
+	try {
+		if (!projectStore.get(req.params.projectId)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		const { overlapMinutes, expiresInDays } = req.body || {}
+		for (const [name, value] of Object.entries({ overlapMinutes, expiresInDays })) {
+			if (value !== undefined && (typeof value !== "number" || !(value >= 0))) {
+				res.status(400).json({ error: `${name} must be a non-negative number` })
+				return
+			}
+		}
+		const identities = identitiesFor(req.params.projectId)
+		await identities.loadPublicKeys()
+		const { publicKeyPem, ...key } = await identities.rotateKey(req.params.agentId, {
+			...(overlapMinutes !== undefined && { overlapMs: overlapMinutes * 60_000 }),
+			...(expiresInDays !== undefined && { expiresInMs: expiresInDays * 86_400_000 }),
+		})
+		io.emit("system-event", { type: "agent-key-rotated", projectId: req.params.projectId, agentId: req.params.agentId, keyId: key.keyId, timestamp: Date.now() })
+		res.json({ key, history: identities.keyHistory(req.params.agentId).map(({ publicKeyPem, ...record }) => record) })
+	} catch (error) {
+		if (String(error).includes("Unknown agent")) {
+			res.status(404).json({ error: String(error) })
+			return
+		}
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:projectId/identities/:agentId/revoke - Revoke one key, or all of an agent's keys
+ * Body: { reason: string, keyId?: string }
+ */
+app.post("/api/projects/:projectId/identities/:agentId/revoke", async (req, res): Promise<void> => {
+	try {
+		if (!projectStore.get(req.params.projectId)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		const { reason, keyId } = req.body || {}
+		if (typeof reason !== "string" || !reason.trim()) {
+			res.status(400).json({ error: "reason is required" })
+			return
+		}
+		const identities = identitiesFor(req.params.projectId)
+		await identities.loadPublicKeys()
+		if (keyId !== undefined) {
+			if (!identities.keyHistory(req.params.agentId).some((k) => k.keyId === keyId)) {
+				res.status(404).json({ error: `Unknown key ${keyId} for ${req.params.agentId}` })
+				return
 			}
+			identities.revokeKey(req.params.agentId, keyId, reason.trim())
+		} else {
+			identities.revokeAgent(req.params.agentId, reason.trim())
+		}
+		io.emit("system-event", { type: "agent-key-revoked", projectId: req.params.projectId, agentId: req.params.agentId, keyId: keyId ?? null, reason: reason.trim(), timestamp: Date.now() })
+		res.json({ revoked: identities.revocationList().filter((k) => k.agentId === req.params.agentId) })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
+
+// Society Agent start - federation
+const FEDERATION_SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+/** Every project agent, next to the agents of peer servers (getContactsFor) */
+const agentDirectory = new AgentDirectory({ sharedDir: path.join(getOutputDir(), ".society", "directory") })
+
+/** List the current project agents in the directory */
+function refreshAgentDirectory(): Promise<void> {
+	return publishProjectAgents(agentDirectory, projectStore).catch((error) =>
+		log.warn(`[Federation] Could not list the project agents: ${normalizeErrorMessage(error)}`),
+	)
+}
+
+const federation = createServerFederation(path.join(getOutputDir(), ".society", "federation"), projectStore, agentDirectory, {
+	serverId: process.env.SOCIETY_SERVER_ID,
+	name: process.env.SOCIETY_SERVER_NAME,
+	sentMessage: (projectId, messageId) => messageLog.get(projectId, messageId)?.message,
+})
+agentDirectory
+	.initialize()
+	.then(refreshAgentDirectory)
+	.catch((error) => log.error(`[Federation] Could not open the agent directory: ${normalizeErrorMessage(error)}`))
+federation
+	.initialize()
+	.then((server) => log.info(`[Federation] Server ${server.serverId} (key ${server.fingerprint}), ${federation.listPeers().length} peer(s)`))
+	.catch((error) => log.error(`[Federation] Could not initialize: ${normalizeErrorMessage(error)}`))
+setInterval(() => {
+	if (federation.listPeers().length > 0) federation.exchangeAll().catch(() => undefined)
+	refreshAgentDirectory()
+}, FEDERATION_SYNC_INTERVAL_MS).unref()
+
+/**
+ * Send a recorded message to an agent on a peer server. If it cannot be sent, the
+ * message no longer waits for a response.
+ * @throws FederationError if the peer refuses it or cannot be reached
+ */
+async function sendFederatedMessage(kind: "task_assign" | "message", message: StructuredMessage, fromName: string): Promise<void> {
+	try {
+		await federation.send(kind, message, fromName)
+		io.emit("system-event", { type: "federation-message-sent", projectId: message.projectId, agentId: message.fromAgentId, to: message.toAgentId, kind, messageId: message.messageId, timestamp: Date.now() })
+	} catch (error) {
+		messageLog.update(message.projectId, message.messageId, { response: "not_required" })
+		throw error
+	}
+}
+
+/**
+ * Hand a message from a peer to the local agent. Messages that need an answer run the
+ * agent right away and send its reply back; the rest wait in its inbox.
+ */
+function deliverFederatedMessage(delivery: FederatedDelivery): StoredMessage {
+	const project = projectStore.get(delivery.projectId)
+	const agent = project?.agents.find((a) => a.id === delivery.agentId)
+	if (!project || !agent) throw new FederationError(`Unknown agent ${delivery.projectId}/${delivery.agentId}`, 404)
+
+	const apiKey = standaloneSettings.getProvider().apiKey || process.env.ANTHROPIC_API_KEY
+	const answerNow = delivery.message.responseExpected === "required" && Boolean(apiKey)
+	const stored = answerNow ? recordAgentMessage(delivery.message) : deliverAgentMessage(delivery.message, delivery.fromName)
+	io.emit("system-event", {
+		type: "federation-message-received",
+		projectId: project.id,
+		agentId: agent.id,
+		from: delivery.from,
+		kind: delivery.kind,
+		messageId: stored.message.messageId,
+		timestamp: Date.now(),
+	})
+	if (answerNow) {
+		answerFederatedMessage(project, agent, delivery, stored.message, apiKey!).catch((error) =>
+			log.error(`[Federation] ${agent.id} could not answer ${delivery.from}: ${normalizeErrorMessage(error)}`),
+		)
+	}
+	return stored
+}
+
+async function answerFederatedMessage(project: Project, agent: ProjectAgentConfig, delivery: FederatedDelivery, message: StructuredMessage, apiKey: string): Promise<void> {
+	const prompt = `[${delivery.kind === "task_assign" ? "Task" : "Message"} from ${delivery.fromName}]\n\n${formatMessageAsMarkdown(message)}`
+	agentActivityLogger.logChatIn(project.id, agent.id, project.folder || project.id, agent.homeFolder || "/", prompt, "agent", delivery.fromName, false)
+	enterThread(project.id, agent.id, message)
+	try {
+		const result = await handleSupervisorChat(prompt, agent, project, apiKey, io)
+		const text = result.fullResponse?.trim()
+		if (!text) return
+		const reply = recordAgentMessage(
+			messageFromText(text.slice(0, 4000), agent.id, delivery.from, project.id, { inResponseTo: message, responseExpected: "none" }),
+		).message
+		await sendFederatedMessage("message", reply, agent.name)
+	} finally {
+		leaveThread(project.id, agent.id)
+	}
+}
+
+function sendFederationError(res: express.Response, error: unknown): void {
+	if (error instanceof FederationError) {
+		res.status(error.status).json({ error: error.message })
+		return
+	}
+	if (error instanceof MessageContractError) {
+		res.status(400).json({ error: error.message })
+		return
+	}
+	res.status(500).json({ error: String(error) })
+}
+
+/**
+ * GET /api/federation/identity - This server's ID, name and public key (public: peers pin it)
+ */
+app.get("/api/federation/identity", (_req, res): void => {
+	try {
+		res.json(federation.identity())
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * POST /api/federation/exchange - A peer's signed directory; answered with ours (authenticated by signature)
+ */
+app.post("/api/federation/exchange", (req, res): void => {
+	try {
+		const reply = federation.handleExchange(req.body)
+		io.emit("system-event", { type: "federation-directory-updated", peerId: reply.to, timestamp: Date.now() })
+		res.json(reply)
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * POST /api/federation/inbox - A signed delegation or message from a peer's agent (authenticated by signature)
+ */
+app.post("/api/federation/inbox", (req, res): void => {
+	try {
+		const stored = deliverFederatedMessage(federation.receive(req.body))
+		res.json({ accepted: true, messageId: stored.message.messageId })
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * GET /api/federation/peers - Paired servers with their last exchange, and the agents this server exports
+ */
+app.get("/api/federation/peers", (_req, res): void => {
+	try {
+		res.json({ server: federation.identity(), peers: federation.listPeers(), exported: exportedAgentEntries(projectStore) })
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * POST /api/federation/peers - Pair with a server; its key is pinned and directories exchanged
+ * Body: { url: string, fingerprint?: string }
+ */
+app.post("/api/federation/peers", async (req, res): Promise<void> => {
+	try {
+		const { url, fingerprint } = req.body || {}
+		if (typeof url !== "string" || !url.trim()) {
+			res.status(400).json({ error: "url is required" })
+			return
+		}
+		const peer = await federation.addPeer(url, typeof fingerprint === "string" && fingerprint.trim() ? fingerprint.trim() : undefined)
+		io.emit("system-event", { type: "federation-peer-added", peerId: peer.id, timestamp: Date.now() })
+		res.status(201).json({ peer })
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * POST /api/federation/peers/:peerId/exchange - Exchange directories now
+ */
+app.post("/api/federation/peers/:peerId/exchange", async (req, res): Promise<void> => {
+	try {
+		res.json({ peer: await federation.exchange(req.params.peerId) })
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * DELETE /api/federation/peers/:peerId - Unpair and revoke the peer's key
+ */
+app.delete("/api/federation/peers/:peerId", (req, res): void => {
+	try {
+		if (!federation.removePeer(req.params.peerId)) {
+			res.status(404).json({ error: "Peer not found" })
+			return
+		}
+		io.emit("system-event", { type: "federation-peer-removed", peerId: req.params.peerId, timestamp: Date.now() })
+		res.json({ success: true })
+	} catch (error) {
+		sendFederationError(res, error)
+	}
+})
+
+/**
+ * GET /api/federation/agents - Agents on peer servers that accept work from here
+ */
+app.get("/api/federation/agents", (_req, res): void => {
+	res.json({ agents: federation.remoteAgents() })
+})
+// Society Agent end
+
+// Society Agent start - task templates
+const taskTemplates = new TaskTemplateStore(path.join(getOutputDir(), ".society", "task-templates"))
+
+/**
+ * Create a template's managed tasks and add the delegated ones to their agents' PLAN.md.
+ * Shared by the REST route, the instantiate_task_template tool and scheduled template tasks.
+ * @throws TaskTemplateError for invalid parameters or unknown agents
+ */
+function instantiateTaskTemplate(
+	project: Project,
+	template: TaskTemplate,
+	parameters: Record<string, unknown>,
+	createdBy: string,
+	parentTaskId?: string,
+): NonNullable<ReturnType<typeof projectStore.instantiateTaskTemplate>> {
+	const tasks = projectStore.instantiateTaskTemplate(project.id, template, parameters, { createdBy, parentTaskId })
+	if (!tasks) throw new Error(`Project ${project.id} not found`)
+
+	const creatorName = project.agents.find((a) => a.id === createdBy)?.name ?? createdBy
+	for (const task of tasks) {
+		if (task.assignedTo) addTaskToPlan(projectStore.agentHomeDir(project.id, task.assignedTo), task, creatorName)
+	}
+	io.emit("system-event", {
+		type: "task-template-instantiated",
+		projectId: project.id,
+		templateId: template.id,
+		taskIds: tasks.map((t) => t.taskId),
+		createdBy,
+		timestamp: Date.now(),
+	})
+	return tasks
+}
+
+/**
+ * GET /api/projects/:id/task-templates - The project's task templates
+ */
+app.get("/api/projects/:id/task-templates", (req, res): void => {
+	try {
+		if (!projectStore.get(req.params.id)) {
+			res.status(404).json({ error: "Project not found" })
+			return
+		}
+		res.json({ templates: taskTemplates.list(req.params.id) })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * GET /api/projects/:id/task-templates/:templateId - One task template
+ */
+app.get("/api/projects/:id/task-templates/:templateId", (req, res): void => {
+	try {
+		const template = taskTemplates.get(req.params.id, req.params.templateId)
+		if (!template) {
+			res.status(404).json({ error: "Template not found" })
+			return
 		}
+		res.json(template)
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
 
-		const agent = projectStore.addAgent(req.params.id, {
-			id, name, role,
-			systemPrompt: defaultPrompt,
-			customInstructions,  // Store separately for editing
-			homeFolder: agentHomeFolder,
-			provider,
-			model,
-			behaviorSettings,
-			ephemeral: ephemeral || false,
-			reportsTo,
-			workspaceMode: effectiveWorkspaceMode,
-			sharedWorkspaceWith,
-		})
-		if (!agent) {
+/**
+ * PUT /api/projects/:id/task-templates/:templateId - Create or replace a task template
+ * Body: { name, description?, parameters: [{ name, description?, default? }], delegateTo?,
+ *         steps: [{ key, title, description?, acceptanceCriteria?, dependsOn?, parent?, delegateTo?,
+ *                   priority?, estimatedHours?, storyPoints?, relevantFiles? }], createdBy? }
+ */
+app.put("/api/projects/:id/task-templates/:templateId", (req, res): void => {
+	try {
+		if (!projectStore.get(req.params.id)) {
 			res.status(404).json({ error: "Project not found" })
 			return
 		}
-		
-		// Society Agent - Set up shared workspace if workspaceMode is "shared"
-		if (effectiveWorkspaceMode === "shared" && reportsTo && project) {
-			const wsRegistry = getProjectSharedWorkspaces(req.params.id)
-			try {
-				createSharedWorkspace(wsRegistry, agentHomeFolder, reportsTo, id)
-				log.info(`[API] Created shared workspace: ${agentHomeFolder} (${reportsTo} ↔ ${id})`)
-			} catch (err: any) {
-				// Workspace might already exist - that's OK
-				log.debug(`[API] Shared workspace may already exist: ${err.message}`)
-			}
-		}
-		
-		// Create the agent's home directory
-		const projectFolder = project?.folder || req.params.id
-		const agentDir = path.join(projectStore.projectsBaseDir, projectFolder, agentHomeFolder)
-		if (!fs.existsSync(agentDir)) {
-			fs.mkdirSync(agentDir, { recursive: true })
-			log.info(`[API] Created directory for new agent: ${agentDir}`)
+		const { name, description, parameters = [], steps, delegateTo, createdBy } = req.body || {}
+		try {
+			const template = taskTemplates.save(req.params.id, {
+				id: req.params.templateId,
+				name,
+				description,
+				parameters,
+				steps,
+				delegateTo: delegateTo || undefined,
+				createdBy,
+			})
+			res.json(template)
+		} catch (err) {
+			if (!(err instanceof TaskTemplateError)) throw err
+			res.status(400).json({ error: err.message })
 		}
-		
-		io.emit("system-event", { type: "agent-added", projectId: req.params.id, agentId: id, timestamp: Date.now() })
-		res.status(201).json(agent)
 	} catch (error) {
-		res.status(400).json({ error: String(error) })
+		res.status(500).json({ error: String(error) })
 	}
 })
 
 /**
- * PUT /api/projects/:projectId/agents/:agentId - Update an agent within a project
+ * DELETE /api/projects/:id/task-templates/:templateId - Delete a task template (created tasks are kept)
  */
-app.put("/api/projects/:projectId/agents/:agentId", (req, res): void => {
+app.delete("/api/projects/:id/task-templates/:templateId", (req, res): void => {
 	try {
-		const updates = { ...req.body }
-		if (updates.behaviorSettings?.operatingProfile && !isOperatingProfile(updates.behaviorSettings.operatingProfile)) {
-			res.status(400).json({ error: "Invalid behaviorSettings.operatingProfile" })
+		if (!taskTemplates.delete(req.params.id, req.params.templateId)) {
+			res.status(404).json({ error: "Template not found" })
 			return
 		}
-		if (updates.behaviorSettings?.delegationStyle && !isDelegationStyle(updates.behaviorSettings.delegationStyle)) {
-			res.status(400).json({ error: "Invalid behaviorSettings.delegationStyle" })
+		res.json({ success: true })
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+
+/**
+ * POST /api/projects/:id/task-templates/:templateId/instantiate - Create the template's managed tasks
+ * Body: { parameters?: { [name]: value }, createdBy, parentTaskId? }
+ */
+app.post("/api/projects/:id/task-templates/:templateId/instantiate", (req, res): void => {
+	try {
+		const project = projectStore.get(req.params.id)
+		const template = project && taskTemplates.get(project.id, req.params.templateId)
+		if (!project || !template) {
+			res.status(404).json({ error: project ? "Template not found" : "Project not found" })
 			return
 		}
-		if (updates.behaviorSettings?.verificationStrictness && !isVerificationStrictness(updates.behaviorSettings.verificationStrictness)) {
-			res.status(400).json({ error: "Invalid behaviorSettings.verificationStrictness" })
+		const { parameters = {}, createdBy, parentTaskId } = req.body || {}
+		if (!createdBy) {
+			res.status(400).json({ error: "createdBy is required" })
 			return
 		}
-		
-		// If customInstructions changed, regenerate the system prompt
-		if (updates.customInstructions !== undefined) {
-			const agent = projectStore.getAgent(req.params.projectId, req.params.agentId)
-			if (agent) {
-				const name = updates.name || agent.name
-				const role = updates.role || agent.role
-				let basePrompt = `You are ${name}, a ${role}.
+		try {
+			res.json({ tasks: instantiateTaskTemplate(project, template, parameters, createdBy, parentTaskId) })
+		} catch (err) {
+			if (!(err instanceof TaskTemplateError)) throw err
+			res.status(400).json({ error: err.message })
+		}
+	} catch (error) {
+		res.status(500).json({ error: String(error) })
+	}
+})
+// Society Agent end
 
-Your responsibilities:
-- Fulfill your role as ${role}
+// Society Agent start - scheduled task execution and CRUD endpoints
+const SCHEDULED_COMMAND_TIMEOUT_MS = parseInt(process.env.SCHEDULED_COMMAND_TIMEOUT_MS || String(10 * 60 * 1000), 10)
 
-Work collaboratively with other agents in the project. Use available tools to complete tasks.`
-				
-				if (updates.customInstructions) {
-					basePrompt += `\n\n## Custom Instructions\n${updates.customInstructions}`
-				}
-				
-				updates.systemPrompt = buildFullSystemPrompt(basePrompt)
-			}
-		}
-		
-		const updated = projectStore.updateAgent(req.params.projectId, req.params.agentId, updates)
-		if (!updated) {
-			res.status(404).json({ error: "Project or agent not found" })
-			return
+const taskScheduler = new TaskScheduler(projectStore, {
+	async runAiTask(project, agent, task): Promise<ScheduledRunOutcome> {
+		const apiKey = standaloneSettings.getProvider().apiKey || process.env.ANTHROPIC_API_KEY
+		if (!apiKey) {
+			return { status: "failed", error: "No API key configured" }
 		}
-		const cacheKey = `${req.params.projectId}:${req.params.agentId}`
-		if (activeAgents.has(cacheKey)) {
-			activeAgents.delete(cacheKey)
+		const prompt = `[SCHEDULED TASK: ${task.name}]\n\n${task.prompt}`
+		agentActivityLogger.logChatIn(project.id, agent.id, project.folder, agent.homeFolder || "/", prompt, "system")
+		const result = await handleSupervisorChat(prompt, agent, project, apiKey, io)
+		return { status: "success", output: result.fullResponse }
+	},
+	async runCommandTask(project, agent, task): Promise<ScheduledRunOutcome> {
+		const cwd = projectStore.agentHomeDir(project.id, agent.id)
+		const output: string[] = []
+		const policy = await enforceCommandPolicy(project, agent, task.command!) // Society Agent
+		if (!policy.allowed) return { status: "failed", error: policy.message }
+		try {
+			await commandExecutor.executeCommand(task.command!, {
+				cwd,
+				timeout: SCHEDULED_COMMAND_TIMEOUT_MS,
+				sandbox: agentSandboxSpec(project, agent, cwd),
+				onOutput: (data, type) => output.push(type === "stderr" ? `[stderr] ${data}` : data),
+			})
+			return { status: "success", output: stripAnsiCodes(output.join("")) }
+		} catch (error) {
+			return { status: "failed", output: stripAnsiCodes(output.join("")), error: normalizeErrorMessage(error) }
 		}
-		res.json(updated)
-	} catch (error) {
-		res.status(400).json({ error: String(error) })
+	},
+	async runTemplateTask(project, agent, task): Promise<ScheduledRunOutcome> {
+		const template = taskTemplates.get(project.id, task.templateId!)
+		if (!template) return { status: "failed", error: `Template ${task.templateId} not found` }
+		const tasks = instantiateTaskTemplate(project, template, task.templateParameters ?? {}, agent.id)
+		return { status: "success", output: `Created ${tasks.map((t) => `${t.taskId} (${t.title})`).join(", ")}` }
+	},
+}, {
+	isPaused: () => systemPaused,
+	onEvent: (event) => {
+		io.emit("system-event", { ...event, timestamp: Date.now() })
+	},
+})
+
+function validateScheduledTaskInput(body: any, partial: boolean): string | undefined {
+	if (!partial && (!body.name || !body.cron)) return "name and cron are required"
+	if (body.type !== undefined && !["ai", "command", "template"].includes(body.type)) return "type must be 'ai', 'command' or 'template'"
+	if (body.cron !== undefined && !isValidCronExpression(body.cron)) return `Invalid cron expression: ${body.cron}`
+	const type = body.type || "ai"
+	if (!partial && type === "ai" && !body.prompt) return "AI task requires a prompt"
+	if (!partial && type === "command" && !body.command) return "Command task requires a shell command"
+	if (!partial && type === "template" && !body.templateId) return "Template task requires a templateId"
+	if (body.templateParameters !== undefined && (typeof body.templateParameters !== "object" || body.templateParameters === null)) {
+		return "templateParameters must be an object"
+	}
+	return undefined
+}
+
+/**
+ * GET /api/projects/:projectId/agents/:agentId/scheduled-tasks - List an agent's scheduled tasks
+ */
+app.get("/api/projects/:projectId/agents/:agentId/scheduled-tasks", (req, res): void => {
+	const agent = projectStore.getAgent(req.params.projectId, req.params.agentId)
+	if (!agent) {
+		res.status(404).json({ error: "Project or agent not found" })
+		return
 	}
+	res.json({ scheduledTasks: agent.scheduledTasks || [] })
 })
 
 /**
- * DELETE /api/projects/:projectId/agents/:agentId - Remove agent from project
+ * POST /api/projects/:projectId/agents/:agentId/scheduled-tasks - Create a scheduled task
  */
-app.delete("/api/projects/:projectId/agents/:agentId", (req, res): void => {
+app.post("/api/projects/:projectId/agents/:agentId/scheduled-tasks", (req, res): void => {
 	try {
-		activeAgents.delete(`${req.params.projectId}:${req.params.agentId}`)
-		const removed = projectStore.removeAgent(req.params.projectId, req.params.agentId)
-		if (!removed) {
+		const error = validateScheduledTaskInput(req.body, false)
+		if (error) {
+			res.status(400).json({ error })
+			return
+		}
+		const { name, type, prompt, command, templateId, templateParameters, cron, enabled } = req.body
+		const task = projectStore.addScheduledTask(req.params.projectId, req.params.agentId, {
+			name, type: type || "ai", prompt, command, templateId, templateParameters, cron, enabled,
+		})
+		if (!task) {
 			res.status(404).json({ error: "Project or agent not found" })
 			return
 		}
-		io.emit("system-event", { type: "agent-removed", projectId: req.params.projectId, agentId: req.params.agentId, timestamp: Date.now() })
-		res.json({ success: true })
+		res.status(201).json(task)
 	} catch (error) {
-		res.status(500).json({ error: String(error) })
+		res.status(400).json({ error: String(error) })
 	}
 })
 
 /**
- * POST /api/projects/:projectId/agents/:agentId/reset - Reset agent memory
+ * PUT /api/projects/:projectId/agents/:agentId/scheduled-tasks/:taskId - Update a scheduled task
  */
-app.post("/api/projects/:projectId/agents/:agentId/reset", (req, res): void => {
+app.put("/api/projects/:projectId/agents/:agentId/scheduled-tasks/:taskId", (req, res): void => {
 	try {
-		const agent = projectStore.getAgent(req.params.projectId, req.params.agentId)
-		if (!agent) {
-			res.status(404).json({ error: "Project or agent not found" })
+		const error = validateScheduledTaskInput(req.body, true)
+		if (error) {
+			res.status(400).json({ error })
 			return
 		}
-		activeAgents.delete(`${req.params.projectId}:${req.params.agentId}`)
-		projectStore.resetAgentMemory(req.params.projectId, req.params.agentId)
-		// Society Agent - notify open agent pages
-		io.emit("agent-reset", { agentId: req.params.agentId, projectId: req.params.projectId, timestamp: Date.now() })
-		res.json({ success: true, message: `Agent ${agent.name} memory cleared` })
+		const updates: Record<string, any> = {}
+		for (const field of ["name", "type", "prompt", "command", "templateId", "templateParameters", "cron", "enabled"]) {
+			if (req.body[field] !== undefined) updates[field] = req.body[field]
+		}
+		const task = projectStore.updateScheduledTask(req.params.projectId, req.params.agentId, req.params.taskId, updates)
+		if (!task) {
+			res.status(404).json({ error: "Scheduled task not found" })
+			return
+		}
+		res.json(task)
 	} catch (error) {
-		res.status(500).json({ error: String(error) })
+		res.status(400).json({ error: String(error) })
+	}
+})
+
+/**
+ * DELETE /api/projects/:projectId/agents/:agentId/scheduled-tasks/:taskId - Delete a scheduled task
+ */
+app.delete("/api/projects/:projectId/agents/:agentId/scheduled-tasks/:taskId", (req, res): void => {
+	const removed = projectStore.removeScheduledTask(req.params.projectId, req.params.agentId, req.params.taskId)
+	if (!removed) {
+		res.status(404).json({ error: "Scheduled task not found" })
+		return
 	}
+	res.json({ success: true })
 })
 
+/**
+ * POST /api/projects/:projectId/agents/:agentId/scheduled-tasks/:taskId/run - Run a scheduled task now
+ * Returns immediately; the outcome is persisted on the task and emitted as a system-event.
+ */
+app.post("/api/projects/:projectId/agents/:agentId/scheduled-tasks/:taskId/run", (req, res): void => {
+	const { projectId, agentId, taskId } = req.params
+	if (!projectStore.getScheduledTask(projectId, agentId, taskId)) {
+		res.status(404).json({ error: "Scheduled task not found" })
+		return
+	}
+	if (systemPaused) {
+		res.status(503).json({ error: "System is paused", systemPaused: true })
+		return
+	}
+	const alreadyRunning = taskScheduler.isRunning(projectId, agentId, taskId)
+	taskScheduler.runNow(projectId, agentId, taskId).catch((err) => log.error(`[Scheduler] Manual run of ${taskId} failed:`, err))
+	res.status(202).json({ success: true, taskId, alreadyRunning })
+})
 // Society Agent end
 
 // Society Agent start - agent chat history endpoint
@@ -6657,6 +9916,34 @@ const AGENT_TOOLS: Anthropic.Tool[] = [
 		},
 	},
 	// Society Agent end
+	// Society Agent start - change proposals for files owned by other agents
+	{
+		name: "propose_file_change",
+		description: "Propose a change to a file owned by another agent (see FILES.md). The change is sent to the owner as a patch to accept, merge or reject; you get a message with the outcome. write_file and patch_file on such files do this automatically.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				path: { type: "string", description: "Relative path to the file" },
+				content: { type: "string", description: "The complete new content of the file" },
+				reason: { type: "string", description: "Why the change is needed" },
+			},
+			required: ["path", "content", "reason"],
+		},
+	},
+	{
+		name: "resolve_file_proposal",
+		description: "As the owner of a file, answer a change proposal sent to you: accept it as is, three-way merge it into your current file, or reject it with a reason.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				proposal_id: { type: "string", description: "Proposal ID from the change proposal message" },
+				action: { type: "string", enum: ["accept", "merge", "reject"], description: "What to do with the proposal" },
+				reason: { type: "string", description: "Why the proposal is rejected (required for reject)" },
+			},
+			required: ["proposal_id", "action"],
+		},
+	},
+	// Society Agent end
 	{
 		name: "list_files",
 		description: "List files in a directory within your folder. Use this to see what files exist.",
@@ -6697,10 +9984,16 @@ const AGENT_TOOLS: Anthropic.Tool[] = [
 		input_schema: {
 			type: "object" as const,
 			properties: {
-				agent_id: { type: "string", description: "ID of the agent to message" },
+				agent_id: { type: "string", description: "ID of the agent to message, or the address of an agent on another server (\"project/agent@server\", see list_agents)" },
 				message: { type: "string", description: "Your message content" },
 				priority: { type: "string", enum: ["normal", "urgent"], description: "Priority level. Default: normal" },
 				wait_for_response: { type: "boolean", description: "If true, include the agent's full response. Default: false (just confirms delivery)" },
+				// Society Agent start - typed inter-agent messages
+				in_response_to: { type: "string", description: "ID of the message you are answering (shown in your inbox). Answers to messages that require a response should always set this." },
+				response_expected: { type: "string", enum: ["required", "optional", "none"], description: "Whether the recipient must answer. Default: required for questions, otherwise none. Unanswered required messages are reminded and then escalated." },
+				task_id: { type: "string", description: "Managed task this message is about" },
+				expires_in_minutes: { type: "number", description: "Drop the message if it has not been read or answered within this many minutes" },
+				// Society Agent end
 			},
 			required: ["agent_id", "message"],
 		},
@@ -6713,76 +10006,147 @@ const AGENT_TOOLS: Anthropic.Tool[] = [
 			properties: {
 				mark_read: { type: "boolean", description: "If true, mark messages as read. Default: true" },
 			},
-			required: [],
+			required: [],
+		},
+	},
+	// Society Agent end
+	// Society Agent start - Allow workers to READ from project (other agents' folders)
+	{
+		name: "read_project_file",
+		description: "Read a file from anywhere in the project (READ ONLY). Use this to read code created by other agents, shared configuration, or project documentation. You can read from any agent's folder but can only WRITE to your own folder.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				path: { type: "string", description: "Path relative to project root (e.g. 'agent1/src/App.js', 'agent2/server.js', 'README.md')" },
+			},
+			required: ["path"],
+		},
+	},
+	// Society Agent start - Global skills (read-only for agents)
+	{
+		name: "list_global_skills",
+		description: "List all available global skills. Global skills are shared across all projects and can be read but NOT created by agents (only users can create global skills).",
+		input_schema: {
+			type: "object" as const,
+			properties: {},
+			required: [],
+		},
+	},
+	{
+		name: "read_global_skill",
+		description: "Read a global skill's SKILL.md file. Global skills are shared across all projects. Use list_global_skills first to see available skills.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				skill_name: { type: "string", description: "Name of the skill folder (e.g. 'compile-latex')" },
+			},
+			required: ["skill_name"],
+		},
+	},
+	// Society Agent end - Global skills
+	// Society Agent start - MCP server integration (read-only for agents, user registers servers)
+	{
+		name: "list_mcps",
+		description: "List available MCP servers. MCP servers provide external integrations (GitHub, Playwright, etc.). User-managed only - agents cannot register MCPs.",
+		input_schema: {
+			type: "object" as const,
+			properties: {},
+			required: [],
+		},
+	},
+	{
+		name: "list_mcp_tools",
+		description: "List tools available from a specific MCP server. Use list_mcps() first to see available servers. This connects to the server and fetches its tool definitions.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				server_name: { type: "string", description: "Name of the MCP server (e.g. 'playwright', 'github')" },
+			},
+			required: ["server_name"],
+		},
+	},
+	{
+		name: "use_mcp",
+		description: "Call a tool on an MCP server. Use list_mcp_tools() first to see available tools and their parameters.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				server_name: { type: "string", description: "Name of the MCP server" },
+				tool_name: { type: "string", description: "Name of the tool to call" },
+				params: { type: "object", description: "Tool parameters (depends on the tool)" },
+			},
+			required: ["server_name", "tool_name"],
 		},
 	},
-	// Society Agent end
-	// Society Agent start - Allow workers to READ from project (other agents' folders)
 	{
-		name: "read_project_file",
-		description: "Read a file from anywhere in the project (READ ONLY). Use this to read code created by other agents, shared configuration, or project documentation. You can read from any agent's folder but can only WRITE to your own folder.",
+		name: "list_mcp_resources",
+		description: "List resources (files, records, documents) and resource templates offered by an MCP server. Use read_mcp_resource() to read one.",
 		input_schema: {
 			type: "object" as const,
 			properties: {
-				path: { type: "string", description: "Path relative to project root (e.g. 'agent1/src/App.js', 'agent2/server.js', 'README.md')" },
+				server_name: { type: "string", description: "Name of the MCP server" },
 			},
-			required: ["path"],
+			required: ["server_name"],
 		},
 	},
-	// Society Agent start - Global skills (read-only for agents)
 	{
-		name: "list_global_skills",
-		description: "List all available global skills. Global skills are shared across all projects and can be read but NOT created by agents (only users can create global skills).",
+		name: "read_mcp_resource",
+		description: "Read a resource from an MCP server by URI. Use list_mcp_resources() first to see available URIs and templates.",
 		input_schema: {
 			type: "object" as const,
-			properties: {},
-			required: [],
+			properties: {
+				server_name: { type: "string", description: "Name of the MCP server" },
+				uri: { type: "string", description: "Resource URI (e.g. 'file:///repo/README.md')" },
+			},
+			required: ["server_name", "uri"],
 		},
 	},
 	{
-		name: "read_global_skill",
-		description: "Read a global skill's SKILL.md file. Global skills are shared across all projects. Use list_global_skills first to see available skills.",
+		name: "subscribe_mcp_resource",
+		description: "Get notified in your inbox when an MCP resource changes. Only works for servers that support subscriptions (shown by list_mcp_resources()).",
 		input_schema: {
 			type: "object" as const,
 			properties: {
-				skill_name: { type: "string", description: "Name of the skill folder (e.g. 'compile-latex')" },
+				server_name: { type: "string", description: "Name of the MCP server" },
+				uri: { type: "string", description: "Resource URI to watch" },
 			},
-			required: ["skill_name"],
+			required: ["server_name", "uri"],
 		},
 	},
-	// Society Agent end - Global skills
-	// Society Agent start - MCP server integration (read-only for agents, user registers servers)
 	{
-		name: "list_mcps",
-		description: "List available MCP servers. MCP servers provide external integrations (GitHub, Playwright, etc.). User-managed only - agents cannot register MCPs.",
+		name: "unsubscribe_mcp_resource",
+		description: "Stop update notifications for an MCP resource you subscribed to.",
 		input_schema: {
 			type: "object" as const,
-			properties: {},
-			required: [],
+			properties: {
+				server_name: { type: "string", description: "Name of the MCP server" },
+				uri: { type: "string", description: "Resource URI" },
+			},
+			required: ["server_name", "uri"],
 		},
 	},
 	{
-		name: "list_mcp_tools",
-		description: "List tools available from a specific MCP server. Use list_mcps() first to see available servers. This connects to the server and fetches its tool definitions.",
+		name: "list_mcp_prompts",
+		description: "List prompt templates offered by an MCP server, with their arguments. Use get_mcp_prompt() to render one.",
 		input_schema: {
 			type: "object" as const,
 			properties: {
-				server_name: { type: "string", description: "Name of the MCP server (e.g. 'playwright', 'github')" },
+				server_name: { type: "string", description: "Name of the MCP server" },
 			},
 			required: ["server_name"],
 		},
 	},
 	{
-		name: "use_mcp",
-		description: "Call a tool on an MCP server. Use list_mcp_tools() first to see available tools and their parameters.",
+		name: "get_mcp_prompt",
+		description: "Render a prompt template from an MCP server with the given arguments and return its messages.",
 		input_schema: {
 			type: "object" as const,
 			properties: {
 				server_name: { type: "string", description: "Name of the MCP server" },
-				tool_name: { type: "string", description: "Name of the tool to call" },
-				params: { type: "object", description: "Tool parameters (depends on the tool)" },
+				prompt_name: { type: "string", description: "Name of the prompt" },
+				arguments: { type: "object", description: "Prompt arguments as string values" },
 			},
-			required: ["server_name", "tool_name"],
+			required: ["server_name", "prompt_name"],
 		},
 	},
 	// Society Agent end - MCP
@@ -7224,7 +10588,7 @@ The specs will be saved to the agent's DESIRED_STATE.md for autonomous work.`,
 		input_schema: {
 			type: "object" as const,
 			properties: {
-				agent_id: { type: "string", description: "ID of the agent to delegate to" },
+				agent_id: { type: "string", description: "ID of the agent to delegate to, or the address of an agent on another server (\"project/agent@server\", see list_agents)" },
 				task: { type: "string", description: "Brief task title/summary" },
 				desired_state: { type: "string", description: "DETAILED description of what should exist when done - files, features, behavior" },
 				acceptance_criteria: { type: "array", items: { type: "string" }, description: "List of specific criteria to verify completion" },
@@ -7247,6 +10611,10 @@ The specs will be saved to the agent's DESIRED_STATE.md for autonomous work.`,
 				completion_percentage: { type: "number", description: "Estimated completion 0-100" },
 				blockers: { type: "array", items: { type: "string" }, description: "List of things blocking progress" },
 				questions: { type: "array", items: { type: "string" }, description: "Questions you need answered to proceed" },
+				// Society Agent start - typed inter-agent messages
+				task_id: { type: "string", description: "Task you are reporting on (e.g. the ID you were delegated)" },
+				in_response_to: { type: "string", description: "ID of your supervisor's message this answers. Default: the oldest message from your supervisor still awaiting your response" },
+				// Society Agent end
 			},
 			required: ["status", "summary"],
 		},
@@ -7270,6 +10638,30 @@ The specs will be saved to the agent's DESIRED_STATE.md for autonomous work.`,
 			required: ["title", "description"],
 		},
 	},
+	// Society Agent start - task templates
+	{
+		name: "list_task_templates",
+		description: "List the project's task templates: reusable trees of managed tasks with their parameters.",
+		input_schema: {
+			type: "object" as const,
+			properties: {},
+			required: [],
+		},
+	},
+	{
+		name: "instantiate_task_template",
+		description: "Create the managed tasks of a task template. Tasks get stable IDs, their dependencies and acceptance criteria, and are delegated to the template's agents.",
+		input_schema: {
+			type: "object" as const,
+			properties: {
+				template_id: { type: "string", description: "Template ID (see list_task_templates)" },
+				parameters: { type: "object", description: "Parameter values, e.g. { \"resource\": \"orders\" }" },
+				parent_task_id: { type: "string", description: "Optional managed task the new tasks are subtasks of" },
+			},
+			required: ["template_id"],
+		},
+	},
+	// Society Agent end
 	{
 		name: "list_tasks",
 		description: "List all tasks in the task pool with their status.",
@@ -7327,6 +10719,7 @@ const EPHEMERAL_EXCLUDED_TOOLS = new Set([
 	"delegate_task",       // Can't delegate to others
 	"spawn_worker",        // Can't spawn more workers
 	"create_task",         // Can't create tasks in the pool
+	"instantiate_task_template", // Can't create managed tasks from templates
 	"propose_new_agent",   // Can't propose permanent agents
 ])
 const EPHEMERAL_TOOLS: Anthropic.Tool[] = AGENT_TOOLS.filter(
@@ -7517,6 +10910,11 @@ async function executeAgentTool(
 		workingFolder = projectStore.agentHomeDir(project.id, agentConfig.id)
 	}
 	// Society Agent end
+
+	// Society Agent start - agents of git projects work in their own worktree
+	const worktreeFolder = await agentWorktreeFolder(project, agentConfig)
+	if (worktreeFolder) workingFolder = worktreeFolder
+	// Society Agent end
 	
 	// Also keep agentFolder for tools that need it (like memory files)
 	const agentFolder = projectStore.agentHomeDir(project.id, agentConfig.id)
@@ -7593,6 +10991,11 @@ async function executeAgentTool(
 	})
 	// Society Agent end
 
+	// Society Agent - checkpoint before tools that delete or overwrite files
+	if (CHECKPOINT_TOOLS.has(toolName)) {
+		await checkpointBeforeTool(project, agentConfig, toolName, String(toolInput.command || toolInput.path || toolInput.from_path || ""))
+	}
+
 	// Society Agent start - Handle all worker tools
 	switch (toolName) {
 		case "read_file": {
@@ -7689,6 +11092,10 @@ async function executeAgentTool(
 			}
 		}
 
+		// Society Agent - files owned by another agent become change proposals
+		const ownedWrite = await redirectOwnedFileWrite(project, agentConfig, fullPath, content, "write_file")
+		if (ownedWrite) return { result: ownedWrite, filesCreated: 0 }
+
 		try {
 				// Create directory if needed
 				const dir = path.dirname(fullPath)
@@ -7791,6 +11198,11 @@ async function executeAgentTool(
 				}
 				
 				const newContent = content.replace(old_text, new_text)
+
+				// Society Agent - files owned by another agent become change proposals
+				const ownedWrite = await redirectOwnedFileWrite(project, agentConfig, fullPath, newContent, "patch_file")
+				if (ownedWrite) return { result: ownedWrite, filesCreated: 0 }
+
 				fs.writeFileSync(fullPath, newContent, "utf-8")
 				
 				log.info(`[Worker ${agentConfig.name}] Patched file: ${filePath}`)
@@ -7811,6 +11223,72 @@ async function executeAgentTool(
 		}
 		// Society Agent end
 
+		// Society Agent start - change proposals for files owned by other agents
+		case "propose_file_change": {
+			const { path: filePath, content, reason } = toolInput as { path: string; content: string; reason: string }
+			if (typeof filePath !== "string" || !filePath.trim() || typeof content !== "string" || !reason) {
+				return { result: `❌ path, content and reason are required`, filesCreated: 0 }
+			}
+			const fullPath = path.join(workingFolder, filePath)
+			if (filePath.startsWith("/") || !fullPath.startsWith(workingFolder)) {
+				return { result: `❌ Use a relative path inside your working folder: ${workingFolder}`, filesCreated: 0 }
+			}
+			try {
+				const taskId = findActiveTaskId(project.id, agentConfig.id)
+				const proposal = await submitFileProposal(
+					project.id,
+					agentConfig.id,
+					projectStore.projectFilePath(project.id, agentConfig.id, fullPath),
+					content,
+					reason,
+					{ baseContent: fs.existsSync(fullPath) ? fs.readFileSync(fullPath, "utf-8") : "", taskId },
+				)
+				return {
+					result: `📨 **Change proposed** (\`${proposal?.id}\`)\n\nSent to ${proposal?.owner} for review. You will get a message when they accept, merge or reject it.`,
+					filesCreated: 0,
+				}
+			} catch (err: any) {
+				return { result: `❌ Could not propose the change: ${err.message}`, filesCreated: 0 }
+			}
+		}
+
+		case "resolve_file_proposal": {
+			const { proposal_id, action, reason } = toolInput as { proposal_id: string; action: "accept" | "merge" | "reject"; reason?: string }
+			if (!proposal_id || !["accept", "merge", "reject"].includes(action)) {
+				return { result: `❌ proposal_id and action (accept, merge or reject) are required`, filesCreated: 0 }
+			}
+			try {
+				if (action === "reject") {
+					if (!reason) return { result: `❌ Give a reason when rejecting a proposal`, filesCreated: 0 }
+					const proposal = await projectStore.rejectFileProposal(project.id, proposal_id, agentConfig.id, reason)
+					if (!proposal) return { result: `❌ Project not found`, filesCreated: 0 }
+					notifyProposer(project.id, proposal, `❌ ${proposal.owner} rejected your change to ${proposal.path} (${proposal.id}): ${reason}`)
+					return { result: `✅ Rejected ${proposal.id}; ${proposal.proposedBy} has been told.`, filesCreated: 0 }
+				}
+				if (action === "accept") {
+					const proposal = await projectStore.acceptFileProposal(project.id, proposal_id, agentConfig.id)
+					if (!proposal) return { result: `❌ Project not found`, filesCreated: 0 }
+					notifyProposer(project.id, proposal, `✅ ${proposal.owner} accepted your change to ${proposal.path} (${proposal.id})`)
+					return { result: `✅ Accepted ${proposal.id}: ${proposal.path} now has the proposed content.`, filesCreated: 0 }
+				}
+				const merged = await projectStore.mergeFileProposal(project.id, proposal_id, agentConfig.id)
+				if (!merged) return { result: `❌ Project not found`, filesCreated: 0 }
+				const { proposal, merge } = merged
+				if (merge.conflicts > 0) {
+					return {
+						result: `⚠️ **${merge.conflicts} conflict(s) merging ${proposal.id}** - nothing was written.\n\n` +
+							`Resolve them in ${proposal.path} yourself (merged result below), then reject or accept the proposal.\n\n\`\`\`\n${merge.content}\n\`\`\``,
+						filesCreated: 0,
+					}
+				}
+				notifyProposer(project.id, proposal, `✅ ${proposal.owner} merged your change to ${proposal.path} (${proposal.id})`)
+				return { result: `✅ Merged ${proposal.id} into ${proposal.path}.`, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Could not ${action} the proposal: ${err.message}`, filesCreated: 0 }
+			}
+		}
+		// Society Agent end
+
 		case "list_files": {
 			const { path: dirPath } = toolInput as { path: string }
 			
@@ -7987,6 +11465,22 @@ async function executeAgentTool(
 			}
 			// Society Agent end
 
+			// Society Agent start - project command policy (allow / deny / require-approval)
+			const policyCheck = await enforceCommandPolicy(project, agentConfig, fixedCommand, (decision) => {
+				io.emit("agent-message", {
+					agentId: agentConfig.id,
+					agentName: agentConfig.name,
+					projectId: project.id,
+					message: `\n⏳ *Waiting for human approval to run \`${decision.segment}\`: ${decision.reason}*\n`,
+					timestamp: Date.now(),
+					isStreaming: true,
+				})
+			})
+			if (!policyCheck.allowed) {
+				return { result: `🚫 ${policyCheck.message}\n\n💡 Find another way to do this, or ask your supervisor or the user if it is really needed.`, filesCreated: 0 }
+			}
+			// Society Agent end
+
 			// Society Agent - Normalize test runner commands to non-interactive / single-run mode
 			// vitest, jest, and mocha all default to watch mode which never exits.
 			// Auto-append the appropriate flag so the command resolves cleanly.
@@ -8046,6 +11540,15 @@ async function executeAgentTool(
 				return { result: `❌ Working directory not found: ${workingFolder}\n\n💡 The directory may not exist yet. Check the path or create it first.`, filesCreated: 0 }
 			}
 
+			// Society Agent start - sandboxed execution backend (fails closed without bwrap)
+			const sandbox = agentSandboxSpec(project, agentConfig, workingFolder)
+			const sandboxed = sandbox.settings.backend === "sandbox"
+			if (sandboxed && !isSandboxAvailable()) {
+				log.error(`[Worker ${agentConfig.name}] Sandbox backend selected but bubblewrap is not available`)
+				return { result: `❌ Commands for this agent must run in the sandbox, but bubblewrap (bwrap) is not installed on the server. Ask the operator to install it or switch the execution backend to "host".`, filesCreated: 0 }
+			}
+			// Society Agent end
+
 			io.emit("system-event", {
 				type: "command-start",
 				agentId: agentConfig.id,
@@ -8054,6 +11557,7 @@ async function executeAgentTool(
 				command: fixedCommand,
 				cwd: workingFolder,
 				background: autoBackground,
+				backend: sandbox.settings.backend,
 				timestamp: Date.now(),
 			})
 
@@ -8128,7 +11632,7 @@ async function executeAgentTool(
 		}
 
 		const logFile = `/tmp/worker-${agentConfig.id}-${Date.now()}.log`
-		const bgCommand = `nohup ${strippedCommand} > ${logFile} 2>&1 & echo $!`
+		const bgCommand = `nohup ${wrapShellCommandLine(strippedCommand, sandbox)} > ${logFile} 2>&1 & echo $!` // Society Agent - sandbox-aware
 
 		const cleanEnv = { ...process.env }
 		delete cleanEnv.PORT
@@ -8254,13 +11758,15 @@ async function executeAgentTool(
 		: 120000 // 2 min default for other commands (reduced from 5 min)
 	// For test commands, enforce minimum even if agent passed a shorter timeout
 	// But always respect explicit timeout_ms for non-test commands
-	const timeout = isTestCommand 
-		? Math.max(timeout_ms || defaultTimeout, minTestTimeout)
-		: (timeout_ms || defaultTimeout)
+	// Society Agent - the sandbox's timeoutMs limit caps everything, including test runs
+	const timeout = effectiveTimeout(
+		isTestCommand ? Math.max(timeout_ms || defaultTimeout, minTestTimeout) : (timeout_ms || defaultTimeout),
+		sandbox.settings,
+	)
 
 	// Society Agent start - Auto-prepend sudo for apt commands
 	let finalCommand = fixedCommand
-	if (/^\s*(apt-get|apt|dpkg)\s/.test(fixedCommand) && !fixedCommand.includes("sudo")) {
+	if (/^\s*(apt-get|apt|dpkg)\s/.test(fixedCommand) && !fixedCommand.includes("sudo") && !sandboxed) {
 		finalCommand = `sudo ${fixedCommand}`
 		log.info(`[Worker ${agentConfig.name}] Auto-prepending sudo: ${finalCommand}`)
 	}
@@ -8324,7 +11830,8 @@ async function executeAgentTool(
 				const bgLogPath = `/tmp/bg-${agentConfig.id}-${Date.now()}-${i}.log`
 				try {
 					const bgLogFd = fs.openSync(bgLogPath, "w")
-					const bgChild = spawn("bash", ["-c", bgCmd], {
+					const bgTarget = wrapShellCommand(bgCmd, sandbox) // Society Agent - sandbox-aware
+					const bgChild = spawn(bgTarget.file, bgTarget.args, {
 						cwd: workingFolder,
 						env: { ...process.env, FORCE_COLOR: "0" },
 						stdio: ["ignore", bgLogFd, bgLogFd], // stdout+stderr → log file, no pipe to us
@@ -8348,7 +11855,8 @@ async function executeAgentTool(
 		}
 		const shellCommand = fgLines.join('\n') || 'echo "(no foreground commands)"'
 
-		const child = spawn("bash", ["-c", shellCommand], {
+		const fgTarget = wrapShellCommand(shellCommand, sandbox) // Society Agent - sandbox-aware
+		const child = spawn(fgTarget.file, fgTarget.args, {
 			cwd: workingFolder, // Society Agent - Use workingFolder for commands
 			env: { ...process.env, FORCE_COLOR: "0" },
 		})
@@ -8500,7 +12008,15 @@ async function executeAgentTool(
 				const isSelf = a.id === agentConfig.id
 				return `- **${a.name}** (${a.id})${isSelf ? ' ← you' : ''}\n  Role: ${a.role}`
 			}).join('\n')
-			return { result: `📋 **Agents in project "${project.name}":**\n${agents}`, filesCreated: 0 }
+			// Society Agent start - federation: agents on peer servers that take work from here
+			const address = `${project.id}/${agentConfig.id}`
+			if (!agentDirectory.getAgent(address)) await refreshAgentDirectory()
+			const { remote } = agentDirectory.getContactsFor(address)
+			const remoteList = remote.length === 0 ? "" :
+				`\n\n🌐 **Agents on other servers** (use the full address with send_message or delegate_task; replies arrive in your inbox):\n` +
+				remote.map(a => `- **${a.name}** (${a.agentId})\n  Role: ${a.domain || a.role}`).join('\n')
+			return { result: `📋 **Agents in project "${project.name}":**\n${agents}${remoteList}`, filesCreated: 0 }
+			// Society Agent end
 		}
 
 		case "list_team": {
@@ -9205,6 +12721,85 @@ async function executeAgentTool(
 				return { result: `❌ MCP tool call failed: ${err.message}`, filesCreated: 0 }
 			}
 		}
+
+		case "list_mcp_resources": {
+			const { server_name } = toolInput as { server_name: string }
+			try {
+				const result = await getMcpManager().listMcpResources(server_name, project.id)
+				return { result, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to list MCP resources: ${err.message}`, filesCreated: 0 }
+			}
+		}
+
+		case "read_mcp_resource": {
+			const { server_name, uri } = toolInput as { server_name: string; uri: string }
+			const rateCheck = checkMcpRateLimit(agentConfig.id, server_name)
+			if (!rateCheck.allowed) {
+				log.warn(`[MCP] Rate limit hit for ${agentConfig.id}:${server_name}`)
+				return { result: rateCheck.message!, filesCreated: 0 }
+			}
+			try {
+				const result = await getMcpManager().readMcpResource(server_name, uri, project.id)
+				return { result, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to read MCP resource: ${err.message}`, filesCreated: 0 }
+			}
+		}
+
+		case "subscribe_mcp_resource": {
+			const { server_name, uri } = toolInput as { server_name: string; uri: string }
+			try {
+				await getMcpManager().subscribeResource(server_name, uri, mcpSubscriberId(project.id, agentConfig.id), project.id)
+				return { result: `🔔 Subscribed to ${uri} on "${server_name}". Updates will arrive in your inbox.`, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to subscribe: ${err.message}`, filesCreated: 0 }
+			}
+		}
+
+		case "unsubscribe_mcp_resource": {
+			const { server_name, uri } = toolInput as { server_name: string; uri: string }
+			try {
+				const removed = await getMcpManager().unsubscribeResource(server_name, uri, mcpSubscriberId(project.id, agentConfig.id), project.id)
+				return { result: removed ? `🔕 Unsubscribed from ${uri} on "${server_name}".` : `ℹ️ You were not subscribed to ${uri} on "${server_name}".`, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to unsubscribe: ${err.message}`, filesCreated: 0 }
+			}
+		}
+
+		case "list_mcp_prompts": {
+			const { server_name } = toolInput as { server_name: string }
+			try {
+				const result = await getMcpManager().listMcpPrompts(server_name, project.id)
+				return { result, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to list MCP prompts: ${err.message}`, filesCreated: 0 }
+			}
+		}
+
+		case "get_mcp_prompt": {
+			const { server_name, prompt_name, arguments: promptArgs } = toolInput as {
+				server_name: string
+				prompt_name: string
+				arguments?: Record<string, unknown>
+			}
+			const rateCheck = checkMcpRateLimit(agentConfig.id, server_name)
+			if (!rateCheck.allowed) {
+				log.warn(`[MCP] Rate limit hit for ${agentConfig.id}:${server_name}`)
+				return { result: rateCheck.message!, filesCreated: 0 }
+			}
+			// MCP prompt arguments are strings
+			const args: Record<string, string> = {}
+			for (const [key, value] of Object.entries(promptArgs || {})) {
+				args[key] = typeof value === "string" ? value : JSON.stringify(value)
+			}
+			try {
+				const result = await getMcpManager().getMcpPrompt(server_name, prompt_name, args, project.id)
+				return { result, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to get MCP prompt: ${err.message}`, filesCreated: 0 }
+			}
+		}
 		// Society Agent end - MCP
 
 		// Society Agent start - Shared workspace tool implementations
@@ -9806,7 +13401,40 @@ async function executeAgentTool(
 
 		// Society Agent start - Worker send_message (triggers receiving agent)
 		case "send_message": {
-			const { agent_id, message, priority, wait_for_response } = toolInput as { agent_id: string; message: string; priority?: string; wait_for_response?: boolean }
+			const { agent_id, message, priority, wait_for_response, in_response_to, response_expected, task_id, expires_in_minutes } = toolInput as {
+				agent_id: string
+				message: string
+				priority?: string
+				wait_for_response?: boolean
+				in_response_to?: string
+				response_expected?: "required" | "optional" | "none"
+				task_id?: string
+				expires_in_minutes?: number
+			}
+			// Society Agent start - federation: agents on peer servers
+			if (parseFederatedAddress(agent_id)) {
+				try {
+					const original = in_response_to ? messageLog.get(project.id, in_response_to)?.message : undefined
+					if (in_response_to && !original) {
+						return { result: `❌ Unknown message "${in_response_to}". Use the message ID shown in your inbox.`, filesCreated: 0 }
+					}
+					const structured = recordAgentMessage(
+						messageFromText(message, agentConfig.id, agent_id, project.id, {
+							priority: priority === "urgent" ? "high" : undefined,
+							responseExpected: response_expected,
+							inResponseTo: original,
+							taskId: task_id,
+							expiresAt: expires_in_minutes !== undefined ? new Date(Date.now() + expires_in_minutes * 60_000).toISOString() : undefined,
+						}),
+					).message
+					await sendFederatedMessage("message", structured, agentConfig.name)
+					return { result: `✅ Message sent to ${agent_id} (${structured.messageId}). Their reply will arrive in your inbox.`, filesCreated: 0 }
+				} catch (err) {
+					if (err instanceof MessageContractError || err instanceof FederationError) return { result: `❌ Message not sent: ${err.message}`, filesCreated: 0 }
+					throw err
+				}
+			}
+			// Society Agent end
 			const targetAgent = project.agents.find(a => a.id === agent_id)
 			const exchangeId = `xmsg_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
 
@@ -9846,9 +13474,30 @@ async function executeAgentTool(
 				}
 			}
 
+			// Society Agent start - typed inter-agent messages: validate and record before delivery
+			let structured: StructuredMessage
+			try {
+				const original = in_response_to ? messageLog.get(project.id, in_response_to)?.message : undefined
+				if (in_response_to && !original) {
+					return { result: `❌ Unknown message "${in_response_to}". Use the message ID shown in your inbox.`, filesCreated: 0 }
+				}
+				structured = messageFromText(message, agentConfig.id, agent_id, project.id, {
+					priority: priority === "urgent" ? "high" : undefined,
+					responseExpected: response_expected,
+					inResponseTo: original,
+					taskId: task_id,
+					expiresAt: expires_in_minutes !== undefined ? new Date(Date.now() + expires_in_minutes * 60_000).toISOString() : undefined,
+				})
+				structured = recordAgentMessage(structured).message
+			} catch (err) {
+				if (err instanceof MessageContractError) return { result: `❌ Message rejected: ${err.message}`, filesCreated: 0 }
+				throw err
+			}
+			// Society Agent end
+
 			// If ephemeral worker, just save to inbox (they can't be triggered)
 			if (targetAgent.ephemeral) {
-				sendToInbox(project.id, { id: agentConfig.id, name: agentConfig.name }, agent_id, message, (priority as "normal" | "urgent") || "normal")
+				sendToInbox(project.id, { id: agentConfig.id, name: agentConfig.name }, agent_id, message, (priority as "normal" | "urgent") || "normal", structured)
 				io.emit("agent-peer-message", {
 					exchangeId,
 					projectId: project.id,
@@ -9897,6 +13546,7 @@ async function executeAgentTool(
 			})
 
 			// Log incoming message in the TARGET agent's Activity log
+			enterThread(project.id, targetAgent.id, structured) // Society Agent - the target works in this message's conversation
 			agentActivityLogger.logChatIn(
 				project.id,
 				targetAgent.id,
@@ -9923,6 +13573,7 @@ async function executeAgentTool(
 
 				const responseText = result.fullResponse?.trim() || "(no response)"
 				const responsePreview = responseText.substring(0, 1500) + (responseText.length > 1500 ? "...(truncated)" : "")
+				if (result.fullResponse?.trim()) recordChatReply(structured, responseText) // Society Agent
 
 				// Emit explicit peer-answer event so both sender and receiver chat views show the same answer.
 				io.emit("agent-peer-response", {
@@ -9995,6 +13646,8 @@ async function executeAgentTool(
 					status: "failed",
 				})
 				return { result: `❌ Message delivery failed: ${err.message}`, filesCreated: 0 }
+			} finally {
+				leaveThread(project.id, targetAgent.id) // Society Agent
 			}
 		}
 		// Society Agent end
@@ -10003,6 +13656,7 @@ async function executeAgentTool(
 		case "read_inbox": {
 			const { mark_read } = toolInput as { mark_read?: boolean }
 			const messages = readInbox(project.id, agentConfig.id, mark_read !== false)
+			inboxArrivals.delete(getInboxKey(project.id, agentConfig.id)) // Society Agent - seen them
 
 			if (messages.length === 0) {
 				return { result: `📭 Your inbox is empty.`, filesCreated: 0 }
@@ -10011,9 +13665,16 @@ async function executeAgentTool(
 			const formatted = messages.map(m => {
 				const time = new Date(m.timestamp).toLocaleTimeString()
 				const urgentFlag = m.priority === "urgent" ? " ⚠️ URGENT" : ""
-				return `**From ${m.from.name}** (${time})${urgentFlag}:\n${m.message}`
+				// Society Agent start - typed inter-agent messages
+				const id = m.messageId ? ` \`${m.messageId}\`` : ""
+				const reply = m.responseExpected === "required"
+					? `\n\n↩️ Response required: send_message(agent_id: "${m.from.id}", in_response_to: "${m.messageId}")`
+					: ""
+				return `**From ${m.from.name}**${id} (${time})${urgentFlag}:\n${m.message}${reply}`
+				// Society Agent end
 			}).join("\n\n---\n\n")
 
+			acknowledgeInbox(project.id, agentConfig.id, messages) // Society Agent - delivered
 			return { result: `📬 **${messages.length} message(s) in your inbox:**\n\n${formatted}`, filesCreated: 0 }
 		}
 		// Society Agent end
@@ -10177,6 +13838,18 @@ async function executeAgentTool(
 				result,
 				timestamp: Date.now(),
 			})
+
+			// Society Agent start - merge the worker's branch through the merge queue
+			let mergeNote = ""
+			if (worktrees.get(project.id, agentConfig.id)) {
+				try {
+					const entry = queueAgentMerge(project.id, agentConfig.id, myTask.id)
+					mergeNote = `\n🔀 Queued ${entry.branch} for merging into ${entry.baseBranch}`
+				} catch (error) {
+					mergeNote = `\n⚠️ Could not queue the merge: ${normalizeErrorMessage(error)}`
+				}
+			}
+			// Society Agent end
 			
 			// If ephemeral, schedule self-deletion
 			if (agentConfig.ephemeral) {
@@ -10192,7 +13865,7 @@ async function executeAgentTool(
 				}, 1000)
 			}
 			
-			return { result: `✅ **Task completed: ${myTask.title}**\n\n📝 Summary: ${summary}\n📁 Files created: ${(files_created || []).length}\n📝 Files modified: ${(files_modified || []).length}${reportPath ? `\n📄 Report: ${reportPath}` : ""}\n\n${agentConfig.ephemeral ? '👋 You will now self-destruct. Goodbye!' : ''}`, filesCreated: 0 }
+			return { result: `✅ **Task completed: ${myTask.title}**\n\n📝 Summary: ${summary}\n📁 Files created: ${(files_created || []).length}\n📝 Files modified: ${(files_modified || []).length}${reportPath ? `\n📄 Report: ${reportPath}` : ""}${mergeNote}\n\n${agentConfig.ephemeral ? '👋 You will now self-destruct. Goodbye!' : ''}`, filesCreated: 0 }
 		}
 
 		case "fail_task": {
@@ -10218,6 +13891,9 @@ async function executeAgentTool(
 				timestamp: Date.now(),
 			})
 			
+			// Society Agent - keep the failed worker's work on its branch
+			if (agentConfig.ephemeral) worktrees.release(project.id, agentConfig.id, { keepBranch: true }).catch(() => undefined)
+
 			// If ephemeral, schedule self-deletion
 			if (agentConfig.ephemeral) {
 				setTimeout(() => {
@@ -10282,6 +13958,41 @@ async function executeAgentTool(
 			return { result: `✅ **Task created: ${title}**\n\n📋 ID: \`${task.id}\`\n⚡ Priority: ${priority}/10${dependencyLine}\n📝 ${description.substring(0, 100)}${description.length > 100 ? '...' : ''}${briefPath ? `\n📄 Brief: ${briefPath}` : ""}\n\nSpawn a worker with \`spawn_worker()\` to execute tasks.`, filesCreated: 0 }
 		}
 
+		// Society Agent start - task templates
+		case "list_task_templates": {
+			const templates = taskTemplates.list(project.id)
+			if (templates.length === 0) {
+				return { result: `📋 No task templates in this project.`, filesCreated: 0 }
+			}
+			const lines = templates.map((t) => {
+				const params = t.parameters.map((p) => (p.default !== undefined ? `${p.name}="${p.default}"` : p.name)).join(", ")
+				return `- **${t.id}** — ${t.name}${t.description ? `: ${t.description}` : ""}\n  Steps: ${t.steps.map((s) => s.key).join(" → ")}\n  Parameters: ${params || "(none)"}`
+			})
+			return { result: `📋 **Task templates**\n\n${lines.join("\n")}`, filesCreated: 0 }
+		}
+
+		case "instantiate_task_template": {
+			const { template_id, parameters = {}, parent_task_id } = toolInput as {
+				template_id: string
+				parameters?: Record<string, unknown>
+				parent_task_id?: string
+			}
+			const template = taskTemplates.get(project.id, template_id)
+			if (!template) {
+				return { result: `❌ Task template "${template_id}" not found. Use list_task_templates to see the available templates.`, filesCreated: 0 }
+			}
+			try {
+				const tasks = instantiateTaskTemplate(project, template, parameters, agentConfig.id, parent_task_id)
+				const lines = tasks.map(
+					(t) => `- \`${t.taskId}\` ${t.title}${t.assignedTo ? ` → ${t.assignedTo}` : ""}${t.dependsOn?.length ? ` (after ${t.dependsOn.join(", ")})` : ""}`,
+				)
+				return { result: `✅ **Created ${tasks.length} tasks from "${template.name}"**\n\n${lines.join("\n")}`, filesCreated: 0 }
+			} catch (err: any) {
+				return { result: `❌ Failed to instantiate template: ${err.message}`, filesCreated: 0 }
+			}
+		}
+		// Society Agent end
+
 		case "list_tasks": {
 			const { status = "all" } = toolInput as { status?: string }
 			const tasks = projectStore.getTasks(project.id)
@@ -10634,6 +14345,38 @@ You report to ${parentName}.`),
 			if (!project || !project.id) {
 				return { result: `❌ Delegation failed: Project context is missing or invalid`, filesCreated: 0 }
 			}
+
+			// Society Agent start - federation: the specialist works on a peer server and reports back by message
+			if (parseFederatedAddress(agent_id)) {
+				const remoteTaskId = `T-FED-${Date.now().toString(36).toUpperCase()}`
+				try {
+					const assignment = recordAgentMessage(
+						createTaskAssignment(
+							agentConfig.id,
+							agent_id,
+							project.id,
+							{
+								taskId: remoteTaskId,
+								taskTitle: task,
+								description: desired_state || task,
+								requirements: constraints ?? [],
+								acceptanceCriteria: acceptance_criteria ?? [],
+								context,
+							},
+							priority === "low" || priority === "high" || priority === "critical" ? priority : "normal",
+						),
+					).message
+					await sendFederatedMessage("task_assign", assignment, agentConfig.name)
+					return {
+						result: `✅ Delegated "${task}" to ${agent_id} (${remoteTaskId}, message ${assignment.messageId}).\n\nThe agent works on another server; its report will arrive in your inbox.`,
+						filesCreated: 0,
+					}
+				} catch (err) {
+					if (err instanceof MessageContractError || err instanceof FederationError) return { result: `❌ Delegation failed: ${err.message}`, filesCreated: 0 }
+					throw err
+				}
+			}
+			// Society Agent end
 			
 			// Find target agent
 			const targetAgent = project.agents.find(a => a.id === agent_id && !a.ephemeral)
@@ -10787,6 +14530,31 @@ Initial delegation: ${task}
 			} catch (err: any) {
 				log.warn(`[delegate_task] Task tracking failed (continuing anyway): ${err.message}`)
 			}
+
+			// Society Agent start - typed inter-agent messages: the assignment awaits a report back
+			let assignment: StructuredMessage
+			try {
+				assignment = recordAgentMessage(
+					createTaskAssignment(
+						agentConfig.id,
+						targetAgent.id,
+						project.id,
+						{
+							taskId,
+							taskTitle: task,
+							description: desired_state || task,
+							requirements: constraints ?? [],
+							acceptanceCriteria: acceptance_criteria ?? [],
+							context,
+						},
+						priority === "low" || priority === "high" || priority === "critical" ? priority : "normal",
+					),
+				).message
+			} catch (err) {
+				if (err instanceof MessageContractError) return { result: `❌ Delegation rejected: ${err.message}`, filesCreated: 0 }
+				throw err
+			}
+			// Society Agent end
 			
 			// Emit delegation event with full details
 			io.emit("task-delegated", {
@@ -10836,7 +14604,7 @@ ${context || "No additional context."}
 **Instructions:**
 1. Read this carefully and understand the desired state
 2. Work autonomously to achieve the desired state
-3. Use \`report_to_supervisor\` to report progress, blockers, or completion
+3. Use \`report_to_supervisor\` (task_id: "${taskId}") to report progress, blockers, or completion - ${agentConfig.name} is waiting for your report
 4. Your DESIRED_STATE.md file has been updated with these specs
 5. If you cannot complete something, report it - don't guess
 
@@ -10867,6 +14635,7 @@ ${context || "No additional context."}
 				const delegateApiKey = apiKey || process.env.ANTHROPIC_API_KEY || ""
 				
 				log.info(`[delegate_task] From ${agentConfig.id} to ${targetAgent.id}, calling handleSupervisorChat with targetAgent.id=${targetAgent.id}`)
+				enterThread(project.id, targetAgent.id, assignment) // Society Agent
 				
 				const result = await handleSupervisorChat(
 					delegationMessage,
@@ -10889,6 +14658,8 @@ ${context || "No additional context."}
 			} catch (err: any) {
 				log.error(`[delegate_task] Failed:`, err)
 				return { result: `❌ Delegation failed: ${err.message}\n\nStack: ${err.stack?.substring(0, 500)}`, filesCreated: 0 }
+			} finally {
+				leaveThread(project.id, targetAgent.id) // Society Agent
 			}
 		}
 		// Society Agent end
@@ -10901,7 +14672,9 @@ ${context || "No additional context."}
 				details, 
 				completion_percentage, 
 				blockers, 
-				questions 
+				questions,
+				task_id,
+				in_response_to,
 			} = toolInput as {
 				status: string
 				summary: string
@@ -10909,6 +14682,8 @@ ${context || "No additional context."}
 				completion_percentage?: number
 				blockers?: string[]
 				questions?: string[]
+				task_id?: string
+				in_response_to?: string
 			}
 			const exchangeId = `rpt_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
 			
@@ -10923,6 +14698,34 @@ ${context || "No additional context."}
 				blockers?.length ? `**Blockers:**\n${blockers.map(b => `- ${b}`).join("\n")}` : "",
 				questions?.length ? `**Questions:**\n${questions.map(q => `- ${q}`).join("\n")}` : "",
 			].filter(Boolean).join("\n\n")
+
+			// Society Agent start - typed inter-agent messages: the report goes to the supervisor's inbox
+			// and answers what the supervisor is waiting for
+			if (supervisorId && supervisor) {
+				const awaiting = messageLog.awaitingReply(project.id, supervisorId, agentConfig.id)
+				const answering = in_response_to
+					? messageLog.get(project.id, in_response_to)?.message
+					: (task_id ? awaiting.find((m) => m.message.taskId === task_id) : awaiting[0])?.message
+				if (in_response_to && !answering) {
+					return { result: `❌ Unknown message "${in_response_to}". Use the message ID shown in your inbox.`, filesCreated: 0 }
+				}
+				try {
+					const report = supervisorReportMessage(agentConfig.id, supervisorId, project.id, {
+						status,
+						summary,
+						details,
+						completion_percentage,
+						blockers,
+						questions,
+						taskId: task_id || answering?.taskId,
+					})
+					deliverAgentMessage({ ...report, inResponseTo: answering?.messageId }, agentConfig.name)
+				} catch (err) {
+					if (err instanceof MessageContractError) return { result: `❌ Report rejected: ${err.message}`, filesCreated: 0 }
+					throw err
+				}
+			}
+			// Society Agent end
 			
 			// Emit the report
 			io.emit("agent-report", {
@@ -11607,6 +15410,13 @@ async function handleSupervisorChat(
 		}
 		// Society Agent end
 
+		// Society Agent start - hard cost budgets, checked before every model call
+		if (enforceCostBudget(supervisorConfig, project)) {
+			actLoopExitReason = "budget_exceeded"
+			break
+		}
+		// Society Agent end
+
 		// Society Agent start - Progress indicators (suppressed - replaced by tool cards)
 		// if (iteration > 0) { io.emit(...) }
 		// Society Agent end
@@ -12131,6 +15941,13 @@ async function handleSupervisorChat(
 				log.warn(`[Supervisor] ${supervisorConfig.name} forced verification reminder after ${VERIFY_AFTER_MODS_THRESHOLD} mods without check`)
 			}
 
+			// Society Agent - Tell the agent about messages that arrived while it worked
+			const inboxNotice = takeInboxNotice(project.id, supervisorConfig.id)
+			if (inboxNotice && toolResults.length > 0) {
+				const lastResult = toolResults[toolResults.length - 1] as any
+				if (typeof lastResult.content === 'string') lastResult.content += inboxNotice
+			}
+
 			// Society Agent start - Track what tools were used for progress message
 			const toolNames = toolCallsList.map((tc: any) => {
 				const name = tc.function.name
@@ -12645,6 +16462,13 @@ async function handleSupervisorChat(
 			log.warn(`[Supervisor] ${supervisorConfig.name} forced verification reminder after ${VERIFY_AFTER_MODS_THRESHOLD} mods without check`)
 		}
 
+		// Society Agent - Tell the agent about messages that arrived while it worked
+		const inboxNotice = takeInboxNotice(project.id, supervisorConfig.id)
+		if (inboxNotice && toolResults.length > 0) {
+			const lastResult = toolResults[toolResults.length - 1] as any
+			if (typeof lastResult.content === 'string') lastResult.content += inboxNotice
+		}
+
 		// Society Agent start - Track what tools were used for progress message  
 		const toolNames = toolBlocks.map((tb: Anthropic.ToolUseBlock) => {
 			const input = tb.input as Record<string, any>
@@ -12775,7 +16599,7 @@ async function handleSupervisorChat(
 
 	const finalOrchestrationState = supervisorOrchestrationStates.get(orchestrationKey)
 	if (finalOrchestrationState) {
-		if (actLoopExitReason === "user_stopped") {
+		if (actLoopExitReason === "user_stopped" || actLoopExitReason === "budget_exceeded") {
 			finalOrchestrationState.status = "blocked"
 		} else if (lastCompletionValidation && !lastCompletionValidation.ok) {
 			finalOrchestrationState.status = "in_progress"
@@ -12803,7 +16627,7 @@ async function handleSupervisorChat(
 	// Society Agent - Pending-task auto-continue
 	// If the loop exited normally but the agent was working on tasks that aren't done,
 	// auto-fire a follow-up round so it doesn't silently go idle.
-	const agentWasWorking = actTotalToolCalls > 0 && actLoopExitReason !== "user_stopped"
+	const agentWasWorking = actTotalToolCalls > 0 && actLoopExitReason !== "user_stopped" && actLoopExitReason !== "budget_exceeded"
 	if (agentWasWorking) {
 		const pendingTasks = projectStore.getTasks(project.id)
 			.filter(t => t.status === "available" || (t.status === "in-progress" && t.claimedBy === supervisorConfig.id))
@@ -12971,7 +16795,7 @@ You will self-destruct after completing or failing. Focus on your task.`
 	let fullResponse = ""
 	const MAX_ITERATIONS = 100 // Society Agent - increased from 20 to allow workers to complete more complex tasks
 	let taskCompleted = false
-	let loopExitReason: "max_iterations" | "user_stopped" | "model_stopped" | "too_many_errors" | "timeout_stalled" = "max_iterations"
+	let loopExitReason: "max_iterations" | "user_stopped" | "model_stopped" | "too_many_errors" | "timeout_stalled" | "budget_exceeded" = "max_iterations"
 	const WORKER_MAX_WALL_TIME_MS = 45 * 60 * 1000 // Hard cap to prevent zombie workers
 	const WORKER_API_TIMEOUT_MS = 8 * 60 * 1000 // Protect against hung model calls
 	const WORKER_TOOL_TIMEOUT_MS = 10 * 60 * 1000 // Protect against hung tool calls
@@ -13057,6 +16881,12 @@ You will self-destruct after completing or failing. Focus on your task.`
 			break
 		}
 
+		// Society Agent - hard cost budgets, checked before every model call
+		if (enforceCostBudget(workerConfig, project)) {
+			loopExitReason = "budget_exceeded"
+			break
+		}
+
 		// Society Agent - Trim old tool results if approaching context limit
 		// 16.7A: cap history to last N turns before trimming
 		const _wLimited = limitHistory(messages)
@@ -13303,7 +17133,7 @@ You will self-destruct after completing or failing. Focus on your task.`
 				consecutiveReadOnlyIterations = 0
 			}
 
-			messages.push({ role: "user", content: toolResults.map(r => r.content).join("\n\n") })
+			messages.push({ role: "user", content: toolResults.map(r => r.content).join("\n\n") + takeInboxNotice(project.id, workerId) }) // Society Agent - inbox notice
 			
 		} else if (anthropic) {
 			// Anthropic path
@@ -13501,6 +17331,12 @@ You will self-destruct after completing or failing. Focus on your task.`
 				break
 			}
 
+			// Society Agent - Tell the worker about messages that arrived while it worked
+			const inboxNotice = takeInboxNotice(project.id, workerId)
+			if (inboxNotice && toolResults.length > 0) {
+				const lastResult = toolResults[toolResults.length - 1] as any
+				if (typeof lastResult.content === 'string') lastResult.content += inboxNotice
+			}
 			messages.push({ role: "user", content: toolResults })
 		}
 		} catch (iterErr: any) {
@@ -13563,7 +17399,8 @@ You will self-destruct after completing or failing. Focus on your task.`
 	const activityExitReason =
 		exitReason === "end_turn" ||
 		exitReason === "user_stopped" ||
-		exitReason === "max_iterations"
+		exitReason === "max_iterations" ||
+		exitReason === "budget_exceeded"
 			? exitReason
 			: "unknown"
 	agentActivityLogger.logLoopExit(project.id, workerId, project.folder, workerHomeFolder, activityExitReason, actualIterations, totalToolCalls, workerStartTime, taskCompleted ? "Task completed" : `Worker loop ended (${loopExitReason})`)
@@ -13579,6 +17416,8 @@ You will self-destruct after completing or failing. Focus on your task.`
 				? "too many internal errors"
 				: loopExitReason === "timeout_stalled"
 				? "timed out while waiting on model/tools"
+				: loopExitReason === "budget_exceeded"
+				? "cost budget reached"
 				: `hit max iterations (${MAX_ITERATIONS})`
 		log.warn(`[Worker ${workerName}] Exited without completion: ${reasonLabel}`)
 		const orphanedTask = projectStore
@@ -13618,6 +17457,8 @@ You will self-destruct after completing or failing. Focus on your task.`
 					? `Worker aborted after repeated internal errors. Task auto-returned to pool. ${lastIterationErrorSnippet ? `Last error: ${lastIterationErrorSnippet}` : ""}`.trim()
 					: loopExitReason === "timeout_stalled"
 					? `Worker timed out while waiting on model/tools. Task auto-returned to pool.`
+					: loopExitReason === "budget_exceeded"
+					? `Worker paused because a cost budget was reached. Task auto-returned to pool.`
 					: `Worker hit max iterations without completion. Task auto-returned to pool.`
 			projectStore.failTask(project.id, orphanedTask.id, failReason)
 			const failedTask = projectStore.getTask(project.id, orphanedTask.id)
@@ -13632,7 +17473,7 @@ You will self-destruct after completing or failing. Focus on your task.`
 
 			// Auto-recovery: spawn replacement worker while retries remain.
 			const supervisorId = workerConfig.reportsTo
-			const canAutoRetry = loopExitReason !== "user_stopped" && !!supervisorId
+			const canAutoRetry = loopExitReason !== "user_stopped" && loopExitReason !== "budget_exceeded" && !!supervisorId
 			if (canAutoRetry && failedTask) {
 				const retryCount = failedTask.retryCount || 0
 				const maxRetries = failedTask.maxRetries ?? 2
@@ -13795,12 +17636,19 @@ You will self-destruct after completing or failing. Focus on your task.`
 					? `⚠️ Worker ${workerName} aborted after repeated errors. Task was returned to the pool.`
 					: loopExitReason === "timeout_stalled"
 					? `⚠️ Worker ${workerName} timed out while waiting on model/tools. Task was returned to the pool.`
+					: loopExitReason === "budget_exceeded"
+					? `⚠️ Worker ${workerName} reached a cost budget. Task was returned to the pool.`
 					: `⚠️ Worker ${workerName} hit max iterations (${MAX_ITERATIONS}). Task was returned to the pool.`,
 			timestamp: Date.now(),
 		})
 	}
 
 	if (workerConfig.ephemeral && !taskCompleted) {
+		// Society Agent start - keep the unfinished work on the worker's branch
+		worktrees.release(project.id, workerId, { keepBranch: true }).catch((error) =>
+			log.error(`[Worktrees] Releasing ${workerId} failed: ${normalizeErrorMessage(error)}`),
+		)
+		// Society Agent end
 		projectStore.heartbeatWorkerSession(project.id, workerId, { status: "stopping" })
 		projectStore.removeAgent(project.id, workerId)
 		io.emit("agent-deleted", {
@@ -13924,6 +17772,7 @@ This ensures files are automatically saved in your project folder. Do NOT just d
 - Knowledge storage: quick tips → KNOWLEDGE.md | procedures → skills/name/SKILL.md | state → AGENTS.md
 - Skills: project skills in \`skills/\` (you can create) · global skills in /skills/ (read-only, use \`read_global_skill\`)
 - MCPs (external integrations): \`list_mcps()\` → \`list_mcp_tools(name)\` → \`use_mcp(name, tool, params)\`
+- MCP data & prompts: \`list_mcp_resources(name)\` → \`read_mcp_resource(name, uri)\` (\`subscribe_mcp_resource\` for inbox updates) · \`list_mcp_prompts(name)\` → \`get_mcp_prompt(name, prompt, args)\`
 - Wrap complex reasoning in \`<thinking>...</thinking>\` — shown as collapsible block in UI`
 	// Society Agent end
 
@@ -14910,9 +18759,33 @@ app.post("/api/purpose/:purposeId/stop", async (req, res): Promise<void> => {
 // WebSocket Events (Real-time Communication)
 // ============================================================================
 
+// Society Agent start - authenticate the Socket.IO handshake
+io.use((socket, next) => {
+	const user = authManager.authenticate({
+		authorization: socket.handshake.headers.authorization,
+		cookie: socket.handshake.headers.cookie,
+		token: typeof socket.handshake.auth?.token === "string" ? socket.handshake.auth.token : undefined,
+	})
+	if (!user) {
+		next(new Error("Authentication required"))
+		return
+	}
+	socket.data.authUser = user
+	next()
+})
+// Society Agent end
+
 io.on("connection", (socket) => {
 	const clientId = socket.id
 	connectedClients.add(clientId)
+	// Society Agent start - scope project events to the user's projects
+	const socketUser: AuthUser = socket.data.authUser
+	if (socketUser.role === "admin" || socketUser.projects.includes("*")) {
+		socket.join(ALL_PROJECTS_ROOM)
+	} else {
+		for (const projectId of socketUser.projects) socket.join(projectRoom(projectId))
+	}
+	// Society Agent end
 
 	log.info(`Client connected: ${clientId}`)
 
@@ -14928,6 +18801,12 @@ io.on("connection", (socket) => {
 			ptyProcess = null
 		}
 
+		// Society Agent - a host shell is admin-only, like /api/terminal
+		if (!roleAtLeast(socketUser.role, "admin")) {
+			socket.emit("terminal-output", `\x1b[31mTerminal access requires the admin role\x1b[0m\r\n`)
+			return
+		}
+
 		const shell = opts.shell || process.env.SHELL || "/bin/bash"
 		// Society Agent start - scope terminal cwd to agent's workspace folder
 		let cwd: string
@@ -15013,6 +18892,16 @@ io.on("connection", (socket) => {
 	// Society Agent start - Stop agent handler
 	socket.on("stop-agent", (data: { agentId?: string }) => {
 		const agentId = data.agentId || "default"
+		if (!roleAtLeast(socketUser.role, "operator")) {
+			socket.emit("error", { message: "Stopping agents requires the operator role" })
+			return
+		}
+		// Society Agent - a stop applies to every agent with this ID, so the user must be a member of all their projects
+		const projectIds = agentProjectIds(agentId)
+		if (!(projectIds.length > 0 ? projectIds : ["*"]).every((projectId) => canAccessProject(socketUser, projectId))) {
+			socket.emit("error", { message: `Not a member of the project of agent ${agentId}` })
+			return
+		}
 		log.info(`Client ${clientId} requested stop for agent ${agentId}`)
 		// Add to stopped set - the agentic loop will check this
 		stoppedAgents.add(agentId)
@@ -15078,14 +18967,22 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 
 async function start() {
 	try {
-		// Society Agent start - initialize standalone settings
+		// Society Agent start - open the secrets vault; provider keys still in .env files move into it
 		const workspacePath = getWorkspacePath()
+		const vault = initSecretsVault(workspacePath)
+		for (const envPath of new Set([path.join(workspacePath, ".env"), path.resolve(process.cwd(), ".env")])) {
+			vault.importEnvFile(envPath, PROVIDER_KEY_ENV_VARS, { actor: "server" })
+		}
+		vault.exportToEnv({ actor: "server", purpose: "load provider API keys" })
+		// Society Agent end
+
+		// Society Agent start - initialize standalone settings
 		initializeSettings(workspacePath)
 		log.info(getSettingsSummary())
 		// Society Agent end
 		
 		// Society Agent start - initialize MCP client manager
-		initMcpManager(workspacePath)
+		initMcpManager(workspacePath).on("resource-updated", notifyMcpResourceUpdate)
 		log.info(`MCP client manager initialized`)
 		// Society Agent end
 		
@@ -15124,6 +19021,18 @@ async function start() {
 		log.info(`Diagnostics watchers started for ${existingProjects.length} existing project(s)`)
 		// Society Agent end
 
+		// Society Agent start - make sure an admin can sign in
+		authManager.ensureAdminUser()
+		log.info(authManager.enabled ? `Authentication enabled (providers: ${authManager.getProviderNames().join(", ")})` : `Authentication disabled (AUTH_MODE=none)`)
+		// Society Agent end
+
+		// Society Agent start - start the scheduled task runner (catches up on missed runs)
+		taskScheduler.start()
+		pullRequestMonitor.start()
+		issueSync.start()
+		responseMonitor.start()
+		// Society Agent end
+
 		// Society Agent - startup self-healing for stale task/worker state
 		// runStartupSelfHealing()
 
@@ -15160,6 +19069,11 @@ start()
 process.on("SIGTERM", () => {
 	log.info("SIGTERM received, shutting down gracefully")
 	diagnosticsWatcher.stopAll()
+	taskScheduler.stop()
+	pullRequestMonitor.stop() // Society Agent
+	issueSync.stop() // Society Agent
+	responseMonitor.stop() // Society Agent
+	costBudgets.flush() // Society Agent
 	server.close(() => {
 		log.info("Server closed")
 		process.exit(0)
@@ -0,0 +1,365 @@
+// Society Agent - new file
+/**
+ * Task Dependency Graph - the managed-task DAG, its cycles and its critical path
+ *
+ * Builds the graph from `ManagedTask.dependsOn` and reports:
+ *   - cycles (strongly connected components) and dependencies on unknown tasks
+ *   - the critical path, with earliest/latest start and slack per task (CPM)
+ *   - how much downstream work each task holds up, and the worst blocked tasks
+ *   - Mermaid and Graphviz DOT renderings
+ *
+ * Durations are in hours: the actual time for finished tasks, the estimate (or
+ * the time already spent, if longer) for the rest, and DEFAULT_TASK_HOURS when a
+ * task has no estimate.
+ */
+
+import type { ManagedTask, TaskStatus } from "./task-manager"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaskGraphNode {
+	taskId: string
+	title: string
+	status: TaskStatus
+	assignedTo?: string
+	priority: ManagedTask["priority"]
+	/** Hours used for scheduling */
+	durationHours: number
+	durationSource: "actual" | "estimate" | "elapsed" | "default" | "none"
+	earliestStart: number
+	earliestFinish: number
+	latestStart: number
+	latestFinish: number
+	/** How far the task can slip without delaying the project (hours) */
+	slack: number
+	critical: boolean
+	/** Part of a dependency cycle (scheduled as if the cycle's edges were absent) */
+	inCycle: boolean
+	/** Unfinished tasks that transitively wait for this one */
+	downstreamTasks: string[]
+	/** Their total duration in hours */
+	downstreamHours: number
+}
+
+export interface TaskGraphEdge {
+	/** The dependency */
+	from: string
+	/** The task that waits for it */
+	to: string
+	critical: boolean
+}
+
+export interface TaskGraph {
+	nodes: TaskGraphNode[]
+	edges: TaskGraphEdge[]
+	/** Each cycle as the task IDs in it */
+	cycles: string[][]
+	/** `dependsOn` entries naming tasks that do not exist */
+	missingDependencies: Array<{ taskId: string; dependsOn: string }>
+	/** Longest chain of dependent work, first task first */
+	criticalPath: string[]
+	/** Length of the critical path in hours */
+	totalHours: number
+	/** Blocked tasks, most downstream work first */
+	blockers: Array<{ taskId: string; title: string; assignedTo?: string; downstreamTasks: number; downstreamHours: number }>
+}
+
+/** Hours assumed for a task without an estimate */
+export const DEFAULT_TASK_HOURS = 1
+
+const FINISHED: TaskStatus[] = ["done", "verified"]
+const DROPPED: TaskStatus[] = ["cancelled", "failed"]
+const EPSILON = 1e-6
+
+// ============================================================================
+// DURATIONS
+// ============================================================================
+
+function hoursBetween(from: string, to: string): number {
+	return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / 3_600_000)
+}
+
+/** When the task first went in_progress */
+function startedAt(task: ManagedTask): string | undefined {
+	return task.startedAt ?? task.statusHistory.find((t) => t.to === "in_progress")?.timestamp
+}
+
+/**
+ * Hours a task takes for scheduling purposes
+ */
+export function taskDurationHours(task: ManagedTask, now: Date = new Date()): Pick<TaskGraphNode, "durationHours" | "durationSource"> {
+	if (DROPPED.includes(task.status)) {
+		return { durationHours: 0, durationSource: "none" }
+	}
+	const started = startedAt(task)
+	if (FINISHED.includes(task.status) && started) {
+		const finished = task.completedAt ?? task.verifiedAt ?? task.statusHistory.at(-1)!.timestamp
+		return { durationHours: round(hoursBetween(started, finished)), durationSource: "actual" }
+	}
+	const elapsed = started ? hoursBetween(started, now.toISOString()) : 0
+	if (task.estimatedHours !== undefined) {
+		return elapsed > task.estimatedHours
+			? { durationHours: round(elapsed), durationSource: "elapsed" }
+			: { durationHours: task.estimatedHours, durationSource: "estimate" }
+	}
+	return elapsed > DEFAULT_TASK_HOURS
+		? { durationHours: round(elapsed), durationSource: "elapsed" }
+		: { durationHours: DEFAULT_TASK_HOURS, durationSource: "default" }
+}
+
+function round(hours: number): number {
+	return Math.round(hours * 100) / 100
+}
+
+// ============================================================================
+// CYCLES
+// ============================================================================
+
+/**
+ * Strongly connected components that form cycles (Tarjan), each in task order
+ */
+export function findDependencyCycles(tasks: ManagedTask[]): string[][] {
+	const ids = new Set(tasks.map((t) => t.taskId))
+	const deps = new Map(tasks.map((t) => [t.taskId, (t.dependsOn ?? []).filter((d) => ids.has(d))]))
+	const index = new Map<string, number>()
+	const lowLink = new Map<string, number>()
+	const stack: string[] = []
+	const onStack = new Set<string>()
+	const cycles: string[][] = []
+	let counter = 0
+
+	const connect = (id: string) => {
+		index.set(id, counter)
+		lowLink.set(id, counter++)
+		stack.push(id)
+		onStack.add(id)
+		for (const dep of deps.get(id)!) {
+			if (!index.has(dep)) {
+				connect(dep)
+				lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dep)!))
+			} else if (onStack.has(dep)) {
+				lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dep)!))
+			}
+		}
+		if (lowLink.get(id) === index.get(id)) {
+			const component: string[] = []
+			let member: string
+			do {
+				member = stack.pop()!
+				onStack.delete(member)
+				component.push(member)
+			} while (member !== id)
+			if (component.length > 1 || deps.get(id)!.includes(id)) {
+				const order = tasks.map((t) => t.taskId)
+				cycles.push(component.sort((a, b) => order.indexOf(a) - order.indexOf(b)))
+			}
+		}
+	}
+
+	for (const task of tasks) {
+		if (!index.has(task.taskId)) connect(task.taskId)
+	}
+	return cycles
+}
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/**
+ * Build the dependency graph with critical-path scheduling
+ */
+export function buildTaskGraph(tasks: ManagedTask[], now: Date = new Date()): TaskGraph {
+	const byId = new Map(tasks.map((t) => [t.taskId, t]))
+	const cycles = findDependencyCycles(tasks)
+	const cycleOf = new Map<string, number>()
+	cycles.forEach((cycle, i) => cycle.forEach((id) => cycleOf.set(id, i)))
+
+	// Edges; those inside a cycle are left out of scheduling
+	const missingDependencies: TaskGraph["missingDependencies"] = []
+	const edges: TaskGraphEdge[] = []
+	for (const task of tasks) {
+		for (const dep of new Set(task.dependsOn ?? [])) {
+			if (!byId.has(dep)) missingDependencies.push({ taskId: task.taskId, dependsOn: dep })
+			else edges.push({ from: dep, to: task.taskId, critical: false })
+		}
+	}
+	const isScheduled = (e: TaskGraphEdge) => !(cycleOf.has(e.from) && cycleOf.get(e.from) === cycleOf.get(e.to))
+	const scheduled = edges.filter(isScheduled)
+	const incoming = new Map(tasks.map((t) => [t.taskId, [] as string[]]))
+	const outgoing = new Map(tasks.map((t) => [t.taskId, [] as string[]]))
+	for (const edge of scheduled) {
+		incoming.get(edge.to)!.push(edge.from)
+		outgoing.get(edge.from)!.push(edge.to)
+	}
+
+	// Topological order (Kahn), keeping the tasks' own order among equals
+	const remaining = new Map(tasks.map((t) => [t.taskId, incoming.get(t.taskId)!.length]))
+	const order: string[] = []
+	const ready = tasks.filter((t) => remaining.get(t.taskId) === 0).map((t) => t.taskId)
+	while (ready.length > 0) {
+		const id = ready.shift()!
+		order.push(id)
+		for (const next of outgoing.get(id)!) {
+			remaining.set(next, remaining.get(next)! - 1)
+			if (remaining.get(next) === 0) ready.push(next)
+		}
+	}
+
+	const nodes = new Map<string, TaskGraphNode>()
+	for (const task of tasks) {
+		nodes.set(task.taskId, {
+			taskId: task.taskId,
+			title: task.title,
+			status: task.status,
+			assignedTo: task.assignedTo,
+			priority: task.priority,
+			...taskDurationHours(task, now),
+			earliestStart: 0,
+			earliestFinish: 0,
+			latestStart: 0,
+			latestFinish: 0,
+			slack: 0,
+			critical: false,
+			inCycle: cycleOf.has(task.taskId),
+			downstreamTasks: [],
+			downstreamHours: 0,
+		})
+	}
+
+	// Forward pass
+	for (const id of order) {
+		const node = nodes.get(id)!
+		node.earliestStart = Math.max(0, ...incoming.get(id)!.map((dep) => nodes.get(dep)!.earliestFinish))
+		node.earliestFinish = node.earliestStart + node.durationHours
+	}
+	const totalHours = Math.max(0, ...[...nodes.values()].map((n) => n.earliestFinish))
+
+	// Backward pass
+	for (const id of [...order].reverse()) {
+		const node = nodes.get(id)!
+		node.latestFinish = Math.min(totalHours, ...outgoing.get(id)!.map((next) => nodes.get(next)!.latestStart))
+		node.latestStart = node.latestFinish - node.durationHours
+		node.slack = round(node.latestStart - node.earliestStart)
+		node.critical = Math.abs(node.slack) < EPSILON
+	}
+	for (const node of nodes.values()) {
+		for (const key of ["earliestStart", "earliestFinish", "latestStart", "latestFinish"] as const) {
+			node[key] = round(node[key])
+		}
+	}
+
+	// Critical path: walk back from the last critical task along critical dependencies
+	const criticalPath: string[] = []
+	let current = [...order].reverse().find((id) => nodes.get(id)!.critical && Math.abs(nodes.get(id)!.earliestFinish - totalHours) < EPSILON)
+	while (current) {
+		criticalPath.unshift(current)
+		const node = nodes.get(current)!
+		current = incoming
+			.get(current)!
+			.find((dep) => nodes.get(dep)!.critical && Math.abs(nodes.get(dep)!.earliestFinish - node.earliestStart) < EPSILON)
+	}
+	for (const edge of edges) {
+		const from = criticalPath.indexOf(edge.from)
+		edge.critical = from >= 0 && criticalPath[from + 1] === edge.to
+	}
+
+	// Downstream work: unfinished tasks reachable through dependents (cycles included)
+	const dependents = new Map(tasks.map((t) => [t.taskId, edges.filter((e) => e.from === t.taskId).map((e) => e.to)]))
+	for (const node of nodes.values()) {
+		const seen = new Set<string>()
+		const queue = [...dependents.get(node.taskId)!]
+		while (queue.length > 0) {
+			const id = queue.shift()!
+			if (seen.has(id) || id === node.taskId) continue
+			seen.add(id)
+			queue.push(...dependents.get(id)!)
+		}
+		const waiting = [...seen].filter((id) => ![...FINISHED, ...DROPPED].includes(byId.get(id)!.status))
+		node.downstreamTasks = waiting
+		node.downstreamHours = round(waiting.reduce((sum, id) => sum + nodes.get(id)!.durationHours, 0))
+	}
+
+	const blockers = [...nodes.values()]
+		.filter((n) => n.status === "blocked")
+		.sort((a, b) => b.downstreamHours - a.downstreamHours || b.downstreamTasks.length - a.downstreamTasks.length)
+		.map((n) => ({
+			taskId: n.taskId,
+			title: n.title,
+			assignedTo: n.assignedTo,
+			downstreamTasks: n.downstreamTasks.length,
+			downstreamHours: n.downstreamHours,
+		}))
+
+	return {
+		nodes: tasks.map((t) => nodes.get(t.taskId)!),
+		edges,
+		cycles,
+		missingDependencies,
+		criticalPath,
+		totalHours: round(totalHours),
+		blockers,
+	}
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function nodeLabel(node: TaskGraphNode): string {
+	const title = node.title.replace(/["\\]/g, "'")
+	return `${node.taskId}: ${title.length > 40 ? title.slice(0, 37) + "..." : title}\\n${node.status} · ${node.durationHours}h`
+}
+
+/**
+ * Render the graph as a Mermaid flowchart
+ */
+export function taskGraphToMermaid(graph: TaskGraph): string {
+	const key = (id: string) => id.replace(/[^A-Za-z0-9_]/g, "_")
+	const lines = ["flowchart TD"]
+	for (const node of graph.nodes) {
+		lines.push(`\t${key(node.taskId)}["${nodeLabel(node).replace("\\n", "<br/>")}"]`)
+	}
+	for (const edge of graph.edges) {
+		lines.push(`\t${key(edge.from)} ${edge.critical ? "==>" : "-->"} ${key(edge.to)}`)
+	}
+	lines.push(
+		"\tclassDef critical stroke:#d33,stroke-width:3px",
+		"\tclassDef blocked fill:#fdd",
+		"\tclassDef finished fill:#dfd",
+		"\tclassDef cycle stroke:#f80,stroke-dasharray:4",
+	)
+	const classes: Array<[string, (n: TaskGraphNode) => boolean]> = [
+		["critical", (n) => n.critical],
+		["blocked", (n) => n.status === "blocked"],
+		["finished", (n) => FINISHED.includes(n.status)],
+		["cycle", (n) => n.inCycle],
+	]
+	for (const [name, test] of classes) {
+		const members = graph.nodes.filter(test).map((n) => key(n.taskId))
+		if (members.length > 0) lines.push(`\tclass ${members.join(",")} ${name}`)
+	}
+	return lines.join("\n")
+}
+
+/**
+ * Render the graph in Graphviz DOT
+ */
+export function taskGraphToDot(graph: TaskGraph): string {
+	const lines = ["digraph tasks {", "\trankdir=LR", '\tnode [shape=box, style="rounded,filled", fillcolor=white]']
+	for (const node of graph.nodes) {
+		const attrs = [`label="${nodeLabel(node)}"`]
+		if (node.status === "blocked") attrs.push("fillcolor=mistyrose")
+		else if (FINISHED.includes(node.status)) attrs.push("fillcolor=honeydew")
+		if (node.critical) attrs.push("color=red", "penwidth=2")
+		if (node.inCycle) attrs.push("style=\"rounded,filled,dashed\"")
+		lines.push(`\t"${node.taskId}" [${attrs.join(", ")}]`)
+	}
+	for (const edge of graph.edges) {
+		lines.push(`\t"${edge.from}" -> "${edge.to}"${edge.critical ? " [color=red, penwidth=2]" : ""}`)
+	}
+	lines.push("}")
+	return lines.join("\n")
+}
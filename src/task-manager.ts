@@ -94,6 +94,72 @@ export interface VerificationResult {
 	commitHash?: string
 }
 
+// Society Agent start - pull/merge requests
+/**
+ * A pull request (GitHub) or merge request (GitLab) opened for a task.
+ * Polled until it is merged or closed; a merge moves the task to done.
+ */
+export interface TaskPullRequest {
+	provider: "github" | "gitlab"
+	/** PR number on GitHub, MR iid on GitLab */
+	number: number
+	/** Web URL of the pull request */
+	url: string
+	state: "open" | "merged" | "closed"
+	title: string
+	sourceBranch: string
+	targetBranch: string
+	/** Git host (e.g. "github.com", "gitlab.example.com:8080") */
+	host: string
+	/** Repository path on the host (e.g. "group/app") */
+	repository: string
+	/** Credential used to open it, reused for polling */
+	credentialId?: string
+	openedAt: string
+	lastCheckedAt?: string
+	mergedAt?: string
+	mergeCommit?: string
+}
+// Society Agent end
+
+// Society Agent start - issue tracker sync
+/** Task fields kept in step with the linked issue */
+export type IssueSyncField = "title" | "description" | "priority" | "state"
+
+/** Values of the synced fields ("state" is the issue's open/closed state) */
+export interface IssueSyncSnapshot {
+	title: string
+	description: string
+	priority: ManagedTask["priority"]
+	state: "open" | "closed"
+}
+
+/** A field edited on both sides since the last sync */
+export interface IssueSyncConflict {
+	field: IssueSyncField
+	local: string | number
+	remote: string | number
+	detectedAt: string
+}
+
+/**
+ * The GitHub / GitLab / Jira issue a task was imported from
+ */
+export interface TaskExternalIssue {
+	trackerId: string
+	provider: "github" | "gitlab" | "jira"
+	/** Issue number ("42") or Jira key ("SHOP-12") */
+	key: string
+	url: string
+	/** Issue `updated` time at the last sync */
+	remoteUpdatedAt: string
+	lastSyncedAt: string
+	/** Field values both sides agreed on at the last sync */
+	synced: IssueSyncSnapshot
+	conflicts?: IssueSyncConflict[]
+}
+// Society Agent end
+
 /**
  * Blocking reason as first-class data (Proposal 7)
  */
@@ -294,6 +360,14 @@ export interface ManagedTask {
 	/** Priority (1=highest, 5=lowest) */
 	priority: 1 | 2 | 3 | 4 | 5
 
+	// Society Agent start - estimates
+	/** Estimated effort in hours (used for the critical path) */
+	estimatedHours?: number
+
+	/** Estimated size in story points */
+	storyPoints?: number
+	// Society Agent end
+
 	/** Agent ID that created this task */
 	createdBy: string
 
@@ -329,6 +403,20 @@ export interface ManagedTask {
 		summary: string
 	}
 
+	// Society Agent start - pull/merge request for the task's branch
+	/** Pull request (GitHub) or merge request (GitLab) opened from the task's branch */
+	pullRequest?: TaskPullRequest
+	// Society Agent end
+
+	/** Society Agent - issue in an external tracker this task is synced with */
+	externalIssue?: TaskExternalIssue
+
+	/** Society Agent - template step this task was created from */
+	template?: {
+		templateId: string
+		stepKey: string
+	}
+
 	/** Error info if failed */
 	error?: {
 		message: string
@@ -360,6 +448,8 @@ export function createTask(
 		description: string
 		createdBy: string
 		priority?: ManagedTask["priority"]
+		estimatedHours?: number // Society Agent
+		storyPoints?: number // Society Agent
 		parentTaskId?: string
 		dependsOn?: string[]
 		context?: ManagedTask["context"]
@@ -385,6 +475,8 @@ export function createTask(
 			},
 		],
 		priority: data.priority ?? 3,
+		estimatedHours: data.estimatedHours, // Society Agent
+		storyPoints: data.storyPoints, // Society Agent
 		createdBy: data.createdBy,
 		dependsOn: data.dependsOn,
 		context: data.context ?? {},
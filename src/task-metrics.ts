@@ -0,0 +1,340 @@
+// Society Agent - new file
+/**
+ * Task Metrics - estimates, time tracking, burndown and velocity for ManagedTasks
+ *
+ * Effort is derived rather than logged: time-in-state comes from the task's
+ * `statusHistory`, tokens and cost from the usage history (entries tagged with
+ * the task ID). Sizes can be story points, estimated hours or plain task counts;
+ * burndown and velocity work in whichever unit is asked for.
+ *
+ * Per-agent velocity rows carry cycle time, hours per point and cost per task,
+ * so different agent configurations can be compared on similar work.
+ */
+
+import type { ManagedTask, TaskStatus } from "./task-manager"
+import type { UsageEntry } from "./usage-store"
+import { dayKey } from "./cost-budgets"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Unit for burndown and velocity */
+export type SizeUnit = "points" | "hours" | "tasks"
+
+export const SIZE_UNITS: SizeUnit[] = ["points", "hours", "tasks"]
+
+/** Most periods a velocity report covers (two years of weeks, a year of days) */
+export const MAX_VELOCITY_PERIODS: Record<"day" | "week", number> = { week: 104, day: 366 }
+
+/** Most days a burndown covers */
+export const MAX_BURNDOWN_DAYS = 366
+
+export interface TaskUsage {
+	inputTokens: number
+	outputTokens: number
+	totalTokens: number
+	costUsd: number
+	callCount: number
+}
+
+export interface TaskMetrics {
+	taskId: string
+	title: string
+	status: TaskStatus
+	assignedTo?: string
+	storyPoints?: number
+	estimatedHours?: number
+	/** Hours spent in each status, the current one counted up to now */
+	timeInState: Partial<Record<TaskStatus, number>>
+	/** Hours from first in_progress to completion (or now) */
+	cycleHours?: number
+	/** Hours from creation to completion (or now) */
+	leadHours: number
+	/** Hours worked (in_progress) over estimated hours */
+	estimateAccuracy?: number
+	completedAt?: string
+	usage: TaskUsage
+}
+
+export interface BurndownPoint {
+	date: string
+	/** Scope still open at the end of the day */
+	remaining: number
+	/** Total scope known at the end of the day */
+	scope: number
+	completed: number
+	ideal: number
+}
+
+export interface Burndown {
+	unit: SizeUnit
+	from: string
+	to: string
+	points: BurndownPoint[]
+}
+
+export interface VelocityPeriod {
+	period: string
+	completed: number
+	tasks: number
+}
+
+export interface AgentVelocity {
+	agentId: string
+	tasks: number
+	completed: number
+	avgCycleHours?: number
+	/** In-progress hours per story point (tasks with points only) */
+	hoursPerPoint?: number
+	costUsd: number
+	costPerTask?: number
+}
+
+export interface Velocity {
+	unit: SizeUnit
+	period: "day" | "week"
+	periods: VelocityPeriod[]
+	/** Mean of the periods */
+	average: number
+	byAgent: AgentVelocity[]
+}
+
+const FINISHED: TaskStatus[] = ["done", "verified"]
+const HOUR = 3_600_000
+const DAY = 24 * HOUR
+
+// ============================================================================
+// PER-TASK METRICS
+// ============================================================================
+
+function hours(ms: number): number {
+	return Math.round((ms / HOUR) * 100) / 100
+}
+
+function roundCost(usd: number): number {
+	return Math.round(usd * 1e6) / 1e6
+}
+
+/**
+ * When the task last became done or verified, if it is still finished
+ */
+export function completionTime(task: ManagedTask): string | undefined {
+	if (!FINISHED.includes(task.status)) return undefined
+	let finishedAt: string | undefined
+	for (const transition of task.statusHistory) {
+		const wasFinished = FINISHED.includes(transition.from)
+		if (FINISHED.includes(transition.to) && !wasFinished) finishedAt = transition.timestamp
+	}
+	return finishedAt ?? task.completedAt ?? task.verifiedAt
+}
+
+/** When the task was cancelled, if it is */
+function cancellationTime(task: ManagedTask): string | undefined {
+	if (task.status !== "cancelled") return undefined
+	return [...task.statusHistory].reverse().find((t) => t.to === "cancelled")?.timestamp
+}
+
+/**
+ * Hours spent in each status, from the transition timestamps
+ */
+export function timeInState(task: ManagedTask, now: Date = new Date()): Partial<Record<TaskStatus, number>> {
+	const totals: Partial<Record<TaskStatus, number>> = {}
+	const history = task.statusHistory
+	for (let i = 0; i < history.length; i++) {
+		const start = new Date(history[i].timestamp).getTime()
+		const end = i + 1 < history.length ? new Date(history[i + 1].timestamp).getTime() : now.getTime()
+		const status = history[i].to
+		totals[status] = (totals[status] ?? 0) + Math.max(0, end - start)
+	}
+	return Object.fromEntries(Object.entries(totals).map(([status, ms]) => [status, hours(ms!)]))
+}
+
+export function summarizeUsage(entries: UsageEntry[]): TaskUsage {
+	const usage: TaskUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, callCount: 0 }
+	for (const entry of entries) {
+		usage.inputTokens += entry.inputTokens
+		usage.outputTokens += entry.outputTokens
+		usage.totalTokens += entry.totalTokens
+		usage.costUsd += entry.costUsd
+		usage.callCount++
+	}
+	usage.costUsd = roundCost(usage.costUsd)
+	return usage
+}
+
+/**
+ * Metrics for one task. `usage` are the usage entries recorded for it.
+ */
+export function buildTaskMetrics(task: ManagedTask, usage: UsageEntry[] = [], now: Date = new Date()): TaskMetrics {
+	const completedAt = completionTime(task)
+	const end = completedAt ? new Date(completedAt).getTime() : now.getTime()
+	const started = task.startedAt ?? task.statusHistory.find((t) => t.to === "in_progress")?.timestamp
+	const states = timeInState(task, completedAt ? new Date(completedAt) : now)
+	const worked = states.in_progress
+
+	return {
+		taskId: task.taskId,
+		title: task.title,
+		status: task.status,
+		assignedTo: task.assignedTo,
+		storyPoints: task.storyPoints,
+		estimatedHours: task.estimatedHours,
+		timeInState: states,
+		cycleHours: started ? hours(end - new Date(started).getTime()) : undefined,
+		leadHours: hours(end - new Date(task.createdAt).getTime()),
+		estimateAccuracy: task.estimatedHours && worked !== undefined ? Math.round((worked / task.estimatedHours) * 100) / 100 : undefined,
+		completedAt,
+		usage: summarizeUsage(usage.filter((e) => e.taskId === task.taskId)),
+	}
+}
+
+// ============================================================================
+// BURNDOWN & VELOCITY
+// ============================================================================
+
+/**
+ * Size of a task in a unit. Tasks without points or an estimate count as 0 in
+ * that unit.
+ */
+export function taskSize(task: ManagedTask, unit: SizeUnit): number {
+	switch (unit) {
+		case "points":
+			return task.storyPoints ?? 0
+		case "hours":
+			return task.estimatedHours ?? 0
+		case "tasks":
+			return 1
+	}
+}
+
+/** Points if any task has them, else hours if any task has an estimate, else task counts */
+export function defaultSizeUnit(tasks: ManagedTask[]): SizeUnit {
+	if (tasks.some((t) => t.storyPoints !== undefined)) return "points"
+	if (tasks.some((t) => t.estimatedHours !== undefined)) return "hours"
+	return "tasks"
+}
+
+function startOfDay(time: number): number {
+	const date = new Date(time)
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100
+}
+
+/**
+ * Remaining scope at the end of each day between `from` and `to` (epoch ms,
+ * defaulting to the first task's creation and today), at most the last
+ * MAX_BURNDOWN_DAYS of them. Cancelled tasks leave the scope when cancelled; the
+ * ideal line runs from the first day's scope to 0.
+ */
+export function buildBurndown(tasks: ManagedTask[], options: { unit?: SizeUnit; from?: number; to?: number; now?: Date } = {}): Burndown {
+	const unit = options.unit ?? defaultSizeUnit(tasks)
+	const now = options.now ?? new Date()
+	const first = Math.min(now.getTime(), ...tasks.map((t) => new Date(t.createdAt).getTime()))
+	const toDay = startOfDay(Math.min(options.to ?? now.getTime(), now.getTime()))
+	const fromDay = startOfDay(Math.max(options.from ?? first, toDay - (MAX_BURNDOWN_DAYS - 1) * DAY + HOUR))
+
+	const events = tasks.map((task) => ({
+		size: taskSize(task, unit),
+		created: new Date(task.createdAt).getTime(),
+		finished: completionTime(task) ? new Date(completionTime(task)!).getTime() : undefined,
+		cancelled: cancellationTime(task) ? new Date(cancellationTime(task)!).getTime() : undefined,
+	}))
+
+	const points: BurndownPoint[] = []
+	for (let day = fromDay; day <= toDay; day = startOfDay(day + DAY + HOUR)) {
+		const endOfDay = startOfDay(day + DAY + HOUR)
+		let scope = 0
+		let completed = 0
+		for (const e of events) {
+			if (e.created >= endOfDay || (e.cancelled !== undefined && e.cancelled < endOfDay)) continue
+			scope += e.size
+			if (e.finished !== undefined && e.finished < endOfDay) completed += e.size
+		}
+		points.push({ date: dayKey(new Date(day)), remaining: round2(scope - completed), scope: round2(scope), completed: round2(completed), ideal: 0 })
+	}
+
+	const start = points[0]?.remaining ?? 0
+	points.forEach((point, i) => {
+		point.ideal = points.length > 1 ? round2(start - (start * i) / (points.length - 1)) : start
+	})
+
+	return { unit, from: points[0]?.date ?? dayKey(now), to: points.at(-1)?.date ?? dayKey(now), points }
+}
+
+/** Monday of the task's week, as a day key */
+function weekKey(time: number): string {
+	const date = new Date(startOfDay(time))
+	date.setDate(date.getDate() - ((date.getDay() + 6) % 7))
+	return dayKey(date)
+}
+
+/**
+ * Completed scope per day or week (the last `count` periods up to now, at most
+ * MAX_VELOCITY_PERIODS), plus a per-agent comparison of every finished task's
+ * cycle time and cost.
+ */
+export function buildVelocity(
+	tasks: ManagedTask[],
+	usage: UsageEntry[],
+	options: { unit?: SizeUnit; period?: "day" | "week"; count?: number; now?: Date } = {},
+): Velocity {
+	const unit = options.unit ?? defaultSizeUnit(tasks)
+	const period = options.period ?? "week"
+	const count = Math.min(options.count ?? (period === "week" ? 6 : 14), MAX_VELOCITY_PERIODS[period])
+	const now = options.now ?? new Date()
+	const keyOf = (time: number) => (period === "week" ? weekKey(time) : dayKey(new Date(time)))
+
+	const byPeriod = new Map<string, VelocityPeriod>()
+	let cursor = startOfDay(now.getTime())
+	for (let i = 0; i < count; i++) {
+		const key = keyOf(cursor)
+		if (!byPeriod.has(key)) byPeriod.set(key, { period: key, completed: 0, tasks: 0 })
+		cursor = startOfDay(cursor - (period === "week" ? 7 : 1) * DAY + HOUR)
+	}
+	const periods = [...byPeriod.values()].reverse()
+
+	const finished = tasks.filter((t) => completionTime(t))
+	for (const task of finished) {
+		const row = byPeriod.get(keyOf(new Date(completionTime(task)!).getTime()))
+		if (!row) continue
+		row.completed = round2(row.completed + taskSize(task, unit))
+		row.tasks++
+	}
+
+	const costByTask = new Map<string, number>()
+	for (const entry of usage) {
+		if (entry.taskId) costByTask.set(entry.taskId, (costByTask.get(entry.taskId) ?? 0) + entry.costUsd)
+	}
+
+	const agents = new Map<string, ManagedTask[]>()
+	for (const task of finished) {
+		const agentId = task.assignedTo ?? "(unassigned)"
+		agents.set(agentId, [...(agents.get(agentId) ?? []), task])
+	}
+	const byAgent: AgentVelocity[] = [...agents.entries()]
+		.map(([agentId, done]) => {
+			const metrics = done.map((t) => buildTaskMetrics(t, [], now))
+			const cycles = metrics.map((m) => m.cycleHours).filter((h): h is number => h !== undefined)
+			const pointed = done.filter((t) => t.storyPoints)
+			const pointedHours = pointed.reduce((sum, t) => sum + (timeInState(t, new Date(completionTime(t)!)).in_progress ?? 0), 0)
+			const points = pointed.reduce((sum, t) => sum + t.storyPoints!, 0)
+			const costUsd = roundCost(done.reduce((sum, t) => sum + (costByTask.get(t.taskId) ?? 0), 0))
+			return {
+				agentId,
+				tasks: done.length,
+				completed: round2(done.reduce((sum, t) => sum + taskSize(t, unit), 0)),
+				avgCycleHours: cycles.length > 0 ? round2(cycles.reduce((a, b) => a + b, 0) / cycles.length) : undefined,
+				hoursPerPoint: points > 0 ? round2(pointedHours / points) : undefined,
+				costUsd,
+				costPerTask: roundCost(costUsd / done.length),
+			}
+		})
+		.sort((a, b) => b.completed - a.completed)
+
+	const average = periods.length > 0 ? round2(periods.reduce((sum, p) => sum + p.completed, 0) / periods.length) : 0
+	return { unit, period, periods, average, byAgent }
+}
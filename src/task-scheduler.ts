@@ -0,0 +1,497 @@
+// Society Agent - new file
+/**
+ * Task Scheduler
+ *
+ * Fires the per-agent ScheduledTasks stored in the project store.
+ *
+ * - Parses standard 5-field cron expressions (minute hour day-of-month month day-of-week)
+ *   plus the usual @hourly/@daily/@weekly/@monthly/@yearly macros.
+ * - Computes nextRunAt after every run and whenever a schedule changes.
+ * - Runs type "ai" tasks through the agent's chat loop and type "command" tasks
+ *   through the CommandExecutor (via a pluggable runner supplied by the server).
+ * - Persists the outcome (lastRunAt, lastRunStatus, lastError, lastOutput, runCount)
+ *   back to the project.
+ * - Catches up on missed runs after a restart: a task whose nextRunAt passed while
+ *   the server was down runs once, then resumes its normal schedule.
+ */
+
+import { getLog } from "./logger"
+import type { ProjectStore, Project, ProjectAgentConfig, ScheduledTask } from "./project-store"
+
+const log = getLog()
+
+// ============================================================================
+// Cron parsing
+// ============================================================================
+
+/**
+ * A parsed cron expression. Each field holds the set of allowed values.
+ */
+export interface CronSchedule {
+	minutes: Set<number>
+	hours: Set<number>
+	daysOfMonth: Set<number>
+	months: Set<number>
+	/** 0 = Sunday ... 6 = Saturday (7 is folded into 0) */
+	daysOfWeek: Set<number>
+	/** True when day-of-month was restricted (does not start with "*") */
+	dayOfMonthRestricted: boolean
+	/** True when day-of-week was restricted (does not start with "*") */
+	dayOfWeekRestricted: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+
+interface CronFieldSpec {
+	name: string
+	min: number
+	max: number
+	names?: string[]
+	/** Offset added to a name's index (months are 1-based) */
+	nameOffset?: number
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day-of-month", min: 1, max: 31 },
+	{ name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+	{ name: "day-of-week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+]
+
+function parseCronValue(token: string, spec: CronFieldSpec, expression: string): number {
+	const lower = token.toLowerCase()
+	if (spec.names) {
+		const idx = spec.names.indexOf(lower)
+		if (idx !== -1) return idx + (spec.nameOffset ?? 0)
+	}
+	if (!/^\d+$/.test(token)) {
+		throw new Error(`Invalid ${spec.name} value "${token}" in cron expression "${expression}"`)
+	}
+	const value = parseInt(token, 10)
+	if (value < spec.min || value > spec.max) {
+		throw new Error(`${spec.name} value ${value} out of range ${spec.min}-${spec.max} in cron expression "${expression}"`)
+	}
+	return value
+}
+
+function parseCronField(field: string, spec: CronFieldSpec, expression: string): Set<number> {
+	const values = new Set<number>()
+	for (const part of field.split(",")) {
+		if (!part) {
+			throw new Error(`Empty ${spec.name} list entry in cron expression "${expression}"`)
+		}
+		const [rangePart, stepPart, extra] = part.split("/")
+		if (extra !== undefined) {
+			throw new Error(`Invalid ${spec.name} step "${part}" in cron expression "${expression}"`)
+		}
+		let step = 1
+		if (stepPart !== undefined) {
+			if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+				throw new Error(`Invalid ${spec.name} step "${part}" in cron expression "${expression}"`)
+			}
+			step = parseInt(stepPart, 10)
+		}
+
+		let start: number
+		let end: number
+		if (rangePart === "*") {
+			start = spec.min
+			end = spec.max
+		} else if (rangePart.includes("-")) {
+			const [from, to] = rangePart.split("-")
+			start = parseCronValue(from, spec, expression)
+			end = parseCronValue(to, spec, expression)
+			if (start > end) {
+				throw new Error(`Invalid ${spec.name} range "${rangePart}" in cron expression "${expression}"`)
+			}
+		} else {
+			start = parseCronValue(rangePart, spec, expression)
+			// "5/15" means "from 5 to max every 15"
+			end = stepPart !== undefined ? spec.max : start
+		}
+
+		for (let v = start; v <= end; v += step) {
+			values.add(v)
+		}
+	}
+	return values
+}
+
+/**
+ * Parse a cron expression. Throws a descriptive Error if the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+	const trimmed = (expression || "").trim()
+	const normalized = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed
+	const fields = normalized.split(/\s+/).filter(Boolean)
+	if (fields.length !== 5) {
+		throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`)
+	}
+
+	const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = fields.map((field, i) =>
+		parseCronField(field, CRON_FIELDS[i], expression),
+	)
+
+	// Sunday may be written as 0 or 7
+	const daysOfWeek = new Set<number>([...rawDaysOfWeek].map((d) => (d === 7 ? 0 : d)))
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		dayOfMonthRestricted: !fields[2].startsWith("*"),
+		dayOfWeekRestricted: !fields[4].startsWith("*"),
+	}
+}
+
+/** Check a cron expression without throwing. */
+export function isValidCronExpression(expression: string): boolean {
+	try {
+		parseCronExpression(expression)
+		return true
+	} catch {
+		return false
+	}
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const domMatch = schedule.daysOfMonth.has(date.getDate())
+	const dowMatch = schedule.daysOfWeek.has(date.getDay())
+	// Classic cron: when both day fields are restricted, either one matching is enough
+	if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+		return domMatch || dowMatch
+	}
+	return domMatch && dowMatch
+}
+
+/** Give up searching after this many years (e.g. "0 0 30 2 *" never fires) */
+const MAX_SEARCH_YEARS = 5
+
+/**
+ * Compute the first time strictly after `after` that matches the cron expression.
+ * Times are evaluated in the server's local timezone. Returns null if the
+ * expression can never fire (such as February 30th).
+ */
+export function getNextRunTime(expression: string | CronSchedule, after: Date = new Date()): Date | null {
+	const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression
+
+	const candidate = new Date(after.getTime())
+	candidate.setSeconds(0, 0)
+	candidate.setMinutes(candidate.getMinutes() + 1)
+
+	const limit = new Date(after.getTime())
+	limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS)
+
+	while (candidate <= limit) {
+		if (!schedule.months.has(candidate.getMonth() + 1)) {
+			candidate.setMonth(candidate.getMonth() + 1, 1)
+			candidate.setHours(0, 0, 0, 0)
+			continue
+		}
+		if (!matchesDay(schedule, candidate)) {
+			candidate.setDate(candidate.getDate() + 1)
+			candidate.setHours(0, 0, 0, 0)
+			continue
+		}
+		if (!schedule.hours.has(candidate.getHours())) {
+			candidate.setHours(candidate.getHours() + 1, 0, 0, 0)
+			continue
+		}
+		if (!schedule.minutes.has(candidate.getMinutes())) {
+			candidate.setMinutes(candidate.getMinutes() + 1, 0, 0)
+			continue
+		}
+		return candidate
+	}
+	return null
+}
+
+/**
+ * Compute the nextRunAt ISO string for a scheduled task, or undefined if it is
+ * disabled or its cron expression can never fire.
+ */
+export function computeNextRunAt(task: Pick<ScheduledTask, "cron" | "enabled">, after: Date = new Date()): string | undefined {
+	if (!task.enabled) return undefined
+	const next = getNextRunTime(task.cron, after)
+	return next ? next.toISOString() : undefined
+}
+
+/**
+ * True if the task is enabled and its nextRunAt has passed.
+ */
+export function isScheduledTaskDue(task: ScheduledTask, now: Date = new Date()): boolean {
+	if (!task.enabled || !task.nextRunAt) return false
+	return new Date(task.nextRunAt).getTime() <= now.getTime()
+}
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/** Result reported by a runner for one execution of a scheduled task */
+export interface ScheduledRunOutcome {
+	status: "success" | "failed"
+	/** AI response text or command output */
+	output?: string
+	error?: string
+}
+
+/**
+ * Executes scheduled tasks. The server supplies the implementation so the
+ * scheduler stays independent of the chat loop and the command executor.
+ */
+export interface ScheduledTaskRunner {
+	runAiTask(project: Project, agent: ProjectAgentConfig, task: ScheduledTask): Promise<ScheduledRunOutcome>
+	runCommandTask(project: Project, agent: ProjectAgentConfig, task: ScheduledTask): Promise<ScheduledRunOutcome>
+	/** Instantiate the task's template (type='template') */
+	runTemplateTask?(project: Project, agent: ProjectAgentConfig, task: ScheduledTask): Promise<ScheduledRunOutcome>
+}
+
+export type ScheduledTaskEvent =
+	| { type: "scheduled-task-started"; projectId: string; agentId: string; taskId: string; name: string; catchUp: boolean }
+	| { type: "scheduled-task-finished"; projectId: string; agentId: string; taskId: string; name: string; status: "success" | "failed"; error?: string; nextRunAt?: string }
+
+export interface TaskSchedulerOptions {
+	/** How often to look for due tasks (default: 30 seconds) */
+	tickIntervalMs?: number
+	/** Run tasks whose nextRunAt passed while the server was down (default: true) */
+	catchUpMissedRuns?: boolean
+	/** Keep at most this many characters of output per task (default: 4000) */
+	maxOutputChars?: number
+	/** When this returns true, due tasks are left pending until it returns false */
+	isPaused?: () => boolean
+	/** Notified when a run starts and finishes */
+	onEvent?: (event: ScheduledTaskEvent) => void
+	/** Clock override for tests */
+	now?: () => Date
+}
+
+export class TaskScheduler {
+	private timer: NodeJS.Timeout | null = null
+	private running = new Map<string, Promise<void>>()
+	private readonly tickIntervalMs: number
+	private readonly catchUpMissedRuns: boolean
+	private readonly maxOutputChars: number
+
+	constructor(
+		private store: ProjectStore,
+		private runner: ScheduledTaskRunner,
+		private options: TaskSchedulerOptions = {},
+	) {
+		this.tickIntervalMs = options.tickIntervalMs ?? 30_000
+		this.catchUpMissedRuns = options.catchUpMissedRuns ?? true
+		this.maxOutputChars = options.maxOutputChars ?? 4000
+	}
+
+	private now(): Date {
+		return this.options.now ? this.options.now() : new Date()
+	}
+
+	private key(projectId: string, agentId: string, taskId: string): string {
+		return `${projectId}:${agentId}:${taskId}`
+	}
+
+	/**
+	 * Recover state left by a previous process, then start the periodic tick.
+	 * Idempotent - calling start twice does not create a second timer.
+	 */
+	start(): void {
+		if (this.timer) return
+		this.recoverAfterRestart()
+		this.timer = setInterval(() => {
+			this.tick().catch((err) => log.error("[Scheduler] Tick failed:", err))
+		}, this.tickIntervalMs)
+		this.timer.unref?.()
+		// Run the first tick right away so missed runs are picked up on boot
+		this.tick().catch((err) => log.error("[Scheduler] Initial tick failed:", err))
+		log.info(`[Scheduler] Started (tick every ${Math.round(this.tickIntervalMs / 1000)}s)`)
+	}
+
+	/** Stop the periodic tick. Runs already in progress are left to finish. */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+	}
+
+	/** True if the given scheduled task is executing right now */
+	isRunning(projectId: string, agentId: string, taskId: string): boolean {
+		return this.running.has(this.key(projectId, agentId, taskId))
+	}
+
+	/**
+	 * Fix up persisted state after a restart:
+	 * - runs left in "running" were interrupted and are marked failed
+	 * - tasks without a nextRunAt get one
+	 * - missed runs are either kept due (catch-up) or skipped to the next slot
+	 */
+	recoverAfterRestart(): { interrupted: number; missed: number } {
+		const now = this.now()
+		let interrupted = 0
+		let missed = 0
+
+		for (const project of this.store.getAll()) {
+			for (const agent of project.agents) {
+				for (const task of agent.scheduledTasks || []) {
+					const updates: Partial<ScheduledTask> = {}
+					if (task.lastRunStatus === "running" && !this.isRunning(project.id, agent.id, task.id)) {
+						updates.lastRunStatus = "failed"
+						updates.lastError = "Interrupted by server restart"
+						interrupted++
+					}
+					if (task.enabled) {
+						if (!task.nextRunAt) {
+							updates.nextRunAt = this.safeNextRunAt(task, now)
+						} else if (isScheduledTaskDue(task, now)) {
+							missed++
+							if (!this.catchUpMissedRuns) {
+								updates.nextRunAt = this.safeNextRunAt(task, now)
+							}
+						}
+					}
+					if (Object.keys(updates).length > 0) {
+						this.store.updateScheduledTask(project.id, agent.id, task.id, updates)
+					}
+				}
+			}
+		}
+
+		if (interrupted > 0 || missed > 0) {
+			log.info(`[Scheduler] Recovered after restart: ${interrupted} interrupted run(s), ${missed} missed run(s)${missed > 0 ? (this.catchUpMissedRuns ? " - catching up" : " - skipped") : ""}`)
+		}
+		return { interrupted, missed }
+	}
+
+	/**
+	 * Start every due task that is not already running.
+	 * Resolves when all runs started by this tick have finished.
+	 */
+	async tick(): Promise<void> {
+		if (this.options.isPaused?.()) return
+
+		const now = this.now()
+		const started: Promise<void>[] = []
+		for (const project of this.store.getAll()) {
+			if (project.status !== "active") continue
+			for (const agent of project.agents) {
+				for (const task of agent.scheduledTasks || []) {
+					if (!isScheduledTaskDue(task, now)) continue
+					if (this.isRunning(project.id, agent.id, task.id)) continue
+					const catchUp = now.getTime() - new Date(task.nextRunAt!).getTime() > this.tickIntervalMs
+					started.push(this.execute(project.id, agent.id, task.id, catchUp))
+				}
+			}
+		}
+		await Promise.all(started)
+	}
+
+	/**
+	 * Run a scheduled task immediately, regardless of its schedule.
+	 * Returns undefined if the task does not exist; if it is already running,
+	 * the in-flight run is awaited instead of starting a second one.
+	 */
+	async runNow(projectId: string, agentId: string, taskId: string): Promise<ScheduledTask | undefined> {
+		if (!this.store.getScheduledTask(projectId, agentId, taskId)) return undefined
+		const inFlight = this.running.get(this.key(projectId, agentId, taskId))
+		await (inFlight ?? this.execute(projectId, agentId, taskId, false))
+		return this.store.getScheduledTask(projectId, agentId, taskId)
+	}
+
+	private execute(projectId: string, agentId: string, taskId: string, catchUp: boolean): Promise<void> {
+		const key = this.key(projectId, agentId, taskId)
+		const run = this.executeOnce(projectId, agentId, taskId, catchUp).finally(() => {
+			this.running.delete(key)
+		})
+		this.running.set(key, run)
+		return run
+	}
+
+	private async executeOnce(projectId: string, agentId: string, taskId: string, catchUp: boolean): Promise<void> {
+		const project = this.store.get(projectId)
+		const agent = project?.agents.find((a) => a.id === agentId)
+		const task = agent?.scheduledTasks?.find((t) => t.id === taskId)
+		if (!project || !agent || !task) return
+
+		const startedAt = this.now()
+		this.store.updateScheduledTask(projectId, agentId, taskId, {
+			lastRunAt: startedAt.toISOString(),
+			lastRunStatus: "running",
+			// Advance the schedule up front so a slow run is not picked up again
+			nextRunAt: this.safeNextRunAt(task, startedAt),
+		})
+		log.info(`[Scheduler] Running "${task.name}" (${task.type}) for ${agent.name}@${project.name}${catchUp ? " [catch-up]" : ""}`)
+		this.options.onEvent?.({ type: "scheduled-task-started", projectId, agentId, taskId, name: task.name, catchUp })
+
+		let outcome: ScheduledRunOutcome
+		try {
+			if (task.type === "command") {
+				if (!task.command) throw new Error("Command task has no command")
+				outcome = await this.runner.runCommandTask(project, agent, task)
+			} else if (task.type === "template") {
+				if (!task.templateId) throw new Error("Template task has no template")
+				if (!this.runner.runTemplateTask) throw new Error("Template tasks are not supported")
+				outcome = await this.runner.runTemplateTask(project, agent, task)
+			} else {
+				if (!task.prompt) throw new Error("AI task has no prompt")
+				outcome = await this.runner.runAiTask(project, agent, task)
+			}
+		} catch (error) {
+			outcome = { status: "failed", error: error instanceof Error ? error.message : String(error) }
+		}
+
+		// Re-read: the task may have been edited or deleted while it was running
+		const current = this.store.getScheduledTask(projectId, agentId, taskId)
+		if (!current) return
+
+		const output = outcome.output !== undefined ? this.clipOutput(outcome.output) : undefined
+		const updated = this.store.updateScheduledTask(projectId, agentId, taskId, {
+			lastRunStatus: outcome.status,
+			lastError: outcome.status === "failed" ? outcome.error || "Unknown error" : undefined,
+			lastOutput: output,
+			runCount: (current.runCount || 0) + 1,
+		})
+
+		if (outcome.status === "failed") {
+			log.warn(`[Scheduler] "${task.name}" failed: ${outcome.error}`)
+		}
+		this.options.onEvent?.({
+			type: "scheduled-task-finished",
+			projectId,
+			agentId,
+			taskId,
+			name: task.name,
+			status: outcome.status,
+			error: outcome.error,
+			nextRunAt: updated?.nextRunAt,
+		})
+	}
+
+	private safeNextRunAt(task: ScheduledTask, after: Date): string | undefined {
+		try {
+			return computeNextRunAt(task, after)
+		} catch (error) {
+			log.warn(`[Scheduler] Invalid cron "${task.cron}" on scheduled task ${task.id}: ${error}`)
+			return undefined
+		}
+	}
+
+	private clipOutput(output: string): string {
+		if (output.length <= this.maxOutputChars) return output
+		return "...(truncated)\n" + output.slice(-this.maxOutputChars)
+	}
+}
@@ -0,0 +1,288 @@
+// Society Agent - new file
+/**
+ * Task Templates
+ *
+ * Reusable, parameterized trees of managed tasks for work a team repeats
+ * ("add an endpoint": implement → test → document).
+ *
+ * - A TaskTemplate lists steps with dependencies, a parent step, acceptance
+ *   criteria and a delegation target. Titles, descriptions, criteria, files and
+ *   delegation targets may use {{parameter}} placeholders.
+ * - expandTaskTemplate() fills in the parameters and orders the steps so every
+ *   step comes after the steps it depends on; ProjectStore.instantiateTaskTemplate()
+ *   turns them into sequenced ManagedTasks.
+ * - TaskTemplateStore keeps each project's templates in one JSON file.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import type { ManagedTask } from "./task-manager"
+import { sanitizeFilename } from "./security-utils"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TaskTemplateParameter {
+	name: string
+	description?: string
+	/** Value used when none is given (a parameter without one is required) */
+	default?: string
+}
+
+/** One task in a template */
+export interface TaskTemplateStep {
+	/** Step ID other steps refer to (unique within the template) */
+	key: string
+	title: string
+	description?: string
+	acceptanceCriteria?: string[]
+	/** Keys of steps that must finish first */
+	dependsOn?: string[]
+	/** Key of the step this one is a subtask of */
+	parent?: string
+	/** Agent to delegate to (default: the template's delegateTo) */
+	delegateTo?: string
+	priority?: ManagedTask["priority"]
+	estimatedHours?: number
+	storyPoints?: number
+	relevantFiles?: string[]
+}
+
+export interface TaskTemplate {
+	/** Slug (e.g. "add-endpoint") */
+	id: string
+	name: string
+	description?: string
+	parameters: TaskTemplateParameter[]
+	steps: TaskTemplateStep[]
+	/** Agent steps are delegated to when they name none (left planned if unset) */
+	delegateTo?: string
+	createdBy?: string
+	createdAt: string
+	updatedAt: string
+}
+
+/** A step with its parameters filled in, ready to become a ManagedTask */
+export interface ExpandedTemplateStep {
+	key: string
+	title: string
+	/** Step description followed by its acceptance criteria */
+	description: string
+	acceptanceCriteria: string[]
+	dependsOn: string[]
+	parent?: string
+	delegateTo?: string
+	priority?: ManagedTask["priority"]
+	estimatedHours?: number
+	storyPoints?: number
+	relevantFiles?: string[]
+}
+
+/** The template or its parameters are invalid */
+export class TaskTemplateError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "TaskTemplateError"
+	}
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g
+
+/** Placeholder names used anywhere in a template's steps */
+export function templatePlaceholders(template: Pick<TaskTemplate, "steps" | "delegateTo">): string[] {
+	const names = new Set<string>()
+	const scan = (text: string | undefined) => {
+		for (const match of (text ?? "").matchAll(PLACEHOLDER)) names.add(match[1])
+	}
+	scan(template.delegateTo)
+	for (const step of template.steps) {
+		scan(step.title)
+		scan(step.description)
+		scan(step.delegateTo)
+		step.acceptanceCriteria?.forEach(scan)
+		step.relevantFiles?.forEach(scan)
+	}
+	return [...names]
+}
+
+/**
+ * Order steps so each follows its dependencies and its parent, keeping the
+ * template's order otherwise. Returns undefined if the steps form a cycle.
+ */
+function orderSteps(steps: TaskTemplateStep[]): TaskTemplateStep[] | undefined {
+	const ordered: TaskTemplateStep[] = []
+	const placed = new Set<string>()
+	while (ordered.length < steps.length) {
+		const next = steps.find(
+			(s) => !placed.has(s.key) && (s.dependsOn ?? []).every((d) => placed.has(d)) && (!s.parent || placed.has(s.parent)),
+		)
+		if (!next) return undefined
+		ordered.push(next)
+		placed.add(next.key)
+	}
+	return ordered
+}
+
+/**
+ * Validate a template definition (PUT body). Returns an error message or null.
+ */
+export function validateTaskTemplate(value: unknown): string | null {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) return "Template must be an object"
+	const template = value as Record<string, any>
+	if (typeof template.id !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(template.id)) {
+		return "id must be a lower-case slug (letters, digits and dashes)"
+	}
+	if (typeof template.name !== "string" || !template.name.trim()) return "name is required"
+	if (!Array.isArray(template.parameters)) return "parameters must be an array"
+	for (const param of template.parameters) {
+		if (typeof param?.name !== "string" || !/^[A-Za-z_][\w-]*$/.test(param.name)) return "Each parameter needs a name (letters, digits, _ and -)"
+		if (param.default !== undefined && typeof param.default !== "string") return `Default of parameter "${param.name}" must be a string`
+	}
+	if (!Array.isArray(template.steps) || template.steps.length === 0) return "steps must be a non-empty array"
+
+	const keys = new Set<string>()
+	for (const step of template.steps) {
+		if (typeof step?.key !== "string" || !step.key) return "Each step needs a key"
+		if (keys.has(step.key)) return `Duplicate step key "${step.key}"`
+		keys.add(step.key)
+		if (typeof step.title !== "string" || !step.title.trim()) return `Step "${step.key}" needs a title`
+		if (step.priority !== undefined && ![1, 2, 3, 4, 5].includes(step.priority)) return `Step "${step.key}": priority must be 1-5`
+		for (const field of ["acceptanceCriteria", "dependsOn", "relevantFiles"]) {
+			const list = step[field]
+			if (list !== undefined && (!Array.isArray(list) || list.some((v: unknown) => typeof v !== "string"))) {
+				return `Step "${step.key}": ${field} must be an array of strings`
+			}
+		}
+	}
+	for (const step of template.steps as TaskTemplateStep[]) {
+		const unknown = [...(step.dependsOn ?? []), ...(step.parent ? [step.parent] : [])].find((k) => !keys.has(k))
+		if (unknown) return `Step "${step.key}" refers to unknown step "${unknown}"`
+	}
+	if (!orderSteps(template.steps)) return "Step dependencies form a cycle"
+
+	const declared = new Set((template.parameters as TaskTemplateParameter[]).map((p) => p.name))
+	const undeclared = templatePlaceholders(template as TaskTemplate).filter((name) => !declared.has(name))
+	if (undeclared.length > 0) return `Undeclared parameters: ${undeclared.join(", ")}`
+	return null
+}
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Parameter values for an instance: given values, then defaults.
+ * @throws TaskTemplateError for unknown or missing parameters
+ */
+export function resolveTemplateParameters(template: TaskTemplate, values: Record<string, unknown> = {}): Record<string, string> {
+	const declared = new Map(template.parameters.map((p) => [p.name, p]))
+	const unknown = Object.keys(values).filter((name) => !declared.has(name))
+	if (unknown.length > 0) throw new TaskTemplateError(`Unknown parameters: ${unknown.join(", ")}`)
+
+	const resolved: Record<string, string> = {}
+	const missing: string[] = []
+	for (const param of template.parameters) {
+		const value = values[param.name]
+		if (value !== undefined && value !== null && value !== "") resolved[param.name] = String(value)
+		else if (param.default !== undefined) resolved[param.name] = param.default
+		else missing.push(param.name)
+	}
+	if (missing.length > 0) throw new TaskTemplateError(`Missing parameters: ${missing.join(", ")}`)
+	return resolved
+}
+
+/** Replace {{name}} placeholders */
+export function renderTemplateText(text: string, params: Record<string, string>): string {
+	return text.replace(PLACEHOLDER, (placeholder, name: string) => params[name] ?? placeholder)
+}
+
+/**
+ * Fill in a template's parameters and order its steps (dependencies and parents first).
+ * @throws TaskTemplateError for invalid templates or parameters
+ */
+export function expandTaskTemplate(template: TaskTemplate, values: Record<string, unknown> = {}): ExpandedTemplateStep[] {
+	const error = validateTaskTemplate(template)
+	if (error) throw new TaskTemplateError(`Invalid template ${template.id}: ${error}`)
+	const params = resolveTemplateParameters(template, values)
+	const render = (text: string) => renderTemplateText(text, params)
+
+	return orderSteps(template.steps)!.map((step) => {
+		const acceptanceCriteria = (step.acceptanceCriteria ?? []).map(render)
+		const parts = [render(step.description ?? step.title)]
+		if (acceptanceCriteria.length > 0) {
+			parts.push(`\n**Acceptance Criteria:**\n${acceptanceCriteria.map((c, i) => `${i + 1}. ${c}`).join("\n")}`)
+		}
+		const delegateTo = step.delegateTo ?? template.delegateTo
+		return {
+			key: step.key,
+			title: render(step.title),
+			description: parts.join("\n"),
+			acceptanceCriteria,
+			dependsOn: step.dependsOn ?? [],
+			parent: step.parent,
+			delegateTo: delegateTo ? render(delegateTo) : undefined,
+			priority: step.priority,
+			estimatedHours: step.estimatedHours,
+			storyPoints: step.storyPoints,
+			relevantFiles: step.relevantFiles?.map(render),
+		}
+	})
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Templates per project, one JSON file each (.society/task-templates/<project>.json)
+ */
+export class TaskTemplateStore {
+	constructor(private dir: string) {}
+
+	private filePath(projectId: string): string {
+		return path.join(this.dir, `${sanitizeFilename(projectId)}.json`)
+	}
+
+	list(projectId: string): TaskTemplate[] {
+		const file = this.filePath(projectId)
+		if (!fs.existsSync(file)) return []
+		return JSON.parse(fs.readFileSync(file, "utf-8"))
+	}
+
+	get(projectId: string, templateId: string): TaskTemplate | undefined {
+		return this.list(projectId).find((t) => t.id === templateId)
+	}
+
+	/**
+	 * Create or replace a template.
+	 * @throws TaskTemplateError if the template is invalid
+	 */
+	save(projectId: string, data: Omit<TaskTemplate, "createdAt" | "updatedAt">): TaskTemplate {
+		const error = validateTaskTemplate(data)
+		if (error) throw new TaskTemplateError(error)
+
+		const templates = this.list(projectId)
+		const idx = templates.findIndex((t) => t.id === data.id)
+		const now = new Date().toISOString()
+		const template: TaskTemplate = { ...data, createdAt: idx === -1 ? now : templates[idx].createdAt, updatedAt: now }
+		if (idx === -1) templates.push(template)
+		else templates[idx] = template
+
+		fs.mkdirSync(this.dir, { recursive: true })
+		fs.writeFileSync(this.filePath(projectId), JSON.stringify(templates, null, 2), "utf-8")
+		return template
+	}
+
+	delete(projectId: string, templateId: string): boolean {
+		const templates = this.list(projectId)
+		const remaining = templates.filter((t) => t.id !== templateId)
+		if (remaining.length === templates.length) return false
+		fs.writeFileSync(this.filePath(projectId), JSON.stringify(remaining, null, 2), "utf-8")
+		return true
+	}
+}
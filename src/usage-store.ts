@@ -0,0 +1,282 @@
+// Society Agent - new file
+/**
+ * Usage Store
+ *
+ * Durable history of LLM usage and cost. Every call recorded by the UsageTracker
+ * is appended as one JSON line to projects/.society/usage/<projectId>/<YYYY-MM>.jsonl,
+ * so cost data survives restarts and can be reported on per month.
+ *
+ * Files are append-only; nothing in the server rewrites or deletes them, so the
+ * history outlives DELETE /api/usage and even the project itself.
+ *
+ * Reports group entries by day, month, project, agent, model or task
+ * (ManagedTask or pool task ID) and can be exported as CSV.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { getLog } from "./logger"
+import { dayKey, monthKey } from "./cost-budgets"
+
+const log = getLog()
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One LLM call */
+export interface UsageEntry {
+	id: string
+	timestamp: number
+	projectId: string
+	agentId: string
+	agentName: string
+	model: string
+	inputTokens: number
+	outputTokens: number
+	totalTokens: number
+	costUsd: number // estimated cost
+	taskId?: string // ManagedTask or pool task the call was made for
+}
+
+export interface UsageFilter {
+	/** Only these projects (used to limit non-admin users to their memberships) */
+	projectIds?: string[]
+	projectId?: string
+	agentId?: string
+	model?: string
+	taskId?: string
+	/** Inclusive lower bound (epoch ms) */
+	from?: number
+	/** Exclusive upper bound (epoch ms) */
+	to?: number
+}
+
+export type UsageGroupBy = "day" | "month" | "project" | "agent" | "model" | "task"
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ["day", "month", "project", "agent", "model", "task"]
+
+export interface UsageReportRow {
+	key: string
+	inputTokens: number
+	outputTokens: number
+	totalTokens: number
+	costUsd: number
+	callCount: number
+}
+
+export interface UsageReport {
+	groupBy: UsageGroupBy
+	rows: UsageReportRow[]
+	totals: Omit<UsageReportRow, "key">
+}
+
+const ENTRY_CSV_COLUMNS: (keyof UsageEntry)[] = [
+	"timestamp",
+	"projectId",
+	"agentId",
+	"agentName",
+	"taskId",
+	"model",
+	"inputTokens",
+	"outputTokens",
+	"totalTokens",
+	"costUsd",
+]
+
+/** Project directories are named after the project ID; keep them inside the usage root */
+function safeSegment(id: string): string {
+	return id.replace(/[^a-zA-Z0-9._-]/g, "_")
+}
+
+/**
+ * Parse a report date bound. Accepts epoch ms, ISO timestamps, and YYYY-MM-DD /
+ * YYYY-MM (local time, like the budget periods). Returns undefined for empty
+ * input and throws on anything unparseable.
+ */
+export function parseUsageDate(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") return undefined
+	const text = String(value)
+	if (/^\d+$/.test(text)) return parseInt(text, 10)
+	const dateOnly = text.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/)
+	if (dateOnly) {
+		return new Date(parseInt(dateOnly[1], 10), parseInt(dateOnly[2], 10) - 1, dateOnly[3] ? parseInt(dateOnly[3], 10) : 1).getTime()
+	}
+	const parsed = Date.parse(text)
+	if (Number.isNaN(parsed)) throw new Error(`Invalid date: ${text}`)
+	return parsed
+}
+
+export function matchesUsageFilter(entry: UsageEntry, filter: UsageFilter): boolean {
+	if (filter.projectIds && !filter.projectIds.includes(entry.projectId)) return false
+	if (filter.projectId && entry.projectId !== filter.projectId) return false
+	if (filter.agentId && entry.agentId !== filter.agentId) return false
+	if (filter.model && entry.model !== filter.model) return false
+	if (filter.taskId && entry.taskId !== filter.taskId) return false
+	if (filter.from !== undefined && entry.timestamp < filter.from) return false
+	if (filter.to !== undefined && entry.timestamp >= filter.to) return false
+	return true
+}
+
+function groupKey(entry: UsageEntry, groupBy: UsageGroupBy): string {
+	switch (groupBy) {
+		case "day":
+			return dayKey(new Date(entry.timestamp))
+		case "month":
+			return monthKey(new Date(entry.timestamp))
+		case "project":
+			return entry.projectId
+		case "agent":
+			return `${entry.projectId}/${entry.agentId}`
+		case "model":
+			return entry.model
+		case "task":
+			return entry.taskId || "(none)"
+	}
+}
+
+/** Group entries and total their tokens and cost. Rows are sorted by key. */
+export function aggregateUsage(entries: UsageEntry[], groupBy: UsageGroupBy): UsageReport {
+	const rows = new Map<string, UsageReportRow>()
+	const totals = { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, callCount: 0 }
+	for (const entry of entries) {
+		const key = groupKey(entry, groupBy)
+		let row = rows.get(key)
+		if (!row) {
+			row = { key, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, callCount: 0 }
+			rows.set(key, row)
+		}
+		for (const target of [row, totals]) {
+			target.inputTokens += entry.inputTokens
+			target.outputTokens += entry.outputTokens
+			target.totalTokens += entry.totalTokens
+			target.costUsd += entry.costUsd
+			target.callCount++
+		}
+	}
+	return {
+		groupBy,
+		rows: [...rows.values()].sort((a, b) => a.key.localeCompare(b.key)),
+		totals,
+	}
+}
+
+function csvCell(value: unknown): string {
+	if (value === undefined || value === null) return ""
+	const text = String(value)
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvLine(values: unknown[]): string {
+	return values.map(csvCell).join(",")
+}
+
+/** CSV of raw entries, one row per call (timestamps as ISO 8601) */
+export function usageEntriesToCsv(entries: UsageEntry[]): string {
+	const lines = [csvLine(ENTRY_CSV_COLUMNS)]
+	for (const entry of entries) {
+		lines.push(
+			csvLine(ENTRY_CSV_COLUMNS.map((column) => (column === "timestamp" ? new Date(entry.timestamp).toISOString() : entry[column]))),
+		)
+	}
+	return lines.join("\n") + "\n"
+}
+
+/** CSV of an aggregated report, one row per group */
+export function usageReportToCsv(report: UsageReport): string {
+	const lines = [csvLine([report.groupBy, "inputTokens", "outputTokens", "totalTokens", "costUsd", "callCount"])]
+	for (const row of report.rows) {
+		lines.push(csvLine([row.key, row.inputTokens, row.outputTokens, row.totalTokens, row.costUsd.toFixed(6), row.callCount]))
+	}
+	return lines.join("\n") + "\n"
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export class UsageStore {
+	constructor(private rootDir: string) {}
+
+	private projectDir(projectId: string): string {
+		return path.join(this.rootDir, safeSegment(projectId))
+	}
+
+	/** Append one entry to its project's file for the entry's month */
+	append(entry: UsageEntry): void {
+		try {
+			const dir = this.projectDir(entry.projectId)
+			fs.mkdirSync(dir, { recursive: true })
+			fs.appendFileSync(path.join(dir, `${monthKey(new Date(entry.timestamp))}.jsonl`), JSON.stringify(entry) + "\n", "utf-8")
+		} catch (error) {
+			log.error("[Usage] Error persisting usage entry:", error)
+		}
+	}
+
+	/** Project IDs that have recorded usage */
+	listProjects(): string[] {
+		if (!fs.existsSync(this.rootDir)) return []
+		return fs
+			.readdirSync(this.rootDir, { withFileTypes: true })
+			.filter((d) => d.isDirectory())
+			.map((d) => d.name)
+	}
+
+	/** Files that may hold entries in the filter's date range, oldest month first */
+	private filesFor(filter: UsageFilter): string[] {
+		let projects = this.listProjects()
+		if (filter.projectId) projects = projects.filter((p) => p === safeSegment(filter.projectId!))
+		if (filter.projectIds) {
+			const allowed = new Set(filter.projectIds.map(safeSegment))
+			projects = projects.filter((p) => allowed.has(p))
+		}
+		const fromMonth = filter.from !== undefined ? monthKey(new Date(filter.from)) : undefined
+		const toMonth = filter.to !== undefined ? monthKey(new Date(filter.to)) : undefined
+
+		const files: Array<{ month: string; file: string }> = []
+		for (const project of projects) {
+			const dir = path.join(this.rootDir, project)
+			for (const name of fs.readdirSync(dir)) {
+				const match = name.match(/^(\d{4}-\d{2})\.jsonl$/)
+				if (!match) continue
+				if (fromMonth && match[1] < fromMonth) continue
+				if (toMonth && match[1] > toMonth) continue
+				files.push({ month: match[1], file: path.join(dir, name) })
+			}
+		}
+		return files.sort((a, b) => a.month.localeCompare(b.month)).map((f) => f.file)
+	}
+
+	/** All entries matching a filter, oldest first */
+	query(filter: UsageFilter = {}): UsageEntry[] {
+		const entries: UsageEntry[] = []
+		for (const file of this.filesFor(filter)) {
+			let content: string
+			try {
+				content = fs.readFileSync(file, "utf-8")
+			} catch (error) {
+				log.warn(`[Usage] Could not read ${file}: ${error}`)
+				continue
+			}
+			for (const line of content.split("\n")) {
+				if (!line.trim()) continue
+				try {
+					const entry = JSON.parse(line) as UsageEntry
+					if (matchesUsageFilter(entry, filter)) entries.push(entry)
+				} catch {
+					// A partially written last line after a crash - skip it
+				}
+			}
+		}
+		return entries.sort((a, b) => a.timestamp - b.timestamp)
+	}
+
+	/** The most recent entries matching a filter, newest first */
+	recent(limit: number, filter: UsageFilter = {}): UsageEntry[] {
+		return this.query(filter).slice(-limit).reverse()
+	}
+
+	report(groupBy: UsageGroupBy, filter: UsageFilter = {}): UsageReport {
+		return aggregateUsage(this.query(filter), groupBy)
+	}
+}
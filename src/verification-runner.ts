@@ -565,7 +565,7 @@ export function createChecklist(
  * Run all verification checks for a task
  */
 export async function runVerification(
-	task: ManagedTask,
+	task: Pick<ManagedTask, "taskId" | "result">,
 	projectDir: string,
 	options: {
 		/** Skip slow checks like tests */
@@ -0,0 +1,364 @@
+// Society Agent - new file
+/**
+ * Workspace Checkpoints
+ *
+ * Snapshots of an agent's home folder that can be listed, diffed and restored.
+ *
+ * Each folder gets a shadow git repository outside the project
+ * (projects/.society/checkpoints/<projectId>/<agentId>/repo) that uses the agent's
+ * folder as its work tree, so the project's own .git is never touched. A checkpoint
+ * is a parentless commit under refs/checkpoints/<id>; unchanged files cost nothing
+ * because git stores content by hash, and old checkpoints can be pruned by deleting
+ * their ref. Metadata (trigger, label, ManagedTask ID) lives in checkpoints.json
+ * next to the repo.
+ *
+ * Files matched by the folder's .gitignore files, and dependency/build caches
+ * (node_modules, virtualenvs, ...), are not part of checkpoints and are left alone
+ * by restores.
+ *
+ * An agent can have checkpoints of more than one folder (its home folder and,
+ * once it has one, its git worktree). Each checkpoint records its folder, and is
+ * only diffed against or restored into that folder.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { execFile } from "child_process"
+import { promisify } from "util"
+import { sanitizeFilename } from "./security-utils"
+import { getLog } from "./logger"
+
+const log = getLog()
+const execFileAsync = promisify(execFile)
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What caused a checkpoint */
+export type CheckpointTrigger = "task-start" | "tool" | "manual" | "restore"
+
+export interface Checkpoint {
+	/** Short commit hash */
+	id: string
+	commit: string
+	projectId: string
+	/** Agent whose home folder this is */
+	agentId: string
+	/** Folder the snapshot is of (missing on checkpoints taken before it was recorded) */
+	dir?: string
+	trigger: CheckpointTrigger
+	label: string
+	/** ManagedTask or pool task the agent was working on */
+	taskId?: string
+	/** Tool about to run (trigger "tool") */
+	tool?: string
+	/** Checkpoint that was restored (trigger "restore") */
+	restoredFrom?: string
+	fileCount: number
+	createdAt: string
+}
+
+/** The folder being checkpointed */
+export interface CheckpointTarget {
+	projectId: string
+	agentId: string
+	dir: string
+}
+
+export interface CheckpointOptions {
+	trigger: CheckpointTrigger
+	label: string
+	taskId?: string
+	tool?: string
+	restoredFrom?: string
+	/** Skip (and return null) if nothing changed since the latest checkpoint */
+	skipIfUnchanged?: boolean
+}
+
+export interface CheckpointFileChange {
+	/** A = added, M = modified, D = deleted (relative to the older side) */
+	status: "A" | "M" | "D"
+	path: string
+}
+
+export interface CheckpointDiff {
+	from: string
+	/** Checkpoint ID, or "working" for the folder's current state */
+	to: string
+	files: CheckpointFileChange[]
+	patch: string
+	truncated: boolean
+}
+
+export interface RestoreResult {
+	restored: Checkpoint
+	/** Checkpoint of the state just before the restore (null if it matched an existing one) */
+	backup: Checkpoint | null
+	/** Checkpoint recording the restored state */
+	checkpoint: Checkpoint
+}
+
+/** Paths never included in checkpoints (on top of the folder's own .gitignore files) */
+const DEFAULT_EXCLUDES = [
+	"node_modules/",
+	".venv/",
+	"venv/",
+	"__pycache__/",
+	".pytest_cache/",
+	".next/",
+	".cache/",
+	".turbo/",
+	"target/",
+	"*.log",
+]
+
+const MAX_PATCH_BYTES = 200 * 1024
+
+const GIT_IDENTITY = {
+	GIT_AUTHOR_NAME: "Society Agent",
+	GIT_AUTHOR_EMAIL: "checkpoints@society-agent.local",
+	GIT_COMMITTER_NAME: "Society Agent",
+	GIT_COMMITTER_EMAIL: "checkpoints@society-agent.local",
+}
+
+/** Whether a checkpoint is of a folder; older checkpoints did not record theirs */
+function isOfFolder(checkpoint: Checkpoint, dir: string): boolean {
+	return !checkpoint.dir || path.resolve(checkpoint.dir) === path.resolve(dir)
+}
+
+// ============================================================================
+// CheckpointManager
+// ============================================================================
+
+export class CheckpointManager {
+	/** Per-folder operation queues: git's index does not allow concurrent writers */
+	private queues = new Map<string, Promise<unknown>>()
+
+	constructor(
+		private baseDir: string,
+		private maxCheckpoints = 100,
+	) {}
+
+	private agentDir(projectId: string, agentId: string): string {
+		return path.join(this.baseDir, sanitizeFilename(projectId), sanitizeFilename(agentId))
+	}
+
+	private metadataPath(projectId: string, agentId: string): string {
+		return path.join(this.agentDir(projectId, agentId), "checkpoints.json")
+	}
+
+	private readMetadata(projectId: string, agentId: string): Checkpoint[] {
+		const file = this.metadataPath(projectId, agentId)
+		try {
+			return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : []
+		} catch (error) {
+			log.error(`[Checkpoints] Error reading ${file}:`, error)
+			return []
+		}
+	}
+
+	private writeMetadata(projectId: string, agentId: string, checkpoints: Checkpoint[]): void {
+		fs.writeFileSync(this.metadataPath(projectId, agentId), JSON.stringify(checkpoints, null, 2), "utf-8")
+	}
+
+	/** Run one git operation at a time per folder */
+	private serialize<T>(key: string, operation: () => Promise<T>): Promise<T> {
+		const previous = this.queues.get(key) || Promise.resolve()
+		const next = previous.catch(() => undefined).then(operation)
+		this.queues.set(key, next)
+		next.finally(() => {
+			if (this.queues.get(key) === next) this.queues.delete(key)
+		}).catch(() => undefined)
+		return next
+	}
+
+	private async git(target: CheckpointTarget, args: string[], maxBuffer = 16 * 1024 * 1024): Promise<string> {
+		const repo = path.join(this.agentDir(target.projectId, target.agentId), "repo")
+		const { stdout } = await execFileAsync("git", [`--git-dir=${repo}`, `--work-tree=${target.dir}`, ...args], {
+			cwd: target.dir,
+			env: { ...process.env, ...GIT_IDENTITY, GIT_INDEX_FILE: path.join(repo, "index") },
+			maxBuffer,
+		})
+		return stdout
+	}
+
+	/** Create the shadow repository on first use */
+	private async ensureRepo(target: CheckpointTarget): Promise<void> {
+		const repo = path.join(this.agentDir(target.projectId, target.agentId), "repo")
+		if (fs.existsSync(path.join(repo, "HEAD"))) return
+		fs.mkdirSync(repo, { recursive: true })
+		await execFileAsync("git", ["init", "--quiet", "--bare", repo])
+		await execFileAsync("git", [`--git-dir=${repo}`, "config", "core.bare", "false"])
+		await execFileAsync("git", [`--git-dir=${repo}`, "config", "core.autocrlf", "false"])
+		await execFileAsync("git", [`--git-dir=${repo}`, "config", "gc.auto", "0"])
+		fs.mkdirSync(path.join(repo, "info"), { recursive: true })
+		fs.writeFileSync(path.join(repo, "info", "exclude"), DEFAULT_EXCLUDES.join("\n") + "\n")
+	}
+
+	/** Stage the folder's current state and return its tree hash */
+	private async snapshotTree(target: CheckpointTarget): Promise<string> {
+		await this.ensureRepo(target)
+		await this.git(target, ["add", "--all", "--ignore-errors", "."]).catch((error) => {
+			// --ignore-errors still exits non-zero when a file could not be read; the rest is staged
+			log.warn(`[Checkpoints] Some files in ${target.dir} could not be added: ${error.message}`)
+		})
+		return (await this.git(target, ["write-tree"])).trim()
+	}
+
+	/** Snapshot the folder. Returns null when skipIfUnchanged is set and nothing changed. */
+	create(target: CheckpointTarget, options: CheckpointOptions): Promise<Checkpoint | null> {
+		return this.serialize(`${target.projectId}/${target.agentId}`, () => this.createUnlocked(target, options))
+	}
+
+	private async createUnlocked(target: CheckpointTarget, options: CheckpointOptions): Promise<Checkpoint | null> {
+		if (!fs.existsSync(target.dir)) return null
+		const tree = await this.snapshotTree(target)
+		const checkpoints = this.readMetadata(target.projectId, target.agentId)
+		const latest = checkpoints.filter((c) => isOfFolder(c, target.dir)).pop()
+
+		if (options.skipIfUnchanged && latest) {
+			const latestTree = (await this.git(target, ["rev-parse", `${latest.commit}^{tree}`]).catch(() => "")).trim()
+			if (latestTree === tree) return null
+		}
+
+		const message = `${options.label}\n\ntrigger: ${options.trigger}${options.taskId ? `\ntask: ${options.taskId}` : ""}`
+		const commit = (await this.git(target, ["commit-tree", tree, "-m", message])).trim()
+		const id = commit.slice(0, 12)
+		await this.git(target, ["update-ref", `refs/checkpoints/${id}`, commit])
+		const fileCount = (await this.git(target, ["ls-files"])).split("\n").filter(Boolean).length
+
+		const checkpoint: Checkpoint = {
+			id,
+			commit,
+			projectId: target.projectId,
+			agentId: target.agentId,
+			dir: target.dir,
+			trigger: options.trigger,
+			label: options.label,
+			taskId: options.taskId,
+			tool: options.tool,
+			restoredFrom: options.restoredFrom,
+			fileCount,
+			createdAt: new Date().toISOString(),
+		}
+		checkpoints.push(checkpoint)
+		await this.prune(target, checkpoints)
+		this.writeMetadata(target.projectId, target.agentId, checkpoints)
+		log.info(`[Checkpoints] ${target.projectId}/${target.agentId}: ${id} (${options.label})`)
+		return checkpoint
+	}
+
+	/**
+	 * Drop the oldest checkpoints beyond the limit, but keep each task's
+	 * task-start checkpoint while the task may still need a rollback.
+	 */
+	private async prune(target: CheckpointTarget, checkpoints: Checkpoint[]): Promise<void> {
+		let excess = checkpoints.length - this.maxCheckpoints
+		for (let i = 0; i < checkpoints.length && excess > 0; ) {
+			const checkpoint = checkpoints[i]
+			const isTaskStart = checkpoint.trigger === "task-start" && checkpoint.taskId
+			const newerTaskStart = isTaskStart && checkpoints.some((c, j) => j > i && c.trigger === "task-start" && c.taskId === checkpoint.taskId)
+			if (isTaskStart && !newerTaskStart) {
+				i++
+				continue
+			}
+			await this.git(target, ["update-ref", "-d", `refs/checkpoints/${checkpoint.id}`]).catch(() => undefined)
+			checkpoints.splice(i, 1)
+			excess--
+		}
+	}
+
+	/** Checkpoints of an agent's folders (or only of `dir`), newest first */
+	list(projectId: string, agentId: string, filter?: { taskId?: string; dir?: string }): Checkpoint[] {
+		return this.readMetadata(projectId, agentId)
+			.filter((c) => (!filter?.taskId || c.taskId === filter.taskId) && (!filter?.dir || isOfFolder(c, filter.dir)))
+			.reverse()
+	}
+
+	get(projectId: string, agentId: string, checkpointId: string): Checkpoint | undefined {
+		return this.readMetadata(projectId, agentId).find((c) => c.id === checkpointId)
+	}
+
+	/**
+	 * The checkpoint taken when a task was started (the latest one, if restarted).
+	 * Without agentId, every folder of the project is searched; with dir, only
+	 * checkpoints of that folder count.
+	 */
+	findTaskStart(projectId: string, taskId: string, agentId?: string, dir?: string): Checkpoint | undefined {
+		const projectDir = path.join(this.baseDir, sanitizeFilename(projectId))
+		const agentIds = agentId
+			? [agentId]
+			: fs.existsSync(projectDir)
+				? fs.readdirSync(projectDir).flatMap((dir) => this.readMetadata(projectId, dir).slice(0, 1).map((c) => c.agentId))
+				: []
+		return agentIds
+			.flatMap((id) => this.list(projectId, id, { taskId, dir }).filter((c) => c.trigger === "task-start"))
+			.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+	}
+
+	/** Changes from a checkpoint to another checkpoint, or to the folder's current state */
+	diff(target: CheckpointTarget, fromId: string, toId?: string): Promise<CheckpointDiff> {
+		return this.serialize(`${target.projectId}/${target.agentId}`, async () => {
+			const from = this.require(target, fromId)
+			let range: string[]
+			if (toId) {
+				range = [from.commit, this.require(target, toId).commit]
+			} else {
+				await this.snapshotTree(target)
+				range = ["--cached", from.commit]
+			}
+			const nameStatus = await this.git(target, ["diff", "--no-renames", "--name-status", ...range])
+			const files = nameStatus
+				.split("\n")
+				.filter(Boolean)
+				.map((line) => {
+					const [status, ...rest] = line.split("\t")
+					return { status: status.charAt(0) as CheckpointFileChange["status"], path: rest.join("\t") }
+				})
+			let patch = await this.git(target, ["diff", "--no-renames", "--no-color", ...range], 64 * 1024 * 1024)
+			const truncated = patch.length > MAX_PATCH_BYTES
+			if (truncated) patch = patch.slice(0, MAX_PATCH_BYTES)
+			return { from: fromId, to: toId || "working", files, patch, truncated }
+		})
+	}
+
+	/**
+	 * Put the folder back to a checkpoint. The current state is checkpointed
+	 * first, so a restore can itself be undone.
+	 */
+	restore(target: CheckpointTarget, checkpointId: string, label?: string): Promise<RestoreResult> {
+		return this.serialize(`${target.projectId}/${target.agentId}`, async () => {
+			const restored = this.require(target, checkpointId)
+			if (!fs.existsSync(target.dir)) throw new Error(`Folder of checkpoint ${checkpointId} no longer exists: ${target.dir}`)
+			const backup = await this.createUnlocked(target, {
+				trigger: "manual",
+				label: `Before restoring ${checkpointId}`,
+				taskId: restored.taskId,
+				skipIfUnchanged: true,
+			})
+			// The index now holds every current file, so --reset -u also deletes files
+			// that did not exist in the checkpoint
+			await this.git(target, ["read-tree", "--reset", "-u", restored.commit])
+			const checkpoint = (await this.createUnlocked(target, {
+				trigger: "restore",
+				label: label || `Restored ${checkpointId} (${restored.label})`,
+				taskId: restored.taskId,
+				restoredFrom: checkpointId,
+			}))!
+			return { restored, backup, checkpoint }
+		})
+	}
+
+	private require(target: CheckpointTarget, checkpointId: string): Checkpoint {
+		const checkpoint = this.get(target.projectId, target.agentId, checkpointId)
+		if (!checkpoint) throw new Error(`Checkpoint not found: ${checkpointId}`)
+		if (!isOfFolder(checkpoint, target.dir)) throw new Error(`Checkpoint ${checkpointId} is of ${checkpoint.dir}, not ${target.dir}`)
+		return checkpoint
+	}
+
+	/** Delete all checkpoints of a project */
+	removeProject(projectId: string): void {
+		fs.rmSync(path.join(this.baseDir, sanitizeFilename(projectId)), { recursive: true, force: true })
+	}
+}